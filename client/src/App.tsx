@@ -13,33 +13,52 @@ import { OrgUnitManager } from "./components/OrgUnitManager";
 import { CategoryManager } from "./components/CategoryManager";
 import { LogoManager } from "./components/LogoManager";
 import { OpportunityCategoryManager } from "./components/OpportunityCategoryManager";
+import { ServiceAccountManager } from "./components/ServiceAccountManager";
+import { PermissionManager } from "./components/PermissionManager";
+import { MatrixManager } from "./components/MatrixManager";
+import { OwnerDirectoryManager } from "./components/OwnerDirectoryManager";
 import { OpportunityFilters, filterOpportunities, type OpportunityFiltersState } from "./components/OpportunityFilters";
 import { IssueFilters, filterIssues, type IssueFiltersState } from "./components/IssueFilters";
 import { IssueRegister } from "./components/IssueRegister";
 import { IssueMatrix } from "./components/IssueMatrix";
 import { HelpContent } from "./components/HelpContent";
 import { IssueDetailView } from "./components/IssueDetailView";
-import { ReportChartCapture } from "./components/ReportChartCapture";
-import type { Category, Issue, LegalEntity, Opportunity, OpportunityCategory, OrganizationalUnit, Risk } from "./types";
+import { ReportChartCapture, type ReportImages } from "./components/ReportChartCapture";
+import { RiskSimulation } from "./components/RiskSimulation";
+import { MitigationRoiView } from "./components/MitigationRoi";
+import { CriteriaRubricView } from "./components/CriteriaRubricView";
+import { PortfolioDashboard } from "./components/PortfolioDashboard";
+import { RelationshipGraphView } from "./components/RelationshipGraph";
+import { ReviewQueue } from "./components/ReviewQueue";
+import { BoardMeetings } from "./components/BoardMeetings";
+import { LoginScreen } from "./components/LoginScreen";
+import type { AuthUser, Category, CriteriaRubric, Issue, LegalEntity, LegalEntityMatrices, Opportunity, OpportunityCategory, OrganizationalUnit, RioItemType, Risk, RiskSimulationResult } from "./types";
 import { generateRIOPowerPointReport, downloadPptx } from "./utils/pptxReport";
+import { canEditOrgUnit, hasOrgUnitRole } from "./utils/permissions";
+import { ownerFilterOptions } from "./utils/owners";
 
 const API = "/api";
 
-type MainTab = "risk_register" | "risk_matrix" | "opportunity_register" | "opportunity_matrix" | "issue_register" | "issue_matrix";
+type MainTab = "risk_register" | "risk_matrix" | "risk_simulation" | "mitigation_roi" | "opportunity_register" | "opportunity_matrix" | "issue_register" | "issue_matrix" | "relationships" | "review_queue" | "board_meetings" | "criteria";
+
+const ITEM_REGISTER_TABS: Record<RioItemType, MainTab> = { risk: "risk_register", issue: "issue_register", opportunity: "opportunity_register" };
 
 export default function App() {
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [view, setView] = useState<"risks" | "help" | "settings">("risks");
   const [mainTab, setMainTab] = useState<MainTab>("risk_register");
   const [legalEntities, setLegalEntities] = useState<LegalEntity[]>([]);
   const [selectedLegalEntity, setSelectedLegalEntity] = useState<LegalEntity | null>(null);
   const [selectedOrgUnit, setSelectedOrgUnit] = useState<OrganizationalUnit | null>(null);
+  const [includeDescendants, setIncludeDescendants] = useState(false);
   const [risks, setRisks] = useState<Risk[]>([]);
   const [risksLoading, setRisksLoading] = useState(false);
   const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
   const [opportunitiesLoading, setOpportunitiesLoading] = useState(false);
-  const [filters, setFilters] = useState<RiskFiltersState>({ categories: new Set(), statuses: new Set() });
-  const [opportunityFilters, setOpportunityFilters] = useState<OpportunityFiltersState>({ categories: [], statuses: [] });
-  const [issueFilters, setIssueFilters] = useState<IssueFiltersState>({ categories: [], statuses: [] });
+  const [filters, setFilters] = useState<RiskFiltersState>({ categories: new Set(), statuses: new Set(), owner: "" });
+  const [opportunityFilters, setOpportunityFilters] = useState<OpportunityFiltersState>({ categories: [], statuses: [], owner: "" });
+  const [issueFilters, setIssueFilters] = useState<IssueFiltersState>({ categories: [], statuses: [], owner: "" });
   const [issues, setIssues] = useState<Issue[]>([]);
   const [issuesLoading, setIssuesLoading] = useState(false);
   const [selectedRiskId, setSelectedRiskId] = useState<string | null>(null);
@@ -47,15 +66,20 @@ export default function App() {
   const [selectedIssueId, setSelectedIssueId] = useState<string | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [opportunityCategories, setOpportunityCategories] = useState<OpportunityCategory[]>([]);
+  const [matrices, setMatrices] = useState<LegalEntityMatrices | null>(null);
+  const [rubric, setRubric] = useState<CriteriaRubric | null>(null);
   const [logoKey, setLogoKey] = useState(0);
   const [pptxGenerating, setPptxGenerating] = useState(false);
   const [capturingCharts, setCapturingCharts] = useState(false);
 
+  const canEdit = canEditOrgUnit(currentUser, selectedOrgUnit?.id);
+  /** List query for the selected unit, plus its child units in roll-up mode */
+  const scopeQuery = selectedOrgUnit ? `organizationalUnitId=${selectedOrgUnit.id}${includeDescendants ? "&includeDescendants=true" : ""}` : "";
   const safeCategories = Array.isArray(categories) ? categories : [];
   const safeOpportunityCategories = Array.isArray(opportunityCategories) ? opportunityCategories : [];
 
   const handleCaptureComplete = useCallback(
-    async (images: { riskMatrix?: string; issueMatrix?: string; oppMatrix?: string }) => {
+    async (images: ReportImages, simulation: RiskSimulationResult | null) => {
       if (!selectedLegalEntity || !selectedOrgUnit) return;
       try {
         const blob = await generateRIOPowerPointReport({
@@ -67,7 +91,10 @@ export default function App() {
           opportunities,
           categories: safeCategories,
           opportunityCategories: safeOpportunityCategories,
+          riskMatrix: matrices?.risk.definition,
+          opportunityMatrix: matrices?.opportunity.definition,
           images,
+          simulation,
         });
         const safe = (selectedOrgUnit.name ?? "report").replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 40);
         downloadPptx(blob, `RIO-Report-${safe}.pptx`);
@@ -79,7 +106,7 @@ export default function App() {
         setCapturingCharts(false);
       }
     },
-    [selectedLegalEntity, selectedOrgUnit, risks, issues, opportunities, safeCategories, safeOpportunityCategories]
+    [selectedLegalEntity, selectedOrgUnit, risks, issues, opportunities, safeCategories, safeOpportunityCategories, matrices]
   );
 
   const handleGeneratePowerPoint = () => {
@@ -88,7 +115,50 @@ export default function App() {
     setCapturingCharts(true);
   };
 
+  const loadCurrentUser = useCallback(() => {
+    return fetch(`${API}/auth/me`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((user: AuthUser | null) => setCurrentUser(user))
+      .catch(() => setCurrentUser(null))
+      .finally(() => setAuthChecked(true));
+  }, []);
+
+  useEffect(() => {
+    loadCurrentUser();
+  }, [loadCurrentUser]);
+
+  /** Start or stop an impersonation session, then reload as the new effective user with a fresh scope. */
+  const switchSession = (path: string, body?: object) => {
+    fetch(`${API}/auth/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body ?? {}),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        setSelectedRiskId(null);
+        setSelectedOpportunityId(null);
+        setSelectedIssueId(null);
+        setSelectedLegalEntity(null);
+        setSelectedOrgUnit(null);
+        setView("risks");
+        return loadCurrentUser();
+      })
+      .catch((e) => alert(`Failed to switch user: ${e.message}`));
+  };
+
+  const handleSignOut = () => {
+    fetch(`${API}/auth/logout`, { method: "POST" })
+      .then((r) => r.json())
+      .then((data: { redirectUrl?: string | null }) => {
+        setCurrentUser(null);
+        if (data?.redirectUrl) window.location.href = data.redirectUrl;
+      })
+      .catch((e) => console.error("Failed to sign out:", e));
+  };
+
   const refreshLegalEntities = useCallback(() => {
+    if (!currentUser) return;
     fetch(`${API}/legal-entities`)
       .then((r) => (r.ok ? r.json() : []))
       .then((data) => setLegalEntities(Array.isArray(data) ? data : []))
@@ -96,12 +166,12 @@ export default function App() {
         console.error("Failed to load entities:", e);
         setLegalEntities([]);
       });
-  }, []);
+  }, [currentUser]);
 
   const refreshRisks = useCallback(() => {
     if (!selectedOrgUnit) return;
     setRisksLoading(true);
-    fetch(`${API}/risks?organizationalUnitId=${selectedOrgUnit.id}`)
+    fetch(`${API}/risks?${scopeQuery}`)
       .then((r) => {
         if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
         return r.json();
@@ -113,12 +183,12 @@ export default function App() {
         alert(`Failed to load risks: ${e.message}`);
       })
       .finally(() => setRisksLoading(false));
-  }, [selectedOrgUnit?.id]);
+  }, [selectedOrgUnit?.id, scopeQuery]);
 
   const refreshOpportunities = useCallback(() => {
     if (!selectedOrgUnit) return;
     setOpportunitiesLoading(true);
-    fetch(`${API}/opportunities?organizationalUnitId=${selectedOrgUnit.id}`)
+    fetch(`${API}/opportunities?${scopeQuery}`)
       .then((r) => {
         if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
         return r.json();
@@ -130,12 +200,12 @@ export default function App() {
         alert(`Failed to load opportunities: ${e.message}`);
       })
       .finally(() => setOpportunitiesLoading(false));
-  }, [selectedOrgUnit?.id]);
+  }, [selectedOrgUnit?.id, scopeQuery]);
 
   const refreshIssues = useCallback(() => {
     if (!selectedOrgUnit) return;
     setIssuesLoading(true);
-    fetch(`${API}/issues?organizationalUnitId=${selectedOrgUnit.id}`)
+    fetch(`${API}/issues?${scopeQuery}`)
       .then((r) => {
         if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
         return r.json();
@@ -147,9 +217,21 @@ export default function App() {
         alert(`Failed to load issues: ${e.message}`);
       })
       .finally(() => setIssuesLoading(false));
+  }, [selectedOrgUnit?.id, scopeQuery]);
+
+  const refreshRubric = useCallback(() => {
+    if (!selectedOrgUnit) return;
+    fetch(`${API}/organizational-units/${selectedOrgUnit.id}/rubric`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => setRubric(data))
+      .catch((e) => {
+        console.error("Failed to load rubric:", e);
+        setRubric(null);
+      });
   }, [selectedOrgUnit?.id]);
 
   const refreshCategories = useCallback(() => {
+    if (!currentUser) return;
     fetch(`${API}/categories`)
       .then((r) => (r.ok ? r.json() : []))
       .then((data) => setCategories(Array.isArray(data) ? data : []))
@@ -157,9 +239,10 @@ export default function App() {
         console.error("Failed to load categories:", e);
         setCategories([]);
       });
-  }, []);
+  }, [currentUser]);
 
   const refreshOpportunityCategories = useCallback(() => {
+    if (!currentUser) return;
     fetch(`${API}/opportunity-categories`)
       .then((r) => (r.ok ? r.json() : []))
       .then((data) => setOpportunityCategories(Array.isArray(data) ? data : []))
@@ -167,7 +250,7 @@ export default function App() {
         console.error("Failed to load opportunity categories:", e);
         setOpportunityCategories([]);
       });
-  }, []);
+  }, [currentUser]);
 
   useEffect(() => {
     refreshLegalEntities();
@@ -178,41 +261,109 @@ export default function App() {
     refreshOpportunityCategories();
   }, [refreshCategories, refreshOpportunityCategories]);
 
+  const refreshMatrices = useCallback(() => {
+    if (!selectedLegalEntity) {
+      setMatrices(null);
+      return;
+    }
+    fetch(`${API}/legal-entities/${selectedLegalEntity.id}/matrices`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => setMatrices(data))
+      .catch((e) => {
+        console.error("Failed to load matrices:", e);
+        setMatrices(null);
+      });
+  }, [selectedLegalEntity?.id]);
+
+  useEffect(() => {
+    refreshMatrices();
+  }, [refreshMatrices]);
+
   useEffect(() => {
     if (selectedOrgUnit) {
       refreshRisks();
       refreshOpportunities();
       refreshIssues();
+      refreshRubric();
     } else {
       setRisks([]);
       setOpportunities([]);
       setIssues([]);
+      setRubric(null);
     }
-    setSelectedIssueId(null);
-  }, [selectedOrgUnit, refreshRisks, refreshOpportunities, refreshIssues]);
+  }, [selectedOrgUnit, refreshRisks, refreshOpportunities, refreshIssues, refreshRubric]);
 
   const handleSelectLegalEntity = (entity: LegalEntity | null) => {
     setSelectedLegalEntity(entity);
     setSelectedOrgUnit(null);
+    setIncludeDescendants(false);
+    setSelectedIssueId(null);
   };
 
   const handleSelectOrgUnit = (unit: OrganizationalUnit | null) => {
     setSelectedOrgUnit(unit);
+    setIncludeDescendants(false);
+    setSelectedIssueId(null);
+  };
+
+  /**
+   * Open the register of a risk, issue or opportunity in its PPD, and the item itself when given
+   * (portfolio drill-down, escalation and relationship links). Stays in the current scope when the
+   * item belongs to the selected PPD.
+   */
+  const handleOpenItem = (type: RioItemType, orgUnitId: string, itemId?: string) => {
+    if (orgUnitId !== selectedOrgUnit?.id) {
+      const unit = selectedLegalEntity?.organizationalUnits.find((u) => u.id === orgUnitId);
+      if (!unit) return;
+      handleSelectOrgUnit(unit);
+    }
+    setMainTab(ITEM_REGISTER_TABS[type]);
+    setSelectedRiskId(type === "risk" ? (itemId ?? null) : null);
+    setSelectedIssueId(type === "issue" ? (itemId ?? null) : null);
+    setSelectedOpportunityId(type === "opportunity" ? (itemId ?? null) : null);
+  };
+
+  /** Open an item created by a conversion; its register is reloaded first so the new item is there. */
+  const handleOpenConvertedItem = (type: RioItemType, orgUnitId: string, itemId: string) => {
+    if (type === "risk") refreshRisks();
+    else if (type === "issue") refreshIssues();
+    else refreshOpportunities();
+    handleOpenItem(type, orgUnitId, itemId);
   };
 
   const tabGroups: { groupLabel: string; theme: { bg: string; border: string; accent: string }; tabs: { id: MainTab; label: string }[] }[] = [
-    { groupLabel: "Risk", theme: { bg: "#fffbeb", border: "#d97706", accent: "#d97706" }, tabs: [{ id: "risk_register", label: "Risk Register" }, { id: "risk_matrix", label: "5×5 Risk Matrix" }] },
+    { groupLabel: "Risk", theme: { bg: "#fffbeb", border: "#d97706", accent: "#d97706" }, tabs: [{ id: "risk_register", label: "Risk Register" }, { id: "risk_matrix", label: "5×5 Risk Matrix" }, { id: "risk_simulation", label: "Simulation" }, { id: "mitigation_roi", label: "Mitigation ROI" }] },
     { groupLabel: "Issues", theme: { bg: "#fef2f2", border: "#dc2626", accent: "#dc2626" }, tabs: [{ id: "issue_register", label: "Issue Register" }, { id: "issue_matrix", label: "1×5 Issue Matrix" }] },
     { groupLabel: "Opportunity", theme: { bg: "#eff6ff", border: "#2563eb", accent: "#2563eb" }, tabs: [{ id: "opportunity_register", label: "Opportunity Register" }, { id: "opportunity_matrix", label: "5×5 Opportunity Matrix" }] },
+    { groupLabel: "Program", theme: { bg: "#f9fafb", border: "#6b7280", accent: "#4b5563" }, tabs: [{ id: "relationships", label: "Relationships" }, { id: "review_queue", label: "Review Queue" }, { id: "board_meetings", label: "Board Meetings" }, { id: "criteria", label: "Criteria Rubrics" }] },
   ];
 
   const selectedRisk = selectedRiskId ? risks.find((r) => r.id === selectedRiskId) : null;
   const selectedOpportunity = selectedOpportunityId ? opportunities.find((o) => o.id === selectedOpportunityId) : null;
   const selectedIssue = selectedIssueId ? issues.find((i) => i.id === selectedIssueId) : null;
 
+  if (!authChecked) return null;
+
+  if (!currentUser) {
+    return (
+      <>
+        <Header view={view} onViewChange={setView} logoKey={logoKey} />
+        <LoginScreen />
+      </>
+    );
+  }
+
   return (
     <>
-      <Header view={view} onViewChange={setView} logoKey={logoKey} />
+      <Header
+        view={view}
+        onViewChange={setView}
+        logoKey={logoKey}
+        currentUser={currentUser}
+        onSignOut={handleSignOut}
+        onImpersonate={(u) => switchSession("impersonate", { userId: u.id })}
+        onStopImpersonating={() => switchSession("impersonate/stop")}
+      />
       <main style={{ maxWidth: 1200, margin: "0 auto", padding: "1.5rem 1rem" }}>
         {view === "risks" && (
           <>
@@ -224,29 +375,41 @@ export default function App() {
                   </h2>
                   <OrgUnitSelector
                     legalEntities={legalEntities}
+                    currentUser={currentUser}
                     selectedLegalEntity={selectedLegalEntity}
                     selectedOrgUnit={selectedOrgUnit}
                     onSelectLegalEntity={handleSelectLegalEntity}
                     onSelectOrgUnit={handleSelectOrgUnit}
+                    includeDescendants={includeDescendants}
+                    onIncludeDescendantsChange={setIncludeDescendants}
                   />
                 </div>
                 {selectedLegalEntity && selectedOrgUnit && (
-                  <button
-                    onClick={handleGeneratePowerPoint}
-                    disabled={pptxGenerating}
-                    style={{
-                      padding: "0.5rem 1rem",
-                      background: pptxGenerating ? "#9ca3af" : "#156082",
-                      color: "white",
-                      border: "none",
-                      borderRadius: 6,
-                      cursor: pptxGenerating ? "wait" : "pointer",
-                      fontSize: "0.875rem",
-                    }}
-                    title="Generate PowerPoint report (Entity + PPD)"
-                  >
-                    {pptxGenerating ? "Generating…" : "Generate PowerPoint Report"}
-                  </button>
+                  <div style={{ display: "flex", gap: "0.5rem" }}>
+                    <button
+                      onClick={() => handleSelectOrgUnit(null)}
+                      style={{ padding: "0.5rem 1rem", background: "white", color: "#374151", border: "1px solid #d1d5db", borderRadius: 6, cursor: "pointer", fontSize: "0.875rem" }}
+                      title="Back to the entity's portfolio dashboard"
+                    >
+                      Portfolio Dashboard
+                    </button>
+                    <button
+                      onClick={handleGeneratePowerPoint}
+                      disabled={pptxGenerating}
+                      style={{
+                        padding: "0.5rem 1rem",
+                        background: pptxGenerating ? "#9ca3af" : "#156082",
+                        color: "white",
+                        border: "none",
+                        borderRadius: 6,
+                        cursor: pptxGenerating ? "wait" : "pointer",
+                        fontSize: "0.875rem",
+                      }}
+                      title="Generate PowerPoint report (Entity + PPD)"
+                    >
+                      {pptxGenerating ? "Generating…" : "Generate PowerPoint Report"}
+                    </button>
+                  </div>
                 )}
               </div>
             </section>
@@ -259,6 +422,8 @@ export default function App() {
                 opportunities={opportunities}
                 categories={safeCategories}
                 opportunityCategories={safeOpportunityCategories}
+                matrices={matrices}
+                includeDescendants={includeDescendants}
                 onCaptureComplete={handleCaptureComplete}
               />
             )}
@@ -266,17 +431,17 @@ export default function App() {
               <>
                 {!selectedRisk && !selectedOpportunity && !selectedIssue && (mainTab === "risk_register" || mainTab === "risk_matrix") && (
                   <section style={{ marginBottom: "1rem" }}>
-                    <RiskFilters categories={safeCategories} filters={filters} onChange={setFilters} />
+                    <RiskFilters categories={safeCategories} owners={ownerFilterOptions(risks)} filters={filters} onChange={setFilters} />
                   </section>
                 )}
                 {!selectedRisk && !selectedOpportunity && !selectedIssue && (mainTab === "opportunity_register" || mainTab === "opportunity_matrix") && (
                   <section style={{ marginBottom: "1rem" }} key="opp-filters">
-                    <OpportunityFilters categories={safeOpportunityCategories} filters={opportunityFilters} onChange={setOpportunityFilters} />
+                    <OpportunityFilters categories={safeOpportunityCategories} owners={ownerFilterOptions(opportunities)} filters={opportunityFilters} onChange={setOpportunityFilters} />
                   </section>
                 )}
                 {!selectedRisk && !selectedOpportunity && !selectedIssue && (mainTab === "issue_register" || mainTab === "issue_matrix") && (
                   <section style={{ marginBottom: "1rem" }} key="issue-filters">
-                    <IssueFilters categories={safeCategories} filters={issueFilters} onChange={setIssueFilters} />
+                    <IssueFilters categories={safeCategories} owners={ownerFilterOptions(issues)} filters={issueFilters} onChange={setIssueFilters} />
                   </section>
                 )}
 
@@ -287,6 +452,17 @@ export default function App() {
                     orgUnit={selectedOrgUnit}
                     onBack={() => setSelectedRiskId(null)}
                     onUpdate={refreshRisks}
+                    canEdit={canEditOrgUnit(currentUser, selectedRisk.organizationalUnitId)}
+                    currentUserId={currentUser.id}
+                    canModerateComments={hasOrgUnitRole(currentUser, selectedRisk.organizationalUnitId, "admin")}
+                    matrix={matrices?.risk.definition}
+                    rubric={rubric}
+                    onOpenRisk={(orgUnitId, riskId) => {
+                      refreshRisks();
+                      handleOpenItem("risk", orgUnitId, riskId);
+                    }}
+                    onOpenItem={(item) => handleOpenItem(item.type, item.organizationalUnit.id, item.id)}
+                    onOpenConvertedItem={handleOpenConvertedItem}
                     onIssueCreated={(issueId) => {
                       setSelectedRiskId(null);
                       setMainTab("issue_register");
@@ -301,6 +477,13 @@ export default function App() {
                     orgUnit={selectedOrgUnit}
                     onBack={() => setSelectedOpportunityId(null)}
                     onUpdate={refreshOpportunities}
+                    canEdit={canEditOrgUnit(currentUser, selectedOpportunity.organizationalUnitId)}
+                    currentUserId={currentUser.id}
+                    canModerateComments={hasOrgUnitRole(currentUser, selectedOpportunity.organizationalUnitId, "admin")}
+                    matrix={matrices?.opportunity.definition}
+                    rubric={rubric}
+                    onOpenItem={(item) => handleOpenItem(item.type, item.organizationalUnit.id, item.id)}
+                    onOpenConvertedItem={handleOpenConvertedItem}
                   />
                 ) : selectedIssue ? (
                   <IssueDetailView
@@ -309,12 +492,18 @@ export default function App() {
                     orgUnit={selectedOrgUnit}
                     onBack={() => setSelectedIssueId(null)}
                     onUpdate={refreshIssues}
+                    canEdit={canEditOrgUnit(currentUser, selectedIssue.organizationalUnitId)}
+                    currentUserId={currentUser.id}
+                    canModerateComments={hasOrgUnitRole(currentUser, selectedIssue.organizationalUnitId, "admin")}
+                    rubric={rubric}
                     onSelectRisk={(riskId) => {
                       setSelectedIssueId(null);
                       setMainTab("risk_register");
                       setSelectedRiskId(riskId);
                       refreshRisks();
                     }}
+                    onOpenItem={(item) => handleOpenItem(item.type, item.organizationalUnit.id, item.id)}
+                    onOpenConvertedItem={handleOpenConvertedItem}
                   />
                 ) : (
                   <>
@@ -365,6 +554,11 @@ export default function App() {
                           loading={risksLoading}
                           onUpdate={refreshRisks}
                           onSelectRisk={setSelectedRiskId}
+                          canEdit={canEdit}
+                          matrix={matrices?.risk.definition}
+                          rubric={rubric}
+                          showOrgUnit={includeDescendants}
+                          includeDescendants={includeDescendants}
                         />
                       </section>
                     )}
@@ -375,9 +569,20 @@ export default function App() {
                           orgUnit={selectedOrgUnit}
                           risks={filterRisks(risks, filters)}
                           onSelectRisk={setSelectedRiskId}
+                          matrix={matrices?.risk.definition}
                         />
                       </section>
                     )}
+                    {mainTab === "risk_simulation" && (
+                      <section>
+                        <RiskSimulation orgUnit={selectedOrgUnit} risks={risks} includeDescendants={includeDescendants} />
+                      </section>
+                    )}
+                    {mainTab === "mitigation_roi" && (
+                      <section>
+                        <MitigationRoiView orgUnit={selectedOrgUnit} risks={risks} onSelectRisk={setSelectedRiskId} includeDescendants={includeDescendants} />
+                      </section>
+                    )}
                     {mainTab === "opportunity_register" && (
                       <section>
                         <OpportunityRegister
@@ -387,6 +592,10 @@ export default function App() {
                           loading={opportunitiesLoading}
                           onUpdate={refreshOpportunities}
                           onSelectOpportunity={setSelectedOpportunityId}
+                          canEdit={canEdit}
+                          matrix={matrices?.opportunity.definition}
+                          rubric={rubric}
+                          showOrgUnit={includeDescendants}
                         />
                       </section>
                     )}
@@ -397,6 +606,7 @@ export default function App() {
                           orgUnit={selectedOrgUnit}
                           opportunities={filterOpportunities(opportunities, opportunityFilters)}
                           onSelectOpportunity={setSelectedOpportunityId}
+                          matrix={matrices?.opportunity.definition}
                         />
                       </section>
                     )}
@@ -409,6 +619,9 @@ export default function App() {
                           loading={issuesLoading}
                           onUpdate={refreshIssues}
                           onSelectIssue={setSelectedIssueId}
+                          canEdit={canEdit}
+                          rubric={rubric}
+                          showOrgUnit={includeDescendants}
                         />
                       </section>
                     )}
@@ -422,15 +635,63 @@ export default function App() {
                         />
                       </section>
                     )}
+                    {mainTab === "relationships" && (
+                      <section>
+                        <RelationshipGraphView
+                          orgUnit={selectedOrgUnit}
+                          includeDescendants={includeDescendants}
+                          onOpenItem={(item) => handleOpenItem(item.type, item.organizationalUnit.id, item.id)}
+                        />
+                      </section>
+                    )}
+                    {mainTab === "review_queue" && (
+                      <section>
+                        <ReviewQueue
+                          orgUnit={selectedOrgUnit}
+                          includeDescendants={includeDescendants}
+                          matrices={matrices}
+                          canManage={hasOrgUnitRole(currentUser, selectedOrgUnit.id, "admin")}
+                          onOpenItem={(item) => handleOpenItem(item.type, item.organizationalUnit.id, item.id)}
+                          onCadenceSaved={() => {
+                            refreshRisks();
+                            refreshIssues();
+                            refreshOpportunities();
+                          }}
+                        />
+                      </section>
+                    )}
+                    {mainTab === "board_meetings" && (
+                      <section>
+                        <BoardMeetings
+                          orgUnit={selectedOrgUnit}
+                          includeDescendants={includeDescendants}
+                          canEditUnit={(orgUnitId) => canEditOrgUnit(currentUser, orgUnitId)}
+                          onOpenItem={(item) => handleOpenItem(item.type, item.organizationalUnit.id, item.id)}
+                        />
+                      </section>
+                    )}
+                    {mainTab === "criteria" && (
+                      <section>
+                        <CriteriaRubricView
+                          orgUnit={selectedOrgUnit}
+                          rubric={rubric}
+                          canManage={hasOrgUnitRole(currentUser, selectedOrgUnit.id, "admin")}
+                          onSaved={refreshRubric}
+                        />
+                      </section>
+                    )}
                   </>
                 )}
               </>
             )}
 
             {!selectedOrgUnit && selectedLegalEntity && (
-              <p style={{ color: "#6b7280", padding: "2rem" }}>
-                Select a Program, Project, or Department to view and manage risks, opportunities, and issues.
-              </p>
+              <>
+                <p style={{ color: "#6b7280", margin: "0 0 1rem" }}>
+                  Select a Program, Project, or Department to view and manage risks, opportunities, and issues.
+                </p>
+                <PortfolioDashboard legalEntity={selectedLegalEntity} matrices={matrices} onSelectOrgUnit={(orgUnitId, riskId) => handleOpenItem("risk", orgUnitId, riskId)} />
+              </>
             )}
 
             {!selectedLegalEntity && (
@@ -443,7 +704,7 @@ export default function App() {
 
         {view === "help" && <HelpContent />}
 
-        {view === "settings" && (
+        {view === "settings" && currentUser.isAdmin && (
           <section style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}>
             <LogoManager onLogoUploaded={() => setLogoKey((k) => k + 1)} />
             <LegalEntityManager onUpdate={refreshLegalEntities} />
@@ -456,6 +717,10 @@ export default function App() {
                 <OpportunityCategoryManager onUpdate={() => { refreshOpportunityCategories(); refreshOpportunities(); }} />
               </div>
             </div>
+            <PermissionManager legalEntities={legalEntities} currentUserId={currentUser.id} onUpdate={loadCurrentUser} />
+            <OwnerDirectoryManager onUpdate={() => { refreshRisks(); refreshIssues(); refreshOpportunities(); }} />
+            <MatrixManager legalEntities={legalEntities} onUpdate={() => { refreshMatrices(); refreshRisks(); refreshOpportunities(); }} />
+            <ServiceAccountManager legalEntities={legalEntities} />
           </section>
         )}
       </main>
@@ -0,0 +1,488 @@
+import { useEffect, useState } from "react";
+import type { BoardMeeting, BoardMeetingActionItem, BoardMeetingAgendaItem, RioItemSummary, RioItemType } from "../types";
+import { formatAuditAuthor } from "../utils/auditAuthor";
+import { RIO_ITEM_COLORS, RIO_ITEM_LABELS } from "../utils/relationships";
+
+const API = "/api";
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const labelStyle = { display: "block", fontSize: "0.75rem", marginBottom: "0.25rem" };
+const btnPrimary = { padding: "0.4rem 0.75rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.8125rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const btnDanger = { ...btnPrimary, background: "#dc2626" };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", textAlign: "left" as const };
+const cardStyle = { background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.25rem 1.5rem" };
+const h3Style = { margin: "0 0 0.75rem", fontSize: "1rem", fontWeight: 600 };
+const thStyle = { padding: "0.4rem 0.6rem", textAlign: "left" as const, fontWeight: 600, color: "#6b7280", fontSize: "0.8125rem", borderBottom: "1px solid #e5e7eb" };
+const tdStyle = { padding: "0.4rem 0.6rem", fontSize: "0.875rem", verticalAlign: "top" as const, borderBottom: "1px solid #f3f4f6" };
+
+function ItemTypeBadge({ type }: { type: RioItemType }) {
+  return (
+    <span style={{ padding: "0 0.4rem", borderRadius: 4, fontSize: "0.6875rem", fontWeight: 600, color: RIO_ITEM_COLORS[type], border: `1px solid ${RIO_ITEM_COLORS[type]}` }}>
+      {RIO_ITEM_LABELS[type]}
+    </span>
+  );
+}
+
+/** Send a JSON request; rejects with the API's error message. */
+function send(path: string, method: "POST" | "PATCH" | "DELETE", body?: object): Promise<unknown> {
+  return fetch(`${API}/board-meetings/${path}`, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  }).then((r) => {
+    if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+    return r.status === 204 ? null : r.json();
+  });
+}
+
+type HeaderForm = { title: string; meetingDate: string; location: string; attendees: string };
+type AgendaForm = { title: string; discussion: string; decision: string };
+type ActionForm = { description: string; owner: string; dueDate: string; agendaItemId: string };
+
+const emptyAction = (): ActionForm => ({ description: "", owner: "", dueDate: "", agendaItemId: "" });
+
+interface BoardMeetingDetailProps {
+  meetingId: string;
+  /** Editor on the meeting's unit */
+  canEdit: boolean;
+  onBack: () => void;
+  onDeleted: () => void;
+  onOpenItem?: (item: RioItemSummary) => void;
+}
+
+/**
+ * One board meeting: attendees, the agenda with the decision on each item, action items and notes.
+ * A decision recorded on an agenda item linked to a risk, issue or opportunity is also written to
+ * that item's audit log by the server. "Export minutes" downloads the minutes as Markdown.
+ */
+export function BoardMeetingDetail({ meetingId, canEdit, onBack, onDeleted, onOpenItem }: BoardMeetingDetailProps) {
+  const [meeting, setMeeting] = useState<BoardMeeting | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [headerForm, setHeaderForm] = useState<HeaderForm | null>(null);
+  const [notes, setNotes] = useState<string | null>(null);
+  const [editingAgendaId, setEditingAgendaId] = useState<string | null>(null);
+  const [agendaForm, setAgendaForm] = useState<AgendaForm>({ title: "", discussion: "", decision: "" });
+  const [addingAgenda, setAddingAgenda] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<RioItemSummary[]>([]);
+  const [target, setTarget] = useState<RioItemSummary | null>(null);
+  const [topic, setTopic] = useState("");
+  const [actionForm, setActionForm] = useState<ActionForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMeeting = () => {
+    fetch(`${API}/board-meetings/${meetingId}`)
+      .then((r) => (r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`))))
+      .then((data: BoardMeeting) => {
+        setMeeting(data);
+        setLoadError(false);
+      })
+      .catch((e) => {
+        console.error("Failed to load meeting:", e);
+        setLoadError(true);
+      });
+  };
+
+  useEffect(() => {
+    setMeeting(null);
+    setHeaderForm(null);
+    setNotes(null);
+    setEditingAgendaId(null);
+    setAddingAgenda(false);
+    setActionForm(null);
+    loadMeeting();
+  }, [meetingId]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!addingAgenda || !q || target) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      fetch(`${API}/relationships/search?q=${encodeURIComponent(q)}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((items: RioItemSummary[]) => setResults(Array.isArray(items) ? items : []))
+        .catch(() => setResults([]));
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query, addingAgenda, target]);
+
+  /** Run a change, then reload the meeting; errors show under the header. */
+  const run = (request: Promise<unknown>, done?: () => void) => {
+    setError(null);
+    request
+      .then(() => {
+        done?.();
+        loadMeeting();
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to save meeting"));
+  };
+
+  const exportMinutes = () => {
+    fetch(`${API}/board-meetings/${meetingId}/minutes`)
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        const fileName = /filename="([^"]+)"/.exec(r.headers.get("Content-Disposition") ?? "")?.[1] ?? "RMB-minutes.md";
+        return r.blob().then((blob) => ({ blob, fileName }));
+      })
+      .then(({ blob, fileName }) => {
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = fileName;
+        a.click();
+        URL.revokeObjectURL(url);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to export minutes"));
+  };
+
+  if (loadError) {
+    return (
+      <div style={cardStyle}>
+        <button type="button" onClick={onBack} style={{ ...linkStyle, marginBottom: "0.75rem" }}>← Back to meetings</button>
+        <p style={{ color: "#b91c1c", margin: 0 }}>Failed to load the meeting.</p>
+      </div>
+    );
+  }
+  if (!meeting) return <p style={{ color: "#6b7280" }}>Loading...</p>;
+
+  const agendaNumber = new Map(meeting.agendaItems.map((a, i) => [a.id, i + 1]));
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the meeting "${meeting.title}" with its agenda and action items? Decisions stay in the items' audit logs.`)) return;
+    send(meeting.id, "DELETE")
+      .then(onDeleted)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to delete meeting"));
+  };
+
+  const handleSaveHeader = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (headerForm) run(send(meeting.id, "PATCH", headerForm), () => setHeaderForm(null));
+  };
+
+  const startEditAgenda = (a: BoardMeetingAgendaItem) => {
+    setEditingAgendaId(a.id);
+    setAgendaForm({ title: a.title, discussion: a.discussion ?? "", decision: a.decision ?? "" });
+  };
+
+  const handleSaveAgenda = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingAgendaId) run(send(`${meeting.id}/agenda-items/${editingAgendaId}`, "PATCH", agendaForm), () => setEditingAgendaId(null));
+  };
+
+  const resetAddAgenda = () => {
+    setAddingAgenda(false);
+    setQuery("");
+    setTarget(null);
+    setTopic("");
+  };
+
+  const handleAddAgenda = (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = target ? { itemType: target.type, itemId: target.id, title: topic.trim() || undefined } : { title: topic };
+    run(send(`${meeting.id}/agenda-items`, "POST", body), resetAddAgenda);
+  };
+
+  const handleDeleteAgenda = (a: BoardMeetingAgendaItem) => {
+    if (!confirm(`Remove "${a.title}" from the agenda?`)) return;
+    run(send(`${meeting.id}/agenda-items/${a.id}`, "DELETE"));
+  };
+
+  const handleAddAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (actionForm) run(send(`${meeting.id}/action-items`, "POST", { ...actionForm, agendaItemId: actionForm.agendaItemId || null }), () => setActionForm(null));
+  };
+
+  const toggleAction = (ai: BoardMeetingActionItem) => run(send(`${meeting.id}/action-items/${ai.id}`, "PATCH", { completed: !ai.completedAt }));
+
+  const handleDeleteAction = (ai: BoardMeetingActionItem) => {
+    if (!confirm(`Delete the action item "${ai.description}"?`)) return;
+    run(send(`${meeting.id}/action-items/${ai.id}`, "DELETE"));
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+      <div style={cardStyle}>
+        <button type="button" onClick={onBack} style={{ ...linkStyle, marginBottom: "0.75rem" }}>← Back to meetings</button>
+        {headerForm ? (
+          <form onSubmit={handleSaveHeader} style={{ display: "flex", flexDirection: "column", gap: "0.75rem", fontSize: "0.875rem" }}>
+            <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 1fr", gap: "0.75rem" }}>
+              <div>
+                <label style={labelStyle}>Title *</label>
+                <input value={headerForm.title} onChange={(e) => setHeaderForm({ ...headerForm, title: e.target.value })} required style={formInputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Date *</label>
+                <input type="date" value={headerForm.meetingDate} onChange={(e) => setHeaderForm({ ...headerForm, meetingDate: e.target.value })} required style={formInputStyle} />
+              </div>
+              <div>
+                <label style={labelStyle}>Location</label>
+                <input value={headerForm.location} onChange={(e) => setHeaderForm({ ...headerForm, location: e.target.value })} style={formInputStyle} />
+              </div>
+            </div>
+            <div>
+              <label style={labelStyle}>Attendees (comma or line separated)</label>
+              <textarea value={headerForm.attendees} onChange={(e) => setHeaderForm({ ...headerForm, attendees: e.target.value })} rows={3} style={formInputStyle} />
+            </div>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button type="submit" style={btnPrimary}>Save</button>
+              <button type="button" onClick={() => setHeaderForm(null)} style={btnSecondary}>Cancel</button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "1rem" }}>
+              <div>
+                <h2 style={{ margin: 0, fontSize: "1.25rem", fontWeight: 600 }}>{meeting.title}</h2>
+                <p style={{ margin: "0.25rem 0 0", color: "#6b7280", fontSize: "0.875rem" }}>
+                  {meeting.meetingDate.slice(0, 10)}
+                  {meeting.location && <> · {meeting.location}</>} · {meeting.organizationalUnit.name}
+                  {formatAuditAuthor(meeting) && <> · scheduled by {formatAuditAuthor(meeting)}</>}
+                </p>
+              </div>
+              <div style={{ display: "flex", gap: "0.5rem", flexShrink: 0 }}>
+                <button type="button" onClick={exportMinutes} style={btnSecondary}>Export minutes</button>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setHeaderForm({ title: meeting.title, meetingDate: meeting.meetingDate.slice(0, 10), location: meeting.location ?? "", attendees: meeting.attendees.join("\n") })
+                    }
+                    style={btnSecondary}
+                  >
+                    Edit
+                  </button>
+                )}
+                {canEdit && <button type="button" onClick={handleDelete} style={btnDanger}>Delete</button>}
+              </div>
+            </div>
+            <div style={{ marginTop: "0.75rem", fontSize: "0.875rem" }}>
+              <strong style={{ fontWeight: 600 }}>Attendees:</strong>{" "}
+              {meeting.attendees.length === 0 ? (
+                <span style={{ color: "#6b7280" }}>None recorded</span>
+              ) : (
+                meeting.attendees.map((name) => (
+                  <span key={name} style={{ display: "inline-block", margin: "0.15rem 0.3rem 0.15rem 0", padding: "0.1rem 0.5rem", borderRadius: 9999, background: "#f3f4f6", color: "#374151", fontSize: "0.8125rem" }}>
+                    {name}
+                  </span>
+                ))
+              )}
+            </div>
+          </>
+        )}
+        {error && <p style={{ color: "#dc2626", fontSize: "0.875rem", margin: "0.75rem 0 0" }}>{error}</p>}
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <h3 style={h3Style}>Agenda and decisions</h3>
+          {canEdit && !addingAgenda && <button type="button" onClick={() => setAddingAgenda(true)} style={btnPrimary}>+ Add agenda item</button>}
+        </div>
+        {meeting.agendaItems.length === 0 && !addingAgenda && <p style={{ color: "#6b7280", margin: 0, fontSize: "0.875rem" }}>No agenda items yet.</p>}
+        <ol style={{ margin: 0, paddingLeft: "1.25rem", display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          {meeting.agendaItems.map((a) => (
+            <li key={a.id} style={{ fontSize: "0.875rem" }}>
+              {editingAgendaId === a.id ? (
+                <form onSubmit={handleSaveAgenda} style={{ display: "flex", flexDirection: "column", gap: "0.5rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6 }}>
+                  <div>
+                    <label style={labelStyle}>Topic *</label>
+                    <input value={agendaForm.title} onChange={(e) => setAgendaForm({ ...agendaForm, title: e.target.value })} required style={formInputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Discussion</label>
+                    <textarea value={agendaForm.discussion} onChange={(e) => setAgendaForm({ ...agendaForm, discussion: e.target.value })} rows={3} style={formInputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Decision{a.item ? ` (added to the ${RIO_ITEM_LABELS[a.item.type].toLowerCase()}'s audit log)` : ""}</label>
+                    <textarea value={agendaForm.decision} onChange={(e) => setAgendaForm({ ...agendaForm, decision: e.target.value })} rows={2} style={formInputStyle} />
+                  </div>
+                  <div style={{ display: "flex", gap: "0.5rem" }}>
+                    <button type="submit" style={btnPrimary}>Save</button>
+                    <button type="button" onClick={() => setEditingAgendaId(null)} style={btnSecondary}>Cancel</button>
+                  </div>
+                </form>
+              ) : (
+                <div>
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: "0.5rem" }}>
+                    <span>
+                      <strong style={{ fontWeight: 600 }}>{a.title}</strong>
+                      {a.item && (
+                        <span style={{ marginLeft: "0.5rem" }}>
+                          <ItemTypeBadge type={a.item.type} />{" "}
+                          {onOpenItem ? (
+                            <button type="button" onClick={() => onOpenItem(a.item!)} style={linkStyle}>
+                              {a.item.name}
+                            </button>
+                          ) : (
+                            a.item.name
+                          )}
+                          {a.item.organizationalUnit.id !== meeting.organizationalUnitId && <span style={{ color: "#6b7280" }}> · {a.item.organizationalUnit.name}</span>}
+                        </span>
+                      )}
+                      {a.itemType && !a.item && <span style={{ marginLeft: "0.5rem", color: "#6b7280" }}>({RIO_ITEM_LABELS[a.itemType]} not available)</span>}
+                    </span>
+                    {canEdit && (
+                      <span style={{ display: "flex", gap: "0.75rem", flexShrink: 0, fontSize: "0.8125rem" }}>
+                        <button type="button" onClick={() => startEditAgenda(a)} style={linkStyle}>{a.decision ? "Edit" : "Record decision"}</button>
+                        <button type="button" onClick={() => handleDeleteAgenda(a)} style={{ ...linkStyle, color: "#dc2626" }}>Remove</button>
+                      </span>
+                    )}
+                  </div>
+                  {a.discussion && <p style={{ margin: "0.35rem 0 0", color: "#374151", whiteSpace: "pre-wrap" }}>{a.discussion}</p>}
+                  {a.decision && (
+                    <div style={{ marginTop: "0.35rem", padding: "0.4rem 0.75rem", background: "#ecfdf5", borderLeft: "3px solid #059669", borderRadius: 4 }}>
+                      <strong style={{ fontWeight: 600, color: "#065f46" }}>Decision:</strong> <span style={{ whiteSpace: "pre-wrap" }}>{a.decision}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+        {addingAgenda && (
+          <form onSubmit={handleAddAgenda} style={{ marginTop: "0.75rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, fontSize: "0.875rem", display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+            {target ? (
+              <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+                <ItemTypeBadge type={target.type} />
+                <strong style={{ fontWeight: 500 }}>{target.name}</strong>
+                <span style={{ color: "#6b7280" }}>· {target.organizationalUnit.name}</span>
+                <button type="button" onClick={() => setTarget(null)} style={{ ...linkStyle, fontSize: "0.8125rem" }}>Change</button>
+              </div>
+            ) : (
+              <div>
+                <label style={labelStyle}>Linked item (optional)</label>
+                <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search risks, issues and opportunities by name" style={formInputStyle} autoFocus />
+                {results.length > 0 && (
+                  <ul style={{ margin: "0.25rem 0 0", padding: 0, listStyle: "none", background: "white", border: "1px solid #e5e7eb", borderRadius: 6, maxHeight: 220, overflow: "auto" }}>
+                    {results.map((item) => (
+                      <li key={`${item.type}:${item.id}`}>
+                        <button
+                          type="button"
+                          onClick={() => setTarget(item)}
+                          style={{ ...linkStyle, color: "#111827", display: "flex", gap: "0.5rem", alignItems: "center", width: "100%", padding: "0.4rem 0.6rem" }}
+                        >
+                          <ItemTypeBadge type={item.type} />
+                          <span>{item.name}</span>
+                          <span style={{ color: "#6b7280" }}>· {item.organizationalUnit.name}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            <div>
+              <label style={labelStyle}>{target ? "Topic (defaults to the item's name)" : "Topic *"}</label>
+              <input value={topic} onChange={(e) => setTopic(e.target.value)} required={!target} style={formInputStyle} />
+            </div>
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button type="submit" style={btnPrimary}>Add</button>
+              <button type="button" onClick={resetAddAgenda} style={btnSecondary}>Cancel</button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <h3 style={h3Style}>Action items</h3>
+          {canEdit && !actionForm && <button type="button" onClick={() => setActionForm(emptyAction())} style={btnPrimary}>+ Add action item</button>}
+        </div>
+        {meeting.actionItems.length === 0 && !actionForm && <p style={{ color: "#6b7280", margin: 0, fontSize: "0.875rem" }}>No action items yet.</p>}
+        {meeting.actionItems.length > 0 && (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={{ ...thStyle, width: 40 }}>Done</th>
+                <th style={thStyle}>Action</th>
+                <th style={thStyle}>Owner</th>
+                <th style={thStyle}>Due</th>
+                <th style={thStyle}>Agenda item</th>
+                {canEdit && <th style={thStyle} />}
+              </tr>
+            </thead>
+            <tbody>
+              {meeting.actionItems.map((ai) => {
+                const overdue = !ai.completedAt && ai.dueDate != null && ai.dueDate.slice(0, 10) < new Date().toISOString().slice(0, 10);
+                const from = ai.agendaItemId ? agendaNumber.get(ai.agendaItemId) : undefined;
+                return (
+                  <tr key={ai.id}>
+                    <td style={tdStyle}>
+                      <input type="checkbox" checked={!!ai.completedAt} disabled={!canEdit} onChange={() => toggleAction(ai)} title={ai.completedAt ? `Completed ${ai.completedAt.slice(0, 10)}` : "Mark done"} />
+                    </td>
+                    <td style={{ ...tdStyle, textDecoration: ai.completedAt ? "line-through" : undefined, color: ai.completedAt ? "#6b7280" : undefined }}>{ai.description}</td>
+                    <td style={tdStyle}>{ai.owner ?? "—"}</td>
+                    <td style={{ ...tdStyle, whiteSpace: "nowrap", color: overdue ? "#b91c1c" : undefined, fontWeight: overdue ? 600 : undefined }}>{ai.dueDate?.slice(0, 10) ?? "—"}</td>
+                    <td style={{ ...tdStyle, color: "#6b7280" }}>{from ? `#${from}` : "—"}</td>
+                    {canEdit && (
+                      <td style={{ ...tdStyle, textAlign: "right" }}>
+                        <button type="button" onClick={() => handleDeleteAction(ai)} style={{ ...linkStyle, color: "#dc2626", fontSize: "0.8125rem" }}>Delete</button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        {actionForm && (
+          <form onSubmit={handleAddAction} style={{ marginTop: "0.75rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, fontSize: "0.875rem", display: "grid", gridTemplateColumns: "2fr 1fr 1fr 1fr", gap: "0.5rem", alignItems: "end" }}>
+            <div>
+              <label style={labelStyle}>Action *</label>
+              <input value={actionForm.description} onChange={(e) => setActionForm({ ...actionForm, description: e.target.value })} required style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Owner</label>
+              <input value={actionForm.owner} onChange={(e) => setActionForm({ ...actionForm, owner: e.target.value })} style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Due date</label>
+              <input type="date" value={actionForm.dueDate} onChange={(e) => setActionForm({ ...actionForm, dueDate: e.target.value })} style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Agenda item</label>
+              <select value={actionForm.agendaItemId} onChange={(e) => setActionForm({ ...actionForm, agendaItemId: e.target.value })} style={formInputStyle}>
+                <option value="">—</option>
+                {meeting.agendaItems.map((a, i) => (
+                  <option key={a.id} value={a.id}>
+                    {i + 1}. {a.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ display: "flex", gap: "0.5rem", gridColumn: "1 / -1" }}>
+              <button type="submit" style={btnPrimary}>Add</button>
+              <button type="button" onClick={() => setActionForm(null)} style={btnSecondary}>Cancel</button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <h3 style={h3Style}>Notes</h3>
+          {canEdit && notes == null && <button type="button" onClick={() => setNotes(meeting.notes ?? "")} style={btnSecondary}>Edit notes</button>}
+        </div>
+        {notes != null ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              run(send(meeting.id, "PATCH", { notes }), () => setNotes(null));
+            }}
+            style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}
+          >
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={6} style={formInputStyle} placeholder="General minutes not tied to an agenda item" />
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button type="submit" style={btnPrimary}>Save notes</button>
+              <button type="button" onClick={() => setNotes(null)} style={btnSecondary}>Cancel</button>
+            </div>
+          </form>
+        ) : (
+          <p style={{ margin: 0, fontSize: "0.875rem", color: meeting.notes ? "#374151" : "#6b7280", whiteSpace: "pre-wrap" }}>{meeting.notes ?? "No notes."}</p>
+        )}
+      </div>
+    </div>
+  );
+}
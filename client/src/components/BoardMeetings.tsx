@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import type { BoardMeetingSummary, OrganizationalUnit, RioItemSummary } from "../types";
+import { BoardMeetingDetail } from "./BoardMeetingDetail";
+
+const API = "/api";
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const labelStyle = { display: "block", fontSize: "0.75rem", marginBottom: "0.25rem" };
+const btnPrimary = { padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.875rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const thStyle = { padding: "0.5rem 0.75rem", textAlign: "left" as const, fontWeight: 600, color: "#6b7280", fontSize: "0.8125rem", borderBottom: "1px solid #e5e7eb" };
+const tdStyle = { padding: "0.5rem 0.75rem", fontSize: "0.875rem", verticalAlign: "top" as const, borderBottom: "1px solid #f3f4f6" };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", fontWeight: 500, textAlign: "left" as const };
+
+type NewMeeting = { title: string; meetingDate: string; location: string; attendees: string };
+
+const emptyMeeting = (): NewMeeting => ({ title: "Risk Management Board", meetingDate: new Date().toISOString().slice(0, 10), location: "", attendees: "" });
+
+interface BoardMeetingsProps {
+  orgUnit: OrganizationalUnit;
+  /** Roll-up: include child units' meetings */
+  includeDescendants?: boolean;
+  /** Editors of a meeting's unit schedule meetings and record agenda, decisions and action items */
+  canEditUnit: (orgUnitId: string) => boolean;
+  onOpenItem?: (item: RioItemSummary) => void;
+}
+
+/** Board Meetings tab: the PPD's risk management board meetings, newest first, and the open meeting. */
+export function BoardMeetings({ orgUnit, includeDescendants = false, canEditUnit, onOpenItem }: BoardMeetingsProps) {
+  const [meetings, setMeetings] = useState<BoardMeetingSummary[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<NewMeeting | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMeetings = () => {
+    setLoading(true);
+    fetch(`${API}/board-meetings?organizationalUnitId=${encodeURIComponent(orgUnit.id)}${includeDescendants ? "&includeDescendants=true" : ""}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => setMeetings(Array.isArray(data) ? data : null))
+      .catch((e) => {
+        console.error("Failed to load meetings:", e);
+        setMeetings(null);
+      })
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    setSelectedId(null);
+    setForm(null);
+    loadMeetings();
+  }, [orgUnit.id, includeDescendants]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setError(null);
+    fetch(`${API}/board-meetings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ organizationalUnitId: orgUnit.id, ...form }),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        return r.json();
+      })
+      .then((created: { id: string }) => {
+        setForm(null);
+        loadMeetings();
+        setSelectedId(created.id);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to create meeting"));
+  };
+
+  if (selectedId) {
+    const summary = meetings?.find((m) => m.id === selectedId);
+    return (
+      <BoardMeetingDetail
+        meetingId={selectedId}
+        canEdit={canEditUnit(summary?.organizationalUnitId ?? orgUnit.id)}
+        onBack={() => {
+          setSelectedId(null);
+          loadMeetings();
+        }}
+        onDeleted={() => {
+          setSelectedId(null);
+          loadMeetings();
+        }}
+        onOpenItem={onOpenItem}
+      />
+    );
+  }
+
+  return (
+    <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.25rem 1.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.25rem" }}>
+        <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Risk management board meetings</h3>
+        {canEditUnit(orgUnit.id) && !form && (
+          <button type="button" onClick={() => setForm(emptyMeeting())} style={btnPrimary}>
+            + Schedule meeting
+          </button>
+        )}
+      </div>
+      <p style={{ margin: "0 0 1rem", color: "#6b7280", fontSize: "0.8125rem" }}>
+        Attendees, agenda items linked to risks, issues and opportunities, decisions and action items. Decisions are added to the linked items' audit logs.
+      </p>
+      {form && (
+        <form onSubmit={handleCreate} style={{ display: "flex", flexDirection: "column", gap: "0.75rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, marginBottom: "1rem", fontSize: "0.875rem" }}>
+          <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 1fr", gap: "0.75rem" }}>
+            <div>
+              <label style={labelStyle}>Title *</label>
+              <input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} required style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Date *</label>
+              <input type="date" value={form.meetingDate} onChange={(e) => setForm({ ...form, meetingDate: e.target.value })} required style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Location</label>
+              <input value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} style={formInputStyle} />
+            </div>
+          </div>
+          <div>
+            <label style={labelStyle}>Attendees (comma or line separated)</label>
+            <textarea value={form.attendees} onChange={(e) => setForm({ ...form, attendees: e.target.value })} rows={2} style={formInputStyle} />
+          </div>
+          {error && <p style={{ margin: 0, color: "#dc2626" }}>{error}</p>}
+          <div style={{ display: "flex", gap: "0.5rem" }}>
+            <button type="submit" style={btnPrimary}>Create meeting</button>
+            <button type="button" onClick={() => { setForm(null); setError(null); }} style={btnSecondary}>Cancel</button>
+          </div>
+        </form>
+      )}
+      {loading && !meetings && <p style={{ color: "#6b7280", margin: 0 }}>Loading...</p>}
+      {!loading && !meetings && <p style={{ color: "#b91c1c", margin: 0 }}>Failed to load meetings.</p>}
+      {meetings && meetings.length === 0 && <p style={{ color: "#6b7280", margin: 0 }}>No meetings yet.</p>}
+      {meetings && meetings.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Date</th>
+              <th style={thStyle}>Meeting</th>
+              {includeDescendants && <th style={thStyle}>Unit</th>}
+              <th style={thStyle}>Attendees</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>Agenda items</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>Decisions</th>
+              <th style={{ ...thStyle, textAlign: "right" }}>Open actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {meetings.map((m) => (
+              <tr key={m.id}>
+                <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>{m.meetingDate.slice(0, 10)}</td>
+                <td style={tdStyle}>
+                  <button type="button" onClick={() => setSelectedId(m.id)} style={linkStyle}>
+                    {m.title}
+                  </button>
+                  {m.location && <div style={{ color: "#6b7280", fontSize: "0.75rem" }}>{m.location}</div>}
+                </td>
+                {includeDescendants && <td style={{ ...tdStyle, color: "#6b7280" }}>{m.organizationalUnit.name}</td>}
+                <td style={{ ...tdStyle, color: "#6b7280" }}>{m.attendees.length}</td>
+                <td style={{ ...tdStyle, textAlign: "right" }}>{m.agendaItemCount}</td>
+                <td style={{ ...tdStyle, textAlign: "right" }}>{m.decisionCount}</td>
+                <td style={{ ...tdStyle, textAlign: "right", color: m.openActionItemCount > 0 ? "#b45309" : undefined, fontWeight: m.openActionItemCount > 0 ? 600 : undefined }}>
+                  {m.openActionItemCount}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+import { Fragment, useEffect, useRef, useState } from "react";
+import type { CommentRevision, Person, RioComment, RioItemType } from "../types";
+import { formatAuditAuthor } from "../utils/auditAuthor";
+import { RIO_ITEM_LABELS } from "../utils/relationships";
+
+const API = "/api";
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const btnPrimary = { padding: "0.4rem 0.75rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.8125rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", fontSize: "0.75rem", color: "#2563eb", cursor: "pointer" as const };
+
+/** Where each item type lists its steps, and the step text to label them with. */
+const STEP_SOURCES: Record<RioItemType, { path: string; noun: string; text: (step: Record<string, unknown>) => unknown }> = {
+  risk: { path: "mitigation-steps", noun: "Mitigation step", text: (s) => s.mitigationActions },
+  issue: { path: "resolution-steps", noun: "Resolution step", text: (s) => s.plannedAction },
+  opportunity: { path: "action-plan-steps", noun: "Action plan step", text: (s) => s.plannedAction },
+};
+const ITEM_PATHS: Record<RioItemType, string> = { risk: "risks", issue: "issues", opportunity: "opportunities" };
+
+interface StepOption {
+  id: string;
+  label: string;
+}
+
+/** Comment text with the directory people picked from @mention suggestions. */
+interface Draft {
+  body: string;
+  mentions: string[];
+}
+
+const EMPTY_DRAFT: Draft = { body: "", mentions: [] };
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function jsonOrError<T>(r: Response, fallback: string): Promise<T> {
+  if (!r.ok) return r.json().then((err: { error?: string }) => Promise.reject(new Error(err?.error ?? fallback)));
+  return r.json();
+}
+
+/** Comment text with each "@Name" of a mentioned person highlighted. */
+function CommentBody({ body, mentions }: { body: string; mentions: RioComment["mentions"] }) {
+  if (mentions.length === 0) return <>{body}</>;
+  const names = [...mentions].sort((a, b) => b.displayName.length - a.displayName.length).map((m) => m.displayName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const parts = body.split(new RegExp(`(@(?:${names.join("|")}))`, "gi"));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <span key={i} style={{ color: "#1d4ed8", fontWeight: 600, background: "#eff6ff", borderRadius: 3, padding: "0 0.15rem" }}>
+            {part}
+          </span>
+        ) : (
+          <Fragment key={i}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+/** Comment box that suggests directory people after "@" and inserts "@Display Name" when one is picked. */
+function MentionTextarea({ draft, onChange, placeholder, autoFocus }: { draft: Draft; onChange: (draft: Draft) => void; placeholder: string; autoFocus?: boolean }) {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [people, setPeople] = useState<Person[]>([]);
+
+  useEffect(() => {
+    if (!query) {
+      setPeople([]);
+      return;
+    }
+    const handle = setTimeout(() => {
+      fetch(`${API}/people?search=${encodeURIComponent(query)}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setPeople(Array.isArray(data) ? data.slice(0, 6) : []))
+        .catch(() => setPeople([]));
+    }, 200);
+    return () => clearTimeout(handle);
+  }, [query]);
+
+  /** The "@word" being typed just before the caret, if any. */
+  const mentionAt = (text: string, caret: number) => /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const match = mentionAt(e.target.value, e.target.selectionStart);
+    setQuery(match && match[2] ? match[2] : null);
+    onChange({ ...draft, body: e.target.value });
+  };
+
+  const pick = (person: Person) => {
+    const caret = ref.current?.selectionStart ?? draft.body.length;
+    const match = mentionAt(draft.body, caret);
+    if (!match) return;
+    const start = caret - match[2].length - 1;
+    const body = `${draft.body.slice(0, start)}@${person.displayName} ${draft.body.slice(caret)}`;
+    onChange({ body, mentions: draft.mentions.includes(person.id) ? draft.mentions : [...draft.mentions, person.id] });
+    setQuery(null);
+    ref.current?.focus();
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <textarea
+        ref={ref}
+        value={draft.body}
+        onChange={handleChange}
+        onKeyDown={(e) => e.key === "Escape" && setQuery(null)}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={3}
+        style={{ ...formInputStyle, resize: "vertical", fontFamily: "inherit" }}
+      />
+      {query && people.length > 0 && (
+        <div style={{ position: "absolute", left: 0, right: 0, top: "100%", background: "white", border: "1px solid #e5e7eb", borderRadius: 6, boxShadow: "0 4px 12px rgba(0,0,0,0.1)", zIndex: 20 }}>
+          {people.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(p)}
+              style={{ display: "block", width: "100%", textAlign: "left", padding: "0.35rem 0.6rem", background: "white", border: "none", cursor: "pointer", fontSize: "0.8125rem" }}
+            >
+              @{p.displayName}
+              {p.email && <span style={{ color: "#6b7280" }}> · {p.email}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CommentThreadsProps {
+  itemType: RioItemType;
+  itemId: string;
+  /** False for Viewers: hides posting, replying and editing */
+  canEdit: boolean;
+  /** Signed-in user; authors edit and delete their own comments */
+  currentUserId?: string;
+  /** PPD Admin of the item's unit: may delete anyone's comment */
+  canModerate?: boolean;
+  /** Called after a post, edit or delete (each adds an audit entry) */
+  onChange?: () => void;
+}
+
+/** Comments tab of a risk, issue or opportunity detail view: threads on the item and on each of its steps. */
+export function CommentThreads({ itemType, itemId, canEdit, currentUserId, canModerate, onChange }: CommentThreadsProps) {
+  const [comments, setComments] = useState<RioComment[]>([]);
+  const [steps, setSteps] = useState<StepOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stepFilter, setStepFilter] = useState("");
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [draftStepId, setDraftStepId] = useState("");
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<CommentRevision[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadComments = () => {
+    fetch(`${API}/comments?itemType=${itemType}&itemId=${encodeURIComponent(itemId)}`)
+      .then((r) => jsonOrError<RioComment[]>(r, "Failed to load comments"))
+      .then((data) => {
+        setComments(data);
+        setError(null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Failed to load comments"))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setStepFilter("");
+    loadComments();
+    const source = STEP_SOURCES[itemType];
+    fetch(`${API}/${ITEM_PATHS[itemType]}/${itemId}/${source.path}`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: (Record<string, unknown> & { id: string; sequenceOrder: number })[]) =>
+        setSteps(
+          (Array.isArray(data) ? [...data] : [])
+            .sort((a, b) => a.sequenceOrder - b.sequenceOrder)
+            .map((s) => {
+              const text = String(source.text(s) ?? "");
+              return { id: s.id, label: `${source.noun} ${s.sequenceOrder + 1}${text ? `: ${text.length > 60 ? `${text.slice(0, 59)}…` : text}` : ""}` };
+            })
+        )
+      )
+      .catch(() => setSteps([]));
+  }, [itemType, itemId]);
+
+  /** Run a mutation, then reload the comments and tell the detail view (its audit log changed). */
+  const mutate = (request: Promise<Response>, fallback: string, done: () => void) => {
+    setSaving(true);
+    request
+      .then((r) => (r.status === 204 ? undefined : jsonOrError<unknown>(r, fallback)))
+      .then(() => {
+        done();
+        loadComments();
+        onChange?.();
+      })
+      .catch((e) => alert(e instanceof Error ? e.message : fallback))
+      .finally(() => setSaving(false));
+  };
+
+  const post = (body: Record<string, unknown>, done: () => void) =>
+    mutate(
+      fetch(`${API}/comments`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ itemType, itemId, ...body }) }),
+      "Failed to add comment",
+      done
+    );
+
+  const handlePost = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.body.trim()) return;
+    post({ body: draft.body, mentions: draft.mentions, stepId: draftStepId || null }, () => setDraft(EMPTY_DRAFT));
+  };
+
+  const handleReply = (parentId: string) => {
+    if (!replyDraft.body.trim()) return;
+    post({ body: replyDraft.body, mentions: replyDraft.mentions, parentId }, () => {
+      setReplyTo(null);
+      setReplyDraft(EMPTY_DRAFT);
+    });
+  };
+
+  const handleEdit = (comment: RioComment) => {
+    if (!editDraft.body.trim()) return;
+    mutate(
+      fetch(`${API}/comments/${comment.id}`, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(editDraft) }),
+      "Failed to update comment",
+      () => {
+        setEditing(null);
+        if (historyFor === comment.id) setHistoryFor(null);
+      }
+    );
+  };
+
+  const handleDelete = (comment: RioComment) => {
+    if (!window.confirm("Delete this comment? Its text stays in the comment's history.")) return;
+    mutate(fetch(`${API}/comments/${comment.id}`, { method: "DELETE" }), "Failed to delete comment", () => {
+      if (historyFor === comment.id) setHistoryFor(null);
+    });
+  };
+
+  const toggleHistory = (comment: RioComment) => {
+    if (historyFor === comment.id) {
+      setHistoryFor(null);
+      return;
+    }
+    setHistoryFor(comment.id);
+    setRevisions([]);
+    fetch(`${API}/comments/${comment.id}/revisions`)
+      .then((r) => jsonOrError<CommentRevision[]>(r, "Failed to load comment history"))
+      .then(setRevisions)
+      .catch((e) => console.error(e));
+  };
+
+  const stepLabel = (stepId: string) => steps.find((s) => s.id === stepId)?.label ?? `${STEP_SOURCES[itemType].noun} (removed)`;
+  const orphanStepIds = [...new Set(comments.map((c) => c.stepId).filter((id): id is string => id != null && !steps.some((s) => s.id === id)))];
+  const threads = comments.filter(
+    (c) => !c.parentId && (stepFilter === "" || (stepFilter === "item" ? !c.stepId : c.stepId === stepFilter))
+  );
+  const repliesOf = (id: string) => comments.filter((c) => c.parentId === id);
+
+  const renderComment = (comment: RioComment, isReply: boolean) => {
+    const isAuthor = !!currentUserId && comment.userId === currentUserId;
+    const deleted = comment.deletedAt != null;
+    return (
+      <div key={comment.id} style={{ padding: "0.6rem 0.75rem", background: isReply ? "white" : "#f9fafb", border: "1px solid #e5e7eb", borderRadius: 6 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem", flexWrap: "wrap", fontSize: "0.75rem", color: "#6b7280", marginBottom: "0.35rem" }}>
+          <span>
+            <strong style={{ fontWeight: 600, color: "#374151" }}>{formatAuditAuthor(comment) ?? "Unknown"}</strong> · {formatTimestamp(comment.createdAt)}
+            {comment.editedAt && !deleted && <> · edited</>}
+            {!isReply && comment.stepId && (
+              <span style={{ marginLeft: "0.5rem", padding: "0 0.4rem", borderRadius: 4, border: "1px solid #d1d5db", color: "#374151" }}>{stepLabel(comment.stepId)}</span>
+            )}
+          </span>
+          <span style={{ display: "flex", gap: "0.6rem" }}>
+            {comment.revisionCount > 0 && (
+              <button type="button" onClick={() => toggleHistory(comment)} style={linkStyle}>
+                {historyFor === comment.id ? "Hide history" : `History (${comment.revisionCount})`}
+              </button>
+            )}
+            {canEdit && !deleted && (
+              <button
+                type="button"
+                onClick={() => {
+                  setReplyTo(comment.parentId ?? comment.id);
+                  setReplyDraft(EMPTY_DRAFT);
+                }}
+                style={linkStyle}
+              >
+                Reply
+              </button>
+            )}
+            {canEdit && isAuthor && !deleted && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditing(comment.id);
+                  setEditDraft({ body: comment.body, mentions: comment.mentions.map((m) => m.id) });
+                }}
+                style={linkStyle}
+              >
+                Edit
+              </button>
+            )}
+            {((canEdit && isAuthor) || canModerate) && !deleted && (
+              <button type="button" onClick={() => handleDelete(comment)} style={{ ...linkStyle, color: "#dc2626" }}>
+                Delete
+              </button>
+            )}
+          </span>
+        </div>
+        {editing === comment.id ? (
+          <div style={{ display: "flex", flexDirection: "column", gap: "0.4rem" }}>
+            <MentionTextarea draft={editDraft} onChange={setEditDraft} placeholder="Edit comment" autoFocus />
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button type="button" onClick={() => handleEdit(comment)} disabled={saving || !editDraft.body.trim()} style={btnPrimary}>
+                Save
+              </button>
+              <button type="button" onClick={() => setEditing(null)} style={btnSecondary}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : deleted ? (
+          <p style={{ margin: 0, fontSize: "0.8125rem", color: "#9ca3af", fontStyle: "italic" }}>This comment was deleted.</p>
+        ) : (
+          <p style={{ margin: 0, fontSize: "0.875rem", color: "#111827", whiteSpace: "pre-wrap" }}>
+            <CommentBody body={comment.body} mentions={comment.mentions} />
+          </p>
+        )}
+        {historyFor === comment.id && (
+          <ul style={{ margin: "0.5rem 0 0", paddingLeft: "1.25rem", fontSize: "0.75rem", color: "#374151" }}>
+            {revisions.map((r) => (
+              <li key={r.id} style={{ marginBottom: "0.25rem" }}>
+                {r.action === "deleted" ? "Deleted" : "Edited"} by {formatAuditAuthor(r) ?? "Unknown"} · {formatTimestamp(r.createdAt)}. Text before:{" "}
+                <span style={{ whiteSpace: "pre-wrap", color: "#6b7280" }}>{r.body}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.5rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "0.75rem", flexWrap: "wrap", marginBottom: "1rem" }}>
+        <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Comments</h3>
+        <select value={stepFilter} onChange={(e) => setStepFilter(e.target.value)} style={{ ...formInputStyle, width: "auto", maxWidth: 360, padding: "0.35rem 0.5rem", fontSize: "0.8125rem" }}>
+          <option value="">All comments</option>
+          <option value="item">On the {RIO_ITEM_LABELS[itemType].toLowerCase()} itself</option>
+          {steps.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+          {orphanStepIds.map((id) => (
+            <option key={id} value={id}>
+              {stepLabel(id)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handlePost} style={{ display: "flex", flexDirection: "column", gap: "0.5rem", marginBottom: "1.25rem" }}>
+          <MentionTextarea draft={draft} onChange={setDraft} placeholder="Add a comment. Type @ to mention someone from the owner directory." />
+          <div style={{ display: "flex", gap: "0.5rem", alignItems: "center", flexWrap: "wrap" }}>
+            {steps.length > 0 && (
+              <select value={draftStepId} onChange={(e) => setDraftStepId(e.target.value)} style={{ ...formInputStyle, width: "auto", maxWidth: 360, padding: "0.35rem 0.5rem", fontSize: "0.8125rem" }}>
+                <option value="">About the {RIO_ITEM_LABELS[itemType].toLowerCase()}</option>
+                {steps.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    About {s.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button type="submit" disabled={saving || !draft.body.trim()} style={btnPrimary}>
+              Post comment
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error ? (
+        <p style={{ color: "#dc2626", margin: 0 }}>{error}</p>
+      ) : loading ? (
+        <p style={{ color: "#6b7280", margin: 0 }}>Loading comments…</p>
+      ) : threads.length === 0 ? (
+        <p style={{ color: "#6b7280", margin: 0 }}>{comments.length === 0 ? "No comments yet." : "No comments here."}</p>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          {threads.map((thread) => (
+            <div key={thread.id} style={{ display: "flex", flexDirection: "column", gap: "0.4rem" }}>
+              {renderComment(thread, false)}
+              {(repliesOf(thread.id).length > 0 || replyTo === thread.id) && (
+                <div style={{ marginLeft: "1.5rem", paddingLeft: "0.75rem", borderLeft: "2px solid #e5e7eb", display: "flex", flexDirection: "column", gap: "0.4rem" }}>
+                  {repliesOf(thread.id).map((reply) => renderComment(reply, true))}
+                  {replyTo === thread.id && (
+                    <div style={{ display: "flex", flexDirection: "column", gap: "0.4rem" }}>
+                      <MentionTextarea draft={replyDraft} onChange={setReplyDraft} placeholder="Reply" autoFocus />
+                      <div style={{ display: "flex", gap: "0.5rem" }}>
+                        <button type="button" onClick={() => handleReply(thread.id)} disabled={saving || !replyDraft.body.trim()} style={btnPrimary}>
+                          Reply
+                        </button>
+                        <button type="button" onClick={() => setReplyTo(null)} style={btnSecondary}>
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
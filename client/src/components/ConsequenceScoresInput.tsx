@@ -0,0 +1,58 @@
+import type { CSSProperties } from "react";
+import { CONSEQUENCE_DIMENSIONS, overallConsequence, type ConsequenceScores } from "../utils/riskConsequence";
+
+interface ConsequenceScoresInputProps {
+  scores: ConsequenceScores;
+  /** Overall consequence; only editable while no dimension is rated */
+  consequence: number;
+  onChange: (scores: ConsequenceScores, consequence: number) => void;
+  inputStyle: CSSProperties;
+  labelStyle: CSSProperties;
+}
+
+/** Cost / schedule / performance / other consequence selects plus the overall (max) score, for risk forms. */
+export function ConsequenceScoresInput({ scores, consequence, onChange, inputStyle, labelStyle }: ConsequenceScoresInputProps) {
+  const derived = overallConsequence(scores);
+
+  const setScore = (field: keyof ConsequenceScores, raw: string) => {
+    const next = { ...scores, [field]: raw ? parseInt(raw) : null };
+    onChange(next, overallConsequence(next) ?? consequence);
+  };
+
+  return (
+    <div style={{ gridColumn: "1 / -1" }}>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: "0.75rem" }}>
+        {CONSEQUENCE_DIMENSIONS.map((d) => (
+          <div key={d.field}>
+            <label style={labelStyle}>{d.label} consequence</label>
+            <select value={scores[d.field] ?? ""} onChange={(e) => setScore(d.field, e.target.value)} style={inputStyle}>
+              <option value="">—</option>
+              {[1, 2, 3, 4, 5].map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+        <div>
+          <label style={labelStyle}>Consequence (1-5)</label>
+          <input
+            type="number"
+            min={1}
+            max={5}
+            value={derived ?? consequence}
+            disabled={derived != null}
+            title={derived != null ? "Highest of the dimension scores" : undefined}
+            onChange={(e) => onChange(scores, parseInt(e.target.value) || 1)}
+            style={inputStyle}
+          />
+        </div>
+      </div>
+      <p style={{ margin: "0.25rem 0 0", fontSize: "0.7rem", color: "#6b7280" }}>
+        Rate cost, schedule and performance separately (other is optional); the overall consequence is the highest. Leave all blank to enter a
+        single score.
+      </p>
+    </div>
+  );
+}
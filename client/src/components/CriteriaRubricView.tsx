@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import type { CriteriaRubric, CriteriaRubricVersionSummary, OrganizationalUnit, RubricDefinition, RubricDimension } from "../types";
+
+const API = "/api";
+
+const DIMENSION_LABELS: Record<RubricDimension, string> = { cost: "Cost", schedule: "Schedule", performance: "Performance" };
+const DIMENSIONS = Object.keys(DIMENSION_LABELS) as RubricDimension[];
+const SCORES = [1, 2, 3, 4, 5];
+
+const formInputStyle = { width: "100%" as const, padding: "0.375rem 0.5rem", borderRadius: 6, border: "1px solid #d1d5db", fontSize: "0.8125rem", fontFamily: "inherit" };
+const btnPrimary = { padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.875rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const thStyle = { padding: "0.5rem 0.75rem", textAlign: "left" as const, fontWeight: 600, color: "#6b7280", fontSize: "0.8125rem", borderBottom: "1px solid #e5e7eb" };
+const tdStyle = { padding: "0.5rem 0.75rem", fontSize: "0.8125rem", verticalAlign: "top" as const, borderBottom: "1px solid #f3f4f6" };
+
+const EMPTY_SCALE = () => SCORES.map(() => "");
+const emptyDefinition = (): RubricDefinition => ({
+  likelihood: EMPTY_SCALE(),
+  consequence: { cost: EMPTY_SCALE(), schedule: EMPTY_SCALE(), performance: EMPTY_SCALE() },
+  impact: { cost: EMPTY_SCALE(), schedule: EMPTY_SCALE(), performance: EMPTY_SCALE() },
+});
+
+interface CriteriaRubricViewProps {
+  orgUnit: OrganizationalUnit;
+  /** Current rubric (null when the PPD has none) */
+  rubric: CriteriaRubric | null;
+  /** PPD Admins can publish a new version */
+  canManage?: boolean;
+  onSaved?: () => void;
+}
+
+/** Criteria Rubrics tab: the PPD's likelihood, consequence and impact criteria, with earlier versions. */
+export function CriteriaRubricView({ orgUnit, rubric, canManage = false, onSaved }: CriteriaRubricViewProps) {
+  const [versions, setVersions] = useState<CriteriaRubricVersionSummary[]>([]);
+  const [viewedVersion, setViewedVersion] = useState<number | null>(null);
+  const [viewed, setViewed] = useState<CriteriaRubric | null>(null);
+  const [draft, setDraft] = useState<RubricDefinition | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`${API}/organizational-units/${orgUnit.id}/rubric/versions`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data) => setVersions(Array.isArray(data) ? data : []))
+      .catch((e) => {
+        console.error("Failed to load rubric versions:", e);
+        setVersions([]);
+      });
+    setViewedVersion(null);
+    setDraft(null);
+  }, [orgUnit.id, rubric?.version]);
+
+  useEffect(() => {
+    if (viewedVersion == null) {
+      setViewed(null);
+      return;
+    }
+    fetch(`${API}/organizational-units/${orgUnit.id}/rubric?version=${viewedVersion}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setViewed)
+      .catch((e) => {
+        console.error("Failed to load rubric version:", e);
+        setViewed(null);
+      });
+  }, [orgUnit.id, viewedVersion]);
+
+  const shown = viewedVersion != null ? viewed : rubric;
+  const definition = draft ?? shown?.definition ?? null;
+
+  const setText = (path: ["likelihood"] | ["consequence" | "impact", RubricDimension], index: number, value: string) =>
+    setDraft((d) => {
+      if (!d) return d;
+      const replace = (scale: string[]) => scale.map((s, i) => (i === index ? value : s));
+      if (path[0] === "likelihood") return { ...d, likelihood: replace(d.likelihood) };
+      const [kind, dim] = path;
+      return { ...d, [kind]: { ...d[kind], [dim]: replace(d[kind][dim]) } };
+    });
+
+  const handleSave = () => {
+    if (!draft) return;
+    setSaving(true);
+    fetch(`${API}/organizational-units/${orgUnit.id}/rubric`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err: { error?: string }) => Promise.reject(new Error(err?.error ?? "Failed to save rubric")));
+        setDraft(null);
+        onSaved?.();
+      })
+      .catch((e) => alert(e.message))
+      .finally(() => setSaving(false));
+  };
+
+  const cell = (text: string, path: Parameters<typeof setText>[0], index: number) =>
+    draft ? (
+      <textarea value={text} onChange={(e) => setText(path, index, e.target.value)} rows={2} style={formInputStyle} />
+    ) : (
+      text || <span style={{ color: "#9ca3af" }}>—</span>
+    );
+
+  const dimensionTable = (kind: "consequence" | "impact", title: string) =>
+    definition && (
+      <div>
+        <h3 style={{ margin: "0 0 0.5rem", fontSize: "1rem" }}>{title}</h3>
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr>
+              <th style={{ ...thStyle, width: 40 }}>#</th>
+              {DIMENSIONS.map((dim) => (
+                <th key={dim} style={thStyle}>
+                  {DIMENSION_LABELS[dim]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {SCORES.map((n) => (
+              <tr key={n}>
+                <td style={{ ...tdStyle, fontWeight: 600 }}>{n}</td>
+                {DIMENSIONS.map((dim) => (
+                  <td key={dim} style={tdStyle}>
+                    {cell(definition[kind][dim][n - 1], [kind, dim], n - 1)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+
+  return (
+    <div style={{ background: "white", borderRadius: 8, padding: "1.5rem", boxShadow: "0 1px 3px rgba(0,0,0,0.1)", display: "flex", flexDirection: "column", gap: "1.25rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", gap: "1rem", flexWrap: "wrap" }}>
+        <div>
+          <h2 style={{ margin: 0, fontSize: "1.125rem" }}>Criteria Rubrics — {orgUnit.name}</h2>
+          <p style={{ margin: "0.25rem 0 0", fontSize: "0.8125rem", color: "#6b7280" }}>
+            What each likelihood, consequence and impact score means for this program. Forms show the matching criteria as guidance, and each
+            score records the rubric version it was assessed against.
+          </p>
+        </div>
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+          {versions.length > 0 && !draft && (
+            <select
+              value={viewedVersion ?? ""}
+              onChange={(e) => setViewedVersion(e.target.value ? Number(e.target.value) : null)}
+              style={{ ...formInputStyle, width: "auto" }}
+            >
+              <option value="">Current (v{rubric?.version})</option>
+              {versions.slice(1).map((v) => (
+                <option key={v.version} value={v.version}>
+                  v{v.version} · {new Date(v.createdAt).toLocaleDateString()}
+                  {v.userDisplayName ? ` · ${v.userDisplayName}` : ""}
+                </option>
+              ))}
+            </select>
+          )}
+          {canManage && !draft && viewedVersion == null && (
+            <button type="button" onClick={() => setDraft(rubric?.definition ?? emptyDefinition())} style={btnPrimary}>
+              {rubric ? "Edit (new version)" : "Define rubric"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!definition && <p style={{ margin: 0, color: "#6b7280" }}>No rubric defined for this program yet.</p>}
+
+      {definition && (
+        <>
+          {shown && !draft && (
+            <p style={{ margin: 0, fontSize: "0.75rem", color: "#6b7280" }}>
+              Version {shown.version}, saved {new Date(shown.createdAt).toLocaleString()}
+              {shown.userDisplayName ? ` by ${shown.userDisplayName}` : ""}
+            </p>
+          )}
+          <div>
+            <h3 style={{ margin: "0 0 0.5rem", fontSize: "1rem" }}>Likelihood</h3>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th style={{ ...thStyle, width: 40 }}>#</th>
+                  <th style={thStyle}>Criteria</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SCORES.map((n) => (
+                  <tr key={n}>
+                    <td style={{ ...tdStyle, fontWeight: 600 }}>{n}</td>
+                    <td style={tdStyle}>{cell(definition.likelihood[n - 1], ["likelihood"], n - 1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {dimensionTable("consequence", "Consequence (risks and issues)")}
+          {dimensionTable("impact", "Impact (opportunities)")}
+          {draft && (
+            <div style={{ display: "flex", gap: "0.5rem" }}>
+              <button type="button" onClick={handleSave} disabled={saving} style={btnPrimary}>
+                {saving ? "Saving…" : `Save as v${(rubric?.version ?? 0) + 1}`}
+              </button>
+              <button type="button" onClick={() => setDraft(null)} style={btnSecondary}>
+                Cancel
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
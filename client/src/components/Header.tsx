@@ -1,3 +1,7 @@
+import { useState } from "react";
+import type { AuthUser, UserSummary } from "../types";
+import { ImpersonateUserPicker } from "./ImpersonateUserPicker";
+
 const API = "/api";
 
 interface HeaderProps {
@@ -5,11 +9,20 @@ interface HeaderProps {
   onViewChange: (view: "risks" | "help" | "settings") => void;
   /** Cache-bust key: increment after logo upload to refresh */
   logoKey?: number;
+  /** Signed-in user; navigation is hidden when null (login screen). */
+  currentUser?: AuthUser | null;
+  onSignOut?: () => void;
+  /** Admin only: start acting as another user */
+  onImpersonate?: (user: UserSummary) => void;
+  onStopImpersonating?: () => void;
 }
 
 const LOGO_SIZE_PX = 48; // Display size; recommend 128×128 or 256×256 for upload
 
-export function Header({ view, onViewChange, logoKey = 0 }: HeaderProps) {
+export function Header({ view, onViewChange, logoKey = 0, currentUser = null, onSignOut, onImpersonate, onStopImpersonating }: HeaderProps) {
+  const [showActAs, setShowActAs] = useState(false);
+  const canActAs = !!currentUser?.isAdmin && !currentUser.impersonator && !!onImpersonate;
+
   const linkStyle = (active: boolean) => ({
     padding: "0.5rem 1rem",
     background: active ? "rgba(255,255,255,0.15)" : "transparent",
@@ -30,6 +43,34 @@ export function Header({ view, onViewChange, logoKey = 0 }: HeaderProps) {
         boxShadow: "0 1px 3px rgba(0,0,0,0.1)",
       }}
     >
+      {currentUser?.impersonator && (
+        <div
+          role="status"
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "1rem",
+            flexWrap: "wrap",
+            margin: "-1rem -1.5rem 1rem",
+            padding: "0.5rem 1.5rem",
+            background: "#f59e0b",
+            color: "#1f2937",
+            fontSize: "0.875rem",
+          }}
+        >
+          <span>
+            Acting as <strong>{currentUser.displayName}</strong> ({currentUser.username}). Signed in as {currentUser.impersonator.displayName}; changes are recorded under both names.
+          </span>
+          <button
+            type="button"
+            onClick={onStopImpersonating}
+            style={{ padding: "0.3rem 0.75rem", background: "#1f2937", color: "white", border: "none", borderRadius: 6, cursor: "pointer", fontSize: "0.8125rem" }}
+          >
+            Stop impersonating
+          </button>
+        </div>
+      )}
       <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: "1rem" }}>
         <div style={{ display: "flex", alignItems: "center", gap: "1rem" }}>
           <div
@@ -65,17 +106,45 @@ export function Header({ view, onViewChange, logoKey = 0 }: HeaderProps) {
           </p>
           </div>
         </div>
-        <nav style={{ display: "flex", gap: "0.5rem" }}>
-          <button style={linkStyle(view === "risks")} onClick={() => onViewChange("risks")}>
-            Risks, Issues, and Opportunities
-          </button>
-          <button style={linkStyle(view === "help")} onClick={() => onViewChange("help")}>
-            Help
-          </button>
-          <button style={linkStyle(view === "settings")} onClick={() => onViewChange("settings")}>
-            Settings
-          </button>
-        </nav>
+        {currentUser && (
+          <nav style={{ display: "flex", gap: "0.5rem", alignItems: "center", position: "relative" }}>
+            <button style={linkStyle(view === "risks")} onClick={() => onViewChange("risks")}>
+              Risks, Issues, and Opportunities
+            </button>
+            <button style={linkStyle(view === "help")} onClick={() => onViewChange("help")}>
+              Help
+            </button>
+            {currentUser.isAdmin && (
+              <button style={linkStyle(view === "settings")} onClick={() => onViewChange("settings")}>
+                Settings
+              </button>
+            )}
+            <span
+              style={{ marginLeft: "0.75rem", paddingLeft: "0.75rem", borderLeft: "1px solid rgba(255,255,255,0.25)", fontSize: "0.8125rem", opacity: 0.9 }}
+              title={currentUser.email ?? currentUser.username}
+            >
+              {currentUser.displayName}
+            </span>
+            {canActAs && (
+              <button style={linkStyle(showActAs)} onClick={() => setShowActAs((v) => !v)} title="Impersonate another user (support)">
+                Act as…
+              </button>
+            )}
+            <button style={{ ...linkStyle(false), border: "1px solid rgba(255,255,255,0.3)" }} onClick={onSignOut}>
+              Sign out
+            </button>
+            {canActAs && showActAs && (
+              <ImpersonateUserPicker
+                currentUserId={currentUser.id}
+                onSelect={(u) => {
+                  setShowActAs(false);
+                  onImpersonate?.(u);
+                }}
+                onClose={() => setShowActAs(false)}
+              />
+            )}
+          </nav>
+        )}
       </div>
     </header>
   );
@@ -30,11 +30,12 @@ export function HelpContent() {
         At the top of the main area, use the <strong style={strong}>Scope</strong> section:
       </p>
       <ul style={ul}>
-        <li style={li}>Choose an <strong style={strong}>Entity</strong> from the dropdown.</li>
-        <li style={li}>Then choose a <strong style={strong}>Program</strong>, <strong style={strong}>Project</strong>, or <strong style={strong}>Department</strong>.</li>
+        <li style={li}>Choose an <strong style={strong}>Entity</strong> from the dropdown. Until you pick a PPD, the entity's <strong style={strong}>portfolio dashboard</strong> is shown: risk, issue and opportunity counts by level and status for each PPD you can view, overdue mitigation steps, a 12-week risk trend sparkline per PPD, a combined heat map of active risks and the top risks across the entity. Click a PPD, risk or overdue step to open it in the Risk Register; <strong style={strong}>Portfolio Dashboard</strong> next to the scope returns to it.</li>
+        <li style={li}>Then choose a <strong style={strong}>Program</strong>, <strong style={strong}>Project</strong>, or <strong style={strong}>Department</strong>. Child units are listed indented under their parent.</li>
+        <li style={li}>When the selected PPD has child units, tick <strong style={strong}>Include child units</strong> to roll them up: registers, matrices, simulation and mitigation ROI then cover the PPD and every child unit you can view, and the registers gain an Org Unit column.</li>
       </ul>
       <p style={p}>
-        All registers and matrices show data only for the selected PPD. Change the selection anytime to switch context.
+        Otherwise all registers and matrices show data only for the selected PPD. Change the selection anytime to switch context.
       </p>
 
       <hr style={hr} />
@@ -66,7 +67,8 @@ export function HelpContent() {
         <li style={li}><strong style={strong}>Overview:</strong> Edit name, condition, If/Then, category, likelihood, consequence, status, owner. When changing status to Closed, Accepted, or Realized, you must provide a rationale.</li>
         <li style={li}><strong style={strong}>Mitigation Steps:</strong> Add, edit, reorder, and complete mitigation steps. Each step tracks planned actions, closure criteria, expected and actual dates, and L×C.</li>
         <li style={li}><strong style={strong}>Waterfall:</strong> Visual timeline of risk level over time (planned vs. actual).</li>
-        <li style={li}><strong style={strong}>Audit Log:</strong> History of all changes to the risk and its mitigation steps.</li>
+        <li style={li}><strong style={strong}>Indicators:</strong> Triggers and early-warning indicators with their readings (see 3.6).</li>
+        <li style={li}><strong style={strong}>Audit Log:</strong> History of all changes to the risk, its mitigation steps and its indicators.</li>
       </ul>
 
       <h3 style={h3}>3.4 Realized Risks → Creating an Issue</h3>
@@ -78,12 +80,42 @@ export function HelpContent() {
         <li style={li}>A form opens with fields pre-filled from the risk (name, description from Condition/If/Then, owner, category, consequence). Edit as needed and click Create.</li>
         <li style={li}>The new issue is linked to the risk. You can jump between them via the links shown in each detail view.</li>
       </ul>
+      <p style={p}>
+        The other conversions are in the <strong style={strong}>Conversions</strong> section of each detail view's Overview. Each form is pre-filled from the item you start on, and the new item stays linked to it both ways:
+      </p>
+      <ul style={ul}>
+        <li style={li}><strong style={strong}>Issue → follow-on risks:</strong> Risks the issue's consequences may still cause. An issue can spawn any number; the consequence, owner and category carry over.</li>
+        <li style={li}><strong style={strong}>Risk → opportunity:</strong> When mitigating an open or mitigating risk could also yield upside. The mitigation plan becomes the opportunity's If.</li>
+        <li style={li}><strong style={strong}>Opportunity → risk:</strong> What could go wrong in pursuing an opportunity with status Pursue now. The opportunity's impact becomes the risk's consequence.</li>
+      </ul>
+
+      <h3 style={h3}>3.5 Escalating a Risk to the Parent Unit</h3>
+      <p style={p}>
+        When an open, mitigating or accepted risk exceeds a project's authority, Editors on both the PPD and its parent unit can use <strong style={strong}>Escalate to …</strong> in the Overview's Escalation section. A rationale is required. Choose how to escalate:
+      </p>
+      <ul style={ul}>
+        <li style={li}><strong style={strong}>Linked risk:</strong> A new open risk is created in the parent with the same statement, scores and owner. The original stays with its PPD, and each risk links to the other.</li>
+        <li style={li}><strong style={strong}>Transfer:</strong> The risk moves to the parent with its mitigation steps and history, and remembers the PPD it came from.</li>
+      </ul>
+      <p style={p}>
+        <strong style={strong}>De-escalate</strong> hands the risk back, again with a rationale: a transferred risk moves back to its PPD, and a linked risk in the parent is closed. Escalations and de-escalations appear in the Audit Log of the risks involved.
+      </p>
+
+      <h3 style={h3}>3.6 Triggers and Early-Warning Indicators</h3>
+      <p style={p}>
+        The <strong style={strong}>Indicators</strong> tab of a risk lists the signals that warn it is about to happen. Each indicator has a description, the metric watched (with an optional unit), a threshold, whether it trips at or <em>above</em> or at or <em>below</em> the threshold, and a review date, shown in red once it has passed.
+      </p>
+      <ul style={ul}>
+        <li style={li}>Editors use <strong style={strong}>Record reading</strong> to log a value, optionally backdated with a note. The latest reading is the indicator's current value, and the chart shows the readings against the threshold.</li>
+        <li style={li}>When the current value crosses the threshold the indicator is flagged <strong style={strong}>Tripped</strong> automatically; it clears when a later reading is back within the threshold. Both are recorded in the Audit Log.</li>
+        <li style={li}>Tripped indicators are listed in an <strong style={strong}>Indicators tripped</strong> panel above the Risk Register and on the risk's Overview, and the register marks the risk with ⚠ and the number tripped.</li>
+      </ul>
 
       <hr style={hr} />
 
       <h2 id="issues" style={h2}>4. Issues</h2>
       <p style={p}>
-        Issues are problems that have already occurred. Each issue has a name, description, consequence (1–5), category, owner, and status. Issues use a 1×5 matrix (consequence only, since likelihood is fixed at 1).
+        Issues are problems that have already occurred. Each issue has a name, description, consequence (1–5), category, owner, and status. Status follows the lifecycle Open → Resolving → Resolved → Closed, or Ignore for issues deliberately not worked; closing or ignoring an issue requires a rationale. Resolved and closed issues no longer count toward expected exposure. Issues use a 1×5 matrix (consequence only, since likelihood is fixed at 1).
       </p>
 
       <h3 style={h3}>4.1 Issue Register</h3>
@@ -132,19 +164,79 @@ export function HelpContent() {
 
       <hr style={hr} />
 
-      <h2 id="filters" style={h2}>6. Filters</h2>
+      <h2 id="relationships" style={h2}>6. Relationships</h2>
+      <p style={p}>
+        Any risk, issue or opportunity can be linked to another, also in a different PPD. Each link has a type and reads from the item you add it on: <strong style={strong}>causes</strong>, <strong style={strong}>depends on</strong>, <strong style={strong}>duplicates</strong>, <strong style={strong}>mitigates</strong> or <strong style={strong}>related to</strong>.
+      </p>
+      <ul style={ul}>
+        <li style={li}><strong style={strong}>Related items:</strong> The Overview of every detail view lists the item's links in both directions (e.g. “Caused by” on the other end). Editors use <strong style={strong}>Add link</strong> to search items by name across the PPDs they can view, and can remove links. Links to items you cannot view are not shown.</li>
+        <li style={li}><strong style={strong}>Relationships tab:</strong> Under Program, a graph of every link touching the PPD's items. Items in other units are drawn dashed; filter by link type, drag items to rearrange, hover to highlight an item's links and click to open it.</li>
+      </ul>
+
+      <hr style={hr} />
+
+      <h2 id="reviews" style={h2}>7. Periodic Reviews</h2>
+      <p style={p}>
+        Every risk, issue and opportunity still being worked (risks that are Open, Mitigating or Accepted; issues that are Open or Resolving; opportunities to Pursue now, Defer or Reevaluate) is due for review on a cadence set by its level. Any edit counts as a review; the next review is due that many days after the latest one.
+      </p>
+      <ul style={ul}>
+        <li style={li}><strong style={strong}>Review section:</strong> The Overview of every detail view shows when the item was last reviewed, when the next review is due and its cadence. Editors use <strong style={strong}>Mark reviewed (no change)</strong>, with an optional note, to record a review without editing; it adds a version and a “Reviewed (no change)” Audit Log entry. <strong style={strong}>Change</strong> sets a cadence for that item only (leave it blank to go back to the unit's).</li>
+        <li style={li}><strong style={strong}>Overdue badge:</strong> The Risk, Issue and Opportunity Registers mark items past their next review date with <strong style={strong}>Review overdue</strong>.</li>
+        <li style={li}><strong style={strong}>Review Queue tab:</strong> Under Program, every overdue item of the PPD (and its child units when rolled up), most overdue first; click a name to open it. PPD Admins set the unit's days between reviews for each item type and level there, or reset them to the defaults (risks 30 / 60 / 90 days for high / moderate / low, issues 14 / 30 / 60, opportunities 30 / 60 / 90).</li>
+      </ul>
+
+      <hr style={hr} />
+
+      <h2 id="board-meetings" style={h2}>8. Board Meetings</h2>
+      <p style={p}>
+        The Program <strong style={strong}>Board Meetings</strong> tab records the PPD's risk management board (RMB) meetings, newest first. Editors schedule a meeting with its date, location and attendees (names need not be users); rolling up lists child units' meetings too.
+      </p>
+      <ul style={ul}>
+        <li style={li}><strong style={strong}>Agenda:</strong> Add a risk, issue or opportunity found by name, or a free topic. Each agenda item has a discussion and a decision; click a linked item's name to open it.</li>
+        <li style={li}><strong style={strong}>Decisions:</strong> Recording or changing the decision on an agenda item linked to a risk, issue or opportunity adds a “Board decision” entry, with the meeting and the decision, to that item's Audit Log.</li>
+        <li style={li}><strong style={strong}>Action items:</strong> Each has an owner, a due date and optionally the agenda item it came from; tick it off when done. Open action items past their due date are shown in red.</li>
+        <li style={li}><strong style={strong}>Export minutes:</strong> Downloads the meeting's minutes (attendees, agenda with discussion and decisions, action items and notes) as a Markdown file.</li>
+      </ul>
+
+      <hr style={hr} />
+
+      <h2 id="owners" style={h2}>9. Owners</h2>
+      <p style={p}>
+        Owners of risks, issues and opportunities come from the owner directory. In a form, click <strong style={strong}>Choose</strong> (or <strong style={strong}>Change</strong>) by Owner and search by name or email; if the person is missing, add them with “+ Add … to the directory”. Owners typed before the directory existed show as <em>not in directory</em> until an Admin merges them.
+      </p>
+      <ul style={ul}>
+        <li style={li}><strong style={strong}>Owner Directory (Admin, Settings):</strong> Add, rename or remove owners and link them to user accounts. Renaming an owner updates the owner name on all their items; removing one leaves their items with the name as a free-text owner.</li>
+        <li style={li}><strong style={strong}>Merge owner names (Admin, Settings):</strong> Click Find owner names to group free-text owners that look like the same person (e.g. “J. Smith”, “John Smith”, “jsmith”). Untick any name that doesn't belong, pick an existing owner or name a new one (optionally linked to the matching user), and click Merge. Each renamed item gets an audit entry, and the merged spellings are remembered so typing them later picks the same owner.</li>
+      </ul>
+
+      <hr style={hr} />
+
+      <h2 id="comments" style={h2}>10. Comments</h2>
+      <p style={p}>
+        Each risk, issue and opportunity detail view has a <strong style={strong}>Comments</strong> tab for discussing the item, so the conversation stays with it instead of in email. Viewers can read comments; Editors can post and reply.
+      </p>
+      <ul style={ul}>
+        <li style={li}><strong style={strong}>Threads:</strong> Post a comment about the item itself or about one of its mitigation, resolution or action plan steps (choose it next to Post comment), and click Reply to answer within a thread. Filter the tab to the item or to one step.</li>
+        <li style={li}><strong style={strong}>@mentions:</strong> Type @ and part of a name, then pick the person from the owner directory; their name is highlighted in the comment.</li>
+        <li style={li}><strong style={strong}>Edit and delete:</strong> Authors edit and delete their own comments; PPD Admins can delete any comment. Edited comments are marked, and History shows the text before each edit or deletion. A deleted comment's replies stay in the thread.</li>
+        <li style={li}><strong style={strong}>Audit Log:</strong> Adding, editing and deleting comments each add an entry with the start of the comment to the item's Audit Log.</li>
+      </ul>
+
+      <hr style={hr} />
+
+      <h2 id="filters" style={h2}>11. Filters</h2>
       <p style={p}>
         Filters appear when you’re viewing a register or matrix and no detail view is open. They apply to the current tab:
       </p>
       <ul style={ul}>
-        <li style={li}><strong style={strong}>Risk filters:</strong> Category, Status (e.g. Open, Mitigating, Closed).</li>
-        <li style={li}><strong style={strong}>Issue filters:</strong> Category, Status (Ignore, Control).</li>
-        <li style={li}><strong style={strong}>Opportunity filters:</strong> Category, Status (Pursue now, Defer, Reevaluate, Reject).</li>
+        <li style={li}><strong style={strong}>Risk filters:</strong> Category, Owner, Status (e.g. Open, Mitigating, Closed).</li>
+        <li style={li}><strong style={strong}>Issue filters:</strong> Category, Owner, Status (Open, Resolving, Resolved, Closed, Ignore).</li>
+        <li style={li}><strong style={strong}>Opportunity filters:</strong> Category, Owner, Status (Pursue now, Defer, Reevaluate, Reject).</li>
       </ul>
 
       <hr style={hr} />
 
-      <h2 id="quick-ref" style={h2}>7. Quick Reference</h2>
+      <h2 id="quick-ref" style={h2}>12. Quick Reference</h2>
       <div style={box}>
         <strong style={strong}>Registers</strong> — Lists you can sort and filter. Add items with “+ Add …”. Click a name to open the detail view.
       </div>
@@ -155,7 +247,7 @@ export function HelpContent() {
         <strong style={strong}>Detail views</strong> — Use the colored badges (Risk / Issue / Opportunity) to see which type you’re viewing. Use ← Back to return to the register or matrix.
       </div>
       <div style={box}>
-        <strong style={strong}>Audit logs</strong> — Available in each detail view. They record when items and steps were created, updated, or deleted and what changed.
+        <strong style={strong}>Audit logs</strong> — Available in each detail view. They record when items and steps were created, updated, or deleted and what changed, reviews, board decisions, and comments.
       </div>
     </section>
   );
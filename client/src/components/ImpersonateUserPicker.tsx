@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import type { UserSummary } from "../types";
+
+const API = "/api";
+
+interface ImpersonateUserPickerProps {
+  /** Id of the signed-in Admin (excluded from results) */
+  currentUserId: string;
+  onSelect: (user: UserSummary) => void;
+  onClose: () => void;
+}
+
+/** "Act as [user]" search popover for Admins (Header). */
+export function ImpersonateUserPicker({ currentUserId, onSelect, onClose }: ImpersonateUserPickerProps) {
+  const [search, setSearch] = useState("");
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const handle = setTimeout(() => {
+      setLoading(true);
+      fetch(`${API}/users?search=${encodeURIComponent(search)}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setUsers(Array.isArray(data) ? data : []))
+        .catch((e) => {
+          console.error("Failed to search users:", e);
+          setUsers([]);
+        })
+        .finally(() => setLoading(false));
+    }, 250);
+    return () => clearTimeout(handle);
+  }, [search]);
+
+  const results = users.filter((u) => u.id !== currentUserId);
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: "100%",
+        right: 0,
+        marginTop: "0.5rem",
+        width: 300,
+        background: "white",
+        color: "#111827",
+        borderRadius: 8,
+        border: "1px solid #e5e7eb",
+        boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+        padding: "0.75rem",
+        zIndex: 50,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.5rem" }}>
+        <strong style={{ fontSize: "0.875rem" }}>Act as user</strong>
+        <button type="button" onClick={onClose} style={{ background: "none", border: "none", cursor: "pointer", color: "#6b7280" }}>
+          ✕
+        </button>
+      </div>
+      <input
+        autoFocus
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search name, username or email"
+        style={{ width: "100%", padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box", marginBottom: "0.5rem" }}
+      />
+      {loading ? (
+        <p style={{ margin: 0, fontSize: "0.8125rem", color: "#6b7280" }}>Searching…</p>
+      ) : results.length === 0 ? (
+        <p style={{ margin: 0, fontSize: "0.8125rem", color: "#6b7280" }}>No users found. Users appear after their first sign-in.</p>
+      ) : (
+        <ul style={{ listStyle: "none", margin: 0, padding: 0, maxHeight: 240, overflowY: "auto" }}>
+          {results.map((u) => (
+            <li key={u.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(u)}
+                style={{ width: "100%", textAlign: "left", background: "none", border: "none", padding: "0.4rem 0.25rem", cursor: "pointer", fontSize: "0.8125rem", borderRadius: 4 }}
+              >
+                <div style={{ fontWeight: 500 }}>{u.displayName}</div>
+                <div style={{ color: "#6b7280", fontSize: "0.75rem" }}>{u.username}</div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
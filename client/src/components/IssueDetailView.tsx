@@ -1,14 +1,27 @@
 import { useRef, useState, useEffect } from "react";
-import type { Category, Issue, OrganizationalUnit } from "../types";
+import type { AuditAuthor, Category, CriteriaRubric, Issue, IssueHistoryEntry, IssueStatus, IssueSnapshot, IssueVersionEntry, OrganizationalUnit, ResolutionStepSnapshot, RioItemSummary, RioItemType } from "../types";
+import { formatAuditAuthor } from "../utils/auditAuthor";
 import { exportElementAsPngCropped } from "../utils/exportPng";
+import { formatExposure, formatQuantifiedImpact, issueExposure, pickQuantifiedImpact, toImpactRanges } from "../utils/exposure";
+import { ownerValueOf } from "../utils/owners";
 import { IssueResolutionPlanEditor } from "./IssueResolutionPlanEditor";
 import { IssueWaterfall } from "./IssueWaterfall";
+import { OwnerPicker } from "./OwnerPicker";
+import { QuantifiedImpactInput } from "./QuantifiedImpactInput";
+import { RelatedItemsPanel } from "./RelatedItemsPanel";
+import { CommentThreads } from "./CommentThreads";
+import { ItemConversions } from "./ItemConversions";
+import { ItemReview } from "./ItemReview";
+import { RubricGuidance } from "./RubricGuidance";
 
 const API = "/api";
 
 const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  resolving: "Resolving",
+  resolved: "Resolved",
+  closed: "Closed",
   ignore: "Ignore",
-  control: "Control",
 };
 
 const levelColor: Record<string, string> = {
@@ -19,14 +32,17 @@ const levelColor: Record<string, string> = {
 
 const CONSEQUENCE_LABELS = ["1: Minimal", "2: Minor", "3: Moderate", "4: Significant", "5: Severe"];
 
-type DetailTab = "overview" | "resolution_plan" | "waterfall" | "audit";
+type DetailTab = "overview" | "resolution_plan" | "waterfall" | "history" | "comments" | "audit";
+
+/** Status values that require rationale when changed to */
+const STATUS_REQUIRING_RATIONALE = ["closed", "ignore"];
 
 interface AuditChange {
   from: unknown;
   to: unknown;
 }
 
-interface AuditLogEntry {
+interface AuditLogEntry extends Partial<AuditAuthor> {
   id: string;
   entityType: string;
   entityId: string;
@@ -35,11 +51,54 @@ interface AuditLogEntry {
     changedFields?: string[];
     stepNumber?: number;
     changes?: Record<string, AuditChange>;
+    consequenceChangeReason?: string;
+    statusChangeRationale?: string;
     resolutionStepsReordered?: { from: string; to: string };
+    /** "Reviewed (no change)" entries */
+    reviewNote?: string;
+    /** Board decision entries: the meeting and the decision recorded on the agenda item */
+    meeting?: { id: string; title: string; meetingDate: string };
+    decision?: string;
+    previousDecision?: string;
+    /** Comment entries: start of the text (of the removed text on deletes), the text before an edit, and who was mentioned */
+    excerpt?: string;
+    previousExcerpt?: string;
+    mentions?: string[];
+    /** "Converted" entries: the item created from this one */
+    riskCreatedFromIssue?: { riskId: string; riskName: string };
   };
   createdAt: string;
 }
 
+const SNAPSHOT_FIELDS: (keyof IssueSnapshot)[] = [
+  "issueName", "description", "category", "consequence", "rubricVersion", "status", "owner",
+  "costImpactLow", "costImpactHigh", "scheduleImpactLowDays", "scheduleImpactHighDays",
+];
+
+const STEP_SNAPSHOT_FIELDS: (keyof ResolutionStepSnapshot)[] = [
+  "plannedAction", "estimatedStartDate", "estimatedEndDate", "expectedConsequence", "actualConsequence", "actualCompletedAt",
+];
+
+/** Newest first, each with the fields changed since the previous version of the same issue or step. */
+function withChangedFields(history: IssueHistoryEntry[]) {
+  return history
+    .map((entry, idx) => {
+      const prev = history
+        .slice(0, idx)
+        .reverse()
+        .find((e) => (e.type === "issue" ? entry.type === "issue" : entry.type === "resolution_step" && e.stepId === entry.stepId));
+      const before = prev?.snapshot as unknown as Record<string, unknown> | undefined;
+      const after = entry.snapshot as unknown as Record<string, unknown>;
+      const fields: string[] = entry.type === "issue" ? SNAPSHOT_FIELDS : STEP_SNAPSHOT_FIELDS;
+      const changed = before ? fields.filter((k) => before[k] !== after[k]) : [];
+      return { entry, before, after, changed };
+    })
+    .reverse();
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+
 function formatAuditValue(key: string, value: unknown, categoryLabels: Map<string, string>): string {
   if (value === undefined || value === null) return "—";
   if (key === "category") return categoryLabels.get(String(value)) ?? String(value);
@@ -56,13 +115,31 @@ function formatAuditValue(key: string, value: unknown, categoryLabels: Map<strin
   return String(value);
 }
 
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  created: "Created",
+  updated: "Updated",
+  deleted: "Deleted",
+  reviewed: "Reviewed (no change)",
+  converted: "Converted",
+  decision: "Board decision",
+  commented: "Comment added",
+  comment_edited: "Comment edited",
+  comment_deleted: "Comment deleted",
+};
+
 const AUDIT_FIELD_LABELS: Record<string, string> = {
   issueName: "Name",
   description: "Description",
   consequence: "Consequence",
+  rubricVersion: "Rubric version",
+  costImpactLow: "Cost impact low ($)",
+  costImpactHigh: "Cost impact high ($)",
+  scheduleImpactLowDays: "Schedule impact low (days)",
+  scheduleImpactHighDays: "Schedule impact high (days)",
   owner: "Owner",
   category: "Category",
   status: "Status",
+  reviewCadenceDays: "Review cadence (days)",
   sequenceOrder: "Sequence",
   plannedAction: "Planned action",
   estimatedStartDate: "Est. start date",
@@ -83,6 +160,18 @@ interface IssueDetailViewProps {
   onUpdate: () => void;
   /** When issue was created from a realized risk, call to open that risk. */
   onSelectRisk?: (riskId: string) => void;
+  /** False for Viewers: hides edit and resolution step controls */
+  canEdit?: boolean;
+  /** Signed-in user, for editing and deleting their own comments */
+  currentUserId?: string;
+  /** PPD Admin of the unit: may delete anyone's comment */
+  canModerateComments?: boolean;
+  /** The PPD's current criteria rubric, shown as guidance next to the score inputs */
+  rubric?: CriteriaRubric | null;
+  /** Open a related risk, issue or opportunity */
+  onOpenItem?: (item: RioItemSummary) => void;
+  /** Open an item created from this one, or the one it was created from (refreshes that register) */
+  onOpenConvertedItem?: (type: RioItemType, orgUnitId: string, itemId: string) => void;
 }
 
 const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db" };
@@ -90,7 +179,7 @@ const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBotto
 const btnPrimary = { padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const };
 const btnSecondary = { ...btnPrimary, background: "#6b7280" };
 
-export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate, onSelectRisk }: IssueDetailViewProps) {
+export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate, onSelectRisk, canEdit = true, currentUserId, canModerateComments, rubric, onOpenItem, onOpenConvertedItem }: IssueDetailViewProps) {
   const categoryLabels = new Map(categories.map((c) => [c.code, c.label]));
   const categoryOptions = categories.map((c) => ({ value: c.code, label: c.label }));
   const [tab, setTab] = useState<DetailTab>("overview");
@@ -99,6 +188,11 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
   const [auditLogLoading, setAuditLogLoading] = useState(false);
   const [auditLogError, setAuditLogError] = useState<string | null>(null);
   const [fullIssue, setFullIssue] = useState<Issue | null>(null);
+  const [history, setHistory] = useState<IssueHistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [asOfDate, setAsOfDate] = useState("");
+  const [asOf, setAsOf] = useState<IssueVersionEntry | null>(null);
+  const [asOfError, setAsOfError] = useState<string | null>(null);
   const resolutionPlanTabRef = useRef<HTMLDivElement | null>(null);
   const waterfallTabRef = useRef<HTMLDivElement | null>(null);
   const displayIssue = fullIssue ?? issue;
@@ -114,8 +208,13 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
     consequence: issue.consequence,
     category: issue.category ?? "",
     status: issue.status,
-    owner: issue.owner ?? "",
+    ...ownerValueOf(issue),
+    quantified: pickQuantifiedImpact(issue),
+    consequenceChangeReason: "",
+    statusChangeRationale: "",
   });
+  const consequenceChanged = form.consequence !== displayIssue.consequence;
+  const statusNeedsRationale = STATUS_REQUIRING_RATIONALE.includes(form.status) && form.status !== displayIssue.status;
 
   const loadAuditLog = () => {
     setAuditLogError(null);
@@ -142,8 +241,43 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
     if (tab === "audit") loadAuditLog();
   }, [tab, issue.id]);
 
+  const loadHistory = () => {
+    setHistoryLoading(true);
+    fetch(`${API}/issues/${issue.id}/history`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: unknown) => setHistory(Array.isArray(data) ? (data as IssueHistoryEntry[]) : []))
+      .catch((e) => console.error("Failed to load issue history:", e))
+      .finally(() => setHistoryLoading(false));
+  };
+
+  useEffect(() => {
+    if (tab === "history") loadHistory();
+  }, [tab, issue.id]);
+
+  const loadAsOf = (date: string) => {
+    setAsOfDate(date);
+    setAsOfError(null);
+    if (!date) {
+      setAsOf(null);
+      return;
+    }
+    fetch(`${API}/issues/${issue.id}/history?at=${encodeURIComponent(`${date}T23:59:59.999Z`)}`)
+      .then(async (r) => {
+        const body = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(typeof body?.error === "string" ? body.error : "Failed to load version");
+        return body as IssueVersionEntry;
+      })
+      .then(setAsOf)
+      .catch((err) => {
+        setAsOf(null);
+        setAsOfError(err instanceof Error ? err.message : "Failed to load version");
+      });
+  };
+
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
+    if (consequenceChanged && !form.consequenceChangeReason.trim()) return;
+    if (statusNeedsRationale && !form.statusChangeRationale.trim()) return;
     fetch(`${API}/issues/${issue.id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
@@ -153,12 +287,17 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
         consequence: form.consequence,
         category: form.category || null,
         status: form.status,
+        ownerId: form.ownerId,
         owner: form.owner.trim() || null,
+        ...toImpactRanges(form.quantified),
+        consequenceChangeReason: consequenceChanged ? form.consequenceChangeReason.trim() : undefined,
+        statusChangeRationale: statusNeedsRationale ? form.statusChangeRationale.trim() : undefined,
       }),
     })
       .then((r) => r.json())
       .then(() => {
         setEditing(false);
+        setForm((p) => ({ ...p, consequenceChangeReason: "", statusChangeRationale: "" }));
         onUpdate();
         loadAuditLog();
       })
@@ -169,6 +308,8 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
     { id: "overview", label: "Overview" },
     { id: "resolution_plan", label: "Resolution Plan" },
     { id: "waterfall", label: "Waterfall" },
+    { id: "history", label: "History" },
+    { id: "comments", label: "Comments" },
     { id: "audit", label: "Audit Log" },
   ];
 
@@ -238,15 +379,38 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                   </div>
                   <div>
                     <label style={labelStyle}>Status</label>
-                    <select value={form.status} onChange={(e) => setForm((p) => ({ ...p, status: e.target.value as "ignore" | "control" }))} style={formInputStyle}>
-                      <option value="control">Control</option>
-                      <option value="ignore">Ignore</option>
+                    <select value={form.status} onChange={(e) => setForm((p) => ({ ...p, status: e.target.value as IssueStatus }))} style={formInputStyle}>
+                      {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
                     </select>
                   </div>
+                  <RubricGuidance rubric={rubric} consequence={form.consequence} />
+                  <QuantifiedImpactInput
+                    value={form.quantified}
+                    onChange={(quantified) => setForm((p) => ({ ...p, quantified }))}
+                    withProbability={false}
+                    inputStyle={formInputStyle}
+                    labelStyle={labelStyle}
+                  />
                 </div>
+                {consequenceChanged && (
+                  <div>
+                    <label style={labelStyle}>Reason Consequence changed *</label>
+                    <textarea value={form.consequenceChangeReason} onChange={(e) => setForm((p) => ({ ...p, consequenceChangeReason: e.target.value }))} required rows={2} style={formInputStyle} placeholder="Why did the consequence change?" />
+                  </div>
+                )}
+                {statusNeedsRationale && (
+                  <div>
+                    <label style={labelStyle}>Rationale for status change *</label>
+                    <textarea value={form.statusChangeRationale} onChange={(e) => setForm((p) => ({ ...p, statusChangeRationale: e.target.value }))} required rows={2} style={formInputStyle} placeholder={form.status === "closed" ? "Why can this issue be closed?" : "Why is this issue being ignored?"} />
+                  </div>
+                )}
                 <div>
                   <label style={labelStyle}>Owner</label>
-                  <input value={form.owner} onChange={(e) => setForm((p) => ({ ...p, owner: e.target.value }))} style={formInputStyle} />
+                  <OwnerPicker value={ownerValueOf(form)} onChange={(o) => setForm((p) => ({ ...p, ...o }))} />
                 </div>
                 <div style={{ display: "flex", gap: "0.5rem" }}>
                   <button type="submit" style={btnPrimary}>Save</button>
@@ -264,6 +428,16 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                   <dd style={{ margin: 0 }}>{categoryLabels.get(displayIssue.category ?? "") ?? displayIssue.category ?? "—"}</dd>
                   <dt style={{ color: "#6b7280", fontSize: "0.875rem" }}>Consequence</dt>
                   <dd style={{ margin: 0 }}>{CONSEQUENCE_LABELS[displayIssue.consequence - 1] ?? displayIssue.consequence}</dd>
+                  <dt style={{ color: "#6b7280", fontSize: "0.875rem" }}>Rubric</dt>
+                  <dd style={{ margin: 0 }}>{displayIssue.rubricVersion != null ? `v${displayIssue.rubricVersion}` : "—"}</dd>
+                  {formatQuantifiedImpact(displayIssue) && (
+                    <>
+                      <dt style={{ color: "#6b7280", fontSize: "0.875rem" }}>Quantified</dt>
+                      <dd style={{ margin: 0 }}>{formatQuantifiedImpact(displayIssue)}</dd>
+                      <dt style={{ color: "#6b7280", fontSize: "0.875rem" }}>Exposure</dt>
+                      <dd style={{ margin: 0 }}>{formatExposure(issueExposure(displayIssue))}</dd>
+                    </>
+                  )}
                   <dt style={{ color: "#6b7280", fontSize: "0.875rem" }}>Level</dt>
                   <dd style={{ margin: 0 }}>
                     <span style={{ display: "inline-block", padding: "0.15rem 0.5rem", borderRadius: 4, background: `${levelColor[displayIssue.issueLevel ?? "moderate"]}33`, color: "#374151", fontSize: "0.875rem" }}>
@@ -271,7 +445,14 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                     </span>
                   </dd>
                   <dt style={{ color: "#6b7280", fontSize: "0.875rem" }}>Status</dt>
-                  <dd style={{ margin: 0 }}>{STATUS_LABELS[displayIssue.status ?? "control"]}</dd>
+                  <dd style={{ margin: 0 }}>
+                    <span
+                      title={STATUS_REQUIRING_RATIONALE.includes(displayIssue.status) ? displayIssue.statusChangeRationale : undefined}
+                      style={{ cursor: STATUS_REQUIRING_RATIONALE.includes(displayIssue.status) && displayIssue.statusChangeRationale ? "help" : undefined }}
+                    >
+                      {STATUS_LABELS[displayIssue.status] ?? displayIssue.status}
+                    </span>
+                  </dd>
                   <dt style={{ color: "#6b7280", fontSize: "0.875rem" }}>Owner</dt>
                   <dd style={{ margin: 0 }}>{displayIssue.owner ?? "—"}</dd>
                   {displayIssue.sourceRisk && onSelectRisk && (
@@ -289,7 +470,10 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                     </>
                   )}
                 </dl>
-                <button type="button" onClick={() => setEditing(true)} style={btnSecondary}>Edit</button>
+                {canEdit && <button type="button" onClick={() => setEditing(true)} style={btnSecondary}>Edit</button>}
+                <ItemReview itemType="issue" item={issue} canEdit={canEdit} onUpdate={() => { onUpdate(); loadAuditLog(); loadHistory(); }} />
+                <ItemConversions itemType="issue" itemId={issue.id} status={issue.status} canEdit={canEdit} onOpenItem={onOpenConvertedItem} />
+              <RelatedItemsPanel itemType="issue" itemId={issue.id} orgUnitId={issue.organizationalUnitId} canEdit={canEdit} onOpenItem={onOpenItem} />
               </>
             )}
           </div>
@@ -314,15 +498,27 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                 onUpdate();
                 loadAuditLog();
               }}
+              readOnly={!canEdit}
             />
           </div>
         )}
 
+        {tab === "comments" && (
+          <CommentThreads
+            itemType="issue"
+            itemId={issue.id}
+            canEdit={canEdit}
+            currentUserId={currentUserId}
+            canModerate={canModerateComments}
+            onChange={loadAuditLog}
+          />
+        )}
+
         {tab === "audit" && (
           <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.5rem" }}>
             <h3 style={{ margin: "0 0 1rem", fontSize: "1rem", fontWeight: 600 }}>Audit Log</h3>
             <p style={{ margin: "0 0 1rem", fontSize: "0.875rem", color: "#6b7280" }}>
-              Every creation, update, and deletion of this issue and its resolution plan steps.
+              Every creation, update, and deletion of this issue, its resolution plan steps and its comments.
             </p>
             {auditLogError ? (
               <p style={{ color: "#dc2626", margin: 0 }}>{auditLogError}</p>
@@ -333,10 +529,17 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
             ) : (
               <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
                 {auditLog.map((entry) => {
-                  const entityLabel = entry.entityType === "issue" ? "Issue" : `Resolution step ${entry.details?.stepNumber ?? "—"}`;
-                  const actionLabel = entry.action === "created" ? "Created" : entry.action === "updated" ? "Updated" : "Deleted";
+                  const entityLabel =
+                    entry.entityType === "issue"
+                      ? "Issue"
+                      : entry.entityType === "comment"
+                        ? entry.details?.stepNumber ? `Comment on resolution step ${entry.details.stepNumber}` : "Comment"
+                        : `Resolution step ${entry.details?.stepNumber ?? "—"}`;
+                  const actionLabel = AUDIT_ACTION_LABELS[entry.action] ?? entry.action;
                   const changes = entry.details?.changes;
                   const reordered = entry.details?.resolutionStepsReordered;
+                  const consequenceReason = entry.details?.consequenceChangeReason;
+                  const statusRationale = entry.details?.statusChangeRationale;
                   return (
                     <div
                       key={entry.id}
@@ -354,7 +557,7 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                           justifyContent: "space-between",
                           alignItems: "center",
                           marginBottom:
-                            (changes && Object.keys(changes).length > 0) || reordered
+                            (changes && Object.keys(changes).length > 0) || reordered || entry.details?.reviewNote || entry.details?.decision || entry.details?.excerpt || entry.details?.riskCreatedFromIssue
                               ? "0.5rem"
                               : 0,
                         }}
@@ -363,6 +566,7 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                           {entityLabel} — {actionLabel}
                         </span>
                         <span style={{ color: "#6b7280", fontSize: "0.8rem" }}>
+                          {formatAuditAuthor(entry) && <strong style={{ fontWeight: 500, color: "#374151" }}>{formatAuditAuthor(entry)} · </strong>}
                           {new Date(entry.createdAt).toLocaleString(undefined, {
                             month: "short",
                             day: "numeric",
@@ -372,6 +576,30 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                           })}
                         </span>
                       </div>
+                      {entry.action === "reviewed" && entry.details?.reviewNote && (
+                        <p style={{ margin: 0, paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                          <strong>Note:</strong> {entry.details.reviewNote}
+                        </p>
+                      )}
+                      {entry.action === "converted" && entry.details?.riskCreatedFromIssue && (
+                        <p style={{ margin: 0, paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                          Follow-on risk created: {entry.details.riskCreatedFromIssue.riskName}
+                        </p>
+                      )}
+                      {entry.action === "decision" && entry.details?.decision && (
+                        <p style={{ margin: 0, paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                          {entry.details.meeting && <>At {entry.details.meeting.title} ({entry.details.meeting.meetingDate.slice(0, 10)}): </>}
+                          {entry.details.decision}
+                          {entry.details.previousDecision && <span style={{ color: "#6b7280" }}> (replaces: {entry.details.previousDecision})</span>}
+                        </p>
+                      )}
+                      {entry.entityType === "comment" && entry.details?.excerpt && (
+                        <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                          “{entry.details.excerpt}”
+                          {entry.details.previousExcerpt && <span style={{ color: "#6b7280" }}> (was: “{entry.details.previousExcerpt}”)</span>}
+                          {entry.details.mentions && entry.details.mentions.length > 0 && <span style={{ color: "#6b7280" }}> · mentions {entry.details.mentions.join(", ")}</span>}
+                        </p>
+                      )}
                       {entry.action === "updated" && (
                         <>
                           {changes && Object.keys(changes).length > 0 && (
@@ -393,6 +621,16 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
                               <strong>{AUDIT_FIELD_LABELS.resolutionStepsReordered}:</strong> {reordered.from} → {reordered.to}
                             </p>
                           )}
+                          {consequenceReason && (
+                            <p style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                              <strong>Consequence change reason:</strong> {consequenceReason}
+                            </p>
+                          )}
+                          {statusRationale && (
+                            <p style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                              <strong>Status change rationale:</strong> {statusRationale}
+                            </p>
+                          )}
                         </>
                       )}
                     </div>
@@ -403,6 +641,89 @@ export function IssueDetailView({ categories, issue, orgUnit, onBack, onUpdate,
           </div>
         )}
 
+        {tab === "history" && (
+          <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.5rem" }}>
+            <h3 style={{ margin: "0 0 1rem", fontSize: "1rem", fontWeight: 600 }}>Version History</h3>
+            <div style={{ display: "flex", alignItems: "center", gap: "0.5rem", marginBottom: "1rem", flexWrap: "wrap" }}>
+              <label style={{ fontSize: "0.875rem", color: "#374151" }}>View issue as of</label>
+              <input type="date" value={asOfDate} onChange={(e) => loadAsOf(e.target.value)} style={{ ...formInputStyle, width: "auto" }} />
+              {asOfDate && (
+                <button type="button" onClick={() => loadAsOf("")} style={{ ...btnSecondary, padding: "0.25rem 0.5rem", fontSize: "0.75rem" }}>
+                  Clear
+                </button>
+              )}
+            </div>
+            {asOfError && <p style={{ color: "#dc2626", margin: "0 0 1rem", fontSize: "0.875rem" }}>{asOfError}</p>}
+            {asOf && (
+              <div style={{ marginBottom: "1.5rem", padding: "0.75rem 1rem", background: "#eff6ff", borderRadius: 6, border: "1px solid #bfdbfe" }}>
+                <p style={{ margin: "0 0 0.5rem", fontSize: "0.8125rem", color: "#1e40af" }}>
+                  Version {asOf.version} · {formatDateTime(asOf.createdAt)}
+                  {formatAuditAuthor(asOf) && ` · ${formatAuditAuthor(asOf)}`}
+                </p>
+                <dl style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: "0.25rem 1.5rem", margin: 0, fontSize: "0.8125rem" }}>
+                  {SNAPSHOT_FIELDS.map((k) => (
+                    <div key={k} style={{ display: "contents" }}>
+                      <dt style={{ color: "#6b7280" }}>{AUDIT_FIELD_LABELS[k] ?? k}</dt>
+                      <dd style={{ margin: 0 }}>{formatAuditValue(k, asOf.snapshot[k], categoryLabels)}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
+            {historyLoading ? (
+              <p style={{ color: "#6b7280", margin: 0 }}>Loading history…</p>
+            ) : history.length === 0 ? (
+              <p style={{ color: "#6b7280", margin: 0 }}>No versions yet.</p>
+            ) : (
+              <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+                {withChangedFields(history).map(({ entry, before, after, changed }) => {
+                    const isStep = entry.type === "resolution_step";
+                    return (
+                      <div
+                        key={isStep ? `${entry.stepId}-${entry.version}` : entry.version}
+                        style={{ padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, borderLeft: `3px solid ${isStep ? "#6b7280" : "#dc2626"}`, fontSize: "0.875rem" }}
+                      >
+                        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: changed.length > 0 ? "0.5rem" : 0 }}>
+                          <span style={{ fontWeight: 600 }}>
+                            {isStep ? `Resolution step ${entry.stepNumber}` : "Issue"} v{entry.version} — {entry.type === "issue" && entry.reviewedNoChange ? "Reviewed — no change" : before ? "Updated" : "Created"}
+                          </span>
+                          <span style={{ color: "#6b7280", fontSize: "0.8rem" }}>
+                            {formatAuditAuthor(entry) && <strong style={{ fontWeight: 500, color: "#374151" }}>{formatAuditAuthor(entry)} · </strong>}
+                            {formatDateTime(entry.createdAt)}
+                          </span>
+                        </div>
+                        {changed.length > 0 && (
+                          <ul style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                            {changed.map((k) => (
+                              <li key={k} style={{ marginBottom: "0.25rem" }}>
+                                <strong>{AUDIT_FIELD_LABELS[k] ?? k}:</strong> {formatAuditValue(k, before![k], categoryLabels)} → {formatAuditValue(k, after[k], categoryLabels)}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {entry.type === "issue" && entry.consequenceChangeReason && (
+                          <p style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                            <strong>Consequence change reason:</strong> {entry.consequenceChangeReason}
+                          </p>
+                        )}
+                        {entry.type === "issue" && entry.reviewNote && (
+                          <p style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                            <strong>Review note:</strong> {entry.reviewNote}
+                          </p>
+                        )}
+                        {entry.type === "issue" && entry.statusChangeRationale && (
+                          <p style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem", fontSize: "0.8125rem", color: "#374151" }}>
+                            <strong>Status change rationale:</strong> {entry.statusChangeRationale}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+              </div>
+            )}
+          </div>
+        )}
+
         {tab === "waterfall" && (
           <div ref={waterfallTabRef} style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
             <div style={{ display: "flex", justifyContent: "flex-end" }}>
@@ -1,17 +1,26 @@
 import type { Category } from "../types";
+import { ownerFilterKey } from "../utils/owners";
+import { OwnerFilterSelect } from "./OwnerFilterSelect";
 
 const STATUSES: { value: string; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolving", label: "Resolving" },
+  { value: "resolved", label: "Resolved" },
+  { value: "closed", label: "Closed" },
   { value: "ignore", label: "Ignore" },
-  { value: "control", label: "Control" },
 ];
 
 export interface IssueFiltersState {
   categories: string[];
   statuses: string[];
+  /** Owner filter value (see ownerFilterKey); "" for all owners */
+  owner: string;
 }
 
 interface IssueFiltersProps {
   categories: Category[];
+  /** Owners of the loaded items (ownerFilterOptions) */
+  owners: { value: string; label: string }[];
   filters: IssueFiltersState;
   onChange: (filters: IssueFiltersState) => void;
 }
@@ -19,7 +28,7 @@ interface IssueFiltersProps {
 const checkboxStyle = { margin: 0, cursor: "pointer" as const };
 const labelStyle = { fontSize: "0.8rem", cursor: "pointer" as const, marginRight: "0.75rem" };
 
-export function IssueFilters({ categories = [], filters, onChange }: IssueFiltersProps) {
+export function IssueFilters({ categories = [], owners, filters, onChange }: IssueFiltersProps) {
   const safeCategories = Array.isArray(categories) ? categories : [];
   const categoryOptions = safeCategories.map((c) => ({ value: c.code, label: c.label }));
   const cats = Array.isArray(filters?.categories) ? filters.categories : [];
@@ -35,7 +44,7 @@ export function IssueFilters({ categories = [], filters, onChange }: IssueFilter
     onChange({ ...filters, categories: cats, statuses: next });
   };
 
-  const clearAll = () => onChange({ categories: [], statuses: [] });
+  const clearAll = () => onChange({ categories: [], statuses: [], owner: "" });
 
   const rowStyle = { display: "flex", alignItems: "center", flexWrap: "wrap" as const, gap: "0.25rem 0.5rem" };
   const labelStyleInner = { fontSize: "0.75rem", color: "#374151", marginRight: "0.5rem", fontWeight: 700, minWidth: 60 };
@@ -61,6 +70,10 @@ export function IssueFilters({ categories = [], filters, onChange }: IssueFilter
           </label>
         ))}
       </div>
+      <div style={rowStyle}>
+        <span style={labelStyleInner}>Owner:</span>
+        <OwnerFilterSelect owners={owners} value={filters?.owner ?? ""} onChange={(owner) => onChange({ ...filters, categories: cats, statuses: sts, owner })} />
+      </div>
       <div style={rowStyle}>
         <span style={labelStyleInner}>Status:</span>
         {STATUSES.map((s) => (
@@ -69,7 +82,7 @@ export function IssueFilters({ categories = [], filters, onChange }: IssueFilter
             {" "}{s.label}
           </label>
         ))}
-        {(cats.length > 0 || sts.length > 0) && (
+        {(cats.length > 0 || sts.length > 0 || !!filters?.owner) && (
           <button
             type="button"
             onClick={clearAll}
@@ -83,17 +96,19 @@ export function IssueFilters({ categories = [], filters, onChange }: IssueFilter
   );
 }
 
-export function filterIssues<T extends { category?: string | null; status?: string }>(
+export function filterIssues<T extends { category?: string | null; status?: string; ownerId?: string | null; owner?: string | null }>(
   issues: T[] | null | undefined,
   filters: IssueFiltersState | null | undefined
 ): T[] {
   const list = Array.isArray(issues) ? issues : [];
   const cats = Array.isArray(filters?.categories) ? filters.categories : [];
   const sts = Array.isArray(filters?.statuses) ? filters.statuses : [];
-  if (cats.length === 0 && sts.length === 0) return list;
+  const owner = filters?.owner ?? "";
+  if (cats.length === 0 && sts.length === 0 && !owner) return list;
   return list.filter((o) => {
     const categoryOk = cats.length === 0 || (o.category != null && cats.includes(o.category));
     const statusOk = sts.length === 0 || sts.includes(o.status ?? "");
-    return categoryOk && statusOk;
+    const ownerOk = !owner || ownerFilterKey(o) === owner;
+    return categoryOk && statusOk && ownerOk;
   });
 }
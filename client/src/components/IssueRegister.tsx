@@ -1,6 +1,12 @@
 import { useMemo, useRef, useState } from "react";
-import type { Category, Issue, OrganizationalUnit } from "../types";
+import type { Category, CriteriaRubric, Issue, IssueStatus, OrganizationalUnit } from "../types";
 import { exportElementAsPng } from "../utils/exportPng";
+import { NO_OWNER, ownerValueOf } from "../utils/owners";
+import { formatExposure, formatQuantifiedImpact, isExposedIssue, issueExposure, NO_QUANTIFIED_IMPACT, pickQuantifiedImpact, sumExposure, toImpactRanges } from "../utils/exposure";
+import { OwnerPicker } from "./OwnerPicker";
+import { QuantifiedImpactInput } from "./QuantifiedImpactInput";
+import { ReviewOverdueBadge } from "./ReviewOverdueBadge";
+import { RubricGuidance } from "./RubricGuidance";
 
 const API = "/api";
 
@@ -11,6 +17,12 @@ interface IssueRegisterProps {
   loading: boolean;
   onUpdate: () => void;
   onSelectIssue?: (id: string) => void;
+  /** False for Viewers: hides add/edit controls */
+  canEdit?: boolean;
+  /** The PPD's current criteria rubric, shown as guidance next to the score inputs */
+  rubric?: CriteriaRubric | null;
+  /** Roll-up scope: adds an Org Unit column for items from child units */
+  showOrgUnit?: boolean;
 }
 
 // Color by numerical level (8, 16, 20, 23, 25) — matches 1×5 Issue Matrix
@@ -19,10 +31,22 @@ function getLevelColor(numericalLevel: number): string {
 }
 
 const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  resolving: "Resolving",
+  resolved: "Resolved",
+  closed: "Closed",
   ignore: "Ignore",
-  control: "Control",
 };
 
+/** Status values that require rationale when changed to */
+const STATUS_REQUIRING_RATIONALE = ["closed", "ignore"];
+
+const statusOptions = Object.entries(STATUS_LABELS).map(([value, label]) => (
+  <option key={value} value={value}>
+    {label}
+  </option>
+));
+
 const typeLabel: Record<string, string> = {
   program: "Program",
   project: "Project",
@@ -40,9 +64,9 @@ function getNumericalIssueLevel(consequence: number): number {
   return NUMERICAL_ISSUE_LEVEL[Math.max(1, Math.min(5, consequence))] ?? 20;
 }
 
-export type IssueRegisterSortKey = "issueName" | "category" | "consequence" | "issueLevel" | "status" | "owner" | "lastUpdated";
+export type IssueRegisterSortKey = "issueName" | "orgUnit" | "category" | "consequence" | "issueLevel" | "exposure" | "status" | "owner" | "lastUpdated";
 
-export function IssueRegister({ categories = [], orgUnit, issues = [], loading, onUpdate, onSelectIssue }: IssueRegisterProps) {
+export function IssueRegister({ categories = [], orgUnit, issues = [], loading, onUpdate, onSelectIssue, canEdit = true, rubric, showOrgUnit = false }: IssueRegisterProps) {
   const safeCategories = Array.isArray(categories) ? categories : [];
   const safeIssues = Array.isArray(issues) ? issues : [];
   const categoryOptions = safeCategories.map((c) => ({ value: c.code, label: c.label }));
@@ -79,9 +103,15 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
         case "issueLevel":
           cmp = getNumericalIssueLevel(a.consequence) - getNumericalIssueLevel(b.consequence);
           break;
+        case "exposure":
+          cmp = (issueExposure(a).cost ?? -1) - (issueExposure(b).cost ?? -1) || (issueExposure(a).scheduleDays ?? -1) - (issueExposure(b).scheduleDays ?? -1);
+          break;
         case "status":
           cmp = (a.status ?? "").localeCompare(b.status ?? "", undefined, { sensitivity: "base" });
           break;
+        case "orgUnit":
+          cmp = (a.organizationalUnit?.name ?? "").localeCompare(b.organizationalUnit?.name ?? "", undefined, { sensitivity: "base" });
+          break;
         case "owner":
           cmp = (a.owner ?? "").localeCompare(b.owner ?? "", undefined, { sensitivity: "base" });
           break;
@@ -103,20 +133,29 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
     description: "",
     consequence: 3,
     category: "",
-    status: "control" as "ignore" | "control",
-    owner: "",
+    status: "open" as IssueStatus,
+    ...NO_OWNER,
+    quantified: NO_QUANTIFIED_IMPACT,
+    statusChangeRationale: "",
   });
   const [editForm, setEditForm] = useState({
     issueName: "",
     description: "",
     consequence: 3,
     category: "",
-    status: "control" as "ignore" | "control",
-    owner: "",
+    status: "open" as IssueStatus,
+    ...NO_OWNER,
+    quantified: NO_QUANTIFIED_IMPACT,
+    consequenceChangeReason: "",
+    statusChangeRationale: "",
   });
+  const editConsequenceChanged = !!editing && editForm.consequence !== editing.consequence;
+  const editStatusNeedsRationale = !!editing && STATUS_REQUIRING_RATIONALE.includes(editForm.status) && editing.status !== editForm.status;
+  const newStatusNeedsRationale = STATUS_REQUIRING_RATIONALE.includes(newIssue.status);
 
   const handleAdd = (e: React.FormEvent) => {
     e.preventDefault();
+    if (newStatusNeedsRationale && !newIssue.statusChangeRationale.trim()) return;
     fetch(`${API}/issues`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -127,13 +166,16 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
         consequence: newIssue.consequence,
         category: newIssue.category || null,
         status: newIssue.status,
+        ownerId: newIssue.ownerId,
         owner: newIssue.owner.trim() || null,
+        ...toImpactRanges(newIssue.quantified),
+        statusChangeRationale: newStatusNeedsRationale ? newIssue.statusChangeRationale.trim() : undefined,
       }),
     })
       .then((r) => r.json())
       .then(() => {
         setShowAddForm(false);
-        setNewIssue({ issueName: "", description: "", consequence: 3, category: "", status: "control", owner: "" });
+        setNewIssue({ issueName: "", description: "", consequence: 3, category: "", status: "open", ...NO_OWNER, quantified: NO_QUANTIFIED_IMPACT, statusChangeRationale: "" });
         onUpdate();
       })
       .catch((e) => console.error("Failed to add issue:", e));
@@ -142,6 +184,8 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
   const handleEdit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!editing) return;
+    if (editConsequenceChanged && !editForm.consequenceChangeReason.trim()) return;
+    if (editStatusNeedsRationale && !editForm.statusChangeRationale.trim()) return;
     fetch(`${API}/issues/${editing.id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
@@ -151,7 +195,11 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
         consequence: editForm.consequence,
         category: editForm.category || null,
         status: editForm.status,
+        ownerId: editForm.ownerId,
         owner: editForm.owner.trim() || null,
+        ...toImpactRanges(editForm.quantified),
+        consequenceChangeReason: editConsequenceChanged ? editForm.consequenceChangeReason.trim() : undefined,
+        statusChangeRationale: editStatusNeedsRationale ? editForm.statusChangeRationale.trim() : undefined,
       }),
     })
       .then((r) => r.json())
@@ -169,12 +217,16 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
       description: i.description ?? "",
       consequence: i.consequence,
       category: i.category ?? "",
-      status: i.status ?? "control",
-      owner: i.owner ?? "",
+      status: i.status ?? "open",
+      ...ownerValueOf(i),
+      quantified: pickQuantifiedImpact(i),
+      consequenceChangeReason: "",
+      statusChangeRationale: "",
     });
   };
 
   const cancelEdit = () => setEditing(null);
+  const exposureTotals = sumExposure(safeIssues.filter(isExposedIssue).map(issueExposure));
   const exportRef = useRef<HTMLDivElement>(null);
   const handleExportPng = async () => {
     if (!exportRef.current) return;
@@ -184,9 +236,11 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
 
   const cols: { key: IssueRegisterSortKey; label: string; align: "left" | "center" | "right" }[] = [
     { key: "issueName", label: "Issue Name", align: "left" },
+    ...(showOrgUnit ? [{ key: "orgUnit" as const, label: "Org Unit", align: "left" as const }] : []),
     { key: "category", label: "Category", align: "left" },
     { key: "consequence", label: "C", align: "center" },
     { key: "issueLevel", label: "Level", align: "left" },
+    { key: "exposure", label: "Exposure", align: "right" },
     { key: "status", label: "Status", align: "left" },
     { key: "owner", label: "Owner", align: "left" },
     { key: "lastUpdated", label: "Last Updated", align: "right" },
@@ -202,13 +256,15 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
           <button onClick={handleExportPng} style={{ ...btnPrimary, background: "#6b7280" }} title="Export as PNG (16:9)">
             Export PNG
           </button>
-          <button onClick={() => setShowAddForm(!showAddForm)} style={btnPrimary}>
-            {showAddForm ? "Cancel" : "+ Add Issue"}
-          </button>
+          {canEdit && (
+            <button onClick={() => setShowAddForm(!showAddForm)} style={btnPrimary}>
+              {showAddForm ? "Cancel" : "+ Add Issue"}
+            </button>
+          )}
         </div>
       </div>
 
-      {showAddForm && (
+      {canEdit && showAddForm && (
         <form
           onSubmit={handleAdd}
           style={{ background: "white", padding: "1.5rem", borderRadius: 8, marginBottom: "1rem", border: "1px solid #e5e7eb" }}
@@ -239,15 +295,35 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
               </div>
               <div>
                 <label style={labelStyle}>Status</label>
-                <select value={newIssue.status} onChange={(e) => setNewIssue((p) => ({ ...p, status: e.target.value as "ignore" | "control" }))} style={formInputStyle}>
-                  <option value="control">Control</option>
-                  <option value="ignore">Ignore</option>
+                <select value={newIssue.status} onChange={(e) => setNewIssue((p) => ({ ...p, status: e.target.value as IssueStatus }))} style={formInputStyle}>
+                  {statusOptions}
                 </select>
               </div>
+              <RubricGuidance rubric={rubric} consequence={newIssue.consequence} />
+              <QuantifiedImpactInput
+                value={newIssue.quantified}
+                onChange={(quantified) => setNewIssue((p) => ({ ...p, quantified }))}
+                withProbability={false}
+                inputStyle={formInputStyle}
+                labelStyle={labelStyle}
+              />
             </div>
+            {newStatusNeedsRationale && (
+              <div>
+                <label style={labelStyle}>Rationale for status *</label>
+                <textarea
+                  value={newIssue.statusChangeRationale}
+                  onChange={(e) => setNewIssue((p) => ({ ...p, statusChangeRationale: e.target.value }))}
+                  required
+                  rows={2}
+                  style={formInputStyle}
+                  placeholder={newIssue.status === "closed" ? "Why can this issue be closed?" : "Why is this issue being ignored?"}
+                />
+              </div>
+            )}
             <div>
               <label style={labelStyle}>Owner</label>
-              <input value={newIssue.owner} onChange={(e) => setNewIssue((p) => ({ ...p, owner: e.target.value }))} placeholder="Name or role" style={formInputStyle} />
+              <OwnerPicker value={ownerValueOf(newIssue)} onChange={(o) => setNewIssue((p) => ({ ...p, ...o }))} />
             </div>
             <button type="submit" style={btnPrimary}>Add Issue</button>
           </div>
@@ -262,6 +338,15 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
         </div>
       ) : (
         <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", overflow: "hidden" }}>
+          {exposureTotals.quantified > 0 && (
+            <div style={{ padding: "0.5rem 1rem", fontSize: "0.8125rem", color: "#374151", background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+              <strong>Expected exposure:</strong> {formatExposure(exposureTotals)}
+              <span style={{ color: "#6b7280" }}>
+                {" "}
+                — {exposureTotals.quantified} of {exposureTotals.count} active issue{exposureTotals.count !== 1 ? "s" : ""} quantified
+              </span>
+            </div>
+          )}
           <table style={{ width: "100%", borderCollapse: "collapse" }}>
             <thead>
               <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
@@ -282,7 +367,7 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
               {sortedIssues.map((i) =>
                 editing?.id === i.id ? (
                   <tr key={i.id} style={{ borderBottom: "1px solid #f3f4f6", background: "#fffbeb" }}>
-                    <td colSpan={7} style={{ padding: "1rem" }}>
+                    <td colSpan={cols.length} style={{ padding: "1rem" }}>
                       <form onSubmit={handleEdit} style={{ display: "grid", gap: "1rem", maxWidth: 600 }}>
                         <h4 style={{ margin: "0 0 0.5rem" }}>Edit Issue</h4>
                         <div>
@@ -309,15 +394,48 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
                           </div>
                           <div>
                             <label style={labelStyle}>Status</label>
-                            <select value={editForm.status} onChange={(e) => setEditForm((p) => ({ ...p, status: e.target.value as "ignore" | "control" }))} style={formInputStyle}>
-                              <option value="control">Control</option>
-                              <option value="ignore">Ignore</option>
+                            <select value={editForm.status} onChange={(e) => setEditForm((p) => ({ ...p, status: e.target.value as IssueStatus }))} style={formInputStyle}>
+                              {statusOptions}
                             </select>
                           </div>
+                          <RubricGuidance rubric={rubric} consequence={editForm.consequence} />
+                          <QuantifiedImpactInput
+                            value={editForm.quantified}
+                            onChange={(quantified) => setEditForm((p) => ({ ...p, quantified }))}
+                            withProbability={false}
+                            inputStyle={formInputStyle}
+                            labelStyle={labelStyle}
+                          />
                         </div>
+                        {editConsequenceChanged && (
+                          <div>
+                            <label style={labelStyle}>Reason Consequence changed *</label>
+                            <textarea
+                              value={editForm.consequenceChangeReason}
+                              onChange={(e) => setEditForm((p) => ({ ...p, consequenceChangeReason: e.target.value }))}
+                              required
+                              rows={2}
+                              style={formInputStyle}
+                              placeholder="Why did the consequence change?"
+                            />
+                          </div>
+                        )}
+                        {editStatusNeedsRationale && (
+                          <div>
+                            <label style={labelStyle}>Rationale for status change *</label>
+                            <textarea
+                              value={editForm.statusChangeRationale}
+                              onChange={(e) => setEditForm((p) => ({ ...p, statusChangeRationale: e.target.value }))}
+                              required
+                              rows={2}
+                              style={formInputStyle}
+                              placeholder={editForm.status === "closed" ? "Why can this issue be closed?" : "Why is this issue being ignored?"}
+                            />
+                          </div>
+                        )}
                         <div>
                           <label style={labelStyle}>Owner</label>
-                          <input value={editForm.owner} onChange={(e) => setEditForm((p) => ({ ...p, owner: e.target.value }))} style={formInputStyle} />
+                          <OwnerPicker value={ownerValueOf(editForm)} onChange={(o) => setEditForm((p) => ({ ...p, ...o }))} />
                         </div>
                         <div style={{ display: "flex", gap: "0.5rem" }}>
                           <button type="submit" style={btnPrimary}>Save</button>
@@ -331,7 +449,7 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", maxWidth: 280 }} title={i.description ?? undefined}>
                       <button
                         type="button"
-                        onClick={() => (onSelectIssue ? onSelectIssue(i.id) : startEdit(i))}
+                        onClick={() => (onSelectIssue ? onSelectIssue(i.id) : canEdit && startEdit(i))}
                         style={{ background: "none", border: "none", padding: 0, cursor: "pointer", textAlign: "left", font: "inherit", color: "inherit", textDecoration: "underline" }}
                       >
                         <strong>{(() => {
@@ -339,12 +457,16 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
                           return `${n.slice(0, 60)}${n.length > 60 ? "…" : ""}`;
                         })()}</strong>
                       </button>
+                      <ReviewOverdueBadge item={i} />
                       {i.description && (
                         <div style={{ fontSize: "0.75rem", marginTop: "0.2rem", color: "#6b7280" }}>
                           {`${i.description.slice(0, 50)}${i.description.length > 50 ? "…" : ""}`}
                         </div>
                       )}
                     </td>
+                    {showOrgUnit && (
+                      <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>{i.organizationalUnit?.name ?? "—"}</td>
+                    )}
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>
                       {categoryOptions.find((c) => c.value === i.category)?.label ?? i.category ?? "—"}
                     </td>
@@ -364,7 +486,15 @@ export function IssueRegister({ categories = [], orgUnit, issues = [], loading,
                         {["Minimal", "Minor", "Moderate", "Significant", "Severe"][Math.max(0, Math.min(4, i.consequence - 1))]}
                       </span>
                     </td>
-                    <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem" }}>{STATUS_LABELS[i.status ?? "control"]}</td>
+                    <td style={{ padding: "0.75rem 1rem", textAlign: "right", fontSize: "0.8125rem", whiteSpace: "nowrap" }} title={formatQuantifiedImpact(i) || undefined}>
+                      {formatExposure(issueExposure(i)) || <span style={{ color: "#9ca3af" }}>—</span>}
+                    </td>
+                    <td
+                      style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", cursor: i.statusChangeRationale ? "help" : undefined }}
+                      title={i.statusChangeRationale}
+                    >
+                      {STATUS_LABELS[i.status] ?? i.status}
+                    </td>
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>{i.owner ?? "—"}</td>
                     <td style={{ padding: "0.75rem 1rem", textAlign: "right", fontSize: "0.8125rem", color: "#6b7280" }}>
                       {(i.lastUpdated ?? i.updatedAt)
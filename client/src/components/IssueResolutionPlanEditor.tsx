@@ -14,9 +14,11 @@ interface IssueResolutionPlanEditorProps {
   onUpdate?: () => void;
   onStepsChange?: (steps: IssueResolutionStep[]) => void;
   issue?: { consequence: number };
+  /** Hide add/edit/reorder/delete/complete controls (Viewer role) */
+  readOnly?: boolean;
 }
 
-export function IssueResolutionPlanEditor({ issueId, onUpdate, onStepsChange, issue }: IssueResolutionPlanEditorProps) {
+export function IssueResolutionPlanEditor({ issueId, onUpdate, onStepsChange, issue, readOnly = false }: IssueResolutionPlanEditorProps) {
   const [steps, setSteps] = useState<IssueResolutionStep[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAdd, setShowAdd] = useState(false);
@@ -262,7 +264,7 @@ export function IssueResolutionPlanEditor({ issueId, onUpdate, onStepsChange, is
                   <>
                     <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start" }}>
                       <div style={{ flex: 1, minWidth: 0 }}>
-                        <button type="button" onClick={() => startEdit(s)} style={{ background: "none", border: "none", padding: 0, font: "inherit", fontSize: "0.875rem", fontWeight: 600, color: "#2563eb", cursor: "pointer", textDecoration: "underline" }}>
+                        <button type="button" onClick={() => startEdit(s)} disabled={readOnly} style={{ background: "none", border: "none", padding: 0, font: "inherit", fontSize: "0.875rem", fontWeight: 600, color: "#2563eb", cursor: readOnly ? "default" : "pointer", textDecoration: readOnly ? "none" : "underline" }}>
                           Step {idx + 1}
                         </button>
                         <p style={{ margin: "0.25rem 0 0", fontSize: "0.8125rem", whiteSpace: "pre-wrap" }}>{s.plannedAction}</p>
@@ -272,7 +274,7 @@ export function IssueResolutionPlanEditor({ issueId, onUpdate, onStepsChange, is
                       </div>
                       <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem", alignItems: "flex-end", flexShrink: 0 }}>
                         <div style={{ display: "flex", gap: "0.25rem", alignItems: "center" }}>
-                          {!s.actualCompletedAt && (
+                          {!readOnly && !s.actualCompletedAt && (
                             <>
                               <button type="button" onClick={() => handleReorder(idx, "up")} disabled={idx === 0} style={{ ...btnSecondary, padding: "0.15rem 0.35rem", fontSize: "0.7rem", opacity: idx === 0 ? 0.5 : 1 }} title="Move up">↑</button>
                               <button type="button" onClick={() => handleReorder(idx, "down")} disabled={idx === steps.length - 1} style={{ ...btnSecondary, padding: "0.15rem 0.35rem", fontSize: "0.7rem", opacity: idx === steps.length - 1 ? 0.5 : 1 }} title="Move down">↓</button>
@@ -280,7 +282,7 @@ export function IssueResolutionPlanEditor({ issueId, onUpdate, onStepsChange, is
                             </>
                           )}
                         </div>
-                        {!s.actualCompletedAt && (
+                        {!readOnly && !s.actualCompletedAt && (
                           <button type="button" onClick={() => openCompleteModal(s)} style={{ ...btnPrimary, padding: "0.25rem 0.5rem", fontSize: "0.75rem", width: "100%" }}>Mark as Complete</button>
                         )}
                       </div>
@@ -290,13 +292,13 @@ export function IssueResolutionPlanEditor({ issueId, onUpdate, onStepsChange, is
               </li>
             ))}
           </ul>
-          {(showAdd || (steps.length === 0 && !editingStep)) && !editingStep && (
+          {!readOnly && (showAdd || (steps.length === 0 && !editingStep)) && !editingStep && (
             <form onSubmit={handleAdd} style={{ background: "#f0fdf4", padding: "0.75rem", borderRadius: 6, border: "1px solid #86efac" }}>
               <strong style={{ fontSize: "0.875rem" }}>New resolution step</strong>
               {stepForm}
             </form>
           )}
-          {!showAdd && steps.length > 0 && !editingStep && (
+          {!readOnly && !showAdd && steps.length > 0 && !editingStep && (
             <button type="button" onClick={() => setShowAdd(true)} style={{ ...btnSecondary, padding: "0.25rem 0.5rem", fontSize: "0.75rem" }}>
               + Add step
             </button>
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import type { Issue, Opportunity, Risk, RioItemType } from "../types";
+import { ownerValueOf, type OwnerValue } from "../utils/owners";
+import { RIO_ITEM_COLORS, RIO_ITEM_LABELS } from "../utils/relationships";
+import { OwnerPicker } from "./OwnerPicker";
+
+const API = "/api";
+
+const ITEM_PATHS: Record<RioItemType, string> = { risk: "risks", issue: "issues", opportunity: "opportunities" };
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  mitigating: "Mitigating",
+  accepted: "Accepted",
+  closed: "Closed",
+  realized: "Realized",
+  resolving: "Resolving",
+  resolved: "Resolved",
+  ignore: "Ignore",
+  pursue_now: "Pursue now",
+  defer: "Defer",
+  reevaluate: "Reevaluate",
+  reject: "Reject",
+};
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const labelStyle = { display: "block", fontSize: "0.75rem", marginBottom: "0.25rem" };
+const btnPrimary = { padding: "0.4rem 0.75rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.8125rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", fontWeight: 500 };
+
+type ConversionLink = { type: RioItemType; id: string; organizationalUnitId: string; name: string; status: string };
+
+/** Pre-filled fields of the item to create; score is consequence for a risk, impact for an opportunity. */
+type ConversionForm = { name: string; condition: string; ifText: string; thenText: string; likelihood: number; score: number } & OwnerValue;
+
+type ConversionAction = { type: "risk" | "opportunity"; label: string; initial: ConversionForm };
+
+type Conversions = { source: ConversionLink | null; created: ConversionLink[]; createdLabel: string; action: ConversionAction | null };
+
+/** Links and the allowed conversion for an item; the defaults match the server's. */
+function conversionsOf(itemType: RioItemType, item: Risk | Issue | Opportunity): Conversions {
+  if (itemType === "issue") {
+    const issue = item as Issue;
+    return {
+      source: null,
+      created: (issue.risksCreatedFromIssue ?? []).map((r) => ({ type: "risk" as const, ...r, name: r.riskName })),
+      createdLabel: "Follow-on risk",
+      action: {
+        type: "risk",
+        label: "Create follow-on risk",
+        initial: {
+          name: `Follow-on: ${issue.issueName}`,
+          condition: [`Issue: ${issue.issueName}`, issue.description ?? ""].filter(Boolean).join("\n"),
+          ifText: "The consequences of the issue spread further",
+          thenText: "Edit to describe the follow-on consequence.",
+          likelihood: 3,
+          score: issue.consequence,
+          ...ownerValueOf(issue),
+        },
+      },
+    };
+  }
+  if (itemType === "opportunity") {
+    const opp = item as Opportunity;
+    const created = (opp.risksCreatedFromOpportunity ?? []).map((r) => ({ type: "risk" as const, ...r, name: r.riskName }));
+    return {
+      source: opp.sourceRisk ? { type: "risk" as const, ...opp.sourceRisk, name: opp.sourceRisk.riskName } : null,
+      created,
+      createdLabel: "Risk of pursuing",
+      action:
+        opp.status === "pursue_now" && created.length === 0
+          ? {
+              type: "risk",
+              label: "Create risk",
+              initial: {
+                name: `Pursuing: ${opp.opportunityName}`,
+                condition: opp.opportunityCondition,
+                ifText: opp.opportunityIf,
+                thenText: "Edit to describe the downside of pursuing the opportunity.",
+                likelihood: 3,
+                score: opp.impact,
+                ...ownerValueOf(opp),
+              },
+            }
+          : null,
+    };
+  }
+  const risk = item as Risk;
+  const created = (risk.opportunitiesCreatedFromRisk ?? []).map((o) => ({ type: "opportunity" as const, ...o, name: o.opportunityName }));
+  return {
+    source: risk.sourceIssue
+      ? { type: "issue" as const, ...risk.sourceIssue, name: risk.sourceIssue.issueName }
+      : risk.sourceOpportunity
+        ? { type: "opportunity" as const, ...risk.sourceOpportunity, name: risk.sourceOpportunity.opportunityName }
+        : null,
+    created,
+    createdLabel: "Upside opportunity",
+    action:
+      (risk.status === "open" || risk.status === "mitigating") && created.length === 0
+        ? {
+            type: "opportunity",
+            label: "Create opportunity",
+            initial: {
+              name: `${risk.riskName} (upside)`,
+              condition: risk.riskCondition,
+              ifText: risk.mitigationPlan?.trim() || `The mitigation of "${risk.riskName}" succeeds`,
+              thenText: "Edit to describe the upside for the program.",
+              likelihood: 3,
+              score: 3,
+              ...ownerValueOf(risk),
+            },
+          }
+        : null,
+  };
+}
+
+function toRequestBody(type: "risk" | "opportunity", form: ConversionForm) {
+  const owner = { ownerId: form.ownerId, owner: form.owner.trim() || null };
+  return type === "risk"
+    ? { riskName: form.name, riskCondition: form.condition, riskIf: form.ifText, riskThen: form.thenText, likelihood: form.likelihood, consequence: form.score, ...owner }
+    : {
+        opportunityName: form.name,
+        opportunityCondition: form.condition,
+        opportunityIf: form.ifText,
+        opportunityThen: form.thenText,
+        likelihood: form.likelihood,
+        impact: form.score,
+        ...owner,
+      };
+}
+
+interface ItemConversionsProps {
+  itemType: RioItemType;
+  itemId: string;
+  /** Current status from the register; the links reload when it changes */
+  status: string;
+  /** False for Viewers: hides the create action */
+  canEdit: boolean;
+  /** Open the source, a created item, or the item just created */
+  onOpenItem?: (type: RioItemType, orgUnitId: string, itemId: string) => void;
+}
+
+/**
+ * "Conversions" section of a detail view: the item this one was created from, the items created from
+ * it, and the next conversion (follow-on risks from an issue, an opportunity from a risk, a risk from a
+ * pursued opportunity). Issues from realized risks are created from the risk's Status section.
+ */
+export function ItemConversions({ itemType, itemId, status, canEdit, onOpenItem }: ItemConversionsProps) {
+  const [item, setItem] = useState<Risk | Issue | Opportunity | null>(null);
+  const [form, setForm] = useState<ConversionForm | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () => {
+    fetch(`${API}/${ITEM_PATHS[itemType]}/${itemId}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: Risk | Issue | Opportunity | null) => setItem(data))
+      .catch(() => setItem(null));
+  };
+
+  useEffect(() => {
+    setForm(null);
+    load();
+  }, [itemType, itemId, status]);
+
+  if (!item) return null;
+  const { source, created, createdLabel, action } = conversionsOf(itemType, item);
+  const canCreate = canEdit && action != null;
+  if (!source && created.length === 0 && !canCreate) return null;
+
+  const renderLink = (link: ConversionLink) => (
+    <>
+      <span style={{ color: RIO_ITEM_COLORS[link.type], fontWeight: 600 }}>{RIO_ITEM_LABELS[link.type]}</span>{" "}
+      {onOpenItem ? (
+        <button type="button" onClick={() => onOpenItem(link.type, link.organizationalUnitId, link.id)} style={linkStyle}>
+          {link.name}
+        </button>
+      ) : (
+        <strong style={{ fontWeight: 500 }}>{link.name}</strong>
+      )}{" "}
+      <span style={{ color: "#6b7280" }}>({STATUS_LABELS[link.status] ?? link.status})</span>
+    </>
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || !form) return;
+    setSubmitting(true);
+    setError(null);
+    fetch(`${API}/${ITEM_PATHS[itemType]}/${itemId}/create-${action.type}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toRequestBody(action.type, form)),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        return r.json();
+      })
+      .then((createdItem: { id: string; organizationalUnitId: string }) => {
+        setForm(null);
+        load();
+        onOpenItem?.(action.type, createdItem.organizationalUnitId, createdItem.id);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : `Failed to create ${action.type}`))
+      .finally(() => setSubmitting(false));
+  };
+
+  const scoreLabel = action?.type === "opportunity" ? "Impact (1–5)" : "Consequence (1–5)";
+
+  return (
+    <div style={{ marginTop: "1.25rem" }}>
+      <h3 style={{ margin: "0 0 0.5rem", fontSize: "1.0625rem", fontWeight: 600, color: "#374151", borderBottom: "2px solid #e5e7eb", paddingBottom: "0.35rem" }}>Conversions</h3>
+      {(source || created.length > 0) && (
+        <ul style={{ margin: "0 0 0.75rem", paddingLeft: "1.25rem", fontSize: "0.875rem", color: "#374151" }}>
+          {source && <li>Created from {renderLink(source)}</li>}
+          {created.map((link) => (
+            <li key={link.id}>
+              {createdLabel}: {renderLink(link)}
+            </li>
+          ))}
+        </ul>
+      )}
+      {canCreate && !form && (
+        <button
+          type="button"
+          onClick={() => {
+            setForm(action.initial);
+            setError(null);
+          }}
+          style={btnPrimary}
+        >
+          {action.label}
+        </button>
+      )}
+      {canCreate && form && (
+        <form onSubmit={handleSubmit} style={{ display: "flex", flexDirection: "column", gap: "0.75rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, fontSize: "0.875rem" }}>
+          <p style={{ margin: 0, color: "#6b7280" }}>Pre-filled from this {RIO_ITEM_LABELS[itemType].toLowerCase()}. Edit as needed; the two stay linked.</p>
+          <div>
+            <label style={labelStyle}>{RIO_ITEM_LABELS[action.type]} name *</label>
+            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required style={formInputStyle} />
+          </div>
+          <div>
+            <label style={labelStyle}>Condition *</label>
+            <textarea value={form.condition} onChange={(e) => setForm({ ...form, condition: e.target.value })} rows={3} required style={formInputStyle} />
+          </div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.75rem" }}>
+            <div>
+              <label style={labelStyle}>If *</label>
+              <textarea value={form.ifText} onChange={(e) => setForm({ ...form, ifText: e.target.value })} rows={2} required style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Then *</label>
+              <textarea value={form.thenText} onChange={(e) => setForm({ ...form, thenText: e.target.value })} rows={2} required style={formInputStyle} />
+            </div>
+          </div>
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 2fr", gap: "0.75rem" }}>
+            <div>
+              <label style={labelStyle}>Likelihood (1–5)</label>
+              <input type="number" min={1} max={5} value={form.likelihood} onChange={(e) => setForm({ ...form, likelihood: parseInt(e.target.value) || 1 })} style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>{scoreLabel}</label>
+              <input type="number" min={1} max={5} value={form.score} onChange={(e) => setForm({ ...form, score: parseInt(e.target.value) || 1 })} style={formInputStyle} />
+            </div>
+            <div>
+              <label style={labelStyle}>Owner</label>
+              <OwnerPicker value={ownerValueOf(form)} onChange={(o) => setForm({ ...form, ...o })} />
+            </div>
+          </div>
+          {error && <p style={{ margin: 0, color: "#dc2626" }}>{error}</p>}
+          <div style={{ display: "flex", gap: "0.5rem" }}>
+            <button type="submit" disabled={submitting} style={btnPrimary}>
+              {submitting ? "Creating…" : action.label}
+            </button>
+            <button type="button" onClick={() => setForm(null)} disabled={submitting} style={btnSecondary}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
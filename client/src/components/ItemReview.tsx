@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import type { ReviewFields, RioItemType } from "../types";
+import { formatDate } from "../utils/riskIndicators";
+import { RIO_ITEM_LABELS } from "../utils/relationships";
+import { formatCadence, MAX_REVIEW_DAYS, reviewDueLabel } from "../utils/reviewCadence";
+
+const API = "/api";
+
+const ITEM_PATHS: Record<RioItemType, string> = { risk: "risks", issue: "issues", opportunity: "opportunities" };
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const labelStyle = { display: "block", fontSize: "0.75rem", marginBottom: "0.25rem" };
+const btnPrimary = { padding: "0.4rem 0.75rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.8125rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+
+interface ItemReviewProps {
+  itemType: RioItemType;
+  /** The item from the register (list API), which carries its review schedule */
+  item: ReviewFields & { id: string };
+  /** False for Viewers: hides "Mark reviewed" and the cadence override */
+  canEdit: boolean;
+  /** After a review or cadence change: reload the register (and the caller's history) */
+  onUpdate: () => void;
+}
+
+/**
+ * "Review" section of a detail view: when the item was last reviewed, when the next review is due, and
+ * its cadence (the unit's days for its level unless set on the item). "Mark reviewed (no change)"
+ * records a version without edits, which restarts the cadence.
+ */
+export function ItemReview({ itemType, item, canEdit, onUpdate }: ItemReviewProps) {
+  const [note, setNote] = useState("");
+  const [cadenceDraft, setCadenceDraft] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNote("");
+    setCadenceDraft(null);
+    setError(null);
+  }, [item.id]);
+
+  const send = (path: string, method: "POST" | "PATCH", body: object, done: () => void) => {
+    setSubmitting(true);
+    setError(null);
+    fetch(`${API}/${ITEM_PATHS[itemType]}/${item.id}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        return r.json();
+      })
+      .then(() => {
+        done();
+        onUpdate();
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to save review"))
+      .finally(() => setSubmitting(false));
+  };
+
+  const handleReviewed = (e: React.FormEvent) => {
+    e.preventDefault();
+    send("/review", "POST", { note: note.trim() || undefined }, () => setNote(""));
+  };
+
+  const handleSaveCadence = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (cadenceDraft == null) return;
+    const days = cadenceDraft.trim() === "" ? null : Number(cadenceDraft);
+    send("", "PATCH", { reviewCadenceDays: days }, () => setCadenceDraft(null));
+  };
+
+  const overridden = item.reviewCadenceDays != null;
+  const dtStyle = { color: "#6b7280", fontSize: "0.875rem" };
+
+  return (
+    <div style={{ marginTop: "1.25rem" }}>
+      <h3 style={{ margin: "0 0 0.5rem", fontSize: "1.0625rem", fontWeight: 600, color: "#374151", borderBottom: "2px solid #e5e7eb", paddingBottom: "0.35rem" }}>Review</h3>
+      <dl style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: "0.4rem 1rem", margin: "0 0 0.75rem", fontSize: "0.875rem" }}>
+        <dt style={dtStyle}>Last reviewed</dt>
+        <dd style={{ margin: 0 }}>{formatDate(item.lastReviewedAt ?? null)}</dd>
+        <dt style={dtStyle}>Next review</dt>
+        <dd style={{ margin: 0, color: item.reviewOverdue ? "#b45309" : undefined, fontWeight: item.reviewOverdue ? 600 : undefined }}>
+          {formatDate(item.nextReviewDate ?? null)}
+          {item.nextReviewDate && <span style={{ color: item.reviewOverdue ? "#b45309" : "#6b7280" }}> · {reviewDueLabel(item)}</span>}
+        </dd>
+        <dt style={dtStyle}>Cadence</dt>
+        <dd style={{ margin: 0 }}>
+          {item.effectiveReviewCadenceDays != null ? formatCadence(item.effectiveReviewCadenceDays) : "—"}
+          <span style={{ color: "#6b7280" }}> ({overridden ? `set on this ${RIO_ITEM_LABELS[itemType].toLowerCase()}` : "unit default for its level"})</span>
+          {canEdit && cadenceDraft == null && (
+            <button
+              type="button"
+              onClick={() => setCadenceDraft(item.reviewCadenceDays != null ? String(item.reviewCadenceDays) : "")}
+              style={{ marginLeft: "0.5rem", background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer" }}
+            >
+              Change
+            </button>
+          )}
+        </dd>
+      </dl>
+      {canEdit && cadenceDraft != null && (
+        <form onSubmit={handleSaveCadence} style={{ display: "flex", alignItems: "flex-end", gap: "0.5rem", marginBottom: "0.75rem", fontSize: "0.875rem" }}>
+          <div style={{ width: 220 }}>
+            <label style={labelStyle}>Days between reviews (blank = unit default)</label>
+            <input type="number" min={1} max={MAX_REVIEW_DAYS} value={cadenceDraft} onChange={(e) => setCadenceDraft(e.target.value)} style={formInputStyle} />
+          </div>
+          <button type="submit" disabled={submitting} style={btnPrimary}>Save</button>
+          <button type="button" onClick={() => setCadenceDraft(null)} style={btnSecondary}>Cancel</button>
+        </form>
+      )}
+      {canEdit && (
+        <form onSubmit={handleReviewed} style={{ display: "flex", alignItems: "flex-end", gap: "0.5rem", fontSize: "0.875rem" }}>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>Review note (optional)</label>
+            <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g. Discussed at program review; still valid" style={formInputStyle} />
+          </div>
+          <button type="submit" disabled={submitting} style={btnPrimary}>Mark reviewed (no change)</button>
+        </form>
+      )}
+      {error && <p style={{ color: "#dc2626", fontSize: "0.875rem", margin: "0.5rem 0 0" }}>{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+const btnPrimary = {
+  padding: "0.5rem 1.25rem",
+  background: "#2563eb",
+  color: "white",
+  border: "none",
+  borderRadius: 6,
+  cursor: "pointer" as const,
+  fontSize: "0.9375rem",
+};
+
+/** Shown when there is no session. Sign-in is handled by the server's identity provider (Okta SAML, or the mock IdP in dev). */
+export function LoginScreen() {
+  const signIn = () => {
+    const returnTo = window.location.pathname + window.location.search;
+    window.location.href = `/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`;
+  };
+
+  return (
+    <main style={{ maxWidth: 420, margin: "4rem auto", padding: "0 1rem" }}>
+      <section style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "2rem", textAlign: "center" }}>
+        <h2 style={{ margin: "0 0 0.5rem", fontSize: "1.25rem", fontWeight: 600 }}>Sign in to RIO Management</h2>
+        <p style={{ margin: "0 0 1.5rem", color: "#6b7280", fontSize: "0.875rem" }}>
+          You will be redirected to your organization's sign-in page.
+        </p>
+        <button type="button" onClick={signIn} style={btnPrimary}>
+          Sign in
+        </button>
+      </section>
+    </main>
+  );
+}
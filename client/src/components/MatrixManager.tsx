@@ -0,0 +1,296 @@
+import { useState, useEffect } from "react";
+import type { LegalEntity, LegalEntityMatrix, LevelMatrixDefinition, MatrixKind } from "../types";
+import { getLevelColor } from "../utils/levelMatrix";
+
+const API = "/api";
+
+const formInputStyle = {
+  width: "100%" as const,
+  padding: "0.375rem 0.5rem",
+  borderRadius: 6,
+  border: "1px solid #d1d5db",
+  fontSize: "0.8125rem",
+};
+const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBottom: "0.25rem", color: "#374151" };
+const btnPrimary = {
+  padding: "0.5rem 1rem",
+  background: "#2563eb",
+  color: "white",
+  border: "none",
+  borderRadius: 6,
+  cursor: "pointer" as const,
+  fontSize: "0.875rem",
+};
+const btnSecondary = { ...btnPrimary, background: "white", color: "#374151", border: "1px solid #d1d5db" };
+const btnSmall = { padding: "0.25rem 0.5rem", fontSize: "0.75rem" };
+const thStyle = { padding: "0.375rem 0.5rem", textAlign: "left" as const, fontWeight: 600, color: "#6b7280", fontSize: "0.75rem" };
+
+const KIND_LABELS: Record<MatrixKind, string> = { risk: "Risk matrix", opportunity: "Opportunity matrix" };
+const SIZE = [1, 2, 3, 4, 5];
+
+type SaveResponse = LegalEntityMatrix & { recomputed: { items: number; steps: number } };
+
+interface MatrixManagerProps {
+  legalEntities: LegalEntity[];
+  /** Called after a save or reset (stored levels of risks/opportunities may have changed) */
+  onUpdate?: () => void;
+}
+
+/** Settings → Matrices: per-entity likelihood × consequence matrix (axis labels, levels, cell level and rank). */
+export function MatrixManager({ legalEntities, onUpdate }: MatrixManagerProps) {
+  const [legalEntityId, setLegalEntityId] = useState("");
+  const [kind, setKind] = useState<MatrixKind>("risk");
+  const [current, setCurrent] = useState<LegalEntityMatrix | null>(null);
+  const [draft, setDraft] = useState<LevelMatrixDefinition | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMessage(null);
+    if (!legalEntityId) {
+      setCurrent(null);
+      setDraft(null);
+      return;
+    }
+    fetch(`${API}/legal-entities/${legalEntityId}/matrices`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data: Record<MatrixKind, LegalEntityMatrix> | null) => {
+        setCurrent(data?.[kind] ?? null);
+        setDraft(data?.[kind]?.definition ?? null);
+      })
+      .catch((e) => {
+        console.error("Failed to load matrices:", e);
+        setCurrent(null);
+        setDraft(null);
+      });
+  }, [legalEntityId, kind]);
+
+  const update = (fn: (d: LevelMatrixDefinition) => LevelMatrixDefinition) => setDraft((d) => (d ? fn(d) : d));
+
+  const setLabel = (field: "likelihoodLabels" | "likelihoodDetails" | "consequenceLabels", index: number, value: string) =>
+    update((d) => ({ ...d, [field]: d[field].map((s, i) => (i === index ? value : s)) }));
+
+  const setLevel = (index: number, field: "key" | "label" | "color", value: string) =>
+    update((d) => {
+      const oldKey = d.levels[index].key;
+      const levels = d.levels.map((lv, i) => (i === index ? { ...lv, [field]: value } : lv));
+      // Renaming a key carries its cells along with it
+      const cells = field === "key" ? d.cells.map((row) => row.map((c) => (c.level === oldKey ? { ...c, level: value } : c))) : d.cells;
+      return { ...d, levels, cells };
+    });
+
+  const addLevel = () =>
+    update((d) => ({ ...d, levels: [...d.levels, { key: `level_${d.levels.length + 1}`, label: "New level", color: "#9ca3af" }] }));
+
+  const removeLevel = (index: number) =>
+    update((d) => {
+      const removed = d.levels[index].key;
+      const levels = d.levels.filter((_, i) => i !== index);
+      const fallback = levels[0]?.key ?? "";
+      return { ...d, levels, cells: d.cells.map((row) => row.map((c) => (c.level === removed ? { ...c, level: fallback } : c))) };
+    });
+
+  const setCell = (l: number, c: number, patch: { level?: string; rank?: number }) =>
+    update((d) => ({
+      ...d,
+      cells: d.cells.map((row, li) => (li === l - 1 ? row.map((cell, ci) => (ci === c - 1 ? { ...cell, ...patch } : cell)) : row)),
+    }));
+
+  const finish = (request: Promise<Response>, fallback: string, verb: string) => {
+    setSaving(true);
+    setMessage(null);
+    request
+      .then((r) => {
+        if (!r.ok) return r.json().then((err: { error?: string }) => Promise.reject(new Error(err?.error ?? fallback)));
+        return r.json();
+      })
+      .then((data: SaveResponse) => {
+        setCurrent(data);
+        setDraft(data.definition);
+        setMessage(`${verb}. Recomputed ${data.recomputed.items} items and ${data.recomputed.steps} plan steps.`);
+        onUpdate?.();
+      })
+      .catch((e) => alert(e.message))
+      .finally(() => setSaving(false));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    finish(
+      fetch(`${API}/legal-entities/${legalEntityId}/matrices/${kind}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      }),
+      "Failed to save matrix",
+      "Saved"
+    );
+  };
+
+  const handleReset = () => {
+    if (!confirm(`Reset the ${KIND_LABELS[kind].toLowerCase()} to the DoD default? Stored levels will be recomputed.`)) return;
+    finish(fetch(`${API}/legal-entities/${legalEntityId}/matrices/${kind}`, { method: "DELETE" }), "Failed to reset matrix", "Reset to default");
+  };
+
+  const consequenceHeading = kind === "risk" ? "Consequence" : "Impact";
+
+  return (
+    <div style={{ background: "white", borderRadius: 8, padding: "1.5rem", boxShadow: "0 1px 3px rgba(0,0,0,0.1)" }}>
+      <h3 style={{ margin: "0 0 0.5rem", fontSize: "1.125rem" }}>Risk &amp; Opportunity Matrices</h3>
+      <p style={{ margin: "0 0 1rem", fontSize: "0.8125rem", color: "#6b7280" }}>
+        Each entity can replace the DoD 5×5 matrix with its own axis labels, levels, colors and cell mapping. Saving recomputes the stored level of
+        every risk or opportunity in the entity; version history keeps the level recorded at the time.
+      </p>
+      <div style={{ display: "flex", gap: "0.75rem", marginBottom: "1rem", flexWrap: "wrap" }}>
+        <div style={{ minWidth: 220 }}>
+          <label style={labelStyle}>Entity</label>
+          <select value={legalEntityId} onChange={(e) => setLegalEntityId(e.target.value)} style={formInputStyle}>
+            <option value="">Select entity…</option>
+            {legalEntities.map((le) => (
+              <option key={le.id} value={le.id}>
+                {le.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ minWidth: 180 }}>
+          <label style={labelStyle}>Matrix</label>
+          <select value={kind} onChange={(e) => setKind(e.target.value as MatrixKind)} style={formInputStyle}>
+            {(Object.keys(KIND_LABELS) as MatrixKind[]).map((k) => (
+              <option key={k} value={k}>
+                {KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {draft && current && (
+        <>
+          <p style={{ margin: "0 0 1rem", fontSize: "0.75rem", color: "#6b7280" }}>
+            {current.isDefault ? "Using the DoD default." : `Customized${current.updatedAt ? ` · last saved ${new Date(current.updatedAt).toLocaleString()}` : ""}.`}
+          </p>
+
+          <div style={{ display: "flex", gap: "1.5rem", flexWrap: "wrap", marginBottom: "1rem" }}>
+            <table style={{ borderCollapse: "collapse", flex: "1 1 360px" }}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>#</th>
+                  <th style={thStyle}>Likelihood</th>
+                  <th style={thStyle}>Detail</th>
+                  <th style={thStyle}>{consequenceHeading}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SIZE.map((n) => (
+                  <tr key={n}>
+                    <td style={{ padding: "0.25rem 0.5rem", fontSize: "0.8125rem", color: "#6b7280" }}>{n}</td>
+                    <td style={{ padding: "0.25rem" }}>
+                      <input value={draft.likelihoodLabels[n - 1]} onChange={(e) => setLabel("likelihoodLabels", n - 1, e.target.value)} style={formInputStyle} />
+                    </td>
+                    <td style={{ padding: "0.25rem" }}>
+                      <input value={draft.likelihoodDetails[n - 1]} onChange={(e) => setLabel("likelihoodDetails", n - 1, e.target.value)} style={formInputStyle} />
+                    </td>
+                    <td style={{ padding: "0.25rem" }}>
+                      <input value={draft.consequenceLabels[n - 1]} onChange={(e) => setLabel("consequenceLabels", n - 1, e.target.value)} style={formInputStyle} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div style={{ flex: "1 1 320px" }}>
+              <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                <thead>
+                  <tr>
+                    <th style={thStyle}>Key</th>
+                    <th style={thStyle}>Label</th>
+                    <th style={thStyle}>Color</th>
+                    <th style={thStyle} />
+                  </tr>
+                </thead>
+                <tbody>
+                  {draft.levels.map((lv, i) => (
+                    <tr key={i}>
+                      <td style={{ padding: "0.25rem" }}>
+                        <input value={lv.key} onChange={(e) => setLevel(i, "key", e.target.value)} style={formInputStyle} />
+                      </td>
+                      <td style={{ padding: "0.25rem" }}>
+                        <input value={lv.label} onChange={(e) => setLevel(i, "label", e.target.value)} style={formInputStyle} />
+                      </td>
+                      <td style={{ padding: "0.25rem" }}>
+                        <input type="color" value={lv.color} onChange={(e) => setLevel(i, "color", e.target.value)} style={{ width: 40, height: 30, border: "none", padding: 0 }} />
+                      </td>
+                      <td style={{ padding: "0.25rem" }}>
+                        <button type="button" onClick={() => removeLevel(i)} disabled={draft.levels.length <= 1} style={{ ...btnSecondary, ...btnSmall }}>
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p style={{ margin: "0.25rem 0 0.5rem", fontSize: "0.75rem", color: "#6b7280" }}>Levels are listed lowest to highest.</p>
+              <button type="button" onClick={addLevel} style={{ ...btnSecondary, ...btnSmall }}>
+                Add level
+              </button>
+            </div>
+          </div>
+
+          <label style={labelStyle}>Cells (level and numerical rank 1–25; ranks must be unique)</label>
+          <table style={{ borderCollapse: "collapse", marginBottom: "1rem" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Likelihood ↓ / {consequenceHeading} →</th>
+                {SIZE.map((c) => (
+                  <th key={c} style={{ ...thStyle, textAlign: "center" }}>
+                    {c}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[...SIZE].reverse().map((l) => (
+                <tr key={l}>
+                  <td style={{ padding: "0.25rem 0.5rem", fontSize: "0.8125rem", color: "#6b7280" }}>{l}</td>
+                  {SIZE.map((c) => {
+                    const cell = draft.cells[l - 1][c - 1];
+                    return (
+                      <td key={c} style={{ padding: "0.25rem", background: getLevelColor(draft, cell.level) + "55", border: "1px solid #e5e7eb" }}>
+                        <select value={cell.level} onChange={(e) => setCell(l, c, { level: e.target.value })} style={{ ...formInputStyle, marginBottom: 4 }}>
+                          {draft.levels.map((lv) => (
+                            <option key={lv.key} value={lv.key}>
+                              {lv.label}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min={1}
+                          max={25}
+                          value={cell.rank}
+                          onChange={(e) => setCell(l, c, { rank: parseInt(e.target.value, 10) || 0 })}
+                          style={formInputStyle}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+            <button type="button" onClick={handleSave} disabled={saving} style={btnPrimary}>
+              {saving ? "Saving…" : "Save matrix"}
+            </button>
+            <button type="button" onClick={handleReset} disabled={saving || current.isDefault} style={btnSecondary}>
+              Reset to default
+            </button>
+            {message && <span style={{ fontSize: "0.8125rem", color: "#059669" }}>{message}</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
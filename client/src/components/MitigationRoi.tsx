@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useState } from "react";
+import type { MitigationRoiPortfolio, OrganizationalUnit, Risk, RiskMitigationRoi, StepMitigationRoi } from "../types";
+import { formatCurrency } from "../utils/exposure";
+import { formatReduction, formatReductionPerDollar } from "../utils/mitigationRoi";
+
+const API = "/api";
+
+type SortKey = "riskName" | "estimatedCost" | "actualCost" | "expectedReduction" | "actualReduction" | "expectedRoi" | "actualRoi";
+
+const COLUMNS: { key: SortKey; label: string; align: "left" | "right" }[] = [
+  { key: "riskName", label: "Risk Name", align: "left" },
+  { key: "estimatedCost", label: "Est. cost", align: "right" },
+  { key: "actualCost", label: "Actual cost", align: "right" },
+  { key: "expectedReduction", label: "Planned reduction", align: "right" },
+  { key: "actualReduction", label: "Achieved reduction", align: "right" },
+  { key: "expectedRoi", label: "Planned ROI", align: "right" },
+  { key: "actualRoi", label: "Achieved ROI", align: "right" },
+];
+
+function sortValue(r: RiskMitigationRoi, key: SortKey): number | string {
+  switch (key) {
+    case "riskName":
+      return r.riskName.toLowerCase();
+    case "expectedRoi":
+      return r.totals.expectedReductionPerDollar ?? -Infinity;
+    case "actualRoi":
+      return r.totals.actualReductionPerDollar ?? -Infinity;
+    default:
+      return r.totals[key];
+  }
+}
+
+const cellStyle = { padding: "0.6rem 1rem", fontSize: "0.8125rem" };
+
+interface MitigationRoiViewProps {
+  orgUnit: OrganizationalUnit;
+  /** Reloads when the risks change */
+  risks: Risk[];
+  onSelectRisk: (riskId: string) => void;
+  /** Roll-up scope: also include the risks of the unit's child units */
+  includeDescendants?: boolean;
+}
+
+/** Portfolio view of mitigation spend and risk reduction per dollar, to support funding decisions. */
+export function MitigationRoiView({ orgUnit, risks, onSelectRisk, includeDescendants = false }: MitigationRoiViewProps) {
+  const [portfolio, setPortfolio] = useState<MitigationRoiPortfolio | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [sortBy, setSortBy] = useState<SortKey>("expectedRoi");
+  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`${API}/risks/mitigation-roi?organizationalUnitId=${encodeURIComponent(orgUnit.id)}${includeDescendants ? "&includeDescendants=true" : ""}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setPortfolio)
+      .catch((e) => console.error("Failed to load mitigation ROI:", e))
+      .finally(() => setLoading(false));
+  }, [orgUnit.id, risks, includeDescendants]);
+
+  const sorted = useMemo(() => {
+    const list = [...(portfolio?.risks ?? [])];
+    const dir = sortDir === "asc" ? 1 : -1;
+    return list.sort((a, b) => {
+      const va = sortValue(a, sortBy);
+      const vb = sortValue(b, sortBy);
+      return va < vb ? -dir : va > vb ? dir : 0;
+    });
+  }, [portfolio, sortBy, sortDir]);
+
+  /** Open steps with an estimate, best planned reduction per dollar first: the candidates for funding. */
+  const fundingCandidates = useMemo(() => {
+    const out: { risk: RiskMitigationRoi; step: StepMitigationRoi }[] = [];
+    for (const risk of portfolio?.risks ?? []) {
+      for (const step of risk.steps) {
+        if (!step.completed && step.expectedReductionPerDollar != null) out.push({ risk, step });
+      }
+    }
+    return out.sort((a, b) => b.step.expectedReductionPerDollar! - a.step.expectedReductionPerDollar!).slice(0, 10);
+  }, [portfolio]);
+
+  const handleSort = (key: SortKey) => {
+    if (sortBy === key) setSortDir((d) => (d === "asc" ? "desc" : "asc"));
+    else {
+      setSortBy(key);
+      setSortDir(key === "riskName" ? "asc" : "desc");
+    }
+  };
+
+  const totals = portfolio?.totals;
+
+  return (
+    <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1rem" }}>
+      <h3 style={{ margin: "0 0 0.25rem", fontSize: "1rem", fontWeight: 600 }}>Mitigation Cost &amp; Return</h3>
+      <p style={{ margin: "0 0 1rem", fontSize: "0.75rem", color: "#6b7280" }}>
+        Each step's reduction is the drop in risk level (1–25) from the previous step, starting at the risk's original level: planned from the
+        expected posture, achieved from the posture recorded at completion. ROI is reduction per {formatCurrency(100_000)} of estimated or actual
+        cost.
+      </p>
+      {loading && !portfolio && <p style={{ color: "#6b7280" }}>Loading...</p>}
+      {!loading && !portfolio && <p style={{ color: "#b91c1c" }}>Failed to load mitigation costs.</p>}
+      {totals && (
+        <div style={{ marginBottom: "1rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, fontSize: "0.875rem" }}>
+          <strong>Portfolio:</strong> {formatCurrency(totals.estimatedCost)} estimated · {formatCurrency(totals.actualCost)} actual · planned{" "}
+          {formatReduction(totals.expectedReduction)} ({formatReductionPerDollar(totals.expectedReductionPerDollar)}) · achieved{" "}
+          {formatReduction(totals.actualReduction)} ({formatReductionPerDollar(totals.actualReductionPerDollar)})
+          <span style={{ color: "#6b7280" }}>
+            {" "}
+            — {portfolio.risks.length} risk{portfolio.risks.length !== 1 ? "s" : ""}, {totals.stepCount} step{totals.stepCount !== 1 ? "s" : ""}
+          </span>
+        </div>
+      )}
+      {portfolio && portfolio.risks.length === 0 && (
+        <p style={{ color: "#6b7280", textAlign: "center", padding: "1rem" }}>No risks have mitigation steps yet.</p>
+      )}
+      {sorted.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "1.5rem" }}>
+          <thead>
+            <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+              {COLUMNS.map(({ key, label, align }) => (
+                <th
+                  key={key}
+                  style={{ padding: "0.75rem 1rem", textAlign: align, fontSize: "0.75rem", color: "#6b7280", cursor: "pointer", userSelect: "none", whiteSpace: "nowrap" }}
+                  onClick={() => handleSort(key)}
+                  title={`Sort by ${label}`}
+                >
+                  {label}
+                  {sortBy === key ? (sortDir === "asc" ? " ↑" : " ↓") : ""}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((r) => (
+              <tr key={r.riskId} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                <td style={cellStyle}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectRisk(r.riskId)}
+                    style={{ background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", textAlign: "left" }}
+                  >
+                    {r.riskName}
+                  </button>
+                  <span style={{ color: "#6b7280", fontSize: "0.75rem" }}>
+                    {" "}
+                    · {r.steps.length} step{r.steps.length !== 1 ? "s" : ""} · level {r.baselineRiskLevel} → {r.currentRiskLevel}
+                  </span>
+                </td>
+                <td style={{ ...cellStyle, textAlign: "right" }}>{r.totals.estimatedCost > 0 ? formatCurrency(r.totals.estimatedCost) : "—"}</td>
+                <td style={{ ...cellStyle, textAlign: "right" }}>{r.totals.actualCost > 0 ? formatCurrency(r.totals.actualCost) : "—"}</td>
+                <td style={{ ...cellStyle, textAlign: "right" }}>{formatReduction(r.totals.expectedReduction)}</td>
+                <td style={{ ...cellStyle, textAlign: "right" }}>{formatReduction(r.totals.actualReduction)}</td>
+                <td style={{ ...cellStyle, textAlign: "right", whiteSpace: "nowrap" }}>{formatReductionPerDollar(r.totals.expectedReductionPerDollar)}</td>
+                <td style={{ ...cellStyle, textAlign: "right", whiteSpace: "nowrap" }}>{formatReductionPerDollar(r.totals.actualReductionPerDollar)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {fundingCandidates.length > 0 && (
+        <>
+          <h4 style={{ margin: "0 0 0.5rem", fontSize: "0.9375rem", fontWeight: 600 }}>Open steps by planned return</h4>
+          <ol style={{ margin: 0, paddingLeft: "1.25rem", fontSize: "0.8125rem" }}>
+            {fundingCandidates.map(({ risk, step }) => (
+              <li key={step.stepId} style={{ marginBottom: "0.35rem" }}>
+                <strong>{formatReductionPerDollar(step.expectedReductionPerDollar)}</strong> — {risk.riskName}, step {step.stepNumber}:{" "}
+                {step.mitigationActions.length > 80 ? `${step.mitigationActions.slice(0, 80)}…` : step.mitigationActions}
+                <span style={{ color: "#6b7280" }}>
+                  {" "}
+                  ({formatReduction(step.expectedReduction)} for {formatCurrency(step.estimatedCost ?? 0)})
+                </span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
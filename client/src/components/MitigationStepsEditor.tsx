@@ -1,5 +1,7 @@
 import { useState, useEffect } from "react";
-import type { MitigationStep } from "../types";
+import type { MitigationStep, RiskMitigationRoi } from "../types";
+import { formatCurrency } from "../utils/exposure";
+import { formatReduction, formatReductionPerDollar, formatStepCosts } from "../utils/mitigationRoi";
 
 const API = "/api";
 
@@ -16,17 +18,20 @@ interface MitigationStepsEditorProps {
   onStepsChange?: (steps: MitigationStep[]) => void;
   risk?: { originalLikelihood?: number; originalConsequence?: number; likelihood: number; consequence: number };
   showOriginalLxC?: boolean;
+  /** Hide add/edit/reorder/delete/complete controls (Viewer role) */
+  readOnly?: boolean;
 }
 
-export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, showOriginalLxC: _showOriginalLxC = false }: MitigationStepsEditorProps) {
+export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, showOriginalLxC: _showOriginalLxC = false, readOnly = false }: MitigationStepsEditorProps) {
   const [steps, setSteps] = useState<MitigationStep[]>([]);
+  const [roi, setRoi] = useState<RiskMitigationRoi | null>(null);
   const [loading, setLoading] = useState(true);
   const [showAdd, setShowAdd] = useState(false);
   const [editingStep, setEditingStep] = useState<MitigationStep | null>(null);
   const [stepToDelete, setStepToDelete] = useState<string | null>(null);
   const [stepToComplete, setStepToComplete] = useState<MitigationStep | null>(null);
   const [stepToUpdateRisk, setStepToUpdateRisk] = useState<{ actualL: number; actualC: number; likelihoodChangeReason: string; consequenceChangeReason: string } | null>(null);
-  const [completeForm, setCompleteForm] = useState({ actualL: 3, actualC: 3, completedDate: "" });
+  const [completeForm, setCompleteForm] = useState({ actualL: 3, actualC: 3, completedDate: "", actualCost: "" });
   const [form, setForm] = useState({
     mitigationActions: "",
     closureCriteria: "",
@@ -34,6 +39,8 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
     estimatedEndDate: "",
     expectedLikelihood: 3,
     expectedConsequence: 3,
+    estimatedCost: "",
+    actualCost: "",
   });
 
   const load = () => {
@@ -46,6 +53,10 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
       })
       .catch((e) => console.error("Failed to load steps:", e))
       .finally(() => setLoading(false));
+    fetch(`${API}/risks/${riskId}/mitigation-roi`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setRoi)
+      .catch((e) => console.error("Failed to load mitigation ROI:", e));
   };
 
   useEffect(load, [riskId]);
@@ -73,6 +84,8 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
       estimatedEndDate: "",
       expectedLikelihood: 3,
       expectedConsequence: 3,
+      estimatedCost: "",
+      actualCost: "",
     });
     setShowAdd(false);
     setEditingStep(null);
@@ -91,6 +104,7 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
         estimatedEndDate: form.estimatedEndDate || null,
         expectedLikelihood: form.expectedLikelihood,
         expectedConsequence: form.expectedConsequence,
+        estimatedCost: form.estimatedCost === "" ? null : Number(form.estimatedCost),
       }),
     })
       .then(() => {
@@ -114,6 +128,8 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
         estimatedEndDate: form.estimatedEndDate || null,
         expectedLikelihood: form.expectedLikelihood,
         expectedConsequence: form.expectedConsequence,
+        estimatedCost: form.estimatedCost === "" ? null : Number(form.estimatedCost),
+        ...(editingStep.actualCompletedAt ? { actualCost: form.actualCost === "" ? null : Number(form.actualCost) } : {}),
       }),
     })
       .then(() => {
@@ -130,12 +146,13 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
       actualL: s.expectedLikelihood,
       actualC: s.expectedConsequence,
       completedDate: new Date().toISOString().slice(0, 10),
+      actualCost: s.actualCost != null ? String(s.actualCost) : "",
     });
   };
 
   const handleCompleteStep = () => {
     if (!stepToComplete || !completeForm.completedDate) return;
-    const { actualL, actualC, completedDate } = completeForm;
+    const { actualL, actualC, completedDate, actualCost } = completeForm;
     fetch(`${API}/risks/${riskId}/mitigation-steps/${stepToComplete.id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
@@ -143,6 +160,7 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
         actualLikelihood: actualL,
         actualConsequence: actualC,
         actualCompletedAt: completedDate ? `${completedDate}T12:00:00.000Z` : null,
+        actualCost: actualCost === "" ? null : Number(actualCost),
       }),
     })
       .then(() => {
@@ -219,9 +237,30 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
       estimatedEndDate: s.estimatedEndDate ? s.estimatedEndDate.slice(0, 10) : "",
       expectedLikelihood: s.expectedLikelihood,
       expectedConsequence: s.expectedConsequence,
+      estimatedCost: s.estimatedCost != null ? String(s.estimatedCost) : "",
+      actualCost: s.actualCost != null ? String(s.actualCost) : "",
     });
   };
 
+  /** Costs and risk reduction per dollar for one step, from the ROI endpoint. */
+  const stepRoiLine = (stepId: string) => {
+    const r = roi?.steps.find((x) => x.stepId === stepId);
+    if (!r) return null;
+    const costs = formatStepCosts(r.estimatedCost, r.actualCost);
+    const planned = `Planned ${formatReduction(r.expectedReduction)}${r.expectedReductionPerDollar != null ? ` (${formatReductionPerDollar(r.expectedReductionPerDollar)})` : ""}`;
+    const achieved =
+      r.actualReduction != null
+        ? ` · Achieved ${formatReduction(r.actualReduction)}${r.actualReductionPerDollar != null ? ` (${formatReductionPerDollar(r.actualReductionPerDollar)})` : ""}`
+        : "";
+    return (
+      <p style={{ margin: "0.25rem 0 0", fontSize: "0.75rem", color: "#6b7280" }}>
+        {costs && `${costs} · `}
+        {planned}
+        {achieved}
+      </p>
+    );
+  };
+
   const stepForm = (
     <div style={{ display: "grid", gap: "0.75rem", marginTop: "0.5rem" }}>
       <div>
@@ -290,6 +329,34 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
           />
         </div>
       </div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "0.75rem" }}>
+        <div>
+          <label style={labelStyle}>Estimated cost ($)</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={form.estimatedCost}
+            onChange={(e) => setForm((p) => ({ ...p, estimatedCost: e.target.value }))}
+            style={formInputStyle}
+            placeholder="Optional"
+          />
+        </div>
+        {editingStep?.actualCompletedAt && (
+          <div>
+            <label style={labelStyle}>Actual cost ($)</label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={form.actualCost}
+              onChange={(e) => setForm((p) => ({ ...p, actualCost: e.target.value }))}
+              style={formInputStyle}
+              placeholder="Optional"
+            />
+          </div>
+        )}
+      </div>
       <div style={{ display: "flex", gap: "0.5rem" }}>
         <button type="submit" style={btnPrimary}>{editingStep ? "Save step" : "Add step"}</button>
         <button type="button" onClick={resetForm} style={btnSecondary}>Cancel</button>
@@ -356,6 +423,18 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
                   style={formInputStyle}
                 />
               </div>
+              <div>
+                <label style={labelStyle}>Actual cost ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={completeForm.actualCost}
+                  onChange={(e) => setCompleteForm((p) => ({ ...p, actualCost: e.target.value }))}
+                  style={formInputStyle}
+                  placeholder={stepToComplete.estimatedCost != null ? `Estimated ${formatCurrency(stepToComplete.estimatedCost)}` : "Optional"}
+                />
+              </div>
             </div>
             <div style={{ display: "flex", gap: "0.5rem", justifyContent: "flex-end" }}>
               <button type="button" onClick={() => setStepToComplete(null)} style={btnSecondary}>Cancel</button>
@@ -479,7 +558,8 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
                         <button
                           type="button"
                           onClick={() => startEdit(s)}
-                          style={{ background: "none", border: "none", padding: 0, font: "inherit", fontSize: "0.875rem", fontWeight: 600, color: "#2563eb", cursor: "pointer", textDecoration: "underline" }}
+                          disabled={readOnly}
+                          style={{ background: "none", border: "none", padding: 0, font: "inherit", fontSize: "0.875rem", fontWeight: 600, color: "#2563eb", cursor: readOnly ? "default" : "pointer", textDecoration: readOnly ? "none" : "underline" }}
                         >
                           Step {idx + 1}
                         </button>
@@ -487,20 +567,21 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
                         <p style={{ margin: "0.25rem 0 0", fontSize: "0.75rem", color: "#6b7280" }}>
                           {s.actualCompletedAt ? `Completed: ${s.actualCompletedAt.slice(0, 10)}` : `Est. end: ${s.estimatedEndDate?.slice(0, 10) ?? "—"}`}
                         </p>
+                        {stepRoiLine(s.id)}
                       </div>
                       <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem", alignItems: "flex-end", flexShrink: 0 }}>
                         <div style={{ display: "flex", gap: "0.25rem", alignItems: "center" }}>
-                          {!s.actualCompletedAt && (
+                          {!readOnly && !s.actualCompletedAt && (
                             <div style={{ display: "flex", flexDirection: "column", gap: 0 }}>
                               <button type="button" onClick={() => handleReorder(idx, "up")} disabled={idx === 0} style={{ ...btnSecondary, padding: "0.15rem 0.35rem", fontSize: "0.7rem", opacity: idx === 0 ? 0.5 : 1 }} title="Move up">↑</button>
                               <button type="button" onClick={() => handleReorder(idx, "down")} disabled={idx === steps.length - 1} style={{ ...btnSecondary, padding: "0.15rem 0.35rem", fontSize: "0.7rem", opacity: idx === steps.length - 1 ? 0.5 : 1 }} title="Move down">↓</button>
                             </div>
                           )}
-                          {!s.actualCompletedAt && (
+                          {!readOnly && !s.actualCompletedAt && (
                             <button type="button" onClick={() => confirmDelete(s.id)} style={{ ...btnDanger, padding: "0.25rem 0.5rem", fontSize: "0.75rem" }}>Delete</button>
                           )}
                         </div>
-                        {!s.actualCompletedAt && (
+                        {!readOnly && !s.actualCompletedAt && (
                           <button type="button" onClick={() => openCompleteModal(s)} style={{ ...btnPrimary, padding: "0.25rem 0.5rem", fontSize: "0.75rem", width: "100%" }}>Mark as Complete</button>
                         )}
                       </div>
@@ -510,13 +591,21 @@ export function MitigationStepsEditor({ riskId, onUpdate, onStepsChange, risk, s
               </li>
             ))}
           </ul>
-          {(showAdd || (steps.length === 0 && !editingStep)) && !editingStep && (
+          {roi && roi.totals.stepCount > 0 && (roi.totals.estimatedCost > 0 || roi.totals.actualCost > 0) && (
+            <p style={{ margin: "0 0 0.75rem", fontSize: "0.75rem", color: "#374151" }}>
+              <strong>Mitigation spend:</strong> {formatCurrency(roi.totals.estimatedCost)} estimated · {formatCurrency(roi.totals.actualCost)} actual
+              <br />
+              <strong>Return:</strong> planned {formatReduction(roi.totals.expectedReduction)} ({formatReductionPerDollar(roi.totals.expectedReductionPerDollar)}) ·
+              achieved {formatReduction(roi.totals.actualReduction)} ({formatReductionPerDollar(roi.totals.actualReductionPerDollar)})
+            </p>
+          )}
+          {!readOnly && (showAdd || (steps.length === 0 && !editingStep)) && !editingStep && (
             <form onSubmit={handleAdd} style={{ background: "#f0f9ff", padding: "0.75rem", borderRadius: 6, border: "1px solid #bae6fd" }}>
               <strong style={{ fontSize: "0.875rem" }}>New mitigation step</strong>
               {stepForm}
             </form>
           )}
-          {!showAdd && steps.length > 0 && !editingStep && (
+          {!readOnly && !showAdd && steps.length > 0 && !editingStep && (
             <button type="button" onClick={() => setShowAdd(true)} style={{ ...btnSecondary, padding: "0.25rem 0.5rem", fontSize: "0.75rem" }}>
               + Add step
             </button>
@@ -1,43 +1,9 @@
 import { useEffect, useState } from "react";
-import type { Opportunity, OpportunityActionPlanStep } from "../types";
+import type { LevelMatrixDefinition, Opportunity, OpportunityActionPlanStep } from "../types";
+import { DEFAULT_OPPORTUNITY_MATRIX, axisLabel, getCellColor, getCellRank } from "../utils/levelMatrix";
 
 const API = "/api";
 
-const LIKELIHOOD_LABELS = ["1: Not Likely", "2: Low Likely", "3: Likely", "4: High Likely", "5: Near Certain"];
-const IMPACT_LABELS = ["1: Minimal", "2: Minor", "3: Moderate", "4: Significant", "5: Substantial"];
-
-// Opportunity matrix: light purple / medium blue / light blue
-const MATRIX_COLOR: Record<string, string> = {
-  low: "#ddd6fe",
-  moderate: "#60a5fa",
-  high: "#38bdf8",
-};
-
-const NUMERICAL_OL: Record<string, number> = {
-  "1-1": 1, "1-2": 3, "1-3": 5, "1-4": 9, "1-5": 12,
-  "2-1": 2, "2-2": 4, "2-3": 11, "2-4": 15, "2-5": 17,
-  "3-1": 6, "3-2": 10, "3-3": 14, "3-4": 19, "3-5": 21,
-  "4-1": 7, "4-2": 13, "4-3": 18, "4-4": 22, "4-5": 24,
-  "5-1": 8, "5-2": 16, "5-3": 20, "5-4": 23, "5-5": 25,
-};
-
-function getNumericalOL(likelihood: number, impact: number): number {
-  const key = `${Math.max(1, Math.min(5, likelihood))}-${Math.max(1, Math.min(5, impact))}`;
-  return NUMERICAL_OL[key] ?? 13;
-}
-
-function getCellColor(l: number, i: number): string {
-  const key = `${Math.max(1, Math.min(5, l))}-${Math.max(1, Math.min(5, i))}`;
-  const levels: Record<string, string> = {
-    "1-1": "low", "1-2": "low", "1-3": "low", "1-4": "moderate", "1-5": "moderate",
-    "2-1": "low", "2-2": "low", "2-3": "moderate", "2-4": "moderate", "2-5": "high",
-    "3-1": "low", "3-2": "moderate", "3-3": "moderate", "3-4": "high", "3-5": "high",
-    "4-1": "moderate", "4-2": "moderate", "4-3": "high", "4-4": "high", "4-5": "high",
-    "5-1": "moderate", "5-2": "high", "5-3": "high", "5-4": "high", "5-5": "high",
-  };
-  return MATRIX_COLOR[levels[key] ?? "moderate"] + "99";
-}
-
 function liToCoord(l: number, i: number, cellSize: number, padding: { top: number; left: number }, labelWidth: number, labelHeight: number) {
   const x = padding.left + labelWidth + (Math.max(1, Math.min(5, i)) - 0.5) * cellSize;
   const y = padding.top + labelHeight + (5 - Math.max(1, Math.min(5, l))) * cellSize + cellSize / 2;
@@ -49,6 +15,8 @@ interface OpportunityActionPlanMatrixProps {
   steps?: OpportunityActionPlanStep[] | null;
   showOriginalLxI?: boolean;
   onShowOriginalLxIChange?: (value: boolean) => void;
+  /** The entity's opportunity matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
 }
 
 interface PointInfo {
@@ -62,7 +30,7 @@ interface PointInfo {
   isOriginalAndCurrent?: boolean;
 }
 
-export function OpportunityActionPlanMatrix({ opportunity, steps: stepsProp, showOriginalLxI = false, onShowOriginalLxIChange }: OpportunityActionPlanMatrixProps) {
+export function OpportunityActionPlanMatrix({ opportunity, steps: stepsProp, showOriginalLxI = false, onShowOriginalLxIChange, matrix = DEFAULT_OPPORTUNITY_MATRIX }: OpportunityActionPlanMatrixProps) {
   const [stepsInternal, setStepsInternal] = useState<OpportunityActionPlanStep[]>([]);
   const [loadingInternal, setLoadingInternal] = useState(true);
   const [showOLNumbers, setShowOLNumbers] = useState(true);
@@ -229,22 +197,22 @@ export function OpportunityActionPlanMatrix({ opportunity, steps: stepsProp, sho
           </defs>
           {[1, 2, 3, 4, 5].map((i) => (
             <text key={`i-${i}`} x={padding.left + labelWidth + (i - 0.5) * cellSize} y={padding.top + labelHeight - 4} textAnchor="middle" fontSize={10} fill="#374151">
-              {IMPACT_LABELS[i - 1]}
+              {axisLabel(matrix.consequenceLabels, i)}
             </text>
           ))}
           {[1, 2, 3, 4, 5].map((l) => (
             <text key={`l-${l}`} x={padding.left + labelWidth - 8} y={padding.top + labelHeight + (5 - l) * cellSize + cellSize / 2} textAnchor="end" fontSize={10} fill="#374151">
-              {LIKELIHOOD_LABELS[l - 1]}
+              {axisLabel(matrix.likelihoodLabels, l)}
             </text>
           ))}
           {[1, 2, 3, 4, 5].map((l) =>
             [1, 2, 3, 4, 5].map((i) => {
               const x = padding.left + labelWidth + (i - 1) * cellSize;
               const y = padding.top + labelHeight + (5 - l) * cellSize;
-              const ol = getNumericalOL(l, i);
+              const ol = getCellRank(matrix, l, i);
               return (
                 <g key={`${l}-${i}`}>
-                  <rect x={x + 2} y={y + 2} width={cellSize - 4} height={cellSize - 4} fill={getCellColor(l, i)} stroke="#d1d5db" strokeWidth={1} rx={4} />
+                  <rect x={x + 2} y={y + 2} width={cellSize - 4} height={cellSize - 4} fill={getCellColor(matrix, l, i) + "99"} stroke="#d1d5db" strokeWidth={1} rx={4} />
                   {showOLNumbers && (
                     <text x={x + 10} y={y + 18} textAnchor="start" fontSize={11} fill="#9ca3af" fontWeight={500}>{ol}</text>
                   )}
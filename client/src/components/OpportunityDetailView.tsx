@@ -1,9 +1,18 @@
 import { useRef, useState, useEffect } from "react";
-import type { Opportunity, OpportunityActionPlanStep, OpportunityCategory, OrganizationalUnit } from "../types";
+import type { AuditAuthor, CriteriaRubric, LevelMatrixDefinition, Opportunity, OpportunityActionPlanStep, OpportunityCategory, OrganizationalUnit, RioItemSummary, RioItemType } from "../types";
+import { formatAuditAuthor } from "../utils/auditAuthor";
+import { DEFAULT_OPPORTUNITY_MATRIX, getLevelColor, getLevelLabel } from "../utils/levelMatrix";
 import { exportElementAsPngCropped } from "../utils/exportPng";
+import { NO_OWNER, ownerValueOf } from "../utils/owners";
 import { OpportunityActionPlanEditor } from "./OpportunityActionPlanEditor";
 import { OpportunityActionPlanMatrix } from "./OpportunityActionPlanMatrix";
 import { OpportunityWaterfall } from "./OpportunityWaterfall";
+import { OwnerPicker } from "./OwnerPicker";
+import { RelatedItemsPanel } from "./RelatedItemsPanel";
+import { CommentThreads } from "./CommentThreads";
+import { ItemConversions } from "./ItemConversions";
+import { ItemReview } from "./ItemReview";
+import { RubricGuidance } from "./RubricGuidance";
 
 const API = "/api";
 
@@ -14,20 +23,14 @@ const STATUS_LABELS: Record<string, string> = {
   reject: "Reject",
 };
 
-const levelColor: Record<string, string> = {
-  low: "#22c55e",
-  moderate: "#eab308",
-  high: "#ef4444",
-};
-
-type DetailTab = "overview" | "action_plan" | "waterfall" | "audit";
+type DetailTab = "overview" | "action_plan" | "waterfall" | "comments" | "audit";
 
 interface AuditChange {
   from: unknown;
   to: unknown;
 }
 
-interface AuditLogEntry {
+interface AuditLogEntry extends Partial<AuditAuthor> {
   id: string;
   entityType: string;
   entityId: string;
@@ -39,10 +42,34 @@ interface AuditLogEntry {
     likelihoodChangeReason?: string;
     impactChangeReason?: string;
     statusChangeRationale?: string;
+    /** "Reviewed (no change)" entries */
+    reviewNote?: string;
+    /** Board decision entries: the meeting and the decision recorded on the agenda item */
+    meeting?: { id: string; title: string; meetingDate: string };
+    decision?: string;
+    previousDecision?: string;
+    /** Comment entries: start of the text (of the removed text on deletes), the text before an edit, and who was mentioned */
+    excerpt?: string;
+    previousExcerpt?: string;
+    mentions?: string[];
+    /** "Converted" entries: the item created from this one */
+    riskCreatedFromOpportunity?: { riskId: string; riskName: string };
   };
   createdAt: string;
 }
 
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  created: "Created",
+  updated: "Updated",
+  deleted: "Deleted",
+  reviewed: "Reviewed (no change)",
+  converted: "Converted",
+  decision: "Board decision",
+  commented: "Comment added",
+  comment_edited: "Comment edited",
+  comment_deleted: "Comment deleted",
+};
+
 const AUDIT_FIELD_LABELS: Record<string, string> = {
   opportunityName: "Name",
   opportunityCondition: "Condition",
@@ -51,8 +78,10 @@ const AUDIT_FIELD_LABELS: Record<string, string> = {
   category: "Category",
   likelihood: "Likelihood",
   impact: "Impact",
+  rubricVersion: "Rubric version",
   owner: "Owner",
   status: "Status",
+  reviewCadenceDays: "Review cadence (days)",
   plannedAction: "Planned action",
   estimatedStartDate: "Est. start date",
   estimatedEndDate: "Est. end date",
@@ -70,6 +99,20 @@ interface OpportunityDetailViewProps {
   orgUnit: OrganizationalUnit;
   onBack: () => void;
   onUpdate: () => void;
+  /** False for Viewers: hides edit and action plan step controls */
+  canEdit?: boolean;
+  /** Signed-in user, for editing and deleting their own comments */
+  currentUserId?: string;
+  /** PPD Admin of the unit: may delete anyone's comment */
+  canModerateComments?: boolean;
+  /** The entity's opportunity matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
+  /** The PPD's current criteria rubric, shown as guidance next to the score inputs */
+  rubric?: CriteriaRubric | null;
+  /** Open a related risk, issue or opportunity */
+  onOpenItem?: (item: RioItemSummary) => void;
+  /** Open an item created from this one, or the one it was created from (refreshes that register) */
+  onOpenConvertedItem?: (type: RioItemType, orgUnitId: string, itemId: string) => void;
 }
 
 const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db" };
@@ -79,7 +122,7 @@ const btnSecondary = { ...btnPrimary, background: "#6b7280" };
 
 const STATUS_REQUIRING_RATIONALE = ["defer", "reevaluate", "reject"];
 
-export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack, onUpdate }: OpportunityDetailViewProps) {
+export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack, onUpdate, canEdit = true, currentUserId, canModerateComments, matrix = DEFAULT_OPPORTUNITY_MATRIX, rubric, onOpenItem, onOpenConvertedItem }: OpportunityDetailViewProps) {
   const categoryLabels = new Map(categories.map((c) => [c.code, c.label]));
   const categoryOptions = categories.map((c) => ({ value: c.code, label: c.label }));
   const [tab, setTab] = useState<DetailTab>("overview");
@@ -139,7 +182,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
     impact: 3,
     likelihoodChangeReason: "",
     impactChangeReason: "",
-    owner: "",
+    ...NO_OWNER,
     status: "",
     statusChangeRationale: "",
   });
@@ -156,7 +199,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
       impact: opportunity.impact,
       likelihoodChangeReason: "",
       impactChangeReason: "",
-      owner: opportunity.owner ?? "",
+      ...ownerValueOf(opportunity),
       status: opportunity.status,
       statusChangeRationale: "",
     });
@@ -186,6 +229,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
         impact: editForm.impact,
         likelihoodChangeReason: lChanged ? editForm.likelihoodChangeReason : undefined,
         impactChangeReason: iChanged ? editForm.impactChangeReason : undefined,
+        ownerId: editForm.ownerId,
         owner: editForm.owner || null,
         status: editForm.status,
         statusChangeRationale: statusChangingToDeferReject ? editForm.statusChangeRationale : undefined,
@@ -220,6 +264,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
     { id: "overview", label: "Overview" },
     { id: "action_plan", label: "Action Plan" },
     { id: "waterfall", label: "Waterfall", disabled: waterfallDisabled },
+    { id: "comments", label: "Comments" },
     { id: "audit", label: "Audit Log" },
   ];
 
@@ -312,6 +357,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
                   <label style={labelStyle}>Impact (1-5)</label>
                   <input type="number" min={1} max={5} value={editForm.impact} onChange={(e) => setEditForm((p) => ({ ...p, impact: parseInt(e.target.value) || 1 }))} style={formInputStyle} />
                 </div>
+                <RubricGuidance rubric={rubric} likelihood={editForm.likelihood} consequence={editForm.impact} consequenceKind="impact" />
               </div>
               {(editForm.likelihood !== opportunity.likelihood || editForm.impact !== opportunity.impact) && (
                 <div style={{ padding: "0.75rem", background: "#fef3c7", borderRadius: 6, border: "1px solid #f59e0b" }}>
@@ -332,7 +378,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
               )}
               <div>
                 <label style={labelStyle}>Owner</label>
-                <input value={editForm.owner} onChange={(e) => setEditForm((p) => ({ ...p, owner: e.target.value }))} style={formInputStyle} />
+                <OwnerPicker value={ownerValueOf(editForm)} onChange={(o) => setEditForm((p) => ({ ...p, ...o }))} />
               </div>
               <div style={{ display: "flex", gap: "0.5rem" }}>
                 <button type="submit" style={btnPrimary}>Save</button>
@@ -343,7 +389,9 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
             <>
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "0.75rem" }}>
                 <h3 style={{ margin: 0, fontSize: "1.0625rem", fontWeight: 600, borderBottom: "2px solid #e5e7eb", paddingBottom: "0.35rem" }}>Opportunity Statement</h3>
-                <button type="button" onClick={startEdit} style={{ ...btnPrimary, padding: "0.4rem 0.75rem", fontSize: "0.8rem", flexShrink: 0, marginLeft: "1rem" }}>Edit</button>
+                {canEdit && (
+                  <button type="button" onClick={startEdit} style={{ ...btnPrimary, padding: "0.4rem 0.75rem", fontSize: "0.8rem", flexShrink: 0, marginLeft: "1rem" }}>Edit</button>
+                )}
               </div>
               <dl style={{ display: "grid", gap: "0.5rem 1.5rem", gridTemplateColumns: "auto 1fr", margin: "0 0 1.25rem", fontSize: "0.9rem" }}>
                 <dt style={{ color: "#6b7280", fontWeight: 600, minWidth: 90 }}>Condition</dt>
@@ -387,12 +435,11 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
                           borderRadius: 4,
                           fontSize: "0.75rem",
                           fontWeight: 600,
-                          background: levelColor[opportunity.opportunityLevel ?? "moderate"] + "22",
-                          color: levelColor[opportunity.opportunityLevel ?? "moderate"],
-                          textTransform: "capitalize",
+                          background: getLevelColor(matrix, opportunity.opportunityLevel) + "33",
+                          color: "#374151",
                         }}
                       >
-                        {opportunity.opportunityLevel ?? "moderate"}
+                        {getLevelLabel(matrix, opportunity.opportunityLevel)}
                       </span>
                     </dd>
                     <dt style={{ color: "#6b7280", fontWeight: 600 }}>Original L×I</dt>
@@ -403,6 +450,8 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
                     </dd>
                     <dt style={{ color: "#6b7280", fontWeight: 600 }}>Current L×I</dt>
                     <dd style={{ margin: 0 }}>L{opportunity.likelihood}×I{opportunity.impact}</dd>
+                    <dt style={{ color: "#6b7280", fontWeight: 600 }}>Rubric</dt>
+                    <dd style={{ margin: 0 }}>{opportunity.rubricVersion != null ? `v${opportunity.rubricVersion}` : "—"}</dd>
                   </dl>
                 </div>
                 <div>
@@ -419,6 +468,9 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
                   </dl>
                 </div>
               </div>
+              <ItemReview itemType="opportunity" item={opportunity} canEdit={canEdit} onUpdate={() => { onUpdate(); loadAuditLog(); }} />
+              <ItemConversions itemType="opportunity" itemId={opportunity.id} status={opportunity.status} canEdit={canEdit} onOpenItem={onOpenConvertedItem} />
+              <RelatedItemsPanel itemType="opportunity" itemId={opportunity.id} orgUnitId={opportunity.organizationalUnitId} canEdit={canEdit} onOpenItem={onOpenItem} />
             </>
           )}
         </div>
@@ -439,6 +491,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
           <div style={{ display: "flex", gap: "1.5rem", alignItems: "flex-start", flexWrap: "wrap" }}>
             <div style={{ flexShrink: 0, minWidth: 380, display: "flex", flexDirection: "column", gap: "0.5rem" }}>
               <OpportunityActionPlanMatrix
+                matrix={matrix}
                 opportunity={opportunity}
                 steps={actionPlanSteps}
                 showOriginalLxI={showOriginalLxI}
@@ -451,6 +504,7 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
                 opportunity={{ originalLikelihood: opportunity.originalLikelihood ?? opportunity.likelihood, originalImpact: opportunity.originalImpact ?? opportunity.impact, likelihood: opportunity.likelihood, impact: opportunity.impact }}
                 onUpdate={() => { onUpdate(); loadActionPlanSteps(); loadAuditLog(); }}
                 onStepsChange={(steps) => setActionPlanSteps(steps)}
+                readOnly={!canEdit}
               />
             </div>
           </div>
@@ -469,15 +523,26 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
               Export PNG
             </button>
           </div>
-          <OpportunityWaterfall orgUnit={orgUnit} opportunities={[opportunity]} preselectedOpportunityId={opportunity.id} />
+          <OpportunityWaterfall orgUnit={orgUnit} opportunities={[opportunity]} preselectedOpportunityId={opportunity.id} matrix={matrix} />
         </div>
       )}
 
+      {tab === "comments" && (
+        <CommentThreads
+          itemType="opportunity"
+          itemId={opportunity.id}
+          canEdit={canEdit}
+          currentUserId={currentUserId}
+          canModerate={canModerateComments}
+          onChange={loadAuditLog}
+        />
+      )}
+
       {tab === "audit" && (
         <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.5rem" }}>
           <h3 style={{ margin: "0 0 1rem", fontSize: "1rem", fontWeight: 600 }}>Audit Log</h3>
           <p style={{ margin: "0 0 1rem", fontSize: "0.875rem", color: "#6b7280" }}>
-            Every creation, update, and deletion of this opportunity and its action plan steps.
+            Every creation, update, and deletion of this opportunity, its action plan steps and its comments.
           </p>
           {auditLogError ? (
             <p style={{ color: "#dc2626", margin: 0 }}>{auditLogError}</p>
@@ -488,8 +553,13 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
           ) : (
             <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
               {auditLog.map((entry) => {
-                const entityLabel = entry.entityType === "opportunity" ? "Opportunity" : `Action plan step ${entry.details?.stepNumber ?? "—"}`;
-                const actionLabel = entry.action === "created" ? "Created" : entry.action === "updated" ? "Updated" : "Deleted";
+                const entityLabel =
+                  entry.entityType === "opportunity"
+                    ? "Opportunity"
+                    : entry.entityType === "comment"
+                      ? entry.details?.stepNumber ? `Comment on action plan step ${entry.details.stepNumber}` : "Comment"
+                      : `Action plan step ${entry.details?.stepNumber ?? "—"}`;
+                const actionLabel = AUDIT_ACTION_LABELS[entry.action] ?? entry.action;
                 const changes = entry.details?.changes;
                 return (
                   <div
@@ -511,7 +581,11 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
                           (changes && Object.keys(changes).length > 0) ||
                           entry.details?.likelihoodChangeReason ||
                           entry.details?.impactChangeReason ||
-                          entry.details?.statusChangeRationale
+                          entry.details?.statusChangeRationale ||
+                          entry.details?.reviewNote ||
+                          entry.details?.decision ||
+                          entry.details?.riskCreatedFromOpportunity ||
+                          entry.details?.excerpt
                             ? "0.5rem"
                             : 0,
                       }}
@@ -520,9 +594,34 @@ export function OpportunityDetailView({ categories, opportunity, orgUnit, onBack
                         {entityLabel} — {actionLabel}
                       </span>
                       <span style={{ color: "#6b7280", fontSize: "0.8rem" }}>
+                        {formatAuditAuthor(entry) && <strong style={{ fontWeight: 500, color: "#374151" }}>{formatAuditAuthor(entry)} · </strong>}
                         {new Date(entry.createdAt).toLocaleString(undefined, { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" })}
                       </span>
                     </div>
+                    {entry.action === "reviewed" && entry.details?.reviewNote && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        <strong>Note:</strong> {entry.details.reviewNote}
+                      </p>
+                    )}
+                    {entry.action === "converted" && entry.details?.riskCreatedFromOpportunity && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        Risk created: {entry.details.riskCreatedFromOpportunity.riskName}
+                      </p>
+                    )}
+                    {entry.action === "decision" && entry.details?.decision && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        {entry.details.meeting && <>At {entry.details.meeting.title} ({entry.details.meeting.meetingDate.slice(0, 10)}): </>}
+                        {entry.details.decision}
+                        {entry.details.previousDecision && <span style={{ color: "#6b7280" }}> (replaces: {entry.details.previousDecision})</span>}
+                      </p>
+                    )}
+                    {entry.entityType === "comment" && entry.details?.excerpt && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        “{entry.details.excerpt}”
+                        {entry.details.previousExcerpt && <span style={{ color: "#6b7280" }}> (was: “{entry.details.previousExcerpt}”)</span>}
+                        {entry.details.mentions && entry.details.mentions.length > 0 && <span style={{ color: "#6b7280" }}> · mentions {entry.details.mentions.join(", ")}</span>}
+                      </p>
+                    )}
                     {entry.action === "updated" && (
                       <>
                         {changes && Object.keys(changes).length > 0 && (
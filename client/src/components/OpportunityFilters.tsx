@@ -1,4 +1,6 @@
 import type { OpportunityCategory } from "../types";
+import { ownerFilterKey } from "../utils/owners";
+import { OwnerFilterSelect } from "./OwnerFilterSelect";
 
 const STATUSES: { value: string; label: string }[] = [
   { value: "pursue_now", label: "Pursue now" },
@@ -10,10 +12,14 @@ const STATUSES: { value: string; label: string }[] = [
 export interface OpportunityFiltersState {
   categories: string[];
   statuses: string[];
+  /** Owner filter value (see ownerFilterKey); "" for all owners */
+  owner: string;
 }
 
 interface OpportunityFiltersProps {
   categories: OpportunityCategory[];
+  /** Owners of the loaded items (ownerFilterOptions) */
+  owners: { value: string; label: string }[];
   filters: OpportunityFiltersState;
   onChange: (filters: OpportunityFiltersState) => void;
 }
@@ -21,7 +27,7 @@ interface OpportunityFiltersProps {
 const checkboxStyle = { margin: 0, cursor: "pointer" as const };
 const labelStyle = { fontSize: "0.8rem", cursor: "pointer" as const, marginRight: "0.75rem" };
 
-export function OpportunityFilters({ categories = [], filters, onChange }: OpportunityFiltersProps) {
+export function OpportunityFilters({ categories = [], owners, filters, onChange }: OpportunityFiltersProps) {
   const safeCategories = Array.isArray(categories) ? categories : [];
   const categoryOptions = safeCategories.map((c) => ({ value: c.code, label: c.label }));
   const cats = Array.isArray(filters?.categories) ? filters.categories : [];
@@ -37,7 +43,7 @@ export function OpportunityFilters({ categories = [], filters, onChange }: Oppor
     onChange({ ...filters, categories: cats, statuses: next });
   };
 
-  const clearAll = () => onChange({ categories: [], statuses: [] });
+  const clearAll = () => onChange({ categories: [], statuses: [], owner: "" });
 
   const rowStyle = { display: "flex", alignItems: "center", flexWrap: "wrap" as const, gap: "0.25rem 0.5rem" };
   const labelStyleInner = { fontSize: "0.75rem", color: "#374151", marginRight: "0.5rem", fontWeight: 700, minWidth: 60 };
@@ -63,6 +69,10 @@ export function OpportunityFilters({ categories = [], filters, onChange }: Oppor
           </label>
         ))}
       </div>
+      <div style={rowStyle}>
+        <span style={labelStyleInner}>Owner:</span>
+        <OwnerFilterSelect owners={owners} value={filters?.owner ?? ""} onChange={(owner) => onChange({ ...filters, categories: cats, statuses: sts, owner })} />
+      </div>
       <div style={rowStyle}>
         <span style={labelStyleInner}>Status:</span>
         {STATUSES.map((s) => (
@@ -71,7 +81,7 @@ export function OpportunityFilters({ categories = [], filters, onChange }: Oppor
             {" "}{s.label}
           </label>
         ))}
-        {(cats.length > 0 || sts.length > 0) && (
+        {(cats.length > 0 || sts.length > 0 || !!filters?.owner) && (
           <button
             type="button"
             onClick={clearAll}
@@ -85,17 +95,19 @@ export function OpportunityFilters({ categories = [], filters, onChange }: Oppor
   );
 }
 
-export function filterOpportunities<T extends { category?: string | null; status?: string }>(
+export function filterOpportunities<T extends { category?: string | null; status?: string; ownerId?: string | null; owner?: string | null }>(
   opportunities: T[] | null | undefined,
   filters: OpportunityFiltersState | null | undefined
 ): T[] {
   const list = Array.isArray(opportunities) ? opportunities : [];
   const cats = Array.isArray(filters?.categories) ? filters.categories : [];
   const sts = Array.isArray(filters?.statuses) ? filters.statuses : [];
-  if (cats.length === 0 && sts.length === 0) return list;
+  const owner = filters?.owner ?? "";
+  if (cats.length === 0 && sts.length === 0 && !owner) return list;
   return list.filter((o) => {
     const categoryOk = cats.length === 0 || (o.category != null && cats.includes(o.category));
     const statusOk = sts.length === 0 || sts.includes(o.status ?? "");
-    return categoryOk && statusOk;
+    const ownerOk = !owner || ownerFilterKey(o) === owner;
+    return categoryOk && statusOk && ownerOk;
   });
 }
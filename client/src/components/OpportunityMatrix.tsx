@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from "react";
-import type { Opportunity, OpportunityCategory, OrganizationalUnit } from "../types";
+import type { LevelMatrixDefinition, Opportunity, OpportunityCategory, OrganizationalUnit } from "../types";
 import { exportElementAsPng } from "../utils/exportPng";
+import { DEFAULT_OPPORTUNITY_MATRIX, axisLabel, getCellColor, getCellRank, getLevelColor, getRankColor } from "../utils/levelMatrix";
 
 interface OpportunityMatrixProps {
   categories: OpportunityCategory[];
@@ -8,58 +9,8 @@ interface OpportunityMatrixProps {
   opportunities: Opportunity[];
   onSelectOpportunity?: (id: string) => void;
   onExportRef?: (el: HTMLDivElement | null) => void;
-}
-
-const LIKELIHOOD_LABELS = ["1: Not Likely", "2: Low Likely", "3: Likely", "4: High Likely", "5: Near Certain"];
-const IMPACT_LABELS = ["1: Minimal", "2: Minor", "3: Moderate", "4: Significant", "5: Substantial"];
-
-// Opportunity matrix: light purple / medium blue / light blue
-const MATRIX_COLOR: Record<string, string> = {
-  low: "#ddd6fe",
-  moderate: "#60a5fa",
-  high: "#38bdf8",
-};
-
-function getCellColor(l: number, i: number): string {
-  const key = `${Math.max(1, Math.min(5, l))}-${Math.max(1, Math.min(5, i))}`;
-  const levels: Record<string, string> = {
-    "1-1": "low", "1-2": "low", "1-3": "low", "1-4": "moderate", "1-5": "moderate",
-    "2-1": "low", "2-2": "low", "2-3": "moderate", "2-4": "moderate", "2-5": "high",
-    "3-1": "low", "3-2": "moderate", "3-3": "moderate", "3-4": "high", "3-5": "high",
-    "4-1": "moderate", "4-2": "moderate", "4-3": "high", "4-4": "high", "4-5": "high",
-    "5-1": "moderate", "5-2": "high", "5-3": "high", "5-4": "high", "5-5": "high",
-  };
-  return MATRIX_COLOR[levels[key] ?? "moderate"] + "99";
-}
-
-const NUMERICAL_OL: Record<string, number> = {
-  "1-1": 1, "1-2": 3, "1-3": 5, "1-4": 9, "1-5": 12,
-  "2-1": 2, "2-2": 4, "2-3": 11, "2-4": 15, "2-5": 17,
-  "3-1": 6, "3-2": 10, "3-3": 14, "3-4": 19, "3-5": 21,
-  "4-1": 7, "4-2": 13, "4-3": 18, "4-4": 22, "4-5": 24,
-  "5-1": 8, "5-2": 16, "5-3": 20, "5-4": 23, "5-5": 25,
-};
-
-function getNumericalOL(likelihood: number, impact: number): number {
-  const key = `${Math.max(1, Math.min(5, likelihood))}-${Math.max(1, Math.min(5, impact))}`;
-  return NUMERICAL_OL[key] ?? 13;
-}
-
-const LEVEL_BY_CELL: Record<string, keyof typeof MATRIX_COLOR> = {
-  "1-1": "low", "1-2": "low", "1-3": "low", "1-4": "moderate", "1-5": "moderate",
-  "2-1": "low", "2-2": "low", "2-3": "moderate", "2-4": "moderate", "2-5": "high",
-  "3-1": "low", "3-2": "moderate", "3-3": "moderate", "3-4": "high", "3-5": "high",
-  "4-1": "moderate", "4-2": "moderate", "4-3": "high", "4-4": "high", "4-5": "high",
-  "5-1": "moderate", "5-2": "high", "5-3": "high", "5-4": "high", "5-5": "high",
-};
-
-const OL_LEVEL: Record<number, keyof typeof MATRIX_COLOR> = {};
-(Object.entries(NUMERICAL_OL) as [string, number][]).forEach(([key, ol]) => {
-  OL_LEVEL[ol] = LEVEL_BY_CELL[key] ?? "moderate";
-});
-
-function getOLColor(ol: number): string {
-  return MATRIX_COLOR[OL_LEVEL[ol] ?? "moderate"];
+  /** The entity's opportunity matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
 }
 
 const OFFSET_X = 12;
@@ -117,17 +68,17 @@ function getOriginalPosition(
 }
 
 type Trend = "up" | "down" | "unchanged";
-function getTrend(o: Opportunity): Trend {
+function getTrend(o: Opportunity, matrix: LevelMatrixDefinition): Trend {
   const origL = o.originalLikelihood ?? o.likelihood;
   const origI = o.originalImpact ?? o.impact;
-  const origOL = getNumericalOL(origL, origI);
-  const currentOL = getNumericalOL(o.likelihood, o.impact);
+  const origOL = getCellRank(matrix, origL, origI);
+  const currentOL = getCellRank(matrix, o.likelihood, o.impact);
   if (currentOL > origOL) return "up";
   if (currentOL < origOL) return "down";
   return "unchanged";
 }
 
-export function OpportunityMatrix({ categories, orgUnit, opportunities, onSelectOpportunity, onExportRef }: OpportunityMatrixProps) {
+export function OpportunityMatrix({ categories, orgUnit, opportunities, onSelectOpportunity, onExportRef, matrix = DEFAULT_OPPORTUNITY_MATRIX }: OpportunityMatrixProps) {
   useEffect(() => { console.log("[OpportunityMatrix] mount", { orgUnitId: orgUnit?.id, opportunitiesCount: opportunities?.length }); }, [orgUnit?.id, opportunities?.length]);
   const categoryLabelMap: Record<string, string> = Object.fromEntries(categories.map((c) => [c.code, c.label]));
   const [showOLNumbers, setShowOLNumbers] = useState(true);
@@ -175,7 +126,7 @@ export function OpportunityMatrix({ categories, orgUnit, opportunities, onSelect
     }
   }
 
-  const opportunitiesSortedByOL = [...opportunities].sort((a, b) => getNumericalOL(b.likelihood, b.impact) - getNumericalOL(a.likelihood, a.impact));
+  const opportunitiesSortedByOL = [...opportunities].sort((a, b) => getCellRank(matrix, b.likelihood, b.impact) - getCellRank(matrix, a.likelihood, a.impact));
 
   const exportRef = useRef<HTMLDivElement>(null);
   const handleExportPng = async () => {
@@ -247,7 +198,7 @@ export function OpportunityMatrix({ categories, orgUnit, opportunities, onSelect
           })}
           {[1, 2, 3, 4, 5].map((i) => (
             <text key={`i-${i}`} x={padding.left + labelWidth + (i - 0.5) * cellSize} y={padding.top + labelHeight - 4} textAnchor="middle" fontSize={10} fill="#374151">
-              {IMPACT_LABELS[i - 1]}
+              {axisLabel(matrix.consequenceLabels, i)}
             </text>
           ))}
           {[1, 2, 3, 4, 5].map((l) => (
@@ -259,19 +210,19 @@ export function OpportunityMatrix({ categories, orgUnit, opportunities, onSelect
               fontSize={10}
               fill="#374151"
             >
-              {LIKELIHOOD_LABELS[l - 1]}
+              {axisLabel(matrix.likelihoodLabels, l)}
             </text>
           ))}
           {[1, 2, 3, 4, 5].map((l) =>
             [1, 2, 3, 4, 5].map((i) => {
               const key = `${l}-${i}`;
               const occupants = cellOccupants.get(key) ?? [];
-              const ol = getNumericalOL(l, i);
+              const ol = getCellRank(matrix, l, i);
               const x = padding.left + labelWidth + (i - 1) * cellSize;
               const y = padding.top + labelHeight + (5 - l) * cellSize;
               return (
                 <g key={key}>
-                  <rect x={x + 2} y={y + 2} width={cellSize - 4} height={cellSize - 4} fill={getCellColor(l, i)} stroke="#d1d5db" strokeWidth={1} rx={4} />
+                  <rect x={x + 2} y={y + 2} width={cellSize - 4} height={cellSize - 4} fill={getCellColor(matrix, l, i) + "99"} stroke="#d1d5db" strokeWidth={1} rx={4} />
                   {showOLNumbers && (
                     <text x={x + 10} y={y + 18} textAnchor="start" fontSize={11} fill="#9ca3af" fontWeight={500}>
                       {ol}
@@ -287,7 +238,7 @@ export function OpportunityMatrix({ categories, orgUnit, opportunities, onSelect
                         cx={cx}
                         cy={cy}
                         r={occupants.length > 1 ? 6 : 10}
-                        fill={MATRIX_COLOR[opp.opportunityLevel ?? "moderate"]}
+                        fill={getLevelColor(matrix, opp.opportunityLevel)}
                         stroke="#1f2937"
                         strokeWidth={1}
                         onClick={onSelectOpportunity ? () => onSelectOpportunity(opp.id) : undefined}
@@ -331,10 +282,10 @@ export function OpportunityMatrix({ categories, orgUnit, opportunities, onSelect
                 </thead>
                 <tbody>
                   {opportunitiesSortedByOL.map((o) => {
-                    const trend = getTrend(o);
+                    const trend = getTrend(o, matrix);
                     return (
                       <tr key={o.id} style={{ borderBottom: "1px solid #f3f4f6" }}>
-                        <td style={{ padding: "0.5rem 0.75rem", fontWeight: 600, color: getOLColor(getNumericalOL(o.likelihood, o.impact)) }}>{getNumericalOL(o.likelihood, o.impact)}</td>
+                        <td style={{ padding: "0.5rem 0.75rem", fontWeight: 600, color: getRankColor(matrix, getCellRank(matrix, o.likelihood, o.impact)) }}>{getCellRank(matrix, o.likelihood, o.impact)}</td>
                         <td style={{ padding: "0.5rem 0.75rem", textAlign: "center" }}>{o.likelihood}</td>
                         <td style={{ padding: "0.5rem 0.75rem", textAlign: "center" }}>{o.impact}</td>
                         <td style={{ padding: "0.5rem 0.75rem", textAlign: "center", fontSize: "1.1rem" }} title={trend === "up" ? "Increased from original" : trend === "down" ? "Decreased from original" : "Unchanged from original"}>
@@ -1,7 +1,12 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { Opportunity, OpportunityCategory, OrganizationalUnit } from "../types";
+import type { CriteriaRubric, LevelMatrixDefinition, Opportunity, OpportunityCategory, OrganizationalUnit } from "../types";
 import { exportElementAsPng } from "../utils/exportPng";
+import { DEFAULT_OPPORTUNITY_MATRIX, getCellRank, getLevelColor, getLevelLabel } from "../utils/levelMatrix";
+import { NO_OWNER, ownerValueOf } from "../utils/owners";
 import { OpportunityActionPlanEditor } from "./OpportunityActionPlanEditor";
+import { OwnerPicker } from "./OwnerPicker";
+import { ReviewOverdueBadge } from "./ReviewOverdueBadge";
+import { RubricGuidance } from "./RubricGuidance";
 
 const API = "/api";
 
@@ -12,20 +17,16 @@ interface OpportunityRegisterProps {
   loading: boolean;
   onUpdate: () => void;
   onSelectOpportunity?: (id: string) => void;
+  /** False for Viewers: hides add/edit controls */
+  canEdit?: boolean;
+  /** The entity's opportunity matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
+  /** The PPD's current criteria rubric, shown as guidance next to the score inputs */
+  rubric?: CriteriaRubric | null;
+  /** Roll-up scope: adds an Org Unit column for items from child units */
+  showOrgUnit?: boolean;
 }
 
-// Level colors and labels — match 5×5 Opportunity Matrix (light purple / medium blue / light blue)
-const OPP_LEVEL_COLOR: Record<string, string> = {
-  low: "#ddd6fe",      // Good — light purple
-  moderate: "#60a5fa", // Very Good — medium blue
-  high: "#38bdf8",     // Excellent — light blue
-};
-const OPP_LEVEL_LABEL: Record<string, string> = {
-  low: "Good",
-  moderate: "Very Good",
-  high: "Excellent",
-};
-
 const STATUS_LABELS: Record<string, string> = {
   pursue_now: "Pursue now",
   defer: "Defer",
@@ -44,21 +45,9 @@ const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBotto
 const btnPrimary = { padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const };
 const btnSecondary = { ...btnPrimary, background: "#6b7280" };
 
-const NUMERICAL_OL: Record<string, number> = {
-  "1-1": 1, "1-2": 3, "1-3": 5, "1-4": 9, "1-5": 12,
-  "2-1": 2, "2-2": 4, "2-3": 11, "2-4": 15, "2-5": 17,
-  "3-1": 6, "3-2": 10, "3-3": 14, "3-4": 19, "3-5": 21,
-  "4-1": 7, "4-2": 13, "4-3": 18, "4-4": 22, "4-5": 24,
-  "5-1": 8, "5-2": 16, "5-3": 20, "5-4": 23, "5-5": 25,
-};
-function getNumericalOL(likelihood: number, impact: number): number {
-  const key = `${Math.max(1, Math.min(5, likelihood))}-${Math.max(1, Math.min(5, impact))}`;
-  return NUMERICAL_OL[key] ?? 13;
-}
-
-export type OpportunityRegisterSortKey = "opportunityName" | "category" | "likelihood" | "impact" | "opportunityLevel" | "status" | "owner" | "lastUpdated";
+export type OpportunityRegisterSortKey = "opportunityName" | "orgUnit" | "category" | "likelihood" | "impact" | "opportunityLevel" | "status" | "owner" | "lastUpdated";
 
-export function OpportunityRegister({ categories = [], orgUnit, opportunities = [], loading, onUpdate, onSelectOpportunity }: OpportunityRegisterProps) {
+export function OpportunityRegister({ categories = [], orgUnit, opportunities = [], loading, onUpdate, onSelectOpportunity, canEdit = true, matrix = DEFAULT_OPPORTUNITY_MATRIX, rubric, showOrgUnit = false }: OpportunityRegisterProps) {
   useEffect(() => { console.log("[OpportunityRegister] mount", { orgUnitId: orgUnit?.id, opportunitiesCount: opportunities?.length }); }, [orgUnit?.id, opportunities?.length]);
   const safeCategories = Array.isArray(categories) ? categories : [];
   const safeOpportunities = Array.isArray(opportunities) ? opportunities : [];
@@ -97,11 +86,14 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
           cmp = a.impact - b.impact;
           break;
         case "opportunityLevel":
-          cmp = getNumericalOL(a.likelihood, a.impact) - getNumericalOL(b.likelihood, b.impact);
+          cmp = getCellRank(matrix, a.likelihood, a.impact) - getCellRank(matrix, b.likelihood, b.impact);
           break;
         case "status":
           cmp = (a.status ?? "").localeCompare(b.status ?? "", undefined, { sensitivity: "base" });
           break;
+        case "orgUnit":
+          cmp = (a.organizationalUnit?.name ?? "").localeCompare(b.organizationalUnit?.name ?? "", undefined, { sensitivity: "base" });
+          break;
         case "owner":
           cmp = (a.owner ?? "").localeCompare(b.owner ?? "", undefined, { sensitivity: "base" });
           break;
@@ -116,7 +108,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
       }
       return cmp * dir;
     });
-  }, [safeOpportunities, sortBy, sortDir, categoryOptions]);
+  }, [safeOpportunities, sortBy, sortDir, categoryOptions, matrix]);
 
   const [newOpp, setNewOpp] = useState({
     opportunityName: "",
@@ -126,7 +118,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
     category: "",
     likelihood: 3,
     impact: 3,
-    owner: "",
+    ...NO_OWNER,
   });
   const [editForm, setEditForm] = useState({
     opportunityName: "",
@@ -138,7 +130,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
     impact: 3,
     likelihoodChangeReason: "",
     impactChangeReason: "",
-    owner: "",
+    ...NO_OWNER,
     status: "",
     statusChangeRationale: "",
   });
@@ -159,13 +151,14 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
         category: newOpp.category || null,
         likelihood: newOpp.likelihood,
         impact: newOpp.impact,
+        ownerId: newOpp.ownerId,
         owner: newOpp.owner || null,
       }),
     })
       .then((r) => r.json())
       .then(() => {
         setShowAddForm(false);
-        setNewOpp({ opportunityName: "", opportunityCondition: "", opportunityIf: "", opportunityThen: "", category: "", likelihood: 3, impact: 3, owner: "" });
+        setNewOpp({ opportunityName: "", opportunityCondition: "", opportunityIf: "", opportunityThen: "", category: "", likelihood: 3, impact: 3, ...NO_OWNER });
         onUpdate();
       })
       .catch((e) => console.error("Failed to add opportunity:", e));
@@ -194,6 +187,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
         impact: editForm.impact,
         likelihoodChangeReason: lChanged ? editForm.likelihoodChangeReason : undefined,
         impactChangeReason: iChanged ? editForm.impactChangeReason : undefined,
+        ownerId: editForm.ownerId,
         owner: editForm.owner || null,
         status: newStatus,
         statusChangeRationale: statusChangingToDeferReject ? editForm.statusChangeRationale : undefined,
@@ -219,7 +213,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
       impact: o.impact,
       likelihoodChangeReason: "",
       impactChangeReason: "",
-      owner: o.owner ?? "",
+      ...ownerValueOf(o),
       status: o.status,
       statusChangeRationale: "",
     });
@@ -243,13 +237,15 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
           <button onClick={handleExportPng} style={{ ...btnPrimary, background: "#6b7280" }} title="Export as PNG (16:9)">
             Export PNG
           </button>
-          <button onClick={() => setShowAddForm(!showAddForm)} style={btnPrimary}>
-            {showAddForm ? "Cancel" : "+ Add Opportunity"}
-          </button>
+          {canEdit && (
+            <button onClick={() => setShowAddForm(!showAddForm)} style={btnPrimary}>
+              {showAddForm ? "Cancel" : "+ Add Opportunity"}
+            </button>
+          )}
         </div>
       </div>
 
-      {showAddForm && (
+      {canEdit && showAddForm && (
         <form
           onSubmit={handleAddOpportunity}
           style={{ background: "white", padding: "1.5rem", borderRadius: 8, marginBottom: "1rem", border: "1px solid #e5e7eb" }}
@@ -290,10 +286,11 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
                 <label style={labelStyle}>Impact (1-5)</label>
                 <input type="number" min={1} max={5} value={newOpp.impact} onChange={(e) => setNewOpp((p) => ({ ...p, impact: parseInt(e.target.value) || 1 }))} style={formInputStyle} />
               </div>
+              <RubricGuidance rubric={rubric} likelihood={newOpp.likelihood} consequence={newOpp.impact} consequenceKind="impact" />
             </div>
             <div>
               <label style={labelStyle}>Owner</label>
-              <input value={newOpp.owner} onChange={(e) => setNewOpp((p) => ({ ...p, owner: e.target.value }))} placeholder="Name or role" style={formInputStyle} />
+              <OwnerPicker value={ownerValueOf(newOpp)} onChange={(o) => setNewOpp((p) => ({ ...p, ...o }))} />
             </div>
             <button type="submit" style={btnPrimary}>Add Opportunity</button>
           </div>
@@ -313,6 +310,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
               <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
                 {([
                   { key: "opportunityName" as const, label: "Opportunity Name", align: "left" as const },
+                  { key: "orgUnit" as const, label: "Org Unit", align: "left" as const },
                   { key: "category" as const, label: "Category", align: "left" as const },
                   { key: "likelihood" as const, label: "L", align: "center" as const },
                   { key: "impact" as const, label: "I", align: "center" as const },
@@ -320,7 +318,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
                   { key: "status" as const, label: "Status", align: "left" as const },
                   { key: "owner" as const, label: "Owner", align: "left" as const },
                   { key: "lastUpdated" as const, label: "Last Updated", align: "right" as const },
-                ] as const).map(({ key, label, align }) => (
+                ] as const).filter(({ key }) => showOrgUnit || key !== "orgUnit").map(({ key, label, align }) => (
                   <th key={key} style={{ padding: "0.75rem 1rem", textAlign: align, fontSize: "0.75rem", color: "#6b7280", cursor: "pointer", userSelect: "none", whiteSpace: "nowrap" }} onClick={() => handleSort(key)} title={`Sort by ${label}`}>
                     {label}
                     {sortBy === key ? (sortDir === "asc" ? " ↑" : " ↓") : ""}
@@ -332,7 +330,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
               {sortedOpportunities.map((o) =>
                 editing?.id === o.id ? (
                   <tr key={o.id} style={{ borderBottom: "1px solid #f3f4f6", background: "#fffbeb" }}>
-                    <td colSpan={8} style={{ padding: "1rem" }}>
+                    <td colSpan={showOrgUnit ? 9 : 8} style={{ padding: "1rem" }}>
                       <form onSubmit={handleEditOpportunity} style={{ display: "grid", gap: "1rem", maxWidth: 600 }}>
                         <h4 style={{ margin: "0 0 0.5rem" }}>Edit Opportunity</h4>
                         <div>
@@ -369,6 +367,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
                             <label style={labelStyle}>Impact (1-5)</label>
                             <input type="number" min={1} max={5} value={editForm.impact} onChange={(e) => setEditForm((p) => ({ ...p, impact: parseInt(e.target.value) || 1 }))} style={formInputStyle} />
                           </div>
+                          <RubricGuidance rubric={rubric} likelihood={editForm.likelihood} consequence={editForm.impact} consequenceKind="impact" />
                           <div>
                             <label style={labelStyle}>Status</label>
                             <select value={editForm.status} onChange={(e) => setEditForm((p) => ({ ...p, status: e.target.value }))} style={formInputStyle}>
@@ -404,7 +403,7 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
                         )}
                         <div>
                           <label style={labelStyle}>Owner</label>
-                          <input value={editForm.owner} onChange={(e) => setEditForm((p) => ({ ...p, owner: e.target.value }))} style={formInputStyle} />
+                          <OwnerPicker value={ownerValueOf(editForm)} onChange={(o) => setEditForm((p) => ({ ...p, ...o }))} />
                         </div>
                         <div style={{ display: "flex", gap: "0.5rem" }}>
                           <button type="submit" style={btnPrimary}>Save opportunity</button>
@@ -423,15 +422,19 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", maxWidth: 280 }} title={[o.opportunityCondition, o.opportunityIf, o.opportunityThen].filter(Boolean).join(" → ")}>
                       <button
                         type="button"
-                        onClick={() => (onSelectOpportunity ? onSelectOpportunity(o.id) : startEdit(o))}
+                        onClick={() => (onSelectOpportunity ? onSelectOpportunity(o.id) : canEdit && startEdit(o))}
                         style={{ background: "none", border: "none", padding: 0, cursor: "pointer", textAlign: "left", font: "inherit", color: "inherit", textDecoration: "underline" }}
                       >
                         <strong>{(o.opportunityName ?? "").slice(0, 60)}{(o.opportunityName ?? "").length > 60 ? "…" : ""}</strong>
                       </button>
+                      <ReviewOverdueBadge item={o} />
                       <div style={{ fontSize: "0.75rem", marginTop: "0.2rem", color: "#6b7280" }}>
                         Condition: {(o.opportunityCondition ?? "").slice(0, 50)}{(o.opportunityCondition ?? "").length > 50 ? "…" : ""}
                       </div>
                     </td>
+                    {showOrgUnit && (
+                      <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>{o.organizationalUnit?.name ?? "—"}</td>
+                    )}
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>
                       {o.category ? categoryOptions.find((c) => c.value === o.category)?.label ?? o.category : "—"}
                     </td>
@@ -445,11 +448,11 @@ export function OpportunityRegister({ categories = [], orgUnit, opportunities =
                           borderRadius: 4,
                           fontSize: "0.75rem",
                           fontWeight: 600,
-                          background: (OPP_LEVEL_COLOR[o.opportunityLevel ?? "moderate"] ?? "#e5e7eb") + "33",
+                          background: getLevelColor(matrix, o.opportunityLevel) + "33",
                           color: "#374151",
                         }}
                       >
-                        {OPP_LEVEL_LABEL[o.opportunityLevel ?? "moderate"] ?? (o.opportunityLevel ?? "—")}
+                        {getLevelLabel(matrix, o.opportunityLevel)}
                       </span>
                     </td>
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem" }}>{STATUS_LABELS[o.status] ?? o.status}</td>
@@ -10,21 +10,17 @@ import {
   Legend,
   ReferenceArea,
 } from "recharts";
-import type { OrganizationalUnit, Opportunity } from "../types";
+import type { LevelMatrixDefinition, OrganizationalUnit, Opportunity } from "../types";
+import { DEFAULT_OPPORTUNITY_MATRIX, getRankBands } from "../utils/levelMatrix";
 
 const API = "/api";
 
-// Same as 5×5 Opportunity Matrix: light purple / medium blue / light blue
-const OL_BANDS = [
-  { y1: 1, y2: 6.5, fill: "#ddd6fe99" },
-  { y1: 6.5, y2: 16.5, fill: "#60a5fa99" },
-  { y1: 16.5, y2: 25, fill: "#38bdf899" },
-];
-
 interface OpportunityWaterfallProps {
   orgUnit: OrganizationalUnit;
   opportunities: Opportunity[];
   preselectedOpportunityId?: string;
+  /** The entity's opportunity matrix; background bands follow its levels */
+  matrix?: LevelMatrixDefinition;
 }
 
 interface WaterfallPoint {
@@ -42,7 +38,7 @@ interface WaterfallPoint {
   actualIsOriginal?: boolean;
 }
 
-export function OpportunityWaterfall({ orgUnit: _orgUnit, opportunities, preselectedOpportunityId }: OpportunityWaterfallProps) {
+export function OpportunityWaterfall({ orgUnit: _orgUnit, opportunities, preselectedOpportunityId, matrix = DEFAULT_OPPORTUNITY_MATRIX }: OpportunityWaterfallProps) {
   const [selectedOpportunityId, setSelectedOpportunityId] = useState<string>(preselectedOpportunityId ?? "");
   const [data, setData] = useState<WaterfallPoint[]>([]);
   const [loading, setLoading] = useState(false);
@@ -161,7 +157,7 @@ export function OpportunityWaterfall({ orgUnit: _orgUnit, opportunities, presele
           </div>
           <ResponsiveContainer>
             <LineChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
-              {OL_BANDS.map((band, i) => (
+              {getRankBands(matrix, "99").map((band, i) => (
                 <ReferenceArea key={i} y1={band.y1} y2={band.y2} fill={band.fill} />
               ))}
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
@@ -28,6 +28,22 @@ const typeLabel: Record<string, string> = {
   department: "Department",
 };
 
+/** The unit and the units below it, which cannot be chosen as its parent. */
+function selfAndDescendantIds(units: OrganizationalUnit[], id: string): Set<string> {
+  const ids = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const u of units) {
+      if (u.parentId && ids.has(u.parentId) && !ids.has(u.id)) {
+        ids.add(u.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
 interface OrgUnitManagerProps {
   legalEntities: LegalEntity[];
   onUpdate?: () => void;
@@ -44,6 +60,7 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
     type: "program" as "program" | "project" | "department",
     name: "",
     description: "",
+    parentId: "",
   });
 
   const loadOrgUnits = () => {
@@ -84,12 +101,13 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
         type: form.type,
         name: form.name.trim(),
         description: form.description.trim() || null,
+        parentId: form.parentId || null,
       }),
     })
       .then((r) => r.json())
       .then(() => {
         setShowAddForm(false);
-        setForm({ type: "program", name: "", description: "" });
+        setForm({ type: "program", name: "", description: "", parentId: "" });
         loadOrgUnits();
         onUpdate?.();
       })
@@ -106,16 +124,17 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
         type: form.type,
         name: form.name.trim(),
         description: form.description.trim() || null,
+        parentId: form.parentId || null,
       }),
     })
-      .then((r) => r.json())
+      .then((r) => (r.ok ? r.json() : r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)))))
       .then(() => {
         setEditing(null);
-        setForm({ type: "program", name: "", description: "" });
+        setForm({ type: "program", name: "", description: "", parentId: "" });
         loadOrgUnits();
         onUpdate?.();
       })
-      .catch((e) => console.error("Failed to update org unit:", e));
+      .catch((e) => alert(`Failed to update org unit: ${e.message}`));
   };
 
   const handleDelete = () => {
@@ -131,14 +150,29 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
 
   const startEdit = (u: OrganizationalUnit) => {
     setEditing(u);
-    setForm({ type: u.type, name: u.name, description: u.description ?? "" });
+    setForm({ type: u.type, name: u.name, description: u.description ?? "", parentId: u.parentId ?? "" });
   };
 
   const cancelEdit = () => {
     setEditing(null);
-    setForm({ type: "program", name: "", description: "" });
+    setForm({ type: "program", name: "", description: "", parentId: "" });
   };
 
+  const unitName = (id: string | null | undefined) => orgUnits.find((u) => u.id === id)?.name;
+
+  const parentSelect = (excluded: Set<string>) => (
+    <select value={form.parentId} onChange={(ev) => setForm((p) => ({ ...p, parentId: ev.target.value }))} style={formInputStyle}>
+      <option value="">— None —</option>
+      {orgUnits
+        .filter((u) => !excluded.has(u.id))
+        .map((u) => (
+          <option key={u.id} value={u.id}>
+            {typeLabel[u.type]}: {u.name}
+          </option>
+        ))}
+    </select>
+  );
+
   return (
     <section style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", overflow: "hidden" }}>
       <div style={{ padding: "1rem 1.5rem", display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: "1rem", borderBottom: "1px solid #e5e7eb" }}>
@@ -187,7 +221,10 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
                 <option value="department">Department</option>
               </select>
             </div>
-            <div />
+            <div>
+              <label style={labelStyle}>Parent</label>
+              {parentSelect(new Set())}
+            </div>
             <div>
               <label style={labelStyle}>Name *</label>
               <input
@@ -226,6 +263,7 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
               <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
                 <th style={{ padding: "0.75rem 1rem", textAlign: "left", fontSize: "0.75rem", color: "#6b7280" }}>Name</th>
                 <th style={{ padding: "0.75rem 1rem", textAlign: "left", fontSize: "0.75rem", color: "#6b7280" }}>Type</th>
+                <th style={{ padding: "0.75rem 1rem", textAlign: "left", fontSize: "0.75rem", color: "#6b7280" }}>Parent</th>
                 <th style={{ padding: "0.75rem 1rem", textAlign: "left", fontSize: "0.75rem", color: "#6b7280" }}>Description</th>
                 <th style={{ padding: "0.75rem 1rem", textAlign: "right", fontSize: "0.75rem", color: "#6b7280" }}>Actions</th>
               </tr>
@@ -234,7 +272,7 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
               {orgUnits.map((u) =>
                 editing?.id === u.id ? (
                   <tr key={u.id} style={{ borderBottom: "1px solid #f3f4f6", background: "#fffbeb" }}>
-                    <td colSpan={4} style={{ padding: "1rem" }}>
+                    <td colSpan={5} style={{ padding: "1rem" }}>
                       <form onSubmit={handleEdit} style={{ display: "grid", gap: "1rem", maxWidth: 500 }}>
                         <h4 style={{ margin: "0 0 0.5rem" }}>Edit {typeLabel[u.type]}</h4>
                         <div>
@@ -258,6 +296,10 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
                             style={formInputStyle}
                           />
                         </div>
+                        <div>
+                          <label style={labelStyle}>Parent</label>
+                          {parentSelect(selfAndDescendantIds(orgUnits, u.id))}
+                        </div>
                         <div>
                           <label style={labelStyle}>Description</label>
                           <textarea
@@ -286,6 +328,7 @@ export function OrgUnitManager({ legalEntities, onUpdate }: OrgUnitManagerProps)
                       </button>
                     </td>
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem" }}>{typeLabel[u.type]}</td>
+                    <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>{unitName(u.parentId) ?? "—"}</td>
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>{u.description ?? "—"}</td>
                     <td style={{ padding: "0.75rem 1rem", textAlign: "right" }}>
                       <button
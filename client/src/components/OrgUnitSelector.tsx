@@ -1,11 +1,17 @@
-import type { LegalEntity, OrganizationalUnit } from "../types";
+import type { AuthUser, LegalEntity, OrganizationalUnit } from "../types";
+import { getOrgUnitRole, ROLE_LABELS } from "../utils/permissions";
 
 interface OrgUnitSelectorProps {
   legalEntities: LegalEntity[];
+  /** Only LE/PPDs where this user holds a role are listed, labelled with the role. */
+  currentUser: AuthUser | null;
   selectedLegalEntity: LegalEntity | null;
   selectedOrgUnit: OrganizationalUnit | null;
   onSelectLegalEntity: (e: LegalEntity | null) => void;
   onSelectOrgUnit: (u: OrganizationalUnit | null) => void;
+  /** Roll-up mode: registers, matrices and charts also cover the selected unit's child units */
+  includeDescendants: boolean;
+  onIncludeDescendantsChange: (include: boolean) => void;
 }
 
 const typeLabel: Record<string, string> = {
@@ -14,14 +20,35 @@ const typeLabel: Record<string, string> = {
   department: "Department",
 };
 
+/** Units in hierarchy order, each child after its parent; a unit whose parent is not listed starts a new tree. */
+function inHierarchyOrder(units: OrganizationalUnit[]): { unit: OrganizationalUnit; depth: number }[] {
+  const ids = new Set(units.map((u) => u.id));
+  const out: { unit: OrganizationalUnit; depth: number }[] = [];
+  const visit = (unit: OrganizationalUnit, depth: number) => {
+    if (out.some((o) => o.unit.id === unit.id)) return;
+    out.push({ unit, depth });
+    for (const child of units.filter((u) => u.parentId === unit.id)) visit(child, depth + 1);
+  };
+  for (const root of units.filter((u) => !u.parentId || !ids.has(u.parentId))) visit(root, 0);
+  // Units left over sit on a parent cycle; list them flat rather than drop them
+  for (const u of units) visit(u, 0);
+  return out;
+}
+
 export function OrgUnitSelector({
-  legalEntities,
+  legalEntities: allLegalEntities,
+  currentUser,
   selectedLegalEntity,
   selectedOrgUnit,
   onSelectLegalEntity,
   onSelectOrgUnit,
+  includeDescendants,
+  onIncludeDescendantsChange,
 }: OrgUnitSelectorProps) {
-  const orgUnits = selectedLegalEntity?.organizationalUnits ?? [];
+  const visibleUnits = (e: LegalEntity) => (e.organizationalUnits ?? []).filter((u) => getOrgUnitRole(currentUser, u.id) != null);
+  const legalEntities = currentUser?.isAdmin ? allLegalEntities : allLegalEntities.filter((e) => visibleUnits(e).length > 0);
+  const orgUnits = selectedLegalEntity ? visibleUnits(selectedLegalEntity) : [];
+  const hasChildren = !!selectedOrgUnit && orgUnits.some((u) => u.parentId === selectedOrgUnit.id);
 
   return (
     <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap", alignItems: "flex-end" }}>
@@ -75,13 +102,22 @@ export function OrgUnitSelector({
           }}
         >
           <option value="">— Select —</option>
-          {orgUnits.map((u) => (
+          {inHierarchyOrder(orgUnits).map(({ unit: u, depth }) => (
             <option key={u.id} value={u.id}>
+              {"\u00a0\u00a0".repeat(depth)}
               {typeLabel[u.type]}: {u.name}
+              {currentUser && !currentUser.isAdmin ? ` (${ROLE_LABELS[getOrgUnitRole(currentUser, u.id) ?? "viewer"]})` : ""}
             </option>
           ))}
         </select>
       </div>
+
+      {hasChildren && (
+        <label style={{ display: "flex", alignItems: "center", gap: "0.35rem", fontSize: "0.875rem", color: "#374151", paddingBottom: "0.6rem", cursor: "pointer" }}>
+          <input type="checkbox" checked={includeDescendants} onChange={(e) => onIncludeDescendantsChange(e.target.checked)} style={{ margin: 0 }} />
+          Include child units
+        </label>
+      )}
     </div>
   );
 }
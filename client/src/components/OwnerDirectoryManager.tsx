@@ -0,0 +1,417 @@
+import { useState, useEffect } from "react";
+import type { OwnerCluster, Person, UserSummary } from "../types";
+
+const API = "/api";
+
+const formInputStyle = {
+  width: "100%" as const,
+  padding: "0.5rem",
+  borderRadius: 6,
+  border: "1px solid #d1d5db",
+  boxSizing: "border-box" as const,
+};
+const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBottom: "0.25rem", color: "#374151" };
+const btnPrimary = {
+  padding: "0.5rem 1rem",
+  background: "#2563eb",
+  color: "white",
+  border: "none",
+  borderRadius: 6,
+  cursor: "pointer" as const,
+  fontSize: "0.875rem",
+};
+const btnDanger = { ...btnPrimary, background: "#dc2626" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const btnSmall = { padding: "0.25rem 0.5rem", fontSize: "0.75rem" };
+const thStyle = { textAlign: "left" as const, padding: "0.5rem 0.75rem", fontSize: "0.75rem", color: "#6b7280", fontWeight: 600 };
+const tdStyle = { padding: "0.5rem 0.75rem", fontSize: "0.875rem", verticalAlign: "top" as const };
+
+function jsonOrError<T>(r: Response, fallback: string): Promise<T> {
+  if (!r.ok) return r.json().then((err: { error?: string }) => Promise.reject(new Error(err?.error ?? fallback)));
+  return r.json();
+}
+
+const itemCountLabel = (c: { risks: number; issues: number; opportunities: number }) =>
+  `${c.risks} risk${c.risks === 1 ? "" : "s"}, ${c.issues} issue${c.issues === 1 ? "" : "s"}, ${c.opportunities} opp${c.opportunities === 1 ? "" : "s"}`;
+
+/** User account search for linking a directory entry; Unlink clears the link. */
+function UserLinkSelect({ value, onChange }: { value: { id: string; label: string } | null; onChange: (user: { id: string; label: string } | null) => void }) {
+  const [search, setSearch] = useState("");
+  const [users, setUsers] = useState<UserSummary[]>([]);
+
+  useEffect(() => {
+    if (!search.trim()) {
+      setUsers([]);
+      return;
+    }
+    const handle = setTimeout(() => {
+      fetch(`${API}/users?search=${encodeURIComponent(search.trim())}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setUsers(Array.isArray(data) ? data.slice(0, 8) : []))
+        .catch((e) => {
+          console.error("Failed to search users:", e);
+          setUsers([]);
+        });
+    }, 250);
+    return () => clearTimeout(handle);
+  }, [search]);
+
+  if (value) {
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: "0.5rem", fontSize: "0.875rem", minHeight: 36 }}>
+        <span>{value.label}</span>
+        <button type="button" onClick={() => onChange(null)} style={{ ...btnSecondary, ...btnSmall }}>
+          Unlink
+        </button>
+      </div>
+    );
+  }
+  return (
+    <div>
+      <input type="text" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search users to link" style={formInputStyle} />
+      {users.length > 0 && (
+        <div style={{ border: "1px solid #e5e7eb", borderRadius: 6, marginTop: 2, maxHeight: 180, overflowY: "auto" }}>
+          {users.map((u) => (
+            <button
+              key={u.id}
+              type="button"
+              onClick={() => {
+                onChange({ id: u.id, label: `${u.displayName} (${u.username})` });
+                setSearch("");
+              }}
+              style={{ display: "block", width: "100%", textAlign: "left", padding: "0.35rem 0.5rem", background: "white", border: "none", cursor: "pointer", fontSize: "0.8125rem" }}
+            >
+              {u.displayName} <span style={{ color: "#6b7280" }}>({u.username})</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface EditState {
+  person: Person;
+  displayName: string;
+  email: string;
+  user: { id: string; label: string } | null;
+}
+
+/** How a cluster's selected names are merged: into an existing entry, or into a new one. */
+interface MergeChoice {
+  selected: string[];
+  /** personId, or "" for a new directory entry */
+  target: string;
+  displayName: string;
+  linkSuggestedUser: boolean;
+}
+
+const defaultChoice = (cluster: OwnerCluster): MergeChoice => ({
+  selected: cluster.owners.map((o) => o.owner),
+  target: cluster.suggestedPerson?.id ?? "",
+  displayName: cluster.suggestedName,
+  linkSuggestedUser: cluster.suggestedUser != null,
+});
+
+/**
+ * Admin: the owner directory (people that own risks, issues and opportunities, optionally linked to
+ * user accounts) and the tool that merges free-text owner names into it.
+ */
+export function OwnerDirectoryManager({ onUpdate }: { onUpdate?: () => void }) {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState("");
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [addForm, setAddForm] = useState<{ displayName: string; email: string; user: { id: string; label: string } | null }>({ displayName: "", email: "", user: null });
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [clusters, setClusters] = useState<OwnerCluster[] | null>(null);
+  const [choices, setChoices] = useState<MergeChoice[]>([]);
+  const [merging, setMerging] = useState<number | null>(null);
+
+  const load = () => {
+    setLoading(true);
+    fetch(`${API}/people`)
+      .then((r) => jsonOrError<Person[]>(r, "Failed to load owners"))
+      .then(setPeople)
+      .catch((e) => console.error("Failed to load owners:", e))
+      .finally(() => setLoading(false));
+  };
+
+  const loadClusters = () => {
+    fetch(`${API}/people/clusters`)
+      .then((r) => jsonOrError<OwnerCluster[]>(r, "Failed to group owner names"))
+      .then((data) => {
+        setClusters(data);
+        setChoices(data.map(defaultChoice));
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to group owner names");
+      });
+  };
+
+  useEffect(load, []);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!addForm.displayName.trim() && !addForm.user) {
+      alert("Please enter a name or link a user.");
+      return;
+    }
+    fetch(`${API}/people`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ displayName: addForm.displayName.trim(), email: addForm.email.trim() || null, userId: addForm.user?.id ?? null }),
+    })
+      .then((r) => jsonOrError<Person>(r, "Failed to add owner"))
+      .then(() => {
+        setShowAddForm(false);
+        setAddForm({ displayName: "", email: "", user: null });
+        load();
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to add owner");
+      });
+  };
+
+  const startEdit = (person: Person) =>
+    setEditing({
+      person,
+      displayName: person.displayName,
+      email: person.email ?? "",
+      user: person.user ? { id: person.user.id, label: `${person.user.displayName} (${person.user.username})` } : null,
+    });
+
+  const handleEdit = () => {
+    if (!editing) return;
+    const renamed = editing.displayName.trim() !== editing.person.displayName;
+    fetch(`${API}/people/${editing.person.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ displayName: editing.displayName.trim(), email: editing.email.trim() || null, userId: editing.user?.id ?? null }),
+    })
+      .then((r) => jsonOrError<Person>(r, "Failed to update owner"))
+      .then(() => {
+        setEditing(null);
+        load();
+        if (renamed) onUpdate?.();
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to update owner");
+      });
+  };
+
+  const handleDelete = (person: Person) => {
+    const owned = person._count.risks + person._count.issues + person._count.opportunities;
+    const note = owned > 0 ? ` Their ${owned} item(s) keep "${person.displayName}" as a free-text owner.` : "";
+    if (!window.confirm(`Remove ${person.displayName} from the owner directory?${note}`)) return;
+    fetch(`${API}/people/${person.id}`, { method: "DELETE" })
+      .then((r) => (r.status === 204 ? undefined : jsonOrError<unknown>(r, "Failed to delete owner")))
+      .then(() => {
+        load();
+        if (clusters) loadClusters();
+        onUpdate?.();
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to delete owner");
+      });
+  };
+
+  const updateChoice = (index: number, patch: Partial<MergeChoice>) => setChoices((prev) => prev.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  const handleMerge = (index: number) => {
+    const cluster = clusters?.[index];
+    const choice = choices[index];
+    if (!cluster || !choice || choice.selected.length === 0) return;
+    if (!choice.target && !choice.displayName.trim()) {
+      alert("Please enter a name for the new owner.");
+      return;
+    }
+    const body = choice.target
+      ? { owners: choice.selected, personId: choice.target }
+      : { owners: choice.selected, displayName: choice.displayName.trim(), userId: choice.linkSuggestedUser ? cluster.suggestedUser?.id ?? null : null };
+    setMerging(index);
+    fetch(`${API}/people/merge`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+      .then((r) => jsonOrError<{ merged: { risks: number; issues: number; opportunities: number } }>(r, "Failed to merge owners"))
+      .then(() => {
+        load();
+        loadClusters();
+        onUpdate?.();
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to merge owners");
+      })
+      .finally(() => setMerging(null));
+  };
+
+  const visible = filter.trim()
+    ? people.filter((p) => [p.displayName, p.email ?? "", ...p.aliases].some((s) => s.toLowerCase().includes(filter.trim().toLowerCase())))
+    : people;
+
+  return (
+    <section style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", overflow: "hidden" }}>
+      <div style={{ padding: "1rem 1.25rem", borderBottom: "1px solid #e5e7eb", display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: "0.5rem" }}>
+        <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Owner Directory</h3>
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+          <input type="text" value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Filter owners" style={{ ...formInputStyle, width: 200 }} />
+          {!showAddForm && (
+            <button type="button" onClick={() => setShowAddForm(true)} style={btnPrimary}>
+              Add owner
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showAddForm && (
+        <form onSubmit={handleAdd} style={{ padding: "1rem 1.25rem", borderBottom: "1px solid #e5e7eb", display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end" }}>
+          <div style={{ minWidth: 180 }}>
+            <label style={labelStyle}>Name</label>
+            <input type="text" value={addForm.displayName} onChange={(e) => setAddForm((p) => ({ ...p, displayName: e.target.value }))} placeholder="Jane Smith" style={formInputStyle} />
+          </div>
+          <div style={{ minWidth: 200 }}>
+            <label style={labelStyle}>Email (optional)</label>
+            <input type="email" value={addForm.email} onChange={(e) => setAddForm((p) => ({ ...p, email: e.target.value }))} style={formInputStyle} />
+          </div>
+          <div style={{ minWidth: 220 }}>
+            <label style={labelStyle}>User account (optional)</label>
+            <UserLinkSelect value={addForm.user} onChange={(user) => setAddForm((p) => ({ ...p, user }))} />
+          </div>
+          <button type="submit" style={btnPrimary}>Add</button>
+          <button type="button" onClick={() => { setShowAddForm(false); setAddForm({ displayName: "", email: "", user: null }); }} style={btnSecondary}>Cancel</button>
+        </form>
+      )}
+
+      {loading ? (
+        <p style={{ padding: "1rem 1.25rem", margin: 0, color: "#6b7280" }}>Loading…</p>
+      ) : visible.length === 0 ? (
+        <p style={{ padding: "1rem 1.25rem", margin: 0, color: "#6b7280" }}>{people.length === 0 ? "No owners in the directory yet." : "No owners match the filter."}</p>
+      ) : (
+        <div style={{ overflowX: "auto", maxHeight: 420, overflowY: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+                <th style={thStyle}>Name</th>
+                <th style={thStyle}>Email</th>
+                <th style={thStyle}>User account</th>
+                <th style={thStyle}>Merged names</th>
+                <th style={thStyle}>Owns</th>
+                <th style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((p) =>
+                editing?.person.id === p.id ? (
+                  <tr key={p.id} style={{ borderBottom: "1px solid #f3f4f6", background: "#f9fafb" }}>
+                    <td style={tdStyle}>
+                      <input type="text" value={editing.displayName} onChange={(e) => setEditing({ ...editing, displayName: e.target.value })} style={formInputStyle} />
+                    </td>
+                    <td style={tdStyle}>
+                      <input type="email" value={editing.email} onChange={(e) => setEditing({ ...editing, email: e.target.value })} style={formInputStyle} />
+                    </td>
+                    <td style={tdStyle}>
+                      <UserLinkSelect value={editing.user} onChange={(user) => setEditing({ ...editing, user })} />
+                    </td>
+                    <td style={{ ...tdStyle, color: "#6b7280" }}>{p.aliases.join(", ") || "—"}</td>
+                    <td style={tdStyle}>{itemCountLabel(p._count)}</td>
+                    <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>
+                      <button type="button" onClick={handleEdit} style={{ ...btnPrimary, ...btnSmall, marginRight: "0.25rem" }}>Save</button>
+                      <button type="button" onClick={() => setEditing(null)} style={{ ...btnSecondary, ...btnSmall }}>Cancel</button>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={p.id} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                    <td style={{ ...tdStyle, fontWeight: 500 }}>{p.displayName}</td>
+                    <td style={tdStyle}>{p.email ?? "—"}</td>
+                    <td style={tdStyle}>{p.user ? `${p.user.displayName} (${p.user.username})` : "—"}</td>
+                    <td style={{ ...tdStyle, color: "#6b7280" }}>{p.aliases.join(", ") || "—"}</td>
+                    <td style={tdStyle}>{itemCountLabel(p._count)}</td>
+                    <td style={{ ...tdStyle, whiteSpace: "nowrap" }}>
+                      <button type="button" onClick={() => startEdit(p)} style={{ ...btnSecondary, ...btnSmall, marginRight: "0.25rem" }}>Edit</button>
+                      <button type="button" onClick={() => handleDelete(p)} style={{ ...btnDanger, ...btnSmall }}>Delete</button>
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div style={{ padding: "1rem 1.25rem", borderTop: "1px solid #e5e7eb" }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: "0.5rem" }}>
+          <div>
+            <h4 style={{ margin: 0, fontSize: "0.9375rem", fontWeight: 600 }}>Merge owner names</h4>
+            <p style={{ margin: "0.25rem 0 0", fontSize: "0.8125rem", color: "#6b7280" }}>
+              Free-text owners not yet in the directory, grouped by spellings that look like the same person. Merging links their items to one owner.
+            </p>
+          </div>
+          <button type="button" onClick={loadClusters} style={btnSecondary}>
+            {clusters ? "Refresh" : "Find owner names"}
+          </button>
+        </div>
+        {clusters && clusters.length === 0 && <p style={{ margin: "0.75rem 0 0", fontSize: "0.875rem", color: "#6b7280" }}>Every owner is in the directory.</p>}
+        {clusters?.map((cluster, index) => {
+          const choice = choices[index];
+          if (!choice) return null;
+          return (
+            <div key={cluster.owners.map((o) => o.owner).join("|")} style={{ marginTop: "0.75rem", padding: "0.75rem", border: "1px solid #e5e7eb", borderRadius: 6 }}>
+              <div style={{ display: "flex", flexDirection: "column", gap: "0.25rem" }}>
+                {cluster.owners.map((o) => (
+                  <label key={o.owner} style={{ display: "flex", alignItems: "center", gap: "0.5rem", fontSize: "0.875rem" }}>
+                    <input
+                      type="checkbox"
+                      checked={choice.selected.includes(o.owner)}
+                      onChange={(e) =>
+                        updateChoice(index, { selected: e.target.checked ? [...choice.selected, o.owner] : choice.selected.filter((n) => n !== o.owner) })
+                      }
+                    />
+                    <span style={{ fontWeight: 500 }}>{o.owner}</span>
+                    <span style={{ color: "#6b7280", fontSize: "0.75rem" }}>{itemCountLabel(o)}</span>
+                  </label>
+                ))}
+              </div>
+              <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", alignItems: "flex-end", marginTop: "0.75rem" }}>
+                <div style={{ minWidth: 200 }}>
+                  <label style={labelStyle}>Merge into</label>
+                  <select value={choice.target} onChange={(e) => updateChoice(index, { target: e.target.value })} style={formInputStyle}>
+                    <option value="">New owner…</option>
+                    {people.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.displayName}
+                        {p.id === cluster.suggestedPerson?.id ? " (suggested)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {!choice.target && (
+                  <div style={{ minWidth: 200 }}>
+                    <label style={labelStyle}>New owner name</label>
+                    <input type="text" value={choice.displayName} onChange={(e) => updateChoice(index, { displayName: e.target.value })} style={formInputStyle} />
+                  </div>
+                )}
+                {!choice.target && cluster.suggestedUser && (
+                  <label style={{ display: "flex", alignItems: "center", gap: "0.4rem", fontSize: "0.8125rem", paddingBottom: "0.5rem" }}>
+                    <input type="checkbox" checked={choice.linkSuggestedUser} onChange={(e) => updateChoice(index, { linkSuggestedUser: e.target.checked })} />
+                    Link to user {cluster.suggestedUser.displayName}
+                    {cluster.suggestedUser.email ? ` (${cluster.suggestedUser.email})` : ""}
+                  </label>
+                )}
+                <button type="button" onClick={() => handleMerge(index)} disabled={merging != null || choice.selected.length === 0} style={btnPrimary}>
+                  {merging === index ? "Merging…" : `Merge ${choice.selected.length} name${choice.selected.length === 1 ? "" : "s"}`}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,26 @@
+interface OwnerFilterSelectProps {
+  owners: { value: string; label: string }[];
+  /** Selected owner filter value; "" for all owners */
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** Owner dropdown shared by the Risk, Issue and Opportunity filters. */
+export function OwnerFilterSelect({ owners, value, onChange }: OwnerFilterSelectProps) {
+  // A selection can outlive its items (e.g. after switching PPD); keep it visible so it can be cleared
+  const options = value && !owners.some((o) => o.value === value) ? [...owners, { value, label: "Selected owner (no items here)" }] : owners;
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      style={{ fontSize: "0.8rem", padding: "0.2rem 0.4rem", border: "1px solid #d1d5db", borderRadius: 4, background: "white", maxWidth: 260 }}
+    >
+      <option value="">All owners</option>
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+}
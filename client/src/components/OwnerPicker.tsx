@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import type { Person } from "../types";
+import type { OwnerValue } from "../utils/owners";
+
+const API = "/api";
+
+const inputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer" as const };
+const optionStyle = { ...linkStyle, display: "block", width: "100%", textAlign: "left" as const, color: "#111827", padding: "0.4rem 0.6rem" };
+
+interface OwnerPickerProps {
+  value: OwnerValue;
+  onChange: (value: OwnerValue) => void;
+}
+
+/**
+ * Owner field for item forms: pick a person from the owner directory, or add a new one. An owner
+ * typed before the directory existed shows as "not in directory" until it is replaced or merged.
+ */
+export function OwnerPicker({ value, onChange }: OwnerPickerProps) {
+  const [searching, setSearching] = useState(false);
+  const [search, setSearch] = useState("");
+  const [people, setPeople] = useState<Person[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!searching) return;
+    const handle = setTimeout(() => {
+      fetch(`${API}/people?search=${encodeURIComponent(search.trim())}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setPeople(Array.isArray(data) ? data.slice(0, 8) : []))
+        .catch((e) => {
+          console.error("Failed to search owners:", e);
+          setPeople([]);
+        });
+    }, 250);
+    return () => clearTimeout(handle);
+  }, [search, searching]);
+
+  const pick = (person: Pick<Person, "id" | "displayName">) => {
+    onChange({ ownerId: person.id, owner: person.displayName });
+    setSearching(false);
+    setSearch("");
+    setError(null);
+  };
+
+  const addOwner = () => {
+    setError(null);
+    fetch(`${API}/people`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ displayName: search.trim() }),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        return r.json();
+      })
+      .then(pick)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to add owner"));
+  };
+
+  if (!searching) {
+    return (
+      <div style={{ ...inputStyle, display: "flex", alignItems: "center", gap: "0.5rem", background: "white", minHeight: 36 }}>
+        {value.owner ? (
+          <span style={{ flex: 1 }}>
+            {value.owner}
+            {!value.ownerId && <span style={{ marginLeft: "0.4rem", fontSize: "0.75rem", color: "#b45309" }}>not in directory</span>}
+          </span>
+        ) : (
+          <span style={{ flex: 1, color: "#9ca3af" }}>No owner</span>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            setSearching(true);
+            setSearch(value.ownerId ? "" : value.owner);
+          }}
+          style={{ ...linkStyle, fontSize: "0.8125rem" }}
+        >
+          {value.owner ? "Change" : "Choose"}
+        </button>
+        {value.owner && (
+          <button type="button" onClick={() => onChange({ ownerId: null, owner: "" })} title="Clear owner" style={{ ...linkStyle, color: "#6b7280" }}>
+            ✕
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const exists = people.some((p) => p.displayName.toLowerCase() === search.trim().toLowerCase());
+  return (
+    <div style={{ position: "relative" }}>
+      <input
+        autoFocus
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setSearching(false);
+          if (e.key === "Enter") e.preventDefault();
+        }}
+        placeholder="Search the owner directory"
+        style={inputStyle}
+      />
+      <div
+        style={{
+          position: "absolute",
+          top: "100%",
+          left: 0,
+          right: 0,
+          marginTop: 2,
+          background: "white",
+          border: "1px solid #e5e7eb",
+          borderRadius: 6,
+          boxShadow: "0 4px 12px rgba(0,0,0,0.1)",
+          zIndex: 20,
+          fontSize: "0.875rem",
+        }}
+      >
+        {people.map((p) => (
+          <button key={p.id} type="button" onClick={() => pick(p)} style={optionStyle}>
+            {p.displayName}
+            {p.email && <span style={{ color: "#6b7280" }}> · {p.email}</span>}
+          </button>
+        ))}
+        {people.length === 0 && !search.trim() && <p style={{ margin: 0, padding: "0.4rem 0.6rem", color: "#6b7280" }}>Type a name to search.</p>}
+        {search.trim() && !exists && (
+          <button type="button" onClick={addOwner} style={{ ...optionStyle, color: "#2563eb", borderTop: people.length > 0 ? "1px solid #f3f4f6" : undefined }}>
+            + Add “{search.trim()}” to the directory
+          </button>
+        )}
+        {error && <p style={{ margin: 0, padding: "0.4rem 0.6rem", color: "#dc2626" }}>{error}</p>}
+        <button type="button" onClick={() => setSearching(false)} style={{ ...optionStyle, color: "#6b7280", borderTop: "1px solid #f3f4f6" }}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
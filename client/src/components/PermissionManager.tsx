@@ -0,0 +1,405 @@
+import { useState, useEffect, useCallback } from "react";
+import type { LegalEntity, OrgUnitAccessEntry, UserAccessReport, UserRole, UserSummary } from "../types";
+import { ROLE_LABELS } from "../utils/permissions";
+
+const API = "/api";
+
+const formInputStyle = {
+  width: "100%" as const,
+  padding: "0.5rem",
+  borderRadius: 6,
+  border: "1px solid #d1d5db",
+};
+const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBottom: "0.25rem", color: "#374151" };
+const btnPrimary = {
+  padding: "0.5rem 1rem",
+  background: "#2563eb",
+  color: "white",
+  border: "none",
+  borderRadius: 6,
+  cursor: "pointer" as const,
+  fontSize: "0.875rem",
+};
+const btnDanger = { ...btnPrimary, background: "#dc2626" };
+const btnSmall = { padding: "0.25rem 0.5rem", fontSize: "0.75rem" };
+const thStyle = { padding: "0.5rem 0.75rem", textAlign: "left" as const, fontWeight: 600, color: "#6b7280" };
+const tdStyle = { padding: "0.5rem 0.75rem" };
+
+/** Grant target value meaning "every PPD of the selected entity" (bulk assign). */
+const ALL_PPDS = "__all__";
+
+const ROLE_OPTIONS = Object.keys(ROLE_LABELS) as UserRole[];
+const TYPE_LABELS = { program: "Program", project: "Project", department: "Department" } as const;
+
+function tabStyle(active: boolean) {
+  return {
+    padding: "0.375rem 0.75rem",
+    border: "none",
+    borderBottom: active ? "2px solid #2563eb" : "2px solid transparent",
+    background: "none",
+    color: active ? "#2563eb" : "#6b7280",
+    fontWeight: active ? 600 : 400,
+    cursor: "pointer" as const,
+    fontSize: "0.875rem",
+  };
+}
+
+function jsonOrError<T>(r: Response, fallback: string): Promise<T> {
+  if (!r.ok) return r.json().then((err: { error?: string }) => Promise.reject(new Error(err?.error ?? fallback)));
+  return r.json();
+}
+
+interface PermissionManagerProps {
+  legalEntities: LegalEntity[];
+  currentUserId: string;
+  /** Called after any change, so the signed-in user's own permissions can be reloaded */
+  onUpdate?: () => void;
+}
+
+/** Settings → Users & Permissions: grant roles per LE/PPD and review effective access by user or by PPD. */
+export function PermissionManager({ legalEntities, currentUserId, onUpdate }: PermissionManagerProps) {
+  const [mode, setMode] = useState<"user" | "orgUnit">("user");
+  const [search, setSearch] = useState("");
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [usersVersion, setUsersVersion] = useState(0);
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [report, setReport] = useState<UserAccessReport | null>(null);
+  const [grant, setGrant] = useState<{ legalEntityId: string; target: string; role: UserRole }>({ legalEntityId: "", target: "", role: "viewer" });
+  const [saving, setSaving] = useState(false);
+  const [ouFilter, setOuFilter] = useState({ legalEntityId: "", organizationalUnitId: "" });
+  const [ouAccess, setOuAccess] = useState<OrgUnitAccessEntry[] | null>(null);
+
+  useEffect(() => {
+    const handle = setTimeout(() => {
+      setSearching(true);
+      fetch(`${API}/users?search=${encodeURIComponent(search)}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data) => setUsers(Array.isArray(data) ? data : []))
+        .catch((e) => {
+          console.error("Failed to search users:", e);
+          setUsers([]);
+        })
+        .finally(() => setSearching(false));
+    }, 250);
+    return () => clearTimeout(handle);
+  }, [search, usersVersion]);
+
+  const loadReport = useCallback((userId: string) => {
+    fetch(`${API}/users/${userId}/access`)
+      .then((r) => jsonOrError<UserAccessReport>(r, "Failed to load access"))
+      .then(setReport)
+      .catch((e) => {
+        console.error(e);
+        setReport(null);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (selectedUserId) loadReport(selectedUserId);
+    else setReport(null);
+  }, [selectedUserId, loadReport]);
+
+  useEffect(() => {
+    if (!ouFilter.organizationalUnitId) {
+      setOuAccess(null);
+      return;
+    }
+    fetch(`${API}/organizational-units/${ouFilter.organizationalUnitId}/access`)
+      .then((r) => jsonOrError<OrgUnitAccessEntry[]>(r, "Failed to load access"))
+      .then(setOuAccess)
+      .catch((e) => {
+        console.error(e);
+        setOuAccess(null);
+      });
+  }, [ouFilter.organizationalUnitId]);
+
+  /** Run a mutation, then refresh the report (and the signed-in user's permissions when they changed their own). */
+  const mutate = (request: Promise<Response>, fallback: string) => {
+    if (!selectedUserId) return;
+    setSaving(true);
+    request
+      .then((r) => (r.status === 204 ? undefined : jsonOrError<unknown>(r, fallback)))
+      .then(() => {
+        loadReport(selectedUserId);
+        setUsersVersion((v) => v + 1);
+        if (selectedUserId === currentUserId) onUpdate?.();
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || fallback);
+      })
+      .finally(() => setSaving(false));
+  };
+
+  const setRole = (organizationalUnitId: string, role: UserRole) =>
+    mutate(
+      fetch(`${API}/users/${selectedUserId}/permissions/${organizationalUnitId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      }),
+      "Failed to save permission"
+    );
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!grant.legalEntityId || !grant.target) return;
+    if (grant.target === ALL_PPDS) {
+      mutate(
+        fetch(`${API}/users/${selectedUserId}/permissions/bulk`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ legalEntityId: grant.legalEntityId, role: grant.role }),
+        }),
+        "Failed to assign permissions"
+      );
+    } else {
+      setRole(grant.target, grant.role);
+    }
+    setGrant((g) => ({ ...g, target: "" }));
+  };
+
+  const handleRemove = (organizationalUnitId: string) =>
+    mutate(fetch(`${API}/users/${selectedUserId}/permissions/${organizationalUnitId}`, { method: "DELETE" }), "Failed to remove permission");
+
+  const handleToggleAdmin = (isAdmin: boolean) => {
+    if (!report) return;
+    if (!confirm(isAdmin ? `Make ${report.user.displayName} a global Admin?` : `Remove global Admin from ${report.user.displayName}?`)) return;
+    mutate(
+      fetch(`${API}/users/${report.user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isAdmin }),
+      }),
+      "Failed to update user"
+    );
+  };
+
+  const grantUnits = legalEntities.find((le) => le.id === grant.legalEntityId)?.organizationalUnits ?? [];
+  const filterUnits = legalEntities.find((le) => le.id === ouFilter.legalEntityId)?.organizationalUnits ?? [];
+  const isGlobalAdmin = report?.user.isAdmin ?? false;
+
+  return (
+    <section style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", overflow: "hidden" }}>
+      <div style={{ padding: "1rem 1.25rem 0", borderBottom: "1px solid #e5e7eb" }}>
+        <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Users &amp; Permissions</h3>
+        <p style={{ margin: "0.25rem 0 0.5rem", fontSize: "0.75rem", color: "#6b7280" }}>
+          Roles are granted per Entity + Program/Project/Department. Users appear after their first sign-in.
+        </p>
+        <div style={{ display: "flex", gap: "0.25rem" }}>
+          <button type="button" onClick={() => setMode("user")} style={tabStyle(mode === "user")}>By user</button>
+          <button type="button" onClick={() => setMode("orgUnit")} style={tabStyle(mode === "orgUnit")}>By program / project / department</button>
+        </div>
+      </div>
+
+      {mode === "user" && (
+        <div style={{ display: "flex", flexWrap: "wrap" }}>
+          <div style={{ flex: "0 0 260px", padding: "1rem 1.25rem", borderRight: "1px solid #e5e7eb" }}>
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name, username or email"
+              style={{ ...formInputStyle, boxSizing: "border-box", marginBottom: "0.5rem" }}
+            />
+            {searching ? (
+              <p style={{ margin: 0, fontSize: "0.8125rem", color: "#6b7280" }}>Searching…</p>
+            ) : users.length === 0 ? (
+              <p style={{ margin: 0, fontSize: "0.8125rem", color: "#6b7280" }}>No users found.</p>
+            ) : (
+              <ul style={{ listStyle: "none", margin: 0, padding: 0, maxHeight: 360, overflowY: "auto" }}>
+                {users.map((u) => (
+                  <li key={u.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedUserId(u.id)}
+                      style={{
+                        width: "100%",
+                        textAlign: "left",
+                        background: u.id === selectedUserId ? "#eff6ff" : "none",
+                        border: "none",
+                        padding: "0.4rem 0.5rem",
+                        cursor: "pointer",
+                        fontSize: "0.8125rem",
+                        borderRadius: 4,
+                      }}
+                    >
+                      <div style={{ fontWeight: 500 }}>{u.displayName}</div>
+                      <div style={{ color: "#6b7280", fontSize: "0.75rem" }}>
+                        {u.username} · {u.isAdmin ? "Global Admin" : `${u._count?.permissions ?? 0} PPD(s)`}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div style={{ flex: "1 1 420px", minWidth: 0, padding: "1rem 1.25rem" }}>
+            {!report ? (
+              <p style={{ margin: 0, color: "#6b7280", fontSize: "0.875rem" }}>Select a user to view and change their access.</p>
+            ) : (
+              <>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: "0.5rem", marginBottom: "0.75rem" }}>
+                  <div>
+                    <strong>{report.user.displayName}</strong>
+                    <span style={{ marginLeft: "0.5rem", color: "#6b7280", fontSize: "0.8125rem" }}>{report.user.username}</span>
+                  </div>
+                  <label style={{ display: "flex", alignItems: "center", gap: "0.375rem", fontSize: "0.875rem" }}>
+                    <input
+                      type="checkbox"
+                      checked={isGlobalAdmin}
+                      disabled={saving || (report.user.id === currentUserId && isGlobalAdmin)}
+                      onChange={(e) => handleToggleAdmin(e.target.checked)}
+                    />
+                    Global Admin
+                  </label>
+                </div>
+
+                {!isGlobalAdmin && (
+                  <form onSubmit={handleGrant} style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", alignItems: "flex-end", marginBottom: "1rem" }}>
+                    <div style={{ minWidth: 160 }}>
+                      <label style={labelStyle}>Entity</label>
+                      <select value={grant.legalEntityId} onChange={(e) => setGrant((g) => ({ ...g, legalEntityId: e.target.value, target: "" }))} style={formInputStyle}>
+                        <option value="">Select…</option>
+                        {legalEntities.map((le) => (
+                          <option key={le.id} value={le.id}>{le.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div style={{ minWidth: 180 }}>
+                      <label style={labelStyle}>Program / Project / Department</label>
+                      <select value={grant.target} onChange={(e) => setGrant((g) => ({ ...g, target: e.target.value }))} style={formInputStyle} disabled={!grant.legalEntityId}>
+                        <option value="">Select…</option>
+                        {grantUnits.length > 0 && <option value={ALL_PPDS}>All PPDs in this entity ({grantUnits.length})</option>}
+                        {grantUnits.map((ou) => (
+                          <option key={ou.id} value={ou.id}>{ou.name} ({TYPE_LABELS[ou.type]})</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label style={labelStyle}>Role</label>
+                      <select value={grant.role} onChange={(e) => setGrant((g) => ({ ...g, role: e.target.value as UserRole }))} style={formInputStyle}>
+                        {ROLE_OPTIONS.map((r) => (
+                          <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button type="submit" disabled={saving || !grant.target} style={btnPrimary}>Grant</button>
+                  </form>
+                )}
+
+                <h4 style={{ margin: "0 0 0.5rem", fontSize: "0.875rem" }}>Effective access</h4>
+                {report.access.length === 0 ? (
+                  <p style={{ margin: 0, fontSize: "0.8125rem", color: "#6b7280" }}>No access. This user sees no entities until a role is granted.</p>
+                ) : (
+                  <div style={{ overflowX: "auto" }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.8125rem" }}>
+                      <thead>
+                        <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+                          <th style={thStyle}>Entity</th>
+                          <th style={thStyle}>Program / Project / Department</th>
+                          <th style={thStyle}>Role</th>
+                          <th style={{ ...thStyle, textAlign: "right" }}></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.access.map((a) => (
+                          <tr key={a.organizationalUnitId} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                            <td style={tdStyle}>{a.legalEntityName}</td>
+                            <td style={tdStyle}>
+                              {a.organizationalUnitName} <span style={{ color: "#9ca3af" }}>({TYPE_LABELS[a.organizationalUnitType]})</span>
+                            </td>
+                            <td style={tdStyle}>
+                              {a.source === "global-admin" ? (
+                                "Admin (global)"
+                              ) : (
+                                <select
+                                  value={a.role}
+                                  disabled={saving}
+                                  onChange={(e) => setRole(a.organizationalUnitId, e.target.value as UserRole)}
+                                  style={{ ...formInputStyle, width: "auto", padding: "0.25rem" }}
+                                >
+                                  {ROLE_OPTIONS.map((r) => (
+                                    <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                                  ))}
+                                </select>
+                              )}
+                            </td>
+                            <td style={{ ...tdStyle, textAlign: "right" }}>
+                              {a.source === "grant" && (
+                                <button type="button" disabled={saving} onClick={() => handleRemove(a.organizationalUnitId)} style={{ ...btnDanger, ...btnSmall }}>
+                                  Remove
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === "orgUnit" && (
+        <div style={{ padding: "1rem 1.25rem" }}>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", marginBottom: "1rem" }}>
+            <div style={{ minWidth: 180 }}>
+              <label style={labelStyle}>Entity</label>
+              <select value={ouFilter.legalEntityId} onChange={(e) => setOuFilter({ legalEntityId: e.target.value, organizationalUnitId: "" })} style={formInputStyle}>
+                <option value="">Select…</option>
+                {legalEntities.map((le) => (
+                  <option key={le.id} value={le.id}>{le.name}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ minWidth: 200 }}>
+              <label style={labelStyle}>Program / Project / Department</label>
+              <select
+                value={ouFilter.organizationalUnitId}
+                onChange={(e) => setOuFilter((f) => ({ ...f, organizationalUnitId: e.target.value }))}
+                style={formInputStyle}
+                disabled={!ouFilter.legalEntityId}
+              >
+                <option value="">Select…</option>
+                {filterUnits.map((ou) => (
+                  <option key={ou.id} value={ou.id}>{ou.name} ({TYPE_LABELS[ou.type]})</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {!ouAccess ? (
+            <p style={{ margin: 0, color: "#6b7280", fontSize: "0.875rem" }}>Select a program, project or department to see who can access it.</p>
+          ) : (
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.8125rem" }}>
+                <thead>
+                  <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+                    <th style={thStyle}>User</th>
+                    <th style={thStyle}>Role</th>
+                    <th style={thStyle}>Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ouAccess.map((entry) => (
+                    <tr key={entry.user.id} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                      <td style={tdStyle}>
+                        {entry.user.displayName} <span style={{ color: "#9ca3af" }}>{entry.user.isServiceAccount ? "(service account)" : entry.user.username}</span>
+                      </td>
+                      <td style={tdStyle}>{ROLE_LABELS[entry.role]}</td>
+                      <td style={{ ...tdStyle, color: "#6b7280" }}>{entry.source === "global-admin" ? "Global Admin" : "Granted on this PPD"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,325 @@
+import { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { LegalEntity, LegalEntityMatrices, LevelMatrixDefinition, LevelStatusCounts, PortfolioDashboard as PortfolioDashboardData, PortfolioTrendPoint } from "../types";
+import { DEFAULT_OPPORTUNITY_MATRIX, DEFAULT_RISK_MATRIX, axisLabel, getCellColor, getLevelColor, getLevelLabel } from "../utils/levelMatrix";
+
+const API = "/api";
+
+const RISK_STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  mitigating: "Mitigating",
+  accepted: "Accepted",
+  closed: "Closed",
+  realized: "Realized",
+};
+
+const ISSUE_STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  resolving: "Resolving",
+  resolved: "Resolved",
+  closed: "Closed",
+  ignore: "Ignore",
+};
+
+const OPPORTUNITY_STATUS_LABELS: Record<string, string> = {
+  pursue_now: "Pursue now",
+  defer: "Defer",
+  reevaluate: "Reevaluate",
+  reject: "Reject",
+};
+
+const typeLabel: Record<string, string> = { program: "Program", project: "Project", department: "Department" };
+
+const cardStyle = { background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1rem" };
+const headStyle = { padding: "0.6rem 0.75rem", textAlign: "left" as const, fontSize: "0.75rem", color: "#6b7280", whiteSpace: "nowrap" as const };
+const cellStyle = { padding: "0.6rem 0.75rem", fontSize: "0.8125rem", verticalAlign: "top" as const };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", textAlign: "left" as const };
+
+function formatWeek(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/** Total, then one chip per level (matrix order, highest first) and the status breakdown. */
+function CountsCell({ counts, matrix, statusLabels }: { counts: LevelStatusCounts; matrix: LevelMatrixDefinition; statusLabels: Record<string, string> }) {
+  if (counts.total === 0) return <span style={{ color: "#9ca3af" }}>—</span>;
+  const levels = [...matrix.levels].reverse().filter((l) => counts.byLevel[l.key]);
+  const unknown = Object.entries(counts.byLevel).filter(([key]) => !matrix.levels.some((l) => l.key === key));
+  return (
+    <div>
+      <strong>{counts.total}</strong>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.25rem", margin: "0.25rem 0" }}>
+        {levels.map((l) => (
+          <span key={l.key} title={l.label} style={{ padding: "0 0.4rem", borderRadius: 4, fontSize: "0.75rem", background: `${l.color}33`, border: `1px solid ${l.color}` }}>
+            {l.label} {counts.byLevel[l.key]}
+          </span>
+        ))}
+        {unknown.map(([key, n]) => (
+          <span key={key} style={{ padding: "0 0.4rem", borderRadius: 4, fontSize: "0.75rem", background: "#f3f4f6" }}>
+            {getLevelLabel(matrix, key === "unrated" ? null : key)} {n}
+          </span>
+        ))}
+      </div>
+      <div style={{ fontSize: "0.75rem", color: "#6b7280" }}>
+        {Object.entries(counts.byStatus)
+          .map(([status, n]) => `${statusLabels[status] ?? status} ${n}`)
+          .join(" · ")}
+      </div>
+    </div>
+  );
+}
+
+function Sparkline({ trend }: { trend: PortfolioTrendPoint[] }) {
+  const last = trend[trend.length - 1];
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+      <LineChart width={120} height={32} data={trend} margin={{ top: 4, right: 2, left: 2, bottom: 4 }}>
+        <YAxis hide domain={[0, "dataMax"]} />
+        <Line type="monotone" dataKey="riskScore" stroke="#d97706" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+      {last && <span style={{ fontSize: "0.75rem", color: "#6b7280" }}>{last.riskScore}</span>}
+    </div>
+  );
+}
+
+function HeatMap({ heatMap, matrix }: { heatMap: number[][]; matrix: LevelMatrixDefinition }) {
+  const size = 56;
+  return (
+    <table style={{ borderCollapse: "collapse", fontSize: "0.75rem" }}>
+      <tbody>
+        {[5, 4, 3, 2, 1].map((l) => (
+          <tr key={l}>
+            <th style={{ padding: "0 0.5rem", textAlign: "right", fontWeight: 500, color: "#6b7280", whiteSpace: "nowrap" }}>
+              {axisLabel(matrix.likelihoodLabels, l)}
+            </th>
+            {[1, 2, 3, 4, 5].map((c) => {
+              const count = heatMap[l - 1]?.[c - 1] ?? 0;
+              return (
+                <td
+                  key={c}
+                  title={`Likelihood ${l}, consequence ${c}: ${count} active risk${count !== 1 ? "s" : ""}`}
+                  style={{
+                    width: size,
+                    height: size,
+                    textAlign: "center",
+                    border: "1px solid white",
+                    background: `${getCellColor(matrix, l, c)}${count > 0 ? "99" : "33"}`,
+                    fontSize: "1rem",
+                    fontWeight: 600,
+                  }}
+                >
+                  {count > 0 ? count : ""}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+        <tr>
+          <td />
+          {[1, 2, 3, 4, 5].map((c) => (
+            <th key={c} style={{ padding: "0.25rem", width: size, fontWeight: 500, color: "#6b7280", verticalAlign: "top" }}>
+              {axisLabel(matrix.consequenceLabels, c)}
+            </th>
+          ))}
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+interface PortfolioDashboardProps {
+  legalEntity: LegalEntity;
+  matrices: LegalEntityMatrices | null;
+  /** Drill down into a PPD's risk register, optionally opening one of its risks */
+  onSelectOrgUnit: (orgUnitId: string, riskId?: string) => void;
+}
+
+/** Entity-level view across every PPD the user can view: counts, heat map, top risks, overdue steps and trends. */
+export function PortfolioDashboard({ legalEntity, matrices, onSelectOrgUnit }: PortfolioDashboardProps) {
+  const [dashboard, setDashboard] = useState<PortfolioDashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [top, setTop] = useState(10);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`${API}/legal-entities/${legalEntity.id}/dashboard?top=${top}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setDashboard)
+      .catch((e) => console.error("Failed to load portfolio dashboard:", e))
+      .finally(() => setLoading(false));
+  }, [legalEntity.id, top]);
+
+  const riskMatrix = matrices?.risk.definition ?? DEFAULT_RISK_MATRIX;
+  const opportunityMatrix = matrices?.opportunity.definition ?? DEFAULT_OPPORTUNITY_MATRIX;
+
+  if (loading && !dashboard) return <p style={{ color: "#6b7280", padding: "2rem" }}>Loading portfolio…</p>;
+  if (!dashboard) return <p style={{ color: "#b91c1c", padding: "2rem" }}>Failed to load the portfolio dashboard.</p>;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}>
+      <div style={cardStyle}>
+        <h3 style={{ margin: "0 0 0.25rem", fontSize: "1rem", fontWeight: 600 }}>{dashboard.legalEntityName} — Portfolio</h3>
+        <p style={{ margin: "0 0 1rem", fontSize: "0.75rem", color: "#6b7280" }}>
+          Every Program, Project and Department you can view. Active risks are open, mitigating or accepted; the trend is the weekly sum of
+          their levels (1–25) over the last {dashboard.trend.length} weeks. Select a PPD to open its register.
+        </p>
+        {dashboard.orgUnits.length === 0 ? (
+          <p style={{ color: "#6b7280", textAlign: "center", padding: "1rem" }}>This entity has no Programs, Projects or Departments yet.</p>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+                <th style={headStyle}>PPD</th>
+                <th style={headStyle}>Risks</th>
+                <th style={headStyle}>Issues</th>
+                <th style={headStyle}>Opportunities</th>
+                <th style={headStyle}>Overdue steps</th>
+                <th style={headStyle}>Risk trend</th>
+              </tr>
+            </thead>
+            <tbody>
+              {dashboard.orgUnits.map((u) => (
+                <tr key={u.id} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                  <td style={cellStyle}>
+                    <button type="button" onClick={() => onSelectOrgUnit(u.id)} style={linkStyle}>
+                      {u.name}
+                    </button>
+                    <div style={{ fontSize: "0.75rem", color: "#6b7280" }}>{typeLabel[u.type] ?? u.type}</div>
+                  </td>
+                  <td style={cellStyle}>
+                    <CountsCell counts={u.risks} matrix={riskMatrix} statusLabels={RISK_STATUS_LABELS} />
+                  </td>
+                  <td style={cellStyle}>
+                    <CountsCell counts={u.issues} matrix={riskMatrix} statusLabels={ISSUE_STATUS_LABELS} />
+                  </td>
+                  <td style={cellStyle}>
+                    <CountsCell counts={u.opportunities} matrix={opportunityMatrix} statusLabels={OPPORTUNITY_STATUS_LABELS} />
+                  </td>
+                  <td style={{ ...cellStyle, color: u.overdueSteps > 0 ? "#b91c1c" : "#9ca3af", fontWeight: u.overdueSteps > 0 ? 600 : 400 }}>
+                    {u.overdueSteps > 0 ? u.overdueSteps : "—"}
+                  </td>
+                  <td style={cellStyle}>
+                    <Sparkline trend={u.trend} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(420px, 1fr))", gap: "1.5rem" }}>
+        <div style={cardStyle}>
+          <h4 style={{ margin: "0 0 0.75rem", fontSize: "0.9375rem", fontWeight: 600 }}>Combined heat map (active risks)</h4>
+          <HeatMap heatMap={dashboard.heatMap} matrix={riskMatrix} />
+        </div>
+        <div style={cardStyle}>
+          <h4 style={{ margin: "0 0 0.75rem", fontSize: "0.9375rem", fontWeight: 600 }}>Entity risk trend</h4>
+          <div style={{ width: "100%", height: 240 }}>
+            <ResponsiveContainer>
+              <LineChart data={dashboard.trend} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="date" tick={{ fontSize: 11 }} tickFormatter={formatWeek} />
+                <YAxis yAxisId="score" tick={{ fontSize: 11 }} allowDecimals={false} />
+                <YAxis yAxisId="count" orientation="right" tick={{ fontSize: 11 }} allowDecimals={false} />
+                <Tooltip labelFormatter={(d) => `Week ending ${formatWeek(String(d))}`} />
+                <Line yAxisId="score" type="monotone" dataKey="riskScore" name="Risk score" stroke="#d97706" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line yAxisId="count" type="monotone" dataKey="activeRisks" name="Active risks" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.75rem" }}>
+          <h4 style={{ margin: 0, fontSize: "0.9375rem", fontWeight: 600 }}>Top risks</h4>
+          <select
+            value={top}
+            onChange={(e) => setTop(Number(e.target.value))}
+            style={{ padding: "0.4rem", borderRadius: 6, border: "1px solid #d1d5db", fontSize: "0.875rem" }}
+          >
+            {[5, 10, 25, 50].map((n) => (
+              <option key={n} value={n}>
+                Top {n}
+              </option>
+            ))}
+          </select>
+        </div>
+        {dashboard.topRisks.length === 0 ? (
+          <p style={{ color: "#6b7280", textAlign: "center", padding: "1rem" }}>No active risks.</p>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+                <th style={headStyle}>Level</th>
+                <th style={headStyle}>Risk Name</th>
+                <th style={headStyle}>PPD</th>
+                <th style={headStyle}>L × C</th>
+                <th style={headStyle}>Status</th>
+                <th style={headStyle}>Owner</th>
+              </tr>
+            </thead>
+            <tbody>
+              {dashboard.topRisks.map((r) => (
+                <tr key={r.id} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                  <td style={cellStyle}>
+                    <span style={{ padding: "0.1rem 0.5rem", borderRadius: 4, background: `${getLevelColor(riskMatrix, r.riskLevel)}33`, border: `1px solid ${getLevelColor(riskMatrix, r.riskLevel)}` }}>
+                      {r.riskLevelNumerical} · {getLevelLabel(riskMatrix, r.riskLevel)}
+                    </span>
+                  </td>
+                  <td style={cellStyle}>
+                    <button type="button" onClick={() => onSelectOrgUnit(r.organizationalUnitId, r.id)} style={linkStyle}>
+                      {r.riskName}
+                    </button>
+                  </td>
+                  <td style={cellStyle}>{r.organizationalUnitName}</td>
+                  <td style={cellStyle}>
+                    {r.likelihood} × {r.consequence}
+                  </td>
+                  <td style={cellStyle}>{RISK_STATUS_LABELS[r.status] ?? r.status}</td>
+                  <td style={cellStyle}>{r.owner ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <h4 style={{ margin: "0 0 0.75rem", fontSize: "0.9375rem", fontWeight: 600 }}>Overdue mitigation steps ({dashboard.overdueSteps.length})</h4>
+        {dashboard.overdueSteps.length === 0 ? (
+          <p style={{ color: "#6b7280", textAlign: "center", padding: "1rem" }}>No mitigation steps are past their estimated end date.</p>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+                <th style={headStyle}>Days overdue</th>
+                <th style={headStyle}>Due</th>
+                <th style={headStyle}>Risk / step</th>
+                <th style={headStyle}>PPD</th>
+              </tr>
+            </thead>
+            <tbody>
+              {dashboard.overdueSteps.map((s) => (
+                <tr key={s.stepId} style={{ borderBottom: "1px solid #f3f4f6" }}>
+                  <td style={{ ...cellStyle, color: "#b91c1c", fontWeight: 600 }}>{s.daysOverdue}</td>
+                  <td style={cellStyle}>{s.estimatedEndDate.slice(0, 10)}</td>
+                  <td style={cellStyle}>
+                    <button type="button" onClick={() => onSelectOrgUnit(s.organizationalUnitId, s.riskId)} style={linkStyle}>
+                      {s.riskName}
+                    </button>
+                    <span style={{ color: "#6b7280" }}>
+                      {" "}
+                      · step {s.stepNumber}: {s.mitigationActions.length > 80 ? `${s.mitigationActions.slice(0, 80)}…` : s.mitigationActions}
+                    </span>
+                  </td>
+                  <td style={cellStyle}>{s.organizationalUnitName}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
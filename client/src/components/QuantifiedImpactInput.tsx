@@ -0,0 +1,48 @@
+import type { CSSProperties } from "react";
+import { formatExposure, issueExposure, riskExposure, type QuantifiedImpact } from "../utils/exposure";
+
+interface QuantifiedImpactInputProps {
+  value: QuantifiedImpact;
+  onChange: (value: QuantifiedImpact) => void;
+  /** Risks have a probability; issues have occurred and count in full */
+  withProbability?: boolean;
+  inputStyle: CSSProperties;
+  labelStyle: CSSProperties;
+}
+
+/** Optional probability and cost / schedule impact ranges, with the resulting expected exposure. */
+export function QuantifiedImpactInput({ value, onChange, withProbability = true, inputStyle, labelStyle }: QuantifiedImpactInputProps) {
+  const field = (key: keyof QuantifiedImpact, label: string, props: { max?: number; step?: number | "any"; placeholder?: string }) => (
+    <div>
+      <label style={labelStyle}>{label}</label>
+      <input
+        type="number"
+        min={0}
+        max={props.max}
+        step={props.step ?? 1}
+        value={value[key] ?? ""}
+        placeholder={props.placeholder}
+        onChange={(e) => onChange({ ...value, [key]: e.target.value === "" ? null : Number(e.target.value) })}
+        style={inputStyle}
+      />
+    </div>
+  );
+
+  const expected = formatExposure(withProbability ? riskExposure(value) : issueExposure(value));
+
+  return (
+    <div style={{ gridColumn: "1 / -1" }}>
+      <div style={{ display: "grid", gridTemplateColumns: withProbability ? "repeat(5, 1fr)" : "repeat(4, 1fr)", gap: "0.75rem" }}>
+        {withProbability && field("probabilityPercent", "Probability (%)", { max: 100, step: "any", placeholder: "0-100" })}
+        {field("costImpactLow", "Cost impact low ($)", { step: "any" })}
+        {field("costImpactHigh", "Cost impact high ($)", { step: "any" })}
+        {field("scheduleImpactLowDays", "Schedule low (days)", {})}
+        {field("scheduleImpactHighDays", "Schedule high (days)", {})}
+      </div>
+      <p style={{ margin: "0.25rem 0 0", fontSize: "0.7rem", color: "#6b7280" }}>
+        Optional. Expected exposure is {withProbability ? "probability × " : ""}the midpoint of each range
+        {expected ? `: ${expected}` : "."}
+      </p>
+    </div>
+  );
+}
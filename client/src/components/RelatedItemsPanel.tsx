@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import type { RelationshipType, RioItemSummary, RioItemType, RioRelationship } from "../types";
+import { RELATIONSHIP_LABELS, RELATIONSHIP_TYPES, RIO_ITEM_COLORS, RIO_ITEM_LABELS } from "../utils/relationships";
+
+const API = "/api";
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const btnPrimary = { padding: "0.4rem 0.75rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.8125rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", textAlign: "left" as const };
+
+function ItemTypeBadge({ type }: { type: RioItemType }) {
+  return (
+    <span style={{ padding: "0 0.4rem", borderRadius: 4, fontSize: "0.6875rem", fontWeight: 600, color: RIO_ITEM_COLORS[type], border: `1px solid ${RIO_ITEM_COLORS[type]}` }}>
+      {RIO_ITEM_LABELS[type]}
+    </span>
+  );
+}
+
+interface RelatedItemsPanelProps {
+  itemType: RioItemType;
+  itemId: string;
+  /** Home PPD of the item; related items elsewhere show their unit */
+  orgUnitId: string;
+  /** False for Viewers: hides add and remove */
+  canEdit: boolean;
+  onOpenItem?: (item: RioItemSummary) => void;
+}
+
+/** "Related items" section of a risk, issue or opportunity detail view: typed links to any other RIO item. */
+export function RelatedItemsPanel({ itemType, itemId, orgUnitId, canEdit, onOpenItem }: RelatedItemsPanelProps) {
+  const [links, setLinks] = useState<RioRelationship[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [type, setType] = useState<RelationshipType>("related_to");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<RioItemSummary[]>([]);
+  const [target, setTarget] = useState<RioItemSummary | null>(null);
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLinks = () => {
+    setLoading(true);
+    fetch(`${API}/relationships?itemType=${itemType}&itemId=${encodeURIComponent(itemId)}`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: RioRelationship[]) => setLinks(Array.isArray(data) ? data : []))
+      .catch(() => setLinks([]))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    loadLinks();
+  }, [itemType, itemId]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!adding || !q || target) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      fetch(`${API}/relationships/search?q=${encodeURIComponent(q)}`)
+        .then((r) => (r.ok ? r.json() : []))
+        .then((items: RioItemSummary[]) => setResults(items.filter((i) => !(i.type === itemType && i.id === itemId))))
+        .catch(() => setResults([]));
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query, adding, target, itemType, itemId]);
+
+  const resetForm = () => {
+    setAdding(false);
+    setType("related_to");
+    setQuery("");
+    setTarget(null);
+    setNote("");
+    setError(null);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target) return;
+    setError(null);
+    fetch(`${API}/relationships`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sourceType: itemType, sourceId: itemId, targetType: target.type, targetId: target.id, type, note: note.trim() || null }),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        resetForm();
+        loadLinks();
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to add relationship"));
+  };
+
+  const handleRemove = (link: RioRelationship) => {
+    if (!confirm(`Remove the link to "${link.item.name}"?`)) return;
+    fetch(`${API}/relationships/${link.id}`, { method: "DELETE" })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        loadLinks();
+      })
+      .catch((err) => alert(err instanceof Error ? err.message : "Failed to remove relationship"));
+  };
+
+  return (
+    <div style={{ marginTop: "1.25rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", borderBottom: "2px solid #e5e7eb", paddingBottom: "0.35rem", marginBottom: "0.5rem" }}>
+        <h3 style={{ margin: 0, fontSize: "1.0625rem", fontWeight: 600, color: "#374151" }}>Related items</h3>
+        {canEdit && !adding && (
+          <button type="button" onClick={() => setAdding(true)} style={btnPrimary}>
+            Add link
+          </button>
+        )}
+      </div>
+      {loading ? (
+        <p style={{ margin: 0, color: "#6b7280", fontSize: "0.875rem" }}>Loading…</p>
+      ) : links.length === 0 && !adding ? (
+        <p style={{ margin: 0, color: "#6b7280", fontSize: "0.875rem" }}>No related items.</p>
+      ) : (
+        <ul style={{ margin: 0, padding: 0, listStyle: "none", fontSize: "0.875rem" }}>
+          {links.map((link) => (
+            <li key={link.id} style={{ display: "flex", alignItems: "baseline", gap: "0.5rem", padding: "0.35rem 0", borderBottom: "1px solid #f3f4f6" }}>
+              <span style={{ color: "#6b7280", minWidth: 100 }}>{RELATIONSHIP_LABELS[link.type][link.direction]}</span>
+              <ItemTypeBadge type={link.item.type} />
+              <span style={{ flex: 1 }}>
+                {onOpenItem ? (
+                  <button type="button" onClick={() => onOpenItem(link.item)} style={linkStyle}>
+                    {link.item.name}
+                  </button>
+                ) : (
+                  link.item.name
+                )}
+                {link.item.organizationalUnit.id !== orgUnitId && <span style={{ color: "#6b7280" }}> · {link.item.organizationalUnit.name}</span>}
+                {link.note && <span style={{ display: "block", color: "#6b7280", fontSize: "0.8125rem" }}>{link.note}</span>}
+              </span>
+              {canEdit && (
+                <button type="button" onClick={() => handleRemove(link)} style={{ ...linkStyle, color: "#dc2626", fontSize: "0.8125rem" }} title="Remove link">
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {adding && (
+        <form onSubmit={handleAdd} style={{ marginTop: "0.5rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, fontSize: "0.875rem" }}>
+          <div style={{ display: "grid", gridTemplateColumns: "180px 1fr", gap: "0.5rem", alignItems: "start", marginBottom: "0.5rem" }}>
+            <select value={type} onChange={(e) => setType(e.target.value as RelationshipType)} style={formInputStyle}>
+              {RELATIONSHIP_TYPES.map((t) => (
+                <option key={t} value={t}>
+                  This item {RELATIONSHIP_LABELS[t].outgoing.toLowerCase()}…
+                </option>
+              ))}
+            </select>
+            {target ? (
+              <div style={{ display: "flex", alignItems: "center", gap: "0.5rem", padding: "0.45rem 0" }}>
+                <ItemTypeBadge type={target.type} />
+                <strong style={{ fontWeight: 500 }}>{target.name}</strong>
+                <span style={{ color: "#6b7280" }}>· {target.organizationalUnit.name}</span>
+                <button type="button" onClick={() => setTarget(null)} style={{ ...linkStyle, fontSize: "0.8125rem" }}>
+                  Change
+                </button>
+              </div>
+            ) : (
+              <div>
+                <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search risks, issues and opportunities by name" style={formInputStyle} autoFocus />
+                {results.length > 0 && (
+                  <ul style={{ margin: "0.25rem 0 0", padding: 0, listStyle: "none", background: "white", border: "1px solid #e5e7eb", borderRadius: 6, maxHeight: 220, overflow: "auto" }}>
+                    {results.map((item) => (
+                      <li key={`${item.type}:${item.id}`}>
+                        <button
+                          type="button"
+                          onClick={() => setTarget(item)}
+                          style={{ ...linkStyle, color: "#111827", display: "flex", gap: "0.5rem", alignItems: "center", width: "100%", padding: "0.4rem 0.6rem" }}
+                        >
+                          <ItemTypeBadge type={item.type} />
+                          <span>{item.name}</span>
+                          <span style={{ color: "#6b7280" }}>· {item.organizationalUnit.name}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+          <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" style={{ ...formInputStyle, marginBottom: "0.5rem" }} />
+          {error && <p style={{ margin: "0 0 0.5rem", color: "#dc2626" }}>{error}</p>}
+          <div style={{ display: "flex", gap: "0.5rem" }}>
+            <button type="submit" disabled={!target} style={{ ...btnPrimary, opacity: target ? 1 : 0.6 }}>
+              Add
+            </button>
+            <button type="button" onClick={resetForm} style={btnSecondary}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { OrganizationalUnit, RelationshipGraph, RelationshipType, RioItemSummary, RioItemType } from "../types";
+import { exportElementAsPng } from "../utils/exportPng";
+import { RELATIONSHIP_COLORS, RELATIONSHIP_LABELS, RELATIONSHIP_TYPES, RIO_ITEM_COLORS, RIO_ITEM_LABELS } from "../utils/relationships";
+
+const API = "/api";
+
+const WIDTH = 1000;
+const HEIGHT = 600;
+const NODE_RADIUS = 14;
+const LAYOUT_ITERATIONS = 300;
+/** Types that read the same both ways are drawn without an arrow. */
+const UNDIRECTED: RelationshipType[] = ["related_to"];
+
+type Point = { x: number; y: number };
+
+/**
+ * Force-directed (Fruchterman–Reingold) layout: nodes repel each other, links pull their ends
+ * together. Starts from a circle, so the same graph always lays out the same way.
+ */
+function layoutGraph(keys: string[], edges: { source: string; target: string }[]): Map<string, Point> {
+  const n = keys.length;
+  const pos = keys.map((_, i) => ({
+    x: WIDTH / 2 + (WIDTH / 3) * Math.cos((2 * Math.PI * i) / Math.max(n, 1)),
+    y: HEIGHT / 2 + (HEIGHT / 3) * Math.sin((2 * Math.PI * i) / Math.max(n, 1)),
+  }));
+  const index = new Map(keys.map((k, i) => [k, i]));
+  const links = edges.map((e) => [index.get(e.source)!, index.get(e.target)!]).filter(([a, b]) => a != null && b != null && a !== b);
+  const k = Math.sqrt((WIDTH * HEIGHT) / Math.max(n, 1)) * 0.6;
+  let temperature = WIDTH / 10;
+  for (let iter = 0; iter < LAYOUT_ITERATIONS; iter++) {
+    const disp = pos.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const dx = pos[i].x - pos[j].x;
+        const dy = pos[i].y - pos[j].y;
+        const dist = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (k * k) / dist;
+        disp[i].x += (dx / dist) * force;
+        disp[i].y += (dy / dist) * force;
+        disp[j].x -= (dx / dist) * force;
+        disp[j].y -= (dy / dist) * force;
+      }
+    }
+    for (const [a, b] of links) {
+      const dx = pos[a].x - pos[b].x;
+      const dy = pos[a].y - pos[b].y;
+      const dist = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (dist * dist) / k;
+      disp[a].x -= (dx / dist) * force;
+      disp[a].y -= (dy / dist) * force;
+      disp[b].x += (dx / dist) * force;
+      disp[b].y += (dy / dist) * force;
+    }
+    for (let i = 0; i < n; i++) {
+      // Gravity keeps unlinked clusters on screen
+      disp[i].x += (WIDTH / 2 - pos[i].x) * 0.05;
+      disp[i].y += (HEIGHT / 2 - pos[i].y) * 0.05;
+      const d = Math.max(Math.hypot(disp[i].x, disp[i].y), 0.01);
+      const step = Math.min(d, temperature);
+      pos[i].x = Math.min(WIDTH - 60, Math.max(60, pos[i].x + (disp[i].x / d) * step));
+      pos[i].y = Math.min(HEIGHT - 30, Math.max(30, pos[i].y + (disp[i].y / d) * step));
+    }
+    temperature *= 0.98;
+  }
+  return new Map(keys.map((key, i) => [key, pos[i]]));
+}
+
+interface RelationshipGraphViewProps {
+  orgUnit: OrganizationalUnit;
+  /** Roll-up scope: also show the links of the unit's child units */
+  includeDescendants?: boolean;
+  onOpenItem: (item: RioItemSummary) => void;
+}
+
+/** Relationships tab: every link touching the PPD's risks, issues and opportunities, as a draggable graph. */
+export function RelationshipGraphView({ orgUnit, includeDescendants = false, onOpenItem }: RelationshipGraphViewProps) {
+  const [graph, setGraph] = useState<RelationshipGraph | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [types, setTypes] = useState<Set<RelationshipType>>(new Set(RELATIONSHIP_TYPES));
+  const [positions, setPositions] = useState<Map<string, Point>>(new Map());
+  const [hovered, setHovered] = useState<string | null>(null);
+  const drag = useRef<{ key: string; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const exportRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`${API}/relationships/graph?organizationalUnitId=${encodeURIComponent(orgUnit.id)}${includeDescendants ? "&includeDescendants=true" : ""}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setGraph)
+      .catch((e) => console.error("Failed to load relationship graph:", e))
+      .finally(() => setLoading(false));
+  }, [orgUnit.id, includeDescendants]);
+
+  const edges = useMemo(() => (graph?.edges ?? []).filter((e) => types.has(e.type)), [graph, types]);
+  const nodes = useMemo(() => {
+    const linked = new Set(edges.flatMap((e) => [e.source, e.target]));
+    return (graph?.nodes ?? []).filter((n) => linked.has(n.key));
+  }, [graph, edges]);
+
+  useEffect(() => {
+    setPositions(layoutGraph(nodes.map((n) => n.key), edges));
+  }, [nodes, edges]);
+
+  const toSvgPoint = (e: React.MouseEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) * WIDTH) / rect.width, y: ((e.clientY - rect.top) * HEIGHT) / rect.height };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!drag.current) return;
+    const key = drag.current.key;
+    const p = toSvgPoint(e);
+    drag.current.moved = true;
+    setPositions((prev) => new Map(prev).set(key, p));
+  };
+
+  const handleMouseUp = (item: RioItemSummary | null) => {
+    const wasClick = drag.current && !drag.current.moved;
+    drag.current = null;
+    if (wasClick && item) onOpenItem(item);
+  };
+
+  const toggleType = (t: RelationshipType) =>
+    setTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(t)) next.delete(t);
+      else next.add(t);
+      return next;
+    });
+
+  const handleExportPng = async () => {
+    if (!exportRef.current) return;
+    const safe = (orgUnit.name ?? "export").replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 40);
+    await exportElementAsPng(exportRef.current, `Relationships-${safe}.png`);
+  };
+
+  const connected = (key: string) => hovered != null && (key === hovered || edges.some((e) => (e.source === hovered && e.target === key) || (e.target === hovered && e.source === key)));
+
+  return (
+    <div ref={exportRef} style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.5rem", flexWrap: "wrap", gap: "0.5rem" }}>
+        <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Relationships</h3>
+        <button
+          type="button"
+          onClick={handleExportPng}
+          style={{ padding: "0.5rem 1rem", background: "#6b7280", color: "white", border: "none", borderRadius: 6, cursor: "pointer", fontSize: "0.875rem" }}
+          title="Export as PNG (16:9)"
+        >
+          Export PNG
+        </button>
+      </div>
+      <p style={{ margin: "0 0 0.75rem", fontSize: "0.75rem", color: "#6b7280" }}>
+        Risks, issues and opportunities with links, including items in other units (dashed). Arrows point from source to target (“A causes B”). Drag
+        items to rearrange; click one to open it. Add links from the Related items section of a detail view.
+      </p>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", marginBottom: "0.75rem", fontSize: "0.8125rem" }}>
+        {RELATIONSHIP_TYPES.map((t) => (
+          <label key={t} style={{ display: "flex", alignItems: "center", gap: "0.3rem", cursor: "pointer" }}>
+            <input type="checkbox" checked={types.has(t)} onChange={() => toggleType(t)} />
+            <span style={{ display: "inline-block", width: 16, height: 3, background: RELATIONSHIP_COLORS[t] }} />
+            {RELATIONSHIP_LABELS[t].outgoing}
+          </label>
+        ))}
+        <span style={{ color: "#d1d5db" }}>|</span>
+        {(Object.keys(RIO_ITEM_LABELS) as RioItemType[]).map((t) => (
+          <span key={t} style={{ display: "flex", alignItems: "center", gap: "0.3rem" }}>
+            <span style={{ display: "inline-block", width: 10, height: 10, borderRadius: "50%", background: RIO_ITEM_COLORS[t] }} />
+            {RIO_ITEM_LABELS[t]}
+          </span>
+        ))}
+      </div>
+      {loading && !graph && <p style={{ color: "#6b7280" }}>Loading...</p>}
+      {!loading && !graph && <p style={{ color: "#b91c1c" }}>Failed to load relationships.</p>}
+      {graph && nodes.length === 0 && (
+        <p style={{ color: "#6b7280", textAlign: "center", padding: "2rem" }}>
+          {graph.edges.length === 0 ? "No relationships yet." : "No relationships of the selected types."}
+        </p>
+      )}
+      {graph && nodes.length > 0 && (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          style={{ width: "100%", height: "auto", background: "#f9fafb", borderRadius: 6, userSelect: "none" }}
+          onMouseMove={handleMouseMove}
+          onMouseUp={() => handleMouseUp(null)}
+          onMouseLeave={() => (drag.current = null)}
+        >
+          <defs>
+            {RELATIONSHIP_TYPES.map((t) => (
+              <marker key={t} id={`rel-arrow-${t}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATIONSHIP_COLORS[t]} />
+              </marker>
+            ))}
+          </defs>
+          {edges.map((e) => {
+            const a = positions.get(e.source);
+            const b = positions.get(e.target);
+            if (!a || !b) return null;
+            const dist = Math.max(Math.hypot(b.x - a.x, b.y - a.y), 0.01);
+            // Stop at the target's edge so the arrow stays visible
+            const end = { x: b.x - ((b.x - a.x) / dist) * (NODE_RADIUS + 2), y: b.y - ((b.y - a.y) / dist) * (NODE_RADIUS + 2) };
+            const dim = hovered != null && e.source !== hovered && e.target !== hovered;
+            return (
+              <line
+                key={e.id}
+                x1={a.x}
+                y1={a.y}
+                x2={end.x}
+                y2={end.y}
+                stroke={RELATIONSHIP_COLORS[e.type]}
+                strokeWidth={2}
+                strokeDasharray={e.type === "duplicates" ? "6 3" : undefined}
+                opacity={dim ? 0.15 : 0.9}
+                markerEnd={UNDIRECTED.includes(e.type) ? undefined : `url(#rel-arrow-${e.type})`}
+              >
+                <title>{`${RELATIONSHIP_LABELS[e.type].outgoing}${e.note ? ` — ${e.note}` : ""}`}</title>
+              </line>
+            );
+          })}
+          {nodes.map((node) => {
+            const p = positions.get(node.key);
+            if (!p) return null;
+            const dim = hovered != null && !connected(node.key);
+            return (
+              <g
+                key={node.key}
+                transform={`translate(${p.x},${p.y})`}
+                style={{ cursor: "pointer" }}
+                opacity={dim ? 0.3 : 1}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  drag.current = { key: node.key, moved: false };
+                }}
+                onMouseUp={(e) => {
+                  e.stopPropagation();
+                  handleMouseUp(node);
+                }}
+                onMouseEnter={() => setHovered(node.key)}
+                onMouseLeave={() => setHovered(null)}
+              >
+                <title>{`${RIO_ITEM_LABELS[node.type]}: ${node.name} (${node.organizationalUnit.name})`}</title>
+                <circle
+                  r={NODE_RADIUS}
+                  fill={RIO_ITEM_COLORS[node.type]}
+                  fillOpacity={node.inScope ? 0.9 : 0.35}
+                  stroke={RIO_ITEM_COLORS[node.type]}
+                  strokeWidth={2}
+                  strokeDasharray={node.inScope ? undefined : "4 2"}
+                />
+                <text y={NODE_RADIUS + 12} textAnchor="middle" fontSize={11} fill="#374151">
+                  {node.name.length > 24 ? `${node.name.slice(0, 24)}…` : node.name}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 /**
- * Renders Risk, Issue, and Opportunity matrices off-screen for report capture.
- * Used when generating PowerPoint to capture 5×5 matrix images.
+ * Renders Risk, Issue, and Opportunity matrices and the risk simulation off-screen for report capture.
+ * Used when generating PowerPoint to capture 5×5 matrix and simulation chart images.
  */
 import { useEffect, useRef, useState } from "react";
-import type { Category, Issue, Opportunity, OpportunityCategory, OrganizationalUnit, Risk } from "../types";
+import type { Category, Issue, LegalEntityMatrices, Opportunity, OpportunityCategory, OrganizationalUnit, Risk, RiskSimulationResult } from "../types";
 import { captureElementAsPngDataUrlCropped } from "../utils/exportPng";
 import { RiskMatrix } from "./RiskMatrix";
 import { IssueMatrix } from "./IssueMatrix";
 import { OpportunityMatrix } from "./OpportunityMatrix";
+import { fetchRiskSimulation, RiskSimulationCharts } from "./RiskSimulation";
+
+export type ReportImages = { riskMatrix?: string; issueMatrix?: string; oppMatrix?: string; riskSimulation?: string };
 
 interface ReportChartCaptureProps {
   orgUnit: OrganizationalUnit;
@@ -16,11 +19,11 @@ interface ReportChartCaptureProps {
   opportunities: Opportunity[];
   categories: Category[];
   opportunityCategories: OpportunityCategory[];
-  onCaptureComplete: (images: {
-    riskMatrix?: string;
-    issueMatrix?: string;
-    oppMatrix?: string;
-  }) => void;
+  matrices?: LegalEntityMatrices | null;
+  /** Roll-up scope: the simulation covers the unit's child units too */
+  includeDescendants?: boolean;
+  /** `simulation` is null when the org unit's simulation could not be run */
+  onCaptureComplete: (images: ReportImages, simulation: RiskSimulationResult | null) => void;
 }
 
 export function ReportChartCapture({
@@ -30,30 +33,40 @@ export function ReportChartCapture({
   opportunities,
   categories,
   opportunityCategories,
+  matrices,
+  includeDescendants = false,
   onCaptureComplete,
 }: ReportChartCaptureProps) {
   const riskRef = useRef<HTMLDivElement | null>(null);
   const issueRef = useRef<HTMLDivElement | null>(null);
   const oppRef = useRef<HTMLDivElement | null>(null);
+  const simulationRef = useRef<HTMLDivElement | null>(null);
+  const [simulation, setSimulation] = useState<RiskSimulationResult | null | undefined>(undefined);
   const [ready, setReady] = useState(false);
 
   useEffect(() => {
+    fetchRiskSimulation(orgUnit.id, { includeDescendants }).then(setSimulation);
+  }, [orgUnit.id, includeDescendants]);
+
+  useEffect(() => {
+    if (simulation === undefined) return;
     const t = setTimeout(() => setReady(true), 150);
     return () => clearTimeout(t);
-  }, []);
+  }, [simulation]);
 
   useEffect(() => {
     if (!ready) return;
     const capture = async () => {
-      const images: { riskMatrix?: string; issueMatrix?: string; oppMatrix?: string } = {};
+      const images: ReportImages = {};
       try {
         if (riskRef.current) images.riskMatrix = await captureElementAsPngDataUrlCropped(riskRef.current);
         if (issueRef.current) images.issueMatrix = await captureElementAsPngDataUrlCropped(issueRef.current);
         if (oppRef.current) images.oppMatrix = await captureElementAsPngDataUrlCropped(oppRef.current);
+        if (simulationRef.current) images.riskSimulation = await captureElementAsPngDataUrlCropped(simulationRef.current);
       } catch (e) {
         console.error("Report chart capture failed:", e);
       }
-      onCaptureComplete(images);
+      onCaptureComplete(images, simulation ?? null);
     };
     capture();
   }, [ready, onCaptureComplete]);
@@ -73,7 +86,7 @@ export function ReportChartCapture({
       aria-hidden="true"
     >
       <div style={{ position: "absolute", left: 0, top: 0 }}>
-        <RiskMatrix categories={categories} orgUnit={orgUnit} risks={risks} onExportRef={(el) => { riskRef.current = el; }} />
+        <RiskMatrix categories={categories} orgUnit={orgUnit} risks={risks} matrix={matrices?.risk.definition} onExportRef={(el) => { riskRef.current = el; }} />
       </div>
       <div style={{ position: "absolute", left: 0, top: 1080 }}>
         <IssueMatrix categories={categories} orgUnit={orgUnit} issues={issues} onExportRef={(el) => { issueRef.current = el; }} />
@@ -83,9 +96,15 @@ export function ReportChartCapture({
           categories={opportunityCategories}
           orgUnit={orgUnit}
           opportunities={opportunities}
+          matrix={matrices?.opportunity.definition}
           onExportRef={(el) => { oppRef.current = el; }}
         />
       </div>
+      {simulation && simulation.riskCount > 0 && (
+        <div ref={simulationRef} style={{ position: "absolute", left: 0, top: 3240, width: 1200, padding: "1rem", background: "white" }}>
+          <RiskSimulationCharts result={simulation} width={1168} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,16 @@
+import type { ReviewFields } from "../types";
+import { formatDate } from "../utils/riskIndicators";
+import { reviewDueLabel } from "../utils/reviewCadence";
+
+/** "Review overdue" pill next to an item's name in a register; renders nothing when the review is not due. */
+export function ReviewOverdueBadge({ item }: { item: ReviewFields }) {
+  if (!item.reviewOverdue) return null;
+  return (
+    <span
+      title={`${reviewDueLabel(item)} (due ${formatDate(item.nextReviewDate ?? null)}; last reviewed ${formatDate(item.lastReviewedAt ?? null)})`}
+      style={{ marginLeft: "0.4rem", fontSize: "0.7rem", fontWeight: 600, padding: "0.1rem 0.4rem", borderRadius: 9999, background: "#fef3c7", color: "#92400e", whiteSpace: "nowrap" }}
+    >
+      Review overdue
+    </span>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import type { LegalEntityMatrices, LevelMatrixDefinition, OrganizationalUnit, ReviewCadence, ReviewCadenceSettings, ReviewQueueItem, RioItemType } from "../types";
+import { DEFAULT_OPPORTUNITY_MATRIX, DEFAULT_RISK_MATRIX, getLevelColor, getLevelLabel } from "../utils/levelMatrix";
+import { RIO_ITEM_COLORS, RIO_ITEM_LABELS } from "../utils/relationships";
+import { formatDate } from "../utils/riskIndicators";
+import { DEFAULT_REVIEW_CADENCE, FALLBACK_REVIEW_DAYS, MAX_REVIEW_DAYS } from "../utils/reviewCadence";
+
+const API = "/api";
+
+const ITEM_TYPES: RioItemType[] = ["risk", "issue", "opportunity"];
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  mitigating: "Mitigating",
+  accepted: "Accepted",
+  resolving: "Resolving",
+  pursue_now: "Pursue now",
+  defer: "Defer",
+  reevaluate: "Reevaluate",
+};
+
+const formInputStyle = { width: 72, padding: "0.3rem 0.4rem", borderRadius: 6, border: "1px solid #d1d5db", fontSize: "0.8125rem" };
+const btnPrimary = { padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.875rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const thStyle = { padding: "0.5rem 0.75rem", textAlign: "left" as const, fontWeight: 600, color: "#6b7280", fontSize: "0.8125rem", borderBottom: "1px solid #e5e7eb" };
+const tdStyle = { padding: "0.5rem 0.75rem", fontSize: "0.8125rem", verticalAlign: "top" as const, borderBottom: "1px solid #f3f4f6" };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", fontWeight: 500, textAlign: "left" as const };
+const cardStyle = { background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.25rem 1.5rem" };
+
+/** Issues are leveled on the risk matrix. */
+function matrixFor(type: RioItemType, matrices: LegalEntityMatrices | null): LevelMatrixDefinition {
+  return type === "opportunity" ? matrices?.opportunity.definition ?? DEFAULT_OPPORTUNITY_MATRIX : matrices?.risk.definition ?? DEFAULT_RISK_MATRIX;
+}
+
+interface ReviewQueueProps {
+  orgUnit: OrganizationalUnit;
+  /** Roll-up: include child units the user can view */
+  includeDescendants?: boolean;
+  matrices: LegalEntityMatrices | null;
+  /** PPD Admins can change the unit's cadence */
+  canManage?: boolean;
+  onOpenItem?: (item: ReviewQueueItem) => void;
+  /** After the cadence is saved (next review dates move, so the registers' badges change) */
+  onCadenceSaved?: () => void;
+}
+
+/**
+ * Review Queue tab: risks, issues and opportunities still being worked whose next review date has
+ * passed, most overdue first, and the PPD's review cadence (days between reviews by level).
+ */
+export function ReviewQueue({ orgUnit, includeDescendants = false, matrices, canManage = false, onOpenItem, onCadenceSaved }: ReviewQueueProps) {
+  const [queue, setQueue] = useState<ReviewQueueItem[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<ReviewCadenceSettings | null>(null);
+  const [draft, setDraft] = useState<ReviewCadence | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = () => {
+    setLoading(true);
+    fetch(`${API}/organizational-units/${orgUnit.id}/review-queue${includeDescendants ? "?includeDescendants=true" : ""}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => setQueue(Array.isArray(data) ? data : null))
+      .catch((e) => {
+        console.error("Failed to load review queue:", e);
+        setQueue(null);
+      })
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [orgUnit.id, includeDescendants]);
+
+  useEffect(() => {
+    setDraft(null);
+    setError(null);
+    fetch(`${API}/organizational-units/${orgUnit.id}/review-cadence`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setSettings)
+      .catch((e) => {
+        console.error("Failed to load review cadence:", e);
+        setSettings(null);
+      });
+  }, [orgUnit.id]);
+
+  const saveCadence = (body: ReviewCadence | { reset: true }) => {
+    setSaving(true);
+    setError(null);
+    fetch(`${API}/organizational-units/${orgUnit.id}/review-cadence`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        return r.json();
+      })
+      .then((saved: ReviewCadenceSettings) => {
+        setSettings(saved);
+        setDraft(null);
+        loadQueue();
+        onCadenceSaved?.();
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to save review cadence"))
+      .finally(() => setSaving(false));
+  };
+
+  const cadence = draft ?? settings?.cadence ?? DEFAULT_REVIEW_CADENCE;
+  /** The matrix's levels, highest first (issues have their own fixed levels), plus any stored level the matrix no longer has */
+  const levelsOf = (type: RioItemType) => {
+    const keys = type === "issue" ? Object.keys(DEFAULT_REVIEW_CADENCE.issue) : [...matrixFor(type, matrices).levels].reverse().map((l) => l.key);
+    return [...keys, ...Object.keys(cadence[type] ?? {}).filter((k) => !keys.includes(k))];
+  };
+  const setDays = (type: RioItemType, level: string, value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, [type]: { ...draft[type], [level]: value === "" ? 0 : Number(value) } });
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "1.25rem" }}>
+      <div style={cardStyle}>
+        <h3 style={{ margin: "0 0 0.25rem", fontSize: "1rem", fontWeight: 600 }}>Overdue reviews</h3>
+        <p style={{ margin: "0 0 1rem", color: "#6b7280", fontSize: "0.8125rem" }}>
+          Open items whose next review date has passed. Any edit, or "Mark reviewed (no change)" on the item, restarts its cadence.
+        </p>
+        {loading && !queue && <p style={{ color: "#6b7280", margin: 0 }}>Loading...</p>}
+        {!loading && !queue && <p style={{ color: "#b91c1c", margin: 0 }}>Failed to load the review queue.</p>}
+        {queue && queue.length === 0 && <p style={{ color: "#059669", margin: 0 }}>Nothing is overdue for review.</p>}
+        {queue && queue.length > 0 && (
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Item</th>
+                {includeDescendants && <th style={thStyle}>Unit</th>}
+                <th style={thStyle}>Level</th>
+                <th style={thStyle}>Status</th>
+                <th style={thStyle}>Owner</th>
+                <th style={thStyle}>Last reviewed</th>
+                <th style={thStyle}>Due</th>
+                <th style={{ ...thStyle, textAlign: "right" }}>Days overdue</th>
+              </tr>
+            </thead>
+            <tbody>
+              {queue.map((item) => {
+                const matrix = matrixFor(item.type, matrices);
+                return (
+                  <tr key={`${item.type}-${item.id}`}>
+                    <td style={tdStyle}>
+                      <span style={{ color: RIO_ITEM_COLORS[item.type], fontWeight: 600 }}>{RIO_ITEM_LABELS[item.type]}</span>{" "}
+                      {onOpenItem ? (
+                        <button type="button" onClick={() => onOpenItem(item)} style={linkStyle}>
+                          {item.name}
+                        </button>
+                      ) : (
+                        item.name
+                      )}
+                    </td>
+                    {includeDescendants && <td style={{ ...tdStyle, color: "#6b7280" }}>{item.organizationalUnit.name}</td>}
+                    <td style={tdStyle}>
+                      {item.level ? (
+                        <span style={{ padding: "0.1rem 0.45rem", borderRadius: 4, background: getLevelColor(matrix, item.level), color: "white", fontWeight: 600, fontSize: "0.75rem" }}>
+                          {getLevelLabel(matrix, item.level)}
+                        </span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td style={tdStyle}>{STATUS_LABELS[item.status] ?? item.status}</td>
+                    <td style={tdStyle}>{item.owner ?? "—"}</td>
+                    <td style={tdStyle}>{formatDate(item.lastReviewedAt)}</td>
+                    <td style={tdStyle}>
+                      {formatDate(item.nextReviewDate)}
+                      <div style={{ color: "#6b7280", fontSize: "0.75rem" }}>every {item.effectiveReviewCadenceDays} days</div>
+                    </td>
+                    <td style={{ ...tdStyle, textAlign: "right", fontWeight: 600, color: "#b45309" }}>{item.daysOverdue}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.25rem" }}>
+          <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Review cadence</h3>
+          {canManage && !draft && (
+            <button type="button" onClick={() => setDraft(settings?.cadence ?? DEFAULT_REVIEW_CADENCE)} style={btnSecondary}>
+              Edit cadence
+            </button>
+          )}
+        </div>
+        <p style={{ margin: "0 0 1rem", color: "#6b7280", fontSize: "0.8125rem" }}>
+          Days between reviews by level for {orgUnit.name}
+          {settings?.isDefault ? " (defaults)" : ""}. A blank level uses its default. An item can set its own cadence on its detail view.
+        </p>
+        <table style={{ borderCollapse: "collapse" }}>
+          <tbody>
+            {ITEM_TYPES.map((type) => {
+              const matrix = matrixFor(type, matrices);
+              return (
+                <tr key={type}>
+                  <th style={{ ...thStyle, borderBottom: "1px solid #f3f4f6", color: RIO_ITEM_COLORS[type] }}>{RIO_ITEM_LABELS[type]}</th>
+                  {levelsOf(type).map((level) => (
+                    <td key={level} style={tdStyle}>
+                      <div style={{ color: "#6b7280", fontSize: "0.75rem", marginBottom: "0.2rem" }}>{getLevelLabel(matrix, level)}</div>
+                      {draft ? (
+                        <input
+                          type="number"
+                          min={1}
+                          max={MAX_REVIEW_DAYS}
+                          value={draft[type][level] || ""}
+                          onChange={(e) => setDays(type, level, e.target.value)}
+                          placeholder={String(DEFAULT_REVIEW_CADENCE[type][level] ?? FALLBACK_REVIEW_DAYS)}
+                          style={formInputStyle}
+                        />
+                      ) : (
+                        <span>{cadence[type][level] ?? FALLBACK_REVIEW_DAYS} days</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {draft && (
+          <div style={{ display: "flex", gap: "0.5rem", marginTop: "1rem" }}>
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() =>
+                saveCadence(
+                  Object.fromEntries(
+                    ITEM_TYPES.map((type) => [type, Object.fromEntries(Object.entries(draft[type]).filter(([, days]) => days > 0))])
+                  ) as ReviewCadence
+                )
+              }
+              style={btnPrimary}
+            >
+              {saving ? "Saving…" : "Save cadence"}
+            </button>
+            <button type="button" disabled={saving} onClick={() => saveCadence({ reset: true })} style={btnSecondary}>
+              Reset to defaults
+            </button>
+            <button type="button" onClick={() => { setDraft(null); setError(null); }} style={btnSecondary}>
+              Cancel
+            </button>
+          </div>
+        )}
+        {error && <p style={{ color: "#dc2626", fontSize: "0.875rem", margin: "0.5rem 0 0" }}>{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,25 @@
 import { useRef, useState, useEffect } from "react";
-import type { Category, MitigationStep, OrganizationalUnit, Risk, RiskCategory } from "../types";
+import type { AuditAuthor, Category, CriteriaRubric, LevelMatrixDefinition, MitigationStep, OrganizationalUnit, RioItemSummary, RioItemType, Risk, RiskCategory, RiskIndicator } from "../types";
+import { formatAuditAuthor } from "../utils/auditAuthor";
+import { DEFAULT_RISK_MATRIX, getLevelColor, getLevelLabel } from "../utils/levelMatrix";
 import { exportElementAsPngCropped } from "../utils/exportPng";
+import { changedConsequenceDimensions, CONSEQUENCE_DIMENSIONS, formatConsequenceBreakdown, NO_CONSEQUENCE_SCORES, pickConsequenceScores, toRubricScores } from "../utils/riskConsequence";
+import { formatExposure, formatQuantifiedImpact, NO_QUANTIFIED_IMPACT, pickQuantifiedImpact, riskExposure } from "../utils/exposure";
+import { NO_OWNER, ownerValueOf } from "../utils/owners";
+import { ConsequenceScoresInput } from "./ConsequenceScoresInput";
 import { MitigationStepsEditor } from "./MitigationStepsEditor";
+import { OwnerPicker } from "./OwnerPicker";
+import { QuantifiedImpactInput } from "./QuantifiedImpactInput";
+import { RelatedItemsPanel } from "./RelatedItemsPanel";
+import { CommentThreads } from "./CommentThreads";
+import { ItemConversions } from "./ItemConversions";
+import { ItemReview } from "./ItemReview";
+import { RiskEscalation } from "./RiskEscalation";
+import { RiskIndicators } from "./RiskIndicators";
 import { RiskMitigationMatrix } from "./RiskMitigationMatrix";
 import { RiskWaterfall } from "./RiskWaterfall";
+import { RubricGuidance } from "./RubricGuidance";
+import { TrippedIndicatorsPanel } from "./TrippedIndicatorsPanel";
 
 const API = "/api";
 
@@ -23,20 +39,14 @@ const STATUS_LABELS: Record<string, string> = {
   realized: "Realized",
 };
 
-const levelColor: Record<string, string> = {
-  low: "#22c55e",
-  moderate: "#eab308",
-  high: "#ef4444",
-};
-
-type DetailTab = "overview" | "mitigation" | "waterfall" | "audit";
+type DetailTab = "overview" | "mitigation" | "waterfall" | "indicators" | "comments" | "audit";
 
 interface AuditChange {
   from: unknown;
   to: unknown;
 }
 
-interface AuditLogEntry {
+interface AuditLogEntry extends Partial<AuditAuthor> {
   id: string;
   entityType: string;
   entityId: string;
@@ -47,11 +57,61 @@ interface AuditLogEntry {
     changes?: Record<string, AuditChange>;
     likelihoodChangeReason?: string;
     consequenceChangeReason?: string;
+    /** Per-dimension reasons keyed by reason field (e.g. costConsequenceChangeReason) */
+    consequenceReasons?: Record<string, string>;
     statusChangeRationale?: string;
+    /** "Reviewed (no change)" entries */
+    reviewNote?: string;
+    /** Board decision entries: the meeting and the decision recorded on the agenda item */
+    meeting?: { id: string; title: string; meetingDate: string };
+    decision?: string;
+    previousDecision?: string;
+    /** Comment entries: start of the text (of the removed text on deletes), the text before an edit, and who was mentioned */
+    excerpt?: string;
+    previousExcerpt?: string;
+    mentions?: string[];
+    /** "Converted" entries: the item created from this one */
+    opportunityCreatedFromRisk?: { opportunityId: string; opportunityName: string };
+    escalation?: {
+      mode: "link" | "transfer";
+      /** The lower unit, for both escalation and de-escalation */
+      fromOrgUnit: { id: string; name: string };
+      toOrgUnit: { id: string; name: string };
+      linkedRisk?: { id: string; riskName: string };
+      rationale: string;
+    };
+    /** Indicator entries: the definition at the time, and the reading that tripped or cleared it */
+    indicator?: { description: string; metric: string; direction: string; threshold: number; value?: number | null };
   };
   createdAt: string;
 }
 
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  created: "Created",
+  updated: "Updated",
+  deleted: "Deleted",
+  escalated: "Escalated",
+  de_escalated: "De-escalated",
+  tripped: "Tripped",
+  cleared: "Cleared",
+  reviewed: "Reviewed (no change)",
+  converted: "Converted",
+  decision: "Board decision",
+  commented: "Comment added",
+  comment_edited: "Comment edited",
+  comment_deleted: "Comment deleted",
+};
+
+/** One-line summary of an escalation audit entry, from this risk's side. */
+function describeEscalation(action: string, e: NonNullable<NonNullable<AuditLogEntry["details"]>["escalation"]>): string {
+  const linked = e.linkedRisk ? ` "${e.linkedRisk.riskName}"` : "";
+  if (action === "created") return `Created in ${e.toOrgUnit.name} by escalating${linked} from ${e.fromOrgUnit.name}`;
+  if (action === "escalated") {
+    return e.mode === "transfer" ? `Transferred from ${e.fromOrgUnit.name} to ${e.toOrgUnit.name}` : `Escalated to${linked} in ${e.toOrgUnit.name}`;
+  }
+  return e.mode === "transfer" ? `Moved back from ${e.toOrgUnit.name} to ${e.fromOrgUnit.name}` : `Escalated risk${linked} handed back to ${e.fromOrgUnit.name}`;
+}
+
 function formatAuditValue(key: string, value: unknown, categoryLabels: Map<string, string>): string {
   if (value === undefined || value === null) return "—";
   if (key === "category") return categoryLabels.get(String(value)) ?? String(value);
@@ -60,7 +120,8 @@ function formatAuditValue(key: string, value: unknown, categoryLabels: Map<strin
   if (
     key === "estimatedStartDate" ||
     key === "estimatedEndDate" ||
-    key === "actualCompletedAt"
+    key === "actualCompletedAt" ||
+    key === "reviewDate"
   ) {
     const s = String(value);
     if (/^\d{4}-\d{2}-\d{2}/.test(s)) return s.slice(0, 10);
@@ -77,10 +138,21 @@ const AUDIT_FIELD_LABELS: Record<string, string> = {
   category: "Category",
   likelihood: "Likelihood",
   consequence: "Consequence",
+  costConsequence: "Cost consequence",
+  scheduleConsequence: "Schedule consequence",
+  performanceConsequence: "Performance consequence",
+  otherConsequence: "Other consequence",
+  rubricVersion: "Rubric version",
+  probabilityPercent: "Probability (%)",
+  costImpactLow: "Cost impact low ($)",
+  costImpactHigh: "Cost impact high ($)",
+  scheduleImpactLowDays: "Schedule impact low (days)",
+  scheduleImpactHighDays: "Schedule impact high (days)",
   mitigationStrategy: "Mitigation strategy",
   mitigationPlan: "Mitigation plan",
   owner: "Owner",
   status: "Status",
+  reviewCadenceDays: "Review cadence (days)",
   sequenceOrder: "Sequence",
   mitigationActions: "Mitigation actions",
   closureCriteria: "Closure criteria",
@@ -91,7 +163,15 @@ const AUDIT_FIELD_LABELS: Record<string, string> = {
   actualLikelihood: "Actual L",
   actualConsequence: "Actual C",
   actualCompletedAt: "Completed",
+  estimatedCost: "Estimated cost ($)",
+  actualCost: "Actual cost ($)",
   mitigationStepsReordered: "Mitigation steps reordered",
+  description: "Description",
+  metric: "Metric",
+  unit: "Unit",
+  direction: "Direction",
+  threshold: "Threshold",
+  reviewDate: "Review date",
 };
 
 interface RiskDetailViewProps {
@@ -102,6 +182,22 @@ interface RiskDetailViewProps {
   onUpdate: () => void;
   /** When provided, call after creating an issue from this risk (e.g. to open the new issue). */
   onIssueCreated?: (issueId: string) => void;
+  /** False for Viewers: hides edit, create-issue and mitigation step controls */
+  canEdit?: boolean;
+  /** Signed-in user, for editing and deleting their own comments */
+  currentUserId?: string;
+  /** PPD Admin of the unit: may delete anyone's comment */
+  canModerateComments?: boolean;
+  /** The entity's risk matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
+  /** The PPD's current criteria rubric, shown as guidance next to the score inputs */
+  rubric?: CriteriaRubric | null;
+  /** Open a risk in another PPD (escalation links, or this risk after a transfer) */
+  onOpenRisk?: (orgUnitId: string, riskId: string) => void;
+  /** Open a related risk, issue or opportunity */
+  onOpenItem?: (item: RioItemSummary) => void;
+  /** Open an item created from this one, or the one it was created from (refreshes that register) */
+  onOpenConvertedItem?: (type: RioItemType, orgUnitId: string, itemId: string) => void;
 }
 
 const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db" };
@@ -109,7 +205,7 @@ const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBotto
 const btnPrimary = { padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const };
 const btnSecondary = { ...btnPrimary, background: "#6b7280" };
 
-export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, onIssueCreated }: RiskDetailViewProps) {
+export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, onIssueCreated, canEdit = true, currentUserId, canModerateComments, matrix = DEFAULT_RISK_MATRIX, rubric, onOpenRisk, onOpenItem, onOpenConvertedItem }: RiskDetailViewProps) {
   const categoryLabels = new Map(categories.map((c) => [c.code, c.label]));
   const categoryOptions = categories.map((c) => ({ value: c.code as RiskCategory, label: c.label }));
   const [tab, setTab] = useState<DetailTab>("overview");
@@ -122,13 +218,14 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
   const mitigationTabRef = useRef<HTMLDivElement | null>(null);
   const waterfallTabRef = useRef<HTMLDivElement | null>(null);
   const [auditLogError, setAuditLogError] = useState<string | null>(null);
+  const [indicators, setIndicators] = useState<RiskIndicator[]>([]);
   /** Full risk from API (includes linkedIssue when status is Realized). */
   const [fullRisk, setFullRisk] = useState<Risk | null>(null);
   const [showCreateIssueModal, setShowCreateIssueModal] = useState(false);
   const [createIssueForm, setCreateIssueForm] = useState({
     issueName: "",
     description: "",
-    owner: "",
+    ...NO_OWNER,
     category: "",
     consequence: 3,
   });
@@ -147,7 +244,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
 
   useEffect(() => {
     loadFullRisk();
-  }, [risk.id]);
+  }, [risk.id, risk.organizationalUnitId]);
 
   const loadMitigationSteps = () => {
     fetch(`${API}/risks/${risk.id}/mitigation-steps`)
@@ -173,8 +270,16 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
       .finally(() => setAuditLogLoading(false));
   };
 
+  const loadIndicators = () => {
+    fetch(`${API}/risks/${risk.id}/indicators`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: RiskIndicator[]) => setIndicators(data))
+      .catch(() => setIndicators([]));
+  };
+
   useEffect(() => {
     loadMitigationSteps();
+    loadIndicators();
   }, [risk.id]);
 
   useEffect(() => {
@@ -188,10 +293,13 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
     category: "" as RiskCategory | "",
     likelihood: 3,
     consequence: 3,
+    scores: NO_CONSEQUENCE_SCORES,
     likelihoodChangeReason: "",
     consequenceChangeReason: "",
+    consequenceReasons: {} as Record<string, string>,
+    quantified: NO_QUANTIFIED_IMPACT,
     mitigationStrategy: "",
-    owner: "",
+    ...NO_OWNER,
     status: "",
     statusChangeRationale: "",
   });
@@ -206,25 +314,31 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
       category: (risk.category as RiskCategory) ?? "",
       likelihood: risk.likelihood,
       consequence: risk.consequence,
+      scores: pickConsequenceScores(risk),
       likelihoodChangeReason: "",
       consequenceChangeReason: "",
+      consequenceReasons: {},
+      quantified: pickQuantifiedImpact(risk),
       mitigationStrategy: risk.mitigationStrategy ?? "",
-      owner: risk.owner ?? "",
+      ...ownerValueOf(risk),
       status: risk.status,
       statusChangeRationale: "",
     });
   };
 
   const cancelEdit = () => setEditing(false);
+  const changedDimensions = changedConsequenceDimensions(pickConsequenceScores(risk), editForm.scores);
+  // A consequence derived from changed dimension scores is explained by their reasons instead
+  const needsConsequenceReason = editForm.consequence !== risk.consequence && changedDimensions.length === 0;
 
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
     const lChanged = editForm.likelihood !== risk.likelihood;
-    const cChanged = editForm.consequence !== risk.consequence;
     const statusChangingToClosedAcceptedOrRealized =
       (editForm.status === "closed" || editForm.status === "accepted" || editForm.status === "realized") && editForm.status !== risk.status;
     if (lChanged && !editForm.likelihoodChangeReason.trim()) return;
-    if (cChanged && !editForm.consequenceChangeReason.trim()) return;
+    if (needsConsequenceReason && !editForm.consequenceChangeReason.trim()) return;
+    if (changedDimensions.some((d) => !editForm.consequenceReasons[d.reasonField]?.trim())) return;
     if (statusChangingToClosedAcceptedOrRealized && !editForm.statusChangeRationale.trim()) return;
     fetch(`${API}/risks/${risk.id}`, {
       method: "PATCH",
@@ -237,9 +351,13 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
         category: editForm.category || null,
         likelihood: editForm.likelihood,
         consequence: editForm.consequence,
+        ...editForm.scores,
+        ...editForm.quantified,
+        ...Object.fromEntries(changedDimensions.map((d) => [d.reasonField, editForm.consequenceReasons[d.reasonField]])),
         likelihoodChangeReason: editForm.likelihood !== risk.likelihood ? editForm.likelihoodChangeReason : undefined,
-        consequenceChangeReason: editForm.consequence !== risk.consequence ? editForm.consequenceChangeReason : undefined,
+        consequenceChangeReason: needsConsequenceReason ? editForm.consequenceChangeReason : undefined,
         mitigationStrategy: editForm.mitigationStrategy || null,
+        ownerId: editForm.ownerId,
         owner: editForm.owner || null,
         status: editForm.status,
         statusChangeRationale: statusChangingToClosedAcceptedOrRealized ? editForm.statusChangeRationale : undefined,
@@ -259,6 +377,8 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
     { id: "overview", label: "Overview" },
     { id: "mitigation", label: "Mitigation Steps" },
     { id: "waterfall", label: "Waterfall", disabled: waterfallDisabled },
+    { id: "indicators", label: indicators.length > 0 ? `Indicators (${indicators.length})` : "Indicators" },
+    { id: "comments", label: "Comments" },
     { id: "audit", label: "Audit Log" },
   ];
 
@@ -297,6 +417,8 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
         ))}
       </div>
 
+      {tab === "overview" && <TrippedIndicatorsPanel indicators={indicators.filter((i) => i.trippedAt)} onSelect={() => setTab("indicators")} />}
+
       {tab === "overview" && (
         <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.5rem" }}>
           {editing ? (
@@ -355,12 +477,22 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                   <label style={labelStyle}>Likelihood (1-5)</label>
                   <input type="number" min={1} max={5} value={editForm.likelihood} onChange={(e) => setEditForm((p) => ({ ...p, likelihood: parseInt(e.target.value) || 1 }))} style={formInputStyle} />
                 </div>
-                <div>
-                  <label style={labelStyle}>Consequence (1-5)</label>
-                  <input type="number" min={1} max={5} value={editForm.consequence} onChange={(e) => setEditForm((p) => ({ ...p, consequence: parseInt(e.target.value) || 1 }))} style={formInputStyle} />
-                </div>
+                <ConsequenceScoresInput
+                  scores={editForm.scores}
+                  consequence={editForm.consequence}
+                  onChange={(scores, consequence) => setEditForm((p) => ({ ...p, scores, consequence }))}
+                  inputStyle={formInputStyle}
+                  labelStyle={labelStyle}
+                />
+                <RubricGuidance rubric={rubric} likelihood={editForm.likelihood} consequence={editForm.consequence} dimensionScores={toRubricScores(editForm.scores)} />
+                <QuantifiedImpactInput
+                  value={editForm.quantified}
+                  onChange={(quantified) => setEditForm((p) => ({ ...p, quantified }))}
+                  inputStyle={formInputStyle}
+                  labelStyle={labelStyle}
+                />
               </div>
-              {(editForm.likelihood !== risk.likelihood || editForm.consequence !== risk.consequence) && (
+              {(editForm.likelihood !== risk.likelihood || editForm.consequence !== risk.consequence || changedDimensions.length > 0) && (
                 <div style={{ padding: "0.75rem", background: "#fef3c7", borderRadius: 6, border: "1px solid #f59e0b" }}>
                   <p style={{ margin: "0 0 0.5rem", fontSize: "0.75rem", fontWeight: 600, color: "#92400e" }}>Change log required when L or C changes</p>
                   {editForm.likelihood !== risk.likelihood && (
@@ -369,12 +501,25 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                       <textarea value={editForm.likelihoodChangeReason} onChange={(e) => setEditForm((p) => ({ ...p, likelihoodChangeReason: e.target.value }))} required rows={2} style={formInputStyle} placeholder="Why did the likelihood change?" />
                     </div>
                   )}
-                  {editForm.consequence !== risk.consequence && (
+                  {needsConsequenceReason && (
                     <div>
                       <label style={labelStyle}>Reason Consequence changed *</label>
                       <textarea value={editForm.consequenceChangeReason} onChange={(e) => setEditForm((p) => ({ ...p, consequenceChangeReason: e.target.value }))} required rows={2} style={formInputStyle} placeholder="Why did the consequence change?" />
                     </div>
                   )}
+                  {changedDimensions.map((d) => (
+                    <div key={d.field} style={{ marginBottom: "0.5rem" }}>
+                      <label style={labelStyle}>Reason {d.label} consequence changed *</label>
+                      <textarea
+                        value={editForm.consequenceReasons[d.reasonField] ?? ""}
+                        onChange={(e) => setEditForm((p) => ({ ...p, consequenceReasons: { ...p.consequenceReasons, [d.reasonField]: e.target.value } }))}
+                        required
+                        rows={2}
+                        style={formInputStyle}
+                        placeholder={`Why did the ${d.label.toLowerCase()} consequence change?`}
+                      />
+                    </div>
+                  ))}
                 </div>
               )}
               <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "1rem" }}>
@@ -391,7 +536,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                 </div>
                 <div>
                   <label style={labelStyle}>Owner</label>
-                  <input value={editForm.owner} onChange={(e) => setEditForm((p) => ({ ...p, owner: e.target.value }))} style={formInputStyle} />
+                  <OwnerPicker value={ownerValueOf(editForm)} onChange={(o) => setEditForm((p) => ({ ...p, ...o }))} />
                 </div>
               </div>
               <div style={{ display: "flex", gap: "0.5rem" }}>
@@ -403,7 +548,9 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
             <>
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "0.75rem" }}>
                 <h3 style={{ margin: 0, fontSize: "1.0625rem", fontWeight: 600, borderBottom: "2px solid #e5e7eb", paddingBottom: "0.35rem" }}>Risk Statement</h3>
-                <button type="button" onClick={startEdit} style={{ ...btnPrimary, padding: "0.4rem 0.75rem", fontSize: "0.8rem", flexShrink: 0, marginLeft: "1rem" }}>Edit</button>
+                {canEdit && (
+                  <button type="button" onClick={startEdit} style={{ ...btnPrimary, padding: "0.4rem 0.75rem", fontSize: "0.8rem", flexShrink: 0, marginLeft: "1rem" }}>Edit</button>
+                )}
               </div>
               <dl style={{ display: "grid", gap: "0.5rem 1.5rem", gridTemplateColumns: "auto 1fr", margin: "0 0 1.25rem", fontSize: "0.9rem" }}>
                 <dt style={{ color: "#6b7280", fontWeight: 600, minWidth: 90 }}>Condition</dt>
@@ -447,6 +594,8 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                                 View issue: {linkedIssue.issueName}
                               </a>
                             </span>
+                          ) : !canEdit ? (
+                            <span style={{ color: "#6b7280" }}>No issue created yet</span>
                           ) : (
                             <span>
                               <button
@@ -462,7 +611,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                                   setCreateIssueForm({
                                     issueName: displayRisk.riskName ?? "",
                                     description: parts.join("\n"),
-                                    owner: displayRisk.owner ?? "",
+                                    ...ownerValueOf(displayRisk),
                                     category: (displayRisk.category as string) ?? "",
                                     consequence: displayRisk.consequence ?? 3,
                                   });
@@ -498,12 +647,11 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                           borderRadius: 4,
                           fontSize: "0.75rem",
                           fontWeight: 600,
-                          background: levelColor[risk.riskLevel ?? "moderate"] + "22",
-                          color: levelColor[risk.riskLevel ?? "moderate"],
-                          textTransform: "capitalize",
+                          background: getLevelColor(matrix, risk.riskLevel) + "22",
+                          color: getLevelColor(matrix, risk.riskLevel),
                         }}
                       >
-                        {risk.riskLevel ?? "moderate"}
+                        {getLevelLabel(matrix, risk.riskLevel)}
                       </span>
                     </dd>
                     <dt style={{ color: "#6b7280", fontWeight: 600 }}>Original L×C</dt>
@@ -514,6 +662,22 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                     </dd>
                     <dt style={{ color: "#6b7280", fontWeight: 600 }}>Current L×C</dt>
                     <dd style={{ margin: 0 }}>L{risk.likelihood}×C{risk.consequence}</dd>
+                    {formatConsequenceBreakdown(risk) && (
+                      <>
+                        <dt style={{ color: "#6b7280", fontWeight: 600 }}>Consequence by</dt>
+                        <dd style={{ margin: 0 }}>{formatConsequenceBreakdown(risk)}</dd>
+                      </>
+                    )}
+                    {formatQuantifiedImpact(risk) && (
+                      <>
+                        <dt style={{ color: "#6b7280", fontWeight: 600 }}>Quantified</dt>
+                        <dd style={{ margin: 0 }}>{formatQuantifiedImpact(risk)}</dd>
+                        <dt style={{ color: "#6b7280", fontWeight: 600 }}>Exposure</dt>
+                        <dd style={{ margin: 0 }}>{formatExposure(riskExposure(risk)) || "— (no probability)"}</dd>
+                      </>
+                    )}
+                    <dt style={{ color: "#6b7280", fontWeight: 600 }}>Rubric</dt>
+                    <dd style={{ margin: 0 }}>{risk.rubricVersion != null ? `v${risk.rubricVersion}` : "—"}</dd>
                   </dl>
                 </div>
                 <div>
@@ -532,6 +696,20 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                   </dl>
                 </div>
               </div>
+              {fullRisk && (
+                <RiskEscalation
+                  risk={fullRisk}
+                  canEdit={canEdit}
+                  onChanged={() => {
+                    loadFullRisk();
+                    onUpdate();
+                  }}
+                  onOpenRisk={onOpenRisk}
+                />
+              )}
+              <ItemReview itemType="risk" item={risk} canEdit={canEdit} onUpdate={() => { onUpdate(); loadAuditLog(); }} />
+              <ItemConversions itemType="risk" itemId={risk.id} status={risk.status} canEdit={canEdit} onOpenItem={onOpenConvertedItem} />
+              <RelatedItemsPanel itemType="risk" itemId={risk.id} orgUnitId={risk.organizationalUnitId} canEdit={canEdit} onOpenItem={onOpenItem} />
             </>
           )}
         </div>
@@ -552,6 +730,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
           <div style={{ display: "flex", gap: "1.5rem", alignItems: "flex-start", flexWrap: "wrap" }}>
             <div style={{ flexShrink: 0, minWidth: 380, display: "flex", flexDirection: "column", gap: "0.5rem" }}>
               <RiskMitigationMatrix
+                matrix={matrix}
                 risk={risk}
                 steps={mitigationSteps}
                 showOriginalLxC={showOriginalLxC}
@@ -565,6 +744,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                 showOriginalLxC={showOriginalLxC}
                 onUpdate={() => { onUpdate(); loadMitigationSteps(); loadAuditLog(); }}
                 onStepsChange={(steps) => setMitigationSteps(steps)}
+                readOnly={!canEdit}
               />
             </div>
           </div>
@@ -583,15 +763,38 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
               Export PNG
             </button>
           </div>
-          <RiskWaterfall orgUnit={orgUnit} risks={[risk]} preselectedRiskId={risk.id} />
+          <RiskWaterfall orgUnit={orgUnit} risks={[risk]} preselectedRiskId={risk.id} matrix={matrix} />
         </div>
       )}
 
+      {tab === "indicators" && (
+        <RiskIndicators
+          riskId={risk.id}
+          indicators={indicators}
+          canEdit={canEdit}
+          onChange={() => {
+            loadIndicators();
+            onUpdate();
+          }}
+        />
+      )}
+
+      {tab === "comments" && (
+        <CommentThreads
+          itemType="risk"
+          itemId={risk.id}
+          canEdit={canEdit}
+          currentUserId={currentUserId}
+          canModerate={canModerateComments}
+          onChange={loadAuditLog}
+        />
+      )}
+
       {tab === "audit" && (
         <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.5rem" }}>
           <h3 style={{ margin: "0 0 1rem", fontSize: "1rem", fontWeight: 600 }}>Audit Log</h3>
           <p style={{ margin: "0 0 1rem", fontSize: "0.875rem", color: "#6b7280" }}>
-            Every creation, update, and deletion of this risk and its mitigation steps.
+            Every creation, update, and deletion of this risk, its mitigation steps, indicators and comments, and each indicator trip.
           </p>
           {auditLogError ? (
             <p style={{ color: "#dc2626", margin: 0 }}>{auditLogError}</p>
@@ -602,9 +805,19 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
           ) : (
             <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
               {auditLog.map((entry) => {
-                const entityLabel = entry.entityType === "risk" ? "Risk" : `Mitigation step ${entry.details?.stepNumber ?? "—"}`;
-                const actionLabel = entry.action === "created" ? "Created" : entry.action === "updated" ? "Updated" : "Deleted";
+                const indicator = entry.details?.indicator;
+                const entityLabel =
+                  entry.entityType === "risk"
+                    ? "Risk"
+                    : entry.entityType === "indicator"
+                      ? `Indicator "${indicator?.description ?? "—"}"`
+                      : entry.entityType === "comment"
+                        ? entry.details?.stepNumber ? `Comment on mitigation step ${entry.details.stepNumber}` : "Comment"
+                        : `Mitigation step ${entry.details?.stepNumber ?? "—"}`;
+                const actionLabel = AUDIT_ACTION_LABELS[entry.action] ?? entry.action;
+                const escalation = entry.details?.escalation;
                 const changes = entry.details?.changes;
+                const dimensionReasons = CONSEQUENCE_DIMENSIONS.filter((d) => entry.details?.consequenceReasons?.[d.reasonField]);
                 return (
                   <div
                     key={entry.id}
@@ -625,7 +838,14 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                           (changes && Object.keys(changes).length > 0) ||
                           entry.details?.likelihoodChangeReason ||
                           entry.details?.consequenceChangeReason ||
-                          entry.details?.statusChangeRationale
+                          dimensionReasons.length > 0 ||
+                          entry.details?.statusChangeRationale ||
+                          escalation ||
+                          entry.details?.reviewNote ||
+                          entry.details?.decision ||
+                          entry.details?.opportunityCreatedFromRisk ||
+                          entry.details?.excerpt ||
+                          (indicator && (entry.action === "tripped" || entry.action === "cleared"))
                             ? "0.5rem"
                             : 0,
                       }}
@@ -634,6 +854,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                         {entityLabel} — {actionLabel}
                       </span>
                       <span style={{ color: "#6b7280", fontSize: "0.8rem" }}>
+                        {formatAuditAuthor(entry) && <strong style={{ fontWeight: 500, color: "#374151" }}>{formatAuditAuthor(entry)} · </strong>}
                         {new Date(entry.createdAt).toLocaleString(undefined, {
                           month: "short",
                           day: "numeric",
@@ -643,7 +864,41 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                         })}
                       </span>
                     </div>
-                    {entry.action === "updated" && (
+                    {escalation && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        {describeEscalation(entry.action, escalation)}. <strong>Rationale:</strong> {escalation.rationale}
+                      </p>
+                    )}
+                    {entry.action === "reviewed" && entry.details?.reviewNote && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        <strong>Note:</strong> {entry.details.reviewNote}
+                      </p>
+                    )}
+                    {entry.action === "converted" && entry.details?.opportunityCreatedFromRisk && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        Opportunity created: {entry.details.opportunityCreatedFromRisk.opportunityName}
+                      </p>
+                    )}
+                    {entry.action === "decision" && entry.details?.decision && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        {entry.details.meeting && <>At {entry.details.meeting.title} ({entry.details.meeting.meetingDate.slice(0, 10)}): </>}
+                        {entry.details.decision}
+                        {entry.details.previousDecision && <span style={{ color: "#6b7280" }}> (replaces: {entry.details.previousDecision})</span>}
+                      </p>
+                    )}
+                    {entry.entityType === "comment" && entry.details?.excerpt && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        “{entry.details.excerpt}”
+                        {entry.details.previousExcerpt && <span style={{ color: "#6b7280" }}> (was: “{entry.details.previousExcerpt}”)</span>}
+                        {entry.details.mentions && entry.details.mentions.length > 0 && <span style={{ color: "#6b7280" }}> · mentions {entry.details.mentions.join(", ")}</span>}
+                      </p>
+                    )}
+                    {indicator && (entry.action === "tripped" || entry.action === "cleared") && (
+                      <p style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
+                        {indicator.metric} reading {indicator.value ?? "—"} {entry.action === "tripped" ? "crossed" : "is back within"} the threshold ({indicator.direction === "above" ? "≥" : "≤"} {indicator.threshold}).
+                      </p>
+                    )}
+                    {(entry.action === "updated" || entry.action === "de_escalated") && (
                       <>
                         {changes && Object.keys(changes).length > 0 && (
                           <ul style={{ margin: 0, paddingLeft: "1.25rem", color: "#374151", fontSize: "0.8125rem" }}>
@@ -659,7 +914,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                             })}
                           </ul>
                         )}
-                        {(entry.details?.likelihoodChangeReason ?? entry.details?.consequenceChangeReason ?? entry.details?.statusChangeRationale) && (
+                        {(entry.details?.likelihoodChangeReason || entry.details?.consequenceChangeReason || dimensionReasons.length > 0 || entry.details?.statusChangeRationale) && entry.details && (
                           <div style={{ marginTop: changes && Object.keys(changes).length > 0 ? "0.5rem" : 0, fontSize: "0.8125rem", color: "#374151" }}>
                             {entry.details.likelihoodChangeReason && (
                               <p style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem" }}>
@@ -671,6 +926,11 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                                 <strong>Consequence change reason:</strong> {entry.details.consequenceChangeReason}
                               </p>
                             )}
+                            {dimensionReasons.map((d) => (
+                              <p key={d.field} style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem" }}>
+                                <strong>{d.label} consequence change reason:</strong> {entry.details?.consequenceReasons?.[d.reasonField]}
+                              </p>
+                            ))}
                             {entry.details.statusChangeRationale && (
                               <p style={{ margin: "0.25rem 0 0", paddingLeft: "1.25rem" }}>
                                 <strong>Status change rationale:</strong> {entry.details.statusChangeRationale}
@@ -705,6 +965,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                   body: JSON.stringify({
                     issueName: createIssueForm.issueName.trim() || undefined,
                     description: createIssueForm.description.trim() || undefined,
+                    ownerId: createIssueForm.ownerId,
                     owner: createIssueForm.owner.trim() || null,
                     category: createIssueForm.category.trim() || null,
                     consequence: createIssueForm.consequence,
@@ -738,7 +999,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
               <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "1rem" }}>
                 <div>
                   <label style={labelStyle}>Owner</label>
-                  <input value={createIssueForm.owner} onChange={(e) => setCreateIssueForm((p) => ({ ...p, owner: e.target.value }))} style={formInputStyle} />
+                  <OwnerPicker value={ownerValueOf(createIssueForm)} onChange={(o) => setCreateIssueForm((p) => ({ ...p, ...o }))} />
                 </div>
                 <div>
                   <label style={labelStyle}>Category</label>
@@ -754,6 +1015,7 @@ export function RiskDetailView({ categories, risk, orgUnit, onBack, onUpdate, on
                 <label style={labelStyle}>Consequence (1–5)</label>
                 <input type="number" min={1} max={5} value={createIssueForm.consequence} onChange={(e) => setCreateIssueForm((p) => ({ ...p, consequence: parseInt(e.target.value) || 1 }))} style={formInputStyle} />
               </div>
+              <RubricGuidance rubric={rubric} consequence={createIssueForm.consequence} />
               <div style={{ display: "flex", gap: "0.5rem", justifyContent: "flex-end" }}>
                 <button type="button" onClick={() => !createIssueSubmitting && setShowCreateIssueModal(false)} style={btnSecondary} disabled={createIssueSubmitting}>Cancel</button>
                 <button type="submit" style={btnPrimary} disabled={createIssueSubmitting}>{createIssueSubmitting ? "Creating…" : "Create issue"}</button>
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import type { Risk, RiskEscalationLink } from "../types";
+
+const API = "/api";
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  mitigating: "Mitigating",
+  accepted: "Accepted",
+  closed: "Closed",
+  realized: "Realized",
+};
+
+const ACTIVE_STATUSES = ["open", "mitigating", "accepted"];
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const btnPrimary = { padding: "0.4rem 0.75rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.8125rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#2563eb", cursor: "pointer", fontWeight: 500 };
+
+interface RiskEscalationProps {
+  /** Full risk from GET /api/risks/:id (escalation links and the unit's parent) */
+  risk: Risk;
+  canEdit: boolean;
+  /** Reload after an escalation that keeps the risk in this PPD */
+  onChanged: () => void;
+  /** Open a risk in another PPD (the other side of a link, or this risk after it moved) */
+  onOpenRisk?: (orgUnitId: string, riskId: string) => void;
+}
+
+/** Escalation to the parent org unit: the links on either side, and escalate / de-escalate actions. */
+export function RiskEscalation({ risk, canEdit, onChanged, onOpenRisk }: RiskEscalationProps) {
+  const [action, setAction] = useState<"escalate" | "de_escalate" | null>(null);
+  const [mode, setMode] = useState<"link" | "transfer">("link");
+  const [rationale, setRationale] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parent = risk.organizationalUnit?.parent ?? null;
+  const escalatedTo = risk.escalatedToRisks ?? [];
+  const transferredFrom = risk.transferredFromOrgUnit ?? null;
+  const canEscalate =
+    canEdit && parent != null && ACTIVE_STATUSES.includes(risk.status) && !escalatedTo.some((r) => r.status !== "closed");
+  const canDeEscalate = canEdit && (transferredFrom != null || (risk.escalatedFromRiskId != null && risk.status !== "closed"));
+
+  if (!parent && !risk.escalatedFromRisk && !transferredFrom && escalatedTo.length === 0) return null;
+
+  const renderLink = (link: RiskEscalationLink) =>
+    onOpenRisk ? (
+      <button type="button" onClick={() => onOpenRisk(link.organizationalUnit.id, link.id)} style={linkStyle}>
+        {link.riskName}
+      </button>
+    ) : (
+      <strong style={{ fontWeight: 500 }}>{link.riskName}</strong>
+    );
+
+  const openForm = (next: "escalate" | "de_escalate") => {
+    setAction(next);
+    setMode("link");
+    setRationale("");
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || !rationale.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    const path = action === "escalate" ? "escalate" : "de-escalate";
+    fetch(`${API}/risks/${risk.id}/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(action === "escalate" ? { mode, rationale: rationale.trim() } : { rationale: rationale.trim() }),
+    })
+      .then((r) => {
+        if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+        return r.json();
+      })
+      .then((updated: Risk) => {
+        setAction(null);
+        // A transfer moves the risk to another PPD; follow it there
+        if (updated.id === risk.id && updated.organizationalUnitId !== risk.organizationalUnitId && onOpenRisk) {
+          onOpenRisk(updated.organizationalUnitId, updated.id);
+        } else {
+          onChanged();
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Request failed"))
+      .finally(() => setSubmitting(false));
+  };
+
+  return (
+    <div style={{ marginTop: "1.25rem" }}>
+      <h3 style={{ margin: "0 0 0.5rem", fontSize: "1.0625rem", fontWeight: 600, color: "#374151", borderBottom: "2px solid #e5e7eb", paddingBottom: "0.35rem" }}>Escalation</h3>
+      <ul style={{ margin: "0 0 0.75rem", paddingLeft: "1.25rem", fontSize: "0.875rem", color: "#374151" }}>
+        {risk.escalatedFromRisk && (
+          <li>
+            Escalated from {renderLink(risk.escalatedFromRisk)} in {risk.escalatedFromRisk.organizationalUnit.name}
+          </li>
+        )}
+        {transferredFrom && <li>Transferred up from {transferredFrom.name}; de-escalating moves it back there</li>}
+        {escalatedTo.map((link) => (
+          <li key={link.id}>
+            Escalated to {renderLink(link)} in {link.organizationalUnit.name} ({STATUS_LABELS[link.status] ?? link.status})
+          </li>
+        ))}
+        {!risk.escalatedFromRisk && !transferredFrom && escalatedTo.length === 0 && parent && (
+          <li style={{ color: "#6b7280" }}>Not escalated. Escalate when the risk exceeds this PPD's authority to {parent.name}.</li>
+        )}
+      </ul>
+      {!action && (canEscalate || canDeEscalate) && (
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          {canEscalate && (
+            <button type="button" onClick={() => openForm("escalate")} style={btnPrimary}>
+              Escalate to {parent!.name}
+            </button>
+          )}
+          {canDeEscalate && (
+            <button type="button" onClick={() => openForm("de_escalate")} style={btnSecondary}>
+              De-escalate
+            </button>
+          )}
+        </div>
+      )}
+      {action && (
+        <form onSubmit={handleSubmit} style={{ padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, fontSize: "0.875rem" }}>
+          {action === "escalate" ? (
+            <div style={{ display: "flex", flexDirection: "column", gap: "0.35rem", marginBottom: "0.75rem" }}>
+              <label>
+                <input type="radio" checked={mode === "link"} onChange={() => setMode("link")} /> Create a linked risk in {parent?.name}; this risk stays
+                with its PPD
+              </label>
+              <label>
+                <input type="radio" checked={mode === "transfer"} onChange={() => setMode("transfer")} /> Transfer this risk, with its mitigation
+                steps, to {parent?.name}
+              </label>
+            </div>
+          ) : (
+            <p style={{ margin: "0 0 0.75rem", color: "#374151" }}>
+              {transferredFrom
+                ? `Moves this risk back to ${transferredFrom.name}.`
+                : "Closes this escalated risk; the original stays with its PPD."}
+            </p>
+          )}
+          <label style={{ display: "block", fontSize: "0.75rem", marginBottom: "0.25rem" }}>Rationale *</label>
+          <textarea
+            value={rationale}
+            onChange={(e) => setRationale(e.target.value)}
+            rows={2}
+            required
+            placeholder={action === "escalate" ? "Why the risk exceeds this PPD's authority" : "Why the risk can be handed back"}
+            style={{ ...formInputStyle, marginBottom: "0.5rem" }}
+          />
+          {error && <p style={{ margin: "0 0 0.5rem", color: "#dc2626" }}>{error}</p>}
+          <div style={{ display: "flex", gap: "0.5rem" }}>
+            <button type="submit" disabled={submitting || !rationale.trim()} style={btnPrimary}>
+              {submitting ? "Saving…" : action === "escalate" ? "Escalate" : "De-escalate"}
+            </button>
+            <button type="button" onClick={() => setAction(null)} disabled={submitting} style={btnSecondary}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import type { Category, RiskCategory } from "../types";
+import { ownerFilterKey } from "../utils/owners";
+import { OwnerFilterSelect } from "./OwnerFilterSelect";
 
 const STATUSES: { value: string; label: string }[] = [
   { value: "open", label: "Open" },
@@ -10,10 +12,14 @@ const STATUSES: { value: string; label: string }[] = [
 export interface RiskFiltersState {
   categories: Set<RiskCategory>;
   statuses: Set<string>;
+  /** Owner filter value (see ownerFilterKey); "" for all owners */
+  owner: string;
 }
 
 interface RiskFiltersProps {
   categories: Category[];
+  /** Owners of the loaded risks (ownerFilterOptions) */
+  owners: { value: string; label: string }[];
   filters: RiskFiltersState;
   onChange: (filters: RiskFiltersState) => void;
 }
@@ -21,7 +27,7 @@ interface RiskFiltersProps {
 const checkboxStyle = { margin: 0, cursor: "pointer" as const };
 const labelStyle = { fontSize: "0.8rem", cursor: "pointer" as const, marginRight: "0.75rem" };
 
-export function RiskFilters({ categories, filters, onChange }: RiskFiltersProps) {
+export function RiskFilters({ categories, owners, filters, onChange }: RiskFiltersProps) {
   const categoryOptions = categories.map((c) => ({ value: c.code as RiskCategory, label: c.label }));
   const toggleCategory = (cat: RiskCategory) => {
     const next = new Set(filters.categories);
@@ -37,7 +43,7 @@ export function RiskFilters({ categories, filters, onChange }: RiskFiltersProps)
     onChange({ ...filters, statuses: next });
   };
 
-  const clearAll = () => onChange({ categories: new Set(), statuses: new Set() });
+  const clearAll = () => onChange({ categories: new Set(), statuses: new Set(), owner: "" });
 
   const rowStyle = { display: "flex", alignItems: "center", flexWrap: "wrap" as const, gap: "0.25rem 0.5rem" };
   const labelStyleInner = { fontSize: "0.75rem", color: "#374151", marginRight: "0.5rem", fontWeight: 700, minWidth: 60 };
@@ -63,6 +69,10 @@ export function RiskFilters({ categories, filters, onChange }: RiskFiltersProps)
           </label>
         ))}
       </div>
+      <div style={rowStyle}>
+        <span style={labelStyleInner}>Owner:</span>
+        <OwnerFilterSelect owners={owners} value={filters.owner} onChange={(owner) => onChange({ ...filters, owner })} />
+      </div>
       <div style={rowStyle}>
         <span style={labelStyleInner}>Status:</span>
         {STATUSES.map((s) => (
@@ -71,7 +81,7 @@ export function RiskFilters({ categories, filters, onChange }: RiskFiltersProps)
             {" "}{s.label}
           </label>
         ))}
-        {(filters.categories.size > 0 || filters.statuses.size > 0) && (
+        {(filters.categories.size > 0 || filters.statuses.size > 0 || filters.owner !== "") && (
           <button
             type="button"
             onClick={clearAll}
@@ -85,13 +95,14 @@ export function RiskFilters({ categories, filters, onChange }: RiskFiltersProps)
   );
 }
 
-export function filterRisks<T extends { category?: RiskCategory | null; status?: string }>(
+export function filterRisks<T extends { category?: RiskCategory | null; status?: string; ownerId?: string | null; owner?: string | null }>(
   risks: T[],
   filters: RiskFiltersState
 ): T[] {
   return risks.filter((r) => {
     const categoryOk = filters.categories.size === 0 || (r.category != null && filters.categories.has(r.category));
     const statusOk = filters.statuses.size === 0 || filters.statuses.has(r.status ?? "");
-    return categoryOk && statusOk;
+    const ownerOk = !filters.owner || ownerFilterKey(r) === filters.owner;
+    return categoryOk && statusOk && ownerOk;
   });
 }
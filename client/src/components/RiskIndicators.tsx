@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { IndicatorDirection, RiskIndicator } from "../types";
+import { formatDate, formatIndicatorValue, formatThreshold, isReviewDue } from "../utils/riskIndicators";
+
+const API = "/api";
+
+const DIRECTION_LABELS: Record<IndicatorDirection, string> = {
+  above: "Trips at or above",
+  below: "Trips at or below",
+};
+
+const formInputStyle = { width: "100%" as const, padding: "0.5rem", borderRadius: 6, border: "1px solid #d1d5db", boxSizing: "border-box" as const };
+const labelStyle = { display: "block", fontSize: "0.75rem", marginBottom: "0.25rem" };
+const btnPrimary = { padding: "0.4rem 0.75rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const, fontSize: "0.8125rem" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const btnDanger = { ...btnPrimary, background: "#dc2626" };
+
+type IndicatorForm = { description: string; metric: string; unit: string; direction: IndicatorDirection; threshold: string; reviewDate: string; currentValue: string };
+
+const EMPTY_FORM: IndicatorForm = { description: "", metric: "", unit: "", direction: "above", threshold: "", reviewDate: "", currentValue: "" };
+
+function formOf(ind: RiskIndicator): IndicatorForm {
+  return {
+    description: ind.description,
+    metric: ind.metric,
+    unit: ind.unit ?? "",
+    direction: ind.direction,
+    threshold: String(ind.threshold),
+    reviewDate: ind.reviewDate?.slice(0, 10) ?? "",
+    currentValue: "",
+  };
+}
+
+/** Reject with the server's { error } message. */
+function sendJson(url: string, method: string, body?: unknown): Promise<unknown> {
+  return fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }).then((r) => {
+    if (!r.ok) return r.json().then((err) => Promise.reject(new Error(err?.error || `HTTP ${r.status}`)));
+    return r.status === 204 ? null : r.json();
+  });
+}
+
+function statusBadge(ind: RiskIndicator) {
+  const [label, bg, color] = ind.trippedAt ? ["Tripped", "#fee2e2", "#b91c1c"] : ind.currentValue == null ? ["No reading", "#f3f4f6", "#6b7280"] : ["OK", "#dcfce7", "#15803d"];
+  return <span style={{ fontSize: "0.75rem", fontWeight: 600, padding: "0.15rem 0.5rem", borderRadius: 9999, background: bg, color }}>{label}</span>;
+}
+
+/** Readings oldest to newest against the threshold line. */
+function ReadingsChart({ indicator }: { indicator: RiskIndicator }) {
+  const data = [...(indicator.readings ?? [])].reverse().map((r) => ({ date: r.readAt.slice(0, 10), value: r.value }));
+  if (data.length < 2) return null;
+  return (
+    <div style={{ width: "100%", height: 140, marginTop: "0.5rem" }}>
+      <ResponsiveContainer>
+        <LineChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+          <YAxis tick={{ fontSize: 10 }} domain={["auto", "auto"]} />
+          <Tooltip formatter={(v) => formatIndicatorValue(Number(v), indicator.unit)} />
+          <ReferenceLine y={indicator.threshold} stroke="#dc2626" strokeDasharray="4 2" label={{ value: "Threshold", fontSize: 10, position: "insideTopLeft" }} />
+          <Line type="monotone" dataKey="value" stroke="#2563eb" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+interface RiskIndicatorsProps {
+  riskId: string;
+  indicators: RiskIndicator[];
+  /** False for Viewers: read-only */
+  canEdit: boolean;
+  /** Reload after any change (trip state and the audit log move with it) */
+  onChange: () => void;
+}
+
+/**
+ * "Indicators" tab of a risk: trigger / early-warning indicators, each a metric watched against a
+ * threshold. Recording a reading updates the current value; the server trips or clears the indicator.
+ */
+export function RiskIndicators({ riskId, indicators, canEdit, onChange }: RiskIndicatorsProps) {
+  /** "new" for the add form, else the indicator being edited */
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<IndicatorForm>(EMPTY_FORM);
+  const [readingFor, setReadingFor] = useState<string | null>(null);
+  const [reading, setReading] = useState({ value: "", readAt: "", note: "" });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = (request: Promise<unknown>, done: () => void) => {
+    setSubmitting(true);
+    setError(null);
+    request
+      .then(() => {
+        done();
+        onChange();
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Request failed"))
+      .finally(() => setSubmitting(false));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = {
+      description: form.description,
+      metric: form.metric,
+      unit: form.unit,
+      direction: form.direction,
+      threshold: form.threshold,
+      reviewDate: form.reviewDate || null,
+      ...(editingId === "new" && form.currentValue.trim() ? { currentValue: form.currentValue } : {}),
+    };
+    const request =
+      editingId === "new"
+        ? sendJson(`${API}/risks/${riskId}/indicators`, "POST", body)
+        : sendJson(`${API}/risks/${riskId}/indicators/${editingId}`, "PATCH", body);
+    run(request, () => setEditingId(null));
+  };
+
+  const handleRecordReading = (e: React.FormEvent, indicatorId: string) => {
+    e.preventDefault();
+    const body = { value: reading.value, readAt: reading.readAt || undefined, note: reading.note };
+    run(sendJson(`${API}/risks/${riskId}/indicators/${indicatorId}/readings`, "POST", body), () => setReadingFor(null));
+  };
+
+  const handleDelete = (ind: RiskIndicator) => {
+    if (!confirm(`Delete indicator "${ind.description}" and its readings?`)) return;
+    run(sendJson(`${API}/risks/${riskId}/indicators/${ind.id}`, "DELETE"), () => {});
+  };
+
+  const startEdit = (id: string, initial: IndicatorForm) => {
+    setEditingId(id);
+    setForm(initial);
+    setReadingFor(null);
+    setError(null);
+  };
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} style={{ display: "flex", flexDirection: "column", gap: "0.75rem", padding: "0.75rem 1rem", background: "#f9fafb", borderRadius: 6, fontSize: "0.875rem" }}>
+      <div>
+        <label style={labelStyle}>Description *</label>
+        <input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} required placeholder="e.g. Supplier lead time slipping" style={formInputStyle} />
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: "0.75rem" }}>
+        <div>
+          <label style={labelStyle}>Metric *</label>
+          <input value={form.metric} onChange={(e) => setForm({ ...form, metric: e.target.value })} required placeholder="e.g. Lead time" style={formInputStyle} />
+        </div>
+        <div>
+          <label style={labelStyle}>Unit</label>
+          <input value={form.unit} onChange={(e) => setForm({ ...form, unit: e.target.value })} placeholder="e.g. days, %" style={formInputStyle} />
+        </div>
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: editingId === "new" ? "1fr 1fr 1fr 1fr" : "1fr 1fr 1fr", gap: "0.75rem" }}>
+        <div>
+          <label style={labelStyle}>Direction</label>
+          <select value={form.direction} onChange={(e) => setForm({ ...form, direction: e.target.value as IndicatorDirection })} style={formInputStyle}>
+            {(Object.keys(DIRECTION_LABELS) as IndicatorDirection[]).map((d) => (
+              <option key={d} value={d}>
+                {DIRECTION_LABELS[d]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>Threshold *</label>
+          <input type="number" step="any" value={form.threshold} onChange={(e) => setForm({ ...form, threshold: e.target.value })} required style={formInputStyle} />
+        </div>
+        {editingId === "new" && (
+          <div>
+            <label style={labelStyle}>Current value</label>
+            <input type="number" step="any" value={form.currentValue} onChange={(e) => setForm({ ...form, currentValue: e.target.value })} style={formInputStyle} />
+          </div>
+        )}
+        <div>
+          <label style={labelStyle}>Review date</label>
+          <input type="date" value={form.reviewDate} onChange={(e) => setForm({ ...form, reviewDate: e.target.value })} style={formInputStyle} />
+        </div>
+      </div>
+      {error && <p style={{ margin: 0, color: "#dc2626" }}>{error}</p>}
+      <div style={{ display: "flex", gap: "0.5rem" }}>
+        <button type="submit" disabled={submitting} style={btnPrimary}>
+          {submitting ? "Saving…" : editingId === "new" ? "Add indicator" : "Save"}
+        </button>
+        <button type="button" onClick={() => setEditingId(null)} disabled={submitting} style={btnSecondary}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1.5rem" }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: "0.75rem" }}>
+        <h3 style={{ margin: 0, fontSize: "1rem" }}>Triggers &amp; Early-Warning Indicators</h3>
+        {canEdit && editingId !== "new" && (
+          <button type="button" onClick={() => startEdit("new", EMPTY_FORM)} style={btnPrimary}>
+            + Add indicator
+          </button>
+        )}
+      </div>
+      <p style={{ margin: "0 0 1rem", fontSize: "0.8125rem", color: "#6b7280" }}>
+        Each indicator watches a metric against a threshold. It trips automatically when a reading crosses the threshold and clears when a later reading no longer does.
+      </p>
+      {editingId === "new" && <div style={{ marginBottom: "1rem" }}>{renderForm()}</div>}
+      {indicators.length === 0 && editingId !== "new" && <p style={{ margin: 0, color: "#6b7280", fontSize: "0.875rem" }}>No indicators defined.</p>}
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+        {indicators.map((ind) =>
+          editingId === ind.id ? (
+            <div key={ind.id}>{renderForm()}</div>
+          ) : (
+            <div key={ind.id} style={{ border: `1px solid ${ind.trippedAt ? "#fecaca" : "#e5e7eb"}`, background: ind.trippedAt ? "#fef2f2" : "white", borderRadius: 8, padding: "0.75rem 1rem", fontSize: "0.875rem" }}>
+              <div style={{ display: "flex", alignItems: "center", gap: "0.5rem", flexWrap: "wrap" }}>
+                <strong>{ind.description}</strong>
+                {statusBadge(ind)}
+                {canEdit && (
+                  <span style={{ marginLeft: "auto", display: "flex", gap: "0.375rem" }}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setReadingFor(ind.id);
+                        setReading({ value: "", readAt: "", note: "" });
+                        setEditingId(null);
+                        setError(null);
+                      }}
+                      style={btnPrimary}
+                    >
+                      Record reading
+                    </button>
+                    <button type="button" onClick={() => startEdit(ind.id, formOf(ind))} style={btnSecondary}>
+                      Edit
+                    </button>
+                    <button type="button" onClick={() => handleDelete(ind)} disabled={submitting} style={btnDanger}>
+                      Delete
+                    </button>
+                  </span>
+                )}
+              </div>
+              <div style={{ marginTop: "0.35rem", color: "#374151" }}>
+                {ind.metric}: <strong>{formatIndicatorValue(ind.currentValue, ind.unit)}</strong>{" "}
+                <span style={{ color: "#6b7280" }}>(threshold {formatThreshold(ind)})</span>
+                {ind.trippedAt && <span style={{ color: "#b91c1c" }}> · tripped {formatDate(ind.trippedAt)}</span>}
+                {" · "}
+                <span style={{ color: isReviewDue(ind) ? "#dc2626" : "#6b7280", fontWeight: isReviewDue(ind) ? 600 : 400 }}>Review {formatDate(ind.reviewDate)}</span>
+              </div>
+              <ReadingsChart indicator={ind} />
+              {readingFor === ind.id && (
+                <form onSubmit={(e) => handleRecordReading(e, ind.id)} style={{ display: "grid", gridTemplateColumns: "1fr 1fr 2fr auto auto", gap: "0.5rem", alignItems: "end", marginTop: "0.75rem" }}>
+                  <div>
+                    <label style={labelStyle}>Value{ind.unit ? ` (${ind.unit})` : ""} *</label>
+                    <input type="number" step="any" value={reading.value} onChange={(e) => setReading({ ...reading, value: e.target.value })} required style={formInputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Read on</label>
+                    <input type="date" value={reading.readAt} onChange={(e) => setReading({ ...reading, readAt: e.target.value })} style={formInputStyle} />
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Note</label>
+                    <input value={reading.note} onChange={(e) => setReading({ ...reading, note: e.target.value })} style={formInputStyle} />
+                  </div>
+                  <button type="submit" disabled={submitting} style={btnPrimary}>
+                    {submitting ? "Saving…" : "Save"}
+                  </button>
+                  <button type="button" onClick={() => setReadingFor(null)} disabled={submitting} style={btnSecondary}>
+                    Cancel
+                  </button>
+                </form>
+              )}
+              {error && (readingFor === ind.id || editingId == null) && <p style={{ margin: "0.5rem 0 0", color: "#dc2626" }}>{error}</p>}
+              {(ind.readings?.length ?? 0) > 0 && (
+                <details style={{ marginTop: "0.5rem" }}>
+                  <summary style={{ cursor: "pointer", color: "#6b7280", fontSize: "0.8125rem" }}>Readings ({ind.readings!.length})</summary>
+                  <table style={{ width: "100%", borderCollapse: "collapse", marginTop: "0.35rem", fontSize: "0.8125rem" }}>
+                    <tbody>
+                      {ind.readings!.map((r) => (
+                        <tr key={r.id} style={{ borderTop: "1px solid #f3f4f6" }}>
+                          <td style={{ padding: "0.25rem 0.5rem 0.25rem 0", whiteSpace: "nowrap" }}>{formatDate(r.readAt)}</td>
+                          <td style={{ padding: "0.25rem 0.5rem", fontWeight: 600 }}>{formatIndicatorValue(r.value, ind.unit)}</td>
+                          <td style={{ padding: "0.25rem 0.5rem", color: "#374151" }}>{r.note ?? ""}</td>
+                          <td style={{ padding: "0.25rem 0", color: "#6b7280", textAlign: "right" }}>{r.userDisplayName ?? ""}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              )}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useRef, useState } from "react";
-import type { Category, OrganizationalUnit, Risk } from "../types";
+import type { Category, LevelMatrixDefinition, OrganizationalUnit, Risk } from "../types";
 import { exportElementAsPng } from "../utils/exportPng";
+import { formatExposure, riskExposure, sumExposure } from "../utils/exposure";
+import { DEFAULT_RISK_MATRIX, axisLabel, getCellColor, getCellRank, getLevelColor, getRankColor } from "../utils/levelMatrix";
 
 interface RiskMatrixProps {
   categories: Category[];
@@ -9,60 +11,8 @@ interface RiskMatrixProps {
   onSelectRisk?: (riskId: string) => void;
   /** Callback to get the exportable element for report capture */
   onExportRef?: (el: HTMLDivElement | null) => void;
-}
-
-const LIKELIHOOD_LABELS = ["1: Not Likely", "2: Low Likely", "3: Likely", "4: High Likely", "5: Near Certain"];
-const LIKELIHOOD_PERCENT = [">1% to ≤20%", ">20% to ≤40%", ">40% to ≤60%", ">60% to ≤80%", ">80% to ≤99%"];
-const CONSEQUENCE_LABELS = ["1: Minimal", "2: Minor", "3: Moderate", "4: Significant", "5: Severe"];
-
-// DoD 5x5 matrix: (likelihood, consequence) -> low, moderate, high
-const MATRIX_COLOR: Record<string, string> = {
-  low: "#22c55e",      // green
-  moderate: "#eab308", // yellow
-  high: "#ef4444",     // red
-};
-
-function getCellColor(l: number, c: number): string {
-  const key = `${Math.max(1, Math.min(5, l))}-${Math.max(1, Math.min(5, c))}`;
-  const levels: Record<string, string> = {
-    "1-1": "low", "1-2": "low", "1-3": "low", "1-4": "moderate", "1-5": "moderate",
-    "2-1": "low", "2-2": "low", "2-3": "moderate", "2-4": "moderate", "2-5": "high",
-    "3-1": "low", "3-2": "moderate", "3-3": "moderate", "3-4": "high", "3-5": "high",
-    "4-1": "moderate", "4-2": "moderate", "4-3": "high", "4-4": "high", "4-5": "high",
-    "5-1": "moderate", "5-2": "high", "5-3": "high", "5-4": "high", "5-5": "high",
-  };
-  return MATRIX_COLOR[levels[key] ?? "moderate"] + "33";
-}
-
-// Numerical risk level 1-25 (same mapping as server) for sorting
-const NUMERICAL_RL: Record<string, number> = {
-  "1-1": 1, "1-2": 3, "1-3": 5, "1-4": 9, "1-5": 12,
-  "2-1": 2, "2-2": 4, "2-3": 11, "2-4": 15, "2-5": 17,
-  "3-1": 6, "3-2": 10, "3-3": 14, "3-4": 19, "3-5": 21,
-  "4-1": 7, "4-2": 13, "4-3": 18, "4-4": 22, "4-5": 24,
-  "5-1": 8, "5-2": 16, "5-3": 20, "5-4": 23, "5-5": 25,
-};
-
-function getNumericalRL(likelihood: number, consequence: number): number {
-  const key = `${Math.max(1, Math.min(5, likelihood))}-${Math.max(1, Math.min(5, consequence))}`;
-  return NUMERICAL_RL[key] ?? 13;
-}
-
-// Numerical RL (1-25) → low / moderate / high for table cell color (same as matrix cells)
-const RL_LEVEL: Record<number, keyof typeof MATRIX_COLOR> = {};
-const LEVEL_BY_CELL: Record<string, keyof typeof MATRIX_COLOR> = {
-  "1-1": "low", "1-2": "low", "1-3": "low", "1-4": "moderate", "1-5": "moderate",
-  "2-1": "low", "2-2": "low", "2-3": "moderate", "2-4": "moderate", "2-5": "high",
-  "3-1": "low", "3-2": "moderate", "3-3": "moderate", "3-4": "high", "3-5": "high",
-  "4-1": "moderate", "4-2": "moderate", "4-3": "high", "4-4": "high", "4-5": "high",
-  "5-1": "moderate", "5-2": "high", "5-3": "high", "5-4": "high", "5-5": "high",
-};
-(Object.entries(NUMERICAL_RL) as [string, number][]).forEach(([key, rl]) => {
-  RL_LEVEL[rl] = LEVEL_BY_CELL[key] ?? "moderate";
-});
-
-function getRLColor(rl: number): string {
-  return MATRIX_COLOR[RL_LEVEL[rl] ?? "moderate"];
+  /** The entity's risk matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
 }
 
 const OFFSET_X = 12;
@@ -120,17 +70,17 @@ function getOriginalPosition(
 }
 
 type Trend = "up" | "down" | "unchanged";
-function getTrend(r: Risk): Trend {
+function getTrend(r: Risk, matrix: LevelMatrixDefinition): Trend {
   const origL = r.originalLikelihood ?? r.likelihood;
   const origC = r.originalConsequence ?? r.consequence;
-  const origRL = getNumericalRL(origL, origC);
-  const currentRL = getNumericalRL(r.likelihood, r.consequence);
+  const origRL = getCellRank(matrix, origL, origC);
+  const currentRL = getCellRank(matrix, r.likelihood, r.consequence);
   if (currentRL > origRL) return "up";
   if (currentRL < origRL) return "down";
   return "unchanged";
 }
 
-export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportRef }: RiskMatrixProps) {
+export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportRef, matrix = DEFAULT_RISK_MATRIX }: RiskMatrixProps) {
   const categoryLabelMap: Record<string, string> = Object.fromEntries(categories.map((c) => [c.code, c.label]));
   const [showRLNumbers, setShowRLNumbers] = useState(true);
   const [showOriginalLevel, setShowOriginalLevel] = useState(false);
@@ -180,8 +130,11 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
     }
   }
 
+  const cellExposure = (l: number, c: number) => sumExposure((byCell.get(`${l}-${c}`) ?? []).map(riskExposure));
+  const totalExposure = sumExposure(risks.map(riskExposure));
+
   // Risks sorted by RL descending (highest first)
-  const risksSortedByRL = [...risks].sort((a, b) => getNumericalRL(b.likelihood, b.consequence) - getNumericalRL(a.likelihood, a.consequence));
+  const risksSortedByRL = [...risks].sort((a, b) => getCellRank(matrix, b.likelihood, b.consequence) - getCellRank(matrix, a.likelihood, a.consequence));
 
   const exportRef = useRef<HTMLDivElement>(null);
   const handleExportPng = async () => {
@@ -263,7 +216,7 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
               fontSize={10}
               fill="#374151"
             >
-              {CONSEQUENCE_LABELS[c - 1]}
+              {axisLabel(matrix.consequenceLabels, c)}
             </text>
           ))}
           {/* Likelihood labels (y-axis, vertical) */}
@@ -276,7 +229,7 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
                 fontSize={10}
                 fill="#374151"
               >
-                {LIKELIHOOD_LABELS[l - 1]}
+                {axisLabel(matrix.likelihoodLabels, l)}
               </text>
               <text
                 x={padding.left + labelWidth - 8}
@@ -285,7 +238,7 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
                 fontSize={8}
                 fill="#6b7280"
               >
-                {LIKELIHOOD_PERCENT[l - 1]}
+                {matrix.likelihoodDetails[l - 1]}
               </text>
             </g>
           ))}
@@ -294,7 +247,7 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
             [1, 2, 3, 4, 5].map((c) => {
               const key = `${l}-${c}`;
               const occupants = cellOccupants.get(key) ?? [];
-              const rl = getNumericalRL(l, c);
+              const rl = getCellRank(matrix, l, c);
               const x = padding.left + labelWidth + (c - 1) * cellSize;
               const y = padding.top + labelHeight + (5 - l) * cellSize;
               return (
@@ -304,11 +257,17 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
                     y={y + 2}
                     width={cellSize - 4}
                     height={cellSize - 4}
-                    fill={getCellColor(l, c)}
+                    fill={getCellColor(matrix, l, c) + "33"}
                     stroke="#d1d5db"
                     strokeWidth={1}
                     rx={4}
-                  />
+                  >
+                    {occupants.length > 0 && cellExposure(l, c).quantified > 0 && (
+                      <title>
+                        L{l}×C{c}: expected exposure {formatExposure(cellExposure(l, c))}
+                      </title>
+                    )}
+                  </rect>
                   {showRLNumbers && (
                     <text
                       x={x + 10}
@@ -331,13 +290,15 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
                         cx={cx}
                         cy={cy}
                         r={occupants.length > 1 ? 6 : 10}
-                        fill={MATRIX_COLOR[r.riskLevel ?? "moderate"]}
+                        fill={getLevelColor(matrix, r.riskLevel)}
                         stroke="#1f2937"
                         strokeWidth={1}
                         onClick={onSelectRisk ? () => onSelectRisk(r.id) : undefined}
                         style={onSelectRisk ? { cursor: "pointer" } : undefined}
                       >
-                        <title>{r.riskName ? `${r.riskName} — ` : ""}Condition: {r.riskCondition ?? (r as { riskStatement?: string }).riskStatement ?? ""} | If: {r.riskIf ?? ""} | Then: {r.riskThen ?? ""} (L{r.likelihood}×C{r.consequence} → {r.riskLevel ?? "moderate"})</title>
+                        <title>{r.riskName ? `${r.riskName} — ` : ""}Condition: {r.riskCondition ?? (r as { riskStatement?: string }).riskStatement ?? ""} | If: {r.riskIf ?? ""} | Then: {r.riskThen ?? ""} (L{r.likelihood}×C{r.consequence} → {r.riskLevel ?? "moderate"})
+                          {formatExposure(riskExposure(r)) ? ` | Exposure: ${formatExposure(riskExposure(r))}` : ""}
+                        </title>
                       </circle>
                     );
                   })}
@@ -357,6 +318,11 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
               Show original risk level
             </label>
           </div>
+          {totalExposure.quantified > 0 && (
+            <div style={{ fontSize: "0.8125rem", color: "#374151" }}>
+              Total expected exposure: <strong>{formatExposure(totalExposure)}</strong> ({totalExposure.quantified} of {totalExposure.count} risks quantified)
+            </div>
+          )}
         </div>
         {risks.length > 0 && (
           <div style={{ flex: "1 1 320px", minWidth: 0 }}>
@@ -375,10 +341,10 @@ export function RiskMatrix({ categories, orgUnit, risks, onSelectRisk, onExportR
                 </thead>
                 <tbody>
                   {risksSortedByRL.map((r) => {
-                    const trend = getTrend(r);
+                    const trend = getTrend(r, matrix);
                     return (
                     <tr key={r.id} style={{ borderBottom: "1px solid #f3f4f6" }}>
-                      <td style={{ padding: "0.5rem 0.75rem", fontWeight: 600, color: getRLColor(getNumericalRL(r.likelihood, r.consequence)) }}>{getNumericalRL(r.likelihood, r.consequence)}</td>
+                      <td style={{ padding: "0.5rem 0.75rem", fontWeight: 600, color: getRankColor(matrix, getCellRank(matrix, r.likelihood, r.consequence)) }}>{getCellRank(matrix, r.likelihood, r.consequence)}</td>
                       <td style={{ padding: "0.5rem 0.75rem", textAlign: "center" }}>{r.likelihood}</td>
                       <td style={{ padding: "0.5rem 0.75rem", textAlign: "center" }}>{r.consequence}</td>
                       <td style={{ padding: "0.5rem 0.75rem", textAlign: "center", fontSize: "1.1rem" }} title={trend === "up" ? "Increased from original" : trend === "down" ? "Decreased from original" : "Unchanged from original"}>
@@ -1,44 +1,9 @@
 import { useEffect, useState } from "react";
-import type { MitigationStep, Risk } from "../types";
+import type { LevelMatrixDefinition, MitigationStep, Risk } from "../types";
+import { DEFAULT_RISK_MATRIX, axisLabel, getCellColor, getCellRank } from "../utils/levelMatrix";
 
 const API = "/api";
 
-const LIKELIHOOD_LABELS = ["1: Not Likely", "2: Low Likely", "3: Likely", "4: High Likely", "5: Near Certain"];
-const LIKELIHOOD_PERCENT = [">1% to ≤20%", ">20% to ≤40%", ">40% to ≤60%", ">60% to ≤80%", ">80% to ≤99%"];
-const CONSEQUENCE_LABELS = ["1: Minimal", "2: Minor", "3: Moderate", "4: Significant", "5: Severe"];
-
-const MATRIX_COLOR: Record<string, string> = {
-  low: "#22c55e",
-  moderate: "#eab308",
-  high: "#ef4444",
-};
-
-// Numerical risk level 1-25 (same mapping as RiskMatrix / server)
-const NUMERICAL_RL: Record<string, number> = {
-  "1-1": 1, "1-2": 3, "1-3": 5, "1-4": 9, "1-5": 12,
-  "2-1": 2, "2-2": 4, "2-3": 11, "2-4": 15, "2-5": 17,
-  "3-1": 6, "3-2": 10, "3-3": 14, "3-4": 19, "3-5": 21,
-  "4-1": 7, "4-2": 13, "4-3": 18, "4-4": 22, "4-5": 24,
-  "5-1": 8, "5-2": 16, "5-3": 20, "5-4": 23, "5-5": 25,
-};
-
-function getNumericalRL(likelihood: number, consequence: number): number {
-  const key = `${Math.max(1, Math.min(5, likelihood))}-${Math.max(1, Math.min(5, consequence))}`;
-  return NUMERICAL_RL[key] ?? 13;
-}
-
-function getCellColor(l: number, c: number): string {
-  const key = `${Math.max(1, Math.min(5, l))}-${Math.max(1, Math.min(5, c))}`;
-  const levels: Record<string, string> = {
-    "1-1": "low", "1-2": "low", "1-3": "low", "1-4": "moderate", "1-5": "moderate",
-    "2-1": "low", "2-2": "low", "2-3": "moderate", "2-4": "moderate", "2-5": "high",
-    "3-1": "low", "3-2": "moderate", "3-3": "moderate", "3-4": "high", "3-5": "high",
-    "4-1": "moderate", "4-2": "moderate", "4-3": "high", "4-4": "high", "4-5": "high",
-    "5-1": "moderate", "5-2": "high", "5-3": "high", "5-4": "high", "5-5": "high",
-  };
-  return MATRIX_COLOR[levels[key] ?? "moderate"] + "33";
-}
-
 function lcToCoord(l: number, c: number, cellSize: number, padding: { top: number; left: number }, labelWidth: number, labelHeight: number) {
   const x = padding.left + labelWidth + (Math.max(1, Math.min(5, c)) - 0.5) * cellSize;
   const y = padding.top + labelHeight + (5 - Math.max(1, Math.min(5, l))) * cellSize + cellSize / 2;
@@ -53,6 +18,8 @@ interface RiskMitigationMatrixProps {
   showOriginalLxC?: boolean;
   /** When provided, the "Show original L×C" toggle is rendered below the matrix and this is called when it changes. */
   onShowOriginalLxCChange?: (value: boolean) => void;
+  /** The entity's risk matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
 }
 
 interface PointInfo {
@@ -68,7 +35,7 @@ interface PointInfo {
   isOriginalAndCurrent?: boolean;
 }
 
-export function RiskMitigationMatrix({ risk, steps: stepsProp, showOriginalLxC = false, onShowOriginalLxCChange }: RiskMitigationMatrixProps) {
+export function RiskMitigationMatrix({ risk, steps: stepsProp, showOriginalLxC = false, onShowOriginalLxCChange, matrix = DEFAULT_RISK_MATRIX }: RiskMitigationMatrixProps) {
   const [stepsInternal, setStepsInternal] = useState<MitigationStep[]>([]);
   const [loadingInternal, setLoadingInternal] = useState(true);
   const [showRLNumbers, setShowRLNumbers] = useState(true);
@@ -249,16 +216,16 @@ export function RiskMitigationMatrix({ risk, steps: stepsProp, showOriginalLxC =
           </defs>
           {[1, 2, 3, 4, 5].map((c) => (
             <text key={`c-${c}`} x={padding.left + labelWidth + (c - 0.5) * cellSize} y={padding.top + labelHeight - 4} textAnchor="middle" fontSize={10} fill="#374151">
-              {CONSEQUENCE_LABELS[c - 1]}
+              {axisLabel(matrix.consequenceLabels, c)}
             </text>
           ))}
           {[1, 2, 3, 4, 5].map((l) => (
             <g key={`l-${l}`}>
               <text x={padding.left + labelWidth - 8} y={padding.top + labelHeight + (5 - l) * cellSize + cellSize / 2} textAnchor="end" fontSize={10} fill="#374151">
-                {LIKELIHOOD_LABELS[l - 1]}
+                {axisLabel(matrix.likelihoodLabels, l)}
               </text>
               <text x={padding.left + labelWidth - 8} y={padding.top + labelHeight + (5 - l) * cellSize + cellSize / 2 + 12} textAnchor="end" fontSize={8} fill="#6b7280">
-                {LIKELIHOOD_PERCENT[l - 1]}
+                {matrix.likelihoodDetails[l - 1]}
               </text>
             </g>
           ))}
@@ -266,7 +233,7 @@ export function RiskMitigationMatrix({ risk, steps: stepsProp, showOriginalLxC =
             [1, 2, 3, 4, 5].map((c) => {
               const x = padding.left + labelWidth + (c - 1) * cellSize;
               const y = padding.top + labelHeight + (5 - l) * cellSize;
-              const rl = getNumericalRL(l, c);
+              const rl = getCellRank(matrix, l, c);
               return (
                 <g key={`${l}-${c}`}>
                   <rect
@@ -274,7 +241,7 @@ export function RiskMitigationMatrix({ risk, steps: stepsProp, showOriginalLxC =
                     y={y + 2}
                     width={cellSize - 4}
                     height={cellSize - 4}
-                    fill={getCellColor(l, c)}
+                    fill={getCellColor(matrix, l, c) + "33"}
                     stroke="#d1d5db"
                     strokeWidth={1}
                     rx={4}
@@ -1,7 +1,24 @@
-import { useMemo, useRef, useState } from "react";
-import type { Category, OrganizationalUnit, Risk, RiskCategory } from "../types";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Category, CriteriaRubric, LevelMatrixDefinition, OrganizationalUnit, Risk, RiskCategory, TrippedIndicator } from "../types";
 import { exportElementAsPng } from "../utils/exportPng";
+import { NO_OWNER, ownerValueOf } from "../utils/owners";
+import { DEFAULT_RISK_MATRIX, getCellRank, getLevelColor, getLevelLabel } from "../utils/levelMatrix";
+import {
+  changedConsequenceDimensions,
+  formatConsequenceBreakdown,
+  formatConsequenceCompact,
+  NO_CONSEQUENCE_SCORES,
+  pickConsequenceScores,
+  toRubricScores,
+} from "../utils/riskConsequence";
+import { formatExposure, formatQuantifiedImpact, isExposedRisk, NO_QUANTIFIED_IMPACT, pickQuantifiedImpact, riskExposure, sumExposure } from "../utils/exposure";
+import { ConsequenceScoresInput } from "./ConsequenceScoresInput";
 import { MitigationStepsEditor } from "./MitigationStepsEditor";
+import { QuantifiedImpactInput } from "./QuantifiedImpactInput";
+import { OwnerPicker } from "./OwnerPicker";
+import { ReviewOverdueBadge } from "./ReviewOverdueBadge";
+import { RubricGuidance } from "./RubricGuidance";
+import { TrippedIndicatorsPanel } from "./TrippedIndicatorsPanel";
 
 const API = "/api";
 
@@ -12,14 +29,18 @@ interface RiskRegisterProps {
   loading: boolean;
   onUpdate: () => void;
   onSelectRisk?: (riskId: string) => void;
+  /** False for Viewers: hides add/edit controls */
+  canEdit?: boolean;
+  /** The entity's risk matrix (levels, ranks, colors, axis labels) */
+  matrix?: LevelMatrixDefinition;
+  /** The PPD's current criteria rubric, shown as guidance next to the score inputs */
+  rubric?: CriteriaRubric | null;
+  /** Roll-up scope: adds an Org Unit column for items from child units */
+  showOrgUnit?: boolean;
+  /** Roll-up scope: include tripped indicators on child units' risks */
+  includeDescendants?: boolean;
 }
 
-const levelColor: Record<string, string> = {
-  low: "#22c55e",
-  moderate: "#eab308",
-  high: "#ef4444",
-};
-
 const typeLabel: Record<string, string> = {
   program: "Program",
   project: "Project",
@@ -31,22 +52,9 @@ const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBotto
 const btnPrimary = { padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer" as const };
 const btnSecondary = { ...btnPrimary, background: "#6b7280" };
 
-// Numerical RL 1-25 for Level column sort (same mapping as matrix)
-const NUMERICAL_RL: Record<string, number> = {
-  "1-1": 1, "1-2": 3, "1-3": 5, "1-4": 9, "1-5": 12,
-  "2-1": 2, "2-2": 4, "2-3": 11, "2-4": 15, "2-5": 17,
-  "3-1": 6, "3-2": 10, "3-3": 14, "3-4": 19, "3-5": 21,
-  "4-1": 7, "4-2": 13, "4-3": 18, "4-4": 22, "4-5": 24,
-  "5-1": 8, "5-2": 16, "5-3": 20, "5-4": 23, "5-5": 25,
-};
-function getNumericalRL(likelihood: number, consequence: number): number {
-  const key = `${Math.max(1, Math.min(5, likelihood))}-${Math.max(1, Math.min(5, consequence))}`;
-  return NUMERICAL_RL[key] ?? 13;
-}
-
-export type RiskRegisterSortKey = "riskName" | "category" | "likelihood" | "consequence" | "riskLevel" | "status" | "owner" | "lastUpdated";
+export type RiskRegisterSortKey = "riskName" | "orgUnit" | "category" | "likelihood" | "consequence" | "riskLevel" | "exposure" | "status" | "owner" | "lastUpdated";
 
-export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, onSelectRisk }: RiskRegisterProps) {
+export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, onSelectRisk, canEdit = true, matrix = DEFAULT_RISK_MATRIX, rubric, showOrgUnit = false, includeDescendants = false }: RiskRegisterProps) {
   const categoryOptions = categories.map((c) => ({ value: c.code as RiskCategory, label: c.label }));
   const [showAddForm, setShowAddForm] = useState(false);
   const [editing, setEditing] = useState<Risk | null>(null);
@@ -82,11 +90,17 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
           cmp = a.consequence - b.consequence;
           break;
         case "riskLevel":
-          cmp = getNumericalRL(a.likelihood, a.consequence) - getNumericalRL(b.likelihood, b.consequence);
+          cmp = getCellRank(matrix, a.likelihood, a.consequence) - getCellRank(matrix, b.likelihood, b.consequence);
+          break;
+        case "exposure":
+          cmp = (riskExposure(a).cost ?? -1) - (riskExposure(b).cost ?? -1) || (riskExposure(a).scheduleDays ?? -1) - (riskExposure(b).scheduleDays ?? -1);
           break;
         case "status":
           cmp = (a.status ?? "").localeCompare(b.status ?? "", undefined, { sensitivity: "base" });
           break;
+        case "orgUnit":
+          cmp = (a.organizationalUnit?.name ?? "").localeCompare(b.organizationalUnit?.name ?? "", undefined, { sensitivity: "base" });
+          break;
         case "owner":
           cmp = (a.owner ?? "").localeCompare(b.owner ?? "", undefined, { sensitivity: "base" });
           break;
@@ -101,7 +115,7 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
       }
       return cmp * dir;
     });
-  }, [risks, sortBy, sortDir, categoryOptions]);
+  }, [risks, sortBy, sortDir, categoryOptions, matrix]);
 
   const [newRisk, setNewRisk] = useState({
     riskName: "",
@@ -111,8 +125,10 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
     category: "" as RiskCategory | "",
     likelihood: 3,
     consequence: 3,
+    scores: NO_CONSEQUENCE_SCORES,
+    quantified: NO_QUANTIFIED_IMPACT,
     mitigationStrategy: "",
-    owner: "",
+    ...NO_OWNER,
   });
   const [editForm, setEditForm] = useState({
     riskName: "",
@@ -122,10 +138,13 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
     category: "" as RiskCategory | "",
     likelihood: 3,
     consequence: 3,
+    scores: NO_CONSEQUENCE_SCORES,
     likelihoodChangeReason: "",
     consequenceChangeReason: "",
+    consequenceReasons: {} as Record<string, string>,
+    quantified: NO_QUANTIFIED_IMPACT,
     mitigationStrategy: "",
-    owner: "",
+    ...NO_OWNER,
     status: "",
     statusChangeRationale: "",
   });
@@ -145,14 +164,17 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
         category: newRisk.category || null,
         likelihood: newRisk.likelihood,
         consequence: newRisk.consequence,
+        ...newRisk.scores,
+        ...newRisk.quantified,
         mitigationStrategy: newRisk.mitigationStrategy || null,
+        ownerId: newRisk.ownerId,
         owner: newRisk.owner || null,
       }),
     })
       .then((r) => r.json())
       .then(() => {
         setShowAddForm(false);
-        setNewRisk({ riskName: "", riskCondition: "", riskIf: "", riskThen: "", category: "", likelihood: 3, consequence: 3, mitigationStrategy: "", owner: "" });
+        setNewRisk({ riskName: "", riskCondition: "", riskIf: "", riskThen: "", category: "", likelihood: 3, consequence: 3, scores: NO_CONSEQUENCE_SCORES, quantified: NO_QUANTIFIED_IMPACT, mitigationStrategy: "", ...NO_OWNER });
         onUpdate();
       })
       .catch((e) => console.error("Failed to add risk:", e));
@@ -163,11 +185,14 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
     if (!editing) return;
     const lChanged = editForm.likelihood !== editing.likelihood;
     const cChanged = editForm.consequence !== editing.consequence;
+    const dimsChanged = changedConsequenceDimensions(pickConsequenceScores(editing), editForm.scores);
+    const needsConsequenceReason = cChanged && dimsChanged.length === 0;
     const newStatus = editForm.status || editing.status;
     const statusChangingToClosedOrAccepted =
       (newStatus === "closed" || newStatus === "accepted") && newStatus !== editing.status;
     if (lChanged && !editForm.likelihoodChangeReason.trim()) return;
-    if (cChanged && !editForm.consequenceChangeReason.trim()) return;
+    if (needsConsequenceReason && !editForm.consequenceChangeReason.trim()) return;
+    if (dimsChanged.some((d) => !editForm.consequenceReasons[d.reasonField]?.trim())) return;
     if (statusChangingToClosedOrAccepted && !editForm.statusChangeRationale.trim()) return;
     fetch(`${API}/risks/${editing.id}`, {
       method: "PATCH",
@@ -180,9 +205,13 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
         category: editForm.category || null,
         likelihood: editForm.likelihood,
         consequence: editForm.consequence,
+        ...editForm.scores,
+        ...editForm.quantified,
+        ...Object.fromEntries(dimsChanged.map((d) => [d.reasonField, editForm.consequenceReasons[d.reasonField]])),
         likelihoodChangeReason: lChanged ? editForm.likelihoodChangeReason : undefined,
-        consequenceChangeReason: cChanged ? editForm.consequenceChangeReason : undefined,
+        consequenceChangeReason: needsConsequenceReason ? editForm.consequenceChangeReason : undefined,
         mitigationStrategy: editForm.mitigationStrategy || null,
+        ownerId: editForm.ownerId,
         owner: editForm.owner || null,
         status: newStatus,
         statusChangeRationale: statusChangingToClosedOrAccepted ? editForm.statusChangeRationale : undefined,
@@ -207,16 +236,34 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
       category: (r.category as RiskCategory) ?? "",
       likelihood: r.likelihood,
       consequence: r.consequence,
+      scores: pickConsequenceScores(r),
       likelihoodChangeReason: "",
       consequenceChangeReason: "",
+      consequenceReasons: {},
+      quantified: pickQuantifiedImpact(r),
       mitigationStrategy: r.mitigationStrategy ?? "",
-      owner: r.owner ?? "",
+      ...ownerValueOf(r),
       status: r.status,
       statusChangeRationale: "",
     });
   };
 
   const cancelEdit = () => setEditing(null);
+  const exposureTotals = sumExposure(risks.filter(isExposedRisk).map(riskExposure));
+  const [trippedIndicators, setTrippedIndicators] = useState<TrippedIndicator[]>([]);
+
+  /** Reloads with the register so new readings show up; limited to the risks passing the filters. */
+  useEffect(() => {
+    const params = new URLSearchParams({ organizationalUnitId: orgUnit.id });
+    if (includeDescendants) params.set("includeDescendants", "true");
+    fetch(`${API}/risks/indicators/tripped?${params}`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((data: TrippedIndicator[]) => setTrippedIndicators(data))
+      .catch(() => setTrippedIndicators([]));
+  }, [orgUnit.id, includeDescendants, risks]);
+
+  const visibleRiskIds = new Set(risks.map((r) => r.id));
+  const editChangedDimensions = editing ? changedConsequenceDimensions(pickConsequenceScores(editing), editForm.scores) : [];
   const exportRef = useRef<HTMLDivElement>(null);
 
   const handleExportPng = async () => {
@@ -239,16 +286,18 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
           >
             Export PNG
           </button>
-          <button
-            onClick={() => setShowAddForm(!showAddForm)}
-            style={btnPrimary}
-          >
-            {showAddForm ? "Cancel" : "+ Add Risk"}
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowAddForm(!showAddForm)}
+              style={btnPrimary}
+            >
+              {showAddForm ? "Cancel" : "+ Add Risk"}
+            </button>
+          )}
         </div>
       </div>
 
-      {showAddForm && (
+      {canEdit && showAddForm && (
         <form
           onSubmit={handleAddRisk}
           style={{
@@ -330,17 +379,20 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                   style={formInputStyle}
                 />
               </div>
-              <div>
-                <label style={labelStyle}>Consequence (1-5)</label>
-                <input
-                  type="number"
-                  min={1}
-                  max={5}
-                  value={newRisk.consequence}
-                  onChange={(e) => setNewRisk((p) => ({ ...p, consequence: parseInt(e.target.value) || 1 }))}
-                  style={formInputStyle}
-                />
-              </div>
+              <ConsequenceScoresInput
+                scores={newRisk.scores}
+                consequence={newRisk.consequence}
+                onChange={(scores, consequence) => setNewRisk((p) => ({ ...p, scores, consequence }))}
+                inputStyle={formInputStyle}
+                labelStyle={labelStyle}
+              />
+              <RubricGuidance rubric={rubric} likelihood={newRisk.likelihood} consequence={newRisk.consequence} dimensionScores={toRubricScores(newRisk.scores)} />
+              <QuantifiedImpactInput
+                value={newRisk.quantified}
+                onChange={(quantified) => setNewRisk((p) => ({ ...p, quantified }))}
+                inputStyle={formInputStyle}
+                labelStyle={labelStyle}
+              />
             </div>
             <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "1rem" }}>
               <div>
@@ -360,12 +412,7 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
               </div>
               <div>
                 <label style={labelStyle}>Owner</label>
-                <input
-                  value={newRisk.owner}
-                  onChange={(e) => setNewRisk((p) => ({ ...p, owner: e.target.value }))}
-                  placeholder="Name or role"
-                  style={formInputStyle}
-                />
+                <OwnerPicker value={ownerValueOf(newRisk)} onChange={(o) => setNewRisk((p) => ({ ...p, ...o }))} />
               </div>
             </div>
             <p style={{ margin: 0, fontSize: "0.75rem", color: "#6b7280" }}>
@@ -376,6 +423,12 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
         </form>
       )}
 
+      <TrippedIndicatorsPanel
+        indicators={trippedIndicators.filter((i) => visibleRiskIds.has(i.riskId))}
+        onSelect={onSelectRisk ? (i) => onSelectRisk(i.riskId) : undefined}
+        showRisk
+        showOrgUnit={showOrgUnit}
+      />
       {loading ? (
         <p style={{ color: "#6b7280" }}>Loading risks...</p>
       ) : risks.length === 0 ? (
@@ -393,19 +446,30 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
         </div>
       ) : (
         <div style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", overflow: "hidden" }}>
+          {exposureTotals.quantified > 0 && (
+            <div style={{ padding: "0.5rem 1rem", fontSize: "0.8125rem", color: "#374151", background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+              <strong>Expected exposure:</strong> {formatExposure(exposureTotals)}
+              <span style={{ color: "#6b7280" }}>
+                {" "}
+                — {exposureTotals.quantified} of {exposureTotals.count} active risk{exposureTotals.count !== 1 ? "s" : ""} quantified
+              </span>
+            </div>
+          )}
           <table style={{ width: "100%", borderCollapse: "collapse" }}>
             <thead>
               <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
                 {([
                   { key: "riskName" as const, label: "Risk Name", align: "left" as const },
+                  { key: "orgUnit" as const, label: "Org Unit", align: "left" as const },
                   { key: "category" as const, label: "Category", align: "left" as const },
                   { key: "likelihood" as const, label: "L", align: "center" as const },
                   { key: "consequence" as const, label: "C", align: "center" as const },
                   { key: "riskLevel" as const, label: "Level", align: "left" as const },
+                  { key: "exposure" as const, label: "Exposure", align: "right" as const },
                   { key: "status" as const, label: "Status", align: "left" as const },
                   { key: "owner" as const, label: "Owner", align: "left" as const },
                   { key: "lastUpdated" as const, label: "Last Updated", align: "right" as const },
-                ] as const).map(({ key, label, align }) => (
+                ] as const).filter(({ key }) => showOrgUnit || key !== "orgUnit").map(({ key, label, align }) => (
                   <th
                     key={key}
                     style={{
@@ -430,7 +494,7 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
               {sortedRisks.map((r) =>
                 editing?.id === r.id ? (
                   <tr key={r.id} style={{ borderBottom: "1px solid #f3f4f6", background: "#fffbeb" }}>
-                    <td colSpan={8} style={{ padding: "1rem" }}>
+                    <td colSpan={showOrgUnit ? 10 : 9} style={{ padding: "1rem" }}>
                       <form onSubmit={handleEditRisk} style={{ display: "grid", gap: "1rem", maxWidth: 600 }}>
                         <h4 style={{ margin: "0 0 0.5rem" }}>Edit Risk</h4>
                         <div>
@@ -498,18 +562,21 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                               style={formInputStyle}
                             />
                           </div>
-                          <div>
-                            <label style={labelStyle}>Consequence (1-5)</label>
-                            <input
-                              type="number"
-                              min={1}
-                              max={5}
-                              value={editForm.consequence}
-                              onChange={(e) => setEditForm((p) => ({ ...p, consequence: parseInt(e.target.value) || 1 }))}
-                              style={formInputStyle}
-                            />
-                          </div>
-                          {(editForm.likelihood !== editing.likelihood || editForm.consequence !== editing.consequence) && (
+                          <ConsequenceScoresInput
+                            scores={editForm.scores}
+                            consequence={editForm.consequence}
+                            onChange={(scores, consequence) => setEditForm((p) => ({ ...p, scores, consequence }))}
+                            inputStyle={formInputStyle}
+                            labelStyle={labelStyle}
+                          />
+                          <RubricGuidance rubric={rubric} likelihood={editForm.likelihood} consequence={editForm.consequence} dimensionScores={toRubricScores(editForm.scores)} />
+                          <QuantifiedImpactInput
+                            value={editForm.quantified}
+                            onChange={(quantified) => setEditForm((p) => ({ ...p, quantified }))}
+                            inputStyle={formInputStyle}
+                            labelStyle={labelStyle}
+                          />
+                          {(editForm.likelihood !== editing.likelihood || editForm.consequence !== editing.consequence || editChangedDimensions.length > 0) && (
                             <div style={{ gridColumn: "1 / -1", background: "#fef9c3", padding: "0.75rem", borderRadius: 6, border: "1px solid #facc15" }}>
                               <div style={{ fontSize: "0.75rem", marginBottom: "0.5rem", fontWeight: 600 }}>Change log required</div>
                               {editForm.likelihood !== editing.likelihood && (
@@ -523,7 +590,7 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                                   />
                                 </div>
                               )}
-                              {editForm.consequence !== editing.consequence && (
+                              {editForm.consequence !== editing.consequence && editChangedDimensions.length === 0 && (
                                 <div>
                                   <label style={labelStyle}>Reason Consequence changed *</label>
                                   <input
@@ -534,6 +601,17 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                                   />
                                 </div>
                               )}
+                              {editChangedDimensions.map((d) => (
+                                <div key={d.field} style={{ marginBottom: "0.5rem" }}>
+                                  <label style={labelStyle}>Reason {d.label} consequence changed *</label>
+                                  <input
+                                    value={editForm.consequenceReasons[d.reasonField] ?? ""}
+                                    onChange={(e) => setEditForm((p) => ({ ...p, consequenceReasons: { ...p.consequenceReasons, [d.reasonField]: e.target.value } }))}
+                                    placeholder={`Explain why the ${d.label.toLowerCase()} consequence changed`}
+                                    style={{ ...formInputStyle, width: "100%" }}
+                                  />
+                                </div>
+                              ))}
                             </div>
                           )}
                           <div>
@@ -581,11 +659,7 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                           </div>
                           <div>
                             <label style={labelStyle}>Owner</label>
-                            <input
-                              value={editForm.owner}
-                              onChange={(e) => setEditForm((p) => ({ ...p, owner: e.target.value }))}
-                              style={formInputStyle}
-                            />
+                            <OwnerPicker value={ownerValueOf(editForm)} onChange={(o) => setEditForm((p) => ({ ...p, ...o }))} />
                           </div>
                         </div>
                         <div style={{ display: "flex", gap: "0.5rem" }}>
@@ -601,7 +675,7 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", maxWidth: 280 }} title={[r.riskCondition ?? (r as { riskStatement?: string }).riskStatement, r.riskIf, r.riskThen].filter(Boolean).join(" → ")}>
                       <button
                         type="button"
-                        onClick={() => (onSelectRisk ? onSelectRisk(r.id) : startEdit(r))}
+                        onClick={() => (onSelectRisk ? onSelectRisk(r.id) : canEdit && startEdit(r))}
                         style={{ background: "none", border: "none", padding: 0, cursor: "pointer", textAlign: "left", font: "inherit", color: "inherit", textDecoration: "underline" }}
                       >
                         <strong>{(() => {
@@ -609,6 +683,15 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                           return `${n.slice(0, 60)}${n.length > 60 ? "…" : ""}`;
                         })()}</strong>
                       </button>
+                      {(r.trippedIndicatorCount ?? 0) > 0 && (
+                        <span
+                          title={`${r.trippedIndicatorCount} early-warning indicator${r.trippedIndicatorCount !== 1 ? "s" : ""} tripped`}
+                          style={{ marginLeft: "0.4rem", fontSize: "0.7rem", fontWeight: 600, padding: "0.1rem 0.4rem", borderRadius: 9999, background: "#fee2e2", color: "#b91c1c" }}
+                        >
+                          ⚠ {r.trippedIndicatorCount}
+                        </span>
+                      )}
+                      <ReviewOverdueBadge item={r} />
                       <div style={{ fontSize: "0.75rem", marginTop: "0.2rem", color: "#6b7280" }}>
                         Condition: {(() => {
                           const c = r.riskCondition ?? (r as { riskStatement?: string }).riskStatement ?? "";
@@ -616,11 +699,19 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                         })()}
                       </div>
                     </td>
+                    {showOrgUnit && (
+                      <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>{r.organizationalUnit?.name ?? "—"}</td>
+                    )}
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>
                       {r.category ? categoryOptions.find((c) => c.value === r.category)?.label ?? r.category : "—"}
                     </td>
                     <td style={{ padding: "0.75rem 1rem", textAlign: "center", fontSize: "0.875rem" }}>{r.likelihood}</td>
-                    <td style={{ padding: "0.75rem 1rem", textAlign: "center", fontSize: "0.875rem" }}>{r.consequence}</td>
+                    <td style={{ padding: "0.75rem 1rem", textAlign: "center", fontSize: "0.875rem" }} title={formatConsequenceBreakdown(r) || undefined}>
+                      {r.consequence}
+                      {formatConsequenceBreakdown(r) && (
+                        <div style={{ fontSize: "0.7rem", color: "#6b7280", whiteSpace: "nowrap" }}>{formatConsequenceCompact(r)}</div>
+                      )}
+                    </td>
                     <td style={{ padding: "0.75rem 1rem" }}>
                       <span
                         style={{
@@ -629,14 +720,16 @@ export function RiskRegister({ categories, orgUnit, risks, loading, onUpdate, on
                           borderRadius: 4,
                           fontSize: "0.75rem",
                           fontWeight: 600,
-                          background: levelColor[r.riskLevel ?? "moderate"] + "22",
-                          color: levelColor[r.riskLevel ?? "moderate"],
-                          textTransform: "capitalize",
+                          background: getLevelColor(matrix, r.riskLevel) + "22",
+                          color: getLevelColor(matrix, r.riskLevel),
                         }}
                       >
-                        {r.riskLevel ?? "—"}
+                        {getLevelLabel(matrix, r.riskLevel)}
                       </span>
                     </td>
+                    <td style={{ padding: "0.75rem 1rem", textAlign: "right", fontSize: "0.8125rem", whiteSpace: "nowrap" }} title={formatQuantifiedImpact(r) || undefined}>
+                      {formatExposure(riskExposure(r)) || <span style={{ color: "#9ca3af" }}>—</span>}
+                    </td>
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", textTransform: "capitalize" }}>{r.status}</td>
                     <td style={{ padding: "0.75rem 1rem", fontSize: "0.875rem", color: "#6b7280" }}>{r.owner ?? "—"}</td>
                     <td style={{ padding: "0.75rem 1rem", textAlign: "right", fontSize: "0.8125rem", color: "#6b7280" }}>
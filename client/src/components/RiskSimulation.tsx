@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState, type ReactElement } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { OrganizationalUnit, Risk, RiskSimulationResult, SimulationDistribution } from "../types";
+import { exportElementAsPng } from "../utils/exportPng";
+import { formatCurrency, formatDays } from "../utils/exposure";
+
+const API = "/api";
+
+const ITERATION_OPTIONS = [1000, 5000, 10000, 50000];
+const TORNADO_SIZE = 8;
+
+/** GET /api/risks/simulation for an org unit (and its child units with `includeDescendants`); null on failure. */
+export async function fetchRiskSimulation(
+  organizationalUnitId: string,
+  options: { iterations?: number; seed?: number; includeDescendants?: boolean } = {}
+): Promise<RiskSimulationResult | null> {
+  const params = new URLSearchParams({ organizationalUnitId });
+  if (options.iterations != null) params.set("iterations", String(options.iterations));
+  if (options.seed != null) params.set("seed", String(options.seed));
+  if (options.includeDescendants) params.set("includeDescendants", "true");
+  try {
+    const r = await fetch(`${API}/risks/simulation?${params}`);
+    return r.ok ? await r.json() : null;
+  } catch {
+    return null;
+  }
+}
+
+interface RiskSimulationChartsProps {
+  result: RiskSimulationResult;
+  /** Fixed chart width (report capture); responsive when omitted */
+  width?: number;
+}
+
+/** S-curve and tornado for one dimension. */
+function DistributionCharts({ title, dist, format, width }: { title: string; dist: SimulationDistribution; format: (n: number) => string; width?: number }) {
+  const frame = (height: number, chart: ReactElement) =>
+    width ? (
+      <div style={{ width, height }}>{chart}</div>
+    ) : (
+      <div style={{ width: "100%", height }}>
+        <ResponsiveContainer>{chart}</ResponsiveContainer>
+      </div>
+    );
+  const tornado = dist.tornado.slice(0, TORNADO_SIZE).map((t) => ({ ...t, share: Math.round(t.varianceShare * 1000) / 10 }));
+  const chartWidth = width ? width / 2 - 8 : undefined;
+
+  return (
+    <div>
+      <h4 style={{ margin: "0 0 0.25rem", fontSize: "0.9375rem", fontWeight: 600 }}>{title}</h4>
+      <p style={{ margin: "0 0 0.5rem", fontSize: "0.8125rem", color: "#374151" }}>
+        P50 <strong>{format(dist.p50)}</strong> · P80 <strong>{format(dist.p80)}</strong> · Mean {format(dist.mean)} · Range {format(dist.min)}–{format(dist.max)}
+      </p>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "1rem" }}>
+        {frame(
+          260,
+          <LineChart width={chartWidth} height={260} data={dist.curve} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="value" type="number" domain={["dataMin", "dataMax"]} tick={{ fontSize: 11 }} tickFormatter={format} />
+            <YAxis dataKey="percentile" domain={[0, 100]} tick={{ fontSize: 11 }} tickFormatter={(p) => `${p}%`} />
+            <Tooltip formatter={(_v, _n, item) => [`${item.payload.percentile}% ≤ ${format(item.payload.value)}`, "Confidence"]} labelFormatter={() => ""} />
+            <ReferenceLine y={50} stroke="#9ca3af" strokeDasharray="4 2" label={{ value: "P50", fontSize: 10, position: "insideTopLeft" }} />
+            <ReferenceLine y={80} stroke="#d97706" strokeDasharray="4 2" label={{ value: "P80", fontSize: 10, position: "insideTopLeft" }} />
+            <Line type="monotone" dataKey="percentile" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        )}
+        {frame(
+          260,
+          <BarChart width={chartWidth} height={260} data={tornado} layout="vertical" margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis type="number" tick={{ fontSize: 11 }} tickFormatter={(v) => `${v}%`} />
+            <YAxis
+              type="category"
+              dataKey="riskName"
+              width={140}
+              tick={{ fontSize: 10 }}
+              tickFormatter={(n: string) => (n.length > 24 ? `${n.slice(0, 24)}…` : n)}
+            />
+            <Tooltip formatter={(v, _n, item) => [`${v}% of variance · expected ${format(item.payload.meanImpact)}`, "Contribution"]} />
+            <Bar dataKey="share" fill="#d97706" isAnimationActive={false} />
+          </BarChart>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Cost and schedule S-curves with P50/P80 and tornado rankings. Also rendered off-screen for the report. */
+export function RiskSimulationCharts({ result, width }: RiskSimulationChartsProps) {
+  if (result.riskCount === 0) {
+    return (
+      <p style={{ margin: 0, padding: "1.5rem", color: "#6b7280", textAlign: "center" }}>
+        No quantified risks to simulate. Give open risks a probability and a cost or schedule impact range.
+      </p>
+    );
+  }
+  return (
+    <div style={{ display: "grid", gap: "1.5rem" }}>
+      {result.cost && <DistributionCharts title="Cost exposure" dist={result.cost} format={formatCurrency} width={width} />}
+      {result.schedule && <DistributionCharts title="Schedule exposure" dist={result.schedule} format={formatDays} width={width} />}
+    </div>
+  );
+}
+
+interface RiskSimulationProps {
+  orgUnit: OrganizationalUnit;
+  /** Re-runs when the risks change */
+  risks: Risk[];
+  /** Roll-up scope: also simulate the risks of the unit's child units */
+  includeDescendants?: boolean;
+}
+
+/** Monte Carlo tab: runs the server-side simulation for the selected org unit. */
+export function RiskSimulation({ orgUnit, risks, includeDescendants = false }: RiskSimulationProps) {
+  const [iterations, setIterations] = useState(5000);
+  const [result, setResult] = useState<RiskSimulationResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [runCount, setRunCount] = useState(0);
+  const exportRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchRiskSimulation(orgUnit.id, { iterations, includeDescendants })
+      .then(setResult)
+      .finally(() => setLoading(false));
+  }, [orgUnit.id, iterations, risks, runCount, includeDescendants]);
+
+  const handleExportPng = async () => {
+    if (!exportRef.current) return;
+    const safe = (orgUnit.name ?? "export").replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 40);
+    await exportElementAsPng(exportRef.current, `Risk-Simulation-${safe}.png`);
+  };
+
+  return (
+    <div ref={exportRef} style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", padding: "1rem" }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.5rem", flexWrap: "wrap", gap: "0.5rem" }}>
+        <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Cost &amp; Schedule Risk Simulation (Monte Carlo)</h3>
+        <div style={{ display: "flex", gap: "0.5rem", alignItems: "center" }}>
+          <select
+            value={iterations}
+            onChange={(e) => setIterations(Number(e.target.value))}
+            style={{ padding: "0.4rem", borderRadius: 6, border: "1px solid #d1d5db", fontSize: "0.875rem" }}
+          >
+            {ITERATION_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                {n.toLocaleString()} iterations
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setRunCount((c) => c + 1)}
+            disabled={loading}
+            style={{ padding: "0.5rem 1rem", background: "#2563eb", color: "white", border: "none", borderRadius: 6, cursor: "pointer", fontSize: "0.875rem" }}
+          >
+            Re-run
+          </button>
+          <button
+            type="button"
+            onClick={handleExportPng}
+            style={{ padding: "0.5rem 1rem", background: "#6b7280", color: "white", border: "none", borderRadius: 6, cursor: "pointer", fontSize: "0.875rem" }}
+            title="Export as PNG (16:9)"
+          >
+            Export PNG
+          </button>
+        </div>
+      </div>
+      <p style={{ margin: "0 0 1rem", fontSize: "0.75rem", color: "#6b7280" }}>
+        Each iteration samples whether every open, mitigating or accepted risk occurs (its probability) and, if so, a cost and schedule impact
+        uniformly within its range. The S-curve shows the confidence of staying within each total; the tornado ranks the risks that drive its
+        spread.
+        {result && ` ${result.riskCount} risk${result.riskCount !== 1 ? "s" : ""} · seed ${result.seed}`}
+      </p>
+      {loading && !result && <p style={{ color: "#6b7280" }}>Running simulation…</p>}
+      {!loading && !result && <p style={{ color: "#b91c1c" }}>Failed to run the simulation.</p>}
+      {result && <RiskSimulationCharts result={result} />}
+    </div>
+  );
+}
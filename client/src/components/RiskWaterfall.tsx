@@ -10,21 +10,17 @@ import {
   Legend,
   ReferenceArea,
 } from "recharts";
-import type { OrganizationalUnit, Risk } from "../types";
+import type { LevelMatrixDefinition, OrganizationalUnit, Risk } from "../types";
+import { DEFAULT_RISK_MATRIX, getRankBands } from "../utils/levelMatrix";
 
 const API = "/api";
 
-// RL bands consistent with 5x5 matrix: low (green), moderate (yellow), high (red)
-const RL_BANDS = [
-  { y1: 1, y2: 6.5, fill: "#22c55e33" },   // low: RL 1-6
-  { y1: 6.5, y2: 16.5, fill: "#eab30833" }, // moderate: RL 7-16
-  { y1: 16.5, y2: 25, fill: "#ef444433" },  // high: RL 17-25
-];
-
 interface RiskWaterfallProps {
   orgUnit: OrganizationalUnit;
   risks: Risk[];
   preselectedRiskId?: string;
+  /** The entity's risk matrix; background bands follow its levels */
+  matrix?: LevelMatrixDefinition;
 }
 
 interface WaterfallPoint {
@@ -44,7 +40,7 @@ interface WaterfallPoint {
   actualIsOriginal?: boolean;
 }
 
-export function RiskWaterfall({ orgUnit: _orgUnit, risks, preselectedRiskId }: RiskWaterfallProps) {
+export function RiskWaterfall({ orgUnit: _orgUnit, risks, preselectedRiskId, matrix = DEFAULT_RISK_MATRIX }: RiskWaterfallProps) {
   const [selectedRiskId, setSelectedRiskId] = useState<string>(preselectedRiskId ?? "");
   const [data, setData] = useState<WaterfallPoint[]>([]);
   const [loading, setLoading] = useState(false);
@@ -163,7 +159,7 @@ export function RiskWaterfall({ orgUnit: _orgUnit, risks, preselectedRiskId }: R
           </div>
           <ResponsiveContainer>
             <LineChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
-              {RL_BANDS.map((band, i) => (
+              {getRankBands(matrix).map((band, i) => (
                 <ReferenceArea key={i} y1={band.y1} y2={band.y2} fill={band.fill} />
               ))}
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
@@ -0,0 +1,48 @@
+import type { CriteriaRubric, RubricDimension } from "../types";
+
+const DIMENSION_LABELS: Record<RubricDimension, string> = { cost: "Cost", schedule: "Schedule", performance: "Performance" };
+const DIMENSIONS = Object.keys(DIMENSION_LABELS) as RubricDimension[];
+
+interface RubricGuidanceProps {
+  /** The PPD's current rubric; nothing is shown when it has none */
+  rubric: CriteriaRubric | null | undefined;
+  /** Selected likelihood (omit for issues, whose likelihood is fixed) */
+  likelihood?: number;
+  /** Selected consequence (risks, issues) or impact (opportunities) */
+  consequence: number;
+  consequenceKind?: "consequence" | "impact";
+  /** Per-dimension scores (risks rated by cost/schedule/performance); unrated dimensions use `consequence` */
+  dimensionScores?: Partial<Record<RubricDimension, number | null>>;
+}
+
+/** Criteria for the selected scores, shown under the L/C inputs in add and edit forms. */
+export function RubricGuidance({ rubric, likelihood, consequence, consequenceKind = "consequence", dimensionScores }: RubricGuidanceProps) {
+  if (!rubric) return null;
+  const d = rubric.definition;
+  const likelihoodText = likelihood != null ? d.likelihood[likelihood - 1] : "";
+  const consequenceRows = DIMENSIONS.map((dim) => {
+    const score = dimensionScores?.[dim] ?? consequence;
+    return { dim, score, text: d[consequenceKind][dim][score - 1] };
+  }).filter((r) => r.text);
+  if (!likelihoodText && consequenceRows.length === 0) return null;
+  const consequenceLabel = consequenceKind === "impact" ? "Impact" : "Consequence";
+
+  return (
+    <div style={{ gridColumn: "1 / -1", padding: "0.5rem 0.75rem", background: "#f8fafc", border: "1px solid #e2e8f0", borderRadius: 6, fontSize: "0.75rem", color: "#374151" }}>
+      <div style={{ fontWeight: 600, color: "#6b7280", marginBottom: "0.25rem" }}>Criteria (rubric v{rubric.version})</div>
+      {likelihoodText && (
+        <div>
+          <strong>Likelihood {likelihood}:</strong> {likelihoodText}
+        </div>
+      )}
+      {consequenceRows.map((r) => (
+        <div key={r.dim}>
+          <strong>
+            {consequenceLabel} {r.score} · {DIMENSION_LABELS[r.dim]}:
+          </strong>{" "}
+          {r.text}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useState, useEffect } from "react";
+import type { ApiKeySummary, LegalEntity, ServiceAccount, UserRole } from "../types";
+import { ROLE_LABELS } from "../utils/permissions";
+
+const API = "/api";
+
+const formInputStyle = {
+  width: "100%" as const,
+  padding: "0.5rem",
+  borderRadius: 6,
+  border: "1px solid #d1d5db",
+};
+const labelStyle = { display: "block" as const, fontSize: "0.75rem", marginBottom: "0.25rem", color: "#374151" };
+const btnPrimary = {
+  padding: "0.5rem 1rem",
+  background: "#2563eb",
+  color: "white",
+  border: "none",
+  borderRadius: 6,
+  cursor: "pointer" as const,
+  fontSize: "0.875rem",
+};
+const btnDanger = { ...btnPrimary, background: "#dc2626" };
+const btnSecondary = { ...btnPrimary, background: "#6b7280" };
+const btnSmall = { padding: "0.25rem 0.5rem", fontSize: "0.75rem" };
+
+type AccessRow = { organizationalUnitId: string; role: UserRole };
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+function jsonOrError<T>(r: Response, fallback: string): Promise<T> {
+  if (!r.ok) return r.json().then((err: { error?: string }) => Promise.reject(new Error(err?.error ?? fallback)));
+  return r.json();
+}
+
+/** Settings → Service Accounts: non-human users for scripts, with scoped access and revocable API keys. */
+export function ServiceAccountManager({ legalEntities }: { legalEntities: LegalEntity[] }) {
+  const [accounts, setAccounts] = useState<ServiceAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [addForm, setAddForm] = useState({ name: "", isAdmin: false });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [access, setAccess] = useState<AccessRow[]>([]);
+  const [accessIsAdmin, setAccessIsAdmin] = useState(false);
+  const [grant, setGrant] = useState<{ legalEntityId: string; organizationalUnitId: string; role: UserRole }>({
+    legalEntityId: "",
+    organizationalUnitId: "",
+    role: "viewer",
+  });
+  const [keyName, setKeyName] = useState("");
+  const [newKey, setNewKey] = useState<ApiKeySummary | null>(null);
+
+  const load = () => {
+    setLoading(true);
+    fetch(`${API}/service-accounts`)
+      .then((r) => r.json())
+      .then(setAccounts)
+      .catch((e) => console.error("Failed to load service accounts:", e))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(load, []);
+
+  const selected = accounts.find((a) => a.id === selectedId) ?? null;
+  const unitsById = new Map(legalEntities.flatMap((le) => le.organizationalUnits.map((ou) => [ou.id, { ou, le }] as const)));
+  const grantUnits = legalEntities.find((le) => le.id === grant.legalEntityId)?.organizationalUnits ?? [];
+
+  const openAccount = (account: ServiceAccount) => {
+    setSelectedId(account.id);
+    setAccess(account.permissions.map((p) => ({ organizationalUnitId: p.organizationalUnitId, role: p.role })));
+    setAccessIsAdmin(account.isAdmin);
+    setKeyName("");
+    setNewKey(null);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nameStr = addForm.name.trim();
+    if (!nameStr) {
+      alert("Please enter a name.");
+      return;
+    }
+    fetch(`${API}/service-accounts`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: nameStr, isAdmin: addForm.isAdmin, permissions: [] }),
+    })
+      .then((r) => jsonOrError<ServiceAccount>(r, "Failed to add"))
+      .then((account) => {
+        setShowAddForm(false);
+        setAddForm({ name: "", isAdmin: false });
+        setAccounts((prev) => [...prev, account].sort((a, b) => a.displayName.localeCompare(b.displayName)));
+        openAccount(account);
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to add service account");
+      });
+  };
+
+  const handleAddGrant = () => {
+    if (!grant.organizationalUnitId) return;
+    setAccess((prev) => [...prev.filter((a) => a.organizationalUnitId !== grant.organizationalUnitId), { organizationalUnitId: grant.organizationalUnitId, role: grant.role }]);
+    setGrant((g) => ({ ...g, organizationalUnitId: "" }));
+  };
+
+  const handleSaveAccess = () => {
+    if (!selected) return;
+    fetch(`${API}/service-accounts/${selected.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ isAdmin: accessIsAdmin, permissions: access }),
+    })
+      .then((r) => jsonOrError<ServiceAccount>(r, "Failed to update"))
+      .then((account) => setAccounts((prev) => prev.map((a) => (a.id === account.id ? account : a))))
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to update service account");
+      });
+  };
+
+  const handleDelete = (account: ServiceAccount) => {
+    if (!confirm(`Delete service account "${account.displayName}"? Its API keys stop working immediately.`)) return;
+    fetch(`${API}/service-accounts/${account.id}`, { method: "DELETE" })
+      .then((r) => {
+        if (r.status !== 204) return r.json().then((err) => Promise.reject(new Error(err?.error ?? "Delete failed")));
+        if (selectedId === account.id) setSelectedId(null);
+        load();
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to delete service account");
+      });
+  };
+
+  const handleCreateKey = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    const nameStr = keyName.trim();
+    if (!nameStr) {
+      alert("Please name the key (e.g. where it is used).");
+      return;
+    }
+    fetch(`${API}/service-accounts/${selected.id}/keys`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: nameStr }),
+    })
+      .then((r) => jsonOrError<ApiKeySummary>(r, "Failed to create key"))
+      .then((created) => {
+        setKeyName("");
+        setNewKey(created);
+        load();
+      })
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to create API key");
+      });
+  };
+
+  const handleRevokeKey = (key: ApiKeySummary) => {
+    if (!selected) return;
+    if (!confirm(`Revoke key "${key.name}" (${key.prefix}…)? Scripts using it will get 401 responses.`)) return;
+    fetch(`${API}/service-accounts/${selected.id}/keys/${key.id}`, { method: "DELETE" })
+      .then((r) => jsonOrError<ApiKeySummary>(r, "Failed to revoke"))
+      .then(() => load())
+      .catch((e) => {
+        console.error(e);
+        alert(e.message || "Failed to revoke API key");
+      });
+  };
+
+  const describeAccess = (account: ServiceAccount) => {
+    if (account.isAdmin) return "Global Admin";
+    if (account.permissions.length === 0) return "No access";
+    return account.permissions.map((p) => `${p.organizationalUnit.legalEntity.code} / ${p.organizationalUnit.name} (${ROLE_LABELS[p.role]})`).join(", ");
+  };
+
+  return (
+    <section style={{ background: "white", borderRadius: 8, border: "1px solid #e5e7eb", overflow: "hidden" }}>
+      <div style={{ padding: "1rem 1.25rem", borderBottom: "1px solid #e5e7eb", display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: "0.5rem" }}>
+        <div>
+          <h3 style={{ margin: 0, fontSize: "1rem", fontWeight: 600 }}>Service Accounts</h3>
+          <p style={{ margin: "0.25rem 0 0", fontSize: "0.75rem", color: "#6b7280" }}>
+            API access for scripts and integrations. Changes they make are attributed to the account and key in audit logs.
+          </p>
+        </div>
+        {!showAddForm && (
+          <button type="button" onClick={() => setShowAddForm(true)} style={btnPrimary}>
+            Add service account
+          </button>
+        )}
+      </div>
+
+      {showAddForm && (
+        <form onSubmit={handleAdd} style={{ padding: "1rem 1.25rem", borderBottom: "1px solid #e5e7eb", display: "flex", flexWrap: "wrap", gap: "1rem", alignItems: "flex-end" }}>
+          <div style={{ minWidth: 220 }}>
+            <label style={labelStyle}>Name (e.g. Nightly reporting)</label>
+            <input type="text" value={addForm.name} onChange={(e) => setAddForm((p) => ({ ...p, name: e.target.value }))} style={formInputStyle} />
+          </div>
+          <label style={{ display: "flex", alignItems: "center", gap: "0.375rem", fontSize: "0.875rem" }}>
+            <input type="checkbox" checked={addForm.isAdmin} onChange={(e) => setAddForm((p) => ({ ...p, isAdmin: e.target.checked }))} />
+            Global Admin
+          </label>
+          <button type="submit" style={btnPrimary}>Add</button>
+          <button type="button" onClick={() => { setShowAddForm(false); setAddForm({ name: "", isAdmin: false }); }} style={btnSecondary}>Cancel</button>
+        </form>
+      )}
+
+      {loading ? (
+        <p style={{ padding: "1rem", color: "#6b7280" }}>Loading service accounts...</p>
+      ) : accounts.length === 0 ? (
+        <p style={{ padding: "1rem", color: "#6b7280", fontSize: "0.875rem" }}>No service accounts.</p>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.875rem" }}>
+            <thead>
+              <tr style={{ background: "#f9fafb", borderBottom: "1px solid #e5e7eb" }}>
+                <th style={{ padding: "0.75rem 1rem", textAlign: "left", fontWeight: 600, color: "#6b7280" }}>Name</th>
+                <th style={{ padding: "0.75rem 1rem", textAlign: "left", fontWeight: 600, color: "#6b7280" }}>Access</th>
+                <th style={{ padding: "0.75rem 1rem", textAlign: "left", fontWeight: 600, color: "#6b7280" }}>Active keys</th>
+                <th style={{ padding: "0.75rem 1rem", textAlign: "right", fontWeight: 600, color: "#6b7280" }}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {accounts.map((a) => (
+                <tr key={a.id} style={{ borderBottom: "1px solid #f3f4f6", background: a.id === selectedId ? "#eff6ff" : undefined }}>
+                  <td style={{ padding: "0.75rem 1rem" }}>
+                    <button
+                      type="button"
+                      onClick={() => (a.id === selectedId ? setSelectedId(null) : openAccount(a))}
+                      style={{ background: "none", border: "none", padding: 0, cursor: "pointer", color: "#2563eb", textDecoration: "underline", fontSize: "inherit" }}
+                    >
+                      {a.displayName}
+                    </button>
+                  </td>
+                  <td style={{ padding: "0.75rem 1rem", color: "#374151" }}>{describeAccess(a)}</td>
+                  <td style={{ padding: "0.75rem 1rem" }}>{a.apiKeys.filter((k) => !k.revokedAt).length}</td>
+                  <td style={{ padding: "0.75rem 1rem", textAlign: "right" }}>
+                    <button type="button" onClick={() => handleDelete(a)} style={{ ...btnDanger, ...btnSmall }}>Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && (
+        <div style={{ padding: "1rem 1.25rem", borderTop: "1px solid #e5e7eb", display: "flex", flexDirection: "column", gap: "1.25rem" }}>
+          <div>
+            <h4 style={{ margin: "0 0 0.5rem", fontSize: "0.9375rem" }}>Access for {selected.displayName}</h4>
+            <label style={{ display: "flex", alignItems: "center", gap: "0.375rem", fontSize: "0.875rem", marginBottom: "0.75rem" }}>
+              <input type="checkbox" checked={accessIsAdmin} onChange={(e) => setAccessIsAdmin(e.target.checked)} />
+              Global Admin (full access to every Entity and PPD)
+            </label>
+            {!accessIsAdmin && (
+              <>
+                {access.length === 0 ? (
+                  <p style={{ margin: "0 0 0.75rem", fontSize: "0.8125rem", color: "#6b7280" }}>No PPD access granted.</p>
+                ) : (
+                  <ul style={{ margin: "0 0 0.75rem", paddingLeft: 0, listStyle: "none", fontSize: "0.8125rem" }}>
+                    {access.map((row) => {
+                      const entry = unitsById.get(row.organizationalUnitId);
+                      return (
+                        <li key={row.organizationalUnitId} style={{ display: "flex", alignItems: "center", gap: "0.5rem", marginBottom: "0.25rem" }}>
+                          <span style={{ flex: 1 }}>{entry ? `${entry.le.name} / ${entry.ou.name}` : row.organizationalUnitId}</span>
+                          <select
+                            value={row.role}
+                            onChange={(e) => setAccess((prev) => prev.map((p) => (p.organizationalUnitId === row.organizationalUnitId ? { ...p, role: e.target.value as UserRole } : p)))}
+                            style={{ ...formInputStyle, width: "auto" }}
+                          >
+                            {(Object.keys(ROLE_LABELS) as UserRole[]).map((r) => (
+                              <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                            ))}
+                          </select>
+                          <button type="button" onClick={() => setAccess((prev) => prev.filter((p) => p.organizationalUnitId !== row.organizationalUnitId))} style={{ ...btnSecondary, ...btnSmall }}>
+                            Remove
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", alignItems: "flex-end", marginBottom: "0.75rem" }}>
+                  <div style={{ minWidth: 160 }}>
+                    <label style={labelStyle}>Entity</label>
+                    <select value={grant.legalEntityId} onChange={(e) => setGrant((g) => ({ ...g, legalEntityId: e.target.value, organizationalUnitId: "" }))} style={formInputStyle}>
+                      <option value="">Select…</option>
+                      {legalEntities.map((le) => (
+                        <option key={le.id} value={le.id}>{le.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div style={{ minWidth: 160 }}>
+                    <label style={labelStyle}>Program / Project / Department</label>
+                    <select value={grant.organizationalUnitId} onChange={(e) => setGrant((g) => ({ ...g, organizationalUnitId: e.target.value }))} style={formInputStyle} disabled={!grant.legalEntityId}>
+                      <option value="">Select…</option>
+                      {grantUnits.map((ou) => (
+                        <option key={ou.id} value={ou.id}>{ou.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label style={labelStyle}>Role</label>
+                    <select value={grant.role} onChange={(e) => setGrant((g) => ({ ...g, role: e.target.value as UserRole }))} style={formInputStyle}>
+                      {(Object.keys(ROLE_LABELS) as UserRole[]).map((r) => (
+                        <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button type="button" onClick={handleAddGrant} disabled={!grant.organizationalUnitId} style={btnSecondary}>Add</button>
+                </div>
+              </>
+            )}
+            <button type="button" onClick={handleSaveAccess} style={btnPrimary}>Save access</button>
+          </div>
+
+          <div>
+            <h4 style={{ margin: "0 0 0.5rem", fontSize: "0.9375rem" }}>API keys</h4>
+            {newKey?.key && (
+              <div style={{ padding: "0.75rem", marginBottom: "0.75rem", background: "#fffbeb", border: "1px solid #fcd34d", borderRadius: 6, fontSize: "0.8125rem" }}>
+                <strong>Copy this key now — it will not be shown again.</strong>
+                <code style={{ display: "block", marginTop: "0.5rem", wordBreak: "break-all", userSelect: "all" }}>{newKey.key}</code>
+                <p style={{ margin: "0.5rem 0 0", color: "#6b7280" }}>
+                  Send it as <code>Authorization: Bearer &lt;key&gt;</code> or <code>X-API-Key: &lt;key&gt;</code>.
+                </p>
+              </div>
+            )}
+            <form onSubmit={handleCreateKey} style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem", alignItems: "flex-end", marginBottom: "0.75rem" }}>
+              <div style={{ minWidth: 220 }}>
+                <label style={labelStyle}>Key name (e.g. CI backfill job)</label>
+                <input type="text" value={keyName} onChange={(e) => setKeyName(e.target.value)} style={formInputStyle} />
+              </div>
+              <button type="submit" style={btnPrimary}>Create key</button>
+            </form>
+            {selected.apiKeys.length === 0 ? (
+              <p style={{ margin: 0, fontSize: "0.8125rem", color: "#6b7280" }}>No keys issued.</p>
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: "0.8125rem" }}>
+                <thead>
+                  <tr style={{ borderBottom: "1px solid #e5e7eb", color: "#6b7280" }}>
+                    <th style={{ padding: "0.5rem", textAlign: "left", fontWeight: 600 }}>Name</th>
+                    <th style={{ padding: "0.5rem", textAlign: "left", fontWeight: 600 }}>Key</th>
+                    <th style={{ padding: "0.5rem", textAlign: "left", fontWeight: 600 }}>Created</th>
+                    <th style={{ padding: "0.5rem", textAlign: "left", fontWeight: 600 }}>Last used</th>
+                    <th style={{ padding: "0.5rem", textAlign: "right", fontWeight: 600 }}>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.apiKeys.map((k) => (
+                    <tr key={k.id} style={{ borderBottom: "1px solid #f3f4f6", color: k.revokedAt ? "#9ca3af" : undefined }}>
+                      <td style={{ padding: "0.5rem" }}>{k.name}</td>
+                      <td style={{ padding: "0.5rem" }}><code>{k.prefix}…</code></td>
+                      <td style={{ padding: "0.5rem" }}>{formatDateTime(k.createdAt)}</td>
+                      <td style={{ padding: "0.5rem" }}>{formatDateTime(k.lastUsedAt)}</td>
+                      <td style={{ padding: "0.5rem", textAlign: "right" }}>
+                        {k.revokedAt ? (
+                          `Revoked ${formatDateTime(k.revokedAt)}`
+                        ) : (
+                          <button type="button" onClick={() => handleRevokeKey(k)} style={{ ...btnDanger, ...btnSmall }}>Revoke</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,50 @@
+import type { RiskIndicator, TrippedIndicator } from "../types";
+import { formatDate, formatIndicatorValue, formatThreshold } from "../utils/riskIndicators";
+
+const linkStyle = { background: "none", border: "none", padding: 0, font: "inherit", color: "#b91c1c", cursor: "pointer", fontWeight: 600, textDecoration: "underline" };
+
+interface TrippedIndicatorsPanelProps {
+  /** Tripped indicators only; the panel is hidden when empty */
+  indicators: (RiskIndicator | TrippedIndicator)[];
+  /** Register: open the indicator's risk. Detail view: jump to the Indicators tab */
+  onSelect?: (indicator: RiskIndicator | TrippedIndicator) => void;
+  /** Show each indicator's risk (register); the detail view omits it */
+  showRisk?: boolean;
+  /** Roll-up scope: name the risk's unit */
+  showOrgUnit?: boolean;
+}
+
+/** "Indicators tripped" warning: early-warning indicators whose current value crossed the threshold. */
+export function TrippedIndicatorsPanel({ indicators, onSelect, showRisk = false, showOrgUnit = false }: TrippedIndicatorsPanelProps) {
+  if (indicators.length === 0) return null;
+  return (
+    <div style={{ background: "#fef2f2", border: "1px solid #fecaca", borderRadius: 8, padding: "0.75rem 1rem", marginBottom: "1rem", fontSize: "0.875rem" }}>
+      <strong style={{ color: "#b91c1c" }}>
+        {indicators.length} indicator{indicators.length !== 1 ? "s" : ""} tripped
+      </strong>
+      <ul style={{ margin: "0.35rem 0 0", paddingLeft: "1.25rem", color: "#374151" }}>
+        {indicators.map((ind) => {
+          const risk = "risk" in ind ? ind.risk : null;
+          const label = showRisk && risk ? risk.riskName : ind.description;
+          return (
+            <li key={ind.id} style={{ marginBottom: "0.2rem" }}>
+              {onSelect ? (
+                <button type="button" onClick={() => onSelect(ind)} style={linkStyle}>
+                  {label}
+                </button>
+              ) : (
+                <strong>{label}</strong>
+              )}
+              {showRisk && risk && <> — {ind.description}</>}
+              {showOrgUnit && risk && <span style={{ color: "#6b7280" }}> · {risk.organizationalUnit.name}</span>}
+              <span style={{ color: "#6b7280" }}>
+                {" "}
+                · {ind.metric}: {formatIndicatorValue(ind.currentValue, ind.unit)} (threshold {formatThreshold(ind)}) since {formatDate(ind.trippedAt)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
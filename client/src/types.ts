@@ -13,10 +13,82 @@ export interface OrganizationalUnit {
   name: string;
   code: string;
   description: string | null;
+  /** Parent unit in the same entity (e.g. the program a project belongs to) */
+  parentId?: string | null;
   _count?: { risks: number; opportunities?: number; issues?: number };
 }
 
-export type IssueStatus = "ignore" | "control";
+/** The owning org unit included with register rows (GET /api/risks, /issues, /opportunities). */
+export type RegisterOrgUnit = Pick<OrganizationalUnit, "id" | "name" | "type">;
+
+/** Level on a configurable 5×5 matrix (GET /api/legal-entities/:id/matrices). */
+export interface MatrixLevel {
+  /** Stored in riskLevel / opportunityLevel (e.g. "low") */
+  key: string;
+  label: string;
+  color: string;
+}
+
+export interface MatrixCell {
+  level: string;
+  /** Numerical level 1–25 used by waterfall charts and sorting */
+  rank: number;
+}
+
+export interface LevelMatrixDefinition {
+  /** Index 0 = likelihood 1 */
+  likelihoodLabels: string[];
+  likelihoodDetails: string[];
+  /** Consequence (risk) or impact (opportunity) labels; index 0 = 1 */
+  consequenceLabels: string[];
+  /** Ordered lowest to highest */
+  levels: MatrixLevel[];
+  /** cells[likelihood - 1][consequence - 1] */
+  cells: MatrixCell[][];
+}
+
+export type MatrixKind = "risk" | "opportunity";
+
+export interface LegalEntityMatrix {
+  kind: MatrixKind;
+  /** True when the entity has not configured its own matrix */
+  isDefault: boolean;
+  updatedAt: string | null;
+  definition: LevelMatrixDefinition;
+}
+
+export interface LegalEntityMatrices {
+  risk: LegalEntityMatrix;
+  opportunity: LegalEntityMatrix;
+}
+
+export type RubricDimension = "cost" | "schedule" | "performance";
+
+/** Likelihood / consequence / impact criteria for a PPD (GET /api/organizational-units/:id/rubric). Index 0 = score 1. */
+export interface RubricDefinition {
+  likelihood: string[];
+  consequence: Record<RubricDimension, string[]>;
+  impact: Record<RubricDimension, string[]>;
+}
+
+export interface CriteriaRubric {
+  id: string;
+  organizationalUnitId: string;
+  version: number;
+  definition: RubricDefinition;
+  userId: string | null;
+  userDisplayName: string | null;
+  createdAt: string;
+}
+
+export interface CriteriaRubricVersionSummary {
+  version: number;
+  userDisplayName: string | null;
+  createdAt: string;
+}
+
+/** Lifecycle open → resolving → resolved → closed; ignore for issues deliberately not worked. */
+export type IssueStatus = "open" | "resolving" | "resolved" | "closed" | "ignore";
 
 /** When an issue was created from a realized risk, the source risk. */
 export interface IssueSourceRisk {
@@ -24,24 +96,89 @@ export interface IssueSourceRisk {
   riskName: string;
 }
 
-export interface Issue {
+export interface Issue extends ReviewFields {
   id: string;
   organizationalUnitId: string;
+  organizationalUnit?: RegisterOrgUnit;
   issueName: string;
   description: string | null;
   consequence: number; // 1-5
   issueLevel: string | null; // low, moderate, high
+  /** Quantified impact ranges (dollars / days); issues count in full (probability 100%) */
+  costImpactLow?: number | null;
+  costImpactHigh?: number | null;
+  scheduleImpactLowDays?: number | null;
+  scheduleImpactHighDays?: number | null;
+  /** Criteria rubric version the consequence was assessed against (null = no rubric) */
+  rubricVersion?: number | null;
   owner: string | null;
+  /** Person in the owner directory; null for a free-text owner not merged yet */
+  ownerId: string | null;
   category: string | null; // Category.code (Risk Categories)
   status: IssueStatus;
+  /** When status is Closed or Ignore, the rationale required when it was set. */
+  statusChangeRationale?: string;
   /** When this issue was created from a realized risk. */
   sourceRiskId?: string | null;
   sourceRisk?: IssueSourceRisk | null;
+  /** Follow-on risks spawned from this issue (GET /api/issues/:id) */
+  risksCreatedFromIssue?: ConvertedRiskLink[];
   createdAt: string;
   updatedAt: string;
   lastUpdated?: string;
 }
 
+/** Issue state stored in each version */
+export interface IssueSnapshot {
+  issueName: string;
+  description: string | null;
+  consequence: number;
+  issueLevel: string | null;
+  rubricVersion: number | null;
+  costImpactLow: number | null;
+  costImpactHigh: number | null;
+  scheduleImpactLowDays: number | null;
+  scheduleImpactHighDays: number | null;
+  owner: string | null;
+  category: string | null;
+  status: IssueStatus;
+}
+
+/** One entry of GET /api/issues/:id/history (or the single entry returned for ?at=) */
+export interface IssueVersionEntry extends AuditAuthor {
+  type: "issue";
+  version: number;
+  snapshot: IssueSnapshot;
+  consequenceChangeReason?: string;
+  statusChangeRationale?: string;
+  /** Set on a "reviewed, no change" version (snapshot unchanged) */
+  reviewedNoChange?: boolean;
+  reviewNote?: string;
+  createdAt: string;
+}
+
+/** Resolution step state stored in each step version */
+export interface ResolutionStepSnapshot {
+  plannedAction: string;
+  estimatedStartDate: string | null;
+  estimatedEndDate: string | null;
+  expectedConsequence: number;
+  actualConsequence: number | null;
+  actualCompletedAt: string | null;
+}
+
+export interface ResolutionStepVersionEntry extends AuditAuthor {
+  type: "resolution_step";
+  stepId: string;
+  stepNumber: number;
+  version: number;
+  snapshot: ResolutionStepSnapshot;
+  createdAt: string;
+}
+
+/** GET /api/issues/:id/history: issue and resolution step versions, oldest first */
+export type IssueHistoryEntry = IssueVersionEntry | ResolutionStepVersionEntry;
+
 export interface IssueResolutionStep {
   id: string;
   issueId: string;
@@ -71,14 +208,85 @@ export interface Category {
 }
 
 /** When a risk is Realized and an issue was created from it, the linked issue (at most one). */
+/** Review cadence of a risk, issue or opportunity (list and detail APIs) */
+export interface ReviewFields {
+  /** Days between reviews set on the item itself (null = the unit's cadence for its level) */
+  reviewCadenceDays?: number | null;
+  /** Time of the latest version, including "reviewed, no change" */
+  lastReviewedAt?: string | null;
+  effectiveReviewCadenceDays?: number;
+  nextReviewDate?: string;
+  reviewOverdue?: boolean;
+}
+
+/** Days between reviews by item type and level key (GET/PUT /api/organizational-units/:id/review-cadence) */
+export type ReviewCadence = Record<RioItemType, Record<string, number>>;
+
+export interface ReviewCadenceSettings {
+  cadence: ReviewCadence;
+  /** Never saved for the unit: the defaults apply */
+  isDefault: boolean;
+}
+
+/** One row of GET /api/organizational-units/:id/review-queue (overdue only, most overdue first) */
+export interface ReviewQueueItem {
+  type: RioItemType;
+  id: string;
+  name: string;
+  level: string | null;
+  status: string;
+  owner: string | null;
+  organizationalUnitId: string;
+  organizationalUnit: RegisterOrgUnit;
+  reviewCadenceDays: number | null;
+  lastReviewedAt: string | null;
+  createdAt: string;
+  effectiveReviewCadenceDays: number;
+  nextReviewDate: string;
+  reviewOverdue: boolean;
+  daysOverdue: number;
+}
+
 export interface RiskLinkedIssue {
   id: string;
   issueName: string;
 }
 
-export interface Risk {
+/** Risk created from an issue or opportunity, or the risk an item was created from. */
+export interface ConvertedRiskLink {
+  id: string;
+  organizationalUnitId: string;
+  riskName: string;
+  status: string;
+}
+
+export interface ConvertedIssueLink {
+  id: string;
+  organizationalUnitId: string;
+  issueName: string;
+  status: string;
+}
+
+export interface ConvertedOpportunityLink {
+  id: string;
+  organizationalUnitId: string;
+  opportunityName: string;
+  status: string;
+}
+
+/** Risk on the other side of an escalation to the parent org unit. */
+export interface RiskEscalationLink {
+  id: string;
+  riskName: string;
+  status: string;
+  organizationalUnit: RegisterOrgUnit;
+}
+
+export interface Risk extends ReviewFields {
   id: string;
   organizationalUnitId: string;
+  /** GET /api/risks/:id also includes the unit's parent (escalation target) */
+  organizationalUnit?: RegisterOrgUnit & { parent?: RegisterOrgUnit | null };
   riskName: string;
   riskCondition: string;
   riskIf: string;
@@ -87,22 +295,125 @@ export interface Risk {
   originalLikelihood?: number;  // Immutable: set at creation, never changed
   originalConsequence?: number; // Immutable: set at creation, never changed
   likelihood: number;   // Current
-  consequence: number;  // Current
+  consequence: number;  // Current: max of the dimension scores when any is set
+  /** Per-dimension consequence 1-5 (null = not rated) */
+  costConsequence?: number | null;
+  scheduleConsequence?: number | null;
+  performanceConsequence?: number | null;
+  otherConsequence?: number | null;
+  /** Quantified exposure (optional): probability 0-100 and impact ranges in dollars / days */
+  probabilityPercent?: number | null;
+  costImpactLow?: number | null;
+  costImpactHigh?: number | null;
+  scheduleImpactLowDays?: number | null;
+  scheduleImpactHighDays?: number | null;
   riskLevel: string | null;
+  /** Criteria rubric version the likelihood/consequence were assessed against (null = no rubric) */
+  rubricVersion?: number | null;
   mitigationStrategy: string | null;
   mitigationPlan: string | null;
   owner: string | null;
+  /** Person in the owner directory; null for a free-text owner not merged yet */
+  ownerId: string | null;
   status: string;
   /** When status is Closed, Accepted, or Realized, the rationale required when it was set. */
   statusChangeRationale?: string;
   /** When status is Realized, the issue created from this risk (if any). */
   linkedIssue?: RiskLinkedIssue | null;
+  /** Set on a risk created by escalating escalatedFromRisk from a child unit */
+  escalatedFromRiskId?: string | null;
+  /** Set while the risk itself is transferred up; de-escalation moves it back to this unit */
+  escalatedFromOrgUnitId?: string | null;
+  /** Escalation links (GET /api/risks/:id) */
+  escalatedFromRisk?: RiskEscalationLink | null;
+  escalatedToRisks?: RiskEscalationLink[];
+  transferredFromOrgUnit?: RegisterOrgUnit | null;
+  /** Early-warning indicators currently tripped (from list API) */
+  trippedIndicatorCount?: number;
+  /** Set when spawned as a follow-on risk from an issue, or created from a pursued opportunity */
+  sourceIssueId?: string | null;
+  sourceOpportunityId?: string | null;
+  /** Conversion links (GET /api/risks/:id) */
+  sourceIssue?: ConvertedIssueLink | null;
+  sourceOpportunity?: ConvertedOpportunityLink | null;
+  opportunitiesCreatedFromRisk?: ConvertedOpportunityLink[];
   createdAt: string;
   updatedAt: string;
   /** Latest of risk.updatedAt and any mitigation step updatedAt (from list API) */
   lastUpdated?: string;
 }
 
+/** One risk's share of a simulated total (tornado chart). */
+export interface SimulationTornadoEntry {
+  riskId: string;
+  riskName: string;
+  /** Average sampled impact per iteration */
+  meanImpact: number;
+  /** cov(risk, total) / var(total); shares sum to 1 */
+  varianceShare: number;
+}
+
+export interface SimulationDistribution {
+  mean: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p80: number;
+  p90: number;
+  /** S-curve: total at every 5th percentile */
+  curve: { percentile: number; value: number }[];
+  tornado: SimulationTornadoEntry[];
+}
+
+/** Monte Carlo cost / schedule simulation for an org unit (GET /api/risks/simulation). */
+export interface RiskSimulationResult {
+  iterations: number;
+  seed: number;
+  riskCount: number;
+  /** Dollars; null when no risk has a cost range */
+  cost: SimulationDistribution | null;
+  /** Days; null when no risk has a schedule range */
+  schedule: SimulationDistribution | null;
+}
+
+/** above: tripped at or over the threshold; below: at or under it */
+export type IndicatorDirection = "above" | "below";
+
+export interface RiskIndicatorReading extends Partial<AuditAuthor> {
+  id: string;
+  indicatorId: string;
+  value: number;
+  readAt: string;
+  note: string | null;
+  createdAt: string;
+}
+
+/** Trigger / early-warning indicator on a risk: a metric watched against a threshold. */
+export interface RiskIndicator {
+  id: string;
+  riskId: string;
+  description: string;
+  metric: string;
+  unit: string | null;
+  direction: IndicatorDirection;
+  threshold: number;
+  /** Value of the latest reading */
+  currentValue: number | null;
+  reviewDate: string | null;
+  /** Set while the current value crosses the threshold: when it first did */
+  trippedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Latest readings, newest first (GET /api/risks/:id/indicators) */
+  readings?: RiskIndicatorReading[];
+}
+
+/** Tripped indicator with its risk (GET /api/risks/indicators/tripped). */
+export interface TrippedIndicator extends RiskIndicator {
+  risk: { id: string; riskName: string; status: string; riskLevel: string | null; organizationalUnit: RegisterOrgUnit };
+}
+
 export interface MitigationStep {
   id: string;
   riskId: string;
@@ -118,10 +429,260 @@ export interface MitigationStep {
   actualConsequence: number | null;
   actualRiskLevel: number | null; // derived from L,C, for waterfall
   actualCompletedAt: string | null;
+  estimatedCost: number | null;
+  actualCost: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Return on mitigation of one step (GET /api/risks/:id/mitigation-roi). Reductions are in risk level points (1-25). */
+export interface StepMitigationRoi {
+  stepId: string;
+  stepNumber: number;
+  mitigationActions: string;
+  completed: boolean;
+  estimatedCost: number | null;
+  actualCost: number | null;
+  expectedReduction: number;
+  actualReduction: number | null;
+  expectedReductionPerDollar: number | null;
+  actualReductionPerDollar: number | null;
+}
+
+export interface MitigationRoiTotals {
+  estimatedCost: number;
+  actualCost: number;
+  stepCount: number;
+  expectedReduction: number;
+  actualReduction: number;
+  expectedReductionPerDollar: number | null;
+  actualReductionPerDollar: number | null;
+}
+
+export interface RiskMitigationRoi {
+  riskId: string;
+  riskName: string;
+  status: string;
+  baselineRiskLevel: number;
+  currentRiskLevel: number;
+  steps: StepMitigationRoi[];
+  totals: MitigationRoiTotals;
+}
+
+/** GET /api/risks/mitigation-roi: an org unit's risks with mitigation steps */
+export interface MitigationRoiPortfolio {
+  risks: RiskMitigationRoi[];
+  totals: MitigationRoiTotals;
+}
+
+/** Counts by stored level key ("unrated" when unset) and by status. */
+export interface LevelStatusCounts {
+  total: number;
+  byLevel: Record<string, number>;
+  byStatus: Record<string, number>;
+}
+
+/** Active risks (open, mitigating, accepted) at the end of a week. */
+export interface PortfolioTrendPoint {
+  date: string;
+  activeRisks: number;
+  /** Sum of the active risks' numerical levels */
+  riskScore: number;
+}
+
+export interface PortfolioOrgUnitSummary {
+  id: string;
+  name: string;
+  type: OrganizationalUnit["type"];
+  parentId: string | null;
+  risks: LevelStatusCounts;
+  issues: LevelStatusCounts;
+  opportunities: LevelStatusCounts;
+  overdueSteps: number;
+  trend: PortfolioTrendPoint[];
+}
+
+export interface PortfolioTopRisk {
+  id: string;
+  riskName: string;
+  organizationalUnitId: string;
+  organizationalUnitName: string;
+  likelihood: number;
+  consequence: number;
+  riskLevel: string | null;
+  riskLevelNumerical: number;
+  status: string;
+  owner: string | null;
+}
+
+/** Incomplete mitigation step of an active risk past its estimated end date. */
+export interface PortfolioOverdueStep {
+  stepId: string;
+  stepNumber: number;
+  mitigationActions: string;
+  estimatedEndDate: string;
+  daysOverdue: number;
+  riskId: string;
+  riskName: string;
+  organizationalUnitId: string;
+  organizationalUnitName: string;
+}
+
+/** GET /api/legal-entities/:id/dashboard: the entity's PPDs the user can view */
+export interface PortfolioDashboard {
+  legalEntityId: string;
+  legalEntityName: string;
+  asOf: string;
+  orgUnits: PortfolioOrgUnitSummary[];
+  /** Active risks per cell, heatMap[likelihood - 1][consequence - 1] */
+  heatMap: number[][];
+  topRisks: PortfolioTopRisk[];
+  overdueSteps: PortfolioOverdueStep[];
+  trend: PortfolioTrendPoint[];
+}
+
+export type RioItemType = "risk" | "issue" | "opportunity";
+
+export type RelationshipType = "causes" | "depends_on" | "duplicates" | "mitigates" | "related_to";
+
+/** Risk, issue or opportunity at one end of a relationship. */
+export interface RioItemSummary {
+  type: RioItemType;
+  id: string;
+  name: string;
+  status: string;
+  level: string | null;
+  organizationalUnit: RegisterOrgUnit;
+}
+
+/** GET /api/people: an owner directory entry, optionally linked to a user account */
+export interface Person {
+  id: string;
+  displayName: string;
+  email: string | null;
+  userId: string | null;
+  user: { id: string; displayName: string; username: string } | null;
+  /** Free-text owner names merged into this person */
+  aliases: string[];
+  _count: { risks: number; issues: number; opportunities: number };
+}
+
+/** How many items use a free-text owner name */
+export interface OwnerNameCount {
+  owner: string;
+  risks: number;
+  issues: number;
+  opportunities: number;
+}
+
+/** GET /api/people/clusters: free-text owner names that look like the same person */
+export interface OwnerCluster {
+  owners: OwnerNameCount[];
+  suggestedName: string;
+  suggestedPerson: { id: string; displayName: string } | null;
+  suggestedUser: { id: string; displayName: string; email: string | null } | null;
+}
+
+/** Comment on a risk, issue or opportunity, or on one of its steps (GET /api/comments?itemType=&itemId=) */
+export interface RioComment extends Partial<AuditAuthor> {
+  id: string;
+  itemType: RioItemType;
+  itemId: string;
+  /** Mitigation, resolution or action plan step the comment is about; null for the item itself */
+  stepId: string | null;
+  /** Set on replies: the thread's first comment */
+  parentId: string | null;
+  /** Empty once deleted */
+  body: string;
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Directory people @mentioned in the current text */
+  mentions: { id: string; displayName: string }[];
+  /** Number of edits and deletes recorded (GET /api/comments/:id/revisions) */
+  revisionCount: number;
+}
+
+/** A comment's text before one edit or its deletion */
+export interface CommentRevision extends Partial<AuditAuthor> {
+  id: string;
+  action: "edited" | "deleted";
+  body: string;
+  createdAt: string;
+}
+
+/** Risk management board meeting: one row of GET /api/board-meetings?organizationalUnitId= */
+export interface BoardMeetingSummary extends Partial<AuditAuthor> {
+  id: string;
+  organizationalUnitId: string;
+  organizationalUnit: RegisterOrgUnit;
+  title: string;
+  meetingDate: string;
+  location: string | null;
+  /** Names as entered; attendees need not be users */
+  attendees: string[];
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  agendaItemCount: number;
+  decisionCount: number;
+  openActionItemCount: number;
+}
+
+export interface BoardMeetingAgendaItem {
+  id: string;
+  meetingId: string;
+  sequenceOrder: number;
+  title: string;
+  itemType: RioItemType | null;
+  itemId: string | null;
+  /** The linked item; null for a free topic, or when it was deleted or is not viewable */
+  item: RioItemSummary | null;
+  discussion: string | null;
+  /** Recorded decisions are also appended to the linked item's audit log */
+  decision: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BoardMeetingActionItem {
+  id: string;
+  meetingId: string;
+  agendaItemId: string | null;
+  description: string;
+  owner: string | null;
+  dueDate: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** GET /api/board-meetings/:id */
+export interface BoardMeeting extends Omit<BoardMeetingSummary, "agendaItemCount" | "decisionCount" | "openActionItemCount"> {
+  agendaItems: BoardMeetingAgendaItem[];
+  actionItems: BoardMeetingActionItem[];
+}
+
+/** GET /api/relationships?itemType=&itemId=: a link of the item, read "source <type> target". */
+export interface RioRelationship extends Partial<AuditAuthor> {
+  id: string;
+  type: RelationshipType;
+  note: string | null;
+  createdAt: string;
+  /** Outgoing: this item is the source; incoming: the other item is */
+  direction: "outgoing" | "incoming";
+  /** The item on the other end */
+  item: RioItemSummary;
+}
+
+/** GET /api/relationships/graph: links touching an org unit's items. Node keys are "type:id". */
+export interface RelationshipGraph {
+  nodes: (RioItemSummary & { key: string; inScope: boolean })[];
+  edges: { id: string; type: RelationshipType; note: string | null; source: string; target: string }[];
+}
+
 export interface OpportunityCategory {
   id: string;
   code: string;
@@ -133,9 +694,10 @@ export interface OpportunityCategory {
 
 export type OpportunityStatus = "pursue_now" | "defer" | "reevaluate" | "reject";
 
-export interface Opportunity {
+export interface Opportunity extends ReviewFields {
   id: string;
   organizationalUnitId: string;
+  organizationalUnit?: RegisterOrgUnit;
   opportunityName: string;
   opportunityCondition: string;
   opportunityIf: string;
@@ -146,9 +708,18 @@ export interface Opportunity {
   likelihood: number;
   impact: number;
   opportunityLevel: string | null;
+  /** Criteria rubric version the likelihood/impact were assessed against (null = no rubric) */
+  rubricVersion?: number | null;
   owner: string | null;
+  /** Person in the owner directory; null for a free-text owner not merged yet */
+  ownerId: string | null;
   status: OpportunityStatus;
   statusChangeRationale?: string;
+  /** When this opportunity was created from a risk whose mitigation could yield upside. */
+  sourceRiskId?: string | null;
+  /** Conversion links (GET /api/opportunities/:id) */
+  sourceRisk?: ConvertedRiskLink | null;
+  risksCreatedFromOpportunity?: ConvertedRiskLink[];
   createdAt: string;
   updatedAt: string;
   lastUpdated?: string;
@@ -171,3 +742,95 @@ export interface OpportunityActionPlanStep {
   createdAt: string;
   updatedAt: string;
 }
+
+export type UserRole = "admin" | "editor" | "viewer";
+
+/** Role on one LE/PPD combination. */
+export interface UserPermission {
+  legalEntityId: string;
+  organizationalUnitId: string;
+  role: UserRole;
+}
+
+/** Signed-in user (GET /api/auth/me). */
+export interface AuthUser {
+  id: string;
+  externalId: string;
+  username: string;
+  displayName: string;
+  email: string | null;
+  /** Global Admin: manages entities, PPDs, categories and settings; full access to every LE/PPD */
+  isAdmin: boolean;
+  permissions: UserPermission[];
+  /** Admin acting as this user (impersonation session), else null */
+  impersonator: { id: string; username: string; displayName: string } | null;
+}
+
+/** User directory entry (GET /api/users, Admin only). */
+export interface UserSummary {
+  id: string;
+  username: string;
+  displayName: string;
+  email: string | null;
+  isAdmin: boolean;
+  lastLoginAt: string | null;
+  _count?: { permissions: number };
+}
+
+/** One row of an effective-access report (GET /api/users/:id/access). */
+export interface EffectiveAccess {
+  legalEntityId: string;
+  legalEntityName: string;
+  organizationalUnitId: string;
+  organizationalUnitName: string;
+  organizationalUnitType: OrganizationalUnit["type"];
+  role: UserRole;
+  /** "global-admin" when the role comes from the user's global Admin flag */
+  source: "global-admin" | "grant";
+}
+
+export interface UserAccessReport {
+  user: UserSummary & { isServiceAccount: boolean };
+  access: EffectiveAccess[];
+}
+
+/** Who can reach one PPD (GET /api/organizational-units/:id/access). */
+export interface OrgUnitAccessEntry {
+  user: { id: string; username: string; displayName: string; isServiceAccount: boolean };
+  role: UserRole;
+  source: "global-admin" | "grant";
+}
+
+/** Service-account API key (plaintext `key` is present only in the create response). */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  /** First characters of the key, for identification */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  key?: string;
+}
+
+/** Non-human user for scripts and integrations (GET /api/service-accounts, Admin only). */
+export interface ServiceAccount {
+  id: string;
+  username: string;
+  displayName: string;
+  isAdmin: boolean;
+  createdAt: string;
+  permissions: (UserPermission & {
+    organizationalUnit: { id: string; name: string; legalEntity: { id: string; name: string; code: string } };
+  })[];
+  apiKeys: ApiKeySummary[];
+}
+
+/** Author columns on audit log and version rows (null for entries recorded before sign-in existed). */
+export interface AuditAuthor {
+  userId: string | null;
+  userDisplayName: string | null;
+  /** Admin who made the change while impersonating userId */
+  impersonatorUserId: string | null;
+  impersonatorDisplayName: string | null;
+}
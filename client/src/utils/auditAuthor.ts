@@ -0,0 +1,8 @@
+import type { AuditAuthor } from "../types";
+
+/** "Jane Smith", or "Jane Smith (by Admin Name, impersonating)" for changes made during an act-as session. */
+export function formatAuditAuthor(author: Partial<AuditAuthor>): string | null {
+  if (!author.userDisplayName) return null;
+  if (author.impersonatorDisplayName) return `${author.userDisplayName} (by ${author.impersonatorDisplayName}, impersonating)`;
+  return author.userDisplayName;
+}
@@ -0,0 +1,124 @@
+import type { Issue, Risk } from "../types";
+
+/**
+ * Quantified exposure (mirror of server/src/lib/exposure.ts). Risks may carry a probability and
+ * cost / schedule impact ranges; issues carry the ranges and count in full. Expected exposure is
+ * probability × midpoint of the range.
+ */
+export type QuantifiedImpact = {
+  probabilityPercent: number | null;
+  costImpactLow: number | null;
+  costImpactHigh: number | null;
+  scheduleImpactLowDays: number | null;
+  scheduleImpactHighDays: number | null;
+};
+
+export type Exposure = { cost: number | null; scheduleDays: number | null };
+export type ExposureTotals = { cost: number; scheduleDays: number; quantified: number; count: number };
+
+export const NO_QUANTIFIED_IMPACT: QuantifiedImpact = {
+  probabilityPercent: null,
+  costImpactLow: null,
+  costImpactHigh: null,
+  scheduleImpactLowDays: null,
+  scheduleImpactHighDays: null,
+};
+
+export function pickQuantifiedImpact(item: Partial<Risk> | Partial<Issue>): QuantifiedImpact {
+  return {
+    probabilityPercent: "probabilityPercent" in item ? item.probabilityPercent ?? null : null,
+    costImpactLow: item.costImpactLow ?? null,
+    costImpactHigh: item.costImpactHigh ?? null,
+    scheduleImpactLowDays: item.scheduleImpactLowDays ?? null,
+    scheduleImpactHighDays: item.scheduleImpactHighDays ?? null,
+  };
+}
+
+/** Impact range fields only, for issue requests. */
+export function toImpactRanges(q: QuantifiedImpact) {
+  const { probabilityPercent: _p, ...ranges } = q;
+  return ranges;
+}
+
+/** Risk statuses that still carry exposure (closed risks are retired; realized ones continue as issues). */
+export function isExposedRisk(r: Risk): boolean {
+  return r.status === "open" || r.status === "mitigating" || r.status === "accepted";
+}
+
+/** Issue statuses that still carry exposure (resolved and closed issues no longer do). */
+export function isExposedIssue(i: Issue): boolean {
+  return i.status === "open" || i.status === "resolving" || i.status === "ignore";
+}
+
+function midpoint(low: number | null | undefined, high: number | null | undefined): number | null {
+  if (low != null && high != null) return (low + high) / 2;
+  return low ?? high ?? null;
+}
+
+function exposure(item: Partial<Risk> | Partial<Issue>, probabilityPercent: number | null | undefined): Exposure {
+  if (probabilityPercent == null) return { cost: null, scheduleDays: null };
+  const p = probabilityPercent / 100;
+  const cost = midpoint(item.costImpactLow, item.costImpactHigh);
+  const days = midpoint(item.scheduleImpactLowDays, item.scheduleImpactHighDays);
+  return { cost: cost != null ? cost * p : null, scheduleDays: days != null ? days * p : null };
+}
+
+/** Expected exposure of a risk; none without a probability. */
+export function riskExposure(r: Partial<Risk>): Exposure {
+  return exposure(r, r.probabilityPercent);
+}
+
+/** Expected exposure of an issue: it has occurred, so the range midpoint counts in full. */
+export function issueExposure(i: Partial<Issue>): Exposure {
+  return exposure(i, 100);
+}
+
+export function sumExposure(exposures: Exposure[]): ExposureTotals {
+  const totals: ExposureTotals = { cost: 0, scheduleDays: 0, quantified: 0, count: exposures.length };
+  for (const e of exposures) {
+    if (e.cost == null && e.scheduleDays == null) continue;
+    totals.quantified += 1;
+    totals.cost += e.cost ?? 0;
+    totals.scheduleDays += e.scheduleDays ?? 0;
+  }
+  return totals;
+}
+
+/** e.g. "$1.2M", "$350K", "$900". */
+export function formatCurrency(n: number): string {
+  const abs = Math.abs(n);
+  if (abs >= 1e9) return `$${(n / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `$${(n / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `$${Math.round(n / 1e3)}K`;
+  return `$${Math.round(n)}`;
+}
+
+export function formatDays(n: number): string {
+  const d = Math.round(n * 10) / 10;
+  return `${d} day${d === 1 ? "" : "s"}`;
+}
+
+/** e.g. "$1.2M · 12 days"; empty when there is no exposure. */
+export function formatExposure(e: { cost: number | null; scheduleDays: number | null }): string {
+  return [e.cost != null ? formatCurrency(e.cost) : "", e.scheduleDays != null ? formatDays(e.scheduleDays) : ""].filter(Boolean).join(" · ");
+}
+
+function formatRange(low: number | null | undefined, high: number | null | undefined, fmt: (n: number) => string): string {
+  if (low != null && high != null) return low === high ? fmt(low) : `${fmt(low)}–${fmt(high)}`;
+  if (low != null || high != null) return fmt((low ?? high)!);
+  return "";
+}
+
+/** e.g. "40% · Cost $100K–$300K · Schedule 10–30 days"; empty when nothing is quantified. */
+export function formatQuantifiedImpact(item: Partial<Risk> | Partial<Issue>): string {
+  const q = pickQuantifiedImpact(item);
+  const cost = formatRange(q.costImpactLow, q.costImpactHigh, formatCurrency);
+  const days = formatRange(q.scheduleImpactLowDays, q.scheduleImpactHighDays, (n) => String(n));
+  return [
+    q.probabilityPercent != null ? `${q.probabilityPercent}%` : "",
+    cost ? `Cost ${cost}` : "",
+    days ? `Schedule ${days} days` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
@@ -0,0 +1,114 @@
+import type { LevelMatrixDefinition, MatrixCell, MatrixLevel } from "../types";
+
+/**
+ * Client-side helpers for the per-entity 5×5 matrices served by GET /api/legal-entities/:id/matrices.
+ * The defaults mirror server/src/lib/levelMatrix.ts and are only used until the entity's matrices load.
+ */
+const DOD_LEVELS: MatrixLevel[] = [
+  { key: "low", label: "Low", color: "#22c55e" },
+  { key: "moderate", label: "Moderate", color: "#eab308" },
+  { key: "high", label: "High", color: "#ef4444" },
+];
+
+// Opportunity levels keep the same keys but read as Good / Very Good / Excellent (light purple / medium blue / light blue).
+const OPPORTUNITY_LEVELS: MatrixLevel[] = [
+  { key: "low", label: "Good", color: "#ddd6fe" },
+  { key: "moderate", label: "Very Good", color: "#60a5fa" },
+  { key: "high", label: "Excellent", color: "#38bdf8" },
+];
+
+const DOD_LEVEL_TABLE = [
+  ["low", "low", "low", "moderate", "moderate"],
+  ["low", "low", "moderate", "moderate", "high"],
+  ["low", "moderate", "moderate", "high", "high"],
+  ["moderate", "moderate", "high", "high", "high"],
+  ["moderate", "high", "high", "high", "high"],
+];
+
+const DOD_RANK_TABLE = [
+  [1, 3, 5, 9, 12],
+  [2, 4, 11, 15, 17],
+  [6, 10, 14, 19, 21],
+  [7, 13, 18, 22, 24],
+  [8, 16, 20, 23, 25],
+];
+
+const DOD_CELLS: MatrixCell[][] = DOD_LEVEL_TABLE.map((row, l) => row.map((level, c) => ({ level, rank: DOD_RANK_TABLE[l][c] })));
+
+const LIKELIHOOD_LABELS = ["Not Likely", "Low Likely", "Likely", "High Likely", "Near Certain"];
+const LIKELIHOOD_DETAILS = [">1% to ≤20%", ">20% to ≤40%", ">40% to ≤60%", ">60% to ≤80%", ">80% to ≤99%"];
+
+export const DEFAULT_RISK_MATRIX: LevelMatrixDefinition = {
+  likelihoodLabels: LIKELIHOOD_LABELS,
+  likelihoodDetails: LIKELIHOOD_DETAILS,
+  consequenceLabels: ["Minimal", "Minor", "Moderate", "Significant", "Severe"],
+  levels: DOD_LEVELS,
+  cells: DOD_CELLS,
+};
+
+export const DEFAULT_OPPORTUNITY_MATRIX: LevelMatrixDefinition = {
+  ...DEFAULT_RISK_MATRIX,
+  consequenceLabels: ["Minimal", "Minor", "Moderate", "Significant", "Substantial"],
+  levels: OPPORTUNITY_LEVELS,
+};
+
+const UNKNOWN_LEVEL_COLOR = "#9ca3af";
+
+function cellAt(matrix: LevelMatrixDefinition, likelihood: number, consequence: number): MatrixCell {
+  const l = Math.max(1, Math.min(5, likelihood));
+  const c = Math.max(1, Math.min(5, consequence));
+  return matrix.cells[l - 1][c - 1];
+}
+
+/** Numerical level 1–25 of a cell. */
+export function getCellRank(matrix: LevelMatrixDefinition, likelihood: number, consequence: number): number {
+  return cellAt(matrix, likelihood, consequence).rank;
+}
+
+export function getCellLevel(matrix: LevelMatrixDefinition, likelihood: number, consequence: number): string {
+  return cellAt(matrix, likelihood, consequence).level;
+}
+
+export function getLevelColor(matrix: LevelMatrixDefinition, levelKey: string | null | undefined): string {
+  return matrix.levels.find((l) => l.key === levelKey)?.color ?? UNKNOWN_LEVEL_COLOR;
+}
+
+export function getLevelLabel(matrix: LevelMatrixDefinition, levelKey: string | null | undefined): string {
+  return matrix.levels.find((l) => l.key === levelKey)?.label ?? levelKey ?? "—";
+}
+
+/** Solid color of a cell; matrices append an alpha suffix ("33" risk, "99" opportunity). */
+export function getCellColor(matrix: LevelMatrixDefinition, likelihood: number, consequence: number): string {
+  return getLevelColor(matrix, getCellLevel(matrix, likelihood, consequence));
+}
+
+/** Color of the level whose cell has this numerical rank (waterfall and table cells). */
+export function getRankColor(matrix: LevelMatrixDefinition, rank: number): string {
+  for (const row of matrix.cells) {
+    const cell = row.find((c) => c.rank === rank);
+    if (cell) return getLevelColor(matrix, cell.level);
+  }
+  return UNKNOWN_LEVEL_COLOR;
+}
+
+/** "3: Likely"-style axis label. */
+export function axisLabel(labels: string[], value: number): string {
+  return `${value}: ${labels[value - 1] ?? ""}`;
+}
+
+/**
+ * Horizontal bands for waterfall charts: consecutive ranks 1–25 sharing a level are merged.
+ * Band edges sit halfway between ranks, and the outer edges at 1 and 25.
+ */
+export function getRankBands(matrix: LevelMatrixDefinition, alpha = "33"): { y1: number; y2: number; fill: string }[] {
+  const levelByRank = new Map<number, string>();
+  for (const row of matrix.cells) for (const cell of row) levelByRank.set(cell.rank, cell.level);
+  const bands: { y1: number; y2: number; fill: string; level: string }[] = [];
+  for (let rank = 1; rank <= 25; rank++) {
+    const level = levelByRank.get(rank) ?? "";
+    const last = bands[bands.length - 1];
+    if (last && last.level === level) last.y2 = rank === 25 ? 25 : rank + 0.5;
+    else bands.push({ y1: rank === 1 ? 1 : rank - 0.5, y2: rank === 25 ? 25 : rank + 0.5, fill: getLevelColor(matrix, level) + alpha, level });
+  }
+  return bands.map(({ y1, y2, fill }) => ({ y1, y2, fill }));
+}
@@ -0,0 +1,25 @@
+import { formatCurrency } from "./exposure";
+
+/** Per-dollar reductions are tiny; they are shown per $100K of spend. */
+const ROI_UNIT = 100_000;
+
+/** e.g. "−4 pts" for a 4-point drop in risk level, "+1 pt" for a rise. */
+export function formatReduction(reduction: number): string {
+  const n = Math.abs(reduction);
+  const sign = reduction > 0 ? "−" : reduction < 0 ? "+" : "";
+  return `${sign}${n} pt${n === 1 ? "" : "s"}`;
+}
+
+/** e.g. "2.5 pts / $100K"; "—" without a cost. */
+export function formatReductionPerDollar(perDollar: number | null): string {
+  if (perDollar == null) return "—";
+  const v = Math.round(perDollar * ROI_UNIT * 10) / 10;
+  return `${v} pts / ${formatCurrency(ROI_UNIT)}`;
+}
+
+/** e.g. "$120K est. · $95K actual"; empty when neither is set. */
+export function formatStepCosts(estimatedCost: number | null, actualCost: number | null): string {
+  return [estimatedCost != null ? `${formatCurrency(estimatedCost)} est.` : "", actualCost != null ? `${formatCurrency(actualCost)} actual` : ""]
+    .filter(Boolean)
+    .join(" · ");
+}
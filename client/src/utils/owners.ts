@@ -0,0 +1,32 @@
+/** An item's owner as edited in forms: a directory entry, or a free-text name not merged into the directory yet. */
+export type OwnerValue = { ownerId: string | null; owner: string };
+
+export const NO_OWNER: OwnerValue = { ownerId: null, owner: "" };
+
+/** The form value for an item's current owner. */
+export function ownerValueOf(item: { ownerId?: string | null; owner?: string | null }): OwnerValue {
+  return { ownerId: item.ownerId ?? null, owner: item.owner ?? "" };
+}
+
+/** Owner filter value of items without an owner. */
+export const UNASSIGNED_OWNER = "unassigned";
+
+/** An item's owner filter value: its directory entry's id, or "name:<owner>" for a free-text owner. */
+export function ownerFilterKey(item: { ownerId?: string | null; owner?: string | null }): string {
+  if (item.ownerId) return item.ownerId;
+  return item.owner ? `name:${item.owner}` : UNASSIGNED_OWNER;
+}
+
+/** Owner filter choices for the loaded items: "Unassigned" first, then owners by name. */
+export function ownerFilterOptions(items: { ownerId?: string | null; owner?: string | null }[]): { value: string; label: string }[] {
+  const options = new Map<string, string>();
+  for (const item of items) {
+    const key = ownerFilterKey(item);
+    if (key === UNASSIGNED_OWNER || options.has(key)) continue;
+    options.set(key, item.ownerId ? item.owner ?? "—" : `${item.owner} (not in directory)`);
+  }
+  const sorted = [...options.entries()]
+    .map(([value, label]) => ({ value, label }))
+    .sort((a, b) => a.label.localeCompare(b.label, undefined, { sensitivity: "base" }));
+  return items.some((i) => ownerFilterKey(i) === UNASSIGNED_OWNER) ? [{ value: UNASSIGNED_OWNER, label: "Unassigned" }, ...sorted] : sorted;
+}
@@ -0,0 +1,26 @@
+import type { AuthUser, UserRole } from "../types";
+
+/**
+ * Client-side mirror of server/src/lib/permissions.ts, used only to hide controls.
+ * The API enforces the same rules and returns 403 regardless of what the UI shows.
+ */
+const ROLE_RANK: Record<UserRole, number> = { viewer: 1, editor: 2, admin: 3 };
+
+export const ROLE_LABELS: Record<UserRole, string> = { admin: "Admin", editor: "Editor", viewer: "Viewer" };
+
+/** Effective role on an org unit (global Admin → admin), or null when unassigned. */
+export function getOrgUnitRole(user: AuthUser | null, organizationalUnitId: string | null | undefined): UserRole | null {
+  if (!user || !organizationalUnitId) return null;
+  if (user.isAdmin) return "admin";
+  return user.permissions.find((p) => p.organizationalUnitId === organizationalUnitId)?.role ?? null;
+}
+
+export function hasOrgUnitRole(user: AuthUser | null, organizationalUnitId: string | null | undefined, minRole: UserRole): boolean {
+  const role = getOrgUnitRole(user, organizationalUnitId);
+  return role != null && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+/** Editors and Admins can create, edit and delete Risks, Issues and Opportunities. */
+export function canEditOrgUnit(user: AuthUser | null, organizationalUnitId: string | null | undefined): boolean {
+  return hasOrgUnitRole(user, organizationalUnitId, "editor");
+}
@@ -5,7 +5,10 @@
  */
 
 import JSZip from "jszip";
-import type { Category, OpportunityCategory, Risk, Issue, Opportunity } from "../types";
+import type { Category, LevelMatrixDefinition, OpportunityCategory, Risk, Issue, Opportunity, RiskSimulationResult, SimulationDistribution } from "../types";
+import { DEFAULT_OPPORTUNITY_MATRIX, DEFAULT_RISK_MATRIX, getLevelLabel } from "./levelMatrix";
+import { formatConsequenceBreakdown } from "./riskConsequence";
+import { formatCurrency, formatDays, formatExposure, formatQuantifiedImpact, isExposedIssue, isExposedRisk, issueExposure, riskExposure, sumExposure } from "./exposure";
 
 interface MitigationStep {
   id: string;
@@ -35,13 +38,10 @@ interface ActionPlanStep {
   actualCompletedAt: string | null;
 }
 
-// Risk level: (H), (M), (L)
-const RISK_LEVEL_LABEL: Record<string, string> = { low: "(L)", moderate: "(M)", high: "(H)" };
 const RISK_STATUS_LABEL: Record<string, string> = {
   open: "Open", mitigating: "Mitigating", accepted: "Accepted", closed: "Closed", realized: "Realized",
 };
-const ISSUE_STATUS_LABEL: Record<string, string> = { ignore: "Ignore", control: "Control" };
-const OPP_LEVEL_LABEL: Record<string, string> = { low: "Good", moderate: "Very Good", high: "Excellent" };
+const ISSUE_STATUS_LABEL: Record<string, string> = { open: "Open", resolving: "Resolving", resolved: "Resolved", closed: "Closed", ignore: "Ignore" };
 const OPP_STATUS_LABEL: Record<string, string> = {
   pursue_now: "Pursue now", defer: "Defer", reevaluate: "Reevaluate", reject: "Reject",
 };
@@ -224,12 +224,18 @@ export interface RIOReportParams {
   opportunities: Opportunity[];
   categories: Category[];
   opportunityCategories: OpportunityCategory[];
+  /** The entity's risk and opportunity matrices, for level labels and order (the defaults until they load) */
+  riskMatrix?: LevelMatrixDefinition;
+  opportunityMatrix?: LevelMatrixDefinition;
   /** Optional: base64 data URLs for matrix/waterfall images to embed in report */
   images?: {
     riskMatrix?: string;
     issueMatrix?: string;
     oppMatrix?: string;
+    riskSimulation?: string;
   };
+  /** Optional: Monte Carlo results for the cost / schedule simulation slides */
+  simulation?: RiskSimulationResult | null;
 }
 
 /**
@@ -240,6 +246,10 @@ export async function generateRIOPowerPointReport(params: RIOReportParams): Prom
   const { entityName, orgUnitName, orgUnitType, risks, issues, opportunities, categories, opportunityCategories } = params;
   const categoryLabelMap: Record<string, string> = Object.fromEntries(categories.map((c) => [c.code, c.label]));
   const oppCategoryLabelMap: Record<string, string> = Object.fromEntries(opportunityCategories.map((c) => [c.code, c.label]));
+  const riskMatrix = params.riskMatrix ?? DEFAULT_RISK_MATRIX;
+  const opportunityMatrix = params.opportunityMatrix ?? DEFAULT_OPPORTUNITY_MATRIX;
+  const riskLevelLabel = (r: Risk) => (r.riskLevel ? `(${getLevelLabel(riskMatrix, r.riskLevel)})` : "—");
+  const oppLevelLabel = (o: Opportunity) => getLevelLabel(opportunityMatrix, o.opportunityLevel);
   const dateStr = new Date().toLocaleDateString("en-US", {
     year: "numeric",
     month: "short",
@@ -266,14 +276,34 @@ export async function generateRIOPowerPointReport(params: RIOReportParams): Prom
   const riskCount = risks.length;
   const issueCount = issues.length;
   const oppCount = opportunities.length;
-  const highRisks = risks.filter((r) => r.riskLevel === "high").length;
+  // Levels are ordered lowest to highest, so the top level is the last one
+  const topRiskLevel = riskMatrix.levels[riskMatrix.levels.length - 1];
+  const topLevelRisks = topRiskLevel ? risks.filter((r) => r.riskLevel === topRiskLevel.key).length : 0;
   const openRisks = risks.filter((r) => !["closed", "accepted", "realized"].includes(r.status ?? "")).length;
+  const riskExposureTotals = sumExposure(risks.filter(isExposedRisk).map(riskExposure));
+  const issueExposureTotals = sumExposure(issues.filter(isExposedIssue).map(issueExposure));
+  const issueStatusCounts = Object.entries(ISSUE_STATUS_LABEL)
+    .map(([status, label]) => ({ label: label.toLowerCase(), count: issues.filter((i) => i.status === status).length }))
+    .filter((s) => s.count > 0)
+    .map((s) => `${s.count} ${s.label}`);
+  const exposureBullets: BulletItem[] =
+    riskExposureTotals.quantified + issueExposureTotals.quantified > 0
+      ? [
+          `Expected exposure: ${formatExposure({
+            cost: riskExposureTotals.cost + issueExposureTotals.cost,
+            scheduleDays: riskExposureTotals.scheduleDays + issueExposureTotals.scheduleDays,
+          })}`,
+          { sub: `Risks: ${formatExposure(riskExposureTotals) || "—"} (${riskExposureTotals.quantified} of ${riskExposureTotals.count} active quantified)` },
+          { sub: `Issues: ${formatExposure(issueExposureTotals) || "—"} (${issueExposureTotals.quantified} of ${issueExposureTotals.count} active quantified)` },
+        ]
+      : [];
 
   const execSummaryBullets = [
     `Scope: ${entityName} — ${orgUnitType} ${orgUnitName}`,
-    `${riskCount} Risk${riskCount !== 1 ? "s" : ""} (${openRisks} open, ${highRisks} (H))`,
-    `${issueCount} Issue${issueCount !== 1 ? "s" : ""}`,
+    `${riskCount} Risk${riskCount !== 1 ? "s" : ""} (${openRisks} open, ${topLevelRisks} ${topRiskLevel?.label ?? "top level"})`,
+    `${issueCount} Issue${issueCount !== 1 ? "s" : ""}${issueStatusCounts.length > 0 ? ` (${issueStatusCounts.join(", ")})` : ""}`,
     `${oppCount} Opportunit${oppCount !== 1 ? "ies" : "y"}`,
+    ...exposureBullets,
     `Report date: ${dateStr}`,
   ];
   zip.file(slide2Path, setTitleAndContentSlide(slide2Xml, "Executive Summary", execSummaryBullets));
@@ -292,7 +322,7 @@ export async function generateRIOPowerPointReport(params: RIOReportParams): Prom
       : rs.flatMap((r) => {
           const name = (r.riskName ?? "Risk").slice(0, 50);
           const lc = `L${r.likelihood}xC${r.consequence}`;
-          const level = RISK_LEVEL_LABEL[r.riskLevel ?? ""] ?? r.riskLevel ?? "—";
+          const level = riskLevelLabel(r);
           const status = RISK_STATUS_LABEL[r.status ?? ""] ?? r.status ?? "—";
           const cat = r.category ? (categoryLabelMap[r.category] ?? r.category) : "—";
           return [name, { sub: `${lc} ${level} — ${cat} — ${status}` }];
@@ -315,7 +345,7 @@ export async function generateRIOPowerPointReport(params: RIOReportParams): Prom
       : opps.flatMap((o) => {
           const name = (o.opportunityName ?? "Opportunity").slice(0, 50);
           const li = `L${o.likelihood}xI${o.impact}`;
-          const level = OPP_LEVEL_LABEL[o.opportunityLevel ?? ""] ?? o.opportunityLevel ?? "—";
+          const level = oppLevelLabel(o);
           const status = OPP_STATUS_LABEL[o.status ?? ""] ?? o.status ?? "—";
           const cat = o.category ? (oppCategoryLabelMap[o.category] ?? o.category) : "—";
           return [name, { sub: `${li} (${level}) — ${cat} — ${status}` }];
@@ -338,11 +368,14 @@ export async function generateRIOPowerPointReport(params: RIOReportParams): Prom
 
   const toRiskDeepDiveBullets = (r: Risk, steps: MitigationStep[]): BulletItem[] => {
     const lc = `L${r.likelihood}xC${r.consequence}`;
-    const level = RISK_LEVEL_LABEL[r.riskLevel ?? ""] ?? r.riskLevel ?? "—";
+    const level = riskLevelLabel(r);
     const status = RISK_STATUS_LABEL[r.status ?? ""] ?? r.status ?? "—";
     const cat = r.category ? (categoryLabelMap[r.category] ?? r.category) : "—";
+    const breakdown = formatConsequenceBreakdown(r);
     const items: BulletItem[] = [
       `${lc} ${level} — ${cat} — ${status}${r.owner ? ` — Owner: ${r.owner}` : ""}`,
+      ...(breakdown ? [{ sub: `Consequence: ${breakdown}` }] : []),
+      ...(formatExposure(riskExposure(r)) ? [{ sub: `Exposure: ${formatExposure(riskExposure(r))} (${formatQuantifiedImpact(r)})` }] : []),
       { sub: `Condition: ${truncate(r.riskCondition ?? "", 200)}` },
       { sub: `If/Then: ${truncate((r.riskIf ?? "") + " → " + (r.riskThen ?? ""), 200)}` },
     ];
@@ -384,7 +417,7 @@ export async function generateRIOPowerPointReport(params: RIOReportParams): Prom
 
   const toOppDeepDiveBullets = (o: Opportunity, steps: ActionPlanStep[]): BulletItem[] => {
     const li = `L${o.likelihood}xI${o.impact}`;
-    const level = OPP_LEVEL_LABEL[o.opportunityLevel ?? ""] ?? o.opportunityLevel ?? "—";
+    const level = oppLevelLabel(o);
     const status = OPP_STATUS_LABEL[o.status ?? ""] ?? o.status ?? "—";
     const cat = o.category ? (oppCategoryLabelMap[o.category] ?? o.category) : "—";
     const items: BulletItem[] = [
@@ -420,6 +453,24 @@ export async function generateRIOPowerPointReport(params: RIOReportParams): Prom
   if (params.images?.riskMatrix) {
     contentSlides.push({ title: "5×5 Risk Matrix", imageDataUrl: params.images.riskMatrix });
   }
+  const simulation = params.simulation;
+  if (simulation && simulation.riskCount > 0) {
+    const simulationBullets = (label: string, dist: SimulationDistribution, format: (n: number) => string): BulletItem[] => [
+      `${label}: P50 ${format(dist.p50)} · P80 ${format(dist.p80)} (mean ${format(dist.mean)})`,
+      ...dist.tornado.slice(0, 3).map((t) => ({ sub: `${truncate(t.riskName, 50)} — ${Math.round(t.varianceShare * 100)}% of variance` })),
+    ];
+    contentSlides.push({
+      title: "Cost & Schedule Risk Simulation",
+      bullets: [
+        `${simulation.iterations.toLocaleString()} Monte Carlo iterations over ${simulation.riskCount} quantified risk${simulation.riskCount !== 1 ? "s" : ""}`,
+        ...(simulation.cost ? simulationBullets("Cost", simulation.cost, formatCurrency) : []),
+        ...(simulation.schedule ? simulationBullets("Schedule", simulation.schedule, formatDays) : []),
+      ],
+    });
+    if (params.images?.riskSimulation) {
+      contentSlides.push({ title: "Simulation S-Curves and Tornado", imageDataUrl: params.images.riskSimulation });
+    }
+  }
   risks.forEach((r) => {
     const steps = riskStepsMap.get(r.id) ?? [];
     contentSlides.push({
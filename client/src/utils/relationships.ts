@@ -0,0 +1,25 @@
+import type { RelationshipType, RioItemType } from "../types";
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = ["causes", "depends_on", "duplicates", "mitigates", "related_to"];
+
+/** How a link reads from each end: "A causes B", "B is caused by A". */
+export const RELATIONSHIP_LABELS: Record<RelationshipType, { outgoing: string; incoming: string }> = {
+  causes: { outgoing: "Causes", incoming: "Caused by" },
+  depends_on: { outgoing: "Depends on", incoming: "Required by" },
+  duplicates: { outgoing: "Duplicates", incoming: "Duplicated by" },
+  mitigates: { outgoing: "Mitigates", incoming: "Mitigated by" },
+  related_to: { outgoing: "Related to", incoming: "Related to" },
+};
+
+export const RELATIONSHIP_COLORS: Record<RelationshipType, string> = {
+  causes: "#dc2626",
+  depends_on: "#7c3aed",
+  duplicates: "#6b7280",
+  mitigates: "#059669",
+  related_to: "#9ca3af",
+};
+
+export const RIO_ITEM_LABELS: Record<RioItemType, string> = { risk: "Risk", issue: "Issue", opportunity: "Opportunity" };
+
+/** The same accents as the Risk, Issues and Opportunity tab groups. */
+export const RIO_ITEM_COLORS: Record<RioItemType, string> = { risk: "#d97706", issue: "#dc2626", opportunity: "#2563eb" };
@@ -0,0 +1,33 @@
+import type { ReviewCadence, ReviewFields } from "../types";
+
+/** Review cadence display (next review dates and overdue flags come from the server). */
+
+export const DEFAULT_REVIEW_CADENCE: ReviewCadence = {
+  risk: { high: 30, moderate: 60, low: 90 },
+  issue: { moderate: 14, low: 30 },
+  opportunity: { high: 30, moderate: 60, low: 90 },
+};
+
+/** Levels with no days set (e.g. a custom matrix level) */
+export const FALLBACK_REVIEW_DAYS = 90;
+
+export const MAX_REVIEW_DAYS = 730;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** e.g. "Overdue by 12 days", "Due today", "Due in 3 days". */
+export function reviewDueLabel(item: Pick<ReviewFields, "nextReviewDate" | "reviewOverdue">, now = new Date()): string {
+  if (!item.nextReviewDate) return "—";
+  const diff = new Date(item.nextReviewDate).getTime() - now.getTime();
+  if (item.reviewOverdue) {
+    const days = Math.floor(-diff / DAY_MS);
+    return days >= 1 ? `Overdue by ${days} day${days !== 1 ? "s" : ""}` : "Overdue";
+  }
+  const until = Math.floor(diff / DAY_MS);
+  if (until <= 0) return "Due today";
+  return `Due in ${until} day${until !== 1 ? "s" : ""}`;
+}
+
+export function formatCadence(days: number): string {
+  return days % 7 === 0 && days < 365 ? `every ${days / 7} week${days !== 7 ? "s" : ""}` : `every ${days} day${days !== 1 ? "s" : ""}`;
+}
@@ -0,0 +1,62 @@
+import type { Risk } from "../types";
+
+/**
+ * Per-dimension risk consequence (mirror of server/src/lib/riskConsequence.ts). When any dimension
+ * is rated, the overall consequence is the highest one; otherwise it is edited directly.
+ */
+export type ConsequenceField = "costConsequence" | "scheduleConsequence" | "performanceConsequence" | "otherConsequence";
+export type ConsequenceScores = Record<ConsequenceField, number | null>;
+
+export const CONSEQUENCE_DIMENSIONS: { field: ConsequenceField; reasonField: string; label: string; short: string }[] = [
+  { field: "costConsequence", reasonField: "costConsequenceChangeReason", label: "Cost", short: "C" },
+  { field: "scheduleConsequence", reasonField: "scheduleConsequenceChangeReason", label: "Schedule", short: "S" },
+  { field: "performanceConsequence", reasonField: "performanceConsequenceChangeReason", label: "Performance", short: "P" },
+  { field: "otherConsequence", reasonField: "otherConsequenceChangeReason", label: "Other", short: "O" },
+];
+
+export const NO_CONSEQUENCE_SCORES: ConsequenceScores = {
+  costConsequence: null,
+  scheduleConsequence: null,
+  performanceConsequence: null,
+  otherConsequence: null,
+};
+
+export function pickConsequenceScores(risk: Partial<Risk>): ConsequenceScores {
+  return {
+    costConsequence: risk.costConsequence ?? null,
+    scheduleConsequence: risk.scheduleConsequence ?? null,
+    performanceConsequence: risk.performanceConsequence ?? null,
+    otherConsequence: risk.otherConsequence ?? null,
+  };
+}
+
+/** Highest rated dimension, or null when none is rated. */
+export function overallConsequence(scores: ConsequenceScores): number | null {
+  const rated = CONSEQUENCE_DIMENSIONS.map((d) => scores[d.field]).filter((v): v is number => v != null);
+  return rated.length > 0 ? Math.max(...rated) : null;
+}
+
+export function changedConsequenceDimensions(before: ConsequenceScores, after: ConsequenceScores) {
+  return CONSEQUENCE_DIMENSIONS.filter((d) => before[d.field] !== after[d.field]);
+}
+
+/** e.g. "Cost 3 · Schedule 4 · Performance 2"; empty when the risk has no dimension scores. */
+export function formatConsequenceBreakdown(risk: Partial<Risk>): string {
+  const scores = pickConsequenceScores(risk);
+  return CONSEQUENCE_DIMENSIONS.filter((d) => scores[d.field] != null)
+    .map((d) => `${d.label} ${scores[d.field]}`)
+    .join(" · ");
+}
+
+/** e.g. "C3 S4 P2" for narrow table cells. */
+export function formatConsequenceCompact(risk: Partial<Risk>): string {
+  const scores = pickConsequenceScores(risk);
+  return CONSEQUENCE_DIMENSIONS.filter((d) => scores[d.field] != null)
+    .map((d) => `${d.short}${scores[d.field]}`)
+    .join(" ");
+}
+
+/** Dimension scores keyed the way criteria rubrics are (cost / schedule / performance). */
+export function toRubricScores(scores: ConsequenceScores) {
+  return { cost: scores.costConsequence, schedule: scores.scheduleConsequence, performance: scores.performanceConsequence };
+}
@@ -0,0 +1,24 @@
+import type { RiskIndicator } from "../types";
+
+/** Formatting for risk trigger / early-warning indicators (tripping is decided by the server). */
+
+export function formatIndicatorValue(value: number | null, unit: string | null): string {
+  if (value == null) return "—";
+  const n = value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  if (!unit) return n;
+  return unit === "%" ? `${n}%` : `${n} ${unit}`;
+}
+
+/** e.g. "≥ 90%" or "≤ 3 days". */
+export function formatThreshold(indicator: Pick<RiskIndicator, "direction" | "threshold" | "unit">): string {
+  return `${indicator.direction === "above" ? "≥" : "≤"} ${formatIndicatorValue(indicator.threshold, indicator.unit)}`;
+}
+
+/** The review date has passed (compared by calendar day). */
+export function isReviewDue(indicator: Pick<RiskIndicator, "reviewDate">, today = new Date()): boolean {
+  return indicator.reviewDate != null && indicator.reviewDate.slice(0, 10) <= today.toISOString().slice(0, 10);
+}
+
+export function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" }) : "—";
+}
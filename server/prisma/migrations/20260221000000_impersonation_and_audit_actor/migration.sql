@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "RiskAuditLog" ADD COLUMN "userId" TEXT,
+ADD COLUMN "userDisplayName" TEXT,
+ADD COLUMN "impersonatorUserId" TEXT,
+ADD COLUMN "impersonatorDisplayName" TEXT;
+
+-- AlterTable
+ALTER TABLE "IssueAuditLog" ADD COLUMN "userId" TEXT,
+ADD COLUMN "userDisplayName" TEXT,
+ADD COLUMN "impersonatorUserId" TEXT,
+ADD COLUMN "impersonatorDisplayName" TEXT;
+
+-- AlterTable
+ALTER TABLE "OpportunityAuditLog" ADD COLUMN "userId" TEXT,
+ADD COLUMN "userDisplayName" TEXT,
+ADD COLUMN "impersonatorUserId" TEXT,
+ADD COLUMN "impersonatorDisplayName" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImpersonationEvent" (
+    "id" TEXT NOT NULL,
+    "impersonatorUserId" TEXT NOT NULL,
+    "targetUserId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImpersonationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImpersonationEvent_impersonatorUserId_createdAt_idx" ON "ImpersonationEvent"("impersonatorUserId", "createdAt");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "RiskVersion" ADD COLUMN "userId" TEXT,
+ADD COLUMN "userDisplayName" TEXT,
+ADD COLUMN "impersonatorUserId" TEXT,
+ADD COLUMN "impersonatorDisplayName" TEXT;
+
+-- AlterTable
+ALTER TABLE "MitigationStepVersion" ADD COLUMN "userId" TEXT,
+ADD COLUMN "userDisplayName" TEXT,
+ADD COLUMN "impersonatorUserId" TEXT,
+ADD COLUMN "impersonatorDisplayName" TEXT;
+
+-- AlterTable
+ALTER TABLE "OpportunityVersion" ADD COLUMN "userId" TEXT,
+ADD COLUMN "userDisplayName" TEXT,
+ADD COLUMN "impersonatorUserId" TEXT,
+ADD COLUMN "impersonatorDisplayName" TEXT;
+
+-- AlterTable
+ALTER TABLE "OpportunityActionPlanStepVersion" ADD COLUMN "userId" TEXT,
+ADD COLUMN "userDisplayName" TEXT,
+ADD COLUMN "impersonatorUserId" TEXT,
+ADD COLUMN "impersonatorDisplayName" TEXT;
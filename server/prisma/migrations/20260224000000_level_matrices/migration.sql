@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "MatrixKind" AS ENUM ('risk', 'opportunity');
+
+-- CreateTable
+CREATE TABLE "LevelMatrix" (
+    "id" TEXT NOT NULL,
+    "legalEntityId" TEXT NOT NULL,
+    "kind" "MatrixKind" NOT NULL,
+    "definition" JSONB NOT NULL,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LevelMatrix_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LevelMatrix_legalEntityId_kind_key" ON "LevelMatrix"("legalEntityId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "LevelMatrix" ADD CONSTRAINT "LevelMatrix_legalEntityId_fkey" FOREIGN KEY ("legalEntityId") REFERENCES "LegalEntity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "CriteriaRubric" (
+    "id" TEXT NOT NULL,
+    "organizationalUnitId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "definition" JSONB NOT NULL,
+    "userId" TEXT,
+    "userDisplayName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CriteriaRubric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CriteriaRubric_organizationalUnitId_version_key" ON "CriteriaRubric"("organizationalUnitId", "version");
+
+-- AddForeignKey
+ALTER TABLE "CriteriaRubric" ADD CONSTRAINT "CriteriaRubric_organizationalUnitId_fkey" FOREIGN KEY ("organizationalUnitId") REFERENCES "OrganizationalUnit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Risk" ADD COLUMN "rubricVersion" INTEGER;
+ALTER TABLE "Issue" ADD COLUMN "rubricVersion" INTEGER;
+ALTER TABLE "Opportunity" ADD COLUMN "rubricVersion" INTEGER;
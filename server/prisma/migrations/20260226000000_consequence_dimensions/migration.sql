@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Risk" ADD COLUMN "costConsequence" INTEGER,
+ADD COLUMN "scheduleConsequence" INTEGER,
+ADD COLUMN "performanceConsequence" INTEGER,
+ADD COLUMN "otherConsequence" INTEGER;
+
+-- AlterTable
+ALTER TABLE "RiskVersion" ADD COLUMN "costConsequenceChangeReason" TEXT,
+ADD COLUMN "scheduleConsequenceChangeReason" TEXT,
+ADD COLUMN "performanceConsequenceChangeReason" TEXT,
+ADD COLUMN "otherConsequenceChangeReason" TEXT;
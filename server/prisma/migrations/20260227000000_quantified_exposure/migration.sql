@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN "costImpactLow" DOUBLE PRECISION,
+ADD COLUMN "costImpactHigh" DOUBLE PRECISION,
+ADD COLUMN "scheduleImpactLowDays" INTEGER,
+ADD COLUMN "scheduleImpactHighDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Risk" ADD COLUMN "probabilityPercent" DOUBLE PRECISION,
+ADD COLUMN "costImpactLow" DOUBLE PRECISION,
+ADD COLUMN "costImpactHigh" DOUBLE PRECISION,
+ADD COLUMN "scheduleImpactLowDays" INTEGER,
+ADD COLUMN "scheduleImpactHighDays" INTEGER;
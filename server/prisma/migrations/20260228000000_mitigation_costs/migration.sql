@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "MitigationStep" ADD COLUMN "estimatedCost" DOUBLE PRECISION,
+ADD COLUMN "actualCost" DOUBLE PRECISION;
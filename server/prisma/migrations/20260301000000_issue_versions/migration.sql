@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "IssueVersion" (
+    "id" TEXT NOT NULL,
+    "issueId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "consequenceChangeReason" TEXT,
+    "statusChangeRationale" TEXT,
+    "userId" TEXT,
+    "userDisplayName" TEXT,
+    "impersonatorUserId" TEXT,
+    "impersonatorDisplayName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IssueVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IssueVersion_issueId_createdAt_idx" ON "IssueVersion"("issueId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "IssueVersion" ADD CONSTRAINT "IssueVersion_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "Issue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "IssueResolutionStepVersion" (
+    "id" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "userId" TEXT,
+    "userDisplayName" TEXT,
+    "impersonatorUserId" TEXT,
+    "impersonatorDisplayName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IssueResolutionStepVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IssueResolutionStepVersion_stepId_createdAt_idx" ON "IssueResolutionStepVersion"("stepId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "IssueResolutionStepVersion" ADD CONSTRAINT "IssueResolutionStepVersion_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "IssueResolutionStep"("id") ON DELETE CASCADE ON UPDATE CASCADE;
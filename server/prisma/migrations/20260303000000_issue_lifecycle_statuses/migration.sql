@@ -0,0 +1,34 @@
+-- Replace IssueStatus (ignore, control) with the lifecycle open → resolving → resolved → closed, plus ignore.
+-- 'control' becomes 'resolving' for issues that have resolution steps and 'open' for those that do not.
+ALTER TABLE "Issue" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Issue" ALTER COLUMN "status" TYPE TEXT;
+DROP TYPE "IssueStatus";
+
+UPDATE "Issue" i SET "status" = CASE
+  WHEN EXISTS (SELECT 1 FROM "IssueResolutionStep" s WHERE s."issueId" = i."id") THEN 'resolving'
+  ELSE 'open'
+END
+WHERE i."status" = 'control';
+
+CREATE TYPE "IssueStatus" AS ENUM ('open', 'resolving', 'resolved', 'closed', 'ignore');
+ALTER TABLE "Issue" ALTER COLUMN "status" TYPE "IssueStatus" USING "status"::"IssueStatus";
+ALTER TABLE "Issue" ALTER COLUMN "status" SET DEFAULT 'open';
+
+-- Apply the same mapping to version snapshots and audit log changes, so history shows the new statuses
+UPDATE "IssueVersion" v SET "snapshot" = jsonb_set(v."snapshot", '{status}', to_jsonb(CASE
+  WHEN EXISTS (SELECT 1 FROM "IssueResolutionStep" s WHERE s."issueId" = v."issueId") THEN 'resolving'
+  ELSE 'open'
+END))
+WHERE v."snapshot"->>'status' = 'control';
+
+UPDATE "IssueAuditLog" l SET "details" = jsonb_set(l."details", '{changes,status,from}', to_jsonb(CASE
+  WHEN EXISTS (SELECT 1 FROM "IssueResolutionStep" s WHERE s."issueId" = l."issueId") THEN 'resolving'
+  ELSE 'open'
+END))
+WHERE l."details"->'changes'->'status'->>'from' = 'control';
+
+UPDATE "IssueAuditLog" l SET "details" = jsonb_set(l."details", '{changes,status,to}', to_jsonb(CASE
+  WHEN EXISTS (SELECT 1 FROM "IssueResolutionStep" s WHERE s."issueId" = l."issueId") THEN 'resolving'
+  ELSE 'open'
+END))
+WHERE l."details"->'changes'->'status'->>'to' = 'control';
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Risk" ADD COLUMN "escalatedFromRiskId" TEXT,
+ADD COLUMN "escalatedFromOrgUnitId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Risk_escalatedFromRiskId_idx" ON "Risk"("escalatedFromRiskId");
+
+-- AddForeignKey
+ALTER TABLE "Risk" ADD CONSTRAINT "Risk_escalatedFromRiskId_fkey" FOREIGN KEY ("escalatedFromRiskId") REFERENCES "Risk"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "RioItemType" AS ENUM ('risk', 'issue', 'opportunity');
+
+-- CreateEnum
+CREATE TYPE "RelationshipType" AS ENUM ('causes', 'depends_on', 'duplicates', 'mitigates', 'related_to');
+
+-- CreateTable
+CREATE TABLE "RioRelationship" (
+    "id" TEXT NOT NULL,
+    "sourceType" "RioItemType" NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "targetType" "RioItemType" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "type" "RelationshipType" NOT NULL,
+    "note" TEXT,
+    "userId" TEXT,
+    "userDisplayName" TEXT,
+    "impersonatorUserId" TEXT,
+    "impersonatorDisplayName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RioRelationship_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RioRelationship_sourceType_sourceId_targetType_targetId_type_key" ON "RioRelationship"("sourceType", "sourceId", "targetType", "targetId", "type");
+
+-- CreateIndex
+CREATE INDEX "RioRelationship_sourceType_sourceId_idx" ON "RioRelationship"("sourceType", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "RioRelationship_targetType_targetId_idx" ON "RioRelationship"("targetType", "targetId");
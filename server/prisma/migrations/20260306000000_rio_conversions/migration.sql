@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Risk" ADD COLUMN "sourceIssueId" TEXT,
+ADD COLUMN "sourceOpportunityId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Opportunity" ADD COLUMN "sourceRiskId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Risk_sourceIssueId_idx" ON "Risk"("sourceIssueId");
+
+-- CreateIndex
+CREATE INDEX "Risk_sourceOpportunityId_idx" ON "Risk"("sourceOpportunityId");
+
+-- CreateIndex
+CREATE INDEX "Opportunity_sourceRiskId_idx" ON "Opportunity"("sourceRiskId");
+
+-- AddForeignKey
+ALTER TABLE "Risk" ADD CONSTRAINT "Risk_sourceIssueId_fkey" FOREIGN KEY ("sourceIssueId") REFERENCES "Issue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Risk" ADD CONSTRAINT "Risk_sourceOpportunityId_fkey" FOREIGN KEY ("sourceOpportunityId") REFERENCES "Opportunity"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Opportunity" ADD CONSTRAINT "Opportunity_sourceRiskId_fkey" FOREIGN KEY ("sourceRiskId") REFERENCES "Risk"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "IndicatorDirection" AS ENUM ('above', 'below');
+
+-- CreateTable
+CREATE TABLE "RiskIndicator" (
+    "id" TEXT NOT NULL,
+    "riskId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "unit" TEXT,
+    "direction" "IndicatorDirection" NOT NULL DEFAULT 'above',
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "currentValue" DOUBLE PRECISION,
+    "reviewDate" TIMESTAMP(3),
+    "trippedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RiskIndicator_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RiskIndicatorReading" (
+    "id" TEXT NOT NULL,
+    "indicatorId" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "readAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "note" TEXT,
+    "userId" TEXT,
+    "userDisplayName" TEXT,
+    "impersonatorUserId" TEXT,
+    "impersonatorDisplayName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RiskIndicatorReading_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RiskIndicator_riskId_idx" ON "RiskIndicator"("riskId");
+
+-- CreateIndex
+CREATE INDEX "RiskIndicatorReading_indicatorId_readAt_idx" ON "RiskIndicatorReading"("indicatorId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "RiskIndicator" ADD CONSTRAINT "RiskIndicator_riskId_fkey" FOREIGN KEY ("riskId") REFERENCES "Risk"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RiskIndicatorReading" ADD CONSTRAINT "RiskIndicatorReading_indicatorId_fkey" FOREIGN KEY ("indicatorId") REFERENCES "RiskIndicator"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- Review cadence: per-unit days by item type and level, an optional per-item override, and when each
+-- item was last reviewed (the time of its latest version, including "reviewed, no change" versions).
+ALTER TABLE "OrganizationalUnit" ADD COLUMN "reviewCadence" JSONB;
+
+ALTER TABLE "Risk" ADD COLUMN "reviewCadenceDays" INTEGER;
+ALTER TABLE "Risk" ADD COLUMN "lastReviewedAt" TIMESTAMP(3);
+ALTER TABLE "Issue" ADD COLUMN "reviewCadenceDays" INTEGER;
+ALTER TABLE "Issue" ADD COLUMN "lastReviewedAt" TIMESTAMP(3);
+ALTER TABLE "Opportunity" ADD COLUMN "reviewCadenceDays" INTEGER;
+ALTER TABLE "Opportunity" ADD COLUMN "lastReviewedAt" TIMESTAMP(3);
+
+ALTER TABLE "RiskVersion" ADD COLUMN "reviewedNoChange" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "RiskVersion" ADD COLUMN "reviewNote" TEXT;
+ALTER TABLE "IssueVersion" ADD COLUMN "reviewedNoChange" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "IssueVersion" ADD COLUMN "reviewNote" TEXT;
+ALTER TABLE "OpportunityVersion" ADD COLUMN "reviewedNoChange" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "OpportunityVersion" ADD COLUMN "reviewNote" TEXT;
+
+-- Existing items were last reviewed at their latest version, or when created if they have none
+UPDATE "Risk" r SET "lastReviewedAt" = COALESCE((SELECT MAX(v."createdAt") FROM "RiskVersion" v WHERE v."riskId" = r."id"), r."createdAt");
+UPDATE "Issue" i SET "lastReviewedAt" = COALESCE((SELECT MAX(v."createdAt") FROM "IssueVersion" v WHERE v."issueId" = i."id"), i."createdAt");
+UPDATE "Opportunity" o SET "lastReviewedAt" = COALESCE((SELECT MAX(v."createdAt") FROM "OpportunityVersion" v WHERE v."opportunityId" = o."id"), o."createdAt");
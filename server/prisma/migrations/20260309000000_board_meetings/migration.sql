@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "BoardMeeting" (
+    "id" TEXT NOT NULL,
+    "organizationalUnitId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "meetingDate" TIMESTAMP(3) NOT NULL,
+    "location" TEXT,
+    "attendees" TEXT[],
+    "notes" TEXT,
+    "userId" TEXT,
+    "userDisplayName" TEXT,
+    "impersonatorUserId" TEXT,
+    "impersonatorDisplayName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardMeeting_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoardMeetingAgendaItem" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "sequenceOrder" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "itemType" "RioItemType",
+    "itemId" TEXT,
+    "discussion" TEXT,
+    "decision" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardMeetingAgendaItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BoardMeetingActionItem" (
+    "id" TEXT NOT NULL,
+    "meetingId" TEXT NOT NULL,
+    "agendaItemId" TEXT,
+    "description" TEXT NOT NULL,
+    "owner" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BoardMeetingActionItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BoardMeeting_organizationalUnitId_meetingDate_idx" ON "BoardMeeting"("organizationalUnitId", "meetingDate");
+
+-- CreateIndex
+CREATE INDEX "BoardMeetingAgendaItem_meetingId_sequenceOrder_idx" ON "BoardMeetingAgendaItem"("meetingId", "sequenceOrder");
+
+-- CreateIndex
+CREATE INDEX "BoardMeetingAgendaItem_itemType_itemId_idx" ON "BoardMeetingAgendaItem"("itemType", "itemId");
+
+-- CreateIndex
+CREATE INDEX "BoardMeetingActionItem_meetingId_idx" ON "BoardMeetingActionItem"("meetingId");
+
+-- AddForeignKey
+ALTER TABLE "BoardMeeting" ADD CONSTRAINT "BoardMeeting_organizationalUnitId_fkey" FOREIGN KEY ("organizationalUnitId") REFERENCES "OrganizationalUnit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardMeetingAgendaItem" ADD CONSTRAINT "BoardMeetingAgendaItem_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "BoardMeeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardMeetingActionItem" ADD CONSTRAINT "BoardMeetingActionItem_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "BoardMeeting"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardMeetingActionItem" ADD CONSTRAINT "BoardMeetingActionItem_agendaItemId_fkey" FOREIGN KEY ("agendaItemId") REFERENCES "BoardMeetingAgendaItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
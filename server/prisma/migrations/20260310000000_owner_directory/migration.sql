@@ -0,0 +1,36 @@
+-- Owner directory: people who own risks, issues and opportunities, optionally linked to a user account.
+-- Items keep the owner's name in "owner"; "ownerId" links it to the directory. Existing free-text owners
+-- stay unlinked until an Admin merges them (Settings → Owner directory).
+
+-- CreateTable
+CREATE TABLE "Person" (
+    "id" TEXT NOT NULL,
+    "displayName" TEXT NOT NULL,
+    "email" TEXT,
+    "userId" TEXT,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Person_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Person_userId_key" ON "Person"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Person" ADD CONSTRAINT "Person_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "Risk" ADD COLUMN "ownerId" TEXT;
+ALTER TABLE "Issue" ADD COLUMN "ownerId" TEXT;
+ALTER TABLE "Opportunity" ADD COLUMN "ownerId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Risk_ownerId_idx" ON "Risk"("ownerId");
+CREATE INDEX "Issue_ownerId_idx" ON "Issue"("ownerId");
+CREATE INDEX "Opportunity_ownerId_idx" ON "Opportunity"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "Risk" ADD CONSTRAINT "Risk_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Person"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Person"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "Opportunity" ADD CONSTRAINT "Opportunity_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "Person"("id") ON DELETE SET NULL ON UPDATE CASCADE;
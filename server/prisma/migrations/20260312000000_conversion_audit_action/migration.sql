@@ -0,0 +1,4 @@
+-- Entries on the source item of a conversion get their own action, so they no longer read as edits
+UPDATE "IssueAuditLog" SET "action" = 'converted' WHERE "action" = 'updated' AND "details" ? 'riskCreatedFromIssue';
+UPDATE "OpportunityAuditLog" SET "action" = 'converted' WHERE "action" = 'updated' AND "details" ? 'riskCreatedFromOpportunity';
+UPDATE "RiskAuditLog" SET "action" = 'converted' WHERE "action" = 'updated' AND "details" ? 'opportunityCreatedFromRisk';
@@ -0,0 +1,2 @@
+-- Aliases are matched case-insensitively: store them trimmed and lower case, without duplicates
+UPDATE "Person" SET "aliases" = ARRAY(SELECT DISTINCT lower(trim(a)) FROM unnest("aliases") AS a WHERE lower(trim(a)) <> lower("displayName"));
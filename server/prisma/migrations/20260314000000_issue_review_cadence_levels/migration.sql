@@ -0,0 +1,4 @@
+-- Issues have no "high" level (consequence 4-5 is "moderate"): a unit's days for high issues move to moderate
+UPDATE "OrganizationalUnit"
+SET "reviewCadence" = jsonb_set("reviewCadence", '{issue}', ("reviewCadence"->'issue' - 'high') || jsonb_build_object('moderate', "reviewCadence"->'issue'->'high'))
+WHERE "reviewCadence"->'issue' ? 'high';
@@ -138,6 +138,28 @@ async function main() {
     },
   });
 
+  // Dev users matching the mock IdP defaults (externalId = username for the mock provider)
+  const devUser = (username: string, displayName: string, isAdmin: boolean) =>
+    prisma.user.upsert({
+      where: { externalId: username },
+      update: { isAdmin },
+      create: { externalId: username, username, displayName, email: username, isAdmin },
+    });
+  await devUser("admin@example.com", "Dev Admin", true);
+  const editor = await devUser("editor@example.com", "Dev Editor", false);
+  const viewer = await devUser("viewer@example.com", "Dev Viewer", false);
+  const grants: { userId: string; unit: { id: string; legalEntityId: string }; role: "editor" | "viewer" }[] = [
+    ...[programAlpha, projectX, deptEng].map((unit) => ({ userId: editor.id, unit, role: "editor" as const })),
+    ...[programAlpha, progBravo, deptOperations].map((unit) => ({ userId: viewer.id, unit, role: "viewer" as const })),
+  ];
+  for (const g of grants) {
+    await prisma.userPermission.upsert({
+      where: { userId_organizationalUnitId: { userId: g.userId, organizationalUnitId: g.unit.id } },
+      update: { role: g.role },
+      create: { userId: g.userId, legalEntityId: g.unit.legalEntityId, organizationalUnitId: g.unit.id, role: g.role },
+    });
+  }
+
   const riskCount = await prisma.risk.count();
   if (riskCount > 0) {
     console.log("DB already has risks. Skipping seed to avoid duplicates.");
@@ -4,15 +4,36 @@
  * Prerequisites:
  *   - Server: npm run dev:server (or start server) so API is at http://localhost:3001
  *   - DB seeded so there is at least one entity and one org unit
+ *   - AUTH_PROVIDER=mock (the default in development); the script signs in as TEST_USERNAME.
+ *     Alternatively set RIO_API_KEY to a service-account key (needs Admin for the backfill tests).
  *
  * Run: node server/scripts/test-risk-versioning.mjs
  *   (from repo root) or: node scripts/test-risk-versioning.mjs (from server/)
  */
 
 const API = "http://localhost:3001/api";
+const TEST_USERNAME = process.env.TEST_USERNAME ?? "admin@example.com";
+
+let authHeader = {};
+
+/** Sign in through the mock IdP callback (JSON mode), or use RIO_API_KEY, and keep the bearer token for later calls. */
+async function signIn() {
+  if (process.env.RIO_API_KEY) {
+    authHeader = { Authorization: `Bearer ${process.env.RIO_API_KEY}` };
+    return;
+  }
+  const r = await fetch(`${API}/auth/callback`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username: TEST_USERNAME }),
+  });
+  if (!r.ok) throw new Error(`/auth/callback ${r.status}: ${await r.text()}`);
+  const { token } = await r.json();
+  authHeader = { Authorization: `Bearer ${token}` };
+}
 
 async function get(path) {
-  const r = await fetch(`${API}${path}`);
+  const r = await fetch(`${API}${path}`, { headers: authHeader });
   if (!r.ok) throw new Error(`${path} ${r.status}: ${await r.text()}`);
   return r.json();
 }
@@ -20,7 +41,7 @@ async function get(path) {
 async function post(path, body) {
   const r = await fetch(`${API}${path}`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...authHeader },
     body: JSON.stringify(body),
   });
   if (!r.ok) throw new Error(`${path} ${r.status}: ${await r.text()}`);
@@ -30,7 +51,7 @@ async function post(path, body) {
 async function patch(path, body) {
   const r = await fetch(`${API}${path}`, {
     method: "PATCH",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...authHeader },
     body: JSON.stringify(body),
   });
   if (!r.ok) throw new Error(`${path} ${r.status}: ${await r.text()}`);
@@ -44,6 +65,8 @@ function countRiskVersions(history) {
 async function main() {
   console.log("Risk versioning tests (API must be running at", API, ")\n");
 
+  await signIn();
+
   let passed = 0;
   let failed = 0;
 
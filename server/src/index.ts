@@ -8,12 +8,30 @@ import { opportunityRoutes } from "./routes/opportunities.js";
 import { opportunityCategoryRoutes } from "./routes/opportunityCategories.js";
 import { issueRoutes } from "./routes/issues.js";
 import { settingsRoutes } from "./routes/settings.js";
+import { authRoutes } from "./routes/auth.js";
+import { userRoutes } from "./routes/users.js";
+import { serviceAccountRoutes } from "./routes/serviceAccounts.js";
+import { relationshipRoutes } from "./routes/relationships.js";
+import { boardMeetingRoutes } from "./routes/boardMeetings.js";
+import { personRoutes } from "./routes/people.js";
+import { commentRoutes } from "./routes/comments.js";
+import { authenticate, requireAuth } from "./middleware/auth.js";
 
 const app = express();
 const PORT = process.env.PORT ?? 3001;
 
-app.use(cors({ origin: "http://localhost:5173" }));
+app.use(cors({ origin: "http://localhost:5173", credentials: true }));
 app.use(express.json());
+app.use(express.urlencoded({ extended: false })); // SAML POST binding and mock IdP form
+app.use(authenticate);
+
+app.get("/api/health", (_req, res) => {
+  res.json({ status: "ok", timestamp: new Date().toISOString() });
+});
+
+// Login/logout are public; every other API route requires a signed-in user.
+app.use("/api/auth", authRoutes);
+app.use("/api", requireAuth);
 
 app.use("/api/legal-entities", legalEntityRoutes);
 app.use("/api/organizational-units", orgUnitRoutes);
@@ -23,10 +41,12 @@ app.use("/api/opportunities", opportunityRoutes);
 app.use("/api/opportunity-categories", opportunityCategoryRoutes);
 app.use("/api/issues", issueRoutes);
 app.use("/api/settings", settingsRoutes);
-
-app.get("/api/health", (_req, res) => {
-  res.json({ status: "ok", timestamp: new Date().toISOString() });
-});
+app.use("/api/users", userRoutes);
+app.use("/api/service-accounts", serviceAccountRoutes);
+app.use("/api/relationships", relationshipRoutes);
+app.use("/api/board-meetings", boardMeetingRoutes);
+app.use("/api/people", personRoutes);
+app.use("/api/comments", commentRoutes);
 
 app.listen(PORT, () => {
   console.log(`RIO Management API running at http://localhost:${PORT}`);
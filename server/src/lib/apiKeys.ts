@@ -0,0 +1,19 @@
+import crypto from "crypto";
+
+/** All keys start with this so they are recognisable in logs and secret scanners, and distinguishable from session JWTs. */
+export const API_KEY_PREFIX = "rio_";
+
+/** Random 256-bit key; returns the plaintext (shown once) plus what we persist. */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), keyHash: hashApiKey(key) };
+}
+
+/** Keys are high-entropy random strings, so a plain SHA-256 (no salt/stretching) is sufficient at rest. */
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
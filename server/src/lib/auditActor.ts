@@ -0,0 +1,33 @@
+import type { Request } from "express";
+
+/** Author columns shared by RiskAuditLog, IssueAuditLog and OpportunityAuditLog. */
+export type AuditActor = {
+  userId: string | null;
+  userDisplayName: string | null;
+  impersonatorUserId: string | null;
+  impersonatorDisplayName: string | null;
+};
+
+/**
+ * Who is making this request: the effective user, plus the Admin behind them when impersonating.
+ * Service-account requests name the API key used, so a leaked key can be traced and revoked.
+ */
+export function auditActor(req: Request): AuditActor {
+  const displayName = req.user && req.apiKey ? `${req.user.displayName} (API key: ${req.apiKey.name})` : req.user?.displayName;
+  return {
+    userId: req.user?.id ?? null,
+    userDisplayName: displayName ?? null,
+    impersonatorUserId: req.impersonator?.id ?? null,
+    impersonatorDisplayName: req.impersonator?.displayName ?? null,
+  };
+}
+
+/** Pick the author columns off an audit or version row (for history responses). */
+export function actorOf(row: Partial<AuditActor>): AuditActor {
+  return {
+    userId: row.userId ?? null,
+    userDisplayName: row.userDisplayName ?? null,
+    impersonatorUserId: row.impersonatorUserId ?? null,
+    impersonatorDisplayName: row.impersonatorDisplayName ?? null,
+  };
+}
@@ -0,0 +1,142 @@
+import type { BoardMeeting, BoardMeetingActionItem, BoardMeetingAgendaItem, RioItemType } from "@prisma/client";
+import { prisma } from "./prisma.js";
+import type { AuditActor } from "./auditActor.js";
+import type { RioItemRef, RioItemSummary } from "./rioRelationships.js";
+
+/**
+ * Risk management board (RMB) meetings of an org unit: attendees, agenda items linked to risks, issues
+ * and opportunities with the decision recorded on each, and action items. A decision on a linked
+ * agenda item is appended to that item's audit log; minutes export as Markdown.
+ */
+
+export type MeetingFields = {
+  title: string;
+  meetingDate: Date;
+  location: string | null;
+  attendees: string[];
+  notes: string | null;
+};
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** A date from the body ("YYYY-MM-DD" or ISO), null when blank, or undefined when not a date. */
+export function readDate(value: unknown): Date | null | undefined {
+  if (value === null || value === "") return null;
+  if (typeof value !== "string") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/** Attendee names from an array or a comma / newline separated string, trimmed and de-duplicated. */
+export function readAttendees(value: unknown): string[] {
+  const names = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\n,]/) : [];
+  return [...new Set(names.filter((n): n is string => typeof n === "string").map((n) => n.trim()).filter(Boolean))];
+}
+
+/**
+ * Validate meeting fields from a request body over base (the current values on PATCH; null on create,
+ * where title and meetingDate are required). Returns an error message on bad input.
+ */
+export function readMeetingFields(body: Record<string, unknown>, base: MeetingFields | null): MeetingFields | string {
+  const title = body.title === undefined && base ? base.title : optionalText(body.title);
+  if (!title) return "title is required";
+  let meetingDate = base?.meetingDate ?? null;
+  if (body.meetingDate !== undefined || !base) {
+    meetingDate = readDate(body.meetingDate) ?? null;
+    if (!meetingDate) return "meetingDate must be a date";
+  }
+  return {
+    title,
+    meetingDate: meetingDate as Date,
+    location: body.location === undefined ? (base?.location ?? null) : optionalText(body.location),
+    attendees: body.attendees === undefined ? (base?.attendees ?? []) : readAttendees(body.attendees),
+    notes: body.notes === undefined ? (base?.notes ?? null) : optionalText(body.notes),
+  };
+}
+
+export type DecisionAuditDetails = {
+  meeting: { id: string; title: string; meetingDate: string };
+  agendaItemId: string;
+  decision: string;
+  /** Set when an earlier decision on the same agenda item was changed */
+  previousDecision?: string;
+};
+
+/** Append a "decision" entry to the audit log of the risk, issue or opportunity an agenda item is about. */
+export async function createDecisionAuditLog(actor: AuditActor, item: RioItemRef, details: DecisionAuditDetails) {
+  const entry = { ...actor, entityType: item.type, entityId: item.id, action: "decision", details };
+  if (item.type === "risk") await prisma.riskAuditLog.create({ data: { ...entry, riskId: item.id } });
+  else if (item.type === "issue") await prisma.issueAuditLog.create({ data: { ...entry, issueId: item.id } });
+  else await prisma.opportunityAuditLog.create({ data: { ...entry, opportunityId: item.id } });
+}
+
+const ITEM_TYPE_LABELS: Record<RioItemType, string> = { risk: "Risk", issue: "Issue", opportunity: "Opportunity" };
+
+type MinutesMeeting = BoardMeeting & {
+  organizationalUnit: { name: string };
+  agendaItems: BoardMeetingAgendaItem[];
+  actionItems: BoardMeetingActionItem[];
+};
+
+function formatDay(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 10) : "—";
+}
+
+/** Keep user text from breaking the Markdown structure (table cells, headings). */
+function inline(text: string): string {
+  return text.replace(/\r?\n+/g, " ").replace(/\|/g, "\\|");
+}
+
+/**
+ * Meeting minutes as Markdown: attendees, each agenda item with its discussion and decision, action
+ * items, and general notes. `items` holds the linked items the requester can view (by rioItemKey).
+ */
+export function renderMeetingMinutes(meeting: MinutesMeeting, items: Map<string, RioItemSummary>): string {
+  const lines: string[] = [
+    `# ${inline(meeting.title)}`,
+    "",
+    `**Risk management board — ${inline(meeting.organizationalUnit.name)}**`,
+    "",
+    `- Date: ${formatDay(meeting.meetingDate)}`,
+  ];
+  if (meeting.location) lines.push(`- Location: ${inline(meeting.location)}`);
+  lines.push(`- Attendees: ${meeting.attendees.length > 0 ? meeting.attendees.map(inline).join(", ") : "—"}`, "", "## Agenda and decisions", "");
+  if (meeting.agendaItems.length === 0) lines.push("No agenda items.", "");
+  meeting.agendaItems.forEach((a, i) => {
+    lines.push(`### ${i + 1}. ${inline(a.title)}`, "");
+    if (a.itemType && a.itemId) {
+      const item = items.get(`${a.itemType}:${a.itemId}`);
+      lines.push(
+        item
+          ? `${ITEM_TYPE_LABELS[a.itemType]}: ${inline(item.name)} (${inline(item.organizationalUnit.name)}; status ${item.status}${item.level ? `, level ${item.level}` : ""})`
+          : `${ITEM_TYPE_LABELS[a.itemType]}: not available`,
+        ""
+      );
+    }
+    if (a.discussion) lines.push(`Discussion: ${inline(a.discussion.trim())}`, "");
+    lines.push(`**Decision:** ${a.decision ? inline(a.decision.trim()) : "None recorded"}`, "");
+  });
+  lines.push("## Action items", "");
+  if (meeting.actionItems.length === 0) {
+    lines.push("No action items.", "");
+  } else {
+    const agendaNumber = new Map(meeting.agendaItems.map((a, i) => [a.id, i + 1]));
+    lines.push("| # | Action | Owner | Due | Agenda item | Status |", "| --- | --- | --- | --- | --- | --- |");
+    meeting.actionItems.forEach((ai, i) => {
+      const from = ai.agendaItemId ? agendaNumber.get(ai.agendaItemId) : undefined;
+      const status = ai.completedAt ? `Done ${formatDay(ai.completedAt)}` : "Open";
+      lines.push(`| ${i + 1} | ${inline(ai.description)} | ${inline(ai.owner ?? "—")} | ${formatDay(ai.dueDate)} | ${from ?? "—"} | ${status} |`);
+    });
+    lines.push("");
+  }
+  if (meeting.notes) lines.push("## Notes", "", meeting.notes.trim(), "");
+  return lines.join("\n");
+}
+
+/** File name for the minutes download, e.g. "RMB-2026-03-09-March-RMB.md". */
+export function minutesFileName(meeting: Pick<BoardMeeting, "title" | "meetingDate">): string {
+  const slug = meeting.title.replace(/[^a-zA-Z0-9_-]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+  return `RMB-${formatDay(meeting.meetingDate)}${slug ? `-${slug}` : ""}.md`;
+}
@@ -0,0 +1,80 @@
+import type { Comment, RioItemType } from "@prisma/client";
+import { prisma } from "./prisma.js";
+import type { AuditActor } from "./auditActor.js";
+import type { RioItemRef } from "./rioRelationships.js";
+
+/**
+ * Comment threads on risks, issues, opportunities and their steps. Comments are referenced by item type
+ * and id like relationships; each post, edit and delete is also appended to the item's audit log.
+ */
+
+const EXCERPT_LENGTH = 120;
+
+export function commentExcerpt(body: string): string {
+  const text = body.replace(/\s+/g, " ").trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+}
+
+/** Trimmed comment text, or null when blank. */
+export function readCommentBody(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Directory people mentioned in `body`: of the ids the client picked (`mentions`), those whose
+ * "@Display Name" is still in the text, so removing the name while editing drops the mention.
+ */
+export async function findMentionedPeople(body: string, mentions: unknown): Promise<{ id: string; displayName: string }[]> {
+  const ids = Array.isArray(mentions) ? mentions.filter((id): id is string => typeof id === "string") : [];
+  if (ids.length === 0) return [];
+  const people = await prisma.person.findMany({ where: { id: { in: ids } }, select: { id: true, displayName: true } });
+  const text = body.toLowerCase();
+  return people.filter((p) => text.includes(`@${p.displayName.toLowerCase()}`));
+}
+
+/** The step of an item a comment is about, with its 1-based number; null when it is not one of the item's steps. */
+export async function findCommentStep(type: RioItemType, itemId: string, stepId: string): Promise<{ id: string; stepNumber: number } | null> {
+  const select = { id: true, sequenceOrder: true } as const;
+  const step =
+    type === "risk"
+      ? await prisma.mitigationStep.findFirst({ where: { id: stepId, riskId: itemId }, select })
+      : type === "issue"
+        ? await prisma.issueResolutionStep.findFirst({ where: { id: stepId, issueId: itemId }, select })
+        : await prisma.opportunityActionPlanStep.findFirst({ where: { id: stepId, opportunityId: itemId }, select });
+  return step ? { id: step.id, stepNumber: step.sequenceOrder + 1 } : null;
+}
+
+export type CommentAuditAction = "commented" | "comment_edited" | "comment_deleted";
+
+export type CommentAuditDetails = {
+  commentId: string;
+  /** Start of the comment's text (for deletes, the text removed) */
+  excerpt: string;
+  /** Set on edits: start of the text before the edit */
+  previousExcerpt?: string;
+  /** Set when the comment is about a step of the item */
+  stepNumber?: number;
+  /** Set on replies: the thread's first comment */
+  parentId?: string;
+  /** Display names of the people mentioned */
+  mentions?: string[];
+};
+
+/** Append a comment event to the audit log of the risk, issue or opportunity it is on. */
+export async function createCommentAuditLog(actor: AuditActor, item: RioItemRef, action: CommentAuditAction, details: CommentAuditDetails) {
+  const entry = { ...actor, entityType: "comment", entityId: details.commentId, action, details };
+  if (item.type === "risk") await prisma.riskAuditLog.create({ data: { ...entry, riskId: item.id } });
+  else if (item.type === "issue") await prisma.issueAuditLog.create({ data: { ...entry, issueId: item.id } });
+  else await prisma.opportunityAuditLog.create({ data: { ...entry, opportunityId: item.id } });
+}
+
+/** Step number of the step a comment is on, for audit details (undefined when not on a step or the step is gone). */
+export async function commentStepNumber(comment: Pick<Comment, "itemType" | "itemId" | "stepId">): Promise<number | undefined> {
+  if (!comment.stepId) return undefined;
+  return (await findCommentStep(comment.itemType, comment.itemId, comment.stepId))?.stepNumber;
+}
+
+/** Remove every comment on an item. Call when deleting it; comments have no foreign key to the item. */
+export async function deleteRioItemComments(type: RioItemType, id: string) {
+  await prisma.comment.deleteMany({ where: { itemType: type, itemId: id } });
+}
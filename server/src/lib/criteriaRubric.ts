@@ -0,0 +1,85 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+/**
+ * Consequence / likelihood criteria rubrics from the DoD RIO guide: what "Consequence 4" means for
+ * cost, schedule and performance in one PPD. Rubrics are versioned; items store the version their
+ * score was assessed against (rubricVersion), which is copied into every version snapshot.
+ */
+export const RUBRIC_DIMENSIONS = ["cost", "schedule", "performance"] as const;
+export type RubricDimension = (typeof RUBRIC_DIMENSIONS)[number];
+
+/** One description per score, index 0 = score 1. Empty strings mean "not defined". */
+export type RubricScale = string[];
+
+export type RubricDefinition = {
+  likelihood: RubricScale;
+  /** Risk and issue consequence criteria */
+  consequence: Record<RubricDimension, RubricScale>;
+  /** Opportunity impact (benefit) criteria */
+  impact: Record<RubricDimension, RubricScale>;
+};
+
+export const RUBRIC_SIZE = 5;
+
+function parseScale(raw: unknown, name: string): RubricScale | string {
+  const value = raw ?? Array(RUBRIC_SIZE).fill("");
+  if (!Array.isArray(value) || value.length !== RUBRIC_SIZE || !value.every((s) => typeof s === "string")) {
+    return `${name} must be ${RUBRIC_SIZE} strings`;
+  }
+  return value.map((s: string) => s.trim());
+}
+
+function parseDimensions(raw: unknown, name: string): Record<RubricDimension, RubricScale> | string {
+  if (raw != null && typeof raw !== "object") return `${name} must be an object with cost, schedule and performance`;
+  const d = (raw ?? {}) as Record<string, unknown>;
+  const out = {} as Record<RubricDimension, RubricScale>;
+  for (const dim of RUBRIC_DIMENSIONS) {
+    const scale = parseScale(d[dim], `${name}.${dim}`);
+    if (typeof scale === "string") return scale;
+    out[dim] = scale;
+  }
+  return out;
+}
+
+/** Validate a rubric from a request body. Missing scales default to empty; returns an error message on bad input. */
+export function parseRubricDefinition(raw: unknown): RubricDefinition | string {
+  if (!raw || typeof raw !== "object") return "definition must be an object";
+  const d = raw as Record<string, unknown>;
+  const likelihood = parseScale(d.likelihood, "likelihood");
+  if (typeof likelihood === "string") return likelihood;
+  const consequence = parseDimensions(d.consequence, "consequence");
+  if (typeof consequence === "string") return consequence;
+  const impact = parseDimensions(d.impact, "impact");
+  if (typeof impact === "string") return impact;
+  const all = [likelihood, ...RUBRIC_DIMENSIONS.map((k) => consequence[k]), ...RUBRIC_DIMENSIONS.map((k) => impact[k])];
+  if (all.every((scale) => scale.every((s) => !s))) return "Define at least one criterion";
+  return { likelihood, consequence, impact };
+}
+
+type RubricClient = Pick<typeof prisma, "criteriaRubric">;
+
+const RUBRIC_SELECT = {
+  id: true,
+  organizationalUnitId: true,
+  version: true,
+  definition: true,
+  userId: true,
+  userDisplayName: true,
+  createdAt: true,
+} satisfies Prisma.CriteriaRubricSelect;
+
+/** Current (highest) rubric version of a PPD, or null when none has been defined. */
+export async function getCurrentRubric(organizationalUnitId: string, db: RubricClient = prisma) {
+  return db.criteriaRubric.findFirst({ where: { organizationalUnitId }, orderBy: { version: "desc" }, select: RUBRIC_SELECT });
+}
+
+export async function getRubricVersion(organizationalUnitId: string, version: number) {
+  return prisma.criteriaRubric.findUnique({ where: { organizationalUnitId_version: { organizationalUnitId, version } }, select: RUBRIC_SELECT });
+}
+
+/** Version number to stamp on a newly assessed score (null when the PPD has no rubric). */
+export async function getCurrentRubricVersion(organizationalUnitId: string, db: RubricClient = prisma): Promise<number | null> {
+  const row = await db.criteriaRubric.findFirst({ where: { organizationalUnitId }, orderBy: { version: "desc" }, select: { version: true } });
+  return row?.version ?? null;
+}
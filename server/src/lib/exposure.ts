@@ -0,0 +1,111 @@
+/**
+ * Quantified exposure, kept alongside the ordinal L×C score. Risks may carry a probability (0-100 %)
+ * and cost (dollars) / schedule (days) impact ranges; issues carry the ranges only, since they have
+ * already occurred (probability 100 %). Expected exposure = probability × midpoint of the range.
+ */
+export type QuantifiedImpact = {
+  probabilityPercent: number | null;
+  costImpactLow: number | null;
+  costImpactHigh: number | null;
+  scheduleImpactLowDays: number | null;
+  scheduleImpactHighDays: number | null;
+};
+
+/** Issue columns: the impact ranges without a probability. */
+export type ImpactRanges = Omit<QuantifiedImpact, "probabilityPercent">;
+
+export type Exposure = { cost: number | null; scheduleDays: number | null };
+
+export const NO_IMPACT_RANGES: ImpactRanges = {
+  costImpactLow: null,
+  costImpactHigh: null,
+  scheduleImpactLowDays: null,
+  scheduleImpactHighDays: null,
+};
+
+export const NO_QUANTIFIED_IMPACT: QuantifiedImpact = { probabilityPercent: null, ...NO_IMPACT_RANGES };
+
+export function pickImpactRanges(item: ImpactRanges): ImpactRanges {
+  return {
+    costImpactLow: item.costImpactLow,
+    costImpactHigh: item.costImpactHigh,
+    scheduleImpactLowDays: item.scheduleImpactLowDays,
+    scheduleImpactHighDays: item.scheduleImpactHighDays,
+  };
+}
+
+export function pickQuantifiedImpact(risk: QuantifiedImpact): QuantifiedImpact {
+  return { probabilityPercent: risk.probabilityPercent, ...pickImpactRanges(risk) };
+}
+
+const FIELD_RULES: Record<keyof QuantifiedImpact, { max?: number; integer?: boolean; label: string }> = {
+  probabilityPercent: { max: 100, label: "a number from 0 to 100" },
+  costImpactLow: { label: "a non-negative amount" },
+  costImpactHigh: { label: "a non-negative amount" },
+  scheduleImpactLowDays: { integer: true, label: "a non-negative whole number of days" },
+  scheduleImpactHighDays: { integer: true, label: "a non-negative whole number of days" },
+};
+
+/**
+ * Quantified fields from a request body merged over `base`: absent keys keep the base value, null or ""
+ * clears. Only the fields present in `base` are read. Returns an error message on bad input.
+ */
+export function readQuantifiedImpact<T extends Partial<QuantifiedImpact>>(body: Record<string, unknown>, base: T): T | string {
+  const out = { ...base };
+  for (const field of Object.keys(base) as (keyof QuantifiedImpact)[]) {
+    const raw = body[field];
+    if (raw === undefined) continue;
+    if (raw === null || raw === "") {
+      out[field] = null as T[keyof QuantifiedImpact];
+      continue;
+    }
+    const rule = FIELD_RULES[field];
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0 || (rule.max != null && n > rule.max) || (rule.integer && !Number.isInteger(n))) {
+      return `${field} must be ${rule.label}, or null`;
+    }
+    out[field] = n as T[keyof QuantifiedImpact];
+  }
+  if (out.costImpactLow != null && out.costImpactHigh != null && out.costImpactLow > out.costImpactHigh) {
+    return "costImpactLow cannot be greater than costImpactHigh";
+  }
+  if (out.scheduleImpactLowDays != null && out.scheduleImpactHighDays != null && out.scheduleImpactLowDays > out.scheduleImpactHighDays) {
+    return "scheduleImpactLowDays cannot be greater than scheduleImpactHighDays";
+  }
+  return out;
+}
+
+/** Midpoint of a range; a single bound stands for itself. */
+function midpoint(low: number | null, high: number | null): number | null {
+  if (low != null && high != null) return (low + high) / 2;
+  return low ?? high;
+}
+
+/** Expected exposure of one item. Risks without a probability have no exposure; issues use 100 %. */
+export function expectedExposure(item: ImpactRanges & { probabilityPercent?: number | null }, probabilityPercent = item.probabilityPercent): Exposure {
+  if (probabilityPercent == null) return { cost: null, scheduleDays: null };
+  const p = probabilityPercent / 100;
+  const cost = midpoint(item.costImpactLow, item.costImpactHigh);
+  const days = midpoint(item.scheduleImpactLowDays, item.scheduleImpactHighDays);
+  return { cost: cost != null ? cost * p : null, scheduleDays: days != null ? days * p : null };
+}
+
+export type ExposureTotals = { cost: number; scheduleDays: number; quantified: number; count: number };
+
+/** Sum of the items' expected exposure; `quantified` counts items with any exposure. */
+export function sumExposure(exposures: Exposure[]): ExposureTotals {
+  const totals: ExposureTotals = { cost: 0, scheduleDays: 0, quantified: 0, count: exposures.length };
+  for (const e of exposures) {
+    if (e.cost == null && e.scheduleDays == null) continue;
+    totals.quantified += 1;
+    totals.cost += e.cost ?? 0;
+    totals.scheduleDays += e.scheduleDays ?? 0;
+  }
+  return totals;
+}
+
+/** Risk statuses that still carry exposure (closed risks are retired; realized ones continue as issues). */
+export const EXPOSED_RISK_STATUSES = ["open", "mitigating", "accepted"] as const;
+
+/** Issue statuses that still carry exposure (resolved and closed issues no longer do). */
+export const EXPOSED_ISSUE_STATUSES = ["open", "resolving", "ignore"] as const;
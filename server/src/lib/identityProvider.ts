@@ -0,0 +1,50 @@
+import type { Request, Response } from "express";
+import { MockIdentityProvider } from "./mockIdentityProvider.js";
+import { SamlIdentityProvider } from "./samlIdentityProvider.js";
+
+/** Identity attributes asserted by the IdP at login; upserted into User on every login. */
+export type IdentityAttributes = {
+  /** Stable IdP identifier (e.g. Okta NameID) */
+  externalId: string;
+  username: string;
+  displayName: string;
+  email: string | null;
+};
+
+/**
+ * Pluggable identity provider. The auth routes only talk to this interface, so the
+ * local mock IdP (dev/tests) and Okta SAML (production) are interchangeable.
+ */
+export interface IdentityProvider {
+  readonly name: string;
+  /** Start login: redirect to the IdP or render its login page. `returnTo` is a same-origin path. */
+  startLogin(req: Request, res: Response, returnTo: string): Promise<void>;
+  /** Validate the IdP response posted to /api/auth/callback. Throws on an invalid response. */
+  handleCallback(req: Request): Promise<{ identity: IdentityAttributes; returnTo: string }>;
+  /** Where to send the browser after local logout (IdP sign-out page), if any. */
+  getLogoutRedirect(): string | null;
+}
+
+let provider: IdentityProvider | null = null;
+
+/** AUTH_PROVIDER=mock|saml. Defaults to mock outside production; mock is refused in production. */
+export function getIdentityProvider(): IdentityProvider {
+  if (provider) return provider;
+  const isProduction = process.env.NODE_ENV === "production";
+  const configured = process.env.AUTH_PROVIDER ?? (isProduction ? "saml" : "mock");
+  if (configured === "saml") {
+    provider = new SamlIdentityProvider();
+  } else if (configured === "mock") {
+    if (isProduction) throw new Error("AUTH_PROVIDER=mock is not allowed in production");
+    provider = new MockIdentityProvider();
+  } else {
+    throw new Error(`Unknown AUTH_PROVIDER "${configured}" (expected mock or saml)`);
+  }
+  return provider;
+}
+
+/** Only allow same-origin relative paths as post-login destinations (no open redirects). */
+export function safeReturnTo(value: unknown): string {
+  if (typeof value !== "string" || !value.startsWith("/") || value.startsWith("//")) return "/";
+  return value;
+}
@@ -0,0 +1,174 @@
+import { prisma } from "./prisma.js";
+import { actorOf, type AuditActor } from "./auditActor.js";
+import { getIssueLevel } from "./issueLevel.js";
+
+type IssueState = {
+  issueName: string;
+  description: string | null;
+  consequence: number;
+  issueLevel: string | null;
+  rubricVersion: number | null;
+  costImpactLow: number | null;
+  costImpactHigh: number | null;
+  scheduleImpactLowDays: number | null;
+  scheduleImpactHighDays: number | null;
+  owner: string | null;
+  category: string | null;
+  status: string;
+};
+
+export function toIssueSnapshot(issue: IssueState): IssueState {
+  return {
+    issueName: issue.issueName,
+    description: issue.description,
+    consequence: issue.consequence,
+    issueLevel: issue.issueLevel,
+    rubricVersion: issue.rubricVersion,
+    costImpactLow: issue.costImpactLow,
+    costImpactHigh: issue.costImpactHigh,
+    scheduleImpactLowDays: issue.scheduleImpactLowDays,
+    scheduleImpactHighDays: issue.scheduleImpactHighDays,
+    owner: issue.owner,
+    category: issue.category,
+    status: issue.status,
+  };
+}
+
+export type IssueVersionOptions = {
+  consequenceChangeReason?: string | null;
+  statusChangeRationale?: string | null;
+  /** "Reviewed, no change": the snapshot repeats the previous version */
+  reviewedNoChange?: boolean;
+  reviewNote?: string | null;
+  /** false for backfill and replay writes: they record history, not a review, so lastReviewedAt is left alone */
+  review?: boolean;
+};
+
+type PrismaClientLike = Pick<typeof prisma, "issueVersion" | "issue">;
+
+/** Every version counts as a review (unless options.review is false): the issue's lastReviewedAt moves to it. */
+export async function createIssueVersion(actor: AuditActor, issueId: string, issue: IssueState, options?: IssueVersionOptions, tx?: PrismaClientLike) {
+  const db = tx ?? prisma;
+  const count = await db.issueVersion.count({ where: { issueId } });
+  const created = await db.issueVersion.create({
+    data: {
+      ...actor,
+      issueId,
+      version: count + 1,
+      snapshot: toIssueSnapshot(issue),
+      consequenceChangeReason: options?.consequenceChangeReason ?? null,
+      statusChangeRationale: options?.statusChangeRationale ?? null,
+      reviewedNoChange: options?.reviewedNoChange ?? false,
+      reviewNote: options?.reviewNote ?? null,
+    },
+  });
+  if (options?.review !== false) {
+    await db.issue.update({ where: { id: issueId }, data: { lastReviewedAt: created.createdAt } });
+  }
+}
+
+type ResolutionStepState = {
+  plannedAction: string;
+  estimatedStartDate: Date | null;
+  estimatedEndDate: Date | null;
+  expectedConsequence: number;
+  actualConsequence: number | null;
+  actualCompletedAt: Date | null;
+};
+
+export function toResolutionStepSnapshot(step: ResolutionStepState) {
+  return {
+    plannedAction: step.plannedAction,
+    estimatedStartDate: step.estimatedStartDate?.toISOString() ?? null,
+    estimatedEndDate: step.estimatedEndDate?.toISOString() ?? null,
+    expectedConsequence: step.expectedConsequence,
+    actualConsequence: step.actualConsequence,
+    actualCompletedAt: step.actualCompletedAt?.toISOString() ?? null,
+  };
+}
+
+export async function createResolutionStepVersion(actor: AuditActor, stepId: string, step: ResolutionStepState) {
+  const count = await prisma.issueResolutionStepVersion.count({ where: { stepId } });
+  await prisma.issueResolutionStepVersion.create({
+    data: {
+      ...actor,
+      stepId,
+      version: count + 1,
+      snapshot: toResolutionStepSnapshot(step),
+    },
+  });
+}
+
+type AuditLogRow = AuditActor & { action: string; details: unknown; createdAt: Date };
+
+/**
+ * States rebuilt from an audit log: walking the "updated" entries back from the current state
+ * recovers the state after each change; the first state is the one before them, attributed to the
+ * "created" entry when there is one. Dates are ISO strings, as both snapshots and audit values store them.
+ */
+function replayAuditLog<T extends Record<string, unknown>>(
+  current: T,
+  logs: AuditLogRow[],
+  derive: (state: T) => T = (state) => state
+): { state: T; log: AuditLogRow | null }[] {
+  const updates = logs.filter((l) => l.action === "updated");
+  const states: { state: T; log: AuditLogRow | null }[] = [];
+  let state = current;
+  for (let i = updates.length - 1; i >= 0; i--) {
+    states.unshift({ state, log: updates[i] });
+    const changes = (updates[i].details as { changes?: Record<string, { from: unknown }> } | null)?.changes ?? {};
+    const before: Record<string, unknown> = { ...state };
+    for (const [field, { from }] of Object.entries(changes)) {
+      if (field in before) before[field] = from;
+    }
+    state = derive(before as T);
+  }
+  states.unshift({ state, log: logs.find((l) => l.action === "created") ?? null });
+  return states;
+}
+
+/**
+ * Versions for an issue created before versioning, rebuilt from its audit log. Version 1 is dated at
+ * creation. Returns the number of versions created.
+ */
+export async function backfillIssueVersions(issue: IssueState & { id: string; createdAt: Date }): Promise<number> {
+  const logs = await prisma.issueAuditLog.findMany({
+    where: { issueId: issue.id, entityType: "issue" },
+    orderBy: { createdAt: "asc" },
+  });
+  const states = replayAuditLog(toIssueSnapshot(issue), logs, (s) => ({ ...s, issueLevel: getIssueLevel(s.consequence) }));
+  await prisma.issueVersion.createMany({
+    data: states.map(({ state, log }, i) => ({
+      ...actorOf(log ?? {}),
+      issueId: issue.id,
+      version: i + 1,
+      snapshot: state,
+      createdAt: i === 0 ? issue.createdAt : log!.createdAt,
+    })),
+  });
+  return states.length;
+}
+
+/** The same for each of the issue's resolution steps that has no versions. */
+export async function backfillResolutionStepVersions(issueId: string): Promise<number> {
+  const steps = await prisma.issueResolutionStep.findMany({ where: { issueId, versions: { none: {} } } });
+  let created = 0;
+  for (const step of steps) {
+    const logs = await prisma.issueAuditLog.findMany({
+      where: { issueId, entityType: "resolution_step", entityId: step.id },
+      orderBy: { createdAt: "asc" },
+    });
+    const states = replayAuditLog(toResolutionStepSnapshot(step), logs);
+    await prisma.issueResolutionStepVersion.createMany({
+      data: states.map(({ state, log }, i) => ({
+        ...actorOf(log ?? {}),
+        stepId: step.id,
+        version: i + 1,
+        snapshot: state,
+        createdAt: i === 0 ? step.createdAt : log!.createdAt,
+      })),
+    });
+    created += states.length;
+  }
+  return created;
+}
@@ -0,0 +1,264 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+/**
+ * Configurable 5x5 matrices (one risk and one opportunity matrix per legal entity).
+ * Entities without a stored LevelMatrix row use the DoD defaults below. The client reads the
+ * same definitions from GET /api/legal-entities/:id/matrices, so colors and ranks stay in sync.
+ */
+export type MatrixKind = "risk" | "opportunity";
+
+export const MATRIX_KINDS: MatrixKind[] = ["risk", "opportunity"];
+
+export type MatrixLevel = {
+  /** Stored in Risk.riskLevel / Opportunity.opportunityLevel (e.g. "low") */
+  key: string;
+  label: string;
+  /** Hex color, e.g. "#22c55e" */
+  color: string;
+};
+
+export type MatrixCell = {
+  level: string;
+  /** Numeric level 1-25 used for waterfall charts and sorting; unique per cell */
+  rank: number;
+};
+
+export type MatrixDefinition = {
+  /** Row labels, index 0 = likelihood 1 */
+  likelihoodLabels: string[];
+  /** Optional probability ranges shown under the likelihood labels */
+  likelihoodDetails: string[];
+  /** Column labels (consequence for risks, impact for opportunities), index 0 = 1 */
+  consequenceLabels: string[];
+  /** Ordered lowest to highest */
+  levels: MatrixLevel[];
+  /** cells[likelihood - 1][consequence - 1] */
+  cells: MatrixCell[][];
+};
+
+export const MATRIX_SIZE = 5;
+
+const DOD_LEVELS: MatrixLevel[] = [
+  { key: "low", label: "Low", color: "#22c55e" },
+  { key: "moderate", label: "Moderate", color: "#eab308" },
+  { key: "high", label: "High", color: "#ef4444" },
+];
+
+// Opportunity levels keep the same keys but read as Good / Very Good / Excellent (light purple / medium blue / light blue).
+const OPPORTUNITY_LEVELS: MatrixLevel[] = [
+  { key: "low", label: "Good", color: "#ddd6fe" },
+  { key: "moderate", label: "Very Good", color: "#60a5fa" },
+  { key: "high", label: "Excellent", color: "#38bdf8" },
+];
+
+// DoD 5x5 (MIL-STD-882 style). Rows are likelihood 1-5, columns consequence 1-5.
+const DOD_LEVEL_TABLE = [
+  ["low", "low", "low", "moderate", "moderate"],
+  ["low", "low", "moderate", "moderate", "high"],
+  ["low", "moderate", "moderate", "high", "high"],
+  ["moderate", "moderate", "high", "high", "high"],
+  ["moderate", "high", "high", "high", "high"],
+];
+
+// Numerical level 1-25 for waterfall charts.
+const DOD_RANK_TABLE = [
+  [1, 3, 5, 9, 12],
+  [2, 4, 11, 15, 17],
+  [6, 10, 14, 19, 21],
+  [7, 13, 18, 22, 24],
+  [8, 16, 20, 23, 25],
+];
+
+const DOD_CELLS: MatrixCell[][] = DOD_LEVEL_TABLE.map((row, l) => row.map((level, c) => ({ level, rank: DOD_RANK_TABLE[l][c] })));
+
+const LIKELIHOOD_LABELS = ["Not Likely", "Low Likely", "Likely", "High Likely", "Near Certain"];
+const LIKELIHOOD_DETAILS = [">1% to ≤20%", ">20% to ≤40%", ">40% to ≤60%", ">60% to ≤80%", ">80% to ≤99%"];
+
+export const DEFAULT_RISK_MATRIX: MatrixDefinition = {
+  likelihoodLabels: LIKELIHOOD_LABELS,
+  likelihoodDetails: LIKELIHOOD_DETAILS,
+  consequenceLabels: ["Minimal", "Minor", "Moderate", "Significant", "Severe"],
+  levels: DOD_LEVELS,
+  cells: DOD_CELLS,
+};
+
+export const DEFAULT_OPPORTUNITY_MATRIX: MatrixDefinition = {
+  likelihoodLabels: LIKELIHOOD_LABELS,
+  likelihoodDetails: LIKELIHOOD_DETAILS,
+  consequenceLabels: ["Minimal", "Minor", "Moderate", "Significant", "Substantial"],
+  levels: OPPORTUNITY_LEVELS,
+  cells: DOD_CELLS,
+};
+
+export function defaultMatrix(kind: MatrixKind): MatrixDefinition {
+  return kind === "risk" ? DEFAULT_RISK_MATRIX : DEFAULT_OPPORTUNITY_MATRIX;
+}
+
+function cellAt(matrix: MatrixDefinition, likelihood: number, consequence: number): MatrixCell {
+  const l = Math.max(1, Math.min(MATRIX_SIZE, likelihood));
+  const c = Math.max(1, Math.min(MATRIX_SIZE, consequence));
+  return matrix.cells[l - 1][c - 1];
+}
+
+export function getCellLevel(matrix: MatrixDefinition, likelihood: number, consequence: number): string {
+  return cellAt(matrix, likelihood, consequence).level;
+}
+
+export function getCellRank(matrix: MatrixDefinition, likelihood: number, consequence: number): number {
+  return cellAt(matrix, likelihood, consequence).rank;
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+function isLabelList(v: unknown, size: number): v is string[] {
+  return Array.isArray(v) && v.length === size && v.every((s) => typeof s === "string" && s.trim() !== "");
+}
+
+/** Validate a PUT body. Returns the normalised definition, or an error message. */
+export function parseMatrixDefinition(raw: unknown): MatrixDefinition | string {
+  if (!raw || typeof raw !== "object") return "definition must be an object";
+  const d = raw as Record<string, unknown>;
+  if (!isLabelList(d.likelihoodLabels, MATRIX_SIZE)) return `likelihoodLabels must be ${MATRIX_SIZE} non-empty strings`;
+  if (!isLabelList(d.consequenceLabels, MATRIX_SIZE)) return `consequenceLabels must be ${MATRIX_SIZE} non-empty strings`;
+  const likelihoodDetails = d.likelihoodDetails ?? Array(MATRIX_SIZE).fill("");
+  if (!Array.isArray(likelihoodDetails) || likelihoodDetails.length !== MATRIX_SIZE || !likelihoodDetails.every((s) => typeof s === "string")) {
+    return `likelihoodDetails must be ${MATRIX_SIZE} strings`;
+  }
+
+  if (!Array.isArray(d.levels) || d.levels.length === 0) return "levels must be a non-empty array";
+  const levels: MatrixLevel[] = [];
+  for (const lv of d.levels as unknown[]) {
+    const { key, label, color } = (lv ?? {}) as Record<string, unknown>;
+    if (typeof key !== "string" || !/^[a-z0-9_]+$/.test(key)) return "Each level needs a key of lowercase letters, digits or underscores";
+    if (typeof label !== "string" || !label.trim()) return `Level "${key}" needs a label`;
+    if (typeof color !== "string" || !HEX_COLOR.test(color)) return `Level "${key}" needs a color like #22c55e`;
+    if (levels.some((l) => l.key === key)) return `Duplicate level key "${key}"`;
+    levels.push({ key, label: label.trim(), color });
+  }
+
+  if (!Array.isArray(d.cells) || d.cells.length !== MATRIX_SIZE) return `cells must be ${MATRIX_SIZE} rows`;
+  const cells: MatrixCell[][] = [];
+  const ranks = new Set<number>();
+  for (const row of d.cells as unknown[]) {
+    if (!Array.isArray(row) || row.length !== MATRIX_SIZE) return `Each cells row must have ${MATRIX_SIZE} cells`;
+    const parsedRow: MatrixCell[] = [];
+    for (const cell of row) {
+      const { level, rank } = (cell ?? {}) as Record<string, unknown>;
+      if (typeof level !== "string" || !levels.some((l) => l.key === level)) return "Each cell level must be one of the defined level keys";
+      if (typeof rank !== "number" || !Number.isInteger(rank) || rank < 1 || rank > MATRIX_SIZE * MATRIX_SIZE) {
+        return `Each cell rank must be an integer from 1 to ${MATRIX_SIZE * MATRIX_SIZE}`;
+      }
+      ranks.add(rank);
+      parsedRow.push({ level, rank });
+    }
+    cells.push(parsedRow);
+  }
+  if (ranks.size !== MATRIX_SIZE * MATRIX_SIZE) return "Cell ranks must be unique";
+  if (levels.some((lv) => !cells.some((row) => row.some((cell) => cell.level === lv.key)))) return "Every level must be used by at least one cell";
+
+  return {
+    likelihoodLabels: (d.likelihoodLabels as string[]).map((s) => s.trim()),
+    likelihoodDetails: (likelihoodDetails as string[]).map((s) => s.trim()),
+    consequenceLabels: (d.consequenceLabels as string[]).map((s) => s.trim()),
+    levels,
+    cells,
+  };
+}
+
+/** Stored matrix for an entity, or the default; `isDefault` tells the UI whether one has been configured. */
+export async function getLegalEntityMatrix(legalEntityId: string, kind: MatrixKind) {
+  const row = await prisma.levelMatrix.findUnique({ where: { legalEntityId_kind: { legalEntityId, kind } } });
+  return {
+    kind,
+    isDefault: !row,
+    updatedAt: row?.updatedAt ?? null,
+    definition: row ? (row.definition as unknown as MatrixDefinition) : defaultMatrix(kind),
+  };
+}
+
+/** Matrix that applies to an org unit (through its legal entity). */
+export async function getOrgUnitMatrix(organizationalUnitId: string, kind: MatrixKind): Promise<MatrixDefinition> {
+  const ou = await prisma.organizationalUnit.findUnique({ where: { id: organizationalUnitId }, select: { legalEntityId: true } });
+  if (!ou) return defaultMatrix(kind);
+  return (await getLegalEntityMatrix(ou.legalEntityId, kind)).definition;
+}
+
+/**
+ * Rewrite the stored levels of every risk (or opportunity) in the entity after its matrix changed:
+ * Risk.riskLevel plus MitigationStep expected/actual ranks, or the opportunity equivalents.
+ * Version snapshots are history and keep the level they were assessed with.
+ */
+export async function recomputeStoredLevels(tx: Prisma.TransactionClient, legalEntityId: string, kind: MatrixKind, matrix: MatrixDefinition) {
+  const where = { organizationalUnit: { legalEntityId } };
+  let items = 0;
+  let steps = 0;
+  if (kind === "risk") {
+    const risks = await tx.risk.findMany({
+      where,
+      select: {
+        id: true,
+        likelihood: true,
+        consequence: true,
+        riskLevel: true,
+        mitigationSteps: {
+          select: { id: true, expectedLikelihood: true, expectedConsequence: true, expectedRiskLevel: true, actualLikelihood: true, actualConsequence: true, actualRiskLevel: true },
+        },
+      },
+    });
+    for (const r of risks) {
+      const riskLevel = getCellLevel(matrix, r.likelihood, r.consequence);
+      if (riskLevel !== r.riskLevel) {
+        await tx.risk.update({ where: { id: r.id }, data: { riskLevel } });
+        items++;
+      }
+      for (const s of r.mitigationSteps) {
+        const expectedRiskLevel = getCellRank(matrix, s.expectedLikelihood, s.expectedConsequence);
+        const actualRiskLevel =
+          s.actualLikelihood != null && s.actualConsequence != null ? getCellRank(matrix, s.actualLikelihood, s.actualConsequence) : null;
+        if (expectedRiskLevel !== s.expectedRiskLevel || actualRiskLevel !== s.actualRiskLevel) {
+          await tx.mitigationStep.update({ where: { id: s.id }, data: { expectedRiskLevel, actualRiskLevel } });
+          steps++;
+        }
+      }
+    }
+  } else {
+    const opportunities = await tx.opportunity.findMany({
+      where,
+      select: {
+        id: true,
+        likelihood: true,
+        impact: true,
+        opportunityLevel: true,
+        actionPlanSteps: {
+          select: {
+            id: true,
+            expectedLikelihood: true,
+            expectedImpact: true,
+            expectedOpportunityLevel: true,
+            actualLikelihood: true,
+            actualImpact: true,
+            actualOpportunityLevel: true,
+          },
+        },
+      },
+    });
+    for (const o of opportunities) {
+      const opportunityLevel = getCellLevel(matrix, o.likelihood, o.impact);
+      if (opportunityLevel !== o.opportunityLevel) {
+        await tx.opportunity.update({ where: { id: o.id }, data: { opportunityLevel } });
+        items++;
+      }
+      for (const s of o.actionPlanSteps) {
+        const expectedOpportunityLevel = getCellRank(matrix, s.expectedLikelihood, s.expectedImpact);
+        const actualOpportunityLevel =
+          s.actualLikelihood != null && s.actualImpact != null ? getCellRank(matrix, s.actualLikelihood, s.actualImpact) : null;
+        if (expectedOpportunityLevel !== s.expectedOpportunityLevel || actualOpportunityLevel !== s.actualOpportunityLevel) {
+          await tx.opportunityActionPlanStep.update({ where: { id: s.id }, data: { expectedOpportunityLevel, actualOpportunityLevel } });
+          steps++;
+        }
+      }
+    }
+  }
+  return { items, steps };
+}
@@ -0,0 +1,135 @@
+/**
+ * Mitigation cost and return on mitigation. Each step may carry an estimated and an actual cost ($).
+ * A step's risk reduction is the drop in numerical risk level (1-25) it achieves over the previous
+ * step: planned from the expected levels, actual from the levels recorded when steps were completed.
+ * Both start from the risk's baseline (original) level. Reduction per dollar = reduction / cost.
+ */
+export type MitigationCosts = { estimatedCost: number | null; actualCost: number | null };
+
+export type RoiStep = MitigationCosts & {
+  id: string;
+  sequenceOrder: number;
+  mitigationActions: string;
+  expectedRiskLevel: number;
+  actualRiskLevel: number | null;
+  actualCompletedAt: Date | null;
+};
+
+export type StepRoi = MitigationCosts & {
+  stepId: string;
+  stepNumber: number;
+  mitigationActions: string;
+  completed: boolean;
+  /** Planned drop in risk level: previous step's expected level (or the baseline) − this step's */
+  expectedReduction: number;
+  /** Achieved drop: previous completed step's actual level (or the baseline) − this step's; null until completed */
+  actualReduction: number | null;
+  /** expectedReduction / estimatedCost; null without a positive estimate */
+  expectedReductionPerDollar: number | null;
+  /** actualReduction / actualCost; null until completed with a positive actual cost */
+  actualReductionPerDollar: number | null;
+};
+
+export type MitigationRoiTotals = {
+  estimatedCost: number;
+  actualCost: number;
+  stepCount: number;
+  expectedReduction: number;
+  actualReduction: number;
+  /** Reduction of the steps with a cost ÷ their summed cost */
+  expectedReductionPerDollar: number | null;
+  actualReductionPerDollar: number | null;
+};
+
+export type RiskMitigationRoi = {
+  riskId: string;
+  riskName: string;
+  status: string;
+  baselineRiskLevel: number;
+  currentRiskLevel: number;
+  steps: StepRoi[];
+  totals: MitigationRoiTotals;
+};
+
+function perDollar(reduction: number | null, cost: number | null): number | null {
+  return reduction != null && cost != null && cost > 0 ? reduction / cost : null;
+}
+
+export function stepRoi(baselineRiskLevel: number, steps: RoiStep[]): StepRoi[] {
+  let expectedBefore = baselineRiskLevel;
+  let actualBefore = baselineRiskLevel;
+  return [...steps]
+    .sort((a, b) => a.sequenceOrder - b.sequenceOrder)
+    .map((s, i) => {
+      const expectedReduction = expectedBefore - s.expectedRiskLevel;
+      expectedBefore = s.expectedRiskLevel;
+      const completed = s.actualCompletedAt != null && s.actualRiskLevel != null;
+      let actualReduction: number | null = null;
+      if (completed) {
+        actualReduction = actualBefore - s.actualRiskLevel!;
+        actualBefore = s.actualRiskLevel!;
+      }
+      return {
+        stepId: s.id,
+        stepNumber: i + 1,
+        mitigationActions: s.mitigationActions,
+        completed,
+        estimatedCost: s.estimatedCost,
+        actualCost: s.actualCost,
+        expectedReduction,
+        actualReduction,
+        expectedReductionPerDollar: perDollar(expectedReduction, s.estimatedCost),
+        actualReductionPerDollar: perDollar(actualReduction, s.actualCost),
+      };
+    });
+}
+
+export function sumRoi(steps: StepRoi[]): MitigationRoiTotals {
+  const totals: MitigationRoiTotals = {
+    estimatedCost: 0,
+    actualCost: 0,
+    stepCount: steps.length,
+    expectedReduction: 0,
+    actualReduction: 0,
+    expectedReductionPerDollar: null,
+    actualReductionPerDollar: null,
+  };
+  let expectedCosted = 0;
+  let actualCosted = 0;
+  for (const s of steps) {
+    totals.estimatedCost += s.estimatedCost ?? 0;
+    totals.actualCost += s.actualCost ?? 0;
+    totals.expectedReduction += s.expectedReduction;
+    totals.actualReduction += s.actualReduction ?? 0;
+    if (s.expectedReductionPerDollar != null) expectedCosted += s.expectedReduction;
+    if (s.actualReductionPerDollar != null) actualCosted += s.actualReduction ?? 0;
+  }
+  totals.expectedReductionPerDollar = perDollar(expectedCosted, totals.estimatedCost);
+  totals.actualReductionPerDollar = perDollar(actualCosted, totals.actualCost);
+  return totals;
+}
+
+/** Totals across risks, e.g. an org unit's portfolio. */
+export function sumPortfolioRoi(risks: RiskMitigationRoi[]): MitigationRoiTotals {
+  return sumRoi(risks.flatMap((r) => r.steps));
+}
+
+/**
+ * Step cost fields from a request body merged over `base`: absent keys keep the base value, null or ""
+ * clears. Returns an error message on bad input.
+ */
+export function readMitigationCosts(body: Record<string, unknown>, base: MitigationCosts): MitigationCosts | string {
+  const out = { ...base };
+  for (const field of ["estimatedCost", "actualCost"] as const) {
+    const raw = body[field];
+    if (raw === undefined) continue;
+    if (raw === null || raw === "") {
+      out[field] = null;
+      continue;
+    }
+    const n = Number(raw);
+    if (!Number.isFinite(n) || n < 0) return `${field} must be a non-negative amount, or null`;
+    out[field] = n;
+  }
+  return out;
+}
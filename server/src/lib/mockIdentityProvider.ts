@@ -0,0 +1,80 @@
+import type { Request, Response } from "express";
+import { safeReturnTo, type IdentityAttributes, type IdentityProvider } from "./identityProvider.js";
+
+/** Default dev identities; override with MOCK_IDP_USERS="username:Display Name,username2:Other Name". */
+const DEFAULT_USERS: { username: string; displayName: string }[] = [
+  { username: "admin@example.com", displayName: "Dev Admin" },
+  { username: "editor@example.com", displayName: "Dev Editor" },
+  { username: "viewer@example.com", displayName: "Dev Viewer" },
+];
+
+function configuredUsers(): { username: string; displayName: string }[] {
+  const raw = process.env.MOCK_IDP_USERS;
+  if (!raw) return DEFAULT_USERS;
+  return raw
+    .split(",")
+    .map((entry) => {
+      const [username, displayName] = entry.split(":").map((s) => s.trim());
+      return { username, displayName: displayName || username };
+    })
+    .filter((u) => u.username);
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (ch) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[ch] as string);
+}
+
+/**
+ * Local stand-in IdP for development and API tests. Renders a sign-in form that posts
+ * straight back to /api/auth/callback; no password, any username is accepted.
+ * Scripts can skip the form and POST JSON { username, displayName?, email? } to the callback.
+ */
+export class MockIdentityProvider implements IdentityProvider {
+  readonly name = "mock";
+
+  async startLogin(_req: Request, res: Response, returnTo: string): Promise<void> {
+    const options = configuredUsers()
+      .map((u) => `<option value="${escapeHtml(u.username)}">${escapeHtml(u.displayName)} (${escapeHtml(u.username)})</option>`)
+      .join("");
+    res.type("html").send(`<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>RIO Management — Mock Sign-in</title></head>
+<body style="font-family: system-ui, sans-serif; background: #f1f5f9; display: flex; justify-content: center; padding-top: 4rem;">
+  <form method="post" action="/api/auth/callback" style="background: white; padding: 1.5rem; border-radius: 8px; border: 1px solid #e5e7eb; width: 360px;">
+    <h1 style="font-size: 1.125rem; margin: 0 0 0.25rem;">Mock identity provider</h1>
+    <p style="font-size: 0.8125rem; color: #6b7280; margin: 0 0 1rem;">Development only. Pick a user or type any username.</p>
+    <input type="hidden" name="RelayState" value="${escapeHtml(returnTo)}">
+    <label style="display: block; font-size: 0.75rem; margin-bottom: 0.25rem;">Username</label>
+    <input name="username" list="mock-users" required style="width: 100%; padding: 0.5rem; margin-bottom: 0.75rem; box-sizing: border-box;">
+    <datalist id="mock-users">${options}</datalist>
+    <label style="display: block; font-size: 0.75rem; margin-bottom: 0.25rem;">Display name (optional)</label>
+    <input name="displayName" style="width: 100%; padding: 0.5rem; margin-bottom: 1rem; box-sizing: border-box;">
+    <button type="submit" style="padding: 0.5rem 1rem; background: #2563eb; color: white; border: none; border-radius: 6px; cursor: pointer;">Sign in</button>
+  </form>
+</body>
+</html>`);
+  }
+
+  async handleCallback(req: Request): Promise<{ identity: IdentityAttributes; returnTo: string }> {
+    const body = (req.body ?? {}) as { username?: unknown; displayName?: unknown; email?: unknown; RelayState?: unknown };
+    const username = typeof body.username === "string" ? body.username.trim() : "";
+    if (!username) throw new Error("username is required");
+    const known = configuredUsers().find((u) => u.username === username);
+    const displayName =
+      typeof body.displayName === "string" && body.displayName.trim()
+        ? body.displayName.trim()
+        : known?.displayName ?? username;
+    const email =
+      typeof body.email === "string" && body.email.trim()
+        ? body.email.trim()
+        : username.includes("@") ? username : null;
+    return {
+      identity: { externalId: username, username, displayName, email },
+      returnTo: safeReturnTo(body.RelayState),
+    };
+  }
+
+  getLogoutRedirect(): string | null {
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+import { prisma } from "./prisma.js";
+import type { AuditActor } from "./auditActor.js";
+
+type OpportunityState = {
+  opportunityName: string;
+  opportunityCondition: string;
+  opportunityIf: string;
+  opportunityThen: string;
+  category: string | null;
+  likelihood: number;
+  impact: number;
+  opportunityLevel: string | null;
+  rubricVersion: number | null;
+  owner: string | null;
+  status: string;
+};
+
+export function toOpportunitySnapshot(opp: OpportunityState): OpportunityState {
+  return {
+    opportunityName: opp.opportunityName,
+    opportunityCondition: opp.opportunityCondition,
+    opportunityIf: opp.opportunityIf,
+    opportunityThen: opp.opportunityThen,
+    category: opp.category,
+    likelihood: opp.likelihood,
+    impact: opp.impact,
+    opportunityLevel: opp.opportunityLevel,
+    rubricVersion: opp.rubricVersion,
+    owner: opp.owner,
+    status: opp.status,
+  };
+}
+
+type PrismaClientLike = Pick<typeof prisma, "opportunityVersion" | "opportunity">;
+
+/** Every version counts as a review (unless options.review is false): the opportunity's lastReviewedAt moves to it. */
+export async function createOpportunityVersion(
+  actor: AuditActor,
+  opportunityId: string,
+  opp: OpportunityState,
+  options?: {
+    likelihoodChangeReason?: string | null;
+    impactChangeReason?: string | null;
+    statusChangeRationale?: string | null;
+    /** "Reviewed, no change": the snapshot repeats the previous version */
+    reviewedNoChange?: boolean;
+    reviewNote?: string | null;
+    /** false for backfill and replay writes: they record history, not a review, so lastReviewedAt is left alone */
+    review?: boolean;
+  },
+  tx?: PrismaClientLike
+) {
+  const db = tx ?? prisma;
+  const count = await db.opportunityVersion.count({ where: { opportunityId } });
+  const version = count + 1;
+  const snapshot = toOpportunitySnapshot(opp);
+  const created = await db.opportunityVersion.create({
+    data: {
+      ...actor,
+      opportunityId,
+      version,
+      snapshot,
+      likelihoodChangeReason: options?.likelihoodChangeReason ?? null,
+      impactChangeReason: options?.impactChangeReason ?? null,
+      statusChangeRationale: options?.statusChangeRationale ?? null,
+      reviewedNoChange: options?.reviewedNoChange ?? false,
+      reviewNote: options?.reviewNote ?? null,
+    },
+  });
+  if (options?.review !== false) {
+    await db.opportunity.update({ where: { id: opportunityId }, data: { lastReviewedAt: created.createdAt } });
+  }
+}
@@ -0,0 +1,44 @@
+import { prisma } from "./prisma.js";
+import { getAccessibleOrgUnitIds, type PermissionSubject } from "./permissions.js";
+
+/** The unit followed by every unit below it through parentId, breadth first. */
+export async function getOrgUnitWithDescendantIds(rootId: string): Promise<string[]> {
+  const ids = [rootId];
+  const seen = new Set(ids);
+  let frontier = ids;
+  while (frontier.length > 0) {
+    const children = await prisma.organizationalUnit.findMany({ where: { parentId: { in: frontier } }, select: { id: true } });
+    frontier = children.map((c) => c.id).filter((id) => !seen.has(id));
+    for (const id of frontier) {
+      seen.add(id);
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Org unit ids a list request covers: the requested unit and, with `includeDescendants=true`, the
+ * descendants the user can view. Roles do not inherit down the hierarchy, so children without a
+ * grant are left out. Callers have already checked access to the requested unit.
+ */
+export async function resolveOrgUnitScope(user: PermissionSubject, organizationalUnitId: string, includeDescendants: unknown): Promise<string[]> {
+  if (includeDescendants !== "true") return [organizationalUnitId];
+  const ids = await getOrgUnitWithDescendantIds(organizationalUnitId);
+  const accessible = await getAccessibleOrgUnitIds(user);
+  return accessible ? ids.filter((id) => id === organizationalUnitId || accessible.includes(id)) : ids;
+}
+
+/**
+ * Error message when `parentId` cannot be the parent of the unit: it must exist in the same legal
+ * entity and must not be the unit itself or one of its descendants. Null when valid.
+ */
+export async function validateParent(orgUnitId: string | null, legalEntityId: string, parentId: string): Promise<string | null> {
+  const parent = await prisma.organizationalUnit.findUnique({ where: { id: parentId }, select: { legalEntityId: true } });
+  if (!parent) return "Parent organizational unit not found";
+  if (parent.legalEntityId !== legalEntityId) return "Parent must belong to the same legal entity";
+  if (orgUnitId && (await getOrgUnitWithDescendantIds(orgUnitId)).includes(parentId)) {
+    return "Parent cannot be the unit itself or one of its descendants";
+  }
+  return null;
+}
@@ -0,0 +1,237 @@
+import type { Person, Prisma } from "@prisma/client";
+import { prisma } from "./prisma.js";
+import type { AuditActor } from "./auditActor.js";
+import { createIssueVersion } from "./issueVersion.js";
+import { createOpportunityVersion } from "./opportunityVersion.js";
+import { createRiskVersion } from "./riskVersion.js";
+
+/**
+ * Owner directory: risks, issues and opportunities point at a Person through `ownerId` and keep the
+ * person's name in `owner`. Free-text owners from before the directory stay unlinked until an Admin
+ * merges them; `clusterOwnerNames` groups spellings of the same person ("J. Smith", "John Smith",
+ * "jsmith") to make that quick.
+ */
+
+export type OwnerFields = { owner: string | null; ownerId: string | null };
+
+/** Aliases are stored trimmed and lower case, so an owner typed in any case matches them. */
+function aliasKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** The directory entry whose name or a merged alias is `name` (case-insensitive). */
+export async function findPersonByName(name: string): Promise<Person | null> {
+  return prisma.person.findFirst({
+    where: { OR: [{ displayName: { equals: name, mode: "insensitive" } }, { aliases: { has: aliasKey(name) } }] },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Owner from a request body over `fallback` (the current or pre-filled owner). `ownerId` picks a directory
+ * entry, whose name becomes `owner`; a bare `owner` name is linked to the entry it matches, else kept as
+ * free text; blank clears both. Returns an error message for an unknown ownerId.
+ */
+export async function readOwner(body: Record<string, unknown>, fallback: OwnerFields): Promise<OwnerFields | string> {
+  if (typeof body.ownerId === "string" && body.ownerId) {
+    const person = await prisma.person.findUnique({ where: { id: body.ownerId }, select: { id: true, displayName: true } });
+    if (!person) return "ownerId is not in the owner directory";
+    return { ownerId: person.id, owner: person.displayName };
+  }
+  if (body.owner === undefined) return body.ownerId === null ? { ownerId: null, owner: null } : fallback;
+  const name = typeof body.owner === "string" ? body.owner.trim() : "";
+  if (!name) return { ownerId: null, owner: null };
+  const person = await findPersonByName(name);
+  return person ? { ownerId: person.id, owner: person.displayName } : { ownerId: null, owner: name };
+}
+
+/** Name tokens: lower case, an email's local part, and "Smith, John" read as "John Smith". */
+function nameTokens(name: string): string[] {
+  let s = name.trim().toLowerCase();
+  const at = s.indexOf("@");
+  if (at > 0) s = s.slice(0, at);
+  const parts = s.split(",");
+  if (parts.length === 2 && parts[1].trim()) s = `${parts[1]} ${parts[0]}`;
+  return s.split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Keys a name is known by. `full` keys identify it ("johnsmith" for "John Smith" and "john.smith@x",
+ * also without middle names); the `short` key is first initial + surname ("jsmith"), which matches
+ * names written that way ("J. Smith", "jsmith") but not another full first name.
+ */
+export function ownerNameKeys(name: string): { full: string[]; short: string | null } {
+  const t = nameTokens(name);
+  if (t.length === 0) return { full: [], short: null };
+  const full = new Set([t.join("")]);
+  if (t.length > 2) full.add(t[0] + t[t.length - 1]);
+  return { full: [...full], short: t.length > 1 && t[0].length > 1 ? t[0][0] + t[t.length - 1] : null };
+}
+
+export type OwnerNameCount = { owner: string; risks: number; issues: number; opportunities: number };
+
+export type OwnerCluster = {
+  /** Spellings that look like the same person, most used first */
+  owners: OwnerNameCount[];
+  /** Suggested directory name: the matching person's or user's, else the most complete spelling */
+  suggestedName: string;
+  suggestedPerson: { id: string; displayName: string } | null;
+  /** A user account matching the names, when no directory entry does */
+  suggestedUser: { id: string; displayName: string; email: string | null } | null;
+};
+
+/** Free-text owners not linked to the directory, with how many items use each. */
+async function unlinkedOwnerNames(): Promise<OwnerNameCount[]> {
+  const where = { ownerId: null, owner: { not: null } };
+  const [risks, issues, opportunities] = await Promise.all([
+    prisma.risk.groupBy({ by: ["owner"], where, _count: { _all: true } }),
+    prisma.issue.groupBy({ by: ["owner"], where, _count: { _all: true } }),
+    prisma.opportunity.groupBy({ by: ["owner"], where, _count: { _all: true } }),
+  ]);
+  const byName = new Map<string, OwnerNameCount>();
+  const add = (rows: { owner: string | null; _count: { _all: number } }[], key: "risks" | "issues" | "opportunities") => {
+    for (const row of rows) {
+      if (!row.owner?.trim()) continue;
+      const entry = byName.get(row.owner) ?? { owner: row.owner, risks: 0, issues: 0, opportunities: 0 };
+      entry[key] += row._count._all;
+      byName.set(row.owner, entry);
+    }
+  };
+  add(risks, "risks");
+  add(issues, "issues");
+  add(opportunities, "opportunities");
+  return [...byName.values()];
+}
+
+const itemCount = (o: OwnerNameCount) => o.risks + o.issues + o.opportunities;
+
+/**
+ * Group the unlinked owner names into likely-same-person clusters: names sharing a full key, and
+ * abbreviated names with the full names they abbreviate. Each cluster suggests the directory entry
+ * or user account its names match. Largest clusters first.
+ */
+export async function clusterOwnerNames(): Promise<OwnerCluster[]> {
+  const names = await unlinkedOwnerNames();
+  const parent = names.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const keys = names.map((n) => ownerNameKeys(n.owner));
+  const byFullKey = new Map<string, number[]>();
+  keys.forEach((k, i) => k.full.forEach((key) => byFullKey.set(key, [...(byFullKey.get(key) ?? []), i])));
+  keys.forEach((k, i) => {
+    for (const key of [...k.full, ...(k.short ? [k.short] : [])]) {
+      for (const j of byFullKey.get(key) ?? []) union(i, j);
+    }
+  });
+
+  const groups = new Map<number, OwnerNameCount[]>();
+  names.forEach((n, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), n]));
+
+  const [people, users] = await Promise.all([
+    prisma.person.findMany({ select: { id: true, displayName: true, email: true, aliases: true } }),
+    prisma.user.findMany({ where: { isServiceAccount: false, person: null }, select: { id: true, displayName: true, username: true, email: true } }),
+  ]);
+  const matches = (clusterKeys: Set<string>, candidates: (string | null)[]) =>
+    candidates.some((c) => c != null && ownerNameKeys(c).full.some((key) => clusterKeys.has(key)));
+
+  return [...groups.values()]
+    .map((owners) => {
+      owners.sort((a, b) => itemCount(b) - itemCount(a) || b.owner.length - a.owner.length);
+      const clusterKeys = new Set(owners.flatMap((o) => {
+        const k = ownerNameKeys(o.owner);
+        return [...k.full, ...(k.short ? [k.short] : [])];
+      }));
+      const person = people.find((p) => matches(clusterKeys, [p.displayName, p.email, ...p.aliases]));
+      const user = person ? undefined : users.find((u) => matches(clusterKeys, [u.displayName, u.username, u.email]));
+      const longest = owners.reduce((best, o) => (nameTokens(o.owner).join(" ").length > nameTokens(best.owner).join(" ").length ? o : best));
+      return {
+        owners,
+        suggestedName: person?.displayName ?? user?.displayName ?? longest.owner.trim(),
+        suggestedPerson: person ? { id: person.id, displayName: person.displayName } : null,
+        suggestedUser: user ? { id: user.id, displayName: user.displayName, email: user.email } : null,
+      };
+    })
+    .sort((a, b) => b.owners.length - a.owners.length || b.owners.reduce((s, o) => s + itemCount(o), 0) - a.owners.reduce((s, o) => s + itemCount(o), 0));
+}
+
+type OwnerWhere = { ownerId: string | null; owner?: { in: string[] } };
+
+/**
+ * Set `data` on every risk, issue and opportunity matching `where`. Each item whose owner name changes
+ * gets an "updated" audit entry (with `marker` in its details) and a new version, so history shows the
+ * new name from then on; the versions do not count as reviews. Returns the number of items matched.
+ */
+async function applyOwnerChange(
+  tx: Prisma.TransactionClient,
+  actor: AuditActor,
+  where: OwnerWhere,
+  data: { owner: string; ownerId?: string },
+  marker: Record<string, unknown>
+) {
+  const [risks, issues, opportunities] = await Promise.all([
+    tx.risk.findMany({ where, select: { id: true, owner: true } }),
+    tx.issue.findMany({ where, select: { id: true, owner: true } }),
+    tx.opportunity.findMany({ where, select: { id: true, owner: true } }),
+  ]);
+  const renamed = <T extends { id: string; owner: string | null }>(rows: T[]) => rows.filter((r) => r.owner !== data.owner);
+  const renamedIds = (rows: { id: string; owner: string | null }[]) => ({ id: { in: renamed(rows).map((r) => r.id) } });
+  const details = (from: string | null) => ({
+    changedFields: ["owner"],
+    changes: { owner: { from, to: data.owner } },
+    ...marker,
+  });
+
+  await tx.risk.updateMany({ where, data });
+  await tx.issue.updateMany({ where, data });
+  await tx.opportunity.updateMany({ where, data });
+  await tx.riskAuditLog.createMany({
+    data: renamed(risks).map((r) => ({ ...actor, riskId: r.id, entityType: "risk", entityId: r.id, action: "updated", details: details(r.owner) })),
+  });
+  await tx.issueAuditLog.createMany({
+    data: renamed(issues).map((i) => ({ ...actor, issueId: i.id, entityType: "issue", entityId: i.id, action: "updated", details: details(i.owner) })),
+  });
+  await tx.opportunityAuditLog.createMany({
+    data: renamed(opportunities).map((o) => ({ ...actor, opportunityId: o.id, entityType: "opportunity", entityId: o.id, action: "updated", details: details(o.owner) })),
+  });
+  for (const risk of await tx.risk.findMany({ where: renamedIds(risks) })) {
+    await createRiskVersion(actor, risk.id, risk, { review: false }, tx);
+  }
+  for (const issue of await tx.issue.findMany({ where: renamedIds(issues) })) {
+    await createIssueVersion(actor, issue.id, issue, { review: false }, tx);
+  }
+  for (const opp of await tx.opportunity.findMany({ where: renamedIds(opportunities) })) {
+    await createOpportunityVersion(actor, opp.id, opp, { review: false }, tx);
+  }
+  return { risks: risks.length, issues: issues.length, opportunities: opportunities.length };
+}
+
+/**
+ * Link every unlinked item whose owner is one of `names` to `person`, renaming the owner to the
+ * person's name (audited and versioned on each renamed item), and remember the names as the person's
+ * aliases. The merge does not count as a review.
+ */
+export async function mergeOwnerNames(actor: AuditActor, names: string[], person: Pick<Person, "id" | "displayName" | "aliases">) {
+  const aliases = [...new Set([...person.aliases, ...names.map(aliasKey)])].filter((a) => a !== aliasKey(person.displayName));
+  return prisma.$transaction(async (tx) => {
+    const merged = await applyOwnerChange(
+      tx,
+      actor,
+      { ownerId: null, owner: { in: names } },
+      { ownerId: person.id, owner: person.displayName },
+      { ownerMerged: { personId: person.id } }
+    );
+    await tx.person.update({ where: { id: person.id }, data: { aliases } });
+    return merged;
+  });
+}
+
+/**
+ * Copy a directory rename to the owner name of every item the person owns, audited and versioned on
+ * each item as for a merge. Run inside the transaction that renames the person.
+ */
+export async function renameOwnedItems(tx: Prisma.TransactionClient, actor: AuditActor, personId: string, displayName: string) {
+  await applyOwnerChange(tx, actor, { ownerId: personId }, { owner: displayName }, { ownerRenamed: { personId } });
+}
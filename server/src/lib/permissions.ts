@@ -0,0 +1,103 @@
+import { prisma } from "./prisma.js";
+
+/**
+ * Permission model (docs/PERMISSIONS_AND_AUTH_SPEC.md §2).
+ * - Global Admin (User.isAdmin): manages LE/PPD, categories and permissions; full access to every LE/PPD.
+ * - UserPermission rows grant admin | editor | viewer on one LE/PPD. No hierarchy between LE and PPD.
+ *   Scoped admin = editor plus managing that PPD's details.
+ */
+export type Role = "admin" | "editor" | "viewer";
+
+export const ROLES: Role[] = ["admin", "editor", "viewer"];
+
+const ROLE_RANK: Record<Role, number> = { viewer: 1, editor: 2, admin: 3 };
+
+/** The parts of the signed-in user that permission checks need. */
+export type PermissionSubject = { id: string; isAdmin: boolean };
+
+export function roleSatisfies(role: Role | null, minRole: Role): boolean {
+  return role != null && ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+/** Effective role of the user on an org unit (global Admin → admin), or null when unassigned. */
+export async function getOrgUnitRole(user: PermissionSubject, organizationalUnitId: string): Promise<Role | null> {
+  if (user.isAdmin) return "admin";
+  const perm = await prisma.userPermission.findUnique({
+    where: { userId_organizationalUnitId: { userId: user.id, organizationalUnitId } },
+    select: { role: true },
+  });
+  return perm?.role ?? null;
+}
+
+/**
+ * Org unit ids where the user holds at least `minRole`.
+ * Returns null for global Admins, meaning "all org units" (callers skip the filter).
+ */
+export async function getAccessibleOrgUnitIds(user: PermissionSubject, minRole: Role = "viewer"): Promise<string[] | null> {
+  if (user.isAdmin) return null;
+  const perms = await prisma.userPermission.findMany({
+    where: { userId: user.id },
+    select: { organizationalUnitId: true, role: true },
+  });
+  return perms.filter((p) => roleSatisfies(p.role, minRole)).map((p) => p.organizationalUnitId);
+}
+
+/** All permission rows for a user, for GET /api/auth/me and client-side gating. */
+export async function listUserPermissions(userId: string) {
+  return prisma.userPermission.findMany({
+    where: { userId },
+    select: { legalEntityId: true, organizationalUnitId: true, role: true },
+  });
+}
+
+/** One row of an effective-access report: a role on one LE/PPD and where it comes from. */
+export type EffectiveAccess = {
+  legalEntityId: string;
+  legalEntityName: string;
+  organizationalUnitId: string;
+  organizationalUnitName: string;
+  organizationalUnitType: string;
+  role: Role;
+  /** "global-admin" when the role comes from User.isAdmin rather than a UserPermission row */
+  source: "global-admin" | "grant";
+};
+
+/** Every LE/PPD the user can reach, with the effective role (global Admins get every unit). */
+export async function getEffectiveAccess(user: PermissionSubject): Promise<EffectiveAccess[]> {
+  const orgUnitSelect = { id: true, name: true, type: true, legalEntity: { select: { id: true, name: true } } } as const;
+  const rows = user.isAdmin
+    ? (await prisma.organizationalUnit.findMany({ select: orgUnitSelect })).map((ou) => ({ ou, role: "admin" as Role }))
+    : (
+        await prisma.userPermission.findMany({
+          where: { userId: user.id },
+          select: { role: true, organizationalUnit: { select: orgUnitSelect } },
+        })
+      ).map((p) => ({ ou: p.organizationalUnit, role: p.role }));
+  return rows
+    .map(({ ou, role }) => ({
+      legalEntityId: ou.legalEntity.id,
+      legalEntityName: ou.legalEntity.name,
+      organizationalUnitId: ou.id,
+      organizationalUnitName: ou.name,
+      organizationalUnitType: ou.type,
+      role,
+      source: user.isAdmin ? ("global-admin" as const) : ("grant" as const),
+    }))
+    .sort((a, b) => a.legalEntityName.localeCompare(b.legalEntityName) || a.organizationalUnitName.localeCompare(b.organizationalUnitName));
+}
+
+/** Everyone who can reach an org unit: global Admins plus users with a UserPermission row on it. */
+export async function getOrgUnitAccess(organizationalUnitId: string) {
+  const userSelect = { id: true, username: true, displayName: true, isServiceAccount: true } as const;
+  const [admins, grants] = await Promise.all([
+    prisma.user.findMany({ where: { isAdmin: true }, select: userSelect }),
+    prisma.userPermission.findMany({
+      where: { organizationalUnitId, user: { isAdmin: false } },
+      select: { role: true, user: { select: userSelect } },
+    }),
+  ]);
+  return [
+    ...admins.map((user) => ({ user, role: "admin" as Role, source: "global-admin" as const })),
+    ...grants.map((g) => ({ user: g.user, role: g.role, source: "grant" as const })),
+  ].sort((a, b) => ROLE_RANK[b.role] - ROLE_RANK[a.role] || a.user.displayName.localeCompare(b.user.displayName));
+}
@@ -0,0 +1,92 @@
+import { getCellRank, MATRIX_SIZE, type MatrixDefinition } from "./levelMatrix.js";
+import { EXPOSED_RISK_STATUSES } from "./exposure.js";
+
+/**
+ * Legal-entity portfolio dashboard: per-PPD counts, a combined heat map and risk trends.
+ * "Active" risks are the ones that still carry exposure (open, mitigating, accepted).
+ */
+export type LevelStatusCounts = {
+  total: number;
+  /** Stored level key (e.g. "high") → count; "unrated" when the item has no level */
+  byLevel: Record<string, number>;
+  byStatus: Record<string, number>;
+};
+
+export type TrendPoint = {
+  /** End of the week (ISO) */
+  date: string;
+  activeRisks: number;
+  /** Sum of the active risks' numerical levels (1-25 each) */
+  riskScore: number;
+};
+
+export const DEFAULT_TOP_RISKS = 10;
+export const MAX_TOP_RISKS = 50;
+export const TREND_WEEKS = 12;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isActiveRiskStatus(status: string): boolean {
+  return (EXPOSED_RISK_STATUSES as readonly string[]).includes(status);
+}
+
+export function countByLevelAndStatus(items: { level: string | null; status: string }[]): LevelStatusCounts {
+  const counts: LevelStatusCounts = { total: items.length, byLevel: {}, byStatus: {} };
+  for (const { level, status } of items) {
+    const key = level ?? "unrated";
+    counts.byLevel[key] = (counts.byLevel[key] ?? 0) + 1;
+    counts.byStatus[status] = (counts.byStatus[status] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** Active-risk counts per cell, heatMap[likelihood - 1][consequence - 1]. */
+export function buildHeatMap(risks: { likelihood: number; consequence: number; status: string }[]): number[][] {
+  const cells = Array.from({ length: MATRIX_SIZE }, () => new Array<number>(MATRIX_SIZE).fill(0));
+  for (const r of risks) {
+    if (!isActiveRiskStatus(r.status)) continue;
+    const l = Math.max(1, Math.min(MATRIX_SIZE, r.likelihood));
+    const c = Math.max(1, Math.min(MATRIX_SIZE, r.consequence));
+    cells[l - 1][c - 1] += 1;
+  }
+  return cells;
+}
+
+type RiskState = { likelihood: number; consequence: number; status: string };
+export type TrendRisk = RiskState & { id: string; createdAt: Date };
+export type TrendVersion = { riskId: string; createdAt: Date; snapshot: unknown };
+
+/**
+ * Weekly active-risk count and score over the last `weeks` weeks, from version snapshots: each
+ * week uses every risk's latest version at that date. Risks without versions count from creation
+ * with their current state.
+ */
+export function buildRiskTrend(risks: TrendRisk[], versions: TrendVersion[], matrix: MatrixDefinition, now: Date, weeks = TREND_WEEKS): TrendPoint[] {
+  const byRisk = new Map<string, { at: number; state: RiskState }[]>();
+  for (const v of [...versions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+    const s = v.snapshot as Partial<RiskState>;
+    const list = byRisk.get(v.riskId) ?? [];
+    list.push({ at: v.createdAt.getTime(), state: { likelihood: s.likelihood ?? 3, consequence: s.consequence ?? 3, status: s.status ?? "open" } });
+    byRisk.set(v.riskId, list);
+  }
+  const timelines = risks.map((r) => byRisk.get(r.id) ?? [{ at: r.createdAt.getTime(), state: r }]);
+
+  const points: TrendPoint[] = [];
+  for (let k = weeks - 1; k >= 0; k--) {
+    const at = now.getTime() - k * WEEK_MS;
+    let activeRisks = 0;
+    let riskScore = 0;
+    for (const timeline of timelines) {
+      let state: RiskState | null = null;
+      for (const entry of timeline) {
+        if (entry.at > at) break;
+        state = entry.state;
+      }
+      if (!state || !isActiveRiskStatus(state.status)) continue;
+      activeRisks += 1;
+      riskScore += getCellRank(matrix, state.likelihood, state.consequence);
+    }
+    points.push({ date: new Date(at).toISOString(), activeRisks, riskScore });
+  }
+  return points;
+}
@@ -0,0 +1,129 @@
+import { prisma } from "./prisma.js";
+import { EXPOSED_RISK_STATUSES } from "./exposure.js";
+
+/**
+ * Review cadence: how often a risk, issue or opportunity must be looked at, by item type and level.
+ * Each org unit may store its own days per level (OrganizationalUnit.reviewCadence) over the defaults
+ * below, and an item may override its unit's cadence (reviewCadenceDays). Every version of an item
+ * counts as a review, including a "reviewed, no change" one; the next review is due the cadence after
+ * lastReviewedAt. Only items still being worked are due (see REVIEWED_STATUSES).
+ */
+export type ReviewItemType = "risk" | "issue" | "opportunity";
+
+export const REVIEW_ITEM_TYPES: ReviewItemType[] = ["risk", "issue", "opportunity"];
+
+/**
+ * Days between reviews keyed by level key (Risk.riskLevel, Issue.issueLevel, Opportunity.opportunityLevel).
+ * Issues only have the levels getIssueLevel gives: "moderate" (consequence 4-5) and "low".
+ */
+export type ReviewCadence = Record<ReviewItemType, Record<string, number>>;
+
+export const DEFAULT_REVIEW_CADENCE: ReviewCadence = {
+  risk: { high: 30, moderate: 60, low: 90 },
+  issue: { moderate: 14, low: 30 },
+  opportunity: { high: 30, moderate: 60, low: 90 },
+};
+
+/** Items with no level, or a level missing from the cadence (e.g. a custom matrix level). */
+export const FALLBACK_REVIEW_DAYS = 90;
+
+export const MAX_REVIEW_DAYS = 730;
+
+export const REVIEWED_STATUSES: Record<ReviewItemType, readonly string[]> = {
+  risk: EXPOSED_RISK_STATUSES,
+  issue: ["open", "resolving"],
+  opportunity: ["pursue_now", "defer", "reevaluate"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isReviewDays(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_REVIEW_DAYS;
+}
+
+/** Validate a cadence from a request body; missing item types keep the defaults. Returns an error message on bad input. */
+export function parseReviewCadence(raw: unknown): ReviewCadence | string {
+  if (!raw || typeof raw !== "object") return "reviewCadence must be an object";
+  const out = {} as ReviewCadence;
+  for (const type of REVIEW_ITEM_TYPES) {
+    const levels = (raw as Record<string, unknown>)[type] ?? DEFAULT_REVIEW_CADENCE[type];
+    if (!levels || typeof levels !== "object" || Array.isArray(levels)) return `${type} must map levels to days`;
+    out[type] = {};
+    for (const [level, days] of Object.entries(levels)) {
+      if (!isReviewDays(days)) return `${type}.${level} must be a whole number of days from 1 to ${MAX_REVIEW_DAYS}`;
+      out[type][level] = days;
+    }
+  }
+  return out;
+}
+
+/** A unit's stored cadence over the defaults (invalid or missing stored values fall back to the defaults). */
+export function resolveReviewCadence(stored: unknown): ReviewCadence {
+  const parsed = stored == null ? null : parseReviewCadence(stored);
+  if (!parsed || typeof parsed === "string") return DEFAULT_REVIEW_CADENCE;
+  return {
+    risk: { ...DEFAULT_REVIEW_CADENCE.risk, ...parsed.risk },
+    issue: { ...DEFAULT_REVIEW_CADENCE.issue, ...parsed.issue },
+    opportunity: { ...DEFAULT_REVIEW_CADENCE.opportunity, ...parsed.opportunity },
+  };
+}
+
+/** Resolved cadence per org unit id. */
+export async function getReviewCadences(organizationalUnitIds: string[]): Promise<Map<string, ReviewCadence>> {
+  const units = await prisma.organizationalUnit.findMany({
+    where: { id: { in: organizationalUnitIds } },
+    select: { id: true, reviewCadence: true },
+  });
+  return new Map(units.map((u) => [u.id, resolveReviewCadence(u.reviewCadence)]));
+}
+
+/** Per-item override from a PATCH body: days, null to use the unit's cadence, undefined when absent. */
+export function readReviewCadenceDays(body: Record<string, unknown>): number | null | undefined | string {
+  if (!("reviewCadenceDays" in body)) return undefined;
+  const value = body.reviewCadenceDays;
+  if (value === null || value === "") return null;
+  return isReviewDays(value) ? value : `reviewCadenceDays must be a whole number of days from 1 to ${MAX_REVIEW_DAYS}, or null`;
+}
+
+export type ReviewableItem = {
+  status: string;
+  reviewCadenceDays: number | null;
+  lastReviewedAt: Date | null;
+  createdAt: Date;
+};
+
+export type ReviewSchedule = {
+  /** The item's override, else its unit's days for its level */
+  effectiveReviewCadenceDays: number;
+  nextReviewDate: string;
+  reviewOverdue: boolean;
+};
+
+export function reviewSchedule(item: ReviewableItem, type: ReviewItemType, level: string | null, cadence: ReviewCadence, now = new Date()): ReviewSchedule {
+  const days = item.reviewCadenceDays ?? (level != null ? cadence[type][level] : undefined) ?? FALLBACK_REVIEW_DAYS;
+  const next = new Date((item.lastReviewedAt ?? item.createdAt).getTime() + days * DAY_MS);
+  return {
+    effectiveReviewCadenceDays: days,
+    nextReviewDate: next.toISOString(),
+    reviewOverdue: REVIEWED_STATUSES[type].includes(item.status) && next.getTime() < now.getTime(),
+  };
+}
+
+/** Whole days a review is overdue (0 when not yet due). */
+export function daysOverdue(nextReviewDate: string, now = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - new Date(nextReviewDate).getTime()) / DAY_MS));
+}
+
+/** Adds each item's review schedule, using the cadence of the unit it belongs to. */
+export async function withReviewSchedules<T extends ReviewableItem & { organizationalUnitId: string }>(
+  items: T[],
+  type: ReviewItemType,
+  levelOf: (item: T) => string | null,
+  now = new Date()
+): Promise<(T & ReviewSchedule)[]> {
+  const cadences = await getReviewCadences([...new Set(items.map((i) => i.organizationalUnitId))]);
+  return items.map((item) => ({
+    ...item,
+    ...reviewSchedule(item, type, levelOf(item), cadences.get(item.organizationalUnitId) ?? DEFAULT_REVIEW_CADENCE, now),
+  }));
+}
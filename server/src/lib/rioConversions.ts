@@ -0,0 +1,134 @@
+import { prisma } from "./prisma.js";
+import type { AuditActor } from "./auditActor.js";
+import { getOrgUnitMatrix } from "./levelMatrix.js";
+import { getRiskLevel } from "./riskLevel.js";
+import { getOpportunityLevel } from "./opportunityLevel.js";
+import { getCurrentRubricVersion } from "./criteriaRubric.js";
+import { NO_CONSEQUENCE_SCORES } from "./riskConsequence.js";
+import { NO_QUANTIFIED_IMPACT } from "./exposure.js";
+import { createRiskVersion } from "./riskVersion.js";
+import { createOpportunityVersion } from "./opportunityVersion.js";
+
+/**
+ * Conversions between risks, issues and opportunities: follow-on risks from an issue, an opportunity
+ * from a risk and a risk from an opportunity (create-issue from a realized risk lives in the risk
+ * routes). The new item is created in the source's org unit and keeps a source*Id back to it; the
+ * fields are pre-filled from the source and any of them can be overridden in the request body.
+ */
+
+/** Trimmed body text, or the pre-filled value when the field is missing or blank. */
+export function textOr(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.trim() ? value.trim() : fallback;
+}
+
+/** Body value when given (blank clears it), else the pre-filled value. */
+export function optionalTextOr(value: unknown, fallback: string | null): string | null {
+  if (value === undefined) return fallback;
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** 1-5 score from the body, else the pre-filled one. */
+export function scoreOr(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 5 ? value : fallback;
+}
+
+export type ConvertedRisk = {
+  riskName: string;
+  riskCondition: string;
+  riskIf: string;
+  riskThen: string;
+  likelihood: number;
+  consequence: number;
+  owner: string | null;
+  ownerId: string | null;
+  category: string | null;
+};
+
+export type ConvertedOpportunity = {
+  opportunityName: string;
+  opportunityCondition: string;
+  opportunityIf: string;
+  opportunityThen: string;
+  likelihood: number;
+  impact: number;
+  owner: string | null;
+  ownerId: string | null;
+  category: string | null;
+};
+
+type RiskSource = { sourceIssueId: string } | { sourceOpportunityId: string };
+
+/** Create an open risk with its v1 and a "created" audit entry naming the source item. */
+export async function createConvertedRisk(actor: AuditActor, organizationalUnitId: string, fields: ConvertedRisk, source: RiskSource) {
+  const category = fields.category
+    ? (await prisma.category.findUnique({ where: { code: fields.category }, select: { code: true } }))?.code ?? null
+    : null;
+  const riskLevel = getRiskLevel(fields.likelihood, fields.consequence, await getOrgUnitMatrix(organizationalUnitId, "risk"));
+  const rubricVersion = await getCurrentRubricVersion(organizationalUnitId);
+  const risk = await prisma.$transaction(async (tx) => {
+    const r = await tx.risk.create({
+      data: {
+        organizationalUnitId,
+        ...fields,
+        category,
+        originalLikelihood: fields.likelihood,
+        originalConsequence: fields.consequence,
+        ...NO_CONSEQUENCE_SCORES,
+        ...NO_QUANTIFIED_IMPACT,
+        riskLevel,
+        rubricVersion,
+        status: "open",
+        ...source,
+      },
+    });
+    await createRiskVersion(actor, r.id, r, undefined, tx);
+    return r;
+  });
+  const details = "sourceIssueId" in source ? { createdFromIssueId: source.sourceIssueId } : { createdFromOpportunityId: source.sourceOpportunityId };
+  await prisma.riskAuditLog.create({
+    data: { ...actor, riskId: risk.id, entityType: "risk", entityId: risk.id, action: "created", details },
+  });
+  return risk;
+}
+
+/** Create a pursue-now opportunity from a risk with its v1 and "created" audit entry. */
+export async function createConvertedOpportunity(
+  actor: AuditActor,
+  organizationalUnitId: string,
+  fields: ConvertedOpportunity,
+  sourceRiskId: string
+) {
+  const category = fields.category
+    ? (await prisma.opportunityCategory.findUnique({ where: { code: fields.category }, select: { code: true } }))?.code ?? null
+    : null;
+  const opportunityLevel = getOpportunityLevel(fields.likelihood, fields.impact, await getOrgUnitMatrix(organizationalUnitId, "opportunity"));
+  const rubricVersion = await getCurrentRubricVersion(organizationalUnitId);
+  const opp = await prisma.$transaction(async (tx) => {
+    const o = await tx.opportunity.create({
+      data: {
+        organizationalUnitId,
+        ...fields,
+        category,
+        originalLikelihood: fields.likelihood,
+        originalImpact: fields.impact,
+        opportunityLevel,
+        rubricVersion,
+        status: "pursue_now",
+        sourceRiskId,
+      },
+    });
+    await createOpportunityVersion(actor, o.id, o, undefined, tx);
+    return o;
+  });
+  await prisma.opportunityAuditLog.create({
+    data: {
+      ...actor,
+      opportunityId: opp.id,
+      entityType: "opportunity",
+      entityId: opp.id,
+      action: "created",
+      details: { createdFromRiskId: sourceRiskId },
+    },
+  });
+  return opp;
+}
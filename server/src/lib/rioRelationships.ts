@@ -0,0 +1,80 @@
+import type { RelationshipType, RioItemType } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+/** Typed links between risks, issues and opportunities (RioRelationship), read as "source <type> target". */
+export const RIO_ITEM_TYPES: RioItemType[] = ["risk", "issue", "opportunity"];
+export const RELATIONSHIP_TYPES: RelationshipType[] = ["causes", "depends_on", "duplicates", "mitigates", "related_to"];
+
+export function isRioItemType(value: unknown): value is RioItemType {
+  return typeof value === "string" && (RIO_ITEM_TYPES as string[]).includes(value);
+}
+
+export function isRelationshipType(value: unknown): value is RelationshipType {
+  return typeof value === "string" && (RELATIONSHIP_TYPES as string[]).includes(value);
+}
+
+export type RioItemRef = { type: RioItemType; id: string };
+
+/** What a link shows of the item on either end. */
+export type RioItemSummary = RioItemRef & {
+  name: string;
+  status: string;
+  level: string | null;
+  organizationalUnit: { id: string; name: string; type: string };
+};
+
+export function rioItemKey(ref: RioItemRef): string {
+  return `${ref.type}:${ref.id}`;
+}
+
+const UNIT_SELECT = { select: { id: true, name: true, type: true } } as const;
+
+/** Summaries of the referenced items that still exist, keyed by rioItemKey. */
+export async function findRioItems(refs: RioItemRef[]): Promise<Map<string, RioItemSummary>> {
+  const idsOf = (type: RioItemType) => [...new Set(refs.filter((r) => r.type === type).map((r) => r.id))];
+  const [risks, issues, opportunities] = await Promise.all([
+    prisma.risk.findMany({
+      where: { id: { in: idsOf("risk") } },
+      select: { id: true, riskName: true, status: true, riskLevel: true, organizationalUnit: UNIT_SELECT },
+    }),
+    prisma.issue.findMany({
+      where: { id: { in: idsOf("issue") } },
+      select: { id: true, issueName: true, status: true, issueLevel: true, organizationalUnit: UNIT_SELECT },
+    }),
+    prisma.opportunity.findMany({
+      where: { id: { in: idsOf("opportunity") } },
+      select: { id: true, opportunityName: true, status: true, opportunityLevel: true, organizationalUnit: UNIT_SELECT },
+    }),
+  ]);
+  const items: RioItemSummary[] = [
+    ...risks.map((r) => ({ type: "risk" as const, id: r.id, name: r.riskName, status: r.status, level: r.riskLevel, organizationalUnit: r.organizationalUnit })),
+    ...issues.map((i) => ({ type: "issue" as const, id: i.id, name: i.issueName, status: i.status, level: i.issueLevel, organizationalUnit: i.organizationalUnit })),
+    ...opportunities.map((o) => ({
+      type: "opportunity" as const,
+      id: o.id,
+      name: o.opportunityName,
+      status: o.status,
+      level: o.opportunityLevel,
+      organizationalUnit: o.organizationalUnit,
+    })),
+  ];
+  return new Map(items.map((item) => [rioItemKey(item), item]));
+}
+
+export async function getRioItemOrgUnitId(type: RioItemType, id: string): Promise<string | null> {
+  const select = { organizationalUnitId: true } as const;
+  const item =
+    type === "risk"
+      ? await prisma.risk.findUnique({ where: { id }, select })
+      : type === "issue"
+        ? await prisma.issue.findUnique({ where: { id }, select })
+        : await prisma.opportunity.findUnique({ where: { id }, select });
+  return item?.organizationalUnitId ?? null;
+}
+
+/** Remove every link to or from an item. Call when deleting it; links have no foreign keys. */
+export async function deleteRioItemRelationships(type: RioItemType, id: string) {
+  await prisma.rioRelationship.deleteMany({
+    where: { OR: [{ sourceType: type, sourceId: id }, { targetType: type, targetId: id }] },
+  });
+}
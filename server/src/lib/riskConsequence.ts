@@ -0,0 +1,72 @@
+/**
+ * Per-dimension risk consequence. A risk may rate cost, schedule, performance and (optionally) other
+ * consequence separately; the overall Risk.consequence used by the matrix is then the maximum.
+ * Risks with no dimension scores keep a single, directly edited consequence.
+ */
+export const CONSEQUENCE_DIMENSIONS = ["cost", "schedule", "performance", "other"] as const;
+export type ConsequenceDimension = (typeof CONSEQUENCE_DIMENSIONS)[number];
+
+/** Risk column holding each dimension's score. */
+export const CONSEQUENCE_FIELDS = {
+  cost: "costConsequence",
+  schedule: "scheduleConsequence",
+  performance: "performanceConsequence",
+  other: "otherConsequence",
+} as const satisfies Record<ConsequenceDimension, string>;
+
+/** RiskVersion column holding each dimension's change reason. */
+export const CONSEQUENCE_REASON_FIELDS = {
+  cost: "costConsequenceChangeReason",
+  schedule: "scheduleConsequenceChangeReason",
+  performance: "performanceConsequenceChangeReason",
+  other: "otherConsequenceChangeReason",
+} as const satisfies Record<ConsequenceDimension, string>;
+
+export type ConsequenceField = (typeof CONSEQUENCE_FIELDS)[ConsequenceDimension];
+export type ConsequenceScores = Record<ConsequenceField, number | null>;
+
+/**
+ * Read a dimension score from a request body: undefined when absent, null to clear, else 1-5.
+ * Returns "invalid" for anything else so the route can answer 400.
+ */
+function parseConsequenceScore(raw: unknown): number | null | undefined | "invalid" {
+  if (raw === undefined) return undefined;
+  if (raw === null || raw === "") return null;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1 || n > 5) return "invalid";
+  return n;
+}
+
+/** Overall consequence: the highest rated dimension, or null when no dimension is rated. */
+export function overallConsequence(scores: ConsequenceScores): number | null {
+  const rated = CONSEQUENCE_DIMENSIONS.map((d) => scores[CONSEQUENCE_FIELDS[d]]).filter((v): v is number => v != null);
+  return rated.length > 0 ? Math.max(...rated) : null;
+}
+
+export const NO_CONSEQUENCE_SCORES: ConsequenceScores = {
+  costConsequence: null,
+  scheduleConsequence: null,
+  performanceConsequence: null,
+  otherConsequence: null,
+};
+
+export function pickConsequenceScores(risk: ConsequenceScores): ConsequenceScores {
+  return {
+    costConsequence: risk.costConsequence,
+    scheduleConsequence: risk.scheduleConsequence,
+    performanceConsequence: risk.performanceConsequence,
+    otherConsequence: risk.otherConsequence,
+  };
+}
+
+/** Dimension scores from a request body merged over `base`. Returns an error message on bad input. */
+export function readConsequenceScores(body: Record<string, unknown>, base: ConsequenceScores): ConsequenceScores | string {
+  const scores = { ...base };
+  for (const dim of CONSEQUENCE_DIMENSIONS) {
+    const field = CONSEQUENCE_FIELDS[dim];
+    const parsed = parseConsequenceScore(body[field]);
+    if (parsed === "invalid") return `${field} must be an integer from 1 to 5, or null`;
+    if (parsed !== undefined) scores[field] = parsed;
+  }
+  return scores;
+}
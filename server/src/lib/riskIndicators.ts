@@ -0,0 +1,71 @@
+import type { IndicatorDirection } from "@prisma/client";
+
+/**
+ * Trigger / early-warning indicators on a risk. Each watches a metric against a threshold: "above"
+ * trips when the current value (the latest reading) reaches the threshold or more, "below" when it
+ * falls to the threshold or less. trippedAt records when it crossed and is cleared once it no longer does.
+ */
+export const INDICATOR_DIRECTIONS: IndicatorDirection[] = ["above", "below"];
+
+export function isIndicatorDirection(value: unknown): value is IndicatorDirection {
+  return typeof value === "string" && (INDICATOR_DIRECTIONS as string[]).includes(value);
+}
+
+export function isTripped(indicator: { direction: IndicatorDirection; threshold: number }, value: number | null): boolean {
+  if (value == null) return false;
+  return indicator.direction === "above" ? value >= indicator.threshold : value <= indicator.threshold;
+}
+
+/** Keeps the original trip time while the indicator stays tripped. */
+export function nextTrippedAt(previous: Date | null, tripped: boolean, now = new Date()): Date | null {
+  return tripped ? (previous ?? now) : null;
+}
+
+export type IndicatorFields = {
+  description: string;
+  metric: string;
+  unit: string | null;
+  direction: IndicatorDirection;
+  threshold: number;
+  reviewDate: Date | null;
+};
+
+/** A finite number from the body (numbers or numeric strings), else null. */
+export function readNumber(value: unknown): number | null {
+  const n = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Validate indicator fields from a request body over base (the current values on PATCH; null on
+ * create, where description, metric and threshold are required). Returns an error message on bad input.
+ */
+export function readIndicatorFields(body: Record<string, unknown>, base: IndicatorFields | null): IndicatorFields | string {
+  const text = (key: "description" | "metric") => {
+    const value = body[key];
+    if (value === undefined && base) return base[key];
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+  };
+  const description = text("description");
+  const metric = text("metric");
+  if (!description || !metric) return "description and metric are required";
+
+  let threshold = base?.threshold ?? null;
+  if (body.threshold !== undefined || !base) {
+    threshold = readNumber(body.threshold);
+    if (threshold == null) return "threshold must be a number";
+  }
+  let direction = base?.direction ?? "above";
+  if (body.direction !== undefined) {
+    if (!isIndicatorDirection(body.direction)) return `direction must be one of: ${INDICATOR_DIRECTIONS.join(", ")}`;
+    direction = body.direction;
+  }
+  let unit = base?.unit ?? null;
+  if (body.unit !== undefined) unit = typeof body.unit === "string" && body.unit.trim() ? body.unit.trim() : null;
+  let reviewDate = base?.reviewDate ?? null;
+  if (body.reviewDate !== undefined) {
+    reviewDate = body.reviewDate ? new Date(String(body.reviewDate)) : null;
+    if (reviewDate && Number.isNaN(reviewDate.getTime())) return "reviewDate must be a date";
+  }
+  return { description, metric, unit, direction, threshold: threshold as number, reviewDate };
+}
@@ -0,0 +1,165 @@
+import type { QuantifiedImpact } from "./exposure.js";
+
+/**
+ * Monte Carlo cost / schedule simulation over an org unit's quantified risks. Each iteration samples
+ * whether every risk occurs (its probability) and, if so, its cost and schedule impact (uniform over
+ * the range; a single bound is used as-is). Cost and schedule share the occurrence draw, since they
+ * are effects of the same event. Schedule impacts are summed, i.e. treated as serial delays.
+ */
+export type SimulationRisk = QuantifiedImpact & { id: string; riskName: string };
+
+export type TornadoEntry = {
+  riskId: string;
+  riskName: string;
+  /** Average sampled impact of this risk per iteration (its expected exposure) */
+  meanImpact: number;
+  /** Share of the total's variance contributed by this risk, cov(risk, total) / var(total); shares sum to 1 */
+  varianceShare: number;
+};
+
+export type DistributionSummary = {
+  mean: number;
+  min: number;
+  max: number;
+  p10: number;
+  p50: number;
+  p80: number;
+  p90: number;
+  /** S-curve: total value at every 5th percentile (0-100) */
+  curve: { percentile: number; value: number }[];
+  /** Risks ranked by variance share, largest first */
+  tornado: TornadoEntry[];
+};
+
+export type SimulationResult = {
+  iterations: number;
+  seed: number;
+  /** Risks with a probability and at least one impact range */
+  riskCount: number;
+  /** null when no risk has a cost (or schedule) range */
+  cost: DistributionSummary | null;
+  schedule: DistributionSummary | null;
+};
+
+export const DEFAULT_ITERATIONS = 5000;
+export const MIN_ITERATIONS = 100;
+export const MAX_ITERATIONS = 50000;
+
+/** mulberry32: small seeded PRNG so a run can be reproduced from its seed. */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Range = { low: number; high: number } | null;
+
+function toRange(low: number | null, high: number | null): Range {
+  if (low == null && high == null) return null;
+  return { low: low ?? high!, high: high ?? low! };
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.round((p / 100) * (sorted.length - 1))];
+}
+
+/** Running sums for one dimension (cost or schedule). */
+type Accumulator = {
+  ranges: Range[];
+  totals: Float64Array;
+  sumX: Float64Array;
+  sumXT: Float64Array;
+};
+
+function createAccumulator(ranges: Range[], iterations: number): Accumulator {
+  return { ranges, totals: new Float64Array(iterations), sumX: new Float64Array(ranges.length), sumXT: new Float64Array(ranges.length) };
+}
+
+/** Record one iteration; `samples[i]` is risk i's impact (0 when it did not occur). */
+function record(acc: Accumulator, iteration: number, samples: Float64Array) {
+  let total = 0;
+  for (let i = 0; i < samples.length; i++) total += samples[i];
+  acc.totals[iteration] = total;
+  for (let i = 0; i < samples.length; i++) {
+    acc.sumX[i] += samples[i];
+    acc.sumXT[i] += samples[i] * total;
+  }
+}
+
+function summarize(acc: Accumulator, risks: SimulationRisk[]): DistributionSummary {
+  const n = acc.totals.length;
+  let sumT = 0;
+  let sumT2 = 0;
+  for (const t of acc.totals) {
+    sumT += t;
+    sumT2 += t * t;
+  }
+  const meanT = sumT / n;
+  const varT = sumT2 / n - meanT * meanT;
+  const tornado: TornadoEntry[] = risks
+    .map((r, i) => {
+      const meanX = acc.sumX[i] / n;
+      const cov = acc.sumXT[i] / n - meanX * meanT;
+      return { riskId: r.id, riskName: r.riskName, meanImpact: meanX, varianceShare: varT > 0 ? cov / varT : 0 };
+    })
+    .filter((_, i) => acc.ranges[i] != null)
+    .sort((a, b) => b.varianceShare - a.varianceShare);
+
+  const sorted = Float64Array.from(acc.totals).sort();
+  return {
+    mean: meanT,
+    min: sorted[0] ?? 0,
+    max: sorted[n - 1] ?? 0,
+    p10: percentile(sorted, 10),
+    p50: percentile(sorted, 50),
+    p80: percentile(sorted, 80),
+    p90: percentile(sorted, 90),
+    curve: Array.from({ length: 21 }, (_, k) => ({ percentile: k * 5, value: percentile(sorted, k * 5) })),
+    tornado,
+  };
+}
+
+/** Whether a risk can take part in the simulation (has a probability and some impact range). */
+export function isSimulatable(r: QuantifiedImpact): boolean {
+  return (
+    r.probabilityPercent != null &&
+    (r.costImpactLow != null || r.costImpactHigh != null || r.scheduleImpactLowDays != null || r.scheduleImpactHighDays != null)
+  );
+}
+
+export function simulateRisks(allRisks: SimulationRisk[], iterations: number, seed: number): SimulationResult {
+  const risks = allRisks.filter(isSimulatable);
+  const random = createRandom(seed);
+  const costRanges = risks.map((r) => toRange(r.costImpactLow, r.costImpactHigh));
+  const scheduleRanges = risks.map((r) => toRange(r.scheduleImpactLowDays, r.scheduleImpactHighDays));
+  const cost = createAccumulator(costRanges, iterations);
+  const schedule = createAccumulator(scheduleRanges, iterations);
+  const costSamples = new Float64Array(risks.length);
+  const scheduleSamples = new Float64Array(risks.length);
+
+  for (let it = 0; it < iterations; it++) {
+    for (let i = 0; i < risks.length; i++) {
+      const occurs = random() < (risks[i].probabilityPercent ?? 0) / 100;
+      const c = costRanges[i];
+      const s = scheduleRanges[i];
+      costSamples[i] = occurs && c ? c.low + random() * (c.high - c.low) : 0;
+      scheduleSamples[i] = occurs && s ? s.low + random() * (s.high - s.low) : 0;
+    }
+    record(cost, it, costSamples);
+    record(schedule, it, scheduleSamples);
+  }
+
+  return {
+    iterations,
+    seed,
+    riskCount: risks.length,
+    cost: costRanges.some((r) => r != null) ? summarize(cost, risks) : null,
+    schedule: scheduleRanges.some((r) => r != null) ? summarize(schedule, risks) : null,
+  };
+}
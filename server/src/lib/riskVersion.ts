@@ -0,0 +1,100 @@
+import { prisma } from "./prisma.js";
+import type { AuditActor } from "./auditActor.js";
+import { pickQuantifiedImpact } from "./exposure.js";
+import { CONSEQUENCE_REASON_FIELDS, type ConsequenceDimension } from "./riskConsequence.js";
+
+type RiskState = {
+  riskName: string;
+  riskCondition: string;
+  riskIf: string;
+  riskThen: string;
+  category: string | null;
+  likelihood: number;
+  consequence: number;
+  costConsequence: number | null;
+  scheduleConsequence: number | null;
+  performanceConsequence: number | null;
+  otherConsequence: number | null;
+  probabilityPercent: number | null;
+  costImpactLow: number | null;
+  costImpactHigh: number | null;
+  scheduleImpactLowDays: number | null;
+  scheduleImpactHighDays: number | null;
+  riskLevel: string | null;
+  rubricVersion: number | null;
+  mitigationStrategy: string | null;
+  mitigationPlan: string | null;
+  owner: string | null;
+  status: string;
+};
+
+export function toRiskSnapshot(risk: RiskState): RiskState {
+  return {
+    riskName: risk.riskName,
+    riskCondition: risk.riskCondition,
+    riskIf: risk.riskIf,
+    riskThen: risk.riskThen,
+    category: risk.category,
+    likelihood: risk.likelihood,
+    consequence: risk.consequence,
+    costConsequence: risk.costConsequence,
+    scheduleConsequence: risk.scheduleConsequence,
+    performanceConsequence: risk.performanceConsequence,
+    otherConsequence: risk.otherConsequence,
+    ...pickQuantifiedImpact(risk),
+    riskLevel: risk.riskLevel,
+    rubricVersion: risk.rubricVersion,
+    mitigationStrategy: risk.mitigationStrategy,
+    mitigationPlan: risk.mitigationPlan,
+    owner: risk.owner,
+    status: risk.status,
+  };
+}
+
+type PrismaClientLike = Pick<typeof prisma, "riskVersion" | "risk">;
+
+export type ConsequenceReasons = Partial<Record<(typeof CONSEQUENCE_REASON_FIELDS)[ConsequenceDimension], string | null>>;
+
+/**
+ * Persist a new risk version for audit/history. Call after every risk create and update. Use tx when inside a transaction.
+ * Every version counts as a review (unless options.review is false): the risk's lastReviewedAt moves to it.
+ */
+export async function createRiskVersion(
+  actor: AuditActor,
+  riskId: string,
+  risk: RiskState,
+  options?: {
+    likelihoodChangeReason?: string | null;
+    consequenceChangeReason?: string | null;
+    consequenceReasons?: ConsequenceReasons;
+    statusChangeRationale?: string | null;
+    /** "Reviewed, no change": the snapshot repeats the previous version */
+    reviewedNoChange?: boolean;
+    reviewNote?: string | null;
+    /** false for backfill and replay writes: they record history, not a review, so lastReviewedAt is left alone */
+    review?: boolean;
+  },
+  tx?: PrismaClientLike
+) {
+  const db = tx ?? prisma;
+  const count = await db.riskVersion.count({ where: { riskId } });
+  const version = count + 1;
+  const snapshot = toRiskSnapshot(risk);
+  const created = await db.riskVersion.create({
+    data: {
+      ...actor,
+      riskId,
+      version,
+      snapshot,
+      likelihoodChangeReason: options?.likelihoodChangeReason ?? null,
+      consequenceChangeReason: options?.consequenceChangeReason ?? null,
+      ...options?.consequenceReasons,
+      statusChangeRationale: options?.statusChangeRationale ?? null,
+      reviewedNoChange: options?.reviewedNoChange ?? false,
+      reviewNote: options?.reviewNote ?? null,
+    },
+  });
+  if (options?.review !== false) {
+    await db.risk.update({ where: { id: riskId }, data: { lastReviewedAt: created.createdAt } });
+  }
+}
@@ -0,0 +1,67 @@
+import type { Request, Response } from "express";
+import { SAML, type Profile } from "@node-saml/node-saml";
+import { safeReturnTo, type IdentityAttributes, type IdentityProvider } from "./identityProvider.js";
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} must be set when AUTH_PROVIDER=saml`);
+  return value;
+}
+
+function attr(profile: Profile, ...names: string[]): string | null {
+  for (const n of names) {
+    const v = profile[n];
+    if (typeof v === "string" && v.trim()) return v.trim();
+  }
+  return null;
+}
+
+/**
+ * Okta (or any SAML 2.0) IdP using the HTTP-POST binding.
+ * Config: SAML_ENTRY_POINT (IdP SSO URL), SAML_ISSUER (SP entity ID), SAML_CALLBACK_URL (ACS URL,
+ * i.e. …/api/auth/callback), SAML_IDP_CERT (IdP signing cert, PEM body), optional SAML_LOGOUT_URL.
+ */
+export class SamlIdentityProvider implements IdentityProvider {
+  readonly name = "saml";
+  private readonly saml: SAML;
+
+  constructor() {
+    this.saml = new SAML({
+      entryPoint: requireEnv("SAML_ENTRY_POINT"),
+      issuer: requireEnv("SAML_ISSUER"),
+      callbackUrl: requireEnv("SAML_CALLBACK_URL"),
+      idpCert: requireEnv("SAML_IDP_CERT"),
+      audience: process.env.SAML_AUDIENCE ?? requireEnv("SAML_ISSUER"),
+      wantAssertionsSigned: true,
+    });
+  }
+
+  async startLogin(_req: Request, res: Response, returnTo: string): Promise<void> {
+    const url = await this.saml.getAuthorizeUrlAsync(returnTo, undefined, {});
+    res.redirect(url);
+  }
+
+  async handleCallback(req: Request): Promise<{ identity: IdentityAttributes; returnTo: string }> {
+    const body = (req.body ?? {}) as Record<string, string>;
+    const { profile } = await this.saml.validatePostResponseAsync(body);
+    if (!profile?.nameID) throw new Error("SAML response has no NameID");
+    const email = attr(profile, "email", "mail", "urn:oid:0.9.2342.19200300.100.1.3");
+    const firstName = attr(profile, "firstName", "givenName");
+    const lastName = attr(profile, "lastName", "sn", "surname");
+    const displayName =
+      attr(profile, "displayName") ?? ([firstName, lastName].filter(Boolean).join(" ") || email || profile.nameID);
+    return {
+      identity: {
+        externalId: profile.nameID,
+        username: attr(profile, "login", "username") ?? email ?? profile.nameID,
+        displayName,
+        email,
+      },
+      returnTo: safeReturnTo(body.RelayState),
+    };
+  }
+
+  getLogoutRedirect(): string | null {
+    return process.env.SAML_LOGOUT_URL ?? null;
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import type { Request, Response } from "express";
+
+/**
+ * Stateless session: an HS256 JWT carried in an httpOnly cookie (browser) or an
+ * `Authorization: Bearer` header (scripts). Signed with SESSION_SECRET.
+ */
+export const SESSION_COOKIE = "rio_session";
+
+const SESSION_TTL_HOURS = Number(process.env.SESSION_TTL_HOURS ?? 8);
+
+export type SessionPayload = {
+  /** User.id */
+  sub: string;
+  /** Impersonating Admin's User.id ("actor"); present only during an act-as session */
+  act?: string;
+  iat: number;
+  exp: number;
+};
+
+// Dev fallback: random per process, so sessions do not survive a server restart.
+const devSecret = crypto.randomBytes(32).toString("hex");
+if (!process.env.SESSION_SECRET && process.env.NODE_ENV !== "production") {
+  console.warn("SESSION_SECRET not set; using a random secret (sessions reset on restart)");
+}
+
+function getSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return devSecret;
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string): string {
+  return crypto.createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+export function signSession(claims: Omit<SessionPayload, "iat" | "exp">): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = { ...claims, iat: now, exp: now + SESSION_TTL_HOURS * 3600 };
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const body = base64url(JSON.stringify(payload));
+  return `${header}.${body}.${sign(`${header}.${body}`)}`;
+}
+
+/** Verify signature and expiry. Returns null for any invalid or expired token. */
+export function verifySession(token: string): SessionPayload | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [header, body, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as SessionPayload;
+    if (typeof payload.sub !== "string" || typeof payload.exp !== "number") return null;
+    if (payload.act !== undefined && typeof payload.act !== "string") return null;
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const idx = part.indexOf("=");
+    if (idx < 0) continue;
+    if (part.slice(0, idx).trim() === name) return decodeURIComponent(part.slice(idx + 1).trim());
+  }
+  return null;
+}
+
+/** Session token from `Authorization: Bearer …` or the session cookie. */
+export function readSessionToken(req: Request): string | null {
+  const auth = req.headers.authorization;
+  if (typeof auth === "string" && auth.startsWith("Bearer ")) return auth.slice(7).trim() || null;
+  return readCookie(req, SESSION_COOKIE);
+}
+
+export function setSessionCookie(res: Response, token: string) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_HOURS * 3600 * 1000,
+    path: "/",
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+}
@@ -0,0 +1,92 @@
+import type { NextFunction, Request, Response } from "express";
+import { prisma } from "../lib/prisma.js";
+import { readSessionToken, verifySession } from "../lib/session.js";
+import { hashApiKey, isApiKey } from "../lib/apiKeys.js";
+
+/** The signed-in user, attached to the request by `authenticate`. */
+export type AuthUser = {
+  id: string;
+  externalId: string;
+  username: string;
+  displayName: string;
+  email: string | null;
+  /** Global Admin (see lib/permissions.ts) */
+  isAdmin: boolean;
+  isServiceAccount: boolean;
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Effective user: permissions and audit attribution use this user. */
+      user?: AuthUser;
+      /** The Admin acting as `user`, during an impersonation session. */
+      impersonator?: AuthUser;
+      /** Set when the request authenticated with a service-account API key. */
+      apiKey?: { id: string; name: string };
+    }
+  }
+}
+
+const AUTH_USER_SELECT = {
+  id: true,
+  externalId: true,
+  username: true,
+  displayName: true,
+  email: true,
+  isAdmin: true,
+  isServiceAccount: true,
+} as const;
+
+/** lastUsedAt is refreshed at most this often per key, to avoid a write on every request. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/** Service-account API key from `X-API-Key` or `Authorization: Bearer rio_…`. Revoked keys are ignored. */
+async function authenticateApiKey(req: Request, key: string) {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { user: { select: AUTH_USER_SELECT } },
+  });
+  if (!apiKey || apiKey.revokedAt || !apiKey.user.isServiceAccount) return;
+  req.user = apiKey.user;
+  req.apiKey = { id: apiKey.id, name: apiKey.name };
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } });
+  }
+}
+
+/**
+ * Resolve the current user from the session cookie, bearer token or API key. Never rejects; see requireAuth.
+ * Impersonation sessions are only honoured while the impersonator is still an Admin.
+ */
+export async function authenticate(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const headerKey = req.headers["x-api-key"];
+    const token = typeof headerKey === "string" && headerKey ? headerKey : readSessionToken(req);
+    if (token && isApiKey(token)) {
+      await authenticateApiKey(req, token);
+      return next();
+    }
+    const session = token ? verifySession(token) : null;
+    if (session) {
+      const user = await prisma.user.findUnique({ where: { id: session.sub }, select: AUTH_USER_SELECT });
+      if (user && session.act) {
+        const impersonator = await prisma.user.findUnique({ where: { id: session.act }, select: AUTH_USER_SELECT });
+        if (impersonator?.isAdmin) {
+          req.user = user;
+          req.impersonator = impersonator;
+        }
+      } else if (user) {
+        req.user = user;
+      }
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ error: "Authentication required" });
+  next();
+}
@@ -0,0 +1,88 @@
+import type { NextFunction, Request, Response } from "express";
+import { prisma } from "../lib/prisma.js";
+import { getOrgUnitRole, roleSatisfies, type Role } from "../lib/permissions.js";
+import { getRioItemOrgUnitId, isRioItemType } from "../lib/rioRelationships.js";
+
+/**
+ * Finds the org unit a request acts on. Returning null lets the route handler answer
+ * (400 for a missing organizationalUnitId, 404 for an unknown record).
+ */
+export type OrgUnitResolver = (req: Request) => Promise<string | null>;
+
+export const orgUnitFromQuery: OrgUnitResolver = async (req) =>
+  typeof req.query.organizationalUnitId === "string" ? req.query.organizationalUnitId : null;
+
+export const orgUnitFromBody: OrgUnitResolver = async (req) =>
+  typeof req.body?.organizationalUnitId === "string" ? req.body.organizationalUnitId : null;
+
+/** The route param is itself an org unit id (e.g. /organizational-units/:id). */
+export function orgUnitFromParam(param = "id"): OrgUnitResolver {
+  return async (req) => req.params[param] ?? null;
+}
+
+export function orgUnitOfRisk(param = "id"): OrgUnitResolver {
+  return async (req) => {
+    const risk = await prisma.risk.findUnique({ where: { id: req.params[param] }, select: { organizationalUnitId: true } });
+    return risk?.organizationalUnitId ?? null;
+  };
+}
+
+export function orgUnitOfIssue(param = "id"): OrgUnitResolver {
+  return async (req) => {
+    const issue = await prisma.issue.findUnique({ where: { id: req.params[param] }, select: { organizationalUnitId: true } });
+    return issue?.organizationalUnitId ?? null;
+  };
+}
+
+export function orgUnitOfOpportunity(param = "id"): OrgUnitResolver {
+  return async (req) => {
+    const opp = await prisma.opportunity.findUnique({ where: { id: req.params[param] }, select: { organizationalUnitId: true } });
+    return opp?.organizationalUnitId ?? null;
+  };
+}
+
+export function orgUnitOfBoardMeeting(param = "id"): OrgUnitResolver {
+  return async (req) => {
+    const meeting = await prisma.boardMeeting.findUnique({ where: { id: req.params[param] }, select: { organizationalUnitId: true } });
+    return meeting?.organizationalUnitId ?? null;
+  };
+}
+
+/** The risk, issue or opportunity named by `<prefix>Type` and `<prefix>Id` in the query or body (relationships). */
+export function orgUnitOfRioItem(from: "query" | "body", prefix: string): OrgUnitResolver {
+  return async (req) => {
+    const params = (from === "query" ? req.query : req.body) ?? {};
+    const type = params[`${prefix}Type`];
+    const id = params[`${prefix}Id`];
+    if (!isRioItemType(type) || typeof id !== "string") return null;
+    return getRioItemOrgUnitId(type, id);
+  };
+}
+
+/** Global Admin only (entities, PPDs, categories, settings, maintenance endpoints). */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) return res.status(401).json({ error: "Authentication required" });
+  if (!req.user.isAdmin) return res.status(403).json({ error: "Admin role required" });
+  next();
+}
+
+/** Require at least `minRole` on the org unit the request targets (403 when unassigned or below). */
+export function requireOrgUnitRole(minRole: Role, resolve: OrgUnitResolver) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ error: "Authentication required" });
+    try {
+      const organizationalUnitId = await resolve(req);
+      if (!organizationalUnitId) return next();
+      const role = await getOrgUnitRole(req.user, organizationalUnitId);
+      if (!roleSatisfies(role, minRole)) {
+        return res.status(403).json({
+          error: role ? `${minRole[0].toUpperCase()}${minRole.slice(1)} role required for this organizational unit` : "No access to this organizational unit",
+        });
+      }
+      next();
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: "Failed to check permissions" });
+    }
+  };
+}
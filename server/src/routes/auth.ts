@@ -0,0 +1,141 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { getIdentityProvider, safeReturnTo } from "../lib/identityProvider.js";
+import { clearSessionCookie, setSessionCookie, signSession } from "../lib/session.js";
+import { listUserPermissions } from "../lib/permissions.js";
+
+export const authRoutes = Router();
+
+/** ADMIN_USERNAMES="a@example.com,b@example.com" — bootstrap global Admins; they are promoted on login. */
+function isBootstrapAdmin(username: string): boolean {
+  const list = (process.env.ADMIN_USERNAMES ?? "").split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+  return list.includes(username.toLowerCase());
+}
+
+/** GET /api/auth/login?returnTo=/path — start login with the configured IdP. */
+authRoutes.get("/login", async (req, res) => {
+  try {
+    await getIdentityProvider().startLogin(req, res, safeReturnTo(req.query.returnTo));
+  } catch (err) {
+    console.error("Login start failed:", err);
+    res.status(500).json({ error: "Failed to start login" });
+  }
+});
+
+/**
+ * POST /api/auth/callback — IdP response (SAML ACS, or the mock IdP form).
+ * Upserts the User from the asserted identity, then issues the session.
+ * Browsers are redirected to RelayState; JSON clients get { user, token }.
+ */
+authRoutes.post("/callback", async (req, res) => {
+  let result;
+  try {
+    result = await getIdentityProvider().handleCallback(req);
+  } catch (err) {
+    console.error("Login callback rejected:", err);
+    return res.status(401).json({ error: "Login failed" });
+  }
+  try {
+    const { identity, returnTo } = result;
+    const existing = await prisma.user.findUnique({ where: { externalId: identity.externalId }, select: { isServiceAccount: true } });
+    if (existing?.isServiceAccount) return res.status(403).json({ error: "Service accounts cannot sign in interactively" });
+    const promote = isBootstrapAdmin(identity.username);
+    const user = await prisma.user.upsert({
+      where: { externalId: identity.externalId },
+      create: {
+        externalId: identity.externalId,
+        username: identity.username,
+        displayName: identity.displayName,
+        email: identity.email,
+        isAdmin: promote,
+        lastLoginAt: new Date(),
+      },
+      update: {
+        username: identity.username,
+        displayName: identity.displayName,
+        email: identity.email,
+        ...(promote ? { isAdmin: true } : {}),
+        lastLoginAt: new Date(),
+      },
+      select: { id: true, externalId: true, username: true, displayName: true, email: true, isAdmin: true, isServiceAccount: true },
+    });
+    const token = signSession({ sub: user.id });
+    setSessionCookie(res, token);
+    if (req.is("application/json")) return res.json({ user, token });
+    res.redirect(returnTo);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to complete login" });
+  }
+});
+
+/** GET /api/auth/me — current user with LE/PPD permissions, or 401 when not signed in. */
+authRoutes.get("/me", async (req, res) => {
+  if (!req.user) return res.status(401).json({ error: "Not signed in" });
+  try {
+    const permissions = await listUserPermissions(req.user.id);
+    const impersonator = req.impersonator
+      ? { id: req.impersonator.id, username: req.impersonator.username, displayName: req.impersonator.displayName }
+      : null;
+    res.json({ ...req.user, permissions, impersonator });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch current user" });
+  }
+});
+
+/** POST /api/auth/logout — clear the session; returns the IdP sign-out URL when configured. */
+authRoutes.post("/logout", (_req, res) => {
+  clearSessionCookie(res);
+  let redirectUrl: string | null = null;
+  try {
+    redirectUrl = getIdentityProvider().getLogoutRedirect();
+  } catch (err) {
+    console.error("Logout redirect lookup failed:", err);
+  }
+  res.json({ ok: true, redirectUrl });
+});
+
+/**
+ * POST /api/auth/impersonate — body: { userId }. Admin only; starts an "act as" session.
+ * The new session's subject is the target user and its `act` claim is the Admin, so
+ * permissions follow the target while audit logs record both.
+ */
+authRoutes.post("/impersonate", async (req, res) => {
+  if (!req.user) return res.status(401).json({ error: "Not signed in" });
+  if (req.impersonator) return res.status(400).json({ error: "Already impersonating; stop first" });
+  if (!req.user.isAdmin) return res.status(403).json({ error: "Admin role required" });
+  const { userId } = req.body ?? {};
+  if (typeof userId !== "string" || !userId) return res.status(400).json({ error: "userId is required" });
+  if (userId === req.user.id) return res.status(400).json({ error: "Cannot impersonate yourself" });
+  if (req.apiKey) return res.status(400).json({ error: "Impersonation requires an interactive session" });
+  try {
+    const target = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, displayName: true } });
+    if (!target) return res.status(404).json({ error: "User not found" });
+    await prisma.impersonationEvent.create({
+      data: { impersonatorUserId: req.user.id, targetUserId: target.id, action: "started" },
+    });
+    const token = signSession({ sub: target.id, act: req.user.id });
+    setSessionCookie(res, token);
+    res.json({ ok: true, token });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to start impersonation" });
+  }
+});
+
+/** POST /api/auth/impersonate/stop — end the act-as session and return to the Admin's own session. */
+authRoutes.post("/impersonate/stop", async (req, res) => {
+  if (!req.user || !req.impersonator) return res.status(400).json({ error: "Not impersonating" });
+  try {
+    await prisma.impersonationEvent.create({
+      data: { impersonatorUserId: req.impersonator.id, targetUserId: req.user.id, action: "stopped" },
+    });
+    const token = signSession({ sub: req.impersonator.id });
+    setSessionCookie(res, token);
+    res.json({ ok: true, token });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to stop impersonation" });
+  }
+});
@@ -0,0 +1,374 @@
+import { Router, type Request } from "express";
+import { prisma } from "../lib/prisma.js";
+import { auditActor } from "../lib/auditActor.js";
+import { getAccessibleOrgUnitIds, getOrgUnitRole, roleSatisfies, type PermissionSubject } from "../lib/permissions.js";
+import { resolveOrgUnitScope } from "../lib/orgUnitHierarchy.js";
+import { findRioItems, getRioItemOrgUnitId, isRioItemType, rioItemKey, type RioItemSummary } from "../lib/rioRelationships.js";
+import {
+  createDecisionAuditLog,
+  minutesFileName,
+  readDate,
+  readMeetingFields,
+  renderMeetingMinutes,
+} from "../lib/boardMeetings.js";
+import { orgUnitFromBody, orgUnitFromQuery, orgUnitOfBoardMeeting, requireOrgUnitRole } from "../middleware/permissions.js";
+
+/**
+ * Risk management board meetings. Viewers of the meeting's org unit can read it and export the
+ * minutes; Editors schedule meetings and record the agenda, decisions and action items.
+ */
+export const boardMeetingRoutes = Router();
+
+const UNIT_SELECT = { select: { id: true, name: true, type: true } } as const;
+
+const MEETING_INCLUDE = {
+  organizationalUnit: UNIT_SELECT,
+  agendaItems: { orderBy: { sequenceOrder: "asc" } },
+  actionItems: { orderBy: { createdAt: "asc" } },
+} as const;
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+async function findMeeting(id: string) {
+  return prisma.boardMeeting.findUnique({ where: { id }, include: MEETING_INCLUDE });
+}
+
+/** Linked items the user can view, keyed by rioItemKey (items in other units may be hidden). */
+async function visibleAgendaItems(user: PermissionSubject, agendaItems: { itemType: string | null; itemId: string | null }[]) {
+  const refs = agendaItems.flatMap((a) => (isRioItemType(a.itemType) && a.itemId ? [{ type: a.itemType, id: a.itemId }] : []));
+  const items = await findRioItems(refs);
+  const accessible = await getAccessibleOrgUnitIds(user);
+  const visible = new Map<string, RioItemSummary>();
+  for (const [key, item] of items) {
+    if (!accessible || accessible.includes(item.organizationalUnit.id)) visible.set(key, item);
+  }
+  return visible;
+}
+
+/** The meeting with each agenda item's linked item (null when deleted or not viewable). */
+async function toMeetingResponse(user: PermissionSubject, meeting: NonNullable<Awaited<ReturnType<typeof findMeeting>>>) {
+  const items = await visibleAgendaItems(user, meeting.agendaItems);
+  return {
+    ...meeting,
+    agendaItems: meeting.agendaItems.map((a) => ({
+      ...a,
+      item: a.itemType && a.itemId ? items.get(rioItemKey({ type: a.itemType, id: a.itemId })) ?? null : null,
+    })),
+  };
+}
+
+type DecisionMeeting = { id: string; title: string; meetingDate: Date };
+type DecisionAgendaItem = { id: string; itemType: string | null; itemId: string | null };
+
+/**
+ * Whether the user may record a decision on an agenda item: a decision goes into the linked item's
+ * audit log, so it needs Editor on that item's unit as well as on the meeting's (true when nothing is linked).
+ */
+async function canRecordDecision(user: PermissionSubject, agendaItem: Pick<DecisionAgendaItem, "itemType" | "itemId">) {
+  if (!isRioItemType(agendaItem.itemType) || !agendaItem.itemId) return true;
+  const unitId = await getRioItemOrgUnitId(agendaItem.itemType, agendaItem.itemId);
+  return !unitId || roleSatisfies(await getOrgUnitRole(user, unitId), "editor");
+}
+
+const DECISION_FORBIDDEN = "Recording a decision on a linked item needs Editor access to the item's organizational unit";
+
+/** Append a decision to the linked item's audit log when it was set or changed. */
+async function logDecision(
+  req: Request,
+  meeting: DecisionMeeting,
+  agendaItem: DecisionAgendaItem,
+  decision: string | null,
+  previousDecision: string | null
+) {
+  if (!decision || decision === previousDecision || !isRioItemType(agendaItem.itemType) || !agendaItem.itemId) return;
+  if (!(await getRioItemOrgUnitId(agendaItem.itemType, agendaItem.itemId))) return;
+  await createDecisionAuditLog(auditActor(req), { type: agendaItem.itemType, id: agendaItem.itemId }, {
+    meeting: { id: meeting.id, title: meeting.title, meetingDate: meeting.meetingDate.toISOString() },
+    agendaItemId: agendaItem.id,
+    decision,
+    previousDecision: previousDecision ?? undefined,
+  });
+}
+
+/**
+ * GET / — meetings of an org unit, newest first (query: organizationalUnitId, includeDescendants),
+ * with agenda, decision and open action item counts.
+ */
+boardMeetingRoutes.get("/", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
+  try {
+    const { organizationalUnitId } = req.query;
+    if (typeof organizationalUnitId !== "string") return res.status(400).json({ error: "organizationalUnitId is required" });
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
+    const meetings = await prisma.boardMeeting.findMany({
+      where: { organizationalUnitId: { in: scope } },
+      orderBy: { meetingDate: "desc" },
+      include: {
+        organizationalUnit: UNIT_SELECT,
+        agendaItems: { select: { decision: true } },
+        actionItems: { select: { completedAt: true } },
+      },
+    });
+    res.json(
+      meetings.map(({ agendaItems, actionItems, ...m }) => ({
+        ...m,
+        agendaItemCount: agendaItems.length,
+        decisionCount: agendaItems.filter((a) => a.decision).length,
+        openActionItemCount: actionItems.filter((ai) => !ai.completedAt).length,
+      }))
+    );
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch meetings" });
+  }
+});
+
+/** POST / — schedule a meeting. Body: { organizationalUnitId, title, meetingDate, location?, attendees?, notes? }. */
+boardMeetingRoutes.post("/", requireOrgUnitRole("editor", orgUnitFromBody), async (req, res) => {
+  try {
+    const { organizationalUnitId } = req.body;
+    if (typeof organizationalUnitId !== "string") return res.status(400).json({ error: "organizationalUnitId is required" });
+    const orgUnit = await prisma.organizationalUnit.findUnique({ where: { id: organizationalUnitId }, select: { id: true } });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    const fields = readMeetingFields(req.body, null);
+    if (typeof fields === "string") return res.status(400).json({ error: fields });
+    const created = await prisma.boardMeeting.create({
+      data: { ...auditActor(req), organizationalUnitId: orgUnit.id, ...fields },
+      include: MEETING_INCLUDE,
+    });
+    res.status(201).json(await toMeetingResponse(req.user!, created));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create meeting" });
+  }
+});
+
+/** GET /:id/minutes — the minutes as a Markdown download. */
+boardMeetingRoutes.get("/:id/minutes", requireOrgUnitRole("viewer", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const meeting = await findMeeting(req.params.id);
+    if (!meeting) return res.status(404).json({ error: "Meeting not found" });
+    const items = await visibleAgendaItems(req.user!, meeting.agendaItems);
+    res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${minutesFileName(meeting)}"`);
+    res.send(renderMeetingMinutes(meeting, items));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to export minutes" });
+  }
+});
+
+/**
+ * POST /:id/agenda-items — add an agenda item. Body: { itemType?, itemId?, title?, discussion?, decision? }.
+ * A linked item must be one the user can view; the title defaults to its name. A decision on a linked
+ * item also needs Editor on the item's unit, since it is written to the item's audit log.
+ */
+boardMeetingRoutes.post("/:id/agenda-items", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const meeting = await prisma.boardMeeting.findUnique({ where: { id: req.params.id }, select: { id: true, title: true, meetingDate: true } });
+    if (!meeting) return res.status(404).json({ error: "Meeting not found" });
+    const { itemType, itemId } = req.body;
+    let title = optionalText(req.body.title);
+    if (itemType != null || itemId != null) {
+      if (!isRioItemType(itemType) || typeof itemId !== "string") {
+        return res.status(400).json({ error: "itemType (risk, issue or opportunity) and itemId go together" });
+      }
+      const item = (await findRioItems([{ type: itemType, id: itemId }])).get(rioItemKey({ type: itemType, id: itemId }));
+      if (!item) return res.status(404).json({ error: "Linked item not found" });
+      if (!roleSatisfies(await getOrgUnitRole(req.user!, item.organizationalUnit.id), "viewer")) {
+        return res.status(403).json({ error: "No access to the linked item's organizational unit" });
+      }
+      title = title ?? item.name;
+    }
+    if (!title) return res.status(400).json({ error: "title is required for an agenda item without a linked item" });
+    const decision = optionalText(req.body.decision);
+    if (decision && !(await canRecordDecision(req.user!, { itemType, itemId }))) return res.status(403).json({ error: DECISION_FORBIDDEN });
+    const count = await prisma.boardMeetingAgendaItem.count({ where: { meetingId: meeting.id } });
+    const created = await prisma.boardMeetingAgendaItem.create({
+      data: {
+        meetingId: meeting.id,
+        sequenceOrder: count,
+        title,
+        itemType: isRioItemType(itemType) ? itemType : null,
+        itemId: typeof itemId === "string" ? itemId : null,
+        discussion: optionalText(req.body.discussion),
+        decision,
+        decidedAt: decision ? new Date() : null,
+      },
+    });
+    await logDecision(req, meeting, created, decision, null);
+    res.status(201).json(created);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to add agenda item" });
+  }
+});
+
+/**
+ * PATCH /:id/agenda-items/:agendaItemId — edit the title, discussion or decision. Setting or changing
+ * the decision appends it to the linked item's audit log, which needs Editor on the item's unit.
+ */
+boardMeetingRoutes.patch("/:id/agenda-items/:agendaItemId", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const agendaItem = await prisma.boardMeetingAgendaItem.findFirst({
+      where: { id: req.params.agendaItemId, meetingId: req.params.id },
+      include: { meeting: { select: { id: true, title: true, meetingDate: true } } },
+    });
+    if (!agendaItem) return res.status(404).json({ error: "Agenda item not found" });
+    const data: { title?: string; discussion?: string | null; decision?: string | null; decidedAt?: Date | null } = {};
+    if (req.body.title !== undefined) {
+      const title = optionalText(req.body.title);
+      if (!title) return res.status(400).json({ error: "title cannot be empty" });
+      data.title = title;
+    }
+    if (req.body.discussion !== undefined) data.discussion = optionalText(req.body.discussion);
+    if (req.body.decision !== undefined) {
+      data.decision = optionalText(req.body.decision);
+      if (data.decision !== agendaItem.decision) data.decidedAt = data.decision ? new Date() : null;
+      if (data.decision && data.decision !== agendaItem.decision && !(await canRecordDecision(req.user!, agendaItem))) {
+        return res.status(403).json({ error: DECISION_FORBIDDEN });
+      }
+    }
+    const updated = await prisma.boardMeetingAgendaItem.update({ where: { id: agendaItem.id }, data });
+    if (data.decision !== undefined) await logDecision(req, agendaItem.meeting, updated, data.decision, agendaItem.decision);
+    res.json(updated);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update agenda item" });
+  }
+});
+
+/** DELETE /:id/agenda-items/:agendaItemId — remove an agenda item; its action items stay on the meeting. */
+boardMeetingRoutes.delete("/:id/agenda-items/:agendaItemId", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const agendaItem = await prisma.boardMeetingAgendaItem.findFirst({ where: { id: req.params.agendaItemId, meetingId: req.params.id } });
+    if (!agendaItem) return res.status(404).json({ error: "Agenda item not found" });
+    await prisma.$transaction([
+      prisma.boardMeetingAgendaItem.delete({ where: { id: agendaItem.id } }),
+      prisma.boardMeetingAgendaItem.updateMany({
+        where: { meetingId: agendaItem.meetingId, sequenceOrder: { gt: agendaItem.sequenceOrder } },
+        data: { sequenceOrder: { decrement: 1 } },
+      }),
+    ]);
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete agenda item" });
+  }
+});
+
+type ActionItemData = { description?: string; owner?: string | null; dueDate?: Date | null; agendaItemId?: string | null; completedAt?: Date | null };
+
+/** Validate action item fields (description is required on create). Returns an error message on bad input. */
+async function readActionItemData(meetingId: string, body: Record<string, unknown>, creating: boolean): Promise<ActionItemData | string> {
+  const data: ActionItemData = {};
+  if (body.description !== undefined || creating) {
+    const description = optionalText(body.description);
+    if (!description) return "description is required";
+    data.description = description;
+  }
+  if (body.owner !== undefined) data.owner = optionalText(body.owner);
+  if (body.dueDate !== undefined) {
+    const dueDate = readDate(body.dueDate);
+    if (dueDate === undefined) return "dueDate must be a date";
+    data.dueDate = dueDate;
+  }
+  if (body.agendaItemId !== undefined) {
+    if (body.agendaItemId === null || body.agendaItemId === "") {
+      data.agendaItemId = null;
+    } else {
+      const agendaItem =
+        typeof body.agendaItemId === "string"
+          ? await prisma.boardMeetingAgendaItem.findFirst({ where: { id: body.agendaItemId, meetingId }, select: { id: true } })
+          : null;
+      if (!agendaItem) return "agendaItemId must be an agenda item of this meeting";
+      data.agendaItemId = agendaItem.id;
+    }
+  }
+  if (body.completed !== undefined) data.completedAt = body.completed === true ? new Date() : null;
+  return data;
+}
+
+/** POST /:id/action-items — Body: { description, owner?, dueDate?, agendaItemId? }. */
+boardMeetingRoutes.post("/:id/action-items", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const meeting = await prisma.boardMeeting.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!meeting) return res.status(404).json({ error: "Meeting not found" });
+    const data = await readActionItemData(meeting.id, req.body, true);
+    if (typeof data === "string") return res.status(400).json({ error: data });
+    const created = await prisma.boardMeetingActionItem.create({ data: { ...data, description: data.description!, meetingId: meeting.id } });
+    res.status(201).json(created);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to add action item" });
+  }
+});
+
+/** PATCH /:id/action-items/:actionItemId — Body: any of { description, owner, dueDate, agendaItemId, completed }. */
+boardMeetingRoutes.patch("/:id/action-items/:actionItemId", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const actionItem = await prisma.boardMeetingActionItem.findFirst({ where: { id: req.params.actionItemId, meetingId: req.params.id } });
+    if (!actionItem) return res.status(404).json({ error: "Action item not found" });
+    const data = await readActionItemData(actionItem.meetingId, req.body, false);
+    if (typeof data === "string") return res.status(400).json({ error: data });
+    // Completing an already completed item keeps its original date
+    if (data.completedAt && actionItem.completedAt) data.completedAt = actionItem.completedAt;
+    res.json(await prisma.boardMeetingActionItem.update({ where: { id: actionItem.id }, data }));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update action item" });
+  }
+});
+
+boardMeetingRoutes.delete("/:id/action-items/:actionItemId", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const actionItem = await prisma.boardMeetingActionItem.findFirst({ where: { id: req.params.actionItemId, meetingId: req.params.id } });
+    if (!actionItem) return res.status(404).json({ error: "Action item not found" });
+    await prisma.boardMeetingActionItem.delete({ where: { id: actionItem.id } });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete action item" });
+  }
+});
+
+/** GET /:id — the meeting with its agenda (each with its linked item) and action items. */
+boardMeetingRoutes.get("/:id", requireOrgUnitRole("viewer", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const meeting = await findMeeting(req.params.id);
+    if (!meeting) return res.status(404).json({ error: "Meeting not found" });
+    res.json(await toMeetingResponse(req.user!, meeting));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch meeting" });
+  }
+});
+
+/** PATCH /:id — edit title, meetingDate, location, attendees or notes. */
+boardMeetingRoutes.patch("/:id", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const existing = await prisma.boardMeeting.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ error: "Meeting not found" });
+    const fields = readMeetingFields(req.body, existing);
+    if (typeof fields === "string") return res.status(400).json({ error: fields });
+    const updated = await prisma.boardMeeting.update({ where: { id: existing.id }, data: fields, include: MEETING_INCLUDE });
+    res.json(await toMeetingResponse(req.user!, updated));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update meeting" });
+  }
+});
+
+/** DELETE /:id — delete the meeting with its agenda and action items. Decisions stay in the items' audit logs. */
+boardMeetingRoutes.delete("/:id", requireOrgUnitRole("editor", orgUnitOfBoardMeeting()), async (req, res) => {
+  try {
+    const existing = await prisma.boardMeeting.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!existing) return res.status(404).json({ error: "Meeting not found" });
+    await prisma.boardMeeting.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete meeting" });
+  }
+});
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
+import { requireAdmin } from "../middleware/permissions.js";
 
 export const categoryRoutes = Router();
 
@@ -23,7 +24,7 @@ function slugFromLabel(label: string): string {
     .replace(/^_|_$/g, "") || "category";
 }
 
-categoryRoutes.post("/", async (req, res) => {
+categoryRoutes.post("/", requireAdmin, async (req, res) => {
   try {
     const { label, sortOrder } = req.body;
     const labelStr = typeof label === "string" && label.trim() ? label.trim() : "";
@@ -52,7 +53,7 @@ categoryRoutes.post("/", async (req, res) => {
   }
 });
 
-categoryRoutes.patch("/:id", async (req, res) => {
+categoryRoutes.patch("/:id", requireAdmin, async (req, res) => {
   try {
     const { label, sortOrder } = req.body;
     const existing = await prisma.category.findUnique({ where: { id: req.params.id } });
@@ -80,7 +81,7 @@ categoryRoutes.patch("/:id", async (req, res) => {
   }
 });
 
-categoryRoutes.delete("/:id", async (req, res) => {
+categoryRoutes.delete("/:id", requireAdmin, async (req, res) => {
   try {
     const category = await prisma.category.findUnique({ where: { id: req.params.id } });
     if (!category) return res.status(404).json({ error: "Category not found" });
@@ -0,0 +1,230 @@
+import { Router } from "express";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { actorOf, auditActor } from "../lib/auditActor.js";
+import { getAccessibleOrgUnitIds, getOrgUnitRole, roleSatisfies } from "../lib/permissions.js";
+import { findRioItems, getRioItemOrgUnitId, isRioItemType, rioItemKey } from "../lib/rioRelationships.js";
+import {
+  commentExcerpt,
+  commentStepNumber,
+  createCommentAuditLog,
+  findCommentStep,
+  findMentionedPeople,
+  readCommentBody,
+} from "../lib/comments.js";
+import { orgUnitOfRioItem, requireOrgUnitRole } from "../middleware/permissions.js";
+
+/**
+ * Comment threads on risks, issues, opportunities and their steps. Reading needs Viewer on the item's
+ * unit and commenting Editor; authors edit and delete their own comments, and PPD Admins delete any.
+ */
+export const commentRoutes = Router();
+
+const MENTIONS_LIMIT = 50;
+
+const COMMENT_INCLUDE = {
+  mentions: { select: { person: { select: { id: true, displayName: true } } } },
+  _count: { select: { revisions: true } },
+} satisfies Prisma.CommentInclude;
+
+type CommentRow = Prisma.CommentGetPayload<{ include: typeof COMMENT_INCLUDE }>;
+
+function toComment(c: CommentRow) {
+  const { mentions, _count, ...rest } = c;
+  return { ...rest, mentions: mentions.map((m) => m.person), revisionCount: _count.revisions };
+}
+
+/** GET / — every comment on an item and its steps, oldest first (query: itemType, itemId). Replies carry parentId. */
+commentRoutes.get("/", requireOrgUnitRole("viewer", orgUnitOfRioItem("query", "item")), async (req, res) => {
+  try {
+    const { itemType, itemId } = req.query;
+    if (!isRioItemType(itemType) || typeof itemId !== "string") {
+      return res.status(400).json({ error: "itemType (risk, issue or opportunity) and itemId are required" });
+    }
+    if (!(await getRioItemOrgUnitId(itemType, itemId))) return res.status(404).json({ error: "Item not found" });
+    const comments = await prisma.comment.findMany({ where: { itemType, itemId }, orderBy: { createdAt: "asc" }, include: COMMENT_INCLUDE });
+    res.json(comments.map(toComment));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch comments" });
+  }
+});
+
+/**
+ * GET /mentions — recent comments mentioning a directory person (query: personId; default the person
+ * linked to the signed-in user), newest first, on items the user can view.
+ */
+commentRoutes.get("/mentions", async (req, res) => {
+  try {
+    const personId =
+      typeof req.query.personId === "string" && req.query.personId
+        ? req.query.personId
+        : (await prisma.person.findUnique({ where: { userId: req.user!.id }, select: { id: true } }))?.id;
+    if (!personId) return res.json([]);
+    const rows = await prisma.comment.findMany({
+      where: { deletedAt: null, mentions: { some: { personId } } },
+      orderBy: { createdAt: "desc" },
+      take: MENTIONS_LIMIT,
+      include: COMMENT_INCLUDE,
+    });
+    const items = await findRioItems(rows.map((c) => ({ type: c.itemType, id: c.itemId })));
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    res.json(
+      rows.flatMap((c) => {
+        const item = items.get(rioItemKey({ type: c.itemType, id: c.itemId }));
+        if (!item || (accessible && !accessible.includes(item.organizationalUnit.id))) return [];
+        return [{ ...toComment(c), item }];
+      })
+    );
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch mentions" });
+  }
+});
+
+/**
+ * POST / — add a comment. Body: { itemType, itemId, body, stepId?, parentId?, mentions? (person ids
+ * whose "@Name" is in the body) }. A reply joins its parent's thread and step.
+ */
+commentRoutes.post("/", requireOrgUnitRole("editor", orgUnitOfRioItem("body", "item")), async (req, res) => {
+  try {
+    const { itemType, itemId, stepId, parentId } = req.body;
+    if (!isRioItemType(itemType) || typeof itemId !== "string") {
+      return res.status(400).json({ error: "itemType (risk, issue or opportunity) and itemId are required" });
+    }
+    const body = readCommentBody(req.body.body);
+    if (!body) return res.status(400).json({ error: "body is required" });
+    if (!(await getRioItemOrgUnitId(itemType, itemId))) return res.status(404).json({ error: "Item not found" });
+
+    let thread: { parentId: string | null; stepId: string | null } = { parentId: null, stepId: null };
+    if (typeof parentId === "string" && parentId) {
+      const parent = await prisma.comment.findUnique({ where: { id: parentId } });
+      if (!parent || parent.itemType !== itemType || parent.itemId !== itemId) {
+        return res.status(400).json({ error: "parentId is not a comment on this item" });
+      }
+      thread = { parentId: parent.parentId ?? parent.id, stepId: parent.stepId };
+    } else if (typeof stepId === "string" && stepId) {
+      if (!(await findCommentStep(itemType, itemId, stepId))) return res.status(400).json({ error: "stepId is not a step of this item" });
+      thread.stepId = stepId;
+    }
+
+    const mentioned = await findMentionedPeople(body, req.body.mentions);
+    const actor = auditActor(req);
+    const created = await prisma.comment.create({
+      data: {
+        ...actor,
+        itemType,
+        itemId,
+        ...thread,
+        body,
+        mentions: { create: mentioned.map((p) => ({ personId: p.id })) },
+      },
+      include: COMMENT_INCLUDE,
+    });
+    await createCommentAuditLog(actor, { type: itemType, id: itemId }, "commented", {
+      commentId: created.id,
+      excerpt: commentExcerpt(body),
+      stepNumber: await commentStepNumber(created),
+      ...(created.parentId ? { parentId: created.parentId } : {}),
+      ...(mentioned.length > 0 ? { mentions: mentioned.map((p) => p.displayName) } : {}),
+    });
+    res.status(201).json(toComment(created));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to add comment" });
+  }
+});
+
+/** GET /:id/revisions — the comment's text before each edit or its deletion, oldest first. Viewer on the item's unit. */
+commentRoutes.get("/:id/revisions", async (req, res) => {
+  try {
+    const comment = await prisma.comment.findUnique({ where: { id: req.params.id }, select: { itemType: true, itemId: true } });
+    const unitId = comment ? await getRioItemOrgUnitId(comment.itemType, comment.itemId) : null;
+    if (!unitId) return res.status(404).json({ error: "Comment not found" });
+    if (!roleSatisfies(await getOrgUnitRole(req.user!, unitId), "viewer")) {
+      return res.status(403).json({ error: "No access to this comment's organizational unit" });
+    }
+    const revisions = await prisma.commentRevision.findMany({ where: { commentId: req.params.id }, orderBy: { createdAt: "asc" } });
+    res.json(revisions.map((r) => ({ id: r.id, action: r.action, body: r.body, createdAt: r.createdAt, ...actorOf(r) })));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch comment history" });
+  }
+});
+
+/** PATCH /:id — edit your own comment. Body: { body, mentions? }. The previous text is kept as a revision. */
+commentRoutes.patch("/:id", async (req, res) => {
+  try {
+    const existing = await prisma.comment.findUnique({ where: { id: req.params.id } });
+    const unitId = existing ? await getRioItemOrgUnitId(existing.itemType, existing.itemId) : null;
+    if (!existing || !unitId) return res.status(404).json({ error: "Comment not found" });
+    if (existing.userId !== req.user!.id || !roleSatisfies(await getOrgUnitRole(req.user!, unitId), "editor")) {
+      return res.status(403).json({ error: "Only the author can edit a comment" });
+    }
+    if (existing.deletedAt) return res.status(400).json({ error: "A deleted comment cannot be edited" });
+    const body = readCommentBody(req.body.body);
+    if (!body) return res.status(400).json({ error: "body is required" });
+
+    const mentioned = await findMentionedPeople(body, req.body.mentions);
+    const actor = auditActor(req);
+    const changed = body !== existing.body;
+    const [, , updated] = await prisma.$transaction([
+      prisma.commentMention.deleteMany({ where: { commentId: existing.id } }),
+      prisma.commentMention.createMany({ data: mentioned.map((p) => ({ commentId: existing.id, personId: p.id })) }),
+      prisma.comment.update({
+        where: { id: existing.id },
+        data: changed ? { body, editedAt: new Date(), revisions: { create: { ...actor, action: "edited", body: existing.body } } } : {},
+        include: COMMENT_INCLUDE,
+      }),
+    ]);
+    if (changed) {
+      await createCommentAuditLog(actor, { type: existing.itemType, id: existing.itemId }, "comment_edited", {
+        commentId: existing.id,
+        excerpt: commentExcerpt(body),
+        previousExcerpt: commentExcerpt(existing.body),
+        stepNumber: await commentStepNumber(existing),
+        ...(mentioned.length > 0 ? { mentions: mentioned.map((p) => p.displayName) } : {}),
+      });
+    }
+    res.json(toComment(updated));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update comment" });
+  }
+});
+
+/**
+ * DELETE /:id — delete a comment: the author (Editor), or a PPD Admin of the item's unit. The text is
+ * cleared but kept as a revision, and replies stay in the thread.
+ */
+commentRoutes.delete("/:id", async (req, res) => {
+  try {
+    const existing = await prisma.comment.findUnique({ where: { id: req.params.id } });
+    const unitId = existing ? await getRioItemOrgUnitId(existing.itemType, existing.itemId) : null;
+    if (!existing || !unitId || existing.deletedAt) return res.status(404).json({ error: "Comment not found" });
+    const role = await getOrgUnitRole(req.user!, unitId);
+    const isAuthor = existing.userId === req.user!.id;
+    if (!(isAuthor ? roleSatisfies(role, "editor") : roleSatisfies(role, "admin"))) {
+      return res.status(403).json({ error: "Only the author or a PPD Admin can delete a comment" });
+    }
+
+    const actor = auditActor(req);
+    await prisma.$transaction([
+      prisma.commentMention.deleteMany({ where: { commentId: existing.id } }),
+      prisma.comment.update({
+        where: { id: existing.id },
+        data: { body: "", deletedAt: new Date(), revisions: { create: { ...actor, action: "deleted", body: existing.body } } },
+      }),
+    ]);
+    await createCommentAuditLog(actor, { type: existing.itemType, id: existing.itemId }, "comment_deleted", {
+      commentId: existing.id,
+      excerpt: commentExcerpt(existing.body),
+      stepNumber: await commentStepNumber(existing),
+      ...(existing.parentId ? { parentId: existing.parentId } : {}),
+    });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete comment" });
+  }
+});
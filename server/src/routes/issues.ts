@@ -1,12 +1,33 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
+import { actorOf, auditActor, type AuditActor } from "../lib/auditActor.js";
+import { getAccessibleOrgUnitIds } from "../lib/permissions.js";
+import { orgUnitFromBody, orgUnitOfIssue, requireAdmin, requireOrgUnitRole } from "../middleware/permissions.js";
 import { getIssueLevel, getNumericalIssueLevel } from "../lib/issueLevel.js";
+import { getCurrentRubricVersion } from "../lib/criteriaRubric.js";
+import { resolveOrgUnitScope } from "../lib/orgUnitHierarchy.js";
+import { NO_IMPACT_RANGES, pickImpactRanges, readQuantifiedImpact } from "../lib/exposure.js";
+import {
+  backfillIssueVersions,
+  backfillResolutionStepVersions,
+  createIssueVersion,
+  createResolutionStepVersion,
+} from "../lib/issueVersion.js";
+import { deleteRioItemRelationships } from "../lib/rioRelationships.js";
+import { deleteRioItemComments } from "../lib/comments.js";
+import { createConvertedRisk, optionalTextOr, scoreOr, textOr } from "../lib/rioConversions.js";
+import { readReviewCadenceDays, withReviewSchedules } from "../lib/reviewCadence.js";
+import { readOwner } from "../lib/ownerDirectory.js";
 
 type AuditDetails = {
   changedFields?: string[];
   stepNumber?: number;
   changes?: Record<string, { from: unknown; to: unknown }>;
+  consequenceChangeReason?: string;
+  statusChangeRationale?: string;
+  reviewNote?: string;
   resolutionStepsReordered?: { from: string; to: string };
+  riskCreatedFromIssue?: { riskId: string; riskName: string };
 };
 
 function auditValue(val: unknown): unknown {
@@ -15,14 +36,16 @@ function auditValue(val: unknown): unknown {
 }
 
 async function createIssueAuditLog(
+  actor: AuditActor,
   issueId: string,
   entityType: "issue" | "resolution_step",
   entityId: string,
-  action: "created" | "updated" | "deleted",
+  action: "created" | "updated" | "deleted" | "reviewed" | "converted",
   details?: AuditDetails
 ) {
   await prisma.issueAuditLog.create({
     data: {
+      ...actor,
       issueId,
       entityType,
       entityId,
@@ -32,13 +55,55 @@ async function createIssueAuditLog(
   });
 }
 
+function toCreatedAtISO(val: Date | string | unknown): string {
+  if (val instanceof Date) return val.toISOString();
+  if (typeof val === "string") return val;
+  return new Date(val as string).toISOString();
+}
+
+/** Lifecycle: open → resolving → resolved → closed; ignore for issues deliberately not worked */
+const ISSUE_STATUSES = ["open", "resolving", "resolved", "closed", "ignore"];
+
+/** Status values that require rationale when changed to */
+const STATUS_REQUIRING_RATIONALE = ["closed", "ignore"];
+
+function isIssueStatus(val: unknown): val is string {
+  return typeof val === "string" && ISSUE_STATUSES.includes(val);
+}
+
+/** Latest recorded rationale per issue, for closed and ignored issues. */
+async function latestStatusRationales(issues: { id: string; status: string }[]): Promise<Map<string, string>> {
+  const ids = issues.filter((i) => STATUS_REQUIRING_RATIONALE.includes(i.status)).map((i) => i.id);
+  const rationaleByIssueId = new Map<string, string>();
+  if (ids.length === 0) return rationaleByIssueId;
+  const versions = await prisma.issueVersion.findMany({
+    where: { issueId: { in: ids }, statusChangeRationale: { not: null } },
+    orderBy: { createdAt: "desc" },
+    select: { issueId: true, statusChangeRationale: true },
+  });
+  for (const v of versions) {
+    if (v.statusChangeRationale && !rationaleByIssueId.has(v.issueId)) rationaleByIssueId.set(v.issueId, v.statusChangeRationale);
+  }
+  return rationaleByIssueId;
+}
+
 export const issueRoutes = Router();
 
 issueRoutes.get("/", async (req, res) => {
   try {
     const { organizationalUnitId } = req.query;
-    const where: { organizationalUnitId?: string } = {};
-    if (typeof organizationalUnitId === "string") where.organizationalUnitId = organizationalUnitId;
+    const where: { organizationalUnitId?: { in: string[] } } = {};
+    // Unscoped lists only include org units the user can view; an explicit unassigned scope is a 403.
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    if (typeof organizationalUnitId === "string") {
+      if (accessible && !accessible.includes(organizationalUnitId)) {
+        return res.status(403).json({ error: "No access to this organizational unit" });
+      }
+      const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
+      where.organizationalUnitId = { in: scope };
+    } else if (accessible) {
+      where.organizationalUnitId = { in: accessible };
+    }
     const issues = await prisma.issue.findMany({
       where: Object.keys(where).length ? where : undefined,
       orderBy: { updatedAt: "desc" },
@@ -46,14 +111,16 @@ issueRoutes.get("/", async (req, res) => {
         organizationalUnit: { select: { id: true, name: true, type: true, legalEntity: { select: { id: true, name: true } } } },
       },
     });
-    res.json(issues);
+    const rationales = await latestStatusRationales(issues);
+    const scheduled = await withReviewSchedules(issues, "issue", (i) => i.issueLevel);
+    res.json(scheduled.map((i) => (rationales.has(i.id) ? { ...i, statusChangeRationale: rationales.get(i.id) } : i)));
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch issues" });
   }
 });
 
-issueRoutes.get("/:id/audit-log", async (req, res) => {
+issueRoutes.get("/:id/audit-log", requireOrgUnitRole("viewer", orgUnitOfIssue()), async (req, res) => {
   try {
     const issueId = req.params.id;
     const issue = await prisma.issue.findUnique({ where: { id: issueId }, select: { id: true } });
@@ -72,7 +139,91 @@ issueRoutes.get("/:id/audit-log", async (req, res) => {
   }
 });
 
-issueRoutes.get("/:id", async (req, res) => {
+// Version history (time-travel with ?at=ISO date), merged with resolution step versions.
+// Issues and steps without versions are backfilled from the audit log first.
+issueRoutes.get("/:id/history", requireOrgUnitRole("viewer", orgUnitOfIssue()), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const issue = await prisma.issue.findUnique({ where: { id } });
+    if (!issue) return res.status(404).json({ error: "Issue not found" });
+
+    const { at: atParam } = req.query;
+    const at = typeof atParam === "string" ? new Date(atParam) : null;
+    if (at && Number.isNaN(at.getTime())) return res.status(400).json({ error: "at must be an ISO date" });
+
+    let versions = await prisma.issueVersion.findMany({ where: { issueId: id }, orderBy: { createdAt: "asc" } });
+    if (versions.length === 0) {
+      await backfillIssueVersions(issue);
+      versions = await prisma.issueVersion.findMany({ where: { issueId: id }, orderBy: { createdAt: "asc" } });
+    }
+
+    const entries = versions.map((v) => ({
+      type: "issue" as const,
+      version: v.version,
+      snapshot: v.snapshot,
+      consequenceChangeReason: v.consequenceChangeReason ?? undefined,
+      statusChangeRationale: v.statusChangeRationale ?? undefined,
+      reviewedNoChange: v.reviewedNoChange || undefined,
+      reviewNote: v.reviewNote ?? undefined,
+      ...actorOf(v),
+      createdAt: toCreatedAtISO(v.createdAt),
+    }));
+
+    if (at) {
+      const versionAt = entries.filter((v) => new Date(v.createdAt) <= at);
+      const latest = versionAt[versionAt.length - 1];
+      if (!latest) return res.status(404).json({ error: "No version at that date" });
+      return res.json(latest);
+    }
+
+    await backfillResolutionStepVersions(id);
+    const steps = await prisma.issueResolutionStep.findMany({
+      where: { issueId: id },
+      orderBy: { sequenceOrder: "asc" },
+      include: { versions: { orderBy: { createdAt: "asc" } } },
+    });
+    const stepEntries = steps.flatMap((s) =>
+      s.versions.map((v) => ({
+        type: "resolution_step" as const,
+        stepId: s.id,
+        stepNumber: s.sequenceOrder + 1,
+        version: v.version,
+        snapshot: v.snapshot,
+        ...actorOf(v),
+        createdAt: toCreatedAtISO(v.createdAt),
+      }))
+    );
+
+    const merged = [...entries, ...stepEntries].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+    res.json(merged);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch issue history" });
+  }
+});
+
+// Backfill versions for issues and resolution steps that don't have any (rebuilt from the audit log)
+issueRoutes.post("/backfill-versions", requireAdmin, async (_req, res) => {
+  try {
+    const issues = await prisma.issue.findMany({ where: { versions: { none: {} } } });
+    let created = 0;
+    for (const issue of issues) created += await backfillIssueVersions(issue);
+    const withSteps = await prisma.issue.findMany({
+      where: { resolutionSteps: { some: { versions: { none: {} } } } },
+      select: { id: true },
+    });
+    let stepVersions = 0;
+    for (const { id } of withSteps) stepVersions += await backfillResolutionStepVersions(id);
+    res.json({ message: `Created ${created} version(s) for ${issues.length} issue(s) and ${stepVersions} resolution step version(s)` });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to backfill issue versions" });
+  }
+});
+
+issueRoutes.get("/:id", requireOrgUnitRole("viewer", orgUnitOfIssue()), async (req, res) => {
   try {
     const issue = await prisma.issue.findUnique({
       where: { id: req.params.id },
@@ -80,37 +231,69 @@ issueRoutes.get("/:id", async (req, res) => {
         organizationalUnit: true,
         resolutionSteps: { orderBy: { sequenceOrder: "asc" } },
         sourceRisk: { select: { id: true, riskName: true } },
+        risksCreatedFromIssue: {
+          select: { id: true, organizationalUnitId: true, riskName: true, status: true },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
     if (!issue) return res.status(404).json({ error: "Issue not found" });
-    res.json(issue);
+    const rationale = (await latestStatusRationales([issue])).get(issue.id);
+    const [withSchedule] = await withReviewSchedules([issue], "issue", (i) => i.issueLevel);
+    res.json(rationale ? { ...withSchedule, statusChangeRationale: rationale } : withSchedule);
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch issue" });
   }
 });
 
-issueRoutes.post("/", async (req, res) => {
+issueRoutes.post("/", requireOrgUnitRole("editor", orgUnitFromBody), async (req, res) => {
   try {
-    const { organizationalUnitId, issueName, description, consequence, owner, category, status } = req.body;
+    const { organizationalUnitId, issueName, description, consequence, category, status, statusChangeRationale } = req.body;
     if (!organizationalUnitId || !issueName) {
       return res.status(400).json({ error: "organizationalUnitId and issueName are required" });
     }
+    if (status != null && !isIssueStatus(status)) {
+      return res.status(400).json({ error: `status must be one of: ${ISSUE_STATUSES.join(", ")}` });
+    }
+    const needsRationale = STATUS_REQUIRING_RATIONALE.includes(status);
+    if (needsRationale && (typeof statusChangeRationale !== "string" || !statusChangeRationale.trim())) {
+      return res.status(400).json({ error: "statusChangeRationale is required when closing or ignoring an issue" });
+    }
+    const ranges = readQuantifiedImpact(req.body, NO_IMPACT_RANGES);
+    if (typeof ranges === "string") return res.status(400).json({ error: ranges });
+    const owner = await readOwner(req.body, { owner: null, ownerId: null });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
     const c = Math.max(1, Math.min(5, typeof consequence === "number" ? consequence : 3));
     const issueLevel = getIssueLevel(c);
-    const issue = await prisma.issue.create({
-      data: {
-        organizationalUnitId,
-        issueName: String(issueName).trim(),
-        description: typeof description === "string" ? description.trim() || null : null,
-        consequence: c,
-        issueLevel,
-        owner: typeof owner === "string" && owner.trim() ? owner.trim() : null,
-        category: typeof category === "string" && category.trim() ? category.trim() : null,
-        status: status === "ignore" ? "ignore" : "control",
-      },
+    const rubricVersion = await getCurrentRubricVersion(organizationalUnitId);
+    const issue = await prisma.$transaction(async (tx) => {
+      const i = await tx.issue.create({
+        data: {
+          organizationalUnitId,
+          issueName: String(issueName).trim(),
+          description: typeof description === "string" ? description.trim() || null : null,
+          consequence: c,
+          issueLevel,
+          rubricVersion,
+          ...ranges,
+          ...owner,
+          category: typeof category === "string" && category.trim() ? category.trim() : null,
+          status: status ?? "open",
+        },
+      });
+      const options = needsRationale ? { statusChangeRationale: statusChangeRationale.trim() } : undefined;
+      await createIssueVersion(auditActor(req), i.id, i, options, tx);
+      return i;
     });
-    await createIssueAuditLog(issue.id, "issue", issue.id, "created");
+    await createIssueAuditLog(
+      auditActor(req),
+      issue.id,
+      "issue",
+      issue.id,
+      "created",
+      needsRationale ? { statusChangeRationale: statusChangeRationale.trim() } : undefined
+    );
     res.status(201).json(issue);
   } catch (err) {
     console.error(err);
@@ -118,15 +301,67 @@ issueRoutes.post("/", async (req, res) => {
   }
 });
 
+/**
+ * Spawn a follow-on risk from the issue's consequences; an issue can have any number. Pre-fills the
+ * name, the condition (the issue and its description), consequence, owner and category.
+ */
+issueRoutes.post("/:id/create-risk", requireOrgUnitRole("editor", orgUnitOfIssue()), async (req, res) => {
+  try {
+    const issueId = req.params.id;
+    const issue = await prisma.issue.findUnique({ where: { id: issueId } });
+    if (!issue) return res.status(404).json({ error: "Issue not found" });
+
+    const body = req.body as Record<string, unknown>;
+    const owner = await readOwner(body, { owner: issue.owner, ownerId: issue.ownerId });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
+    const defaultCondition = [`Issue: ${issue.issueName}`, issue.description ?? ""].filter(Boolean).join("\n");
+    const risk = await createConvertedRisk(
+      auditActor(req),
+      issue.organizationalUnitId,
+      {
+        riskName: textOr(body.riskName, `Follow-on: ${issue.issueName}`),
+        riskCondition: textOr(body.riskCondition, defaultCondition),
+        riskIf: textOr(body.riskIf, "The consequences of the issue spread further"),
+        riskThen: textOr(body.riskThen, "Edit to describe the follow-on consequence."),
+        likelihood: scoreOr(body.likelihood, 3),
+        consequence: scoreOr(body.consequence, issue.consequence),
+        ...owner,
+        category: optionalTextOr(body.category, issue.category),
+      },
+      { sourceIssueId: issueId }
+    );
+    await createIssueAuditLog(auditActor(req), issueId, "issue", issueId, "converted", {
+      riskCreatedFromIssue: { riskId: risk.id, riskName: risk.riskName },
+    });
+
+    res.status(201).json(risk);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create risk from issue" });
+  }
+});
+
 const ISSUE_FIELDS_FOR_AUDIT = [
-  "issueName", "description", "consequence", "owner", "category", "status",
+  "issueName", "description", "consequence", "rubricVersion", "owner", "category", "status",
+  "costImpactLow", "costImpactHigh", "scheduleImpactLowDays", "scheduleImpactHighDays", "reviewCadenceDays",
 ] as const;
 
-issueRoutes.patch("/:id", async (req, res) => {
+issueRoutes.patch("/:id", requireOrgUnitRole("editor", orgUnitOfIssue()), async (req, res) => {
   try {
-    const { issueName, description, consequence, owner, category, status } = req.body;
+    const { issueName, description, consequence, category, status, consequenceChangeReason, statusChangeRationale } = req.body;
     const existing = await prisma.issue.findUnique({ where: { id: req.params.id } });
     if (!existing) return res.status(404).json({ error: "Issue not found" });
+    const cChanged = typeof consequence === "number" && consequence >= 1 && consequence <= 5 && consequence !== existing.consequence;
+    if (cChanged && (typeof consequenceChangeReason !== "string" || !consequenceChangeReason.trim())) {
+      return res.status(400).json({ error: "consequenceChangeReason is required when consequence changes" });
+    }
+    if (status != null && !isIssueStatus(status)) {
+      return res.status(400).json({ error: `status must be one of: ${ISSUE_STATUSES.join(", ")}` });
+    }
+    const statusChangingToRationale = STATUS_REQUIRING_RATIONALE.includes(status) && status !== existing.status;
+    if (statusChangingToRationale && (typeof statusChangeRationale !== "string" || !statusChangeRationale.trim())) {
+      return res.status(400).json({ error: "statusChangeRationale is required when closing or ignoring an issue" });
+    }
     const data: Record<string, unknown> = {};
     if (typeof issueName === "string" && issueName.trim()) data.issueName = issueName.trim();
     if (Object.prototype.hasOwnProperty.call(req.body, "description")) {
@@ -135,19 +370,32 @@ issueRoutes.patch("/:id", async (req, res) => {
     if (typeof consequence === "number" && consequence >= 1 && consequence <= 5) {
       data.consequence = consequence;
       data.issueLevel = getIssueLevel(consequence);
+      if (consequence !== existing.consequence) data.rubricVersion = await getCurrentRubricVersion(existing.organizationalUnitId);
     }
-    if (Object.prototype.hasOwnProperty.call(req.body, "owner")) {
-      data.owner = typeof req.body.owner === "string" && req.body.owner.trim() ? req.body.owner.trim() : null;
-    }
+    const owner = await readOwner(req.body, { owner: existing.owner, ownerId: existing.ownerId });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
+    Object.assign(data, owner);
     if (Object.prototype.hasOwnProperty.call(req.body, "category")) {
       data.category = typeof req.body.category === "string" && req.body.category.trim() ? req.body.category.trim() : null;
     }
-    if (status === "ignore" || status === "control") data.status = status;
+    if (isIssueStatus(status)) data.status = status;
+    const ranges = readQuantifiedImpact(req.body, pickImpactRanges(existing));
+    if (typeof ranges === "string") return res.status(400).json({ error: ranges });
+    for (const [k, v] of Object.entries(ranges)) {
+      if (Object.prototype.hasOwnProperty.call(req.body, k)) data[k] = v;
+    }
+    const reviewCadenceDays = readReviewCadenceDays(req.body);
+    if (typeof reviewCadenceDays === "string") return res.status(400).json({ error: reviewCadenceDays });
+    if (reviewCadenceDays !== undefined) data.reviewCadenceDays = reviewCadenceDays;
     if (Object.keys(data).length === 0) return res.status(400).json({ error: "No fields to update" });
     const issue = await prisma.issue.update({
       where: { id: req.params.id },
       data,
     });
+    await createIssueVersion(auditActor(req), issue.id, issue, {
+      consequenceChangeReason: cChanged ? consequenceChangeReason.trim() : null,
+      statusChangeRationale: statusChangingToRationale ? statusChangeRationale.trim() : null,
+    });
     const changes: Record<string, { from: unknown; to: unknown }> = {};
     for (const k of ISSUE_FIELDS_FOR_AUDIT) {
       const oldVal = (existing as Record<string, unknown>)[k];
@@ -157,9 +405,11 @@ issueRoutes.patch("/:id", async (req, res) => {
       }
     }
     const changedFields = Object.keys(changes);
-    await createIssueAuditLog(issue.id, "issue", issue.id, "updated", {
+    await createIssueAuditLog(auditActor(req), issue.id, "issue", issue.id, "updated", {
       changedFields: changedFields.length > 0 ? changedFields : undefined,
       changes: Object.keys(changes).length > 0 ? changes : undefined,
+      consequenceChangeReason: cChanged ? consequenceChangeReason.trim() : undefined,
+      statusChangeRationale: statusChangingToRationale ? statusChangeRationale.trim() : undefined,
     });
     res.json(issue);
   } catch (err) {
@@ -168,11 +418,33 @@ issueRoutes.patch("/:id", async (req, res) => {
   }
 });
 
-issueRoutes.delete("/:id", async (req, res) => {
+/**
+ * POST /:id/review — record "reviewed, no change": a new version repeating the current state, which
+ * restarts the review cadence. Body: { note? }.
+ */
+issueRoutes.post("/:id/review", requireOrgUnitRole("editor", orgUnitOfIssue()), async (req, res) => {
+  try {
+    const existing = await prisma.issue.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ error: "Issue not found" });
+    const reviewNote = typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+    await createIssueVersion(auditActor(req), existing.id, existing, { reviewedNoChange: true, reviewNote });
+    await createIssueAuditLog(auditActor(req), existing.id, "issue", existing.id, "reviewed", reviewNote ? { reviewNote } : undefined);
+    const issue = await prisma.issue.findUniqueOrThrow({ where: { id: existing.id } });
+    const [withSchedule] = await withReviewSchedules([issue], "issue", (i) => i.issueLevel);
+    res.json(withSchedule);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to record review" });
+  }
+});
+
+issueRoutes.delete("/:id", requireOrgUnitRole("editor", orgUnitOfIssue()), async (req, res) => {
   try {
     const issueId = req.params.id;
-    await createIssueAuditLog(issueId, "issue", issueId, "deleted");
+    await createIssueAuditLog(auditActor(req), issueId, "issue", issueId, "deleted");
     await prisma.issue.delete({ where: { id: issueId } });
+    await deleteRioItemRelationships("issue", issueId);
+    await deleteRioItemComments("issue", issueId);
     res.status(204).send();
   } catch (err) {
     console.error(err);
@@ -181,7 +453,7 @@ issueRoutes.delete("/:id", async (req, res) => {
 });
 
 // Resolution steps
-issueRoutes.get("/:id/resolution-steps", async (req, res) => {
+issueRoutes.get("/:id/resolution-steps", requireOrgUnitRole("viewer", orgUnitOfIssue()), async (req, res) => {
   try {
     const steps = await prisma.issueResolutionStep.findMany({
       where: { issueId: req.params.id },
@@ -194,7 +466,7 @@ issueRoutes.get("/:id/resolution-steps", async (req, res) => {
   }
 });
 
-issueRoutes.post("/:id/resolution-steps", async (req, res) => {
+issueRoutes.post("/:id/resolution-steps", requireOrgUnitRole("editor", orgUnitOfIssue()), async (req, res) => {
   try {
     const { sequenceOrder, plannedAction, estimatedStartDate, estimatedEndDate, expectedConsequence } = req.body;
     const issue = await prisma.issue.findUnique({ where: { id: req.params.id } });
@@ -211,7 +483,8 @@ issueRoutes.post("/:id/resolution-steps", async (req, res) => {
         expectedIssueLevel: getNumericalIssueLevel(c),
       },
     });
-    await createIssueAuditLog(req.params.id, "resolution_step", step.id, "created", {
+    await createResolutionStepVersion(auditActor(req), step.id, step);
+    await createIssueAuditLog(auditActor(req), req.params.id, "resolution_step", step.id, "created", {
       stepNumber: step.sequenceOrder + 1,
     });
     res.status(201).json(step);
@@ -226,7 +499,7 @@ const RESOLUTION_STEP_FIELDS_FOR_AUDIT = [
   "expectedConsequence", "expectedIssueLevel", "actualConsequence", "actualIssueLevel", "actualCompletedAt",
 ] as const;
 
-issueRoutes.patch("/:issueId/resolution-steps/:stepId", async (req, res) => {
+issueRoutes.patch("/:issueId/resolution-steps/:stepId", requireOrgUnitRole("editor", orgUnitOfIssue("issueId")), async (req, res) => {
   try {
     const { issueId, stepId } = req.params;
     const { sequenceOrder, plannedAction, estimatedStartDate, estimatedEndDate, expectedConsequence, actualConsequence, actualCompletedAt } = req.body;
@@ -262,6 +535,7 @@ issueRoutes.patch("/:issueId/resolution-steps/:stepId", async (req, res) => {
       where: { id: stepId },
       data,
     });
+    await createResolutionStepVersion(auditActor(req), updated.id, updated);
     const changes: Record<string, { from: unknown; to: unknown }> = {};
     for (const key of RESOLUTION_STEP_FIELDS_FOR_AUDIT) {
       const oldVal = (step as Record<string, unknown>)[key];
@@ -273,7 +547,7 @@ issueRoutes.patch("/:issueId/resolution-steps/:stepId", async (req, res) => {
       }
     }
     const changedFields = Object.keys(changes);
-    await createIssueAuditLog(issueId, "resolution_step", stepId, "updated", {
+    await createIssueAuditLog(auditActor(req), issueId, "resolution_step", stepId, "updated", {
       changedFields: changedFields.length > 0 ? changedFields : undefined,
       changes: Object.keys(changes).length > 0 ? changes : undefined,
       stepNumber: updated.sequenceOrder + 1,
@@ -285,12 +559,12 @@ issueRoutes.patch("/:issueId/resolution-steps/:stepId", async (req, res) => {
   }
 });
 
-issueRoutes.delete("/:issueId/resolution-steps/:stepId", async (req, res) => {
+issueRoutes.delete("/:issueId/resolution-steps/:stepId", requireOrgUnitRole("editor", orgUnitOfIssue("issueId")), async (req, res) => {
   try {
     const { issueId, stepId } = req.params;
     const step = await prisma.issueResolutionStep.findFirst({ where: { id: stepId, issueId } });
     if (!step) return res.status(404).json({ error: "Resolution step not found" });
-    await createIssueAuditLog(issueId, "resolution_step", stepId, "deleted", {
+    await createIssueAuditLog(auditActor(req), issueId, "resolution_step", stepId, "deleted", {
       stepNumber: step.sequenceOrder + 1,
     });
     await prisma.issueResolutionStep.delete({ where: { id: stepId } });
@@ -301,7 +575,7 @@ issueRoutes.delete("/:issueId/resolution-steps/:stepId", async (req, res) => {
   }
 });
 
-issueRoutes.post("/:issueId/resolution-steps/reorder", async (req, res) => {
+issueRoutes.post("/:issueId/resolution-steps/reorder", requireOrgUnitRole("editor", orgUnitOfIssue("issueId")), async (req, res) => {
   try {
     const { issueId } = req.params;
     const { stepIds } = req.body as { stepIds: string[] };
@@ -327,7 +601,7 @@ issueRoutes.post("/:issueId/resolution-steps/reorder", async (req, res) => {
         return idx >= 0 ? stepsBefore[idx].sequenceOrder + 1 : "?";
       })
       .join(", ");
-    await createIssueAuditLog(issueId, "issue", issueId, "updated", {
+    await createIssueAuditLog(auditActor(req), issueId, "issue", issueId, "updated", {
       changedFields: ["resolutionStepsReordered"],
       changes: { resolutionStepsReordered: { from: fromOrder, to: toOrder } },
     });
@@ -343,7 +617,7 @@ issueRoutes.post("/:issueId/resolution-steps/reorder", async (req, res) => {
 });
 
 // Waterfall: issue + resolution steps over time (consequence -> 8,16,20,23,25)
-issueRoutes.get("/:id/waterfall", async (req, res) => {
+issueRoutes.get("/:id/waterfall", requireOrgUnitRole("viewer", orgUnitOfIssue()), async (req, res) => {
   try {
     const issue = await prisma.issue.findUnique({
       where: { id: req.params.id },
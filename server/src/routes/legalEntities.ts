@@ -1,13 +1,37 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
+import { getAccessibleOrgUnitIds } from "../lib/permissions.js";
+import {
+  MATRIX_KINDS,
+  defaultMatrix,
+  getLegalEntityMatrix,
+  parseMatrixDefinition,
+  recomputeStoredLevels,
+  type MatrixKind,
+} from "../lib/levelMatrix.js";
+import { requireAdmin } from "../middleware/permissions.js";
+import { getNumericalRiskLevel } from "../lib/riskLevel.js";
+import {
+  buildHeatMap,
+  buildRiskTrend,
+  countByLevelAndStatus,
+  DEFAULT_TOP_RISKS,
+  isActiveRiskStatus,
+  MAX_TOP_RISKS,
+  type TrendPoint,
+} from "../lib/portfolioDashboard.js";
 
 export const legalEntityRoutes = Router();
 
-legalEntityRoutes.get("/", async (_req, res) => {
+// Non-admins only see entities where they hold a role on at least one PPD, and only those PPDs.
+legalEntityRoutes.get("/", async (req, res) => {
   try {
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    const unitWhere = accessible ? { id: { in: accessible } } : undefined;
     const entities = await prisma.legalEntity.findMany({
+      where: accessible ? { organizationalUnits: { some: unitWhere } } : undefined,
       orderBy: { name: "asc" },
-      include: { organizationalUnits: { orderBy: { name: "asc" } } },
+      include: { organizationalUnits: { where: unitWhere, orderBy: { name: "asc" } } },
     });
     res.json(entities);
   } catch (err) {
@@ -18,11 +42,17 @@ legalEntityRoutes.get("/", async (_req, res) => {
 
 legalEntityRoutes.get("/:id", async (req, res) => {
   try {
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
     const entity = await prisma.legalEntity.findUnique({
       where: { id: req.params.id },
-      include: { organizationalUnits: { orderBy: { name: "asc" } } },
+      include: {
+        organizationalUnits: { where: accessible ? { id: { in: accessible } } : undefined, orderBy: { name: "asc" } },
+      },
     });
     if (!entity) return res.status(404).json({ error: "Entity not found" });
+    if (accessible && entity.organizationalUnits.length === 0) {
+      return res.status(403).json({ error: "No access to this entity" });
+    }
     res.json(entity);
   } catch (err) {
     console.error(err);
@@ -30,6 +60,214 @@ legalEntityRoutes.get("/:id", async (req, res) => {
   }
 });
 
+/** Recomputing a large entity touches every risk/opportunity and step; allow more than Prisma's 5s default. */
+const RECOMPUTE_TX_OPTIONS = { timeout: 60_000 };
+
+/** GET /:id/matrices — risk and opportunity matrices for the entity (stored or DoD default). */
+legalEntityRoutes.get("/:id/matrices", async (req, res) => {
+  try {
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    const entity = await prisma.legalEntity.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, organizationalUnits: { where: accessible ? { id: { in: accessible } } : undefined, select: { id: true } } },
+    });
+    if (!entity) return res.status(404).json({ error: "Entity not found" });
+    if (accessible && entity.organizationalUnits.length === 0) {
+      return res.status(403).json({ error: "No access to this entity" });
+    }
+    const [risk, opportunity] = await Promise.all([getLegalEntityMatrix(entity.id, "risk"), getLegalEntityMatrix(entity.id, "opportunity")]);
+    res.json({ risk, opportunity });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch matrices" });
+  }
+});
+
+/**
+ * GET /:id/dashboard — portfolio view over the entity's PPDs the user can view: counts by level and
+ * status per PPD, a heat map of active risks, the top risks (query `top`, default 10), overdue
+ * mitigation steps and weekly risk trends per PPD and for the entity.
+ */
+legalEntityRoutes.get("/:id/dashboard", async (req, res) => {
+  try {
+    const top = req.query.top !== undefined ? Number(req.query.top) : DEFAULT_TOP_RISKS;
+    if (!Number.isInteger(top) || top < 1 || top > MAX_TOP_RISKS) {
+      return res.status(400).json({ error: `top must be an integer from 1 to ${MAX_TOP_RISKS}` });
+    }
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    const entity = await prisma.legalEntity.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        name: true,
+        organizationalUnits: {
+          where: accessible ? { id: { in: accessible } } : undefined,
+          orderBy: { name: "asc" },
+          select: { id: true, name: true, type: true, parentId: true },
+        },
+      },
+    });
+    if (!entity) return res.status(404).json({ error: "Entity not found" });
+    if (accessible && entity.organizationalUnits.length === 0) {
+      return res.status(403).json({ error: "No access to this entity" });
+    }
+
+    const unitIds = entity.organizationalUnits.map((u) => u.id);
+    const inUnits = { organizationalUnitId: { in: unitIds } };
+    const [risks, issues, opportunities, matrix] = await Promise.all([
+      prisma.risk.findMany({
+        where: inUnits,
+        select: {
+          id: true,
+          organizationalUnitId: true,
+          riskName: true,
+          likelihood: true,
+          consequence: true,
+          riskLevel: true,
+          status: true,
+          owner: true,
+          createdAt: true,
+        },
+      }),
+      prisma.issue.findMany({ where: inUnits, select: { organizationalUnitId: true, issueLevel: true, status: true } }),
+      prisma.opportunity.findMany({ where: inUnits, select: { organizationalUnitId: true, opportunityLevel: true, status: true } }),
+      getLegalEntityMatrix(entity.id, "risk"),
+    ]);
+    const now = new Date();
+    const [versions, overdue] = await Promise.all([
+      prisma.riskVersion.findMany({
+        where: { riskId: { in: risks.map((r) => r.id) } },
+        select: { riskId: true, createdAt: true, snapshot: true },
+      }),
+      prisma.mitigationStep.findMany({
+        where: {
+          riskId: { in: risks.filter((r) => isActiveRiskStatus(r.status)).map((r) => r.id) },
+          actualCompletedAt: null,
+          estimatedEndDate: { lt: now },
+        },
+        orderBy: { estimatedEndDate: "asc" },
+        select: { id: true, riskId: true, sequenceOrder: true, mitigationActions: true, estimatedEndDate: true },
+      }),
+    ]);
+
+    const unitName = new Map(entity.organizationalUnits.map((u) => [u.id, u.name]));
+    const riskById = new Map(risks.map((r) => [r.id, r]));
+    const overdueSteps = overdue.map((s) => {
+      const risk = riskById.get(s.riskId)!;
+      return {
+        stepId: s.id,
+        stepNumber: s.sequenceOrder + 1,
+        mitigationActions: s.mitigationActions,
+        estimatedEndDate: s.estimatedEndDate!.toISOString(),
+        daysOverdue: Math.floor((now.getTime() - s.estimatedEndDate!.getTime()) / 86_400_000),
+        riskId: risk.id,
+        riskName: risk.riskName,
+        organizationalUnitId: risk.organizationalUnitId,
+        organizationalUnitName: unitName.get(risk.organizationalUnitId) ?? "",
+      };
+    });
+
+    const topRisks = risks
+      .filter((r) => isActiveRiskStatus(r.status))
+      .map((r) => ({
+        id: r.id,
+        riskName: r.riskName,
+        organizationalUnitId: r.organizationalUnitId,
+        organizationalUnitName: unitName.get(r.organizationalUnitId) ?? "",
+        likelihood: r.likelihood,
+        consequence: r.consequence,
+        riskLevel: r.riskLevel,
+        riskLevelNumerical: getNumericalRiskLevel(r.likelihood, r.consequence, matrix.definition),
+        status: r.status,
+        owner: r.owner,
+      }))
+      .sort((a, b) => b.riskLevelNumerical - a.riskLevelNumerical || a.riskName.localeCompare(b.riskName))
+      .slice(0, top);
+
+    const orgUnits = entity.organizationalUnits.map((u) => {
+      const unitRisks = risks.filter((r) => r.organizationalUnitId === u.id);
+      const unitRiskIds = new Set(unitRisks.map((r) => r.id));
+      return {
+        ...u,
+        risks: countByLevelAndStatus(unitRisks.map((r) => ({ level: r.riskLevel, status: r.status }))),
+        issues: countByLevelAndStatus(
+          issues.filter((i) => i.organizationalUnitId === u.id).map((i) => ({ level: i.issueLevel, status: i.status }))
+        ),
+        opportunities: countByLevelAndStatus(
+          opportunities.filter((o) => o.organizationalUnitId === u.id).map((o) => ({ level: o.opportunityLevel, status: o.status }))
+        ),
+        overdueSteps: overdueSteps.filter((s) => s.organizationalUnitId === u.id).length,
+        trend: buildRiskTrend(unitRisks, versions.filter((v) => unitRiskIds.has(v.riskId)), matrix.definition, now),
+      };
+    });
+    const trend: TrendPoint[] = orgUnits[0]?.trend.map((p, k) => ({
+      date: p.date,
+      activeRisks: orgUnits.reduce((sum, u) => sum + u.trend[k].activeRisks, 0),
+      riskScore: orgUnits.reduce((sum, u) => sum + u.trend[k].riskScore, 0),
+    })) ?? [];
+
+    res.json({
+      legalEntityId: entity.id,
+      legalEntityName: entity.name,
+      asOf: now.toISOString(),
+      orgUnits,
+      heatMap: buildHeatMap(risks),
+      topRisks,
+      overdueSteps,
+      trend,
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch portfolio dashboard" });
+  }
+});
+
+/**
+ * PUT /:id/matrices/:kind — Admin only. Body: MatrixDefinition. Saves the matrix and recomputes
+ * stored levels of every risk/opportunity (and step) in the entity. DELETE resets to the default.
+ */
+legalEntityRoutes.put("/:id/matrices/:kind", requireAdmin, async (req, res) => {
+  try {
+    const kind = req.params.kind as MatrixKind;
+    if (!MATRIX_KINDS.includes(kind)) return res.status(400).json({ error: "kind must be risk or opportunity" });
+    const definition = parseMatrixDefinition(req.body);
+    if (typeof definition === "string") return res.status(400).json({ error: definition });
+    const entity = await prisma.legalEntity.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!entity) return res.status(404).json({ error: "Entity not found" });
+
+    const recomputed = await prisma.$transaction(async (tx) => {
+      await tx.levelMatrix.upsert({
+        where: { legalEntityId_kind: { legalEntityId: entity.id, kind } },
+        create: { legalEntityId: entity.id, kind, definition, updatedById: req.user!.id },
+        update: { definition, updatedById: req.user!.id },
+      });
+      return recomputeStoredLevels(tx, entity.id, kind, definition);
+    }, RECOMPUTE_TX_OPTIONS);
+    res.json({ ...(await getLegalEntityMatrix(entity.id, kind)), recomputed });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to save matrix" });
+  }
+});
+
+legalEntityRoutes.delete("/:id/matrices/:kind", requireAdmin, async (req, res) => {
+  try {
+    const kind = req.params.kind as MatrixKind;
+    if (!MATRIX_KINDS.includes(kind)) return res.status(400).json({ error: "kind must be risk or opportunity" });
+    const entity = await prisma.legalEntity.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!entity) return res.status(404).json({ error: "Entity not found" });
+
+    const recomputed = await prisma.$transaction(async (tx) => {
+      await tx.levelMatrix.deleteMany({ where: { legalEntityId: entity.id, kind } });
+      return recomputeStoredLevels(tx, entity.id, kind, defaultMatrix(kind));
+    }, RECOMPUTE_TX_OPTIONS);
+    res.json({ ...(await getLegalEntityMatrix(entity.id, kind)), recomputed });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to reset matrix" });
+  }
+});
+
 function slugFromName(name: string): string {
   return name
     .trim()
@@ -38,7 +276,7 @@ function slugFromName(name: string): string {
     .replace(/^_|_$/g, "") || "entity";
 }
 
-legalEntityRoutes.post("/", async (req, res) => {
+legalEntityRoutes.post("/", requireAdmin, async (req, res) => {
   try {
     const { name, description } = req.body;
     const nameStr = typeof name === "string" && name.trim() ? name.trim() : "";
@@ -54,7 +292,7 @@ legalEntityRoutes.post("/", async (req, res) => {
   }
 });
 
-legalEntityRoutes.patch("/:id", async (req, res) => {
+legalEntityRoutes.patch("/:id", requireAdmin, async (req, res) => {
   try {
     const { name, description } = req.body;
     const data: { name?: string; code?: string; description?: string | null } = {};
@@ -77,7 +315,7 @@ legalEntityRoutes.patch("/:id", async (req, res) => {
   }
 });
 
-legalEntityRoutes.delete("/:id", async (req, res) => {
+legalEntityRoutes.delete("/:id", requireAdmin, async (req, res) => {
   try {
     await prisma.legalEntity.delete({ where: { id: req.params.id } });
     res.status(204).send();
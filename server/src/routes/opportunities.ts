@@ -1,6 +1,17 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
+import { actorOf, auditActor, type AuditActor } from "../lib/auditActor.js";
+import { orgUnitFromBody, orgUnitFromQuery, orgUnitOfOpportunity, requireOrgUnitRole } from "../middleware/permissions.js";
 import { getOpportunityLevel, getNumericalOpportunityLevel } from "../lib/opportunityLevel.js";
+import { getOrgUnitMatrix } from "../lib/levelMatrix.js";
+import { getCurrentRubricVersion } from "../lib/criteriaRubric.js";
+import { resolveOrgUnitScope } from "../lib/orgUnitHierarchy.js";
+import { deleteRioItemRelationships } from "../lib/rioRelationships.js";
+import { deleteRioItemComments } from "../lib/comments.js";
+import { createOpportunityVersion, toOpportunitySnapshot } from "../lib/opportunityVersion.js";
+import { createConvertedRisk, optionalTextOr, scoreOr, textOr } from "../lib/rioConversions.js";
+import { readReviewCadenceDays, withReviewSchedules } from "../lib/reviewCadence.js";
+import { readOwner } from "../lib/ownerDirectory.js";
 
 export const opportunityRoutes = Router();
 
@@ -10,56 +21,6 @@ async function resolveOpportunityCategoryCode(code: string | null | undefined):
   return cat?.code ?? null;
 }
 
-function toSnapshot(opp: {
-  opportunityName: string;
-  opportunityCondition: string;
-  opportunityIf: string;
-  opportunityThen: string;
-  category: string | null;
-  likelihood: number;
-  impact: number;
-  opportunityLevel: string | null;
-  owner: string | null;
-  status: string;
-}) {
-  return {
-    opportunityName: opp.opportunityName,
-    opportunityCondition: opp.opportunityCondition,
-    opportunityIf: opp.opportunityIf,
-    opportunityThen: opp.opportunityThen,
-    category: opp.category,
-    likelihood: opp.likelihood,
-    impact: opp.impact,
-    opportunityLevel: opp.opportunityLevel,
-    owner: opp.owner,
-    status: opp.status,
-  };
-}
-
-type PrismaClientLike = Pick<typeof prisma, "opportunityVersion">;
-
-async function createOpportunityVersion(
-  opportunityId: string,
-  opp: Parameters<typeof toSnapshot>[0],
-  options?: { likelihoodChangeReason?: string | null; impactChangeReason?: string | null; statusChangeRationale?: string | null },
-  tx?: PrismaClientLike
-) {
-  const db = tx ?? prisma;
-  const count = await db.opportunityVersion.count({ where: { opportunityId } });
-  const version = count + 1;
-  const snapshot = toSnapshot(opp);
-  await db.opportunityVersion.create({
-    data: {
-      opportunityId,
-      version,
-      snapshot,
-      likelihoodChangeReason: options?.likelihoodChangeReason ?? null,
-      impactChangeReason: options?.impactChangeReason ?? null,
-      statusChangeRationale: options?.statusChangeRationale ?? null,
-    },
-  });
-}
-
 function toStepSnapshot(step: {
   plannedAction: string;
   estimatedStartDate: Date | null;
@@ -82,10 +43,11 @@ function toStepSnapshot(step: {
   };
 }
 
-async function createActionPlanStepVersion(stepId: string, step: Parameters<typeof toStepSnapshot>[0]) {
+async function createActionPlanStepVersion(actor: AuditActor, stepId: string, step: Parameters<typeof toStepSnapshot>[0]) {
   const count = await prisma.opportunityActionPlanStepVersion.count({ where: { stepId } });
   await prisma.opportunityActionPlanStepVersion.create({
     data: {
+      ...actor,
       stepId,
       version: count + 1,
       snapshot: toStepSnapshot(step),
@@ -101,6 +63,8 @@ type AuditDetails = {
   likelihoodChangeReason?: string;
   impactChangeReason?: string;
   statusChangeRationale?: string;
+  reviewNote?: string;
+  riskCreatedFromOpportunity?: { riskId: string; riskName: string };
 };
 
 function auditValue(val: unknown): unknown {
@@ -109,14 +73,16 @@ function auditValue(val: unknown): unknown {
 }
 
 async function createAuditLog(
+  actor: AuditActor,
   opportunityId: string,
   entityType: "opportunity" | "action_plan_step",
   entityId: string,
-  action: "created" | "updated" | "deleted",
+  action: "created" | "updated" | "deleted" | "reviewed" | "converted",
   details?: AuditDetails
 ) {
   await prisma.opportunityAuditLog.create({
     data: {
+      ...actor,
       opportunityId,
       entityType,
       entityId,
@@ -147,15 +113,16 @@ function getOriginalFromVersion(snapshot: unknown): { originalLikelihood: number
 /** Status values that require rationale when changed (defer, reevaluate, reject) */
 const STATUS_REQUIRING_RATIONALE = ["defer", "reevaluate", "reject"];
 
-opportunityRoutes.get("/", async (req, res) => {
+opportunityRoutes.get("/", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
   try {
     const { organizationalUnitId } = req.query;
     if (typeof organizationalUnitId !== "string") {
       return res.status(400).json({ error: "organizationalUnitId is required" });
     }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
 
     const opportunities = await prisma.opportunity.findMany({
-      where: { organizationalUnitId },
+      where: { organizationalUnitId: { in: scope } },
       orderBy: { updatedAt: "desc" },
       include: {
         organizationalUnit: {
@@ -211,25 +178,27 @@ opportunityRoutes.get("/", async (req, res) => {
       const { actionPlanSteps: _s, ...rest } = o;
       return { ...rest, lastUpdated: new Date(lastMs).toISOString() };
     });
-    res.json(withLastUpdated);
+    res.json(await withReviewSchedules(withLastUpdated, "opportunity", (o) => o.opportunityLevel));
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch opportunities" });
   }
 });
 
-opportunityRoutes.get("/waterfall/data", async (req, res) => {
+opportunityRoutes.get("/waterfall/data", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
   try {
     const { organizationalUnitId } = req.query;
     if (typeof organizationalUnitId !== "string") {
       return res.status(400).json({ error: "organizationalUnitId is required" });
     }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
 
     const opportunities = await prisma.opportunity.findMany({
-      where: { organizationalUnitId },
+      where: { organizationalUnitId: { in: scope } },
       select: { id: true },
     });
 
+    const matrix = await getOrgUnitMatrix(organizationalUnitId, "opportunity");
     const allVersions: { date: string; opportunityId: string; opportunityLevelNumerical: number; version: number }[] = [];
     for (const o of opportunities) {
       const versions = await prisma.opportunityVersion.findMany({
@@ -240,7 +209,7 @@ opportunityRoutes.get("/waterfall/data", async (req, res) => {
         const s = v.snapshot as { likelihood?: number; impact?: number };
         const lik = s.likelihood ?? 3;
         const imp = s.impact ?? 3;
-        const ol = getNumericalOpportunityLevel(lik, imp);
+        const ol = getNumericalOpportunityLevel(lik, imp, matrix);
         allVersions.push({
           date: (v.createdAt as Date).toISOString(),
           opportunityId: o.id,
@@ -258,7 +227,7 @@ opportunityRoutes.get("/waterfall/data", async (req, res) => {
   }
 });
 
-opportunityRoutes.get("/:id/audit-log", async (req, res) => {
+opportunityRoutes.get("/:id/audit-log", requireOrgUnitRole("viewer", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const { id } = req.params;
     const opp = await prisma.opportunity.findUnique({ where: { id }, select: { id: true } });
@@ -276,6 +245,7 @@ opportunityRoutes.get("/:id/audit-log", async (req, res) => {
       action: log.action,
       details: log.details as AuditDetails | undefined,
       createdAt: toCreatedAtISO(log.createdAt),
+      ...actorOf(log),
     }));
 
     res.json(list);
@@ -285,7 +255,7 @@ opportunityRoutes.get("/:id/audit-log", async (req, res) => {
   }
 });
 
-opportunityRoutes.get("/:id/history", async (req, res) => {
+opportunityRoutes.get("/:id/history", requireOrgUnitRole("viewer", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const { id } = req.params;
     const oppExists = await prisma.opportunity.findUnique({ where: { id }, select: { id: true } });
@@ -303,7 +273,7 @@ opportunityRoutes.get("/:id/history", async (req, res) => {
       const fullOpp = await prisma.opportunity.findUnique({ where: { id } });
       if (fullOpp) {
         try {
-          const snapshot = toSnapshot(fullOpp);
+          const snapshot = toOpportunitySnapshot(fullOpp);
           await prisma.opportunityVersion.create({
             data: {
               opportunityId: id,
@@ -327,10 +297,13 @@ opportunityRoutes.get("/:id/history", async (req, res) => {
           id: "",
           opportunityId: id,
           version: 1,
-          snapshot: toSnapshot(fullOpp),
+          snapshot: toOpportunitySnapshot(fullOpp),
           likelihoodChangeReason: null,
           impactChangeReason: null,
           statusChangeRationale: null,
+          reviewedNoChange: false,
+          reviewNote: null,
+          ...actorOf({}),
           createdAt: fullOpp.createdAt,
         } as (typeof oppVersions)[0]];
       }
@@ -344,6 +317,7 @@ opportunityRoutes.get("/:id/history", async (req, res) => {
         type: "opportunity",
         version: latest.version,
         snapshot: latest.snapshot,
+        ...actorOf(latest),
         createdAt: toCreatedAtISO(latest.createdAt),
       });
     }
@@ -359,6 +333,9 @@ opportunityRoutes.get("/:id/history", async (req, res) => {
       version: v.version,
       snapshot: v.snapshot,
       statusChangeRationale: v.statusChangeRationale ?? undefined,
+      reviewedNoChange: v.reviewedNoChange || undefined,
+      reviewNote: v.reviewNote ?? undefined,
+      ...actorOf(v),
       createdAt: toCreatedAtISO(v.createdAt),
     }));
 
@@ -369,6 +346,7 @@ opportunityRoutes.get("/:id/history", async (req, res) => {
         stepNumber: s.sequenceOrder + 1,
         version: v.version,
         snapshot: v.snapshot,
+        ...actorOf(v),
         createdAt: toCreatedAtISO(v.createdAt),
       }))
     );
@@ -384,7 +362,7 @@ opportunityRoutes.get("/:id/history", async (req, res) => {
   }
 });
 
-opportunityRoutes.patch("/:id/action-plan-steps/reorder", async (req, res) => {
+opportunityRoutes.patch("/:id/action-plan-steps/reorder", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const opportunityId = req.params.id;
     const { stepIds } = req.body;
@@ -412,7 +390,7 @@ opportunityRoutes.patch("/:id/action-plan-steps/reorder", async (req, res) => {
       })
       .join(", ");
 
-    await createAuditLog(opportunityId, "opportunity", opportunityId, "updated", {
+    await createAuditLog(auditActor(req), opportunityId, "opportunity", opportunityId, "updated", {
       changedFields: ["actionPlanStepsReordered"],
       changes: { actionPlanStepsReordered: { from: stepsBefore.map((_, i) => i + 1).join(", "), to: toOrder } },
     });
@@ -427,7 +405,7 @@ opportunityRoutes.patch("/:id/action-plan-steps/reorder", async (req, res) => {
   }
 });
 
-opportunityRoutes.get("/:id/action-plan-steps", async (req, res) => {
+opportunityRoutes.get("/:id/action-plan-steps", requireOrgUnitRole("viewer", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const steps = await prisma.opportunityActionPlanStep.findMany({
       where: { opportunityId: req.params.id },
@@ -440,7 +418,7 @@ opportunityRoutes.get("/:id/action-plan-steps", async (req, res) => {
   }
 });
 
-opportunityRoutes.post("/:id/action-plan-steps", async (req, res) => {
+opportunityRoutes.post("/:id/action-plan-steps", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const opportunityId = req.params.id;
     const {
@@ -459,14 +437,17 @@ opportunityRoutes.post("/:id/action-plan-steps", async (req, res) => {
         error: "plannedAction, expectedLikelihood, and expectedImpact are required",
       });
     }
+    const opp = await prisma.opportunity.findUnique({ where: { id: opportunityId }, select: { organizationalUnitId: true } });
+    if (!opp) return res.status(404).json({ error: "Opportunity not found" });
+    const matrix = await getOrgUnitMatrix(opp.organizationalUnitId, "opportunity");
     const el = Math.max(1, Math.min(5, Number(expectedLikelihood)));
     const ei = Math.max(1, Math.min(5, Number(expectedImpact)));
-    const expectedOpportunityLevel = getNumericalOpportunityLevel(el, ei);
+    const expectedOpportunityLevel = getNumericalOpportunityLevel(el, ei, matrix);
     const al =
       actualLikelihood != null && actualImpact != null ? Math.max(1, Math.min(5, Number(actualLikelihood))) : null;
     const ai =
       actualLikelihood != null && actualImpact != null ? Math.max(1, Math.min(5, Number(actualImpact))) : null;
-    const actualOpportunityLevel = al != null && ai != null ? getNumericalOpportunityLevel(al, ai) : null;
+    const actualOpportunityLevel = al != null && ai != null ? getNumericalOpportunityLevel(al, ai, matrix) : null;
     const step = await prisma.opportunityActionPlanStep.create({
       data: {
         opportunityId,
@@ -483,8 +464,8 @@ opportunityRoutes.post("/:id/action-plan-steps", async (req, res) => {
         actualCompletedAt: actualCompletedAt ? new Date(actualCompletedAt) : null,
       },
     });
-    await createActionPlanStepVersion(step.id, step);
-    await createAuditLog(opportunityId, "action_plan_step", step.id, "created", {
+    await createActionPlanStepVersion(auditActor(req), step.id, step);
+    await createAuditLog(auditActor(req), opportunityId, "action_plan_step", step.id, "created", {
       stepNumber: (step.sequenceOrder ?? 0) + 1,
     });
     res.status(201).json(step);
@@ -494,13 +475,15 @@ opportunityRoutes.post("/:id/action-plan-steps", async (req, res) => {
   }
 });
 
-opportunityRoutes.patch("/:id/action-plan-steps/:stepId", async (req, res) => {
+opportunityRoutes.patch("/:id/action-plan-steps/:stepId", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const { stepId } = req.params;
     const step = await prisma.opportunityActionPlanStep.findFirst({
       where: { id: stepId, opportunityId: req.params.id },
+      include: { opportunity: { select: { organizationalUnitId: true } } },
     });
     if (!step) return res.status(404).json({ error: "Action plan step not found" });
+    const matrix = await getOrgUnitMatrix(step.opportunity.organizationalUnitId, "opportunity");
     const s = step as {
       expectedLikelihood: number;
       expectedImpact: number;
@@ -528,7 +511,7 @@ opportunityRoutes.patch("/:id/action-plan-steps/:stepId", async (req, res) => {
     const ei = expectedImpact !== undefined ? Math.max(1, Math.min(5, Number(expectedImpact))) : s.expectedImpact;
     data.expectedLikelihood = el;
     data.expectedImpact = ei;
-    data.expectedOpportunityLevel = getNumericalOpportunityLevel(el, ei);
+    data.expectedOpportunityLevel = getNumericalOpportunityLevel(el, ei, matrix);
     const al =
       actualLikelihood !== undefined
         ? (actualLikelihood == null ? null : Math.max(1, Math.min(5, Number(actualLikelihood))))
@@ -539,13 +522,13 @@ opportunityRoutes.patch("/:id/action-plan-steps/:stepId", async (req, res) => {
         : s.actualImpact;
     data.actualLikelihood = al ?? null;
     data.actualImpact = ai ?? null;
-    data.actualOpportunityLevel = al != null && ai != null ? getNumericalOpportunityLevel(al, ai) : null;
+    data.actualOpportunityLevel = al != null && ai != null ? getNumericalOpportunityLevel(al, ai, matrix) : null;
     if (actualCompletedAt !== undefined) data.actualCompletedAt = actualCompletedAt ? new Date(actualCompletedAt) : null;
     const updated = await prisma.opportunityActionPlanStep.update({
       where: { id: stepId },
       data,
     });
-    await createActionPlanStepVersion(updated.id, updated);
+    await createActionPlanStepVersion(auditActor(req), updated.id, updated);
 
     const changes: Record<string, AuditChange> = {};
     for (const key of Object.keys(data)) {
@@ -558,7 +541,7 @@ opportunityRoutes.patch("/:id/action-plan-steps/:stepId", async (req, res) => {
       }
     }
     const changedFields = Object.keys(changes);
-    await createAuditLog(req.params.id, "action_plan_step", stepId, "updated", {
+    await createAuditLog(auditActor(req), req.params.id, "action_plan_step", stepId, "updated", {
       changedFields: changedFields.length > 0 ? changedFields : undefined,
       changes: Object.keys(changes).length > 0 ? changes : undefined,
       stepNumber: updated.sequenceOrder + 1,
@@ -570,7 +553,7 @@ opportunityRoutes.patch("/:id/action-plan-steps/:stepId", async (req, res) => {
   }
 });
 
-opportunityRoutes.delete("/:id/action-plan-steps/:stepId", async (req, res) => {
+opportunityRoutes.delete("/:id/action-plan-steps/:stepId", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const { stepId } = req.params;
     const opportunityId = req.params.id;
@@ -578,7 +561,7 @@ opportunityRoutes.delete("/:id/action-plan-steps/:stepId", async (req, res) => {
       where: { id: stepId, opportunityId },
     });
     if (!step) return res.status(404).json({ error: "Action plan step not found" });
-    await createAuditLog(opportunityId, "action_plan_step", stepId, "deleted", {
+    await createAuditLog(auditActor(req), opportunityId, "action_plan_step", stepId, "deleted", {
       stepNumber: step.sequenceOrder + 1,
     });
     await prisma.opportunityActionPlanStep.delete({ where: { id: stepId } });
@@ -589,7 +572,7 @@ opportunityRoutes.delete("/:id/action-plan-steps/:stepId", async (req, res) => {
   }
 });
 
-opportunityRoutes.get("/:id/waterfall", async (req, res) => {
+opportunityRoutes.get("/:id/waterfall", requireOrgUnitRole("viewer", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const opportunityId = req.params.id;
     const opp = await prisma.opportunity.findUnique({
@@ -597,6 +580,7 @@ opportunityRoutes.get("/:id/waterfall", async (req, res) => {
       include: { actionPlanSteps: { orderBy: { sequenceOrder: "asc" } } },
     });
     if (!opp) return res.status(404).json({ error: "Opportunity not found" });
+    const matrix = await getOrgUnitMatrix(opp.organizationalUnitId, "opportunity");
 
     const versions = await prisma.opportunityVersion.findMany({
       where: { opportunityId },
@@ -618,7 +602,7 @@ opportunityRoutes.get("/:id/waterfall", async (req, res) => {
       const imp = s.impact ?? 3;
       actual.push({
         date: (v.createdAt as Date).toISOString(),
-        opportunityLevel: getNumericalOpportunityLevel(lik, imp),
+        opportunityLevel: getNumericalOpportunityLevel(lik, imp, matrix),
         likelihood: lik,
         impact: imp,
         source: "opportunity_update",
@@ -631,7 +615,7 @@ opportunityRoutes.get("/:id/waterfall", async (req, res) => {
         const ai = Math.max(1, Math.min(5, step.actualImpact));
         actual.push({
           date: (step.actualCompletedAt as Date).toISOString(),
-          opportunityLevel: getNumericalOpportunityLevel(al, ai),
+          opportunityLevel: getNumericalOpportunityLevel(al, ai, matrix),
           likelihood: al,
           impact: ai,
           source: "action_plan_step",
@@ -669,13 +653,18 @@ opportunityRoutes.get("/:id/waterfall", async (req, res) => {
   }
 });
 
-opportunityRoutes.get("/:id", async (req, res) => {
+opportunityRoutes.get("/:id", requireOrgUnitRole("viewer", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const opp = await prisma.opportunity.findUnique({
       where: { id: req.params.id },
       include: {
         organizationalUnit: { include: { legalEntity: true } },
         actionPlanSteps: { orderBy: { sequenceOrder: "asc" } },
+        sourceRisk: { select: { id: true, organizationalUnitId: true, riskName: true, status: true } },
+        risksCreatedFromOpportunity: {
+          select: { id: true, organizationalUnitId: true, riskName: true, status: true },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
     if (!opp) return res.status(404).json({ error: "Opportunity not found" });
@@ -698,14 +687,15 @@ opportunityRoutes.get("/:id", async (req, res) => {
         (opp as { statusChangeRationale?: string }).statusChangeRationale = latestWithRationale.statusChangeRationale;
       }
     }
-    res.json(opp);
+    const [withSchedule] = await withReviewSchedules([opp], "opportunity", (o) => o.opportunityLevel);
+    res.json(withSchedule);
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch opportunity" });
   }
 });
 
-opportunityRoutes.post("/", async (req, res) => {
+opportunityRoutes.post("/", requireOrgUnitRole("editor", orgUnitFromBody), async (req, res) => {
   try {
     if ("originalLikelihood" in req.body || "originalImpact" in req.body) {
       return res.status(400).json({
@@ -721,7 +711,6 @@ opportunityRoutes.post("/", async (req, res) => {
       category,
       likelihood,
       impact,
-      owner,
       status,
     } = req.body;
 
@@ -731,10 +720,14 @@ opportunityRoutes.post("/", async (req, res) => {
       });
     }
 
+    const owner = await readOwner(req.body, { owner: null, ownerId: null });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
+
     const cat = await resolveOpportunityCategoryCode(category);
     const lik = Math.max(1, Math.min(5, likelihood ?? 3));
     const imp = Math.max(1, Math.min(5, impact ?? 3));
-    const opportunityLevel = getOpportunityLevel(lik, imp);
+    const opportunityLevel = getOpportunityLevel(lik, imp, await getOrgUnitMatrix(organizationalUnitId, "opportunity"));
+    const rubricVersion = await getCurrentRubricVersion(organizationalUnitId);
     const newStatus = status ?? "pursue_now";
 
     const opp = await prisma.$transaction(async (tx) => {
@@ -751,18 +744,19 @@ opportunityRoutes.post("/", async (req, res) => {
           likelihood: lik,
           impact: imp,
           opportunityLevel,
-          owner: owner ?? null,
+          rubricVersion,
+          ...owner,
           status: newStatus,
         },
         include: {
           organizationalUnit: { select: { id: true, name: true, type: true } },
         },
       });
-      await createOpportunityVersion(o.id, o, undefined, tx);
+      await createOpportunityVersion(auditActor(req), o.id, o, undefined, tx);
       return o;
     });
 
-    await createAuditLog(opp.id, "opportunity", opp.id, "created");
+    await createAuditLog(auditActor(req), opp.id, "opportunity", opp.id, "created");
     res.status(201).json(opp);
   } catch (err) {
     console.error(err);
@@ -770,12 +764,58 @@ opportunityRoutes.post("/", async (req, res) => {
   }
 });
 
+/**
+ * Create a risk from a pursued opportunity: what could go wrong in pursuing it. Pre-fills the name,
+ * the condition and if from the opportunity, the consequence from its impact, and the owner.
+ */
+opportunityRoutes.post("/:id/create-risk", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
+  try {
+    const opportunityId = req.params.id;
+    const opp = await prisma.opportunity.findUnique({ where: { id: opportunityId } });
+    if (!opp) return res.status(404).json({ error: "Opportunity not found" });
+    if (opp.status !== "pursue_now") {
+      return res.status(400).json({ error: "A risk can only be created from an opportunity with status Pursue Now" });
+    }
+    const existing = await prisma.risk.findFirst({ where: { sourceOpportunityId: opportunityId }, select: { id: true } });
+    if (existing) {
+      return res.status(400).json({ error: "A risk has already been created from this opportunity" });
+    }
+
+    const body = req.body as Record<string, unknown>;
+    const owner = await readOwner(body, { owner: opp.owner, ownerId: opp.ownerId });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
+    const risk = await createConvertedRisk(
+      auditActor(req),
+      opp.organizationalUnitId,
+      {
+        riskName: textOr(body.riskName, `Pursuing: ${opp.opportunityName}`),
+        riskCondition: textOr(body.riskCondition, opp.opportunityCondition),
+        riskIf: textOr(body.riskIf, opp.opportunityIf),
+        riskThen: textOr(body.riskThen, "Edit to describe the downside of pursuing the opportunity."),
+        likelihood: scoreOr(body.likelihood, 3),
+        consequence: scoreOr(body.consequence, opp.impact),
+        ...owner,
+        category: optionalTextOr(body.category, null),
+      },
+      { sourceOpportunityId: opportunityId }
+    );
+    await createAuditLog(auditActor(req), opportunityId, "opportunity", opportunityId, "converted", {
+      riskCreatedFromOpportunity: { riskId: risk.id, riskName: risk.riskName },
+    });
+
+    res.status(201).json(risk);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create risk from opportunity" });
+  }
+});
+
 const OPP_FIELDS_FOR_AUDIT = [
   "opportunityName", "opportunityCondition", "opportunityIf", "opportunityThen",
-  "category", "likelihood", "impact", "owner", "status",
+  "category", "likelihood", "impact", "rubricVersion", "owner", "status", "reviewCadenceDays",
 ] as const;
 
-opportunityRoutes.patch("/:id", async (req, res) => {
+opportunityRoutes.patch("/:id", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
   try {
     if ("originalLikelihood" in req.body || "originalImpact" in req.body) {
       return res.status(400).json({
@@ -790,7 +830,6 @@ opportunityRoutes.patch("/:id", async (req, res) => {
       category,
       likelihood,
       impact,
-      owner,
       status,
       likelihoodChangeReason,
       impactChangeReason,
@@ -816,6 +855,10 @@ opportunityRoutes.patch("/:id", async (req, res) => {
       category !== undefined ? (await resolveOpportunityCategoryCode(category)) ?? existing.category : existing.category;
     const lik = likelihood !== undefined ? Math.max(1, Math.min(5, Number(likelihood))) : existing.likelihood;
     const imp = impact !== undefined ? Math.max(1, Math.min(5, Number(impact))) : existing.impact;
+    const reviewCadenceDays = readReviewCadenceDays(req.body);
+    if (typeof reviewCadenceDays === "string") return res.status(400).json({ error: reviewCadenceDays });
+    const owner = await readOwner(req.body, { owner: existing.owner, ownerId: existing.ownerId });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
 
     const lChanged = lik !== existing.likelihood;
     const iChanged = imp !== existing.impact;
@@ -826,7 +869,9 @@ opportunityRoutes.patch("/:id", async (req, res) => {
       return res.status(400).json({ error: "impactChangeReason is required when impact changes" });
     }
 
-    const opportunityLevel = getOpportunityLevel(lik, imp);
+    const opportunityLevel = getOpportunityLevel(lik, imp, await getOrgUnitMatrix(existing.organizationalUnitId, "opportunity"));
+    // A re-scored opportunity is assessed against the PPD's current rubric; otherwise it keeps the version it had
+    const rubricVersion = lChanged || iChanged ? await getCurrentRubricVersion(existing.organizationalUnitId) : existing.rubricVersion;
 
     const opp = await prisma.opportunity.update({
       where: { id: req.params.id },
@@ -839,15 +884,17 @@ opportunityRoutes.patch("/:id", async (req, res) => {
         likelihood: lik,
         impact: imp,
         opportunityLevel,
-        owner: owner ?? existing.owner,
+        rubricVersion,
+        ...owner,
         status: status ?? existing.status,
+        reviewCadenceDays: reviewCadenceDays === undefined ? existing.reviewCadenceDays : reviewCadenceDays,
       },
       include: {
         organizationalUnit: { select: { id: true, name: true, type: true } },
       },
     });
 
-    await createOpportunityVersion(opp.id, opp, {
+    await createOpportunityVersion(auditActor(req), opp.id, opp, {
       likelihoodChangeReason: lChanged ? likelihoodChangeReason.trim() : null,
       impactChangeReason: iChanged ? impactChangeReason.trim() : null,
       statusChangeRationale: statusChangingToDeferOrReject ? statusChangeRationale?.trim() ?? null : null,
@@ -862,7 +909,7 @@ opportunityRoutes.patch("/:id", async (req, res) => {
       }
     }
     const changedFields = Object.keys(changes);
-    await createAuditLog(opp.id, "opportunity", opp.id, "updated", {
+    await createAuditLog(auditActor(req), opp.id, "opportunity", opp.id, "updated", {
       changedFields: changedFields.length > 0 ? changedFields : undefined,
       changes: Object.keys(changes).length > 0 ? changes : undefined,
       likelihoodChangeReason: lChanged && likelihoodChangeReason?.trim() ? likelihoodChangeReason.trim() : undefined,
@@ -878,11 +925,33 @@ opportunityRoutes.patch("/:id", async (req, res) => {
   }
 });
 
-opportunityRoutes.delete("/:id", async (req, res) => {
+/**
+ * POST /:id/review — record "reviewed, no change": a new version repeating the current state, which
+ * restarts the review cadence. Body: { note? }.
+ */
+opportunityRoutes.post("/:id/review", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
+  try {
+    const existing = await prisma.opportunity.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ error: "Opportunity not found" });
+    const reviewNote = typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+    await createOpportunityVersion(auditActor(req), existing.id, existing, { reviewedNoChange: true, reviewNote });
+    await createAuditLog(auditActor(req), existing.id, "opportunity", existing.id, "reviewed", reviewNote ? { reviewNote } : undefined);
+    const opp = await prisma.opportunity.findUniqueOrThrow({ where: { id: existing.id } });
+    const [withSchedule] = await withReviewSchedules([opp], "opportunity", (o) => o.opportunityLevel);
+    res.json(withSchedule);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to record review" });
+  }
+});
+
+opportunityRoutes.delete("/:id", requireOrgUnitRole("editor", orgUnitOfOpportunity()), async (req, res) => {
   try {
     const opportunityId = req.params.id;
-    await createAuditLog(opportunityId, "opportunity", opportunityId, "deleted");
+    await createAuditLog(auditActor(req), opportunityId, "opportunity", opportunityId, "deleted");
     await prisma.opportunity.delete({ where: { id: opportunityId } });
+    await deleteRioItemRelationships("opportunity", opportunityId);
+    await deleteRioItemComments("opportunity", opportunityId);
     res.status(204).send();
   } catch (err) {
     console.error(err);
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
+import { requireAdmin } from "../middleware/permissions.js";
 
 export const opportunityCategoryRoutes = Router();
 
@@ -23,7 +24,7 @@ function slugFromLabel(label: string): string {
     .replace(/^_|_$/g, "") || "category";
 }
 
-opportunityCategoryRoutes.post("/", async (req, res) => {
+opportunityCategoryRoutes.post("/", requireAdmin, async (req, res) => {
   try {
     const { label, sortOrder } = req.body;
     const labelStr = typeof label === "string" && label.trim() ? label.trim() : "";
@@ -52,7 +53,7 @@ opportunityCategoryRoutes.post("/", async (req, res) => {
   }
 });
 
-opportunityCategoryRoutes.patch("/:id", async (req, res) => {
+opportunityCategoryRoutes.patch("/:id", requireAdmin, async (req, res) => {
   try {
     const { label, sortOrder } = req.body;
     const existing = await prisma.opportunityCategory.findUnique({ where: { id: req.params.id } });
@@ -80,7 +81,7 @@ opportunityCategoryRoutes.patch("/:id", async (req, res) => {
   }
 });
 
-opportunityCategoryRoutes.delete("/:id", async (req, res) => {
+opportunityCategoryRoutes.delete("/:id", requireAdmin, async (req, res) => {
   try {
     const category = await prisma.opportunityCategory.findUnique({ where: { id: req.params.id } });
     if (!category) return res.status(404).json({ error: "Opportunity category not found" });
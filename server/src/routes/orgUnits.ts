@@ -1,14 +1,24 @@
 import { Router } from "express";
+import { Prisma } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
+import { auditActor } from "../lib/auditActor.js";
+import { getCurrentRubric, getRubricVersion, parseRubricDefinition } from "../lib/criteriaRubric.js";
+import { EXPOSED_ISSUE_STATUSES, EXPOSED_RISK_STATUSES, expectedExposure, sumExposure } from "../lib/exposure.js";
+import { resolveOrgUnitScope, validateParent } from "../lib/orgUnitHierarchy.js";
+import { daysOverdue, parseReviewCadence, resolveReviewCadence, REVIEWED_STATUSES, withReviewSchedules } from "../lib/reviewCadence.js";
+import { getAccessibleOrgUnitIds, getOrgUnitAccess } from "../lib/permissions.js";
+import { orgUnitFromParam, requireAdmin, requireOrgUnitRole } from "../middleware/permissions.js";
 
 export const orgUnitRoutes = Router();
 
 orgUnitRoutes.get("/", async (req, res) => {
   try {
     const { legalEntityId, type } = req.query;
-    const where: { legalEntityId?: string; type?: string } = {};
+    const where: { legalEntityId?: string; type?: string; id?: { in: string[] } } = {};
     if (typeof legalEntityId === "string") where.legalEntityId = legalEntityId;
     if (typeof type === "string") where.type = type as "program" | "project" | "department";
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    if (accessible) where.id = { in: accessible };
 
     const orgUnits = await prisma.organizationalUnit.findMany({
       where: Object.keys(where).length ? where : undefined,
@@ -25,7 +35,7 @@ orgUnitRoutes.get("/", async (req, res) => {
   }
 });
 
-orgUnitRoutes.get("/:id", async (req, res) => {
+orgUnitRoutes.get("/:id", requireOrgUnitRole("viewer", orgUnitFromParam()), async (req, res) => {
   try {
     const orgUnit = await prisma.organizationalUnit.findUnique({
       where: { id: req.params.id },
@@ -42,6 +52,168 @@ orgUnitRoutes.get("/:id", async (req, res) => {
   }
 });
 
+/** Effective-access report for one PPD: global Admins plus users granted a role on it (Admin only). */
+orgUnitRoutes.get("/:id/access", requireAdmin, async (req, res) => {
+  try {
+    const orgUnit = await prisma.organizationalUnit.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    res.json(await getOrgUnitAccess(orgUnit.id));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch organizational unit access" });
+  }
+});
+
+/**
+ * GET /:id/rubric — current criteria rubric for the PPD (null when none is defined).
+ * `?version=N` returns an older version, e.g. the one a historical score was assessed against.
+ */
+orgUnitRoutes.get("/:id/rubric", requireOrgUnitRole("viewer", orgUnitFromParam()), async (req, res) => {
+  try {
+    if (req.query.version !== undefined) {
+      const version = Number(req.query.version);
+      if (!Number.isInteger(version) || version < 1) return res.status(400).json({ error: "version must be a positive integer" });
+      const rubric = await getRubricVersion(req.params.id, version);
+      if (!rubric) return res.status(404).json({ error: "Rubric version not found" });
+      return res.json(rubric);
+    }
+    res.json(await getCurrentRubric(req.params.id));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch rubric" });
+  }
+});
+
+/** GET /:id/rubric/versions — all versions, newest first (without definitions). */
+orgUnitRoutes.get("/:id/rubric/versions", requireOrgUnitRole("viewer", orgUnitFromParam()), async (req, res) => {
+  try {
+    const versions = await prisma.criteriaRubric.findMany({
+      where: { organizationalUnitId: req.params.id },
+      orderBy: { version: "desc" },
+      select: { version: true, userDisplayName: true, createdAt: true },
+    });
+    res.json(versions);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch rubric versions" });
+  }
+});
+
+/**
+ * PUT /:id/rubric — PPD Admin. Body: RubricDefinition. Saves a new version; existing scores keep
+ * the version they were assessed against until their likelihood/consequence is next changed.
+ */
+orgUnitRoutes.put("/:id/rubric", requireOrgUnitRole("admin", orgUnitFromParam()), async (req, res) => {
+  try {
+    const definition = parseRubricDefinition(req.body);
+    if (typeof definition === "string") return res.status(400).json({ error: definition });
+    const orgUnit = await prisma.organizationalUnit.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    const actor = auditActor(req);
+
+    const rubric = await prisma.$transaction(async (tx) => {
+      const current = await getCurrentRubric(orgUnit.id, tx);
+      return tx.criteriaRubric.create({
+        data: {
+          organizationalUnitId: orgUnit.id,
+          version: (current?.version ?? 0) + 1,
+          definition,
+          userId: actor.userId,
+          userDisplayName: actor.userDisplayName,
+        },
+      });
+    });
+    res.status(201).json(rubric);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to save rubric" });
+  }
+});
+
+/** GET /:id/review-cadence — days between reviews by item type and level (the defaults when never saved). */
+orgUnitRoutes.get("/:id/review-cadence", requireOrgUnitRole("viewer", orgUnitFromParam()), async (req, res) => {
+  try {
+    const orgUnit = await prisma.organizationalUnit.findUnique({ where: { id: req.params.id }, select: { reviewCadence: true } });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    res.json({ cadence: resolveReviewCadence(orgUnit.reviewCadence), isDefault: orgUnit.reviewCadence == null });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch review cadence" });
+  }
+});
+
+/**
+ * PUT /:id/review-cadence — PPD Admin. Body: { risk, issue, opportunity }, each mapping level keys to
+ * days, or null to go back to the defaults. Next review dates follow at once (they are derived).
+ */
+orgUnitRoutes.put("/:id/review-cadence", requireOrgUnitRole("admin", orgUnitFromParam()), async (req, res) => {
+  try {
+    const cadence = req.body === null || req.body?.reset === true ? null : parseReviewCadence(req.body);
+    if (typeof cadence === "string") return res.status(400).json({ error: cadence });
+    const orgUnit = await prisma.organizationalUnit.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    const updated = await prisma.organizationalUnit.update({
+      where: { id: orgUnit.id },
+      data: { reviewCadence: cadence ?? Prisma.DbNull },
+      select: { reviewCadence: true },
+    });
+    res.json({ cadence: resolveReviewCadence(updated.reviewCadence), isDefault: updated.reviewCadence == null });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to save review cadence" });
+  }
+});
+
+/**
+ * GET /:id/review-queue — risks, issues and opportunities still being worked whose next review date
+ * has passed, most overdue first. `?includeDescendants=true` adds the child units the user can view.
+ */
+orgUnitRoutes.get("/:id/review-queue", requireOrgUnitRole("viewer", orgUnitFromParam()), async (req, res) => {
+  try {
+    const orgUnit = await prisma.organizationalUnit.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    const scope = await resolveOrgUnitScope(req.user!, orgUnit.id, req.query.includeDescendants);
+    const unitSelect = { organizationalUnit: { select: { id: true, name: true, type: true } } } as const;
+    const reviewSelect = { id: true, organizationalUnitId: true, status: true, owner: true, reviewCadenceDays: true, lastReviewedAt: true, createdAt: true } as const;
+    const now = new Date();
+    const [risks, issues, opportunities] = await Promise.all([
+      prisma.risk
+        .findMany({
+          where: { organizationalUnitId: { in: scope }, status: { in: [...REVIEWED_STATUSES.risk] as ("open" | "mitigating" | "accepted")[] } },
+          select: { ...reviewSelect, ...unitSelect, riskName: true, riskLevel: true },
+        })
+        .then((rows) => withReviewSchedules(rows, "risk", (r) => r.riskLevel, now)),
+      prisma.issue
+        .findMany({
+          where: { organizationalUnitId: { in: scope }, status: { in: [...REVIEWED_STATUSES.issue] as ("open" | "resolving")[] } },
+          select: { ...reviewSelect, ...unitSelect, issueName: true, issueLevel: true },
+        })
+        .then((rows) => withReviewSchedules(rows, "issue", (i) => i.issueLevel, now)),
+      prisma.opportunity
+        .findMany({
+          where: {
+            organizationalUnitId: { in: scope },
+            status: { in: [...REVIEWED_STATUSES.opportunity] as ("pursue_now" | "defer" | "reevaluate")[] },
+          },
+          select: { ...reviewSelect, ...unitSelect, opportunityName: true, opportunityLevel: true },
+        })
+        .then((rows) => withReviewSchedules(rows, "opportunity", (o) => o.opportunityLevel, now)),
+    ]);
+    const queue = [
+      ...risks.map(({ riskName, riskLevel, ...r }) => ({ type: "risk" as const, name: riskName, level: riskLevel, ...r })),
+      ...issues.map(({ issueName, issueLevel, ...i }) => ({ type: "issue" as const, name: issueName, level: issueLevel, ...i })),
+      ...opportunities.map(({ opportunityName, opportunityLevel, ...o }) => ({ type: "opportunity" as const, name: opportunityName, level: opportunityLevel, ...o })),
+    ]
+      .filter((item) => item.reviewOverdue)
+      .map((item) => ({ ...item, daysOverdue: daysOverdue(item.nextReviewDate, now) }))
+      .sort((a, b) => a.nextReviewDate.localeCompare(b.nextReviewDate));
+    res.json(queue);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch review queue" });
+  }
+});
+
 function slugFromName(name: string): string {
   return name
     .trim()
@@ -50,7 +222,39 @@ function slugFromName(name: string): string {
     .replace(/^_|_$/g, "") || "unit";
 }
 
-orgUnitRoutes.post("/", async (req, res) => {
+/**
+ * GET /:id/exposure — expected cost / schedule exposure rolled up over the PPD's quantified risks
+ * (open, mitigating and accepted) and issues (open, resolving and ignored).
+ */
+orgUnitRoutes.get("/:id/exposure", requireOrgUnitRole("viewer", orgUnitFromParam()), async (req, res) => {
+  try {
+    const orgUnit = await prisma.organizationalUnit.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    const rangeSelect = { costImpactLow: true, costImpactHigh: true, scheduleImpactLowDays: true, scheduleImpactHighDays: true } as const;
+    const [risks, issues] = await Promise.all([
+      prisma.risk.findMany({
+        where: { organizationalUnitId: orgUnit.id, status: { in: [...EXPOSED_RISK_STATUSES] } },
+        select: { probabilityPercent: true, ...rangeSelect },
+      }),
+      prisma.issue.findMany({
+        where: { organizationalUnitId: orgUnit.id, status: { in: [...EXPOSED_ISSUE_STATUSES] } },
+        select: rangeSelect,
+      }),
+    ]);
+    const riskTotals = sumExposure(risks.map((r) => expectedExposure(r)));
+    const issueTotals = sumExposure(issues.map((i) => expectedExposure(i, 100)));
+    res.json({
+      risks: riskTotals,
+      issues: issueTotals,
+      total: { cost: riskTotals.cost + issueTotals.cost, scheduleDays: riskTotals.scheduleDays + issueTotals.scheduleDays },
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch exposure" });
+  }
+});
+
+orgUnitRoutes.post("/", requireAdmin, async (req, res) => {
   try {
     const { legalEntityId, type, name, description, parentId } = req.body;
     if (!legalEntityId || !type || !name) {
@@ -64,6 +268,10 @@ orgUnitRoutes.post("/", async (req, res) => {
     }
     const nameStr = typeof name === "string" ? name.trim() : "";
     if (!nameStr) return res.status(400).json({ error: "name is required" });
+    if (parentId) {
+      const parentError = await validateParent(null, legalEntityId, parentId);
+      if (parentError) return res.status(400).json({ error: parentError });
+    }
     const code = slugFromName(nameStr);
     const orgUnit = await prisma.organizationalUnit.create({
       data: {
@@ -82,7 +290,7 @@ orgUnitRoutes.post("/", async (req, res) => {
   }
 });
 
-orgUnitRoutes.patch("/:id", async (req, res) => {
+orgUnitRoutes.patch("/:id", requireOrgUnitRole("admin", orgUnitFromParam()), async (req, res) => {
   try {
     const { name, description, parentId, type } = req.body;
     const data: Record<string, unknown> = {};
@@ -93,7 +301,15 @@ orgUnitRoutes.patch("/:id", async (req, res) => {
     if (Object.prototype.hasOwnProperty.call(req.body, "description")) {
       data.description = typeof req.body.description === "string" && req.body.description.trim() ? req.body.description.trim() : null;
     }
-    if (parentId !== undefined) data.parentId = parentId;
+    if (parentId !== undefined) {
+      if (parentId) {
+        const existing = await prisma.organizationalUnit.findUnique({ where: { id: req.params.id }, select: { legalEntityId: true } });
+        if (!existing) return res.status(404).json({ error: "Organizational unit not found" });
+        const parentError = await validateParent(req.params.id, existing.legalEntityId, parentId);
+        if (parentError) return res.status(400).json({ error: parentError });
+      }
+      data.parentId = parentId || null;
+    }
     if (type !== undefined) {
       const validTypes = ["program", "project", "department"];
       if (validTypes.includes(type)) data.type = type;
@@ -110,7 +326,7 @@ orgUnitRoutes.patch("/:id", async (req, res) => {
   }
 });
 
-orgUnitRoutes.delete("/:id", async (req, res) => {
+orgUnitRoutes.delete("/:id", requireAdmin, async (req, res) => {
   try {
     await prisma.organizationalUnit.delete({ where: { id: req.params.id } });
     res.status(204).send();
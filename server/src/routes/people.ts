@@ -0,0 +1,184 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { auditActor } from "../lib/auditActor.js";
+import { clusterOwnerNames, mergeOwnerNames, renameOwnedItems } from "../lib/ownerDirectory.js";
+import { getAccessibleOrgUnitIds } from "../lib/permissions.js";
+import { requireAdmin } from "../middleware/permissions.js";
+
+export const personRoutes = Router();
+
+const PERSON_SELECT = {
+  id: true,
+  displayName: true,
+  email: true,
+  userId: true,
+  aliases: true,
+  user: { select: { id: true, displayName: true, username: true } },
+  _count: { select: { risks: true, issues: true, opportunities: true } },
+} as const;
+
+function optionalText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+async function nameTaken(displayName: string, exceptId?: string): Promise<boolean> {
+  const existing = await prisma.person.findFirst({
+    where: { displayName: { equals: displayName, mode: "insensitive" }, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    select: { id: true },
+  });
+  return existing != null;
+}
+
+/** The user to link an entry to: 404 message when unknown, 400 when already linked to another entry. */
+async function checkLinkableUser(userId: string, exceptPersonId?: string): Promise<{ status: number; error: string } | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, isServiceAccount: true, person: { select: { id: true } } } });
+  if (!user || user.isServiceAccount) return { status: 404, error: "User not found" };
+  if (user.person && user.person.id !== exceptPersonId) return { status: 400, error: "That user is already linked to another owner" };
+  return null;
+}
+
+/** GET / — the owner directory, by name (query: search, matching name or email). Any signed-in user, for owner pickers. */
+personRoutes.get("/", async (req, res) => {
+  try {
+    const search = typeof req.query.search === "string" ? req.query.search.trim() : "";
+    const people = await prisma.person.findMany({
+      where: search
+        ? { OR: [{ displayName: { contains: search, mode: "insensitive" } }, { email: { contains: search, mode: "insensitive" } }] }
+        : {},
+      orderBy: { displayName: "asc" },
+      select: PERSON_SELECT,
+    });
+    res.json(people);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch owners" });
+  }
+});
+
+/**
+ * POST / — add an owner. Body: { displayName, email?, userId? }. Editors (of any org unit) add owners
+ * from the pickers; linking a user account is Admin only, and the name defaults to the user's.
+ */
+personRoutes.post("/", async (req, res) => {
+  try {
+    const editable = await getAccessibleOrgUnitIds(req.user!, "editor");
+    if (editable && editable.length === 0) return res.status(403).json({ error: "Only Editors can add owners" });
+    const userId = optionalText(req.body.userId);
+    if (userId && !req.user!.isAdmin) return res.status(403).json({ error: "Only Admins can link owners to user accounts" });
+    if (userId) {
+      const problem = await checkLinkableUser(userId);
+      if (problem) return res.status(problem.status).json({ error: problem.error });
+    }
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId }, select: { displayName: true, email: true } }) : null;
+    const displayName = optionalText(req.body.displayName) ?? user?.displayName ?? null;
+    if (!displayName) return res.status(400).json({ error: "displayName is required" });
+    if (await nameTaken(displayName)) return res.status(400).json({ error: "An owner with this name is already in the directory" });
+
+    const person = await prisma.person.create({
+      data: { displayName, email: optionalText(req.body.email) ?? user?.email ?? null, userId },
+      select: PERSON_SELECT,
+    });
+    res.status(201).json(person);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create owner" });
+  }
+});
+
+/** GET /clusters — Admin only. Free-text owner names not yet in the directory, grouped by likely person. */
+personRoutes.get("/clusters", requireAdmin, async (_req, res) => {
+  try {
+    res.json(await clusterOwnerNames());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to group owner names" });
+  }
+});
+
+/**
+ * POST /merge — Admin only. Links the items owned by the given free-text names to one directory entry.
+ * Body: { owners: string[], personId } to merge into an existing owner, or { owners, displayName,
+ * userId? } to add the owner first.
+ */
+personRoutes.post("/merge", requireAdmin, async (req, res) => {
+  try {
+    const names = Array.isArray(req.body.owners) ? req.body.owners.filter((n: unknown): n is string => typeof n === "string" && n.length > 0) : [];
+    if (names.length === 0) return res.status(400).json({ error: "owners must list at least one owner name" });
+
+    let person;
+    const personId = optionalText(req.body.personId);
+    if (personId) {
+      person = await prisma.person.findUnique({ where: { id: personId } });
+      if (!person) return res.status(404).json({ error: "Owner not found" });
+    } else {
+      const displayName = optionalText(req.body.displayName);
+      if (!displayName) return res.status(400).json({ error: "personId or displayName is required" });
+      if (await nameTaken(displayName)) return res.status(400).json({ error: "An owner with this name is already in the directory; merge into it instead" });
+      const userId = optionalText(req.body.userId);
+      if (userId) {
+        const problem = await checkLinkableUser(userId);
+        if (problem) return res.status(problem.status).json({ error: problem.error });
+      }
+      const user = userId ? await prisma.user.findUnique({ where: { id: userId }, select: { email: true } }) : null;
+      person = await prisma.person.create({ data: { displayName, email: optionalText(req.body.email) ?? user?.email ?? null, userId } });
+    }
+
+    const merged = await mergeOwnerNames(auditActor(req), names, person);
+    res.json({ person: await prisma.person.findUniqueOrThrow({ where: { id: person.id }, select: PERSON_SELECT }), merged });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to merge owners" });
+  }
+});
+
+/**
+ * PATCH /:id — Admin only. Body: { displayName?, email?, userId? (null unlinks) }. A new name is copied
+ * to the owner name of every item the person owns, audited and versioned on each item.
+ */
+personRoutes.patch("/:id", requireAdmin, async (req, res) => {
+  try {
+    const existing = await prisma.person.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ error: "Owner not found" });
+
+    const data: { displayName?: string; email?: string | null; userId?: string | null } = {};
+    if (req.body.displayName !== undefined) {
+      const displayName = optionalText(req.body.displayName);
+      if (!displayName) return res.status(400).json({ error: "displayName cannot be blank" });
+      if (await nameTaken(displayName, existing.id)) return res.status(400).json({ error: "An owner with this name is already in the directory" });
+      data.displayName = displayName;
+    }
+    if (req.body.email !== undefined) data.email = optionalText(req.body.email);
+    if (req.body.userId !== undefined) {
+      const userId = optionalText(req.body.userId);
+      if (userId) {
+        const problem = await checkLinkableUser(userId, existing.id);
+        if (problem) return res.status(problem.status).json({ error: problem.error });
+      }
+      data.userId = userId;
+    }
+
+    const newName = data.displayName !== undefined && data.displayName !== existing.displayName ? data.displayName : null;
+    const person = await prisma.$transaction(async (tx) => {
+      const updated = await tx.person.update({ where: { id: existing.id }, data, select: PERSON_SELECT });
+      if (newName) await renameOwnedItems(tx, auditActor(req), existing.id, newName);
+      return updated;
+    });
+    res.json(person);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update owner" });
+  }
+});
+
+/** DELETE /:id — Admin only. The person's items keep their owner name as free text. */
+personRoutes.delete("/:id", requireAdmin, async (req, res) => {
+  try {
+    const existing = await prisma.person.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!existing) return res.status(404).json({ error: "Owner not found" });
+    await prisma.person.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete owner" });
+  }
+});
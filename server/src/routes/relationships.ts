@@ -0,0 +1,215 @@
+import { Router } from "express";
+import type { RioRelationship } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { auditActor } from "../lib/auditActor.js";
+import { getAccessibleOrgUnitIds, getOrgUnitRole, roleSatisfies } from "../lib/permissions.js";
+import { resolveOrgUnitScope } from "../lib/orgUnitHierarchy.js";
+import {
+  findRioItems,
+  getRioItemOrgUnitId,
+  isRelationshipType,
+  isRioItemType,
+  RELATIONSHIP_TYPES,
+  rioItemKey,
+  type RioItemRef,
+  type RioItemSummary,
+} from "../lib/rioRelationships.js";
+import { orgUnitFromQuery, orgUnitOfRioItem, requireOrgUnitRole } from "../middleware/permissions.js";
+
+/**
+ * Typed links between risks, issues and opportunities, also across org units. Reading needs
+ * Viewer on the item; links to items in units the user cannot view are left out.
+ */
+export const relationshipRoutes = Router();
+
+/** Types that read the same both ways; a reverse duplicate is rejected. */
+const SYMMETRIC_TYPES = ["duplicates", "related_to"];
+const SEARCH_LIMIT = 20;
+
+const sourceOf = (r: RioRelationship): RioItemRef => ({ type: r.sourceType, id: r.sourceId });
+const targetOf = (r: RioRelationship): RioItemRef => ({ type: r.targetType, id: r.targetId });
+
+/** Items that exist and that the user can view (accessible null = every unit). */
+function visible(items: Map<string, RioItemSummary>, accessible: string[] | null, ref: RioItemRef): RioItemSummary | null {
+  const item = items.get(rioItemKey(ref));
+  if (!item) return null;
+  return !accessible || accessible.includes(item.organizationalUnit.id) ? item : null;
+}
+
+function toLink(r: RioRelationship, direction: "outgoing" | "incoming", item: RioItemSummary) {
+  const { sourceType: _st, sourceId: _si, targetType: _tt, targetId: _ti, ...rest } = r;
+  return { ...rest, direction, item };
+}
+
+/** GET / — links of one item (query: itemType, itemId), each with the item on the other end. */
+relationshipRoutes.get("/", requireOrgUnitRole("viewer", orgUnitOfRioItem("query", "item")), async (req, res) => {
+  try {
+    const { itemType, itemId } = req.query;
+    if (!isRioItemType(itemType) || typeof itemId !== "string") {
+      return res.status(400).json({ error: "itemType (risk, issue or opportunity) and itemId are required" });
+    }
+    if (!(await getRioItemOrgUnitId(itemType, itemId))) return res.status(404).json({ error: "Item not found" });
+    const rows = await prisma.rioRelationship.findMany({
+      where: { OR: [{ sourceType: itemType, sourceId: itemId }, { targetType: itemType, targetId: itemId }] },
+      orderBy: { createdAt: "asc" },
+    });
+    const isSource = (r: RioRelationship) => r.sourceType === itemType && r.sourceId === itemId;
+    const items = await findRioItems(rows.map((r) => (isSource(r) ? targetOf(r) : sourceOf(r))));
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    const links = rows.flatMap((r) => {
+      const item = visible(items, accessible, isSource(r) ? targetOf(r) : sourceOf(r));
+      return item ? [toLink(r, isSource(r) ? "outgoing" : "incoming", item)] : [];
+    });
+    res.json(links);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch relationships" });
+  }
+});
+
+/**
+ * GET /graph — every link touching the org unit's items (query: organizationalUnitId,
+ * includeDescendants). Nodes outside the scope are the other ends of cross-unit links.
+ */
+relationshipRoutes.get("/graph", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
+  try {
+    const { organizationalUnitId } = req.query;
+    if (typeof organizationalUnitId !== "string") {
+      return res.status(400).json({ error: "organizationalUnitId is required" });
+    }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
+    const inScope = { organizationalUnitId: { in: scope } };
+    const [risks, issues, opportunities] = await Promise.all([
+      prisma.risk.findMany({ where: inScope, select: { id: true } }),
+      prisma.issue.findMany({ where: inScope, select: { id: true } }),
+      prisma.opportunity.findMany({ where: inScope, select: { id: true } }),
+    ]);
+    const ends = [
+      { type: "risk" as const, ids: risks.map((r) => r.id) },
+      { type: "issue" as const, ids: issues.map((i) => i.id) },
+      { type: "opportunity" as const, ids: opportunities.map((o) => o.id) },
+    ].flatMap(({ type, ids }) => [
+      { sourceType: type, sourceId: { in: ids } },
+      { targetType: type, targetId: { in: ids } },
+    ]);
+    const rows = await prisma.rioRelationship.findMany({ where: { OR: ends }, orderBy: { createdAt: "asc" } });
+    const items = await findRioItems(rows.flatMap((r) => [sourceOf(r), targetOf(r)]));
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+
+    const nodes = new Map<string, RioItemSummary & { key: string; inScope: boolean }>();
+    const edges = rows.flatMap((r) => {
+      const source = visible(items, accessible, sourceOf(r));
+      const target = visible(items, accessible, targetOf(r));
+      if (!source || !target) return [];
+      for (const item of [source, target]) {
+        const key = rioItemKey(item);
+        if (!nodes.has(key)) nodes.set(key, { ...item, key, inScope: scope.includes(item.organizationalUnit.id) });
+      }
+      return [{ id: r.id, type: r.type, note: r.note, source: rioItemKey(source), target: rioItemKey(target) }];
+    });
+    res.json({ nodes: [...nodes.values()], edges });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch relationship graph" });
+  }
+});
+
+/** GET /search — items the user can view whose name contains `q` (query: q, optional itemType), to pick a link target. */
+relationshipRoutes.get("/search", async (req, res) => {
+  try {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!q) return res.json([]);
+    const only = isRioItemType(req.query.itemType) ? req.query.itemType : null;
+    const accessible = await getAccessibleOrgUnitIds(req.user!);
+    const inUnits = accessible ? { organizationalUnitId: { in: accessible } } : {};
+    const contains = { contains: q, mode: "insensitive" as const };
+    const select = { id: true } as const;
+    const [risks, issues, opportunities] = await Promise.all([
+      !only || only === "risk" ? prisma.risk.findMany({ where: { ...inUnits, riskName: contains }, select, take: SEARCH_LIMIT }) : [],
+      !only || only === "issue" ? prisma.issue.findMany({ where: { ...inUnits, issueName: contains }, select, take: SEARCH_LIMIT }) : [],
+      !only || only === "opportunity"
+        ? prisma.opportunity.findMany({ where: { ...inUnits, opportunityName: contains }, select, take: SEARCH_LIMIT })
+        : [],
+    ]);
+    const items = await findRioItems([
+      ...risks.map((r) => ({ type: "risk" as const, id: r.id })),
+      ...issues.map((i) => ({ type: "issue" as const, id: i.id })),
+      ...opportunities.map((o) => ({ type: "opportunity" as const, id: o.id })),
+    ]);
+    res.json([...items.values()].sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to search items" });
+  }
+});
+
+/**
+ * POST / — add a link. Body: { sourceType, sourceId, targetType, targetId, type, note? }. Requires
+ * Editor on the source's unit and Viewer on the target's.
+ */
+relationshipRoutes.post("/", requireOrgUnitRole("editor", orgUnitOfRioItem("body", "source")), async (req, res) => {
+  try {
+    const { sourceType, sourceId, targetType, targetId, type, note } = req.body;
+    if (!isRioItemType(sourceType) || typeof sourceId !== "string" || !isRioItemType(targetType) || typeof targetId !== "string") {
+      return res.status(400).json({ error: "sourceType, sourceId, targetType and targetId are required (types: risk, issue, opportunity)" });
+    }
+    if (!isRelationshipType(type)) {
+      return res.status(400).json({ error: `type must be one of: ${RELATIONSHIP_TYPES.join(", ")}` });
+    }
+    if (sourceType === targetType && sourceId === targetId) {
+      return res.status(400).json({ error: "An item cannot be linked to itself" });
+    }
+    if (!(await getRioItemOrgUnitId(sourceType, sourceId))) return res.status(404).json({ error: "Source item not found" });
+    const targetUnitId = await getRioItemOrgUnitId(targetType, targetId);
+    if (!targetUnitId) return res.status(404).json({ error: "Target item not found" });
+    if (!roleSatisfies(await getOrgUnitRole(req.user!, targetUnitId), "viewer")) {
+      return res.status(403).json({ error: "No access to the target item's organizational unit" });
+    }
+    const duplicate = await prisma.rioRelationship.findFirst({
+      where: {
+        type,
+        OR: [
+          { sourceType, sourceId, targetType, targetId },
+          ...(SYMMETRIC_TYPES.includes(type) ? [{ sourceType: targetType, sourceId: targetId, targetType: sourceType, targetId: sourceId }] : []),
+        ],
+      },
+      select: { id: true },
+    });
+    if (duplicate) return res.status(400).json({ error: "These items are already linked with this relationship" });
+
+    const created = await prisma.rioRelationship.create({
+      data: {
+        ...auditActor(req),
+        sourceType,
+        sourceId,
+        targetType,
+        targetId,
+        type,
+        note: typeof note === "string" && note.trim() ? note.trim() : null,
+      },
+    });
+    const items = await findRioItems([targetOf(created)]);
+    res.status(201).json(toLink(created, "outgoing", items.get(rioItemKey(targetOf(created)))!));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to add relationship" });
+  }
+});
+
+/** DELETE /:id — remove a link. Requires Editor on the unit of either end. */
+relationshipRoutes.delete("/:id", async (req, res) => {
+  try {
+    const link = await prisma.rioRelationship.findUnique({ where: { id: req.params.id } });
+    if (!link) return res.status(404).json({ error: "Relationship not found" });
+    const unitIds = await Promise.all([getRioItemOrgUnitId(link.sourceType, link.sourceId), getRioItemOrgUnitId(link.targetType, link.targetId)]);
+    const roles = await Promise.all(unitIds.map((id) => (id ? getOrgUnitRole(req.user!, id) : null)));
+    if (!roles.some((role) => roleSatisfies(role, "editor"))) {
+      return res.status(403).json({ error: "Editor role required on the unit of either linked item" });
+    }
+    await prisma.rioRelationship.delete({ where: { id: link.id } });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to remove relationship" });
+  }
+});
@@ -1,7 +1,34 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma.js";
+import { actorOf, auditActor, type AuditActor } from "../lib/auditActor.js";
+import { orgUnitFromBody, orgUnitFromQuery, orgUnitOfRisk, requireAdmin, requireOrgUnitRole } from "../middleware/permissions.js";
+import { getOrgUnitRole, roleSatisfies } from "../lib/permissions.js";
 import { getRiskLevel, getNumericalRiskLevel } from "../lib/riskLevel.js";
+import { getOrgUnitMatrix, type MatrixDefinition } from "../lib/levelMatrix.js";
+import { getCurrentRubricVersion } from "../lib/criteriaRubric.js";
+import { resolveOrgUnitScope } from "../lib/orgUnitHierarchy.js";
+import {
+  CONSEQUENCE_DIMENSIONS,
+  CONSEQUENCE_FIELDS,
+  CONSEQUENCE_REASON_FIELDS,
+  NO_CONSEQUENCE_SCORES,
+  overallConsequence,
+  pickConsequenceScores,
+  readConsequenceScores,
+  type ConsequenceDimension,
+} from "../lib/riskConsequence.js";
+import { EXPOSED_RISK_STATUSES, NO_QUANTIFIED_IMPACT, pickImpactRanges, pickQuantifiedImpact, readQuantifiedImpact } from "../lib/exposure.js";
+import { DEFAULT_ITERATIONS, MAX_ITERATIONS, MIN_ITERATIONS, simulateRisks } from "../lib/riskSimulation.js";
 import { getIssueLevel } from "../lib/issueLevel.js";
+import { createIssueVersion } from "../lib/issueVersion.js";
+import { readMitigationCosts, stepRoi, sumPortfolioRoi, sumRoi, type RiskMitigationRoi, type RoiStep } from "../lib/mitigationRoi.js";
+import { deleteRioItemRelationships } from "../lib/rioRelationships.js";
+import { deleteRioItemComments } from "../lib/comments.js";
+import { createRiskVersion, type ConsequenceReasons } from "../lib/riskVersion.js";
+import { createConvertedOpportunity, optionalTextOr, scoreOr, textOr } from "../lib/rioConversions.js";
+import { isTripped, nextTrippedAt, readIndicatorFields, readNumber } from "../lib/riskIndicators.js";
+import { readReviewCadenceDays, withReviewSchedules } from "../lib/reviewCadence.js";
+import { readOwner } from "../lib/ownerDirectory.js";
 
 export const riskRoutes = Router();
 
@@ -11,61 +38,6 @@ async function resolveCategoryCode(code: string | null | undefined): Promise<str
   return cat?.code ?? null;
 }
 
-function toSnapshot(risk: {
-  riskName: string;
-  riskCondition: string;
-  riskIf: string;
-  riskThen: string;
-  category: string | null;
-  likelihood: number;
-  consequence: number;
-  riskLevel: string | null;
-  mitigationStrategy: string | null;
-  mitigationPlan: string | null;
-  owner: string | null;
-  status: string;
-}) {
-  return {
-    riskName: risk.riskName,
-    riskCondition: risk.riskCondition,
-    riskIf: risk.riskIf,
-    riskThen: risk.riskThen,
-    category: risk.category,
-    likelihood: risk.likelihood,
-    consequence: risk.consequence,
-    riskLevel: risk.riskLevel,
-    mitigationStrategy: risk.mitigationStrategy,
-    mitigationPlan: risk.mitigationPlan,
-    owner: risk.owner,
-    status: risk.status,
-  };
-}
-
-type PrismaClientLike = Pick<typeof prisma, "riskVersion">;
-
-/** Persist a new risk version for audit/history. Call after every risk create and update. Use tx when inside a transaction. */
-async function createRiskVersion(
-  riskId: string,
-  risk: Parameters<typeof toSnapshot>[0],
-  options?: { likelihoodChangeReason?: string | null; consequenceChangeReason?: string | null; statusChangeRationale?: string | null },
-  tx?: PrismaClientLike
-) {
-  const db = tx ?? prisma;
-  const count = await db.riskVersion.count({ where: { riskId } });
-  const version = count + 1;
-  const snapshot = toSnapshot(risk);
-  await db.riskVersion.create({
-    data: {
-      riskId,
-      version,
-      snapshot,
-      likelihoodChangeReason: options?.likelihoodChangeReason ?? null,
-      consequenceChangeReason: options?.consequenceChangeReason ?? null,
-      statusChangeRationale: options?.statusChangeRationale ?? null,
-    },
-  });
-}
-
 function toStepSnapshot(step: {
   mitigationActions: string;
   closureCriteria: string;
@@ -76,6 +48,8 @@ function toStepSnapshot(step: {
   actualLikelihood: number | null;
   actualConsequence: number | null;
   actualCompletedAt: Date | null;
+  estimatedCost: number | null;
+  actualCost: number | null;
 }) {
   return {
     mitigationActions: step.mitigationActions,
@@ -87,13 +61,16 @@ function toStepSnapshot(step: {
     actualLikelihood: step.actualLikelihood,
     actualConsequence: step.actualConsequence,
     actualCompletedAt: step.actualCompletedAt?.toISOString() ?? null,
+    estimatedCost: step.estimatedCost,
+    actualCost: step.actualCost,
   };
 }
 
-async function createMitigationStepVersion(stepId: string, step: Parameters<typeof toStepSnapshot>[0]) {
+async function createMitigationStepVersion(actor: AuditActor, stepId: string, step: Parameters<typeof toStepSnapshot>[0]) {
   const count = await prisma.mitigationStepVersion.count({ where: { mitigationStepId: stepId } });
   await prisma.mitigationStepVersion.create({
     data: {
+      ...actor,
       mitigationStepId: stepId,
       version: count + 1,
       snapshot: toStepSnapshot(step),
@@ -108,8 +85,36 @@ type AuditDetails = {
   changes?: Record<string, AuditChange>;
   likelihoodChangeReason?: string;
   consequenceChangeReason?: string;
+  consequenceReasons?: ConsequenceReasons;
   statusChangeRationale?: string;
+  reviewNote?: string;
   issueCreatedFromRealizedRisk?: { issueId: string; issueName: string };
+  opportunityCreatedFromRisk?: { opportunityId: string; opportunityName: string };
+  escalation?: EscalationDetails;
+  indicator?: IndicatorSummary;
+};
+
+/** The indicator an audit entry is about, with the value that tripped or cleared it. */
+type IndicatorSummary = {
+  description: string;
+  metric: string;
+  direction: string;
+  threshold: number;
+  value?: number | null;
+};
+
+/**
+ * "link" creates a risk in the parent unit that points back at this one; "transfer" moves the risk
+ * itself up. fromOrgUnit is the lower unit and toOrgUnit the parent for both escalation and
+ * de-escalation; on a link, linkedRisk is the risk on the other side.
+ */
+type EscalationMode = "link" | "transfer";
+type EscalationDetails = {
+  mode: EscalationMode;
+  fromOrgUnit: { id: string; name: string };
+  toOrgUnit: { id: string; name: string };
+  linkedRisk?: { id: string; riskName: string };
+  rationale: string;
 };
 
 /** Serialize a value for audit storage (Date → ISO string) so JSON is consistent. */
@@ -119,14 +124,16 @@ function auditValue(val: unknown): unknown {
 }
 
 async function createAuditLog(
+  actor: AuditActor,
   riskId: string,
-  entityType: "risk" | "mitigation_step",
+  entityType: "risk" | "mitigation_step" | "indicator",
   entityId: string,
-  action: "created" | "updated" | "deleted",
+  action: "created" | "updated" | "deleted" | "reviewed" | "escalated" | "de_escalated" | "tripped" | "cleared" | "converted",
   details?: AuditDetails
 ) {
   await prisma.riskAuditLog.create({
     data: {
+      ...actor,
       riskId,
       entityType,
       entityId,
@@ -156,21 +163,72 @@ function getOriginalFromVersion(snapshot: unknown): { originalLikelihood: number
   };
 }
 
-riskRoutes.get("/", async (req, res) => {
+/** Return on mitigation per risk; the baseline is the level at creation (version 1), else the current level. */
+async function buildMitigationRoi(
+  risks: { id: string; riskName: string; status: string; likelihood: number; consequence: number; mitigationSteps: RoiStep[] }[],
+  matrix: MatrixDefinition
+): Promise<RiskMitigationRoi[]> {
+  if (risks.length === 0) return [];
+  const v1s = await prisma.riskVersion.findMany({
+    where: { riskId: { in: risks.map((r) => r.id) }, version: 1 },
+    select: { riskId: true, snapshot: true },
+  });
+  const origByRiskId = new Map(v1s.map((v) => [v.riskId, getOriginalFromVersion(v.snapshot)]));
+  return risks.map((r) => {
+    const orig = origByRiskId.get(r.id);
+    const currentRiskLevel = getNumericalRiskLevel(r.likelihood, r.consequence, matrix);
+    const baselineRiskLevel = orig ? getNumericalRiskLevel(orig.originalLikelihood, orig.originalConsequence, matrix) : currentRiskLevel;
+    const steps = stepRoi(baselineRiskLevel, r.mitigationSteps);
+    return {
+      riskId: r.id,
+      riskName: r.riskName,
+      status: r.status,
+      baselineRiskLevel,
+      currentRiskLevel,
+      steps,
+      totals: sumRoi(steps),
+    };
+  });
+}
+
+const ROI_RISK_SELECT = {
+  id: true,
+  riskName: true,
+  status: true,
+  likelihood: true,
+  consequence: true,
+  mitigationSteps: {
+    select: {
+      id: true,
+      sequenceOrder: true,
+      mitigationActions: true,
+      expectedRiskLevel: true,
+      actualRiskLevel: true,
+      actualCompletedAt: true,
+      estimatedCost: true,
+      actualCost: true,
+    },
+  },
+} as const;
+
+riskRoutes.get("/", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
   try {
     const { organizationalUnitId } = req.query;
     if (typeof organizationalUnitId !== "string") {
       return res.status(400).json({ error: "organizationalUnitId is required" });
     }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
 
     const risks = await prisma.risk.findMany({
-      where: { organizationalUnitId },
+      where: { organizationalUnitId: { in: scope } },
       orderBy: { updatedAt: "desc" },
       include: {
         organizationalUnit: {
           select: { id: true, name: true, type: true, legalEntity: { select: { name: true } } },
         },
         mitigationSteps: { select: { updatedAt: true } },
+        // Same filter as GET /indicators/tripped: a closed risk's indicators no longer count
+        _count: { select: { indicators: { where: { trippedAt: { not: null }, risk: { status: { not: "closed" } } } } } },
       },
     });
     if (risks.length > 0) {
@@ -213,10 +271,10 @@ riskRoutes.get("/", async (req, res) => {
         steps.length > 0
           ? Math.max(new Date(r.updatedAt).getTime(), ...steps.map((s) => new Date(s.updatedAt).getTime()))
           : new Date(r.updatedAt).getTime();
-      const { mitigationSteps: _s, ...rest } = r;
-      return { ...rest, lastUpdated: new Date(lastMs).toISOString() };
+      const { mitigationSteps: _s, _count, ...rest } = r;
+      return { ...rest, trippedIndicatorCount: _count.indicators, lastUpdated: new Date(lastMs).toISOString() };
     });
-    res.json(withLastUpdated);
+    res.json(await withReviewSchedules(withLastUpdated, "risk", (r) => r.riskLevel));
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch risks" });
@@ -224,7 +282,7 @@ riskRoutes.get("/", async (req, res) => {
 });
 
 // Fix original L×C from version history (corrects bad migration backfill that used current instead of creation)
-riskRoutes.post("/fix-originals", async (_req, res) => {
+riskRoutes.post("/fix-originals", requireAdmin, async (_req, res) => {
   try {
     const risks = await prisma.risk.findMany({ select: { id: true } });
     const v1s = await prisma.riskVersion.findMany({
@@ -246,15 +304,15 @@ riskRoutes.post("/fix-originals", async (_req, res) => {
   }
 });
 
-// Backfill mitigation step versions for existing steps (creates v1 from current state)
-riskRoutes.post("/backfill-step-versions", async (_req, res) => {
+// Backfill mitigation step versions for existing steps (creates v1 from current state; no author, like every backfilled version)
+riskRoutes.post("/backfill-step-versions", requireAdmin, async (_req, res) => {
   try {
     const steps = await prisma.mitigationStep.findMany();
     let created = 0;
     for (const step of steps) {
       const count = await prisma.mitigationStepVersion.count({ where: { mitigationStepId: step.id } });
       if (count === 0) {
-        await createMitigationStepVersion(step.id, step);
+        await createMitigationStepVersion(actorOf({}), step.id, step);
         created++;
       }
     }
@@ -265,15 +323,15 @@ riskRoutes.post("/backfill-step-versions", async (_req, res) => {
   }
 });
 
-// Backfill versions for risks that don't have any (e.g. after migration)
-riskRoutes.post("/backfill-versions", async (_req, res) => {
+// Backfill versions for risks that don't have any (e.g. after migration). Backfilled versions have no author and are not reviews.
+riskRoutes.post("/backfill-versions", requireAdmin, async (_req, res) => {
   try {
     const risks = await prisma.risk.findMany();
     let created = 0;
     for (const risk of risks) {
       const count = await prisma.riskVersion.count({ where: { riskId: risk.id } });
       if (count === 0) {
-        await createRiskVersion(risk.id, risk);
+        await createRiskVersion(actorOf({}), risk.id, risk, { review: false });
         created++;
       }
     }
@@ -286,18 +344,20 @@ riskRoutes.post("/backfill-versions", async (_req, res) => {
 
 // Waterfall data route MUST be before /:id (else "waterfall" matches :id)
 // Returns version events with numerical risk level (1-25) per L,C
-riskRoutes.get("/waterfall/data", async (req, res) => {
+riskRoutes.get("/waterfall/data", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
   try {
     const { organizationalUnitId } = req.query;
     if (typeof organizationalUnitId !== "string") {
       return res.status(400).json({ error: "organizationalUnitId is required" });
     }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
 
     const risks = await prisma.risk.findMany({
-      where: { organizationalUnitId },
+      where: { organizationalUnitId: { in: scope } },
       select: { id: true },
     });
 
+    const matrix = await getOrgUnitMatrix(organizationalUnitId, "risk");
     const allVersions: { date: string; riskId: string; riskLevelNumerical: number; version: number }[] = [];
     for (const r of risks) {
       const versions = await prisma.riskVersion.findMany({
@@ -308,7 +368,7 @@ riskRoutes.get("/waterfall/data", async (req, res) => {
         const s = v.snapshot as { likelihood?: number; consequence?: number };
         const lik = s.likelihood ?? 3;
         const cons = s.consequence ?? 3;
-        const rl = getNumericalRiskLevel(lik, cons);
+        const rl = getNumericalRiskLevel(lik, cons, matrix);
         allVersions.push({
           date: (v.createdAt as Date).toISOString(),
           riskId: r.id,
@@ -326,8 +386,93 @@ riskRoutes.get("/waterfall/data", async (req, res) => {
   }
 });
 
+// Monte Carlo cost / schedule simulation over the org unit's open, mitigating and accepted risks. Must be before GET /:id.
+// Query: organizationalUnitId, iterations (default 5000), seed (to reproduce a run; random when omitted), includeDescendants
+riskRoutes.get("/simulation", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
+  try {
+    const { organizationalUnitId } = req.query;
+    if (typeof organizationalUnitId !== "string") {
+      return res.status(400).json({ error: "organizationalUnitId is required" });
+    }
+    const iterations = req.query.iterations !== undefined ? Number(req.query.iterations) : DEFAULT_ITERATIONS;
+    if (!Number.isInteger(iterations) || iterations < MIN_ITERATIONS || iterations > MAX_ITERATIONS) {
+      return res.status(400).json({ error: `iterations must be an integer from ${MIN_ITERATIONS} to ${MAX_ITERATIONS}` });
+    }
+    const seed = req.query.seed !== undefined ? Number(req.query.seed) : Math.floor(Math.random() * 2 ** 31);
+    if (!Number.isInteger(seed) || seed < 0) {
+      return res.status(400).json({ error: "seed must be a non-negative integer" });
+    }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
+
+    const risks = await prisma.risk.findMany({
+      where: { organizationalUnitId: { in: scope }, status: { in: [...EXPOSED_RISK_STATUSES] } },
+      select: {
+        id: true,
+        riskName: true,
+        probabilityPercent: true,
+        costImpactLow: true,
+        costImpactHigh: true,
+        scheduleImpactLowDays: true,
+        scheduleImpactHighDays: true,
+      },
+    });
+    res.json(simulateRisks(risks, iterations, seed));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to run risk simulation" });
+  }
+});
+
+// Mitigation cost and return on mitigation for the org unit's risks that have steps. Must be before GET /:id.
+riskRoutes.get("/mitigation-roi", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
+  try {
+    const { organizationalUnitId } = req.query;
+    if (typeof organizationalUnitId !== "string") {
+      return res.status(400).json({ error: "organizationalUnitId is required" });
+    }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
+    const matrix = await getOrgUnitMatrix(organizationalUnitId, "risk");
+    const risks = await prisma.risk.findMany({
+      where: { organizationalUnitId: { in: scope }, mitigationSteps: { some: {} } },
+      select: ROI_RISK_SELECT,
+    });
+    const roi = await buildMitigationRoi(risks, matrix);
+    res.json({ risks: roi, totals: sumPortfolioRoi(roi) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch mitigation ROI" });
+  }
+});
+
+/**
+ * GET /indicators/tripped — tripped indicators on the unit's risks that are not closed (query:
+ * organizationalUnitId, includeDescendants), most recently tripped first, each with its risk.
+ */
+riskRoutes.get("/indicators/tripped", requireOrgUnitRole("viewer", orgUnitFromQuery), async (req, res) => {
+  try {
+    const { organizationalUnitId } = req.query;
+    if (typeof organizationalUnitId !== "string") {
+      return res.status(400).json({ error: "organizationalUnitId is required" });
+    }
+    const scope = await resolveOrgUnitScope(req.user!, organizationalUnitId, req.query.includeDescendants);
+    const indicators = await prisma.riskIndicator.findMany({
+      where: { trippedAt: { not: null }, risk: { organizationalUnitId: { in: scope }, status: { not: "closed" } } },
+      orderBy: { trippedAt: "desc" },
+      include: {
+        risk: {
+          select: { id: true, riskName: true, status: true, riskLevel: true, organizationalUnit: { select: { id: true, name: true, type: true } } },
+        },
+      },
+    });
+    res.json(indicators);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch tripped indicators" });
+  }
+});
+
 // Audit log: every create/update/delete on risk and mitigation steps. Must be before GET /:id.
-riskRoutes.get("/:id/audit-log", async (req, res) => {
+riskRoutes.get("/:id/audit-log", requireOrgUnitRole("viewer", orgUnitOfRisk()), async (req, res) => {
   try {
     const { id } = req.params;
     const risk = await prisma.risk.findUnique({ where: { id }, select: { id: true } });
@@ -345,6 +490,7 @@ riskRoutes.get("/:id/audit-log", async (req, res) => {
       action: log.action,
       details: log.details as AuditDetails | undefined,
       createdAt: toCreatedAtISO(log.createdAt),
+      ...actorOf(log),
     }));
 
     res.json(list);
@@ -355,7 +501,7 @@ riskRoutes.get("/:id/audit-log", async (req, res) => {
 });
 
 // Version history for risk + mitigation steps (History tab). Must be first GET with :id so /:id/history is never matched by GET /:id.
-riskRoutes.get("/:id/history", async (req, res) => {
+riskRoutes.get("/:id/history", requireOrgUnitRole("viewer", orgUnitOfRisk()), async (req, res) => {
   try {
     const { id } = req.params;
     const riskExists = await prisma.risk.findUnique({ where: { id }, select: { id: true } });
@@ -382,7 +528,13 @@ riskRoutes.get("/:id/history", async (req, res) => {
             category: fullRisk.category,
             likelihood: fullRisk.likelihood,
             consequence: fullRisk.consequence,
+            costConsequence: fullRisk.costConsequence,
+            scheduleConsequence: fullRisk.scheduleConsequence,
+            performanceConsequence: fullRisk.performanceConsequence,
+            otherConsequence: fullRisk.otherConsequence,
+            ...pickQuantifiedImpact(fullRisk),
             riskLevel: fullRisk.riskLevel,
+            rubricVersion: fullRisk.rubricVersion,
             mitigationStrategy: fullRisk.mitigationStrategy,
             mitigationPlan: fullRisk.mitigationPlan,
             owner: fullRisk.owner,
@@ -416,7 +568,13 @@ riskRoutes.get("/:id/history", async (req, res) => {
           category: fullRisk.category,
           likelihood: fullRisk.likelihood,
           consequence: fullRisk.consequence,
+          costConsequence: fullRisk.costConsequence,
+          scheduleConsequence: fullRisk.scheduleConsequence,
+          performanceConsequence: fullRisk.performanceConsequence,
+          otherConsequence: fullRisk.otherConsequence,
+          ...pickQuantifiedImpact(fullRisk),
           riskLevel: fullRisk.riskLevel,
+          rubricVersion: fullRisk.rubricVersion,
           mitigationStrategy: fullRisk.mitigationStrategy,
           mitigationPlan: fullRisk.mitigationPlan,
           owner: fullRisk.owner,
@@ -429,7 +587,14 @@ riskRoutes.get("/:id/history", async (req, res) => {
           snapshot,
           likelihoodChangeReason: null,
           consequenceChangeReason: null,
+          costConsequenceChangeReason: null,
+          scheduleConsequenceChangeReason: null,
+          performanceConsequenceChangeReason: null,
+          otherConsequenceChangeReason: null,
           statusChangeRationale: null,
+          reviewedNoChange: false,
+          reviewNote: null,
+          ...actorOf({}),
           createdAt: fullRisk.createdAt,
         } as (typeof riskVersions)[0]];
       }
@@ -439,7 +604,7 @@ riskRoutes.get("/:id/history", async (req, res) => {
       const versionAt = riskVersions.filter((v) => new Date(v.createdAt) <= at);
       const latest = versionAt[versionAt.length - 1];
       if (!latest) return res.status(404).json({ error: "No version at that date" });
-      return res.json({ type: "risk", version: latest.version, snapshot: latest.snapshot, createdAt: toCreatedAtISO(latest.createdAt) });
+      return res.json({ type: "risk", version: latest.version, snapshot: latest.snapshot, ...actorOf(latest), createdAt: toCreatedAtISO(latest.createdAt) });
     }
 
     const steps = await prisma.mitigationStep.findMany({
@@ -453,6 +618,9 @@ riskRoutes.get("/:id/history", async (req, res) => {
       version: v.version,
       snapshot: v.snapshot,
       statusChangeRationale: v.statusChangeRationale ?? undefined,
+      reviewedNoChange: v.reviewedNoChange || undefined,
+      reviewNote: v.reviewNote ?? undefined,
+      ...actorOf(v),
       createdAt: toCreatedAtISO(v.createdAt),
     }));
 
@@ -463,6 +631,7 @@ riskRoutes.get("/:id/history", async (req, res) => {
         stepNumber: s.sequenceOrder + 1,
         version: v.version,
         snapshot: v.snapshot,
+        ...actorOf(v),
         createdAt: toCreatedAtISO(v.createdAt),
       }))
     );
@@ -479,7 +648,7 @@ riskRoutes.get("/:id/history", async (req, res) => {
 });
 
 // Mitigation steps (must be before /:id)
-riskRoutes.patch("/:id/mitigation-steps/reorder", async (req, res) => {
+riskRoutes.patch("/:id/mitigation-steps/reorder", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
   try {
     const riskId = req.params.id;
     const { stepIds } = req.body;
@@ -508,7 +677,7 @@ riskRoutes.patch("/:id/mitigation-steps/reorder", async (req, res) => {
       })
       .join(", ");
 
-    await createAuditLog(riskId, "risk", riskId, "updated", {
+    await createAuditLog(auditActor(req), riskId, "risk", riskId, "updated", {
       changedFields: ["mitigationStepsReordered"],
       changes: { mitigationStepsReordered: { from: fromOrder, to: toOrder } },
     });
@@ -523,7 +692,7 @@ riskRoutes.patch("/:id/mitigation-steps/reorder", async (req, res) => {
   }
 });
 
-riskRoutes.get("/:id/mitigation-steps", async (req, res) => {
+riskRoutes.get("/:id/mitigation-steps", requireOrgUnitRole("viewer", orgUnitOfRisk()), async (req, res) => {
   try {
     const steps = await prisma.mitigationStep.findMany({
       where: { riskId: req.params.id },
@@ -536,7 +705,23 @@ riskRoutes.get("/:id/mitigation-steps", async (req, res) => {
   }
 });
 
-riskRoutes.post("/:id/mitigation-steps", async (req, res) => {
+riskRoutes.get("/:id/mitigation-roi", requireOrgUnitRole("viewer", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const risk = await prisma.risk.findUnique({
+      where: { id: req.params.id },
+      select: { ...ROI_RISK_SELECT, organizationalUnitId: true },
+    });
+    if (!risk) return res.status(404).json({ error: "Risk not found" });
+    const matrix = await getOrgUnitMatrix(risk.organizationalUnitId, "risk");
+    const [roi] = await buildMitigationRoi([risk], matrix);
+    res.json(roi);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch mitigation ROI" });
+  }
+});
+
+riskRoutes.post("/:id/mitigation-steps", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
   try {
     const riskId = req.params.id;
     const {
@@ -554,16 +739,21 @@ riskRoutes.post("/:id/mitigation-steps", async (req, res) => {
     if (!mitigationActions || !closureCriteria || expectedLikelihood == null || expectedConsequence == null) {
       return res.status(400).json({ error: "mitigationActions, closureCriteria, expectedLikelihood, and expectedConsequence are required" });
     }
+    const costs = readMitigationCosts(req.body, { estimatedCost: null, actualCost: null });
+    if (typeof costs === "string") return res.status(400).json({ error: costs });
+    const risk = await prisma.risk.findUnique({ where: { id: riskId }, select: { organizationalUnitId: true } });
+    if (!risk) return res.status(404).json({ error: "Risk not found" });
+    const matrix = await getOrgUnitMatrix(risk.organizationalUnitId, "risk");
     const el = Math.max(1, Math.min(5, Number(expectedLikelihood)));
     const ec = Math.max(1, Math.min(5, Number(expectedConsequence)));
-    const expectedRiskLevel = getNumericalRiskLevel(el, ec);
+    const expectedRiskLevel = getNumericalRiskLevel(el, ec, matrix);
     const al = actualLikelihood != null && actualConsequence != null
       ? Math.max(1, Math.min(5, Number(actualLikelihood)))
       : null;
     const ac = actualLikelihood != null && actualConsequence != null
       ? Math.max(1, Math.min(5, Number(actualConsequence)))
       : null;
-    const actualRiskLevel = al != null && ac != null ? getNumericalRiskLevel(al, ac) : null;
+    const actualRiskLevel = al != null && ac != null ? getNumericalRiskLevel(al, ac, matrix) : null;
     const step = await prisma.mitigationStep.create({
       data: {
         riskId,
@@ -579,10 +769,11 @@ riskRoutes.post("/:id/mitigation-steps", async (req, res) => {
         actualConsequence: ac,
         actualRiskLevel,
         actualCompletedAt: actualCompletedAt ? new Date(actualCompletedAt) : null,
+        ...costs,
       },
     });
-    await createMitigationStepVersion(step.id, step);
-    await createAuditLog(riskId, "mitigation_step", step.id, "created", { stepNumber: (step.sequenceOrder ?? 0) + 1 });
+    await createMitigationStepVersion(auditActor(req), step.id, step);
+    await createAuditLog(auditActor(req), riskId, "mitigation_step", step.id, "created", { stepNumber: (step.sequenceOrder ?? 0) + 1 });
     res.status(201).json(step);
   } catch (err) {
     console.error(err);
@@ -590,13 +781,17 @@ riskRoutes.post("/:id/mitigation-steps", async (req, res) => {
   }
 });
 
-riskRoutes.patch("/:id/mitigation-steps/:stepId", async (req, res) => {
+riskRoutes.patch("/:id/mitigation-steps/:stepId", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
   try {
     const { stepId } = req.params;
     const step = await prisma.mitigationStep.findFirst({
       where: { id: stepId, riskId: req.params.id },
+      include: { risk: { select: { organizationalUnitId: true } } },
     });
     if (!step) return res.status(404).json({ error: "Mitigation step not found" });
+    const costs = readMitigationCosts(req.body, { estimatedCost: step.estimatedCost, actualCost: step.actualCost });
+    if (typeof costs === "string") return res.status(400).json({ error: costs });
+    const matrix = await getOrgUnitMatrix(step.risk.organizationalUnitId, "risk");
     const s = step as { expectedLikelihood: number; expectedConsequence: number; actualLikelihood: number | null; actualConsequence: number | null };
     const {
       sequenceOrder,
@@ -620,18 +815,20 @@ riskRoutes.patch("/:id/mitigation-steps/:stepId", async (req, res) => {
     const ec = expectedConsequence !== undefined ? Math.max(1, Math.min(5, Number(expectedConsequence))) : s.expectedConsequence;
     data.expectedLikelihood = el;
     data.expectedConsequence = ec;
-    data.expectedRiskLevel = getNumericalRiskLevel(el, ec);
+    data.expectedRiskLevel = getNumericalRiskLevel(el, ec, matrix);
     const al = actualLikelihood !== undefined ? (actualLikelihood == null ? null : Math.max(1, Math.min(5, Number(actualLikelihood)))) : s.actualLikelihood;
     const ac = actualConsequence !== undefined ? (actualConsequence == null ? null : Math.max(1, Math.min(5, Number(actualConsequence)))) : s.actualConsequence;
     data.actualLikelihood = al ?? null;
     data.actualConsequence = ac ?? null;
-    data.actualRiskLevel = al != null && ac != null ? getNumericalRiskLevel(al, ac) : null;
+    data.actualRiskLevel = al != null && ac != null ? getNumericalRiskLevel(al, ac, matrix) : null;
     if (actualCompletedAt !== undefined) data.actualCompletedAt = actualCompletedAt ? new Date(actualCompletedAt) : null;
+    if (req.body.estimatedCost !== undefined) data.estimatedCost = costs.estimatedCost;
+    if (req.body.actualCost !== undefined) data.actualCost = costs.actualCost;
     const updated = await prisma.mitigationStep.update({
       where: { id: stepId },
       data,
     });
-    await createMitigationStepVersion(updated.id, updated);
+    await createMitigationStepVersion(auditActor(req), updated.id, updated);
 
     const changes: Record<string, AuditChange> = {};
     for (const key of Object.keys(data)) {
@@ -644,7 +841,7 @@ riskRoutes.patch("/:id/mitigation-steps/:stepId", async (req, res) => {
       }
     }
     const changedFields = Object.keys(changes);
-    await createAuditLog(req.params.id, "mitigation_step", stepId, "updated", {
+    await createAuditLog(auditActor(req), req.params.id, "mitigation_step", stepId, "updated", {
       changedFields: changedFields.length > 0 ? changedFields : undefined,
       changes: Object.keys(changes).length > 0 ? changes : undefined,
       stepNumber: updated.sequenceOrder + 1,
@@ -656,7 +853,7 @@ riskRoutes.patch("/:id/mitigation-steps/:stepId", async (req, res) => {
   }
 });
 
-riskRoutes.delete("/:id/mitigation-steps/:stepId", async (req, res) => {
+riskRoutes.delete("/:id/mitigation-steps/:stepId", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
   try {
     const { stepId } = req.params;
     const riskId = req.params.id;
@@ -664,7 +861,7 @@ riskRoutes.delete("/:id/mitigation-steps/:stepId", async (req, res) => {
       where: { id: stepId, riskId },
     });
     if (!step) return res.status(404).json({ error: "Mitigation step not found" });
-    await createAuditLog(riskId, "mitigation_step", stepId, "deleted", { stepNumber: step.sequenceOrder + 1 });
+    await createAuditLog(auditActor(req), riskId, "mitigation_step", stepId, "deleted", { stepNumber: step.sequenceOrder + 1 });
     await prisma.mitigationStep.delete({ where: { id: stepId } });
     res.status(204).send();
   } catch (err) {
@@ -673,8 +870,165 @@ riskRoutes.delete("/:id/mitigation-steps/:stepId", async (req, res) => {
   }
 });
 
+/** An indicator's definition for audit details, with the value that tripped or cleared it when given. */
+function indicatorSummary(indicator: { description: string; metric: string; direction: string; threshold: number }, value?: number | null): IndicatorSummary {
+  const summary: IndicatorSummary = {
+    description: indicator.description,
+    metric: indicator.metric,
+    direction: indicator.direction,
+    threshold: indicator.threshold,
+  };
+  return value !== undefined ? { ...summary, value } : summary;
+}
+
+/**
+ * Re-derive an indicator's current value (its latest reading) and tripped state after a reading or a
+ * threshold change. Crossing the threshold is logged as "tripped" on the risk, falling back as "cleared".
+ */
+async function refreshIndicator(actor: AuditActor, indicatorId: string) {
+  const indicator = await prisma.riskIndicator.findUniqueOrThrow({ where: { id: indicatorId } });
+  const latest = await prisma.riskIndicatorReading.findFirst({
+    where: { indicatorId },
+    orderBy: [{ readAt: "desc" }, { createdAt: "desc" }],
+    select: { value: true },
+  });
+  const currentValue = latest?.value ?? null;
+  const tripped = isTripped(indicator, currentValue);
+  const updated = await prisma.riskIndicator.update({
+    where: { id: indicatorId },
+    data: { currentValue, trippedAt: nextTrippedAt(indicator.trippedAt, tripped) },
+  });
+  if (tripped !== (indicator.trippedAt != null)) {
+    await createAuditLog(actor, indicator.riskId, "indicator", indicatorId, tripped ? "tripped" : "cleared", {
+      indicator: indicatorSummary(updated, currentValue),
+    });
+  }
+  return updated;
+}
+
+const INDICATOR_READINGS_SHOWN = 50;
+
+/** GET /:id/indicators — the risk's indicators, each with its latest readings (newest first). */
+riskRoutes.get("/:id/indicators", requireOrgUnitRole("viewer", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const indicators = await prisma.riskIndicator.findMany({
+      where: { riskId: req.params.id },
+      orderBy: { createdAt: "asc" },
+      include: { readings: { orderBy: [{ readAt: "desc" }, { createdAt: "desc" }], take: INDICATOR_READINGS_SHOWN } },
+    });
+    res.json(indicators);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch indicators" });
+  }
+});
+
+/**
+ * POST /:id/indicators — add a trigger / early-warning indicator. Body: { description, metric, unit?,
+ * direction? ("above" | "below"), threshold, reviewDate?, currentValue? }. A currentValue is recorded
+ * as the first reading.
+ */
+riskRoutes.post("/:id/indicators", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const riskId = req.params.id;
+    const fields = readIndicatorFields(req.body, null);
+    if (typeof fields === "string") return res.status(400).json({ error: fields });
+    const initialValue = req.body.currentValue != null && req.body.currentValue !== "" ? readNumber(req.body.currentValue) : null;
+    if (initialValue == null && req.body.currentValue != null && req.body.currentValue !== "") {
+      return res.status(400).json({ error: "currentValue must be a number" });
+    }
+    const risk = await prisma.risk.findUnique({ where: { id: riskId }, select: { id: true } });
+    if (!risk) return res.status(404).json({ error: "Risk not found" });
+
+    const created = await prisma.riskIndicator.create({ data: { riskId, ...fields } });
+    await createAuditLog(auditActor(req), riskId, "indicator", created.id, "created", { indicator: indicatorSummary(created) });
+    if (initialValue != null) {
+      await prisma.riskIndicatorReading.create({ data: { ...auditActor(req), indicatorId: created.id, value: initialValue } });
+    }
+    res.status(201).json(initialValue != null ? await refreshIndicator(auditActor(req), created.id) : created);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create indicator" });
+  }
+});
+
+const INDICATOR_FIELDS_FOR_AUDIT = ["description", "metric", "unit", "direction", "threshold", "reviewDate"] as const;
+
+/** PATCH /:id/indicators/:indicatorId — edit the definition; a new threshold or direction re-evaluates the trip. */
+riskRoutes.patch("/:id/indicators/:indicatorId", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const { id: riskId, indicatorId } = req.params;
+    const indicator = await prisma.riskIndicator.findFirst({ where: { id: indicatorId, riskId } });
+    if (!indicator) return res.status(404).json({ error: "Indicator not found" });
+    const fields = readIndicatorFields(req.body, indicator);
+    if (typeof fields === "string") return res.status(400).json({ error: fields });
+
+    const changes: Record<string, AuditChange> = {};
+    for (const key of INDICATOR_FIELDS_FOR_AUDIT) {
+      const from = auditValue(indicator[key]);
+      const to = auditValue(fields[key]);
+      if (from !== to) changes[key] = { from, to };
+    }
+    if (Object.keys(changes).length === 0) return res.json(indicator);
+    await prisma.riskIndicator.update({ where: { id: indicatorId }, data: fields });
+    await createAuditLog(auditActor(req), riskId, "indicator", indicatorId, "updated", {
+      changedFields: Object.keys(changes),
+      changes,
+      indicator: indicatorSummary(fields),
+    });
+    res.json(await refreshIndicator(auditActor(req), indicatorId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update indicator" });
+  }
+});
+
+riskRoutes.delete("/:id/indicators/:indicatorId", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const { id: riskId, indicatorId } = req.params;
+    const indicator = await prisma.riskIndicator.findFirst({ where: { id: indicatorId, riskId } });
+    if (!indicator) return res.status(404).json({ error: "Indicator not found" });
+    await createAuditLog(auditActor(req), riskId, "indicator", indicatorId, "deleted", { indicator: indicatorSummary(indicator) });
+    await prisma.riskIndicator.delete({ where: { id: indicatorId } });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete indicator" });
+  }
+});
+
+/**
+ * POST /:id/indicators/:indicatorId/readings — record a value. Body: { value, readAt?, note? }; readAt
+ * defaults to now and may be backdated. Returns the indicator with its new current value and trip state.
+ */
+riskRoutes.post("/:id/indicators/:indicatorId/readings", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const { id: riskId, indicatorId } = req.params;
+    const value = readNumber(req.body.value);
+    if (value == null) return res.status(400).json({ error: "value must be a number" });
+    const readAt = req.body.readAt ? new Date(String(req.body.readAt)) : new Date();
+    if (Number.isNaN(readAt.getTime())) return res.status(400).json({ error: "readAt must be a date" });
+    const indicator = await prisma.riskIndicator.findFirst({ where: { id: indicatorId, riskId }, select: { id: true } });
+    if (!indicator) return res.status(404).json({ error: "Indicator not found" });
+
+    await prisma.riskIndicatorReading.create({
+      data: {
+        ...auditActor(req),
+        indicatorId,
+        value,
+        readAt,
+        note: typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null,
+      },
+    });
+    res.status(201).json(await refreshIndicator(auditActor(req), indicatorId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to record reading" });
+  }
+});
+
 // Per-risk waterfall: planned (from mitigation steps) + actual (from version history + step completions)
-riskRoutes.get("/:id/waterfall", async (req, res) => {
+riskRoutes.get("/:id/waterfall", requireOrgUnitRole("viewer", orgUnitOfRisk()), async (req, res) => {
   try {
     const riskId = req.params.id;
     const risk = await prisma.risk.findUnique({
@@ -682,6 +1036,7 @@ riskRoutes.get("/:id/waterfall", async (req, res) => {
       include: { mitigationSteps: { orderBy: { sequenceOrder: "asc" } } },
     });
     if (!risk) return res.status(404).json({ error: "Risk not found" });
+    const matrix = await getOrgUnitMatrix(risk.organizationalUnitId, "risk");
 
     const versions = await prisma.riskVersion.findMany({
       where: { riskId },
@@ -697,7 +1052,7 @@ riskRoutes.get("/:id/waterfall", async (req, res) => {
       const cons = s.consequence ?? 3;
       actual.push({
         date: (v.createdAt as Date).toISOString(),
-        riskLevel: getNumericalRiskLevel(lik, cons),
+        riskLevel: getNumericalRiskLevel(lik, cons, matrix),
         likelihood: lik,
         consequence: cons,
         source: "risk_update",
@@ -710,7 +1065,7 @@ riskRoutes.get("/:id/waterfall", async (req, res) => {
         const ac = Math.max(1, Math.min(5, step.actualConsequence));
         actual.push({
           date: (step.actualCompletedAt as Date).toISOString(),
-          riskLevel: getNumericalRiskLevel(al, ac),
+          riskLevel: getNumericalRiskLevel(al, ac, matrix),
           likelihood: al,
           consequence: ac,
           source: "mitigation_step",
@@ -744,18 +1099,37 @@ riskRoutes.get("/:id/waterfall", async (req, res) => {
   }
 });
 
-riskRoutes.get("/:id", async (req, res) => {
+/** Risk on the other side of an escalation link, as shown in the detail view. */
+const ESCALATION_LINK_SELECT = {
+  id: true,
+  riskName: true,
+  status: true,
+  organizationalUnit: { select: { id: true, name: true, type: true } },
+} as const;
+
+riskRoutes.get("/:id", requireOrgUnitRole("viewer", orgUnitOfRisk()), async (req, res) => {
   try {
     const risk = await prisma.risk.findUnique({
       where: { id: req.params.id },
       include: {
         organizationalUnit: {
-          include: { legalEntity: true },
+          include: { legalEntity: true, parent: { select: { id: true, name: true, type: true } } },
         },
         mitigationSteps: { orderBy: { sequenceOrder: "asc" } },
+        escalatedFromRisk: { select: ESCALATION_LINK_SELECT },
+        escalatedToRisks: { select: ESCALATION_LINK_SELECT, orderBy: { createdAt: "asc" } },
+        sourceIssue: { select: { id: true, organizationalUnitId: true, issueName: true, status: true } },
+        sourceOpportunity: { select: { id: true, organizationalUnitId: true, opportunityName: true, status: true } },
+        opportunitiesCreatedFromRisk: {
+          select: { id: true, organizationalUnitId: true, opportunityName: true, status: true },
+          orderBy: { createdAt: "asc" },
+        },
       },
     });
     if (!risk) return res.status(404).json({ error: "Risk not found" });
+    const transferredFromOrgUnit = risk.escalatedFromOrgUnitId
+      ? await prisma.organizationalUnit.findUnique({ where: { id: risk.escalatedFromOrgUnitId }, select: { id: true, name: true, type: true } })
+      : null;
     const v1 = await prisma.riskVersion.findFirst({
       where: { riskId: risk.id, version: 1 },
       select: { snapshot: true },
@@ -782,7 +1156,8 @@ riskRoutes.get("/:id", async (req, res) => {
       take: 1,
     });
     const linkedIssue = linkedIssues[0] ?? null;
-    res.json({ ...risk, linkedIssue });
+    const [withSchedule] = await withReviewSchedules([risk], "risk", (r) => r.riskLevel);
+    res.json({ ...withSchedule, linkedIssue, transferredFromOrgUnit });
   } catch (err) {
     console.error(err);
     res.status(500).json({ error: "Failed to fetch risk" });
@@ -790,7 +1165,7 @@ riskRoutes.get("/:id", async (req, res) => {
 });
 
 /** Create an issue from a realized risk. Pre-fills name, description (condition/if/then), owner, category, consequence. */
-riskRoutes.post("/:id/create-issue", async (req, res) => {
+riskRoutes.post("/:id/create-issue", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
   try {
     const riskId = req.params.id;
     const risk = await prisma.risk.findUnique({
@@ -810,6 +1185,7 @@ riskRoutes.post("/:id/create-issue", async (req, res) => {
       issueName?: string;
       description?: string;
       owner?: string | null;
+      ownerId?: string | null;
       category?: string | null;
       consequence?: number;
     };
@@ -827,9 +1203,8 @@ riskRoutes.post("/:id/create-issue", async (req, res) => {
     const consequence = typeof body.consequence === "number" && body.consequence >= 1 && body.consequence <= 5
       ? body.consequence
       : risk.consequence;
-    const owner = body.owner !== undefined
-      ? (typeof body.owner === "string" && body.owner.trim() ? body.owner.trim() : null)
-      : risk.owner;
+    const owner = await readOwner(body, { owner: risk.owner, ownerId: risk.ownerId });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
     const category = body.category !== undefined
       ? (typeof body.category === "string" && body.category.trim() ? body.category.trim() : null)
       : risk.category;
@@ -842,15 +1217,20 @@ riskRoutes.post("/:id/create-issue", async (req, res) => {
         description,
         consequence,
         issueLevel,
-        owner,
+        rubricVersion: await getCurrentRubricVersion(risk.organizationalUnitId),
+        // The risk's impact ranges carry over; now that it has occurred they count in full
+        ...pickImpactRanges(risk),
+        ...owner,
         category,
-        status: "control",
+        status: "open",
         sourceRiskId: riskId,
       },
     });
 
+    await createIssueVersion(auditActor(req), issue.id, issue);
     await prisma.issueAuditLog.create({
       data: {
+        ...auditActor(req),
         issueId: issue.id,
         entityType: "issue",
         entityId: issue.id,
@@ -858,7 +1238,7 @@ riskRoutes.post("/:id/create-issue", async (req, res) => {
         details: { createdFromRiskId: riskId },
       },
     });
-    await createAuditLog(riskId, "risk", riskId, "updated", {
+    await createAuditLog(auditActor(req), riskId, "risk", riskId, "updated", {
       issueCreatedFromRealizedRisk: { issueId: issue.id, issueName: issue.issueName },
     });
 
@@ -869,7 +1249,222 @@ riskRoutes.post("/:id/create-issue", async (req, res) => {
   }
 });
 
-riskRoutes.post("/", async (req, res) => {
+/**
+ * Create an opportunity from a risk whose mitigation could yield upside. Pre-fills the name, the
+ * condition, the if (the mitigation plan) and the owner; the opportunity starts as Pursue Now.
+ */
+riskRoutes.post("/:id/create-opportunity", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const riskId = req.params.id;
+    const risk = await prisma.risk.findUnique({ where: { id: riskId } });
+    if (!risk) return res.status(404).json({ error: "Risk not found" });
+    if (risk.status !== "open" && risk.status !== "mitigating") {
+      return res.status(400).json({ error: "An opportunity can only be created from an open or mitigating risk" });
+    }
+    const existing = await prisma.opportunity.findFirst({ where: { sourceRiskId: riskId }, select: { id: true } });
+    if (existing) {
+      return res.status(400).json({ error: "An opportunity has already been created from this risk" });
+    }
+
+    const body = req.body as Record<string, unknown>;
+    const owner = await readOwner(body, { owner: risk.owner, ownerId: risk.ownerId });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
+    const opp = await createConvertedOpportunity(
+      auditActor(req),
+      risk.organizationalUnitId,
+      {
+        opportunityName: textOr(body.opportunityName, `${risk.riskName} (upside)`),
+        opportunityCondition: textOr(body.opportunityCondition, risk.riskCondition),
+        opportunityIf: textOr(body.opportunityIf, risk.mitigationPlan?.trim() || `The mitigation of "${risk.riskName}" succeeds`),
+        opportunityThen: textOr(body.opportunityThen, "Edit to describe the upside for the program."),
+        likelihood: scoreOr(body.likelihood, 3),
+        impact: scoreOr(body.impact, 3),
+        ...owner,
+        category: optionalTextOr(body.category, null),
+      },
+      riskId
+    );
+    await createAuditLog(auditActor(req), riskId, "risk", riskId, "converted", {
+      opportunityCreatedFromRisk: { opportunityId: opp.id, opportunityName: opp.opportunityName },
+    });
+
+    res.status(201).json(opp);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create opportunity from risk" });
+  }
+});
+
+/**
+ * Escalate a risk that exceeds its PPD's authority to the parent org unit. Body: { mode: "link" |
+ * "transfer", rationale }. "link" creates an open risk in the parent that points back at this one
+ * (this risk stays as it is); "transfer" moves this risk, with its steps and history, to the parent.
+ * Requires Editor on both units.
+ */
+riskRoutes.post("/:id/escalate", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const riskId = req.params.id;
+    const { mode, rationale } = req.body as { mode?: unknown; rationale?: unknown };
+    if (mode !== "link" && mode !== "transfer") {
+      return res.status(400).json({ error: 'mode must be "link" or "transfer"' });
+    }
+    if (typeof rationale !== "string" || !rationale.trim()) {
+      return res.status(400).json({ error: "rationale is required when escalating a risk" });
+    }
+    const risk = await prisma.risk.findUnique({
+      where: { id: riskId },
+      include: {
+        organizationalUnit: { select: { id: true, name: true, parent: { select: { id: true, name: true } } } },
+        escalatedToRisks: { where: { status: { not: "closed" } }, select: { id: true } },
+      },
+    });
+    if (!risk) return res.status(404).json({ error: "Risk not found" });
+    const parent = risk.organizationalUnit.parent;
+    if (!parent) return res.status(400).json({ error: "This organizational unit has no parent to escalate to" });
+    if (!(EXPOSED_RISK_STATUSES as readonly string[]).includes(risk.status)) {
+      return res.status(400).json({ error: "Only open, mitigating or accepted risks can be escalated" });
+    }
+    if (risk.escalatedToRisks.length > 0) {
+      return res.status(400).json({ error: "This risk is already escalated; de-escalate the linked risk first" });
+    }
+    if (mode === "transfer" && risk.escalatedFromOrgUnitId) {
+      return res.status(400).json({ error: "This risk was transferred up already; de-escalate it before escalating it further" });
+    }
+    if (!roleSatisfies(await getOrgUnitRole(req.user!, parent.id), "editor")) {
+      return res.status(403).json({ error: `Editor role required on ${parent.name} to escalate to it` });
+    }
+
+    const fromOrgUnit = { id: risk.organizationalUnit.id, name: risk.organizationalUnit.name };
+    const details: EscalationDetails = { mode, fromOrgUnit, toOrgUnit: parent, rationale: rationale.trim() };
+
+    if (mode === "transfer") {
+      const moved = await prisma.risk.update({
+        where: { id: riskId },
+        data: {
+          organizationalUnitId: parent.id,
+          escalatedFromOrgUnitId: fromOrgUnit.id,
+          riskLevel: getRiskLevel(risk.likelihood, risk.consequence, await getOrgUnitMatrix(parent.id, "risk")),
+        },
+      });
+      await createAuditLog(auditActor(req), riskId, "risk", riskId, "escalated", { escalation: details });
+      return res.json(moved);
+    }
+
+    const linked = await prisma.$transaction(async (tx) => {
+      const r = await tx.risk.create({
+        data: {
+          organizationalUnitId: parent.id,
+          riskName: risk.riskName,
+          riskCondition: risk.riskCondition,
+          riskIf: risk.riskIf,
+          riskThen: risk.riskThen,
+          category: risk.category,
+          originalLikelihood: risk.likelihood,
+          originalConsequence: risk.consequence,
+          likelihood: risk.likelihood,
+          consequence: risk.consequence,
+          ...pickConsequenceScores(risk),
+          ...pickQuantifiedImpact(risk),
+          riskLevel: getRiskLevel(risk.likelihood, risk.consequence, await getOrgUnitMatrix(parent.id, "risk")),
+          rubricVersion: await getCurrentRubricVersion(parent.id),
+          mitigationStrategy: risk.mitigationStrategy,
+          owner: risk.owner,
+          ownerId: risk.ownerId,
+          status: "open",
+          escalatedFromRiskId: riskId,
+        },
+      });
+      await createRiskVersion(auditActor(req), r.id, r, undefined, tx);
+      return r;
+    });
+    const linkedDetails = { ...details, linkedRisk: { id: linked.id, riskName: linked.riskName } };
+    await createAuditLog(auditActor(req), linked.id, "risk", linked.id, "created", {
+      escalation: { ...linkedDetails, linkedRisk: { id: riskId, riskName: risk.riskName } },
+    });
+    await createAuditLog(auditActor(req), riskId, "risk", riskId, "escalated", { escalation: linkedDetails });
+    res.status(201).json(linked);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to escalate risk" });
+  }
+});
+
+/**
+ * Hand an escalated risk back. Body: { rationale }. A transferred risk moves back to the unit it came
+ * from; a linked risk in the parent is closed with the rationale, leaving the original with its PPD.
+ * Requires Editor on both units.
+ */
+riskRoutes.post("/:id/de-escalate", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const riskId = req.params.id;
+    const { rationale } = req.body as { rationale?: unknown };
+    if (typeof rationale !== "string" || !rationale.trim()) {
+      return res.status(400).json({ error: "rationale is required when de-escalating a risk" });
+    }
+    const risk = await prisma.risk.findUnique({
+      where: { id: riskId },
+      include: {
+        organizationalUnit: { select: { id: true, name: true } },
+        escalatedFromRisk: { select: { id: true, riskName: true, organizationalUnit: { select: { id: true, name: true } } } },
+      },
+    });
+    if (!risk) return res.status(404).json({ error: "Risk not found" });
+    const toOrgUnit = { id: risk.organizationalUnit.id, name: risk.organizationalUnit.name };
+
+    if (risk.escalatedFromOrgUnitId) {
+      const target = await prisma.organizationalUnit.findUnique({ where: { id: risk.escalatedFromOrgUnitId }, select: { id: true, name: true } });
+      if (!target) return res.status(400).json({ error: "The unit this risk was escalated from no longer exists" });
+      if (!roleSatisfies(await getOrgUnitRole(req.user!, target.id), "editor")) {
+        return res.status(403).json({ error: `Editor role required on ${target.name} to hand the risk back` });
+      }
+      const moved = await prisma.risk.update({
+        where: { id: riskId },
+        data: {
+          organizationalUnitId: target.id,
+          escalatedFromOrgUnitId: null,
+          riskLevel: getRiskLevel(risk.likelihood, risk.consequence, await getOrgUnitMatrix(target.id, "risk")),
+        },
+      });
+      await createAuditLog(auditActor(req), riskId, "risk", riskId, "de_escalated", {
+        escalation: { mode: "transfer", fromOrgUnit: target, toOrgUnit, rationale: rationale.trim() },
+      });
+      return res.json(moved);
+    }
+
+    if (!risk.escalatedFromRiskId) return res.status(400).json({ error: "This risk was not escalated" });
+    if (risk.status === "closed") return res.status(400).json({ error: "This escalated risk is already closed" });
+    const source = risk.escalatedFromRisk;
+    if (source && !roleSatisfies(await getOrgUnitRole(req.user!, source.organizationalUnit.id), "editor")) {
+      return res.status(403).json({ error: `Editor role required on ${source.organizationalUnit.name} to hand the risk back` });
+    }
+    const closed = await prisma.$transaction(async (tx) => {
+      const r = await tx.risk.update({ where: { id: riskId }, data: { status: "closed" } });
+      await createRiskVersion(auditActor(req), r.id, r, { statusChangeRationale: rationale.trim() }, tx);
+      return r;
+    });
+    const details = {
+      mode: "link" as const,
+      fromOrgUnit: source?.organizationalUnit ?? toOrgUnit,
+      toOrgUnit,
+      rationale: rationale.trim(),
+    };
+    await createAuditLog(auditActor(req), riskId, "risk", riskId, "de_escalated", {
+      escalation: source ? { ...details, linkedRisk: { id: source.id, riskName: source.riskName } } : details,
+      changes: { status: { from: risk.status, to: "closed" } },
+    });
+    if (source) {
+      await createAuditLog(auditActor(req), source.id, "risk", source.id, "de_escalated", {
+        escalation: { ...details, linkedRisk: { id: riskId, riskName: risk.riskName } },
+      });
+    }
+    res.json(closed);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to de-escalate risk" });
+  }
+});
+
+riskRoutes.post("/", requireOrgUnitRole("editor", orgUnitFromBody), async (req, res) => {
   try {
     // Original L×C is derived from initial likelihood/consequence; never accept from client.
     if ("originalLikelihood" in req.body || "originalConsequence" in req.body) {
@@ -886,7 +1481,6 @@ riskRoutes.post("/", async (req, res) => {
       consequence,
       mitigationStrategy,
       mitigationPlan,
-      owner,
       status,
     } = req.body;
 
@@ -894,10 +1488,18 @@ riskRoutes.post("/", async (req, res) => {
       return res.status(400).json({ error: "organizationalUnitId, riskName, riskCondition, riskIf, and riskThen are required" });
     }
 
+    const scores = readConsequenceScores(req.body, NO_CONSEQUENCE_SCORES);
+    if (typeof scores === "string") return res.status(400).json({ error: scores });
+    const quantified = readQuantifiedImpact(req.body, NO_QUANTIFIED_IMPACT);
+    if (typeof quantified === "string") return res.status(400).json({ error: quantified });
+    const owner = await readOwner(req.body, { owner: null, ownerId: null });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
+
     const cat = await resolveCategoryCode(category);
     const lik = Math.max(1, Math.min(5, likelihood ?? 3));
-    const cons = Math.max(1, Math.min(5, consequence ?? 3));
-    const riskLevel = getRiskLevel(lik, cons);
+    const cons = overallConsequence(scores) ?? Math.max(1, Math.min(5, consequence ?? 3));
+    const riskLevel = getRiskLevel(lik, cons, await getOrgUnitMatrix(organizationalUnitId, "risk"));
+    const rubricVersion = await getCurrentRubricVersion(organizationalUnitId);
 
     // Create risk and v1 in a single transaction so we never have a risk without history.
     const risk = await prisma.$transaction(async (tx) => {
@@ -913,10 +1515,13 @@ riskRoutes.post("/", async (req, res) => {
           originalConsequence: cons,
           likelihood: lik,
           consequence: cons,
+          ...scores,
+          ...quantified,
           riskLevel,
+          rubricVersion,
           mitigationStrategy: mitigationStrategy ?? null,
           mitigationPlan: mitigationPlan ?? null,
-          owner: owner ?? null,
+          ...owner,
           status: status ?? "open",
         },
         include: {
@@ -925,11 +1530,11 @@ riskRoutes.post("/", async (req, res) => {
           },
         },
       });
-      await createRiskVersion(r.id, r, undefined, tx);
+      await createRiskVersion(auditActor(req), r.id, r, undefined, tx);
       return r;
     });
 
-    await createAuditLog(risk.id, "risk", risk.id, "created");
+    await createAuditLog(auditActor(req), risk.id, "risk", risk.id, "created");
     res.status(201).json(risk);
   } catch (err) {
     console.error(err);
@@ -939,10 +1544,12 @@ riskRoutes.post("/", async (req, res) => {
 
 const RISK_FIELDS_FOR_AUDIT = [
   "riskName", "riskCondition", "riskIf", "riskThen", "category",
-  "likelihood", "consequence", "mitigationStrategy", "mitigationPlan", "owner", "status",
+  "likelihood", "consequence", ...Object.values(CONSEQUENCE_FIELDS), "rubricVersion",
+  "probabilityPercent", "costImpactLow", "costImpactHigh", "scheduleImpactLowDays", "scheduleImpactHighDays",
+  "mitigationStrategy", "mitigationPlan", "owner", "status", "reviewCadenceDays",
 ] as const;
 
-riskRoutes.patch("/:id", async (req, res) => {
+riskRoutes.patch("/:id", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
   try {
     // Original L×C is immutable. Reject any attempt to change it.
     if ("originalLikelihood" in req.body || "originalConsequence" in req.body) {
@@ -958,7 +1565,6 @@ riskRoutes.patch("/:id", async (req, res) => {
       consequence,
       mitigationStrategy,
       mitigationPlan,
-      owner,
       status,
       likelihoodChangeReason,
       consequenceChangeReason,
@@ -981,18 +1587,45 @@ riskRoutes.patch("/:id", async (req, res) => {
       ? (await resolveCategoryCode(category)) ?? existing.category
       : existing.category;
     const lik = likelihood !== undefined ? Math.max(1, Math.min(5, Number(likelihood))) : existing.likelihood;
-    const cons = consequence !== undefined ? Math.max(1, Math.min(5, Number(consequence))) : existing.consequence;
+    const scores = readConsequenceScores(req.body, pickConsequenceScores(existing));
+    if (typeof scores === "string") return res.status(400).json({ error: scores });
+    // With dimension scores the overall consequence is derived (max); without, it is edited directly
+    const derived = overallConsequence(scores);
+    if (derived != null && consequence !== undefined && Number(consequence) !== derived) {
+      return res.status(400).json({ error: "consequence is the maximum of the cost, schedule, performance and other scores; change those instead" });
+    }
+    const cons = derived ?? (consequence !== undefined ? Math.max(1, Math.min(5, Number(consequence))) : existing.consequence);
+    const quantified = readQuantifiedImpact(req.body, pickQuantifiedImpact(existing));
+    if (typeof quantified === "string") return res.status(400).json({ error: quantified });
+    const reviewCadenceDays = readReviewCadenceDays(req.body);
+    if (typeof reviewCadenceDays === "string") return res.status(400).json({ error: reviewCadenceDays });
+    const owner = await readOwner(req.body, { owner: existing.owner, ownerId: existing.ownerId });
+    if (typeof owner === "string") return res.status(400).json({ error: owner });
 
     const lChanged = lik !== existing.likelihood;
     const cChanged = cons !== existing.consequence;
+    const changedDimensions = CONSEQUENCE_DIMENSIONS.filter((d) => scores[CONSEQUENCE_FIELDS[d]] !== existing[CONSEQUENCE_FIELDS[d]]);
     if (lChanged && (typeof likelihoodChangeReason !== "string" || !likelihoodChangeReason.trim())) {
       return res.status(400).json({ error: "likelihoodChangeReason is required when likelihood changes" });
     }
-    if (cChanged && (typeof consequenceChangeReason !== "string" || !consequenceChangeReason.trim())) {
+    const consequenceReasons: ConsequenceReasons = {};
+    for (const dim of changedDimensions) {
+      const reasonField = CONSEQUENCE_REASON_FIELDS[dim];
+      const reason = req.body[reasonField];
+      if (typeof reason !== "string" || !reason.trim()) {
+        return res.status(400).json({ error: `${reasonField} is required when the ${dim} consequence changes` });
+      }
+      consequenceReasons[reasonField] = reason.trim();
+    }
+    // A derived change is explained by the dimension reasons; a direct edit needs its own
+    const needsConsequenceReason = cChanged && changedDimensions.length === 0;
+    if (needsConsequenceReason && (typeof consequenceChangeReason !== "string" || !consequenceChangeReason.trim())) {
       return res.status(400).json({ error: "consequenceChangeReason is required when consequence changes" });
     }
 
-    const riskLevel = getRiskLevel(lik, cons);
+    const riskLevel = getRiskLevel(lik, cons, await getOrgUnitMatrix(existing.organizationalUnitId, "risk"));
+    // A re-scored risk is assessed against the PPD's current rubric; otherwise it keeps the version it had
+    const rubricVersion = lChanged || cChanged || changedDimensions.length > 0 ? await getCurrentRubricVersion(existing.organizationalUnitId) : existing.rubricVersion;
 
     const risk = await prisma.risk.update({
       where: { id: req.params.id },
@@ -1004,11 +1637,15 @@ riskRoutes.patch("/:id", async (req, res) => {
         category: cat,
         likelihood: lik,
         consequence: cons,
+        ...scores,
+        ...quantified,
         riskLevel,
+        rubricVersion,
         mitigationStrategy: mitigationStrategy ?? existing.mitigationStrategy,
         mitigationPlan: mitigationPlan ?? existing.mitigationPlan,
-        owner: owner ?? existing.owner,
+        ...owner,
         status: status ?? existing.status,
+        reviewCadenceDays: reviewCadenceDays === undefined ? existing.reviewCadenceDays : reviewCadenceDays,
       },
       include: {
         organizationalUnit: {
@@ -1017,9 +1654,10 @@ riskRoutes.patch("/:id", async (req, res) => {
       },
     });
 
-    await createRiskVersion(risk.id, risk, {
+    await createRiskVersion(auditActor(req), risk.id, risk, {
       likelihoodChangeReason: lChanged ? likelihoodChangeReason.trim() : null,
-      consequenceChangeReason: cChanged ? consequenceChangeReason.trim() : null,
+      consequenceChangeReason: needsConsequenceReason ? consequenceChangeReason.trim() : null,
+      consequenceReasons,
       statusChangeRationale: statusChangingToClosedAcceptedOrRealized ? statusChangeRationale.trim() : null,
     });
 
@@ -1032,11 +1670,12 @@ riskRoutes.patch("/:id", async (req, res) => {
       }
     }
     const changedFields = Object.keys(changes);
-    await createAuditLog(risk.id, "risk", risk.id, "updated", {
+    await createAuditLog(auditActor(req), risk.id, "risk", risk.id, "updated", {
       changedFields: changedFields.length > 0 ? changedFields : undefined,
       changes: Object.keys(changes).length > 0 ? changes : undefined,
       likelihoodChangeReason: lChanged && likelihoodChangeReason?.trim() ? likelihoodChangeReason.trim() : undefined,
-      consequenceChangeReason: cChanged && consequenceChangeReason?.trim() ? consequenceChangeReason.trim() : undefined,
+      consequenceChangeReason: needsConsequenceReason && consequenceChangeReason?.trim() ? consequenceChangeReason.trim() : undefined,
+      consequenceReasons: changedDimensions.length > 0 ? consequenceReasons : undefined,
       statusChangeRationale: statusChangingToClosedAcceptedOrRealized && statusChangeRationale?.trim() ? statusChangeRationale.trim() : undefined,
     });
 
@@ -1047,11 +1686,33 @@ riskRoutes.patch("/:id", async (req, res) => {
   }
 });
 
-riskRoutes.delete("/:id", async (req, res) => {
+/**
+ * POST /:id/review — record "reviewed, no change": a new version repeating the current state, which
+ * restarts the review cadence. Body: { note? }.
+ */
+riskRoutes.post("/:id/review", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
+  try {
+    const existing = await prisma.risk.findUnique({ where: { id: req.params.id } });
+    if (!existing) return res.status(404).json({ error: "Risk not found" });
+    const reviewNote = typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+    await createRiskVersion(auditActor(req), existing.id, existing, { reviewedNoChange: true, reviewNote });
+    await createAuditLog(auditActor(req), existing.id, "risk", existing.id, "reviewed", reviewNote ? { reviewNote } : undefined);
+    const risk = await prisma.risk.findUniqueOrThrow({ where: { id: existing.id } });
+    const [withSchedule] = await withReviewSchedules([risk], "risk", (r) => r.riskLevel);
+    res.json(withSchedule);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to record review" });
+  }
+});
+
+riskRoutes.delete("/:id", requireOrgUnitRole("editor", orgUnitOfRisk()), async (req, res) => {
   try {
     const riskId = req.params.id;
-    await createAuditLog(riskId, "risk", riskId, "deleted");
+    await createAuditLog(auditActor(req), riskId, "risk", riskId, "deleted");
     await prisma.risk.delete({ where: { id: riskId } });
+    await deleteRioItemRelationships("risk", riskId);
+    await deleteRioItemComments("risk", riskId);
     res.status(204).send();
   } catch (err) {
     console.error(err);
@@ -0,0 +1,184 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { generateApiKey } from "../lib/apiKeys.js";
+import { ROLES, type Role } from "../lib/permissions.js";
+import { requireAdmin } from "../middleware/permissions.js";
+
+/**
+ * Service accounts: non-human Users for scripts and integrations (backfills, exports).
+ * They hold the same UserPermission rows as people and authenticate only with API keys,
+ * so their changes are attributed to the account (and key) in audit logs. Admin only.
+ */
+export const serviceAccountRoutes = Router();
+
+serviceAccountRoutes.use(requireAdmin);
+
+const SERVICE_ACCOUNT_SELECT = {
+  id: true,
+  username: true,
+  displayName: true,
+  isAdmin: true,
+  createdAt: true,
+  permissions: {
+    select: {
+      legalEntityId: true,
+      organizationalUnitId: true,
+      role: true,
+      organizationalUnit: { select: { id: true, name: true, legalEntity: { select: { id: true, name: true, code: true } } } },
+    },
+  },
+  apiKeys: {
+    orderBy: { createdAt: "desc" },
+    select: { id: true, name: true, prefix: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+  },
+} as const;
+
+type PermissionInput = { organizationalUnitId: string; role: Role };
+
+/** Validate `[{ organizationalUnitId, role }]` and resolve each unit's legal entity. Returns an error message on bad input. */
+async function resolvePermissions(raw: unknown): Promise<{ legalEntityId: string; organizationalUnitId: string; role: Role }[] | string> {
+  if (!Array.isArray(raw)) return "permissions must be an array";
+  const inputs: PermissionInput[] = [];
+  for (const p of raw) {
+    if (!p || typeof p.organizationalUnitId !== "string" || !ROLES.includes(p.role)) {
+      return "Each permission needs organizationalUnitId and role (admin, editor or viewer)";
+    }
+    inputs.push({ organizationalUnitId: p.organizationalUnitId, role: p.role });
+  }
+  const ids = [...new Set(inputs.map((p) => p.organizationalUnitId))];
+  if (ids.length !== inputs.length) return "Each organizational unit may appear only once";
+  const units = await prisma.organizationalUnit.findMany({ where: { id: { in: ids } }, select: { id: true, legalEntityId: true } });
+  if (units.length !== ids.length) return "Unknown organizational unit in permissions";
+  const leByUnit = new Map(units.map((u) => [u.id, u.legalEntityId]));
+  return inputs.map((p) => ({ ...p, legalEntityId: leByUnit.get(p.organizationalUnitId)! }));
+}
+
+function slugFromName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "service";
+}
+
+serviceAccountRoutes.get("/", async (_req, res) => {
+  try {
+    const accounts = await prisma.user.findMany({
+      where: { isServiceAccount: true },
+      orderBy: { displayName: "asc" },
+      select: SERVICE_ACCOUNT_SELECT,
+    });
+    res.json(accounts);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch service accounts" });
+  }
+});
+
+serviceAccountRoutes.post("/", async (req, res) => {
+  try {
+    const { name, isAdmin, permissions } = req.body;
+    const nameStr = typeof name === "string" ? name.trim() : "";
+    if (!nameStr) return res.status(400).json({ error: "name is required" });
+    const resolved = await resolvePermissions(permissions ?? []);
+    if (typeof resolved === "string") return res.status(400).json({ error: resolved });
+
+    const slug = `${slugFromName(nameStr)}-${crypto.randomBytes(3).toString("hex")}`;
+    const account = await prisma.user.create({
+      data: {
+        externalId: `service:${slug}`,
+        username: `service:${slug}`,
+        displayName: nameStr,
+        isServiceAccount: true,
+        isAdmin: isAdmin === true,
+        permissions: { create: resolved },
+      },
+      select: SERVICE_ACCOUNT_SELECT,
+    });
+    res.status(201).json(account);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create service account" });
+  }
+});
+
+/** PATCH /:id — rename, toggle global Admin, or replace the full permission list. */
+serviceAccountRoutes.patch("/:id", async (req, res) => {
+  try {
+    const existing = await prisma.user.findFirst({ where: { id: req.params.id, isServiceAccount: true }, select: { id: true } });
+    if (!existing) return res.status(404).json({ error: "Service account not found" });
+    const { name, isAdmin, permissions } = req.body;
+    const data: { displayName?: string; isAdmin?: boolean } = {};
+    if (name !== undefined) {
+      const nameStr = typeof name === "string" ? name.trim() : "";
+      if (!nameStr) return res.status(400).json({ error: "name cannot be empty" });
+      data.displayName = nameStr;
+    }
+    if (isAdmin !== undefined) data.isAdmin = isAdmin === true;
+    const resolved = permissions !== undefined ? await resolvePermissions(permissions) : null;
+    if (typeof resolved === "string") return res.status(400).json({ error: resolved });
+
+    const account = await prisma.$transaction(async (tx) => {
+      if (resolved) {
+        await tx.userPermission.deleteMany({ where: { userId: existing.id } });
+        await tx.userPermission.createMany({ data: resolved.map((p) => ({ ...p, userId: existing.id })) });
+      }
+      return tx.user.update({ where: { id: existing.id }, data, select: SERVICE_ACCOUNT_SELECT });
+    });
+    res.json(account);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update service account" });
+  }
+});
+
+/** DELETE /:id — removes the account; its keys stop working immediately. Audit rows keep the display name snapshot. */
+serviceAccountRoutes.delete("/:id", async (req, res) => {
+  try {
+    const existing = await prisma.user.findFirst({ where: { id: req.params.id, isServiceAccount: true }, select: { id: true } });
+    if (!existing) return res.status(404).json({ error: "Service account not found" });
+    await prisma.user.delete({ where: { id: existing.id } });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to delete service account" });
+  }
+});
+
+/** POST /:id/keys — issues a key. The plaintext `key` is returned only in this response. */
+serviceAccountRoutes.post("/:id/keys", async (req, res) => {
+  try {
+    const existing = await prisma.user.findFirst({ where: { id: req.params.id, isServiceAccount: true }, select: { id: true } });
+    if (!existing) return res.status(404).json({ error: "Service account not found" });
+    const nameStr = typeof req.body.name === "string" ? req.body.name.trim() : "";
+    if (!nameStr) return res.status(400).json({ error: "name is required" });
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+      data: { userId: existing.id, name: nameStr, prefix, keyHash, createdById: req.user!.id },
+      select: { id: true, name: true, prefix: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+    });
+    res.status(201).json({ ...apiKey, key });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+});
+
+/** DELETE /:id/keys/:keyId — revokes a key. The row is kept so the UI can show when it was revoked. */
+serviceAccountRoutes.delete("/:id/keys/:keyId", async (req, res) => {
+  try {
+    const apiKey = await prisma.apiKey.findFirst({ where: { id: req.params.keyId, userId: req.params.id } });
+    if (!apiKey) return res.status(404).json({ error: "API key not found" });
+    if (apiKey.revokedAt) return res.status(400).json({ error: "API key is already revoked" });
+    const revoked = await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date(), revokedById: req.user!.id },
+      select: { id: true, name: true, prefix: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+    });
+    res.json(revoked);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to revoke API key" });
+  }
+});
@@ -3,6 +3,7 @@ import multer from "multer";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { requireAdmin } from "../middleware/permissions.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -36,8 +37,8 @@ const upload = multer({
 
 export const settingsRoutes = Router();
 
-/** POST /api/settings/logo — upload logo. Accepts multipart/form-data with field "logo". */
-settingsRoutes.post("/logo", (req, res, next) => {
+/** POST /api/settings/logo — upload logo (Admin only). Accepts multipart/form-data with field "logo". */
+settingsRoutes.post("/logo", requireAdmin, (req, res, next) => {
   upload.single("logo")(req, res, (err: unknown) => {
     if (err) {
       const msg = err instanceof Error ? err.message : "Upload failed";
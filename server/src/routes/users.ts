@@ -0,0 +1,142 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma.js";
+import { ROLES, getEffectiveAccess } from "../lib/permissions.js";
+import { requireAdmin } from "../middleware/permissions.js";
+
+export const userRoutes = Router();
+
+/** GET /api/users?search= — Admin only. Matches display name, username or email. Service accounts are listed under /api/service-accounts. */
+userRoutes.get("/", requireAdmin, async (req, res) => {
+  try {
+    const search = typeof req.query.search === "string" ? req.query.search.trim() : "";
+    const users = await prisma.user.findMany({
+      where: {
+        isServiceAccount: false,
+        ...(search
+          ? {
+              OR: [
+                { displayName: { contains: search, mode: "insensitive" } },
+                { username: { contains: search, mode: "insensitive" } },
+                { email: { contains: search, mode: "insensitive" } },
+              ],
+            }
+          : {}),
+      },
+      orderBy: { displayName: "asc" },
+      take: 50,
+      select: {
+        id: true,
+        username: true,
+        displayName: true,
+        email: true,
+        isAdmin: true,
+        lastLoginAt: true,
+        _count: { select: { permissions: true } },
+      },
+    });
+    res.json(users);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch users" });
+  }
+});
+
+const USER_SELECT = { id: true, username: true, displayName: true, email: true, isAdmin: true, isServiceAccount: true, lastLoginAt: true } as const;
+
+/** GET /api/users/:id/access — Admin only. The user plus their effective access to every LE/PPD. */
+userRoutes.get("/:id/access", requireAdmin, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.params.id }, select: USER_SELECT });
+    if (!user) return res.status(404).json({ error: "User not found" });
+    res.json({ user, access: await getEffectiveAccess(user) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to fetch user access" });
+  }
+});
+
+/** PATCH /api/users/:id — Admin only. Grants or removes global Admin. */
+userRoutes.patch("/:id", requireAdmin, async (req, res) => {
+  try {
+    const { isAdmin } = req.body;
+    if (typeof isAdmin !== "boolean") return res.status(400).json({ error: "isAdmin (boolean) is required" });
+    if (req.params.id === req.user!.id && !isAdmin) {
+      return res.status(400).json({ error: "You cannot remove your own Admin role" });
+    }
+    const existing = await prisma.user.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!existing) return res.status(404).json({ error: "User not found" });
+    const user = await prisma.user.update({ where: { id: existing.id }, data: { isAdmin }, select: USER_SELECT });
+    res.json(user);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to update user" });
+  }
+});
+
+/** PUT /api/users/:id/permissions/:organizationalUnitId — Admin only. Body: { role }. Grants or changes the role on one LE/PPD. */
+userRoutes.put("/:id/permissions/:organizationalUnitId", requireAdmin, async (req, res) => {
+  try {
+    const { role } = req.body;
+    if (!ROLES.includes(role)) return res.status(400).json({ error: "role must be admin, editor, or viewer" });
+    const [user, orgUnit] = await Promise.all([
+      prisma.user.findUnique({ where: { id: req.params.id }, select: { id: true } }),
+      prisma.organizationalUnit.findUnique({ where: { id: req.params.organizationalUnitId }, select: { id: true, legalEntityId: true } }),
+    ]);
+    if (!user) return res.status(404).json({ error: "User not found" });
+    if (!orgUnit) return res.status(404).json({ error: "Organizational unit not found" });
+    const permission = await prisma.userPermission.upsert({
+      where: { userId_organizationalUnitId: { userId: user.id, organizationalUnitId: orgUnit.id } },
+      create: { userId: user.id, legalEntityId: orgUnit.legalEntityId, organizationalUnitId: orgUnit.id, role },
+      update: { role },
+      select: { legalEntityId: true, organizationalUnitId: true, role: true },
+    });
+    res.json(permission);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to save permission" });
+  }
+});
+
+/** DELETE /api/users/:id/permissions/:organizationalUnitId — Admin only. Removes the user's access to one LE/PPD. */
+userRoutes.delete("/:id/permissions/:organizationalUnitId", requireAdmin, async (req, res) => {
+  try {
+    const { count } = await prisma.userPermission.deleteMany({
+      where: { userId: req.params.id, organizationalUnitId: req.params.organizationalUnitId },
+    });
+    if (count === 0) return res.status(404).json({ error: "Permission not found" });
+    res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to remove permission" });
+  }
+});
+
+/**
+ * POST /api/users/:id/permissions/bulk — Admin only. Body: { legalEntityId, role }.
+ * Grants `role` on every Program/Project/Department of the entity (existing roles there are overwritten).
+ * PPDs added to the entity later are not included; there is no LE→PPD inheritance.
+ */
+userRoutes.post("/:id/permissions/bulk", requireAdmin, async (req, res) => {
+  try {
+    const { legalEntityId, role } = req.body;
+    if (typeof legalEntityId !== "string" || !legalEntityId) return res.status(400).json({ error: "legalEntityId is required" });
+    if (!ROLES.includes(role)) return res.status(400).json({ error: "role must be admin, editor, or viewer" });
+    const user = await prisma.user.findUnique({ where: { id: req.params.id }, select: { id: true } });
+    if (!user) return res.status(404).json({ error: "User not found" });
+    const orgUnits = await prisma.organizationalUnit.findMany({ where: { legalEntityId }, select: { id: true } });
+    if (orgUnits.length === 0) return res.status(400).json({ error: "Entity has no programs, projects or departments" });
+    await prisma.$transaction(
+      orgUnits.map((ou) =>
+        prisma.userPermission.upsert({
+          where: { userId_organizationalUnitId: { userId: user.id, organizationalUnitId: ou.id } },
+          create: { userId: user.id, legalEntityId, organizationalUnitId: ou.id, role },
+          update: { role },
+        })
+      )
+    );
+    res.json({ updated: orgUnits.length });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Failed to assign permissions" });
+  }
+});